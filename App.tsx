@@ -1,69 +1,245 @@
-import React, { useState, useRef } from 'react';
-import { PatientInfo, TreatmentType, FilePart, ReligiousTreatments } from './types';
-import { generatePrescription } from './services/geminiService';
-import { AIDoctorLogoIcon, LoadingIcon, UploadCloudIcon, DocumentIcon, TrashIcon } from './components/icons';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { PatientInfo, PrescriptionData, Consultation, PatientRecord, TriageResult, ClinicProfile, PrescriptionReview, ChatMessage, LabResult, SymptomSummary, TreatmentModality, PrescriptionLayout, UploadedReport, QueuedConsultation, ConsentRecord } from './types';
+import { askFollowUp, extractLabResults, generatePrescription, previewConsultationRequests, runTriage } from './services/geminiService';
+import { getConsultation, getConsultationAttachments, getConsultations, getPatientId, saveConsultation, updateConsultation } from './services/patientHistory';
+import { MAX_TEXT_LENGTH, PREGNANCY_LABELS, SEX_LABELS, canBePregnant, missingRecommendedFields, validateClinicalIntake } from './services/clinicalIntake';
+import { AIDoctorLogoIcon, LoadingIcon, UploadCloudIcon, HistoryIcon, SettingsIcon, ClinicIcon, LockIcon } from './components/icons';
 import { Prescription } from './components/Prescription';
+import { PatientHistory } from './components/PatientHistory';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PrivacyPreview } from './components/PrivacyPreview';
+import { ClinicProfilePanel } from './components/ClinicProfilePanel';
+import { loadAISettings, loadAutoLockMinutes, loadClinicProfile, loadConsultationQueue, loadModalities, loadUiLanguage, saveUiLanguage } from './services/settings';
+import { RELIGIONS, getAvailableModalities, modalityLabel } from './services/modalities';
+import { EmergencyScreen } from './components/EmergencyScreen';
+import { LabResultsTable } from './components/LabResultsTable';
+import { VoiceInput } from './components/VoiceInput';
+import { ReportUploadList } from './components/ReportUploadList';
+import { ACCEPTED_REPORT_TYPES, attachmentsToParts, checkReportFile, hashReportFile, isReportSent, prepareReport, reportAttachments, reportMetadata, reportsToParts, uniqueReportName } from './services/reportUpload';
+import { startDoseReminders } from './services/doseReminders';
+import { readShareFragment } from './services/shareLink';
+import { SharedPrescriptionView } from './components/SharedPrescriptionView';
+import { ConsultationQueue } from './components/ConsultationQueue';
+import { canReachModel, clearFinishedQueued, enqueueConsultation, overrideQueued, processQueue, removeQueued, retryQueued } from './services/consultationQueue';
+import { LockScreen } from './components/LockScreen';
+import { isVaultUnlocked, lockVault, onVaultChange, startAutoLock } from './services/vault';
+import { SymptomQuestionnaire } from './components/SymptomQuestionnaire';
+import { describeSymptomSummary, emptySymptomSummary, isSymptomSummaryComplete } from './services/symptomQuestionnaire';
+import { combineTriage, detectRedFlags } from './services/triage';
+import { I18nContext, MessageKey, SUPPORTED_LANGUAGES, createI18n, createTranslator } from './services/i18n';
+import { describeError } from './services/providers/errors';
 
-type PrescriptionData = {
-  illnessTitle: string;
-  prescriptionContent: string;
-  advice: string;
+const emptyPatientInfo: PatientInfo = {
+  name: '', age: '', district: '', cell: '', religion: '', language: 'English',
+  sex: '', weightKg: '', heightCm: '', allergies: '', currentMedications: '', chronicConditions: '', pregnancyStatus: '',
 };
 
-const supportedLanguages = [
-  'English', 'Mandarin Chinese', 'Hindi', 'Spanish', 'French', 
-  'Arabic', 'Bengali', 'Portuguese', 'Russian', 'Urdu'
-];
+const draftReview: PrescriptionReview = { status: 'draft', notes: '' };
 
 const App: React.FC = () => {
-  const [patientInfo, setPatientInfo] = useState<PatientInfo>({ name: '', age: '', district: '', cell: '', religion: '', language: 'English' });
+  const [patientInfo, setPatientInfo] = useState<PatientInfo>(emptyPatientInfo);
   const [symptomDescription, setSymptomDescription] = useState<string>('');
   const [reportComments, setReportComments] = useState<string>('');
+  const [symptomSummary, setSymptomSummary] = useState<SymptomSummary>(emptySymptomSummary);
   const [selectedTreatments, setSelectedTreatments] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [prescription, setPrescription] = useState<PrescriptionData | null>(null);
-  const [activeTab, setActiveTab] = useState<'text' | 'upload'>('text');
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [originalPrescription, setOriginalPrescription] = useState<PrescriptionData | null>(null);
+  const [review, setReview] = useState<PrescriptionReview>(draftReview);
+  const [consultationId, setConsultationId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [generationNotice, setGenerationNotice] = useState<string | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [printChat, setPrintChat] = useState<boolean>(false);
+  const [layout, setLayout] = useState<PrescriptionLayout>('stacked');
+  const generationRef = useRef<AbortController | null>(null);
+  const [activeTab, setActiveTab] = useState<'text' | 'guided' | 'upload'>('text');
+  const [uploadedReports, setUploadedReports] = useState<UploadedReport[]>([]);
+  const [processingFiles, setProcessingFiles] = useState<string[]>([]);
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
+  const [labResults, setLabResults] = useState<LabResult[]>([]);
+  const [isExtracting, setIsExtracting] = useState<boolean>(false);
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [view, setView] = useState<'form' | 'history'>('form');
+  const [previousConsultations, setPreviousConsultations] = useState<Consultation[]>([]);
+  const [includeHistory, setIncludeHistory] = useState<boolean>(true);
+  const [printRequested, setPrintRequested] = useState<boolean>(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isClinicProfileOpen, setIsClinicProfileOpen] = useState<boolean>(false);
+  const [clinicProfile, setClinicProfile] = useState<ClinicProfile>(loadClinicProfile);
+  const [modalities, setModalities] = useState<TreatmentModality[]>(loadModalities);
+  const [triage, setTriage] = useState<TriageResult | null>(null);
+  const [isEmergency, setIsEmergency] = useState<boolean>(false);
+  const [uiLanguage, setUiLanguage] = useState<string>(loadUiLanguage);
+  const [shareFragment, setShareFragment] = useState<string | null>(() => readShareFragment(window.location.hash));
+  const [queue, setQueue] = useState<QueuedConsultation[]>([]);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [isUnlocked, setIsUnlocked] = useState<boolean>(isVaultUnlocked);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(loadAutoLockMinutes);
+  const [consent, setConsent] = useState<ConsentRecord | null>(null);
+  const [isPrivacyPreviewOpen, setIsPrivacyPreviewOpen] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const i18n = useMemo(() => createI18n(uiLanguage), [uiLanguage]);
+  const { t } = i18n;
+
+  // Right-to-left languages flip the whole page, including the browser's own scrollbars and form controls
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+    document.documentElement.dir = i18n.dir;
+  }, [i18n]);
+
+  // Dose reminders the patient turned on keep firing for as long as the app is open
+  useEffect(() => startDoseReminders(), []);
+
+  // A share link opens the read-only patient view instead of the consultation form
+  useEffect(() => {
+    const handleHashChange = () => setShareFragment(readShareFragment(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // A confirmed recording adds to whatever was already typed rather than replacing it
+  const handleTranscriptConfirm = (text: string) => {
+    setSymptomDescription(prev => (prev.trim() ? `${prev.trimEnd()}\n${text}` : text));
+  };
+
+  const handleUiLanguageChange = (language: string) => {
+    setUiLanguage(language);
+    saveUiLanguage(language);
+  };
+
+  useEffect(() => onVaultChange(setIsUnlocked), []);
+
+  // Locks after a stretch without input, but never in the middle of generating a prescription
+  useEffect(() => {
+    if (!isUnlocked || isLoading || isGenerating) return;
+    return startAutoLock(autoLockMinutes);
+  }, [isUnlocked, isLoading, isGenerating, autoLockMinutes]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Consultations queued while offline are generated once the app is unlocked and whenever the connection returns
+  useEffect(() => {
+    if (!isUnlocked) return;
+    loadConsultationQueue()
+      .then(setQueue)
+      .catch(err => console.error("Error loading the consultation queue:", err));
+    if (isOnline) processQueue(setQueue);
+  }, [isUnlocked, isOnline]);
+
+  // Look up earlier visits of a returning patient (matched by name + cell)
+  useEffect(() => {
+    if (!patientInfo.name.trim() || !isUnlocked) {
+      setPreviousConsultations([]);
+      return;
+    }
+    let cancelled = false;
+    getConsultations(getPatientId(patientInfo))
+      .then(records => { if (!cancelled) setPreviousConsultations(records); })
+      .catch(err => console.error("Error loading previous consultations:", err));
+    return () => { cancelled = true; };
+  }, [patientInfo.name, patientInfo.cell, isUnlocked]);
+
+  useEffect(() => {
+    if (printRequested && prescription) {
+      setPrintRequested(false);
+      window.print();
+    }
+  }, [printRequested, prescription]);
   
   // --- File Handling ---
-  const fileToPart = async (file: File): Promise<FilePart> => {
-    const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = (error) => reject(error);
-    });
-    return {
-        inlineData: {
-            mimeType: file.type,
-            data: base64,
-        },
-    };
-  };
+  // Read by uploads still in progress, which started with an older list
+  const uploadedReportsRef = useRef(uploadedReports);
+  uploadedReportsRef.current = uploadedReports;
 
-  const handleFiles = (files: FileList | null) => {
+  // Files are matched by content, so a report attached twice (even under another name) is skipped.
+  // They are prepared one at a time to keep memory use down on phones.
+  const handleFiles = async (files: FileList | null) => {
     if (!files) return;
     const newFiles = Array.from(files);
-    const validFiles = newFiles.filter(file => 
-      ['image/jpeg', 'image/png', 'application/pdf'].includes(file.type) && file.size < 10 * 1024 * 1024 // 10MB limit
-    );
+    const validFiles = newFiles.filter(file => checkReportFile(file) !== null);
     
     if (validFiles.length !== newFiles.length) {
-        setError("Some files were invalid. Only JPG, PNG, and PDF files under 10MB are accepted.");
+        setError(t('error.invalidFiles'));
     }
 
-    setUploadedFiles(prev => [...prev, ...validFiles]);
+    setUploadNotice(null);
+    setProcessingFiles(prev => [...prev, ...validFiles.map(file => file.name)]);
+    const seen = new Set(uploadedReportsRef.current.map(report => report.id));
+    const duplicates: string[] = [];
+    const failed: string[] = [];
+    for (const file of validFiles) {
+      try {
+        const id = await hashReportFile(file);
+        if (seen.has(id)) {
+          duplicates.push(file.name);
+          continue;
+        }
+        seen.add(id);
+        const report = await prepareReport(file, id);
+        setUploadedReports(prev => prev.some(existing => existing.id === id)
+          ? prev
+          : [...prev, { ...report, name: uniqueReportName(report.name, prev.map(existing => existing.name)) }]);
+      } catch (err) {
+        console.error("Error preparing report:", err);
+        failed.push(file.name);
+      } finally {
+        setProcessingFiles(prev => {
+          const index = prev.indexOf(file.name);
+          return index < 0 ? prev : [...prev.slice(0, index), ...prev.slice(index + 1)];
+        });
+      }
+    }
+    const notices = [
+      duplicates.length > 0 && t('upload.duplicate', { names: duplicates.join(', ') }),
+      failed.length > 0 && t('upload.failed', { names: failed.join(', ') }),
+    ].filter(Boolean);
+    if (notices.length > 0) setUploadNotice(notices.join(' '));
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     handleFiles(e.target.files);
+    // Lets the same file be picked again after it was removed
+    e.target.value = '';
   };
 
-  const removeFile = (fileName: string) => {
-    setUploadedFiles(prev => prev.filter(file => file.name !== fileName));
+  const updateReport = (report: UploadedReport) => {
+    setUploadedReports(prev => prev.map(existing => (existing.id === report.id ? report : existing)));
+  };
+
+  const removeReport = (id: string) => {
+    const removed = uploadedReports.find(report => report.id === id);
+    setUploadedReports(prev => prev.filter(report => report.id !== id));
+    if (removed) setLabResults(prev => prev.filter(result => result.source !== removed.name));
+  };
+
+  // Only reports that have not been read yet are sent, so staff corrections are kept
+  const pendingExtraction = uploadedReports.filter(report => isReportSent(report) && !labResults.some(result => result.source === report.name));
+
+  const handleExtractLabResults = async () => {
+    setIsExtracting(true);
+    setError(null);
+    try {
+      const fileParts = await reportsToParts(pendingExtraction);
+      const extracted = await extractLabResults(fileParts, pendingExtraction.map(report => report.name));
+      setLabResults(prev => [...prev, ...extracted]);
+    } catch (err: unknown) {
+      setError(describeError(err, t));
+    } finally {
+      setIsExtracting(false);
+    }
   };
   
   const preventDefaults = (e: React.DragEvent) => {
@@ -89,16 +265,15 @@ const App: React.FC = () => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    // If religion is changed, deselect any existing religious treatment
+    // If religion is changed, deselect treatments the patient is no longer eligible for
     if (name === 'religion') {
-        const currentReligiousTreatment = ReligiousTreatments[patientInfo.religion as keyof typeof ReligiousTreatments];
-        if (currentReligiousTreatment) {
-            setSelectedTreatments(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(currentReligiousTreatment);
-                return newSet;
-            });
-        }
+        const eligible = new Set(getAvailableModalities(modalities, value).map(modality => modality.id));
+        setSelectedTreatments(prev => new Set([...prev].filter(id => eligible.has(id))));
+    }
+    // Pregnancy status does not apply to male patients
+    if (name === 'sex' && value === 'male') {
+        setPatientInfo(prev => ({ ...prev, sex: 'male', pregnancyStatus: '' }));
+        return;
     }
     setPatientInfo(prev => ({ ...prev, [name]: value }));
   };
@@ -116,44 +291,316 @@ const App: React.FC = () => {
   };
   
   const resetForm = () => {
-    setPatientInfo({ name: '', age: '', district: '', cell: '', religion: '', language: 'English' });
+    setPatientInfo(emptyPatientInfo);
     setSymptomDescription('');
     setReportComments('');
+    setSymptomSummary(emptySymptomSummary);
     setSelectedTreatments(new Set());
     setPrescription(null);
+    setOriginalPrescription(null);
+    setReview(draftReview);
+    setConsultationId(null);
+    setGenerationNotice(null);
+    setChat([]);
+    setPrintChat(false);
+    setLayout('stacked');
     setError(null);
-    setUploadedFiles([]);
+    setUploadedReports([]);
+    setUploadNotice(null);
+    setLabResults([]);
     setActiveTab('text');
+    setIncludeHistory(true);
+    setTriage(null);
+    setIsEmergency(false);
+    setQueueNotice(null);
+    setConsent(null);
   };
 
   const handleEdit = () => {
     setPrescription(null);
   };
 
+  // --- Patient History ---
+  const handleReopen = (consultation: Consultation) => {
+    setPatientInfo({ ...emptyPatientInfo, ...consultation.patientInfo });
+    setActiveTab(consultation.inputMode);
+    setSymptomDescription(consultation.inputMode === 'text' ? consultation.description : '');
+    setReportComments(consultation.inputMode === 'upload' ? consultation.description : '');
+    setSymptomSummary(consultation.symptomSummary ?? emptySymptomSummary);
+    setSelectedTreatments(new Set(consultation.treatments));
+    setUploadedReports([]);
+    setUploadNotice(null);
+    setLabResults(consultation.labResults ?? []);
+    setError(null);
+    setPrescription(consultation.result);
+    setOriginalPrescription(consultation.original ?? consultation.result);
+    setReview(consultation.review ?? draftReview);
+    setConsultationId(consultation.id);
+    setGenerationNotice(consultation.incomplete ? t('prescription.incomplete') : null);
+    setTriage(consultation.triage ?? null);
+    setChat(consultation.chat ?? []);
+    setPrintChat(consultation.printChat ?? false);
+    setLayout(consultation.layout ?? 'stacked');
+    setConsent(consultation.consent ?? null);
+    setView('form');
+  };
+
+  const handleOpenQueued = async (item: QueuedConsultation) => {
+    if (!item.consultationId) return;
+    try {
+      const consultation = await getConsultation(item.consultationId);
+      if (consultation) handleReopen(consultation);
+      else setError(t('queue.missing'));
+    } catch (err) {
+      console.error("Error opening queued consultation:", err);
+      setError(t('queue.missing'));
+    }
+  };
+
+  const handlePrint = (consultation: Consultation) => {
+    handleReopen(consultation);
+    setPrintRequested(true);
+  };
+
+  const handleFollowUp = (patient: PatientRecord) => {
+    resetForm();
+    setPatientInfo({ ...emptyPatientInfo, ...patient.info });
+    setView('form');
+  };
+
+  // Guided answers are summarised in English so triage, history and follow-up chat can use them like typed text
+  const currentDescription = (): string => {
+    if (activeTab === 'guided') return describeSymptomSummary(symptomSummary, createTranslator('English')).join('. ');
+    return activeTab === 'text' ? symptomDescription : reportComments;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const descriptionForApi = activeTab === 'text' ? symptomDescription : reportComments;
+    const descriptionForApi = currentDescription();
     const isInputMissing =
         (activeTab === 'text' && symptomDescription.trim() === '') ||
-        (activeTab === 'upload' && uploadedFiles.length === 0);
+        (activeTab === 'guided' && !isSymptomSummaryComplete(symptomSummary)) ||
+        (activeTab === 'upload' && !uploadedReports.some(isReportSent));
 
-    if (!patientInfo.name || !patientInfo.age || !patientInfo.district || !patientInfo.religion || !patientInfo.language || isInputMissing || selectedTreatments.size === 0) {
-        setError('Please fill all required fields, describe your symptoms or upload a report, and select at least one treatment type.');
+    if (!patientInfo.name || !patientInfo.age || !patientInfo.district || !patientInfo.religion || !patientInfo.language || isInputMissing || selectedModalityIds.length === 0) {
+        setError(t('error.requiredFields'));
+        return;
+    }
+
+    if (Object.keys(clinicalErrors).length > 0) {
+        setError(t('error.clinicalDetails'));
+        return;
+    }
+
+    if (!consent) {
+        setError(t('consent.required'));
         return;
     }
 
     setError(null);
+    setQueueNotice(null);
     setIsLoading(true);
     setPrescription(null);
 
     try {
-      const fileParts = await Promise.all(uploadedFiles.map(fileToPart));
-      const treatments = [...selectedTreatments];
-      const result = await generatePrescription(patientInfo, descriptionForApi, treatments, fileParts);
-      setPrescription(result);
-    } catch (err: any) {
-      setError(err.message);
+      // Triage runs before anything else; emergencies stop here and show the emergency screen.
+      // Offline only the local red-flag rules run, and the model has its say when the queue sends the consultation.
+      const triageResult = canReachModel()
+        ? await runTriage(patientInfo, descriptionForApi)
+        : combineTriage(detectRedFlags(descriptionForApi, patientInfo));
+      setTriage(triageResult);
+      if (triageResult.urgency === 'emergency') {
+        setIsEmergency(true);
+        return;
+      }
+      await generateAndSave(triageResult);
+    } catch (err: unknown) {
+      setError(describeError(err, t));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The same inputs generateAndSave sends; the urgency is left out because the triage has not run yet
+  const loadPrivacyPreview = async () =>
+    previewConsultationRequests(patientInfo, currentDescription(), selectedModalityIds, await reportsToParts(uploadedReports), {
+      previousConsultations: includeHistory ? previousConsultations : [],
+      labResults,
+      symptomSummary: activeTab === 'guided' ? symptomSummary : undefined,
+    });
+
+  const generateAndSave = async (triageResult: TriageResult) => {
+    const descriptionForApi = currentDescription();
+    const guidedSummary = activeTab === 'guided' ? symptomSummary : undefined;
+    const fileParts = await reportsToParts(uploadedReports);
+    const treatments = selectedModalityIds;
+    if (!canReachModel()) {
+      await queueConsultation(triageResult, fileParts);
+      return;
+    }
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setGenerationNotice(null);
+    setIsGenerating(true);
+
+    // Sections are shown as they stream in; the loading screen only covers the wait for the first one
+    let latest: PrescriptionData | null = null;
+    let result: PrescriptionData;
+    let incomplete = false;
+    try {
+      result = await generatePrescription(patientInfo, descriptionForApi, treatments, fileParts, {
+        previousConsultations: includeHistory ? previousConsultations : [],
+        urgency: triageResult.urgency,
+        labResults,
+        symptomSummary: guidedSummary,
+      }, {
+        signal: controller.signal,
+        onPartial: (partial) => {
+          latest = partial;
+          setPrescription(partial);
+          setIsLoading(false);
+        },
+      });
+    } catch (err: unknown) {
+      // Keep whatever arrived before a cancel or timeout; other failures go back to the form
+      const partial: PrescriptionData | null = latest;
+      const hasContent = partial !== null && (partial.illnessTitle !== '' || partial.treatments.length > 0);
+      const timedOut = err instanceof Error && err.name === 'TimeoutError';
+      if (!hasContent || !(controller.signal.aborted || timedOut)) {
+        setPrescription(null);
+        throw err;
+      }
+      result = partial!;
+      incomplete = true;
+      setGenerationNotice(controller.signal.aborted
+        ? t('prescription.cancelled')
+        : t('prescription.stoppedEarly', { reason: describeError(err, t) }));
+    } finally {
+      generationRef.current = null;
+      setIsGenerating(false);
+    }
+
+    setPrescription(result);
+    setOriginalPrescription(result);
+    setReview(draftReview);
+    setConsultationId(null);
+    setChat([]);
+    setPrintChat(false);
+    setLayout('stacked');
+    try {
+      const reports = uploadedReports.filter(isReportSent).map(reportMetadata);
+      const record = await saveConsultation({
+        patientInfo,
+        inputMode: activeTab,
+        description: descriptionForApi,
+        treatments,
+        reports,
+        result,
+        original: result,
+        review: draftReview,
+        triage: triageResult,
+        ...(consent ? { consent } : {}),
+        ...(labResults.length > 0 ? { labResults } : {}),
+        ...(guidedSummary ? { symptomSummary: guidedSummary } : {}),
+        ...(incomplete ? { incomplete } : {}),
+      }, reportAttachments(reports, fileParts));
+      setConsultationId(record.id);
+    } catch (saveError) {
+      console.error("Error saving consultation:", saveError);
+    }
+  };
+
+  // Without a connection the consultation waits in the queue and the form is cleared for the next patient
+  const queueConsultation = async (triageResult: TriageResult, fileParts: QueuedConsultation['files']) => {
+    if (!consent) return;
+    const guidedSummary = activeTab === 'guided' ? symptomSummary : undefined;
+    try {
+      await enqueueConsultation({
+        patientInfo,
+        inputMode: activeTab,
+        description: currentDescription(),
+        treatments: selectedModalityIds,
+        includeHistory,
+        reports: uploadedReports.filter(isReportSent).map(reportMetadata),
+        files: fileParts,
+        triage: triageResult,
+        consent,
+        ...(labResults.length > 0 ? { labResults } : {}),
+        ...(guidedSummary ? { symptomSummary: guidedSummary } : {}),
+      }, setQueue);
+    } catch {
+      setError(t('queue.full'));
+      return;
+    }
+    const name = patientInfo.name;
+    resetForm();
+    setQueueNotice(t('queue.queued', { name }));
+  };
+
+  const runQueueAction = (action: Promise<unknown>) => {
+    action.catch(err => console.error("Error updating the consultation queue:", err));
+  };
+
+  const handleCancelGeneration = () => {
+    generationRef.current?.abort();
+  };
+
+  // Reviewer edits and approvals update the saved consultation; the original AI output is never changed
+  const handleReviewChange = (updated: PrescriptionData, updatedReview: PrescriptionReview) => {
+    setPrescription(updated);
+    setReview(updatedReview);
+    if (!consultationId) return;
+    updateConsultation(consultationId, { result: updated, review: updatedReview })
+      .catch(err => console.error("Error saving review:", err));
+  };
+
+  // Follow-up questions are answered against the same inputs as the prescription and kept with the consultation
+  const handleAsk = async (question: string) => {
+    if (!prescription) return;
+    // A reopened consultation has no uploads on screen, so its answers come from the reports saved with it
+    const fileParts = uploadedReports.length === 0 && consultationId
+      ? attachmentsToParts(await getConsultationAttachments(consultationId))
+      : await reportsToParts(uploadedReports);
+    const answer = await askFollowUp({
+      patientInfo,
+      description: currentDescription(),
+      prescription,
+      files: fileParts,
+    }, chat, question);
+    const now = new Date().toISOString();
+    const updated: ChatMessage[] = [...chat, { role: 'patient', text: question, createdAt: now }, { role: 'assistant', text: answer, createdAt: new Date().toISOString() }];
+    setChat(updated);
+    if (!consultationId) return;
+    updateConsultation(consultationId, { chat: updated })
+      .catch(err => console.error("Error saving follow-up chat:", err));
+  };
+
+  const handlePrintChatChange = (include: boolean) => {
+    setPrintChat(include);
+    if (!consultationId) return;
+    updateConsultation(consultationId, { printChat: include })
+      .catch(err => console.error("Error saving follow-up chat:", err));
+  };
+
+  const handleLayoutChange = (next: PrescriptionLayout) => {
+    setLayout(next);
+    if (!consultationId) return;
+    updateConsultation(consultationId, { layout: next })
+      .catch(err => console.error("Error saving prescription layout:", err));
+  };
+
+  // A clinician chose to continue despite an emergency triage result; keep that on record
+  const handleEmergencyOverride = async () => {
+    if (!triage) return;
+    const overridden: TriageResult = { ...triage, overriddenAt: new Date().toISOString() };
+    setTriage(overridden);
+    setIsEmergency(false);
+    setIsLoading(true);
+    try {
+      await generateAndSave(overridden);
+    } catch (err: unknown) {
+      setError(describeError(err, t));
     } finally {
       setIsLoading(false);
     }
@@ -162,31 +609,133 @@ const App: React.FC = () => {
   const LoadingScreen: React.FC = () => (
     <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex flex-col items-center justify-center z-50">
         <LoadingIcon className="w-24 h-24 text-teal-500"/>
-        <p className="text-white text-xl mt-4 animate-pulse">Consulting with the AI Doctor...</p>
-        <p className="text-gray-300 mt-2">Analyzing reports and crafting your health plan.</p>
+        <p className="text-white text-xl mt-4 animate-pulse">{t('loading.title')}</p>
+        <p className="text-gray-300 mt-2">{t('loading.subtitle')}</p>
+        {isGenerating && (
+          <button type="button" onClick={handleCancelGeneration} className="mt-6 px-5 py-2 bg-white/10 text-white font-semibold rounded-lg border border-white/40 hover:bg-white/20 focus:outline-none focus:ring-2 focus:ring-white">
+            {t('common.cancel')}
+          </button>
+        )}
     </div>
   );
   
-  const religiousTreatment = ReligiousTreatments[patientInfo.religion as keyof typeof ReligiousTreatments];
+  const availableModalities = getAvailableModalities(modalities, patientInfo.religion);
+  // Selections for modalities that were since disabled (e.g. on a reopened consultation) are not sent
+  const selectedModalityIds = availableModalities.filter(modality => selectedTreatments.has(modality.id)).map(modality => modality.id);
+  const clinicalErrors = validateClinicalIntake(patientInfo);
+  const missingClinicalFields = missingRecommendedFields(patientInfo);
+  const inputClasses = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+  const fieldErrorClasses = "mt-1 text-xs text-red-600 dark:text-red-400";
+  const errorText = (field: keyof typeof clinicalErrors) => {
+    const code = clinicalErrors[field];
+    return code && t(`validation.${code}`, { max: MAX_TEXT_LENGTH });
+  };
+
+  if (shareFragment) {
+    const exitSharedView = () => {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setShareFragment(null);
+    };
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div dir={i18n.dir} lang={i18n.locale} className={uiLanguage === 'Urdu' ? 'font-urdu' : 'font-sans'}>
+          <SharedPrescriptionView encoded={shareFragment} onExit={exitSharedView} />
+        </div>
+      </I18nContext.Provider>
+    );
+  }
+
+  // The form keeps its contents while locked, so staff can pick up where they left off
+  if (!isUnlocked) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div dir={i18n.dir} lang={i18n.locale} className={`text-gray-800 dark:text-gray-200 ${uiLanguage === 'Urdu' ? 'font-urdu' : 'font-sans'}`}>
+          <LockScreen />
+        </div>
+      </I18nContext.Provider>
+    );
+  }
 
   return (
-    <div className="min-h-screen text-gray-800 dark:text-gray-200 font-sans">
+    <I18nContext.Provider value={i18n}>
+    <div dir={i18n.dir} lang={i18n.locale} className={`min-h-screen text-gray-800 dark:text-gray-200 ${uiLanguage === 'Urdu' ? 'font-urdu' : 'font-sans'}`}>
       {isLoading && <LoadingScreen />}
+      {isPrivacyPreviewOpen && <PrivacyPreview load={loadPrivacyPreview} onClose={() => setIsPrivacyPreviewOpen(false)} />}
+      {isSettingsOpen && <SettingsPanel onModalitiesChange={setModalities} onAutoLockChange={setAutoLockMinutes} onClose={() => setIsSettingsOpen(false)} />}
+      {isClinicProfileOpen && <ClinicProfilePanel onSave={setClinicProfile} onClose={() => setIsClinicProfileOpen(false)} />}
+      {isEmergency && triage && (
+        <EmergencyScreen
+          triage={triage}
+          patientInfo={patientInfo}
+          onBack={() => setIsEmergency(false)}
+          onOverride={handleEmergencyOverride}
+        />
+      )}
       <header className="py-4 bg-transparent no-print">
-        <div className="container mx-auto px-4 flex items-center justify-center space-x-3">
-          <AIDoctorLogoIcon className="h-10 w-10 text-teal-600 dark:text-teal-400"/>
-          <h1 className="text-3xl font-bold text-gray-800 dark:text-white tracking-tight">
-            AI Doctor
-          </h1>
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3 rtl:space-x-reverse">
+            <AIDoctorLogoIcon className="h-10 w-10 text-teal-600 dark:text-teal-400"/>
+            <h1 className="text-3xl font-bold text-gray-800 dark:text-white tracking-tight">
+              {t('app.title')}
+            </h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <select value={uiLanguage} onChange={(e) => handleUiLanguageChange(e.target.value)} aria-label={t('header.uiLanguage')} title={t('header.uiLanguage')} className="px-2 py-2 text-sm text-teal-700 dark:text-teal-300 bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500">
+              {SUPPORTED_LANGUAGES.map(lang => (
+                <option key={lang.language} value={lang.language}>{lang.nativeName}</option>
+              ))}
+            </select>
+            <button type="button" onClick={() => setView('history')} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-teal-700 dark:text-teal-300 bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-teal-50 dark:hover:bg-gray-700">
+              <HistoryIcon className="h-5 w-5" /> {t('header.history')}
+            </button>
+            <button type="button" onClick={() => setIsClinicProfileOpen(true)} title={t('header.clinicProfile')} className="p-2 text-teal-700 dark:text-teal-300 bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-teal-50 dark:hover:bg-gray-700">
+              <ClinicIcon className="h-5 w-5" />
+            </button>
+            <button type="button" onClick={() => setIsSettingsOpen(true)} title={t('header.settings')} className="p-2 text-teal-700 dark:text-teal-300 bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-teal-50 dark:hover:bg-gray-700">
+              <SettingsIcon className="h-5 w-5" />
+            </button>
+            <button type="button" onClick={lockVault} title={t('header.lock')} className="p-2 text-teal-700 dark:text-teal-300 bg-white/70 dark:bg-gray-800/70 border border-gray-200 dark:border-gray-700 rounded-lg shadow-sm hover:bg-teal-50 dark:hover:bg-gray-700">
+              <LockIcon className="h-5 w-5" />
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
-        {!prescription ? (
+        {!isOnline && (
+          <div className="max-w-3xl mx-auto mb-6 bg-amber-100 dark:bg-amber-900/40 border-s-4 border-amber-500 text-amber-800 dark:text-amber-200 p-4 rounded-md no-print" role="status">
+            <p>{canReachModel() ? t('queue.offlineLocal') : t('queue.offline')}</p>
+          </div>
+        )}
+        {queueNotice && (
+          <div className="max-w-3xl mx-auto mb-6 bg-teal-50 dark:bg-teal-900/40 border-s-4 border-teal-500 text-teal-800 dark:text-teal-200 p-4 rounded-md no-print" role="status">
+            <p>{queueNotice}</p>
+          </div>
+        )}
+        {view === 'form' && (
+          <ConsultationQueue
+            queue={queue}
+            isOnline={isOnline}
+            onOpen={handleOpenQueued}
+            onRetry={(item) => runQueueAction(retryQueued(item.id, setQueue).then(() => processQueue(setQueue)))}
+            onOverride={(item) => runQueueAction(overrideQueued(item, setQueue).then(() => processQueue(setQueue)))}
+            onRemove={(item) => runQueueAction(removeQueued(item.id, setQueue))}
+            onClearDone={() => runQueueAction(clearFinishedQueued(setQueue))}
+          />
+        )}
+        {view === 'history' ? (
+          <PatientHistory
+            onReopen={handleReopen}
+            onPrint={handlePrint}
+            onFollowUp={handleFollowUp}
+            onErase={() => runQueueAction(loadConsultationQueue().then(setQueue))}
+            onClose={() => setView('form')}
+          />
+        ) : !prescription ? (
           <div className="max-w-3xl mx-auto bg-white/80 dark:bg-gray-800/50 rounded-2xl shadow-2xl shadow-gray-300/30 dark:shadow-black/30 p-6 sm:p-8 space-y-8 backdrop-blur-sm border border-gray-200 dark:border-gray-700">
             <div className="text-center">
-              <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">Patient Information</h2>
-              <p className="text-gray-600 dark:text-gray-400 mt-1">Provide your details for a personalized plan.</p>
+              <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">{t('form.title')}</h2>
+              <p className="text-gray-600 dark:text-gray-400 mt-1">{t('form.subtitle')}</p>
             </div>
             
             {error && <div className="bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-200 p-4 rounded-md" role="alert"><p>{error}</p></div>}
@@ -194,57 +743,113 @@ const App: React.FC = () => {
             <form onSubmit={handleSubmit} className="space-y-6">
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                 <div>
-                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name <span className="text-red-500">*</span></label>
+                  <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.name')} <span className="text-red-500">*</span></label>
                   <input type="text" name="name" id="name" required value={patientInfo.name} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"/>
                 </div>
                  <div>
-                  <label htmlFor="age" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Age <span className="text-red-500">*</span></label>
+                  <label htmlFor="age" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.age')} <span className="text-red-500">*</span></label>
                   <input type="number" name="age" id="age" required value={patientInfo.age} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"/>
                 </div>
                  <div>
-                  <label htmlFor="district" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">District / City <span className="text-red-500">*</span></label>
+                  <label htmlFor="district" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.district')} <span className="text-red-500">*</span></label>
                   <input type="text" name="district" id="district" required value={patientInfo.district} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"/>
                 </div>
                  <div>
-                  <label htmlFor="cell" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Cell No. (Optional)</label>
+                  <label htmlFor="cell" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.cell')}</label>
                   <input type="tel" name="cell" id="cell" value={patientInfo.cell} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"/>
                 </div>
                 <div>
-                  <label htmlFor="religion" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Religion <span className="text-red-500">*</span></label>
+                  <label htmlFor="religion" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.religion')} <span className="text-red-500">*</span></label>
                   <select name="religion" id="religion" required value={patientInfo.religion} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors">
-                    <option value="" disabled>Select Religion</option>
-                    <option value="Islam">Islam</option>
-                    <option value="Christianity">Christianity</option>
-                    <option value="Hinduism">Hinduism</option>
-                    <option value="Buddhism">Buddhism</option>
-                    <option value="Sikhism">Sikhism</option>
-                    <option value="Judaism">Judaism</option>
-                    <option value="Baháʼí Faith">Baháʼí Faith</option>
-                    <option value="Chinese Folk Religion">Chinese Folk Religion</option>
-                    <option value="Spiritism">Spiritism</option>
-                    <option value="Ethnic/Indigenous Religions">Ethnic/Indigenous Religions</option>
-                    <option value="Other">Other</option>
+                    <option value="" disabled>{t('form.selectReligion')}</option>
+                    {RELIGIONS.map(religion => (
+                        <option key={religion.value} value={religion.value}>{t(religion.label)}</option>
+                    ))}
                   </select>
                 </div>
                 <div>
-                  <label htmlFor="language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Preferred Language <span className="text-red-500">*</span></label>
+                  <label htmlFor="language" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.language')} <span className="text-red-500">*</span></label>
                   <select name="language" id="language" required value={patientInfo.language} onChange={handleInputChange} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors">
-                    {supportedLanguages.map(lang => (
-                        <option key={lang} value={lang}>{lang}</option>
+                    {SUPPORTED_LANGUAGES.map(lang => (
+                        <option key={lang.language} value={lang.language}>{lang.nativeName}</option>
                     ))}
                   </select>
                 </div>
               </div>
 
+              <fieldset className="space-y-4">
+                <legend className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  {t('form.clinicalDetails')} <span className="font-normal text-gray-500 dark:text-gray-400">{t('form.clinicalHint')}</span>
+                </legend>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label htmlFor="sex" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.sex')}</label>
+                    <select name="sex" id="sex" value={patientInfo.sex} onChange={handleInputChange} className={inputClasses}>
+                      <option value="">{t('form.notSpecified')}</option>
+                      {Object.keys(SEX_LABELS).map(value => (
+                        <option key={value} value={value}>{t(`sex.${value}` as MessageKey)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="weightKg" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.weight')}</label>
+                    <input type="number" name="weightKg" id="weightKg" min="0" step="0.1" value={patientInfo.weightKg} onChange={handleInputChange} aria-invalid={!!clinicalErrors.weightKg} className={inputClasses}/>
+                    {clinicalErrors.weightKg && <p className={fieldErrorClasses}>{errorText('weightKg')}</p>}
+                  </div>
+                  <div>
+                    <label htmlFor="heightCm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.height')}</label>
+                    <input type="number" name="heightCm" id="heightCm" min="0" step="0.1" value={patientInfo.heightCm} onChange={handleInputChange} aria-invalid={!!clinicalErrors.heightCm} className={inputClasses}/>
+                    {clinicalErrors.heightCm && <p className={fieldErrorClasses}>{errorText('heightCm')}</p>}
+                  </div>
+                </div>
+                {patientInfo.sex !== 'male' && canBePregnant(patientInfo) && (
+                  <div>
+                    <label htmlFor="pregnancyStatus" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.pregnancy')}</label>
+                    <select name="pregnancyStatus" id="pregnancyStatus" value={patientInfo.pregnancyStatus} onChange={handleInputChange} aria-invalid={!!clinicalErrors.pregnancyStatus} className={inputClasses}>
+                      <option value="">{t('form.notSpecified')}</option>
+                      {Object.keys(PREGNANCY_LABELS).map(value => (
+                        <option key={value} value={value}>{t(`pregnancy.${value}` as MessageKey)}</option>
+                      ))}
+                    </select>
+                    {clinicalErrors.pregnancyStatus && <p className={fieldErrorClasses}>{errorText('pregnancyStatus')}</p>}
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="allergies" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.allergies')}</label>
+                  <input type="text" name="allergies" id="allergies" value={patientInfo.allergies} onChange={handleInputChange} placeholder={t('form.allergiesPlaceholder')} aria-invalid={!!clinicalErrors.allergies} className={inputClasses}/>
+                  {clinicalErrors.allergies && <p className={fieldErrorClasses}>{errorText('allergies')}</p>}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="currentMedications" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.currentMedications')}</label>
+                    <textarea name="currentMedications" id="currentMedications" rows={2} value={patientInfo.currentMedications} onChange={handleInputChange} placeholder={t('form.currentMedicationsPlaceholder')} aria-invalid={!!clinicalErrors.currentMedications} className={inputClasses}></textarea>
+                    {clinicalErrors.currentMedications && <p className={fieldErrorClasses}>{errorText('currentMedications')}</p>}
+                  </div>
+                  <div>
+                    <label htmlFor="chronicConditions" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('form.chronicConditions')}</label>
+                    <textarea name="chronicConditions" id="chronicConditions" rows={2} value={patientInfo.chronicConditions} onChange={handleInputChange} placeholder={t('form.chronicConditionsPlaceholder')} aria-invalid={!!clinicalErrors.chronicConditions} className={inputClasses}></textarea>
+                    {clinicalErrors.chronicConditions && <p className={fieldErrorClasses}>{errorText('chronicConditions')}</p>}
+                  </div>
+                </div>
+                {missingClinicalFields.length > 0 && (
+                  <p className="text-xs text-amber-700 dark:text-amber-400">
+                    {t('form.recommended', { fields: missingClinicalFields.map(field => t(`missing.${field}`)).join(', ') })}
+                  </p>
+                )}
+              </fieldset>
+
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Describe Illness or Upload Reports <span className="text-red-500">*</span></label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('form.describeOrUpload')} <span className="text-red-500">*</span></label>
                  <div className="border-b border-gray-300 dark:border-gray-600">
-                    <nav className="-mb-px flex space-x-4" aria-label="Tabs">
+                    <nav className="-mb-px flex space-x-4 rtl:space-x-reverse" aria-label="Tabs">
                         <button type="button" onClick={() => setActiveTab('text')} className={`${activeTab === 'text' ? 'border-teal-500 text-teal-600 dark:text-teal-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500'} whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors`}>
-                            Describe Symptoms
+                            {t('form.tabSymptoms')}
+                        </button>
+                        <button type="button" onClick={() => setActiveTab('guided')} className={`${activeTab === 'guided' ? 'border-teal-500 text-teal-600 dark:text-teal-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500'} whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors`}>
+                            {t('form.tabGuided')}
                         </button>
                         <button type="button" onClick={() => setActiveTab('upload')} className={`${activeTab === 'upload' ? 'border-teal-500 text-teal-600 dark:text-teal-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-500'} whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm transition-colors`}>
-                            Upload Reports
+                            {t('form.tabUpload')}
                         </button>
                     </nav>
                 </div>
@@ -252,9 +857,13 @@ const App: React.FC = () => {
                 <div className="mt-4">
                   {activeTab === 'text' && (
                      <div className="relative">
-                      <textarea name="symptomDescription" id="symptomDescription" rows={5} value={symptomDescription} onChange={(e) => setSymptomDescription(e.target.value)} placeholder="For example: I have a fever, cough, and headache..." className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"></textarea>
+                      <textarea name="symptomDescription" id="symptomDescription" rows={5} value={symptomDescription} onChange={(e) => setSymptomDescription(e.target.value)} placeholder={t('form.symptomsPlaceholder')} className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"></textarea>
+                      <VoiceInput language={patientInfo.language} onConfirm={handleTranscriptConfirm} disabledReason={consent ? null : t('consent.needed')} />
                     </div>
                   )}
+                  {activeTab === 'guided' && (
+                    <SymptomQuestionnaire summary={symptomSummary} onChange={setSymptomSummary} language={patientInfo.language} />
+                  )}
                   {activeTab === 'upload' && (
                      <div className="space-y-4">
                         <div
@@ -268,34 +877,29 @@ const App: React.FC = () => {
                             <div className="text-center">
                                 <UploadCloudIcon className="mx-auto h-12 w-12 text-gray-400" />
                                 <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-                                    <span className="font-semibold text-teal-600 dark:text-teal-400">Click to upload</span> or drag and drop
+                                    <span className="font-semibold text-teal-600 dark:text-teal-400">{t('form.clickToUpload')}</span> {t('form.dragAndDrop')}
                                 </p>
-                                <p className="text-xs text-gray-500 dark:text-gray-500">PDF, PNG, JPG up to 10MB</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-500">{t('form.fileTypes')}</p>
                             </div>
                         </div>
-                        <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/jpeg,image/png,application/pdf" className="hidden" />
+                        <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept={ACCEPTED_REPORT_TYPES} className="hidden" />
                         
-                        {uploadedFiles.length > 0 && (
-                            <div className="space-y-2">
-                                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Uploaded Files:</h3>
-                                {uploadedFiles.map((file, index) => (
-                                    <div key={index} className="flex items-center justify-between p-2 bg-gray-100 dark:bg-gray-700 rounded-md">
-                                        <div className="flex items-center gap-3">
-                                           <DocumentIcon className="h-5 w-5 text-gray-500 dark:text-gray-400"/>
-                                           <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{file.name}</span>
-                                           <span className="text-xs text-gray-500 dark:text-gray-400">({(file.size / 1024).toFixed(1)} KB)</span>
-                                        </div>
-                                        <button type="button" onClick={() => removeFile(file.name)} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
-                                            <TrashIcon className="h-5 w-5" />
-                                        </button>
-                                    </div>
-                                ))}
-                            </div>
+                        {uploadNotice && <p className="text-sm text-amber-700 dark:text-amber-300" role="status">{uploadNotice}</p>}
+
+                        <ReportUploadList reports={uploadedReports} processing={processingFiles} patientInfo={patientInfo} onChange={updateReport} onRemove={removeReport} />
+
+                        {pendingExtraction.length > 0 && (
+                            <button type="button" onClick={handleExtractLabResults} disabled={isExtracting || processingFiles.length > 0 || !canReachModel() || !consent} title={consent ? undefined : t('consent.needed')} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-60 disabled:cursor-wait">
+                                {isExtracting && <LoadingIcon className="w-4 h-4" />}
+                                {isExtracting ? t('form.readingReports') : t('form.extractLabResults', { count: pendingExtraction.length })}
+                            </button>
                         )}
 
+                        {labResults.length > 0 && <LabResultsTable results={labResults} onChange={setLabResults} />}
+
                         <div>
                             <label htmlFor="reportComments" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                                Comments or Questions about Reports (Optional)
+                                {t('form.reportComments')}
                             </label>
                             <textarea
                                 name="reportComments"
@@ -303,7 +907,7 @@ const App: React.FC = () => {
                                 rows={4}
                                 value={reportComments}
                                 onChange={(e) => setReportComments(e.target.value)}
-                                placeholder="Provide context for your reports, or ask specific questions... e.g., 'Please check my kidney function results in the attached file.'"
+                                placeholder={t('form.reportCommentsPlaceholder')}
                                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"
                             ></textarea>
                         </div>
@@ -313,40 +917,77 @@ const App: React.FC = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Choose Treatment Type(s) <span className="text-red-500">*</span></label>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('form.treatmentTypes')} <span className="text-red-500">*</span></label>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {Object.values(TreatmentType).map(type => (
-                    <label key={type} className={`flex items-center p-3 border dark:border-gray-600 rounded-lg cursor-pointer transition-all ${selectedTreatments.has(type) ? 'bg-teal-50 dark:bg-teal-900/50 border-teal-500 dark:border-teal-400 ring-2 ring-teal-500' : 'bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-600'}`}>
-                      <input type="checkbox" checked={selectedTreatments.has(type)} onChange={() => handleTreatmentToggle(type)} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
-                      <span className="ml-3 text-sm font-medium text-gray-800 dark:text-gray-200">{type}</span>
+                  {availableModalities.map(modality => (
+                    <label key={modality.id} className={`flex items-center p-3 border dark:border-gray-600 rounded-lg cursor-pointer transition-all ${selectedTreatments.has(modality.id) ? 'bg-teal-50 dark:bg-teal-900/50 border-teal-500 dark:border-teal-400 ring-2 ring-teal-500' : 'bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-600'}`}>
+                      <input type="checkbox" checked={selectedTreatments.has(modality.id)} onChange={() => handleTreatmentToggle(modality.id)} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+                      <span className="ms-3 text-sm font-medium text-gray-800 dark:text-gray-200">{modalityLabel(modality, t)}</span>
                     </label>
                   ))}
-                  {religiousTreatment && (
-                    <label key={religiousTreatment} className={`flex items-center p-3 border dark:border-gray-600 rounded-lg cursor-pointer transition-all ${selectedTreatments.has(religiousTreatment) ? 'bg-teal-50 dark:bg-teal-900/50 border-teal-500 dark:border-teal-400 ring-2 ring-teal-500' : 'bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-600'}`}>
-                      <input type="checkbox" checked={selectedTreatments.has(religiousTreatment)} onChange={() => handleTreatmentToggle(religiousTreatment)} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
-                      <span className="ml-3 text-sm font-medium text-gray-800 dark:text-gray-200">{religiousTreatment}</span>
-                    </label>
-                  )}
                 </div>
               </div>
 
-              <button type="submit" disabled={isLoading} className="w-full py-3 px-4 bg-teal-600 text-white font-semibold rounded-lg shadow-lg shadow-teal-500/20 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-teal-300 disabled:cursor-not-allowed transition-all transform hover:scale-105 active:scale-100">
-                {isLoading ? 'Generating...' : 'Get AI Prescription'}
+              {previousConsultations.length > 0 && (
+                <label className="flex items-start gap-3 p-3 bg-teal-50 dark:bg-teal-900/30 border border-teal-200 dark:border-teal-800 rounded-lg cursor-pointer">
+                  <input type="checkbox" checked={includeHistory} onChange={(e) => setIncludeHistory(e.target.checked)} className="mt-1 h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+                  <span className="text-sm text-gray-800 dark:text-gray-200">
+                    <span className="font-medium">{t('form.returningPatient')}</span> {t('form.includeHistory', { count: previousConsultations.length })}
+                  </span>
+                </label>
+              )}
+
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input type="checkbox" checked={consent !== null} onChange={(e) => setConsent(e.target.checked ? { givenAt: new Date().toISOString(), provider: loadAISettings().provider } : null)} className="mt-1 h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+                  <span className="text-sm text-gray-800 dark:text-gray-200">
+                    {t('consent.label')} <span className="text-red-500">*</span>
+                  </span>
+                </label>
+                {consent && (
+                  <p className="mt-1 ms-7 text-xs text-gray-500 dark:text-gray-400">
+                    {t('consent.recorded', { time: new Date(consent.givenAt).toLocaleString(i18n.locale, { dateStyle: 'medium', timeStyle: 'short' }) })}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end">
+                <button type="button" onClick={() => setIsPrivacyPreviewOpen(true)} disabled={processingFiles.length > 0} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline disabled:opacity-50 disabled:no-underline">
+                  {t('privacy.preview')}
+                </button>
+              </div>
+
+              <button type="submit" disabled={isLoading || processingFiles.length > 0} className="w-full py-3 px-4 bg-teal-600 text-white font-semibold rounded-lg shadow-lg shadow-teal-500/20 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-teal-300 disabled:cursor-not-allowed transition-all transform hover:scale-105 active:scale-100">
+                {isLoading ? t('form.generating') : canReachModel() ? t('form.submit') : t('queue.submit')}
               </button>
             </form>
           </div>
         ) : (
           <Prescription 
             patientInfo={patientInfo}
-            illnessTitle={prescription.illnessTitle}
-            content={prescription.prescriptionContent} 
-            advice={prescription.advice}
+            prescription={prescription}
+            triage={triage}
+            symptomSummary={activeTab === 'guided' ? symptomSummary : undefined}
+            clinicProfile={clinicProfile}
+            original={originalPrescription ?? prescription}
+            review={review}
+            onChange={handleReviewChange}
+            chat={chat}
+            printChat={printChat}
+            onAsk={handleAsk}
+            onPrintChatChange={handlePrintChatChange}
+            layout={layout}
+            onLayoutChange={handleLayoutChange}
+            isStreaming={isGenerating}
+            notice={generationNotice}
+            onCancel={handleCancelGeneration}
             onReset={resetForm}
             onEdit={handleEdit}
           />
         )}
       </main>
     </div>
+    </I18nContext.Provider>
   );
 };
 
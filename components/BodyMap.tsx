@@ -0,0 +1,54 @@
+import React from 'react';
+import { BodyRegion } from '../types';
+import { MessageKey, useI18n } from '../services/i18n';
+
+interface BodyMapProps {
+  selected: BodyRegion[];
+  onToggle: (region: BodyRegion) => void;
+}
+
+// Front view; each region may be drawn as more than one shape (both arms, both legs)
+const SHAPES: { region: BodyRegion; shapes: React.SVGProps<SVGRectElement>[] }[] = [
+  { region: 'head', shapes: [{ x: 44, y: 4, width: 32, height: 34, rx: 16 }] },
+  { region: 'throat', shapes: [{ x: 52, y: 38, width: 16, height: 12, rx: 3 }] },
+  { region: 'chest', shapes: [{ x: 36, y: 50, width: 48, height: 40, rx: 8 }] },
+  { region: 'upperAbdomen', shapes: [{ x: 38, y: 90, width: 44, height: 26, rx: 4 }] },
+  { region: 'lowerAbdomen', shapes: [{ x: 38, y: 116, width: 44, height: 30, rx: 8 }] },
+  { region: 'arms', shapes: [{ x: 18, y: 54, width: 16, height: 92, rx: 8 }, { x: 86, y: 54, width: 16, height: 92, rx: 8 }] },
+  { region: 'legs', shapes: [{ x: 40, y: 148, width: 19, height: 106, rx: 9 }, { x: 61, y: 148, width: 19, height: 106, rx: 9 }] },
+];
+
+export const BodyMap: React.FC<BodyMapProps> = ({ selected, onToggle }) => {
+  const { t } = useI18n();
+
+  const handleKeyDown = (e: React.KeyboardEvent, region: BodyRegion) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onToggle(region);
+    }
+  };
+
+  return (
+    <svg viewBox="0 0 120 260" className="h-64 w-auto" role="group" aria-label={t('guided.bodyMap')}>
+      {SHAPES.map(({ region, shapes }) => {
+        const isSelected = selected.includes(region);
+        const label = t(`body.${region}` as MessageKey);
+        return (
+          <g
+            key={region}
+            role="checkbox"
+            aria-checked={isSelected}
+            aria-label={label}
+            tabIndex={0}
+            onClick={() => onToggle(region)}
+            onKeyDown={(e) => handleKeyDown(e, region)}
+            className={`cursor-pointer outline-none transition-colors focus-visible:stroke-teal-900 ${isSelected ? 'fill-teal-500 stroke-teal-700' : 'fill-gray-200 stroke-gray-400 hover:fill-teal-100 dark:fill-gray-600 dark:stroke-gray-500 dark:hover:fill-teal-900'}`}
+          >
+            <title>{label}</title>
+            {shapes.map((shape, i) => <rect key={i} {...shape} strokeWidth={1.5} />)}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ClinicProfile } from '../types';
+import { DEFAULT_DISCLAIMER, loadClinicProfile, saveClinicProfile } from '../services/settings';
+import { MessageKey, isRtlLanguage, useI18n } from '../services/i18n';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface ClinicProfilePanelProps {
+  onSave: (profile: ClinicProfile) => void;
+  onClose: () => void;
+}
+
+type ImageField = 'logo' | 'signature';
+
+// Uploaded images are shrunk and re-encoded as PNG so they fit in local storage and embed in PDFs
+const IMAGE_LIMITS: Record<ImageField, { width: number; height: number }> = {
+  logo: { width: 320, height: 320 },
+  signature: { width: 480, height: 160 },
+};
+
+const readImageAsPng = async (file: File, limits: { width: number; height: number }): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, limits.width / bitmap.width, limits.height / bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/png');
+};
+
+const inputClasses = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+type TextField = { name: 'clinicName' | 'tagline' | 'address' | 'phone' | 'registrationNumber' | 'practitionerName'; label: MessageKey; type?: string };
+
+const LETTERHEAD_FIELDS: TextField[] = [
+  { name: 'clinicName', label: 'clinic.clinicName' },
+  { name: 'tagline', label: 'clinic.tagline' },
+  { name: 'address', label: 'clinic.address' },
+  { name: 'phone', label: 'clinic.phone', type: 'tel' },
+  { name: 'registrationNumber', label: 'clinic.registrationNumber' },
+];
+
+const PRESCRIBER_FIELDS: TextField[] = [
+  { name: 'practitionerName', label: 'clinic.practitionerName' },
+];
+
+export const ClinicProfilePanel: React.FC<ClinicProfilePanelProps> = ({ onSave, onClose }) => {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<ClinicProfile>(loadClinicProfile);
+  const [originalDisclaimer] = useState(profile.disclaimer);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setProfile(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleImage = async (field: ImageField, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const image = await readImageAsPng(file, IMAGE_LIMITS[field]);
+      setProfile(prev => ({ ...prev, [field]: image }));
+      setError(null);
+    } catch (err) {
+      console.error("Error reading image:", err);
+      setError(t('clinic.imageError'));
+    }
+  };
+
+  const updateTranslation = (language: string, value: string) => {
+    setProfile(prev => ({ ...prev, disclaimerTranslations: { ...prev.disclaimerTranslations, [language]: value } }));
+  };
+
+  const removeTranslation = (language: string) => {
+    setProfile(prev => {
+      const { [language]: _removed, ...rest } = prev.disclaimerTranslations;
+      return { ...prev, disclaimerTranslations: rest };
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const disclaimer = profile.disclaimer.trim() || DEFAULT_DISCLAIMER;
+    // Translations of an old disclaimer are stale; they are recreated when next needed
+    const saved: ClinicProfile = {
+      ...profile,
+      disclaimer,
+      disclaimerTranslations: disclaimer === originalDisclaimer ? profile.disclaimerTranslations : {},
+    };
+    try {
+      saveClinicProfile(saved);
+    } catch (err) {
+      console.error("Error saving clinic profile:", err);
+      setError(t('clinic.saveError'));
+      return;
+    }
+    onSave(saved);
+    onClose();
+  };
+
+  const translatedLanguages = Object.keys(profile.disclaimerTranslations);
+
+  const renderImageField = (field: ImageField, label: string) => (
+    <div>
+      <span className={labelClasses}>{label}</span>
+      <div className="flex items-center gap-3">
+        {profile[field] ? (
+          <img src={profile[field]} alt={label} className="h-14 max-w-[10rem] object-contain border border-gray-200 dark:border-gray-600 rounded bg-white p-1" />
+        ) : (
+          <span className="text-sm text-gray-500 dark:text-gray-400">{field === 'logo' ? t('clinic.defaultLogo') : t('clinic.none')}</span>
+        )}
+        <label className="px-3 py-1.5 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg cursor-pointer hover:bg-teal-50 dark:hover:bg-gray-700">
+          {t('clinic.upload')}
+          <input type="file" accept="image/png,image/jpeg,image/webp" className="hidden" onChange={(e) => handleImage(field, e)} />
+        </label>
+        {profile[field] && (
+          <button type="button" onClick={() => setProfile(prev => ({ ...prev, [field]: '' }))} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4 no-print">
+      <form onSubmit={handleSave} className="w-full max-w-lg max-h-full overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('header.clinicProfile')}</h2>
+          <button type="button" onClick={onClose} title={t('common.close')} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <div className="bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-200 p-4 rounded-md" role="alert"><p>{error}</p></div>}
+
+        <fieldset className="space-y-4">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('clinic.letterhead')}</legend>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('clinic.letterheadHint')}</p>
+          {renderImageField('logo', t('clinic.logo'))}
+          {LETTERHEAD_FIELDS.map(({ name, label, type }) => (
+            <div key={name}>
+              <label htmlFor={name} className={labelClasses}>{t(label)}{name === 'clinicName' && <span className="text-red-500"> *</span>}</label>
+              <input type={type ?? 'text'} id={name} name={name} required={name === 'clinicName'} value={profile[name]} onChange={handleChange} className={inputClasses}/>
+            </div>
+          ))}
+        </fieldset>
+
+        <fieldset className="space-y-4">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('clinic.prescriber')}</legend>
+          {PRESCRIBER_FIELDS.map(({ name, label }) => (
+            <div key={name}>
+              <label htmlFor={name} className={labelClasses}>{t(label)}</label>
+              <input type="text" id={name} name={name} value={profile[name]} onChange={handleChange} className={inputClasses}/>
+            </div>
+          ))}
+          {renderImageField('signature', t('clinic.signature'))}
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('clinic.disclaimer')}</legend>
+          <textarea id="disclaimer" name="disclaimer" rows={4} value={profile.disclaimer} onChange={handleChange} className={inputClasses} aria-label={t('clinic.disclaimer')}></textarea>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('clinic.disclaimerHint')}</p>
+          {translatedLanguages.length > 0 && profile.disclaimer === originalDisclaimer && (
+            <div className="space-y-3">
+              {translatedLanguages.map(language => (
+                <div key={language}>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor={`disclaimer-${language}`} className={labelClasses}>{language}</label>
+                    <button type="button" onClick={() => removeTranslation(language)} title={t('clinic.removeTranslation')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <textarea
+                    id={`disclaimer-${language}`}
+                    rows={3}
+                    dir={isRtlLanguage(language) ? 'rtl' : 'ltr'}
+                    value={profile.disclaimerTranslations[language]}
+                    onChange={(e) => updateTranslation(language, e.target.value)}
+                    className={`${inputClasses} ${language === 'Urdu' ? 'font-urdu' : ''}`}
+                  ></textarea>
+                </div>
+              ))}
+            </div>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="px-4 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2">
+            {t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
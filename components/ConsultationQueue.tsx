@@ -0,0 +1,93 @@
+import React from 'react';
+import { QueueStatus, QueuedConsultation } from '../types';
+import { MessageKey, useI18n } from '../services/i18n';
+import { LoadingIcon, TrashIcon, WarningIcon } from './icons';
+
+interface ConsultationQueueProps {
+  queue: QueuedConsultation[];
+  isOnline: boolean;
+  onOpen: (item: QueuedConsultation) => void;
+  onRetry: (item: QueuedConsultation) => void;
+  onOverride: (item: QueuedConsultation) => void;
+  onRemove: (item: QueuedConsultation) => void;
+  onClearDone: () => void;
+}
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  waiting: 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+  processing: 'bg-teal-100 text-teal-800 dark:bg-teal-900/50 dark:text-teal-200',
+  done: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+  emergency: 'bg-red-600 text-white',
+};
+
+const STATUS_LABELS: Record<QueueStatus, MessageKey> = {
+  waiting: 'queue.waiting',
+  processing: 'queue.processing',
+  done: 'queue.done',
+  failed: 'queue.failed',
+  emergency: 'queue.emergency',
+};
+
+const actionClasses = "text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline";
+
+// Consultations submitted without a connection, in the order they will be generated
+export const ConsultationQueue: React.FC<ConsultationQueueProps> = ({ queue, isOnline, onOpen, onRetry, onOverride, onRemove, onClearDone }) => {
+  const { t, locale } = useI18n();
+  if (queue.length === 0) return null;
+
+  return (
+    <section className="max-w-3xl mx-auto mb-6 bg-white/80 dark:bg-gray-800/50 rounded-2xl shadow-lg p-4 sm:p-6 border border-gray-200 dark:border-gray-700 no-print">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{t('queue.title')}</h2>
+        {queue.some(item => item.status === 'done') && (
+          <button type="button" onClick={onClearDone} className={actionClasses}>{t('queue.clearDone')}</button>
+        )}
+      </div>
+      {!isOnline && queue.some(item => item.status === 'waiting') && (
+        <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">{t('queue.willRun')}</p>
+      )}
+      <ul className="space-y-2">
+        {queue.map(item => {
+          const reasons = [...new Set([...item.triage.localFlags.map(flag => flag.label), ...item.triage.modelReasons])];
+          return (
+            <li key={item.id} className="p-3 bg-gray-100 dark:bg-gray-700 rounded-md">
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span className="font-medium text-gray-800 dark:text-gray-100">{item.patientInfo.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('queue.queuedAt', { time: new Date(item.queuedAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }) })}
+                </span>
+                <span className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[item.status]}`}>
+                  {item.status === 'processing' && <LoadingIcon className="h-3 w-3" />}
+                  {item.status === 'emergency' && <WarningIcon className="h-3 w-3" />}
+                  {t(STATUS_LABELS[item.status])}
+                </span>
+                <div className="ms-auto flex items-center gap-3">
+                  {item.status === 'done' && <button type="button" onClick={() => onOpen(item)} className={actionClasses}>{t('queue.open')}</button>}
+                  {item.status === 'failed' && <button type="button" onClick={() => onRetry(item)} className={actionClasses}>{t('queue.retry')}</button>}
+                  {item.status === 'emergency' && <button type="button" onClick={() => onOverride(item)} className={actionClasses}>{t('queue.continueAnyway')}</button>}
+                  {item.status !== 'processing' && (
+                    <button type="button" onClick={() => onRemove(item)} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {item.status === 'failed' && item.error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{item.error}</p>}
+              {item.status === 'emergency' && (
+                <div className="mt-2 text-sm text-red-700 dark:text-red-300">
+                  <p className="font-semibold">{t('queue.emergencyHint')}</p>
+                  {reasons.length > 0 && (
+                    <ul className="list-disc ms-5">
+                      {reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
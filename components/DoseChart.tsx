@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DoseReminderPlan, PatientInfo, PrescriptionData } from '../types';
+import { buildDoseSchedule, courseDate, formatAmount, isTakenOn, listDoses, toDateInputValue } from '../services/doseSchedule';
+import { buildDoseCalendar } from '../services/calendarExport';
+import { disableDoseReminders, enableDoseReminders, hasDoseReminders } from '../services/doseReminders';
+import { MessageKey, createTranslator, formatDate, isRtlLanguage, useI18n } from '../services/i18n';
+import { DownloadIcon, PrintIcon } from './icons';
+
+interface DoseChartProps {
+  prescription: PrescriptionData;
+  patientInfo: PatientInfo;
+}
+
+const buttonClasses = "flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors";
+
+// Timetable for the medicines with a "1+1+1" style dosage. The controls follow the interface language;
+// the chart itself is in the patient's language and prints on its own (see the print styles in index.html).
+export const DoseChart: React.FC<DoseChartProps> = ({ prescription, patientInfo }) => {
+  const { t } = useI18n();
+  const { language } = patientInfo;
+  const tp = createTranslator(language);
+  const [startDate, setStartDate] = useState(() => toDateInputValue(new Date()));
+  const schedule = useMemo(() => buildDoseSchedule(prescription, startDate), [prescription, startDate]);
+  const planId = `${patientInfo.name}|${prescription.illnessTitle}|${startDate}`;
+  const [remindersOn, setRemindersOn] = useState(false);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRemindersOn(false);
+    setReminderError(null);
+    hasDoseReminders(planId)
+      .then(on => { if (!cancelled) setRemindersOn(on); })
+      .catch(err => console.error("Error loading dose reminders:", err));
+    return () => { cancelled = true; };
+  }, [planId]);
+
+  if (schedule.medicines.length === 0) return null;
+
+  const foodLabel = (food?: string) => (food ? tp(`food.${food}` as MessageKey) : '—');
+  const doseLine = (name: string, amount: number, unit: string) => `${name} — ${formatAmount(amount, unit)}`;
+
+  const handlePrint = () => {
+    document.body.classList.add('print-dose-chart');
+    window.addEventListener('afterprint', () => document.body.classList.remove('print-dose-chart'), { once: true });
+    window.print();
+  };
+
+  const handleCalendar = () => {
+    const calendar = buildDoseCalendar(schedule, {
+      title: (medicine, amount) => `${medicine} — ${amount}`,
+      food: timing => tp(`food.${timing}` as MessageKey),
+      uidPrefix: planId.replace(/[^\p{L}\p{N}]+/gu, '-'),
+    });
+    const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dose-schedule-${patientInfo.name.trim().replace(/\s+/g, '_') || 'patient'}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleReminders = async () => {
+    setReminderError(null);
+    if (remindersOn) {
+      try {
+        await disableDoseReminders(planId);
+        setRemindersOn(false);
+      } catch (err) {
+        console.error("Error disabling dose reminders:", err);
+      }
+      return;
+    }
+    const now = Date.now();
+    const plan: DoseReminderPlan = {
+      id: planId,
+      title: tp('dose.reminderTitle', { name: patientInfo.name }),
+      doses: listDoses(schedule).filter(dose => dose.at.getTime() > now).map(dose => ({
+        at: dose.at.toISOString(),
+        body: dose.medicines.map(({ medicine, amount }) =>
+          `${doseLine(medicine.name, amount, medicine.unit)}${medicine.food ? ` (${foodLabel(medicine.food)})` : ''}`).join('\n'),
+      })),
+    };
+    try {
+      const permission = await enableDoseReminders(plan);
+      if (permission === 'granted') setRemindersOn(true);
+      else setReminderError(permission === 'unsupported' ? t('dose.remindersUnsupported') : t('dose.remindersBlocked'));
+    } catch (err) {
+      console.error("Error enabling dose reminders:", err);
+      setReminderError(t('dose.remindersUnsupported'));
+    }
+  };
+
+  const isUrdu = language === 'Urdu';
+  const cellClasses = "p-2 border border-gray-300 dark:border-gray-600 print:border-gray-500 align-top";
+  const headClasses = `${cellClasses} text-start font-semibold bg-gray-50 dark:bg-gray-900/50 print:bg-gray-100`;
+
+  return (
+    <section className="dose-chart mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 print:shadow-none print:p-0">
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-3 no-print">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t('dose.startDate')}
+          <input type="date" value={startDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} className="block mt-1 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700"/>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={handlePrint} className={buttonClasses}><PrintIcon className="w-4 h-4" /> {t('dose.print')}</button>
+          {schedule.days > 0 && (
+            <>
+              <button type="button" onClick={handleCalendar} className={buttonClasses}><DownloadIcon className="w-4 h-4" /> {t('dose.calendar')}</button>
+              <button type="button" onClick={handleReminders} aria-pressed={remindersOn} className={`${buttonClasses} ${remindersOn ? 'bg-teal-600 border-teal-600 text-white hover:bg-teal-700 dark:text-white dark:hover:bg-teal-700' : ''}`}>
+                {remindersOn ? t('dose.remindersOn') : t('dose.remind')}
+              </button>
+            </>
+          )}
+        </div>
+        {schedule.days > 0 && <p className="w-full text-xs text-gray-500 dark:text-gray-400">{t('dose.remindersNote')}</p>}
+        {reminderError && <p className="w-full text-sm text-red-600 dark:text-red-400" role="alert">{reminderError}</p>}
+      </div>
+
+      <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`text-gray-800 dark:text-gray-200 print:text-black ${isUrdu ? 'font-urdu leading-loose' : ''}`}>
+        <h2 className="text-2xl font-bold text-teal-600 dark:text-teal-400">{tp('dose.title')}</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          {patientInfo.name} · {tp('dose.starting', { date: formatDate(courseDate(startDate, 0), language) })}
+        </p>
+
+        <div className="overflow-x-auto print:overflow-visible">
+          <table className="w-full border-collapse text-sm mb-6">
+            <thead>
+              <tr>
+                <th className={headClasses}>{tp('dose.medicine')}</th>
+                {schedule.times.map(time => <th key={time} className={headClasses}>{tp(`doseTime.${time}` as MessageKey)}</th>)}
+                <th className={headClasses}>{tp('dose.food')}</th>
+                <th className={headClasses}>{tp('dose.days')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schedule.medicines.map((medicine, i) => (
+                <tr key={i}>
+                  <td className={`${cellClasses} font-semibold`}>{medicine.name}</td>
+                  {schedule.times.map(time => {
+                    const dose = medicine.doses.find(entry => entry.time === time);
+                    return <td key={time} className={`${cellClasses} text-center`}>{dose ? formatAmount(dose.amount, medicine.unit) : '—'}</td>;
+                  })}
+                  <td className={cellClasses}>{foodLabel(medicine.food)}</td>
+                  <td className={cellClasses}>{medicine.days ?? tp('dose.asDirected')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {schedule.days > 0 && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{tp('dose.tick')}</p>
+            <div className="overflow-x-auto print:overflow-visible">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className={headClasses}></th>
+                    {schedule.times.map(time => <th key={time} className={headClasses}>{tp(`doseTime.${time}` as MessageKey)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from({ length: schedule.days }, (_, day) => (
+                    <tr key={day} className="break-inside-avoid">
+                      <th scope="row" className={`${headClasses} whitespace-nowrap`}>
+                        {tp('dose.day', { day: day + 1 })}
+                        <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{formatDate(courseDate(startDate, day), language, { day: 'numeric', month: 'short' })}</span>
+                      </th>
+                      {schedule.times.map(time => (
+                        <td key={time} className={cellClasses}>
+                          {schedule.medicines.map((medicine, i) => {
+                            const dose = medicine.doses.find(entry => entry.time === time);
+                            if (!dose || !isTakenOn(medicine, day)) return null;
+                            return <span key={i} className="block">☐ {doseLine(medicine.name, dose.amount, medicine.unit)}</span>;
+                          })}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { PatientInfo, TriageResult } from '../types';
+import { getEmergencyContacts } from '../services/settings';
+import { BackIcon, WarningIcon } from './icons';
+import { useI18n } from '../services/i18n';
+
+interface EmergencyScreenProps {
+  triage: TriageResult;
+  patientInfo: PatientInfo;
+  onBack: () => void;
+  onOverride: () => void;
+}
+
+export const EmergencyScreen: React.FC<EmergencyScreenProps> = ({ triage, patientInfo, onBack, onOverride }) => {
+  const { t } = useI18n();
+  const [isClinicianConfirmed, setIsClinicianConfirmed] = useState(false);
+  const contacts = getEmergencyContacts(patientInfo.district);
+  const reasons = [...triage.localFlags.map(flag => flag.label), ...triage.modelReasons];
+
+  return (
+    <div className="fixed inset-0 bg-red-700 z-50 overflow-y-auto no-print" role="alertdialog" aria-modal="true" aria-labelledby="emergency-title">
+      <div className="min-h-full flex items-center justify-center p-4">
+        <div className="w-full max-w-xl bg-white dark:bg-gray-900 rounded-2xl shadow-2xl p-6 sm:p-8 space-y-6">
+          <div className="flex items-center gap-4">
+            <WarningIcon className="w-14 h-14 text-red-600 flex-shrink-0" />
+            <div>
+              <h2 id="emergency-title" className="text-2xl sm:text-3xl font-bold text-red-700 dark:text-red-400">{t('emergency.title')}</h2>
+              <p className="text-gray-700 dark:text-gray-300 mt-1">{t('emergency.subtitle')}</p>
+            </div>
+          </div>
+
+          {reasons.length > 0 && (
+            <ul className="list-disc ps-5 space-y-1 text-gray-800 dark:text-gray-200">
+              {[...new Set(reasons)].map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900 dark:text-white">
+              {patientInfo.district ? t('emergency.callForHelpIn', { district: patientInfo.district }) : t('emergency.callForHelp')}
+            </h3>
+            {contacts.length === 0 ? (
+              <p className="text-gray-700 dark:text-gray-300">{t('emergency.noContacts')}</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {contacts.map(contact => (
+                  <a
+                    key={`${contact.district}-${contact.label}-${contact.number}`}
+                    href={`tel:${contact.number.replace(/[^\d+]/g, '')}`}
+                    className="flex items-center justify-between px-4 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                  >
+                    <span>{contact.label}</span>
+                    <span className="text-xl tracking-wide">{contact.number}</span>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            <button onClick={onBack} className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2">
+              <BackIcon className="w-5 h-5" /> {t('emergency.back')}
+            </button>
+            <label className="flex items-start gap-3 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={isClinicianConfirmed} onChange={(e) => setIsClinicianConfirmed(e.target.checked)} className="mt-1 h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+              <span>{t('emergency.clinicianConfirm')}</span>
+            </label>
+            {isClinicianConfirmed && (
+              <button onClick={onOverride} className="w-full px-6 py-2 text-sm border border-gray-400 text-gray-700 dark:text-gray-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+                {t('emergency.continue')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
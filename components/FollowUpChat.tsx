@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage } from '../types';
+import { LoadingIcon } from './icons';
+import { isRtlLanguage, useI18n } from '../services/i18n';
+import { describeError } from '../services/providers/errors';
+
+interface FollowUpChatProps {
+  messages: ChatMessage[];
+  language: string;
+  includeInPrint: boolean;
+  onAsk: (question: string) => Promise<void>;
+  onIncludeInPrintChange: (include: boolean) => void;
+}
+
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ messages, language, includeInPrint, onAsk, onIncludeInPrintChange }) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { t, dir } = useI18n();
+  const isRtl = isRtlLanguage(language);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, isAsking]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAsking) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      await onAsk(text);
+      setQuestion('');
+    } catch (err: unknown) {
+      setError(describeError(err, t));
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 no-print">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4 border-b-2 border-gray-200 dark:border-gray-700 pb-3">
+        <h2 className="text-2xl font-bold text-teal-600 dark:text-teal-400">{t('chat.title')}</h2>
+        {messages.length > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <input type="checkbox" checked={includeInPrint} onChange={(e) => onIncludeInPrintChange(e.target.checked)} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500" />
+            {t('chat.includeInPrint')}
+          </label>
+        )}
+      </div>
+
+      <div className={`space-y-3 max-h-96 overflow-y-auto ${language === 'Urdu' ? 'font-urdu' : ''}`} dir={isRtl ? 'rtl' : 'ltr'}>
+        {messages.length === 0 && (
+          <p dir={dir} className="text-sm text-gray-500 dark:text-gray-400 font-sans">
+            {t('chat.empty', { language })}
+          </p>
+        )}
+        {messages.map((message, i) => (
+          <div key={i} className={`flex ${message.role === 'patient' ? 'justify-start' : 'justify-end'}`}>
+            <p className={`max-w-[85%] px-4 py-2 rounded-2xl whitespace-pre-line ${
+              message.role === 'patient'
+                ? 'bg-teal-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+            } ${language === 'Urdu' ? 'leading-loose' : ''}`}>
+              {message.text}
+            </p>
+          </div>
+        ))}
+        {isAsking && (
+          <div className="flex justify-start">
+            <p className="max-w-[85%] px-4 py-2 rounded-2xl whitespace-pre-line bg-teal-600/70 text-white">{question.trim()}</p>
+          </div>
+        )}
+        {isAsking && (
+          <div className="flex justify-end">
+            <LoadingIcon className="w-8 h-8 text-teal-500" />
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      {error && <div className="mt-3 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-200 p-3 rounded-md text-sm" role="alert"><p>{error}</p></div>}
+
+      <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          dir="auto"
+          placeholder={t('chat.placeholder')}
+          aria-label={t('chat.inputLabel')}
+          disabled={isAsking}
+          className={`flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors ${language === 'Urdu' ? 'font-urdu' : ''}`}
+        />
+        <button type="submit" disabled={isAsking || !question.trim()} className="px-5 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed">
+          {t('chat.ask')}
+        </button>
+      </form>
+    </div>
+  );
+};
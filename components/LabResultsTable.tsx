@@ -0,0 +1,109 @@
+import React from 'react';
+import { LabFlag, LabResult } from '../types';
+import { flagLabResult, formatLabNumber, normalizeLabResult } from '../services/labUnits';
+import { formatRange } from '../services/labTrends';
+import { TrashIcon } from './icons';
+import { MessageKey, useI18n } from '../services/i18n';
+
+interface LabResultsTableProps {
+  results: LabResult[];
+  onChange: (results: LabResult[]) => void;
+}
+
+const FLAG_CLASSES: Record<LabFlag, string> = {
+  normal: 'border-gray-300 dark:border-gray-600',
+  low: 'border-sky-400 bg-sky-50 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200',
+  high: 'border-amber-400 bg-amber-50 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+  critical: 'border-red-500 bg-red-50 text-red-800 font-semibold dark:bg-red-900/40 dark:text-red-200',
+};
+
+const cellClasses = "w-full min-w-[4rem] px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700";
+
+// Shown when the canonical unit differs from the one on the report, e.g. "= 133.3 mg/dL"
+const NormalizedValue: React.FC<{ result: LabResult }> = ({ result }) => {
+  const normalized = normalizeLabResult(result);
+  if (!normalized || normalized.unit === result.unit) return null;
+  const range = formatRange(normalized.range);
+  return <span className="whitespace-nowrap">= {formatLabNumber(normalized.value)} {normalized.unit}{range && ` (${range})`}</span>;
+};
+
+// Staff check what was read from the reports before the plan is generated. Editing a value,
+// unit or range re-checks the flag; the flag can still be set by hand when it cannot be read.
+export const LabResultsTable: React.FC<LabResultsTableProps> = ({ results, onChange }) => {
+  const { t } = useI18n();
+  const updateRow = (index: number, changes: Partial<LabResult>) =>
+    onChange(results.map((result, i) => {
+      if (i !== index) return result;
+      const updated = { ...result, ...changes };
+      return 'flag' in changes ? updated : { ...updated, flag: flagLabResult(updated) ?? updated.flag };
+    }));
+
+  const addRow = () =>
+    onChange([...results, { test: '', value: '', unit: '', referenceRange: '', flag: 'normal', reportDate: results[results.length - 1]?.reportDate ?? '', source: t('lab.enteredByStaff') }]);
+
+  const abnormal = results.filter(result => result.flag !== 'normal').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          {t('lab.title')} <span className="font-normal text-gray-500 dark:text-gray-400">{t('lab.summary', { rows: results.length, abnormal })}</span>
+        </h3>
+        <button type="button" onClick={addRow} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline">
+          {t('lab.addRow')}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{t('lab.hint')}</p>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-start text-xs text-gray-500 dark:text-gray-400">
+              <th className="px-1 py-1 font-medium">{t('lab.test')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.value')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.unit')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.reference')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.flag')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.date')}</th>
+              <th className="px-1 py-1 font-medium">{t('lab.normalized')}</th>
+              <th className="px-1 py-1"><span className="sr-only">{t('lab.remove')}</span></th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, i) => (
+              <tr key={i} className="align-top" title={result.source}>
+                <td className="px-1 py-1">
+                  <input type="text" aria-label={t('lab.test')} value={result.test} onChange={(e) => updateRow(i, { test: e.target.value })} className={`${cellClasses} min-w-[9rem]`} />
+                </td>
+                <td className="px-1 py-1">
+                  <input type="text" aria-label={t('lab.value')} value={result.value} onChange={(e) => updateRow(i, { value: e.target.value })} className={cellClasses} />
+                </td>
+                <td className="px-1 py-1">
+                  <input type="text" aria-label={t('lab.unit')} value={result.unit} onChange={(e) => updateRow(i, { unit: e.target.value })} className={cellClasses} />
+                </td>
+                <td className="px-1 py-1">
+                  <input type="text" aria-label={t('lab.referenceRange')} value={result.referenceRange} onChange={(e) => updateRow(i, { referenceRange: e.target.value })} className={cellClasses} />
+                </td>
+                <td className="px-1 py-1">
+                  <select aria-label={t('lab.flag')} value={result.flag} onChange={(e) => updateRow(i, { flag: e.target.value as LabFlag })} className={`${cellClasses} ${FLAG_CLASSES[result.flag]}`}>
+                    {(Object.keys(FLAG_CLASSES) as LabFlag[]).map(flag => <option key={flag} value={flag}>{t(`labFlag.${flag}` as MessageKey)}</option>)}
+                  </select>
+                </td>
+                <td className="px-1 py-1">
+                  <input type="date" aria-label={t('lab.reportDate')} value={result.reportDate} onChange={(e) => updateRow(i, { reportDate: e.target.value })} className={cellClasses} />
+                </td>
+                <td className="px-1 py-1 pt-2 text-xs text-gray-500 dark:text-gray-400">
+                  <NormalizedValue result={result} />
+                </td>
+                <td className="px-1 py-1">
+                  <button type="button" onClick={() => onChange(results.filter((_, j) => j !== i))} title={t('lab.removeRow')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Consultation, LabFlag } from '../types';
+import { LabSeries, TrendDirection, buildLabSeries, formatRange, trendDirection } from '../services/labTrends';
+import { formatLabNumber } from '../services/labUnits';
+
+interface LabTrendsProps {
+  consultations: Consultation[];
+}
+
+const CHART = { width: 320, height: 150, left: 40, right: 12, top: 12, bottom: 24 };
+
+const POINT_COLORS: Record<LabFlag, string> = {
+  normal: '#0d9488',
+  low: '#0284c7',
+  high: '#d97706',
+  critical: '#dc2626',
+};
+
+const DIRECTION_STYLES: Record<TrendDirection, { label: string; classes: string }> = {
+  improving: { label: '▲ Improving', classes: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200' },
+  worsening: { label: '▼ Worsening', classes: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200' },
+  stable: { label: '● Stable', classes: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200' },
+};
+
+const dayOf = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+// One analyte over time. The shaded band is the latest reference range; a one-sided range
+// ("< 200") extends the band to the edge of the chart.
+const TrendChart: React.FC<{ series: LabSeries }> = ({ series }) => {
+  const { points } = series;
+  const range = points[points.length - 1].range;
+  const values = [...points.map(point => point.value), range?.low, range?.high].filter((value): value is number => value !== undefined);
+  const padding = (Math.max(...values) - Math.min(...values)) * 0.1 || Math.abs(values[0]) * 0.1 || 1;
+  const min = Math.min(...values) - padding;
+  const max = Math.max(...values) + padding;
+  const first = dayOf(points[0].date);
+  const span = dayOf(points[points.length - 1].date) - first;
+
+  const plotWidth = CHART.width - CHART.left - CHART.right;
+  const plotHeight = CHART.height - CHART.top - CHART.bottom;
+  const x = (date: string) => CHART.left + (span === 0 ? plotWidth / 2 : ((dayOf(date) - first) / span) * plotWidth);
+  const y = (value: number) => CHART.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const bandTop = y(range?.high ?? max);
+  const bandBottom = y(range?.low ?? min);
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={`${series.label} trend`}>
+      {range && (range.low !== undefined || range.high !== undefined) && (
+        <rect x={CHART.left} y={bandTop} width={plotWidth} height={Math.max(bandBottom - bandTop, 0)} className="fill-green-100 dark:fill-green-900/40" />
+      )}
+      <line x1={CHART.left} y1={CHART.top} x2={CHART.left} y2={CHART.top + plotHeight} className="stroke-gray-300 dark:stroke-gray-600" />
+      <line x1={CHART.left} y1={CHART.top + plotHeight} x2={CHART.left + plotWidth} y2={CHART.top + plotHeight} className="stroke-gray-300 dark:stroke-gray-600" />
+      {[...new Set([max - padding, min + padding])].map(value => (
+        <text key={value} x={CHART.left - 4} y={y(value) + 3} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[9px]">{formatLabNumber(value)}</text>
+      ))}
+      <text x={CHART.left} y={CHART.height - 6} textAnchor="start" className="fill-gray-500 dark:fill-gray-400 text-[9px]">{formatDate(points[0].date)}</text>
+      {points.length > 1 && (
+        <text x={CHART.left + plotWidth} y={CHART.height - 6} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-[9px]">{formatDate(points[points.length - 1].date)}</text>
+      )}
+      <polyline points={points.map(point => `${x(point.date)},${y(point.value)}`).join(' ')} fill="none" className="stroke-teal-600 dark:stroke-teal-400" strokeWidth={2} />
+      {points.map((point, i) => (
+        <circle key={i} cx={x(point.date)} cy={y(point.value)} r={3.5} fill={POINT_COLORS[point.flag]}>
+          <title>{`${point.date}: ${formatLabNumber(point.value)} ${series.unit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const LabTrends: React.FC<LabTrendsProps> = ({ consultations }) => {
+  const series = buildLabSeries(consultations);
+
+  if (series.length === 0) {
+    return <p className="p-3 text-sm text-gray-500 dark:text-gray-400">No lab results saved yet. Extract results from uploaded reports to start tracking them.</p>;
+  }
+
+  return (
+    <div className="p-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {series.map(entry => {
+        const latest = entry.points[entry.points.length - 1];
+        const direction = trendDirection(entry);
+        const range = formatRange(latest.range);
+        return (
+          <div key={entry.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">{entry.label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Latest {formatLabNumber(latest.value)} {entry.unit}{range && ` · Ref ${range}`} · {entry.points.length} result(s)
+                </p>
+              </div>
+              {direction && <span className={`flex-shrink-0 px-1.5 py-0.5 text-xs rounded ${DIRECTION_STYLES[direction].classes}`}>{DIRECTION_STYLES[direction].label}</span>}
+            </div>
+            <TrendChart series={entry} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { MIN_PIN_LENGTH, isVaultSetUp, unlockVault } from '../services/vault';
+import { eraseAllData, setUpEncryption } from '../services/patientData';
+import { MessageKey, useI18n } from '../services/i18n';
+import { AIDoctorLogoIcon, LoadingIcon, LockIcon } from './icons';
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  WrongPin: 'lock.wrongPin',
+  WeakPin: 'lock.tooShort',
+};
+
+const inputClasses = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+
+// Shown instead of the app until the clinic PIN is entered. On first use it sets the PIN up and
+// encrypts anything an earlier version stored.
+export const LockScreen: React.FC = () => {
+  const { t } = useI18n();
+  const [isSetUp, setIsSetUp] = useState(isVaultSetUp);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!isSetUp && pin !== confirmPin) {
+      setError(t('lock.mismatch'));
+      return;
+    }
+    setIsWorking(true);
+    try {
+      // The vault notifies the app once it is open, which replaces this screen
+      if (isSetUp) await unlockVault(pin);
+      else await setUpEncryption(pin);
+    } catch (err) {
+      console.error("Error unlocking patient data:", err);
+      setError(t(ERROR_MESSAGES[(err as Error).name] ?? 'lock.failed'));
+      setPin('');
+      setIsWorking(false);
+    }
+  };
+
+  const handleForgotPin = async () => {
+    if (!window.confirm(t('lock.resetConfirm'))) return;
+    try {
+      await eraseAllData();
+      setIsSetUp(false);
+      setPin('');
+      setConfirmPin('');
+      setError(null);
+    } catch (err) {
+      console.error("Error erasing local data:", err);
+      setError(t('lock.failed'));
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gray-100 dark:bg-gray-900">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex flex-col items-center text-center gap-2">
+          <AIDoctorLogoIcon className="h-12 w-12 text-teal-600 dark:text-teal-400" />
+          <h1 className="flex items-center gap-2 text-xl font-bold text-gray-900 dark:text-white">
+            <LockIcon className="h-5 w-5" /> {isSetUp ? t('lock.title') : t('lock.setupTitle')}
+          </h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{isSetUp ? t('lock.subtitle') : t('lock.setupSubtitle', { min: MIN_PIN_LENGTH })}</p>
+        </div>
+        <div>
+          <label htmlFor="clinicPin" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('lock.pin')}</label>
+          <input id="clinicPin" type="password" autoComplete={isSetUp ? 'current-password' : 'new-password'} autoFocus required minLength={isSetUp ? undefined : MIN_PIN_LENGTH} value={pin} onChange={(e) => setPin(e.target.value)} className={inputClasses} />
+        </div>
+        {!isSetUp && (
+          <div>
+            <label htmlFor="clinicPinConfirm" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('lock.confirmPin')}</label>
+            <input id="clinicPinConfirm" type="password" autoComplete="new-password" required value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)} className={inputClasses} />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('lock.setupNote')}</p>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        <button type="submit" disabled={isWorking || !pin} className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 disabled:opacity-60">
+          {isWorking && <LoadingIcon className="w-5 h-5" />}
+          {isSetUp ? t('lock.unlock') : t('lock.setup')}
+        </button>
+        {isSetUp && (
+          <button type="button" onClick={handleForgotPin} className="w-full text-sm text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:underline">
+            {t('lock.forgot')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
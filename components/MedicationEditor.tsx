@@ -0,0 +1,75 @@
+import React from 'react';
+import { FoodTiming, MedicationItem } from '../types';
+import { FOOD_TIMINGS } from '../services/doseSchedule';
+import { MessageKey, useI18n } from '../services/i18n';
+import { TrashIcon } from './icons';
+
+interface MedicationEditorProps {
+  item: MedicationItem;
+  onChange: (changes: Partial<MedicationItem>) => void;
+  onRemove: () => void;
+}
+
+const FIELDS: { name: 'name' | 'strength' | 'dosage' | 'duration' | 'route' | 'notes'; label: MessageKey }[] = [
+  { name: 'name', label: 'medEditor.name' },
+  { name: 'strength', label: 'medEditor.strength' },
+  { name: 'dosage', label: 'medEditor.dosage' },
+  { name: 'duration', label: 'medEditor.duration' },
+  { name: 'route', label: 'medEditor.route' },
+  { name: 'notes', label: 'medEditor.notes' },
+];
+
+const inputClasses = "w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700";
+
+// Inline editor for one medicine during practitioner review. AI items can only be struck out,
+// so the original suggestion stays visible; items the reviewer added can be removed.
+export const MedicationEditor: React.FC<MedicationEditorProps> = ({ item, onChange, onRemove }) => {
+  const { t } = useI18n();
+  return (
+    <li className={`list-none -mx-2 p-2 rounded-lg border ${item.struck ? 'border-red-300 bg-red-50/50 dark:bg-red-900/20' : 'border-gray-200 dark:border-gray-700'}`} dir="ltr">
+      <div className={`grid grid-cols-2 sm:grid-cols-3 gap-2 ${item.struck ? 'opacity-60' : ''}`}>
+        {FIELDS.map(({ name, label }) => (
+          <input
+            key={name}
+            type="text"
+            aria-label={t(label)}
+            placeholder={t(label)}
+            value={item[name]}
+            disabled={item.struck}
+            onChange={(e) => onChange({ [name]: e.target.value })}
+            className={inputClasses}
+          />
+        ))}
+        <select
+          aria-label={t('dose.food')}
+          value={item.food ?? ''}
+          disabled={item.struck}
+          onChange={(e) => onChange({ food: (e.target.value || undefined) as FoodTiming | undefined })}
+          className={inputClasses}
+        >
+          <option value="">{t('medEditor.mealsNotStated')}</option>
+          {FOOD_TIMINGS.map(timing => <option key={timing} value={timing}>{t(`food.${timing}`)}</option>)}
+        </select>
+      </div>
+      <div className="mt-2 flex items-center gap-2">
+        <input
+          type="text"
+          aria-label={t('medEditor.reviewerNote')}
+          placeholder={t('medEditor.reviewerNotePlaceholder')}
+          value={item.reviewNote ?? ''}
+          onChange={(e) => onChange({ reviewNote: e.target.value })}
+          className={inputClasses}
+        />
+        {item.addedByReviewer ? (
+          <button type="button" onClick={onRemove} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+            <TrashIcon className="h-5 w-5" />
+          </button>
+        ) : (
+          <button type="button" onClick={() => onChange({ struck: !item.struck })} className={`flex-shrink-0 px-3 py-1 text-sm font-semibold rounded-lg border ${item.struck ? 'border-gray-400 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700' : 'border-red-400 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30'}`}>
+            {item.struck ? t('medEditor.restore') : t('medEditor.strike')}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ModalityCategory, ModalityOutputFormat, TreatmentModality } from '../types';
+import { BUILTIN_MODALITIES, MODALITY_CATEGORIES, OUTPUT_FORMATS, RELIGIONS } from '../services/modalities';
+import { useI18n } from '../services/i18n';
+import { TrashIcon } from './icons';
+
+interface ModalityEditorProps {
+  modalities: TreatmentModality[];
+  onChange: (modalities: TreatmentModality[]) => void;
+}
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+const labelClasses = "block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1";
+
+// New modalities get their id when the settings are saved, once they have a name
+const newModality = (): TreatmentModality => ({
+  id: '', name: '', category: 'traditional', outputFormat: 'mixed', promptRules: '', enabled: true,
+});
+
+export const ModalityEditor: React.FC<ModalityEditorProps> = ({ modalities, onChange }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const update = (index: number, changes: Partial<TreatmentModality>) => {
+    onChange(modalities.map((modality, i) => (i === index ? { ...modality, ...changes } : modality)));
+  };
+
+  // A renamed built-in shows the clinic's name instead of the translated default
+  const handleNameChange = (index: number, name: string) => {
+    const modality = modalities[index];
+    update(index, { name, labelKey: modality.builtIn && name === modality.id ? BUILTIN_MODALITIES.find(b => b.id === modality.id)?.labelKey : undefined });
+  };
+
+  const handleRestore = (index: number) => {
+    const builtIn = BUILTIN_MODALITIES.find(b => b.id === modalities[index].id);
+    if (builtIn) update(index, { ...builtIn, enabled: modalities[index].enabled });
+  };
+
+  const handleAdd = () => {
+    onChange([...modalities, newModality()]);
+    setExpanded(modalities.length);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(modalities.filter((_, i) => i !== index));
+    setExpanded(null);
+  };
+
+  // Religions are stored in English, so look up the translated name
+  const religionLabel = (value: string) => {
+    const religion = RELIGIONS.find(r => r.value === value);
+    return religion ? t(religion.label) : value;
+  };
+
+  return (
+    <div className="space-y-2">
+      {modalities.map((modality, index) => (
+        <div key={modality.id || `new-${index}`} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div className="flex items-center gap-3 p-2">
+            <input type="checkbox" checked={modality.enabled} onChange={(e) => update(index, { enabled: e.target.checked })} aria-label={t('modality.offer', { name: modality.name || t('modality.new') })} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-medium truncate ${modality.enabled ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>{modality.name || t('modality.new')}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {t(MODALITY_CATEGORIES[modality.category])}{modality.religion && ` · ${t('modality.patientsOnly', { religion: religionLabel(modality.religion) })}`}
+              </p>
+            </div>
+            <button type="button" onClick={() => setExpanded(expanded === index ? null : index)} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline">
+              {expanded === index ? t('modality.done') : t('modality.edit')}
+            </button>
+            {!modality.builtIn && (
+              <button type="button" onClick={() => handleRemove(index)} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+          {expanded === index && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 border-t border-gray-200 dark:border-gray-700">
+              <div className="sm:col-span-2">
+                <label htmlFor={`modality-name-${index}`} className={labelClasses}>{t('modality.name')}</label>
+                <input type="text" id={`modality-name-${index}`} value={modality.name} onChange={(e) => handleNameChange(index, e.target.value)} placeholder={t('modality.namePlaceholder')} className={inputClasses}/>
+              </div>
+              <div>
+                <label htmlFor={`modality-category-${index}`} className={labelClasses}>{t('modality.category')}</label>
+                <select id={`modality-category-${index}`} value={modality.category} onChange={(e) => update(index, { category: e.target.value as ModalityCategory })} className={inputClasses}>
+                  {(Object.keys(MODALITY_CATEGORIES) as ModalityCategory[]).map(category => (
+                    <option key={category} value={category}>{t(MODALITY_CATEGORIES[category])}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor={`modality-format-${index}`} className={labelClasses}>{t('modality.format')}</label>
+                <select id={`modality-format-${index}`} value={modality.outputFormat} onChange={(e) => update(index, { outputFormat: e.target.value as ModalityOutputFormat })} className={inputClasses}>
+                  {(Object.keys(OUTPUT_FORMATS) as ModalityOutputFormat[]).map(format => (
+                    <option key={format} value={format}>{t(OUTPUT_FORMATS[format])}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor={`modality-religion-${index}`} className={labelClasses}>{t('modality.offeredTo')}</label>
+                <select id={`modality-religion-${index}`} value={modality.religion ?? ''} onChange={(e) => update(index, { religion: e.target.value || undefined })} className={inputClasses}>
+                  <option value="">{t('modality.allPatients')}</option>
+                  {RELIGIONS.filter(religion => religion.value !== 'Other').map(religion => (
+                    <option key={religion.value} value={religion.value}>{t('modality.patientsOnly', { religion: t(religion.label) })}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="sm:col-span-2">
+                <label htmlFor={`modality-rules-${index}`} className={labelClasses}>{t('modality.rules')}</label>
+                <textarea id={`modality-rules-${index}`} rows={3} value={modality.promptRules} onChange={(e) => update(index, { promptRules: e.target.value })} placeholder={t('modality.rulesPlaceholder')} className={inputClasses}></textarea>
+                {modality.category === 'conventional' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('modality.conventionalHint')}</p>
+                )}
+              </div>
+              {modality.builtIn && (
+                <button type="button" onClick={() => handleRestore(index)} className="sm:col-span-2 justify-self-start text-sm font-semibold text-gray-600 dark:text-gray-300 hover:underline">
+                  {t('modality.restore')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <button type="button" onClick={handleAdd} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline">
+        {t('modality.add')}
+      </button>
+    </div>
+  );
+};
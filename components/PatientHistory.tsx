@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { Consultation, PatientRecord } from '../types';
+import { listPatients, getConsultations, deleteConsultation } from '../services/patientHistory';
+import { ErasureReceipt, erasePatient, exportPatientData } from '../services/patientData';
+import { Translate, useI18n } from '../services/i18n';
+import { BackIcon, DownloadIcon, EyeIcon, PrintIcon, TrashIcon } from './icons';
+import { LabTrends } from './LabTrends';
+
+interface PatientHistoryProps {
+  onReopen: (consultation: Consultation) => void;
+  onPrint: (consultation: Consultation) => void;
+  onFollowUp: (patient: PatientRecord) => void;
+  onErase: () => void; // The offline queue may have changed
+  onClose: () => void;
+}
+
+const matchesQuery = (patient: PatientRecord, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const { name, cell, district } = patient.info;
+  return [name, cell, district].some(value => value.toLowerCase().includes(q));
+};
+
+const describeReceipt = (name: string, receipt: ErasureReceipt, t: Translate, locale: string) =>
+  t('history.erased', {
+    name,
+    consultations: receipt.consultations,
+    attachments: receipt.attachments,
+    queued: receipt.queued,
+    reminders: receipt.reminders,
+    time: new Date(receipt.erasedAt).toLocaleString(locale),
+  });
+
+export const PatientHistory: React.FC<PatientHistoryProps> = ({ onReopen, onPrint, onFollowUp, onErase, onClose }) => {
+  const { t, locale } = useI18n();
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [consultations, setConsultations] = useState<Record<string, Consultation[]>>({});
+  const [query, setQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showTrends, setShowTrends] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [erasing, setErasing] = useState<PatientRecord | null>(null);
+  const [eraseConfirmation, setEraseConfirmation] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const loadPatients = async () => {
+    try {
+      setPatients(await listPatients());
+    } catch (err) {
+      console.error("Error loading patient history:", err);
+      setError(t('history.loadFailed'));
+    }
+  };
+
+  const loadConsultations = async (patientId: string) => {
+    const records = await getConsultations(patientId);
+    setConsultations(prev => ({ ...prev, [patientId]: records }));
+  };
+
+  useEffect(() => {
+    loadPatients();
+  }, []);
+
+  const toggleExpanded = (patientId: string) => {
+    if (expandedId === patientId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(patientId);
+    setShowTrends(false);
+    loadConsultations(patientId);
+  };
+
+  const handleDeleteConsultation = async (consultation: Consultation) => {
+    if (!window.confirm(t('history.deleteConfirm', { date: new Date(consultation.createdAt).toLocaleString(locale) }))) return;
+    await deleteConsultation(consultation.id);
+    await loadConsultations(consultation.patientId);
+  };
+
+  const handleExport = async (patient: PatientRecord) => {
+    setExportingId(patient.id);
+    setError(null);
+    try {
+      const { blob, fileName } = await exportPatientData(patient);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Error exporting patient data:", err);
+      setError(t('history.exportFailed', { name: patient.info.name }));
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const startErase = (patient: PatientRecord) => {
+    setErasing(patient);
+    setEraseConfirmation('');
+    setNotice(null);
+  };
+
+  // Staff type the patient's name to confirm; the erase then checks for itself that nothing is left
+  const handleErase = async () => {
+    if (!erasing) return;
+    setError(null);
+    try {
+      const receipt = await erasePatient(erasing);
+      setNotice(describeReceipt(erasing.info.name, receipt, t, locale));
+    } catch (err) {
+      console.error("Error erasing patient:", err);
+      setError((err as Error).name === 'ErasureIncomplete' ? t('history.eraseIncomplete') : t('history.eraseFailed', { name: erasing.info.name }));
+    }
+    setErasing(null);
+    setExpandedId(null);
+    onErase();
+    await loadPatients();
+  };
+
+  const filteredPatients = patients.filter(patient => matchesQuery(patient, query));
+
+  return (
+    <div className="max-w-3xl mx-auto bg-white/80 dark:bg-gray-800/50 rounded-2xl shadow-2xl shadow-gray-300/30 dark:shadow-black/30 p-6 sm:p-8 space-y-6 backdrop-blur-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900 dark:text-white">{t('header.history')}</h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">{t('history.savedLocally')}</p>
+        </div>
+        <button onClick={onClose} className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2">
+          <BackIcon className="w-5 h-5" /> {t('history.back')}
+        </button>
+      </div>
+
+      {error && <div className="bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-200 p-4 rounded-md" role="alert"><p>{error}</p></div>}
+      {notice && <div className="bg-green-100 dark:bg-green-900/50 border-l-4 border-green-500 text-green-800 dark:text-green-200 p-4 rounded-md" role="status"><p>{notice}</p></div>}
+
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('history.search')}
+        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors"
+      />
+
+      {filteredPatients.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-8">{patients.length === 0 ? t('history.noPatients') : t('history.noMatches')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {filteredPatients.map(patient => (
+            <li key={patient.id} className="border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="flex items-center justify-between p-3">
+                <button type="button" onClick={() => toggleExpanded(patient.id)} className="text-start flex-1">
+                  <p className="font-semibold text-gray-900 dark:text-white">{patient.info.name}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {t('history.age', { age: patient.info.age })} | {t('history.district', { district: patient.info.district })} {patient.info.cell && `| ${t('history.cell', { cell: patient.info.cell })}`}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500">{t('history.lastVisit', { date: new Date(patient.updatedAt).toLocaleString(locale) })}</p>
+                </button>
+                <div className="flex items-center gap-2">
+                  <button type="button" onClick={() => onFollowUp(patient)} className="px-3 py-1.5 text-sm bg-teal-600 text-white font-semibold rounded-lg hover:bg-teal-700">
+                    {t('history.followUp')}
+                  </button>
+                  <button type="button" onClick={() => handleExport(patient)} disabled={exportingId === patient.id} title={t('history.export')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-teal-600 dark:hover:text-teal-400 rounded-full hover:bg-teal-100 dark:hover:bg-teal-900/50 disabled:opacity-50">
+                    <DownloadIcon className="h-5 w-5" />
+                  </button>
+                  <button type="button" onClick={() => startErase(patient)} title={t('history.erasePatient')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                    <TrashIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+              {erasing?.id === patient.id && (
+                <div className="p-3 space-y-2 border-t border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/20 text-sm">
+                  <p className="text-red-800 dark:text-red-200">
+                    {t('history.eraseWarning', { name: patient.info.name })}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    <input type="text" aria-label={t('history.patientName')} value={eraseConfirmation} onChange={(e) => setEraseConfirmation(e.target.value)} className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700" />
+                    <button type="button" onClick={handleErase} disabled={eraseConfirmation.trim().toLowerCase() !== patient.info.name.trim().toLowerCase()} className="px-3 py-1.5 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:opacity-50">
+                      {t('history.erase')}
+                    </button>
+                    <button type="button" onClick={() => setErasing(null)} className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+                      {t('common.cancel')}
+                    </button>
+                  </div>
+                </div>
+              )}
+              {expandedId === patient.id && (
+                <div className="flex gap-4 px-3 border-t border-gray-200 dark:border-gray-700 text-sm">
+                  {[false, true].map(trends => (
+                    <button key={String(trends)} type="button" onClick={() => setShowTrends(trends)} className={`py-2 border-b-2 font-medium ${showTrends === trends ? 'border-teal-500 text-teal-600 dark:text-teal-400' : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}>
+                      {trends ? t('history.labTrends') : t('history.consultations')}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {expandedId === patient.id && showTrends && (
+                <div className="border-t border-gray-200 dark:border-gray-700">
+                  <LabTrends consultations={consultations[patient.id] ?? []} />
+                </div>
+              )}
+              {expandedId === patient.id && !showTrends && (
+                <ul className="border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+                  {(consultations[patient.id] ?? []).map(consultation => (
+                    <li key={consultation.id} className="flex items-center justify-between p-3">
+                      <div>
+                        <p className="font-medium text-teal-700 dark:text-teal-400">
+                          {consultation.result.illnessTitle}
+                          {consultation.review?.status === 'approved'
+                            ? <span className="ms-2 px-1.5 py-0.5 text-xs rounded bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200">{t('history.approved')}</span>
+                            : <span className="ms-2 px-1.5 py-0.5 text-xs rounded bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200">{t('history.draft')}</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(consultation.createdAt).toLocaleString(locale)} · {consultation.treatments.join(', ')}
+                          {consultation.reports.length > 0 && ` · ${t('history.reports', { count: consultation.reports.length })}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button type="button" onClick={() => onReopen(consultation)} title={t('history.reopen')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-teal-600 dark:hover:text-teal-400 rounded-full hover:bg-teal-100 dark:hover:bg-teal-900/50">
+                          <EyeIcon className="h-5 w-5" />
+                        </button>
+                        <button type="button" onClick={() => onPrint(consultation)} title={t('history.print')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-teal-600 dark:hover:text-teal-400 rounded-full hover:bg-teal-100 dark:hover:bg-teal-900/50">
+                          <PrintIcon className="h-5 w-5" />
+                        </button>
+                        <button type="button" onClick={() => handleDeleteConsultation(consultation)} title={t('history.delete')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                  {(consultations[patient.id] ?? []).length === 0 && (
+                    <li className="p-3 text-sm text-gray-500 dark:text-gray-400">{t('history.noConsultations')}</li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,134 +1,604 @@
-import React, { useState, useRef } from 'react';
-import { AIDoctorLogoIcon, DownloadIcon, CloseIcon, EyeIcon, BackIcon } from './icons';
-import { PatientInfo } from '../types';
-
-// Inform TypeScript that html2canvas is globally available from the CDN script
-declare const html2canvas: any;
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { AIDoctorLogoIcon, LoadingIcon, DownloadIcon, CloseIcon, EyeIcon, BackIcon, WarningIcon } from './icons';
+import { ChatMessage, ClinicProfile, PatientInfo, PrescriptionData, PrescriptionLayout, PrescriptionReview, MedicationItem, SafetyWarning, SymptomSummary, TreatmentSection, WarningSeverity, TriageResult, UrgencyLevel } from '../types';
+import { checkPrescriptionSafety, isDrugCheckBlind } from '../services/safetyCheck';
+import { calculateBmi } from '../services/clinicalIntake';
+import { exportPrescriptionPdf, prescriptionFileName } from '../services/pdfExport';
+import { getDisclaimer, loadClinicProfile, loadModalities, saveClinicProfile } from '../services/settings';
+import { findModality } from '../services/modalities';
+import { translateTexts } from '../services/geminiService';
+import { reidentifyChat, reidentifyPrescription } from '../services/deidentify';
+import { MedicationEditor } from './MedicationEditor';
+import { ReviewBar } from './ReviewBar';
+import { FollowUpChat } from './FollowUpChat';
+import { ReadAloudButton } from './ReadAloudButton';
+import { DoseChart } from './DoseChart';
+import { ShareLinkPanel, ShareLink } from './ShareLinkPanel';
+import { describeSymptomSummary } from '../services/symptomQuestionnaire';
+import { buildComparisonRows, canCompare } from '../services/treatmentComparison';
+import { MessageKey, createTranslator, formatDate, getLocale, isRtlLanguage, useI18n } from '../services/i18n';
 
 interface PrescriptionProps {
   patientInfo: PatientInfo;
-  illnessTitle: string;
-  content: string;
-  advice: string;
+  prescription: PrescriptionData;
+  triage?: TriageResult | null;
+  symptomSummary?: SymptomSummary; // Answers from the guided questionnaire, printed with the plan
+  clinicProfile: ClinicProfile;
+  original: PrescriptionData; // The unedited AI output
+  review: PrescriptionReview;
+  onChange: (prescription: PrescriptionData, review: PrescriptionReview) => void;
+  chat: ChatMessage[];
+  printChat: boolean; // Whether the follow-up transcript goes on printed copies
+  onAsk: (question: string) => Promise<void>;
+  onPrintChatChange: (printChat: boolean) => void;
+  layout: PrescriptionLayout; // Stacked cards or the side-by-side comparison, on screen and in print
+  onLayoutChange: (layout: PrescriptionLayout) => void;
+  isStreaming?: boolean; // Sections are still arriving
+  notice?: string | null; // Shown when generation stopped early
+  onCancel?: () => void;
   onReset: () => void;
   onEdit: () => void;
 }
 
-const RTL_LANGUAGES = ['Arabic', 'Urdu'];
-
-const parseContent = (text: string, language: string, isPreview?: boolean) => {
-  const sections = text.split(/(?=## )/).filter(s => s.trim() !== '');
-
-  return sections.map((section, index) => {
-    const lines = section.split('\n');
-    const title = lines[0].replace('## ', '').trim();
-    const contentLines = lines.slice(1).filter(line => line.trim() !== '');
-    
-    const isRtl = RTL_LANGUAGES.includes(language);
-    // The 'font-urdu' class is specifically for Noto Nastaliq Urdu. We should only apply it for Urdu.
-    const isUrduFontNeeded = language === 'Urdu';
-    
-    // Force light theme styles in preview for a clean, paper-like download
-    const wrapperClasses = isPreview 
-      ? `bg-white rounded-xl shadow-lg p-6 mb-6 break-inside-avoid ${isUrduFontNeeded ? 'font-urdu' : ''}`
-      : `bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6 break-inside-avoid print:shadow-none print:border print:border-gray-300 ${isUrduFontNeeded ? 'font-urdu' : ''}`;
-    const titleClasses = isPreview
-      ? `text-2xl font-bold text-teal-600 mb-4 border-b-2 border-gray-200 pb-3`
-      : `text-2xl font-bold text-teal-600 dark:text-teal-400 mb-4 border-b-2 border-gray-200 dark:border-gray-700 pb-3 print:border-gray-600`;
-    const listClasses = isPreview
-      ? `list-disc space-y-2 text-gray-700 ${isRtl ? 'pr-5' : 'pl-5'}`
-      : `list-disc space-y-2 text-gray-700 dark:text-gray-300 ${isRtl ? 'pr-5' : 'pl-5'}`;
+interface SectionCardProps {
+  title: string;
+  language: string;
+  isPreview?: boolean;
+  list?: boolean; // Children are list items; false for other content such as tables
+  children: React.ReactNode;
+}
+
+const SectionCard: React.FC<SectionCardProps> = ({ title, language, isPreview, list = true, children }) => {
+  const isRtl = isRtlLanguage(language);
+  // The 'font-urdu' class is specifically for Noto Nastaliq Urdu. We should only apply it for Urdu.
+  const isUrduFontNeeded = language === 'Urdu';
 
-    return (
-      <div key={index} className={wrapperClasses} dir={isRtl ? 'rtl' : 'ltr'}>
-        <h2 className={titleClasses}>{title}</h2>
-        <div className="space-y-2">
-            <ul className={listClasses}>
-                {contentLines.map((line, i) => (
-                    <li key={i}>{line.replace(/[\*\-]\s*/, '')}</li>
+  // Force light theme styles in preview for a clean, paper-like download
+  const wrapperClasses = isPreview
+    ? `bg-white rounded-xl shadow-lg p-6 mb-6 break-inside-avoid ${isUrduFontNeeded ? 'font-urdu' : ''}`
+    : `bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6 break-inside-avoid print:shadow-none print:border print:border-gray-300 ${isUrduFontNeeded ? 'font-urdu' : ''}`;
+  const titleClasses = isPreview
+    ? `text-2xl font-bold text-teal-600 mb-4 border-b-2 border-gray-200 pb-3`
+    : `text-2xl font-bold text-teal-600 dark:text-teal-400 mb-4 border-b-2 border-gray-200 dark:border-gray-700 pb-3 print:border-gray-600`;
+  const listClasses = isPreview
+    ? `list-disc space-y-2 text-gray-700 ps-5`
+    : `list-disc space-y-2 text-gray-700 dark:text-gray-300 ps-5`;
+
+  return (
+    <div className={wrapperClasses} dir={isRtl ? 'rtl' : 'ltr'}>
+      <h2 className={titleClasses}>{title}</h2>
+      <div className="space-y-2">
+        {list ? <ul className={listClasses}>{children}</ul> : children}
+      </div>
+    </div>
+  );
+};
+
+const SEVERITY_CLASSES: Record<WarningSeverity, string> = {
+  major: 'bg-red-50 border-red-400 text-red-800 print:border-red-600',
+  moderate: 'bg-amber-50 border-amber-400 text-amber-800 print:border-amber-600',
+  minor: 'bg-sky-50 border-sky-300 text-sky-800 print:border-sky-500',
+};
+
+const URGENCY_CLASSES: Record<UrgencyLevel, string> = {
+  emergency: 'bg-red-100 text-red-800 border-red-400',
+  urgent: 'bg-amber-100 text-amber-800 border-amber-400',
+  routine: 'bg-green-100 text-green-800 border-green-400',
+};
+
+const UrgencyBadge: React.FC<{ triage: TriageResult; language: string }> = ({ triage, language }) => {
+  const t = createTranslator(language);
+  return (
+    <div className={`inline-block mt-2 px-2 py-1 text-xs border rounded text-start ${URGENCY_CLASSES[triage.urgency]}`}>
+      <strong>{t('print.triage')}: {t(`urgency.${triage.urgency}` as MessageKey)}</strong> — {t(`urgencyNote.${triage.urgency}` as MessageKey)}
+      {triage.overriddenAt && <span className="block">{t('print.overridden', { date: new Date(triage.overriddenAt).toLocaleString(getLocale(language)) })}</span>}
+    </div>
+  );
+};
+
+// Safety warnings are always in English; keep them left-to-right inside RTL sections
+const WarningNote: React.FC<{ warning: SafetyWarning; language: string }> = ({ warning, language }) => (
+  <span dir="ltr" className={`flex items-start gap-2 mt-1 px-2 py-1 text-xs font-sans border-l-4 rounded ${SEVERITY_CLASSES[warning.severity]}`}>
+    <WarningIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+    <span>
+      <strong>{createTranslator(language)(`severity.${warning.severity}` as MessageKey)} · {warning.title}:</strong> {warning.message}
+    </span>
+  </span>
+);
+
+// Struck medicines stay visible on screen for the reviewer but are left out of printed copies
+const MedicationLine: React.FC<{ item: MedicationItem; warnings: SafetyWarning[]; language: string; isPreview?: boolean }> = ({ item, warnings, language, isPreview }) => {
+  const { t } = useI18n();
+  const schedule = [item.dosage, item.duration, item.route].filter(Boolean).join(', ');
+  if (item.struck && isPreview) return null;
+  return (
+    <li className={item.struck ? 'line-through opacity-60 print:hidden' : ''}>
+      <span className={`font-semibold ${isPreview ? 'text-gray-900' : 'text-gray-900 dark:text-white'}`}>
+        {[item.name, item.strength].filter(Boolean).join(' ')}
+      </span>
+      {schedule && <span> — {schedule}</span>}
+      {item.addedByReviewer && !isPreview && <span dir="ltr" className="ml-2 px-1.5 py-0.5 text-xs font-sans rounded bg-teal-100 text-teal-800 no-print">{t('review.addedByReviewer')}</span>}
+      {item.notes && <span className={`block text-sm ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-400'}`}>{item.notes}</span>}
+      {item.reviewNote && <span className="block text-sm font-sans italic text-teal-700">{createTranslator(language)('print.practitionerNote')}: {item.reviewNote}</span>}
+      {!item.struck && warnings.map(warning => <WarningNote key={warning.id} warning={warning} language={language} />)}
+    </li>
+  );
+};
+
+// Each plan in its own column, with the summary rows lined up so the options can be weighed at a glance
+const ComparisonView: React.FC<{ treatments: TreatmentSection[]; warningsFor: (section: number, item: number) => SafetyWarning[]; language: string; isPreview?: boolean }> = ({ treatments, warningsFor, language, isPreview }) => {
+  const t = createTranslator(language);
+  const rows = buildComparisonRows(treatments, t);
+  const rowClasses = `border-t align-top ${isPreview ? 'border-gray-200' : 'border-gray-200 dark:border-gray-700 print:border-gray-400'}`;
+  const labelClasses = `p-2 w-36 text-start font-semibold ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`;
+  const cellClasses = `p-2 ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`;
+  return (
+    <SectionCard title={t('compare.title')} language={language} isPreview={isPreview} list={false}>
+      <div className="overflow-x-auto print:overflow-visible">
+        <table className="w-full min-w-[36rem] print:min-w-0 table-fixed border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="w-36"></th>
+              {treatments.map((section, index) => (
+                <th key={`${section.treatment}-${index}`} scope="col" className={`p-2 text-start align-bottom text-base font-bold ${isPreview ? 'text-teal-700' : 'text-teal-700 dark:text-teal-400'}`}>{section.heading}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.label} className={rowClasses}>
+                <th scope="row" className={labelClasses}>{row.label}</th>
+                {row.cells.map((lines, i) => (
+                  <td key={i} className={cellClasses}>
+                    {lines.length > 1
+                      ? <ul className="list-disc ps-4 space-y-1">{lines.map((line, j) => <li key={j}>{line}</li>)}</ul>
+                      : lines[0]}
+                  </td>
                 ))}
-            </ul>
-        </div>
+              </tr>
+            ))}
+            <tr className={rowClasses}>
+              <th scope="row" className={labelClasses}>{t('compare.plan')}</th>
+              {treatments.map((section, index) => (
+                <td key={`${section.treatment}-${index}`} className={cellClasses}>
+                  <ul className="list-disc ps-4 space-y-2">
+                    {section.medications.map((item, i) => <MedicationLine key={`med-${i}`} item={item} warnings={warningsFor(index, i)} language={language} isPreview={isPreview} />)}
+                    {section.instructions.map((line, i) => <li key={`ins-${i}`}>{line}</li>)}
+                  </ul>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
       </div>
-    );
-  });
+    </SectionCard>
+  );
+};
+
+interface SectionEditing {
+  updateMedication: (section: number, item: number, changes: Partial<MedicationItem>) => void;
+  removeMedication: (section: number, item: number) => void;
+  addMedication: (section: number) => void;
+  allowsMedications: (treatment: string) => boolean; // False for guidance-only modalities
+  updateInstruction: (section: number, line: number, value: string) => void;
+  updateAdvice: (line: number, value: string) => void;
+}
+
+const lineInputClasses = "w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700";
+
+// Editing controls are only on screen, so they follow the interface language rather than the patient's
+const LineInput: React.FC<{ label: MessageKey; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => {
+  const { t } = useI18n();
+  return <input type="text" aria-label={t(label)} value={value} onChange={(e) => onChange(e.target.value)} className={lineInputClasses} />;
 };
 
-const Disclaimer = ({ isPreview }: { isPreview?: boolean }) => (
+const AddMedicineButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const { t } = useI18n();
+  return (
+    <button type="button" onClick={onClick} className="text-sm font-semibold font-sans text-teal-600 dark:text-teal-400 hover:underline">
+      {t('review.addMedicine')}
+    </button>
+  );
+};
+
+const renderSections = (prescription: PrescriptionData, warnings: SafetyWarning[], language: string, isPreview?: boolean, editing?: SectionEditing, compare?: boolean) => {
+  const { reportAnalysis, treatments, diagnosticTests, advice } = prescription;
+  const warningsFor = (section: number, item: number) =>
+    warnings.filter(warning => warning.items.some(ref => ref.section === section && ref.item === item));
+  const t = createTranslator(language);
+  return (
+    <>
+      {warnings.length > 0 && (
+        <div className="flex items-center gap-2 mb-6 p-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800 text-sm">
+          <WarningIcon className="w-5 h-5 flex-shrink-0" />
+          <span>
+            <strong>{t('print.safetyCheck')}:</strong> {t('print.safetyFlagged', { count: warnings.length })}
+          </span>
+        </div>
+      )}
+      {reportAnalysis && reportAnalysis.findings.length > 0 && (
+        <SectionCard title={reportAnalysis.heading} language={language} isPreview={isPreview}>
+          {reportAnalysis.findings.map((finding, i) => (
+            <li key={i}>
+              <span className="font-semibold">{finding.test}:</span> {finding.result}
+              {finding.interpretation && <span> — {finding.interpretation}</span>}
+            </li>
+          ))}
+        </SectionCard>
+      )}
+      {compare && <ComparisonView treatments={treatments} warningsFor={warningsFor} language={language} isPreview={isPreview} />}
+      {!compare && treatments.map((section, index) => (
+        <SectionCard key={`${section.treatment}-${index}`} title={section.heading} language={language} isPreview={isPreview}>
+          {section.medications.map((item, i) => editing ? (
+            <MedicationEditor
+              key={`med-${i}`}
+              item={item}
+              onChange={(changes) => editing.updateMedication(index, i, changes)}
+              onRemove={() => editing.removeMedication(index, i)}
+            />
+          ) : (
+            <MedicationLine key={`med-${i}`} item={item} warnings={warningsFor(index, i)} language={language} isPreview={isPreview} />
+          ))}
+          {editing && editing.allowsMedications(section.treatment) && (
+            <li className="list-none">
+              <AddMedicineButton onClick={() => editing.addMedication(index)} />
+            </li>
+          )}
+          {section.instructions.map((line, i) => (
+            <li key={`ins-${i}`}>
+              {editing
+                ? <LineInput label="review.instruction" value={line} onChange={(value) => editing.updateInstruction(index, i, value)} />
+                : line}
+            </li>
+          ))}
+        </SectionCard>
+      ))}
+      {diagnosticTests && diagnosticTests.tests.length > 0 && (
+        <SectionCard title={diagnosticTests.heading} language={language} isPreview={isPreview}>
+          {diagnosticTests.tests.map((test, i) => (
+            <li key={i}>
+              <span className="font-semibold">{test.name}</span>
+              {test.reason && <span> — {test.reason}</span>}
+            </li>
+          ))}
+        </SectionCard>
+      )}
+      {advice.items.length > 0 && (
+        <SectionCard title={advice.heading} language={language} isPreview={isPreview}>
+          {advice.items.map((line, i) => (
+            <li key={i}>
+              {editing
+                ? <LineInput label="review.advice" value={line} onChange={(value) => editing.updateAdvice(i, value)} />
+                : line}
+            </li>
+          ))}
+        </SectionCard>
+      )}
+    </>
+  );
+};
+
+const Disclaimer = ({ text, language, isPreview }: { text: string; language: string; isPreview?: boolean }) => (
     <div className={`mt-8 pt-4 border-t-2 ${isPreview ? 'border-gray-300' : 'border-gray-300 dark:border-gray-600'} text-center`}>
-        <p className={`text-xs ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-400'} italic`}>
-            <strong>Disclaimer:</strong> This prescription is generated by an AI model. It is intended for informational purposes only and should not be considered a substitute for professional medical advice, diagnosis, or treatment. Always consult with a qualified healthcare provider before making any health decisions or starting any new treatment.
+        <p dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`text-xs ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-400'} italic ${language === 'Urdu' ? 'font-urdu not-italic leading-loose' : ''}`}>
+            {text}
         </p>
     </div>
 );
 
-const PrescriptionBody = React.forwardRef<HTMLDivElement, { content: string; advice: string; patientInfo: PatientInfo; illnessTitle: string; isPreview?: boolean }>(({ content, advice, patientInfo, illnessTitle, isPreview }, ref) => {
-    const { language } = patientInfo;
+// The date follows the patient's language and locale, since that is who the printout is for
+const Letterhead: React.FC<{ profile: ClinicProfile; language: string; isPreview?: boolean }> = ({ profile, language, isPreview }) => {
+    const t = createTranslator(language);
+    const contact = [profile.address, profile.phone && `${t('print.tel')}: ${profile.phone}`, profile.registrationNumber && `${t('print.regNo')}: ${profile.registrationNumber}`].filter(Boolean);
     return (
-        <div ref={ref} className={`print-area p-4 sm:p-6 ${isPreview ? 'bg-white text-gray-800' : 'bg-transparent text-black'}`}>
-            <div className="hidden print:block mb-8">
-                <div className={`flex items-center justify-between border-b-2 pb-4 ${isPreview ? 'border-gray-800' : 'border-gray-800 dark:border-gray-600'}`}>
-                    <div className="flex items-center space-x-3">
-                        <AIDoctorLogoIcon className="h-12 w-12 text-teal-600" />
-                        <div>
-                            <h1 className={`text-3xl font-bold ${isPreview ? 'text-gray-800' : 'text-gray-800 dark:text-white'}`}>AI Doctor</h1>
-                            <p className={isPreview ? 'text-gray-600' : 'text-gray-600 dark:text-gray-400'}>Your Personal Health Advisor</p>
-                        </div>
+        <div className={`${isPreview ? 'block' : 'hidden print:block'} mb-8`}>
+            <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`flex items-center justify-between border-b-2 pb-4 ${isPreview ? 'border-gray-800' : 'border-gray-800 dark:border-gray-600'}`}>
+                <div className="flex items-center space-x-3 rtl:space-x-reverse">
+                    {profile.logo
+                        ? <img src={profile.logo} alt="" className="h-12 w-auto max-w-[8rem] object-contain" />
+                        : <AIDoctorLogoIcon className="h-12 w-12 text-teal-600" />}
+                    <div>
+                        <h1 className={`text-3xl font-bold ${isPreview ? 'text-gray-800' : 'text-gray-800 dark:text-white'}`}>{profile.clinicName}</h1>
+                        {profile.tagline && <p className={isPreview ? 'text-gray-600' : 'text-gray-600 dark:text-gray-400'}>{profile.tagline}</p>}
+                        {contact.length > 0 && <p className={`text-xs ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-400'}`}>{contact.join(' | ')}</p>}
                     </div>
-                    <p className={`text-sm ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-300'}`}>Date: {new Date().toLocaleDateString()}</p>
                 </div>
+                <p className={`text-sm ${isPreview ? 'text-gray-500' : 'text-gray-500 dark:text-gray-300'}`}>{t('print.date')}: {formatDate(new Date(), language)}</p>
             </div>
-            
+        </div>
+    );
+};
+
+const ReviewStamp: React.FC<{ review: PrescriptionReview; language: string }> = ({ review, language }) => {
+    const t = createTranslator(language);
+    return review.status === 'approved' ? (
+        <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className="mb-6 px-3 py-2 rounded border border-green-400 bg-green-50 text-green-800 text-sm font-semibold break-inside-avoid">
+            {t('print.approvedStamp', { name: review.reviewerName ?? '', date: new Date(review.approvedAt!).toLocaleString(getLocale(language)) })}
+        </div>
+    ) : (
+        <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className="mb-6 px-3 py-2 rounded border-2 border-dashed border-amber-400 bg-amber-50 text-amber-800 text-sm font-semibold break-inside-avoid">
+            {t('print.draftStamp')}
+        </div>
+    );
+};
+
+const ChatTranscript: React.FC<{ messages: ChatMessage[]; language: string; isPreview?: boolean }> = ({ messages, language, isPreview }) => {
+    const t = createTranslator(language);
+    return (
+        <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`mb-6 p-4 rounded-lg border break-inside-avoid ${isPreview ? 'border-gray-200' : 'border-gray-200 dark:border-gray-700'}`}>
+            <h3 className={`text-sm font-bold mb-2 ${isPreview ? 'text-teal-700' : 'text-teal-700 dark:text-teal-400'}`}>{t('print.followUp')}</h3>
+            <dl className={`space-y-2 text-sm ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'} ${language === 'Urdu' ? 'font-urdu leading-loose' : ''}`}>
+                {messages.map((message, i) => message.role === 'patient'
+                    ? <dt key={i} className="font-semibold">{t('print.question')}: {message.text}</dt>
+                    : <dd key={i} className="whitespace-pre-line">{t('print.answer')}: {message.text}</dd>)}
+            </dl>
+        </div>
+    );
+};
+
+// Only approved prescriptions carry the practitioner's name and signature
+const Signature: React.FC<{ profile: ClinicProfile; review: PrescriptionReview; language: string; isPreview?: boolean }> = ({ profile, review, language, isPreview }) => {
+    if (review.status !== 'approved') return null;
+    const t = createTranslator(language);
+    return (
+        <div className="mt-8 flex justify-end break-inside-avoid">
+            <div className="text-center min-w-[12rem]">
+                {profile.signature && <img src={profile.signature} alt={t('print.signature')} className="h-14 mx-auto object-contain" />}
+                <div className={`border-t pt-1 text-sm ${isPreview ? 'border-gray-400 text-gray-700' : 'border-gray-400 text-gray-700 dark:text-gray-300'}`}>
+                    <p className="font-semibold">{review.reviewerName}</p>
+                    <p className="text-xs text-gray-500">{t('print.reviewingPractitioner')}</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Printed once a share link exists, so the patient can reopen the plan on their phone
+const ShareQrCode: React.FC<{ src: string; language: string; isPreview?: boolean }> = ({ src, language, isPreview }) => (
+    <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className="mt-6 flex items-center gap-3 break-inside-avoid">
+        <img src={src} alt="" className="h-28 w-28 flex-shrink-0" />
+        <p className={`text-sm ${isPreview ? 'text-gray-600' : 'text-gray-600 dark:text-gray-400'} ${language === 'Urdu' ? 'font-urdu leading-loose' : ''}`}>{createTranslator(language)('share.scan')}</p>
+    </div>
+);
+
+interface PrescriptionBodyProps {
+    prescription: PrescriptionData;
+    warnings: SafetyWarning[];
+    triage?: TriageResult | null;
+    symptomSummary?: SymptomSummary;
+    patientInfo: PatientInfo;
+    clinicProfile: ClinicProfile;
+    disclaimer: string;
+    review: PrescriptionReview;
+    chat?: ChatMessage[]; // Follow-up transcript to include, if any
+    layout: PrescriptionLayout;
+    shareQr?: string | null; // Data URL of the share link's QR code
+    editing?: SectionEditing;
+    isPreview?: boolean;
+}
+
+// Also used on its own for the read-only copy opened from a share link
+export const PrescriptionBody = React.forwardRef<HTMLDivElement, PrescriptionBodyProps>(({ prescription, warnings, triage, symptomSummary, patientInfo, clinicProfile, disclaimer, review, chat, layout, shareQr, editing, isPreview }, ref) => {
+    const { language } = patientInfo;
+    // The model only saw placeholders for the patient's identifiers; they are filled in here, on this device
+    const shown = useMemo(() => reidentifyPrescription(prescription, patientInfo), [prescription, patientInfo]);
+    const shownChat = useMemo(() => chat && reidentifyChat(chat, patientInfo), [chat, patientInfo]);
+    // Plans are edited one card at a time, so editing always shows them stacked
+    const compare = layout === 'compare' && !editing && canCompare(shown);
+    // Printed labels are in the patient's language, whatever language the interface is in
+    const t = createTranslator(language);
+    const bmi = calculateBmi(patientInfo);
+    const vitals = [
+        patientInfo.sex && `${t('print.sex')}: ${t(`sex.${patientInfo.sex}` as MessageKey)}`,
+        patientInfo.weightKg && `${t('print.weight')}: ${patientInfo.weightKg} kg`,
+        patientInfo.heightCm && `${t('print.height')}: ${patientInfo.heightCm} cm`,
+        bmi !== null && `${t('print.bmi')}: ${bmi}`,
+    ].filter(Boolean).join(' | ');
+    const clinicalNotes = ([
+        ['allergies', t('print.allergies'), patientInfo.allergies],
+        ['currentMedications', t('print.currentMedications'), patientInfo.currentMedications],
+        ['chronicConditions', t('print.chronicConditions'), patientInfo.chronicConditions],
+        ['pregnancy', t('print.pregnancy'), patientInfo.pregnancyStatus ? t(`pregnancy.${patientInfo.pregnancyStatus}` as MessageKey) : ''],
+    ] as const).filter(([, , value]) => value?.trim());
+    return (
+        <div ref={ref} className={`print-area p-4 sm:p-6 ${isPreview ? 'bg-white text-gray-800' : 'bg-transparent text-black'}`}>
+            <Letterhead profile={clinicProfile} language={language} isPreview={isPreview} />
+
             {/* Patient Info Header */}
-            <div className={`mb-8 p-4 rounded-lg ${isPreview ? 'bg-gray-50' : 'bg-gray-50 dark:bg-gray-900/50'} border ${isPreview ? 'border-gray-200' : 'border-gray-200 dark:border-gray-700'}`}>
+            <div dir={isRtlLanguage(language) ? 'rtl' : 'ltr'} className={`mb-8 p-4 rounded-lg ${isPreview ? 'bg-gray-50' : 'bg-gray-50 dark:bg-gray-900/50'} border ${isPreview ? 'border-gray-200' : 'border-gray-200 dark:border-gray-700'}`}>
                 <div className="flex justify-between items-start">
                     <div>
                         <h2 className={`text-2xl font-bold ${isPreview ? 'text-gray-900' : 'text-gray-900 dark:text-white'} whitespace-nowrap`}>{patientInfo.name}</h2>
                         <p className={`text-sm ${isPreview ? 'text-gray-600' : 'text-gray-600 dark:text-gray-400'} mt-1`}>
-                            Age: {patientInfo.age} | District: {patientInfo.district} {patientInfo.cell && `| Cell: ${patientInfo.cell}`}
+                            {t('print.age')}: {patientInfo.age} | {t('print.district')}: {patientInfo.district} {patientInfo.cell && `| ${t('print.cell')}: ${patientInfo.cell}`}
                         </p>
+                        {vitals && <p className={`text-sm ${isPreview ? 'text-gray-600' : 'text-gray-600 dark:text-gray-400'}`}>{vitals}</p>}
+                        {clinicalNotes.length > 0 && (
+                            <dl className={`mt-2 text-sm grid grid-cols-[auto_1fr] gap-x-2 ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`}>
+                                {clinicalNotes.map(([key, label, value]) => (
+                                    <React.Fragment key={key}>
+                                        <dt className="font-semibold">{label}:</dt>
+                                        <dd className={key === 'allergies' ? 'text-red-700 font-semibold' : ''}>{value}</dd>
+                                    </React.Fragment>
+                                ))}
+                            </dl>
+                        )}
                     </div>
-                    <div className="text-right flex-shrink-0 ml-4">
-                         <p className={`text-sm font-semibold ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`}>Condition</p>
-                         <p className={`text-md font-medium ${isPreview ? 'text-teal-600' : 'text-teal-600 dark:text-teal-400'}`}>{illnessTitle}</p>
+                    <div className="text-end flex-shrink-0 ms-4">
+                         <p className={`text-sm font-semibold ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`}>{t('print.condition')}</p>
+                         <p className={`text-md font-medium ${isPreview ? 'text-teal-600' : 'text-teal-600 dark:text-teal-400'}`}>{shown.illnessTitle}</p>
+                         {triage && <UrgencyBadge triage={triage} language={language} />}
                     </div>
                 </div>
             </div>
             
-            {parseContent(content, language, isPreview)}
-            {advice && parseContent(advice, language, isPreview)}
-            <Disclaimer isPreview={isPreview} />
+            <ReviewStamp review={review} language={language} />
+            {symptomSummary && (
+                <SectionCard title={t('guided.summaryTitle')} language={language} isPreview={isPreview}>
+                    {describeSymptomSummary(symptomSummary, t).map((line, i) => <li key={i}>{line}</li>)}
+                </SectionCard>
+            )}
+            {renderSections(shown, warnings, language, isPreview, editing, compare)}
+            {review.notes.trim() && (
+                <div className="mb-6 p-4 rounded-lg border border-teal-200 bg-teal-50/50 break-inside-avoid" dir={isRtlLanguage(language) ? 'rtl' : 'ltr'}>
+                    <h3 className="text-sm font-bold text-teal-700 mb-1">{t('print.practitionerNotes')}</h3>
+                    <p dir="auto" className={`text-sm whitespace-pre-line ${isPreview ? 'text-gray-700' : 'text-gray-700 dark:text-gray-300'}`}>{review.notes}</p>
+                </div>
+            )}
+            {shownChat && shownChat.length > 0 && <ChatTranscript messages={shownChat} language={language} isPreview={isPreview} />}
+            <Signature profile={clinicProfile} review={review} language={language} isPreview={isPreview} />
+            {shareQr && <ShareQrCode src={shareQr} language={language} isPreview={isPreview} />}
+            <Disclaimer text={disclaimer} language={disclaimer === clinicProfile.disclaimer ? 'English' : language} isPreview={isPreview} />
         </div>
     );
 });
 
 
-export const Prescription: React.FC<PrescriptionProps> = ({ content, advice, patientInfo, illnessTitle, onReset, onEdit }) => {
+export const Prescription: React.FC<PrescriptionProps> = ({ prescription, triage, symptomSummary, patientInfo, clinicProfile, original, review, onChange, chat, printChat, onAsk, onPrintChatChange, layout, onLayoutChange, isStreaming, notice, onCancel, onReset, onEdit }) => {
   const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const previewRef = useRef<HTMLDivElement>(null);
+  const modalities = useMemo(loadModalities, []);
+  const warnings = useMemo(() => checkPrescriptionSafety(prescription, patientInfo, modalities), [prescription, patientInfo, modalities]);
+  const drugCheckBlind = useMemo(() => isDrugCheckBlind(prescription, modalities), [prescription, modalities]);
+  const { language } = patientInfo;
+  const { t } = useI18n();
+  const [disclaimer, setDisclaimer] = useState(() => getDisclaimer(clinicProfile, language) ?? clinicProfile.disclaimer);
+
+  // Translate the clinic's disclaimer once per language and keep it with the profile
+  useEffect(() => {
+    const cached = getDisclaimer(loadClinicProfile(), language);
+    if (cached !== null) {
+      setDisclaimer(cached);
+      return;
+    }
+    setDisclaimer(clinicProfile.disclaimer);
+    let cancelled = false;
+    translateTexts([clinicProfile.disclaimer], language)
+      .then(([translated]) => {
+        const latest = loadClinicProfile();
+        if (latest.disclaimer === clinicProfile.disclaimer) {
+          saveClinicProfile({ ...latest, disclaimerTranslations: { ...latest.disclaimerTranslations, [language]: translated } });
+        }
+        if (!cancelled) setDisclaimer(translated);
+      })
+      .catch(error => console.error("Error translating disclaimer:", error));
+    return () => { cancelled = true; };
+  }, [clinicProfile, language]);
+
+  const printedChat = printChat ? chat : undefined;
+  // What the patient hears and takes home has the identifiers filled back in, like PrescriptionBody
+  const shownPrescription = useMemo(() => reidentifyPrescription(prescription, patientInfo), [prescription, patientInfo]);
+  const shownChat = useMemo(() => reidentifyChat(chat, patientInfo), [chat, patientInfo]);
+  const [isSharing, setIsSharing] = useState(false);
+  const [share, setShare] = useState<ShareLink | null>(null);
+
+  // A link only ever carries the plan as it was when it was made; any change needs a new one
+  useEffect(() => setShare(null), [prescription, review]);
+  const hasEdits = useMemo(() => JSON.stringify(prescription) !== JSON.stringify(original), [prescription, original]);
+
+  const updateTreatments = (update: (treatments: PrescriptionData['treatments']) => PrescriptionData['treatments']) =>
+    onChange({ ...prescription, treatments: update(prescription.treatments) }, review);
+
+  const editing: SectionEditing = {
+    allowsMedications: (treatment) => findModality(modalities, treatment)?.outputFormat !== 'instructions',
+    updateMedication: (section, item, changes) => updateTreatments(treatments => treatments.map((entry, i) => i !== section ? entry : {
+      ...entry,
+      medications: entry.medications.map((medication, j) => (j === item ? { ...medication, ...changes } : medication)),
+    })),
+    removeMedication: (section, item) => updateTreatments(treatments => treatments.map((entry, i) => i !== section ? entry : {
+      ...entry,
+      medications: entry.medications.filter((_, j) => j !== item),
+    })),
+    addMedication: (section) => updateTreatments(treatments => treatments.map((entry, i) => i !== section ? entry : {
+      ...entry,
+      medications: [...entry.medications, { name: '', strength: '', dosage: '', duration: '', route: '', notes: '', addedByReviewer: true }],
+    })),
+    updateInstruction: (section, line, value) => updateTreatments(treatments => treatments.map((entry, i) => i !== section ? entry : {
+      ...entry,
+      instructions: entry.instructions.map((text, j) => (j === line ? value : text)),
+    })),
+    updateAdvice: (line, value) => onChange({
+      ...prescription,
+      advice: { ...prescription.advice, items: prescription.advice.items.map((text, j) => (j === line ? value : text)) },
+    }, review),
+  };
+
+  const handleReviewChange = (next: PrescriptionReview) => {
+    if (next.status === 'approved') {
+      setIsEditing(false);
+      // Empty rows left over from editing are not part of the approved plan
+      onChange({
+        ...prescription,
+        treatments: prescription.treatments.map(entry => ({ ...entry, medications: entry.medications.filter(item => item.name.trim()) })),
+      }, next);
+      return;
+    }
+    onChange(prescription, next);
+  };
+
+  const [exporting, setExporting] = useState<'pdf' | 'png' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
-  const handleDownload = async () => {
+  const saveFile = (href: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = href;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleDownloadPdf = async () => {
+    setExporting('pdf');
+    setExportError(null);
+    try {
+        const blob = await exportPrescriptionPdf({
+          prescription: shownPrescription,
+          patientInfo,
+          warnings,
+          triage,
+          clinicProfile,
+          disclaimer,
+          review,
+          chat: printChat ? shownChat : undefined,
+          symptomSummary,
+          layout,
+          shareQr: share?.qr,
+        });
+        const url = URL.createObjectURL(blob);
+        saveFile(url, prescriptionFileName(patientInfo, 'pdf'));
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+        console.error("Error generating prescription PDF:", error);
+        setExportError(t('prescription.pdfError'));
+    } finally {
+        setExporting(null);
+    }
+  };
+
+  const handleDownloadImage = async () => {
     const element = previewRef.current;
-    if (!element || typeof html2canvas === 'undefined') {
-      console.error("Preview element not found or html2canvas library is not available.");
+    if (!element) {
+      console.error("Preview element not found.");
       return;
     }
 
+    setExporting('png');
+    setExportError(null);
     try {
+        const { default: html2canvas } = await import('html2canvas');
         const canvas = await html2canvas(element, {
             scale: 2, // Higher resolution for better quality
             useCORS: true,
             backgroundColor: '#ffffff', // Force a white background for the output image
         });
-        
-        const link = document.createElement('a');
-        link.href = canvas.toDataURL('image/png');
-        link.download = `prescription-${patientInfo.name.replace(/\s/g, '_')}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        saveFile(canvas.toDataURL('image/png'), prescriptionFileName(patientInfo, 'png'));
     } catch (error) {
         console.error("Error generating prescription image:", error);
+        setExportError(t('prescription.imageError'));
+    } finally {
+        setExporting(null);
     }
   };
 
@@ -136,19 +606,23 @@ export const Prescription: React.FC<PrescriptionProps> = ({ content, advice, pat
     return (
       <div className="fixed inset-0 bg-gray-200 dark:bg-gray-900 z-50 overflow-y-auto no-print">
         <header className="sticky top-0 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm z-10 p-4 shadow-md flex justify-between items-center">
-          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Prescription Preview</h2>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('prescription.previewTitle')}</h2>
           <div className="flex items-center gap-4">
-            <button onClick={handleDownload} className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-transform transform hover:scale-105">
-              <DownloadIcon className="w-5 h-5" /> Download
+            <button onClick={handleDownloadPdf} disabled={exporting !== null} className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-transform transform hover:scale-105 disabled:opacity-60 disabled:cursor-wait">
+              <DownloadIcon className="w-5 h-5" /> {exporting === 'pdf' ? t('prescription.creatingPdf') : t('prescription.downloadPdf')}
+            </button>
+            <button onClick={handleDownloadImage} disabled={exporting !== null} className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-60 disabled:cursor-wait">
+              <DownloadIcon className="w-5 h-5" /> {exporting === 'png' ? t('prescription.creatingImage') : t('prescription.downloadImage')}
             </button>
-            <button onClick={() => setIsPreviewing(false)} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
+            <button onClick={() => setIsPreviewing(false)} title={t('common.close')} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
                <CloseIcon className="w-6 h-6" />
             </button>
           </div>
         </header>
         <main className="p-4 sm:p-8">
+          {exportError && <div className="max-w-4xl mx-auto mb-4 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-200 p-4 rounded-md" role="alert"><p>{exportError}</p></div>}
           <div className="max-w-4xl mx-auto bg-white shadow-2xl">
-            <PrescriptionBody content={content} advice={advice} patientInfo={patientInfo} illnessTitle={illnessTitle} ref={previewRef} isPreview={true} />
+            <PrescriptionBody prescription={prescription} warnings={warnings} triage={triage} symptomSummary={symptomSummary} patientInfo={patientInfo} clinicProfile={clinicProfile} disclaimer={disclaimer} review={review} chat={printedChat} layout={layout} shareQr={share?.qr} ref={previewRef} isPreview={true} />
           </div>
         </main>
       </div>
@@ -157,31 +631,112 @@ export const Prescription: React.FC<PrescriptionProps> = ({ content, advice, pat
 
   return (
     <div id="printable-content-wrapper" className="w-full max-w-4xl mx-auto">
+      {isStreaming ? (
+        <div className="sticky top-2 z-10 mb-6 p-4 rounded-lg border border-teal-300 bg-teal-50/95 dark:bg-gray-800/95 dark:border-teal-700 flex items-center justify-between gap-3 shadow-md no-print" role="status">
+          <p className="flex items-center gap-3 text-sm text-teal-800 dark:text-teal-200">
+            <LoadingIcon className="w-6 h-6 text-teal-500 flex-shrink-0" />
+            {t('prescription.streaming')}
+          </p>
+          <button type="button" onClick={onCancel} className="flex-shrink-0 px-4 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">
+            {t('common.cancel')}
+          </button>
+        </div>
+      ) : (
+        <>
+          {notice && <div className="mb-6 bg-amber-100 dark:bg-amber-900/50 border-l-4 border-amber-500 text-amber-800 dark:text-amber-200 p-4 rounded-md no-print" role="alert"><p>{notice}</p></div>}
+          {drugCheckBlind && <div className="mb-6 bg-amber-100 dark:bg-amber-900/50 border-l-4 border-amber-500 text-amber-800 dark:text-amber-200 p-4 rounded-md no-print" role="alert"><p>{t('prescription.safetyUnchecked')}</p></div>}
+          <ReviewBar
+            review={review}
+            defaultReviewer={clinicProfile.practitionerName}
+            isEditing={isEditing}
+            hasEdits={hasEdits}
+            onToggleEditing={() => setIsEditing(prev => !prev)}
+            onChange={handleReviewChange}
+          />
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3 no-print">
+            {canCompare(prescription) ? (
+              <div role="group" aria-label={t('compare.layout')} className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden text-sm font-semibold">
+                {(['stacked', 'compare'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => onLayoutChange(option)}
+                    aria-pressed={layout === option}
+                    disabled={isEditing}
+                    className={`px-3 py-1.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${layout === option ? 'bg-teal-600 text-white' : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                  >
+                    {t(option === 'stacked' ? 'compare.stacked' : 'compare.sideBySide')}
+                  </button>
+                ))}
+              </div>
+            ) : <span />}
+            <ReadAloudButton prescription={shownPrescription} language={language} />
+          </div>
+        </>
+      )}
       <div id="printable-content" className="print-area print:text-black">
-        <PrescriptionBody content={content} advice={advice} patientInfo={patientInfo} illnessTitle={illnessTitle} />
+        <PrescriptionBody
+          prescription={prescription}
+          warnings={warnings}
+          triage={triage}
+          symptomSummary={symptomSummary}
+          patientInfo={patientInfo}
+          clinicProfile={clinicProfile}
+          disclaimer={disclaimer}
+          review={review}
+          chat={printedChat}
+          layout={layout}
+          shareQr={share?.qr}
+          editing={isEditing && review.status === 'draft' ? editing : undefined}
+        />
       </div>
-      <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 no-print">
+      {!isStreaming && <DoseChart prescription={prescription} patientInfo={patientInfo} />}
+      {!isStreaming && isSharing && (
+        <ShareLinkPanel
+          payload={{ patientInfo, prescription, review, clinic: clinicProfile, disclaimer, symptomSummary, layout }}
+          share={share}
+          onShareChange={setShare}
+          onClose={() => setIsSharing(false)}
+        />
+      )}
+      {!isStreaming && (
+        <FollowUpChat
+          messages={shownChat}
+          language={language}
+          includeInPrint={printChat}
+          onAsk={onAsk}
+          onIncludeInPrintChange={onPrintChatChange}
+        />
+      )}
+      {!isStreaming && <div className="mt-8 flex flex-col sm:flex-row items-center justify-center gap-4 no-print">
          <button
           onClick={onEdit}
           className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-gray-600 text-white font-semibold rounded-lg shadow-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-transform transform hover:scale-105"
         >
           <BackIcon className="w-5 h-5" />
-          Go Back & Edit
+          {t('prescription.edit')}
         </button>
         <button
           onClick={() => setIsPreviewing(true)}
           className="w-full sm:w-auto flex items-center justify-center gap-2 px-6 py-3 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 transition-transform transform hover:scale-105"
         >
           <EyeIcon className="w-5 h-5" />
-          Preview Prescription
+          {t('prescription.preview')}
+        </button>
+        <button
+          onClick={() => setIsSharing(prev => !prev)}
+          aria-expanded={isSharing}
+          className="w-full sm:w-auto px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-transform transform hover:scale-105"
+        >
+          {t('share.button')}
         </button>
         <button
           onClick={onReset}
           className="w-full sm:w-auto px-6 py-3 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-transform transform hover:scale-105"
         >
-          Start New
+          {t('prescription.startNew')}
         </button>
-      </div>
+      </div>}
     </div>
   );
 };
\ No newline at end of file
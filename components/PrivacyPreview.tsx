@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { FilePart } from '../types';
+import { JsonRequest, ProviderTask } from '../services/providers/types';
+import { MessageKey, useI18n } from '../services/i18n';
+import { CloseIcon, LoadingIcon } from './icons';
+
+interface PrivacyPreviewProps {
+  // Builds the requests exactly as the consultation would send them
+  load: () => Promise<JsonRequest[]>;
+  onClose: () => void;
+}
+
+const TASK_LABELS: Partial<Record<ProviderTask, MessageKey>> = {
+  triage: 'privacy.triage',
+  prescription: 'privacy.prescription',
+};
+
+const Attachment: React.FC<{ file: FilePart; index: number }> = ({ file, index }) => {
+  const { t } = useI18n();
+  const { mimeType, data } = file.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return <img src={`data:${mimeType};base64,${data}`} alt={`${index + 1}`} className="max-h-64 w-auto rounded border border-gray-300 dark:border-gray-600 bg-white" />;
+  }
+  const kilobytes = ((data.length * 3) / 4 / 1024).toFixed(1);
+  return <p className="text-sm text-gray-700 dark:text-gray-300">{index + 1}. {t('privacy.pdf', { size: kilobytes })}</p>;
+};
+
+// Shows the prompts and attachments before anything is sent, so staff can see what leaves the device
+export const PrivacyPreview: React.FC<PrivacyPreviewProps> = ({ load, onClose }) => {
+  const { t } = useI18n();
+  const [requests, setRequests] = useState<JsonRequest[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Built once when the preview opens
+  useEffect(() => {
+    let cancelled = false;
+    load()
+      .then(built => {
+        if (!cancelled) setRequests(built);
+      })
+      .catch(err => {
+        console.error("Error preparing privacy preview:", err);
+        if (!cancelled) setError(t('privacy.failed'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4 no-print">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('privacy.title')}</h2>
+          <button type="button" onClick={onClose} title={t('common.close')} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('privacy.intro')} {t('privacy.settingsHint')}</p>
+        {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        {!requests && !error && (
+          <p className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400" role="status">
+            <LoadingIcon className="w-4 h-4" /> {t('privacy.loading')}
+          </p>
+        )}
+        {requests?.map((request, index) => (
+          <section key={index} className="space-y-2">
+            <h3 className="text-lg font-semibold text-teal-600 dark:text-teal-400">
+              {index + 1}. {TASK_LABELS[request.task] ? t(TASK_LABELS[request.task]!) : request.task}
+            </h3>
+            {request.task === 'prescription' && requests.length > 1 && <p className="text-xs text-gray-500 dark:text-gray-400">{t('privacy.triageNote')}</p>}
+            {/* The prompt is sent in English whatever the interface language, so it is shown left to right */}
+            <pre dir="ltr" className="max-h-80 overflow-auto p-3 rounded-lg bg-gray-100 dark:bg-gray-900 text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{request.prompt.trim()}</pre>
+            {request.files.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('privacy.attachments', { count: request.files.length })}</h4>
+                <div className="flex flex-wrap gap-3">
+                  {request.files.map((file, fileIndex) => <Attachment key={fileIndex} file={file} index={fileIndex} />)}
+                </div>
+              </div>
+            )}
+          </section>
+        ))}
+        <div className="flex justify-end">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
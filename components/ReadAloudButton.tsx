@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { PrescriptionData } from '../types';
+import { getLocale, useI18n } from '../services/i18n';
+import { SpeakerIcon } from './icons';
+
+interface ReadAloudButtonProps {
+  prescription: PrescriptionData;
+  language: string; // Read in the patient's language, not the interface language
+}
+
+// One utterance per line: some browsers silently stop speaking long utterances part-way through
+const toSpokenLines = (prescription: PrescriptionData): string[] => {
+  const lines: string[] = [prescription.illnessTitle];
+  for (const section of prescription.treatments) {
+    lines.push(section.heading);
+    for (const item of section.medications) {
+      if (item.struck) continue;
+      lines.push([`${item.name} ${item.strength}`.trim(), item.dosage, item.duration, item.notes].filter(part => part && part.trim()).join('. '));
+    }
+    lines.push(...section.instructions);
+  }
+  if (prescription.diagnosticTests && prescription.diagnosticTests.tests.length > 0) {
+    lines.push(prescription.diagnosticTests.heading);
+    lines.push(...prescription.diagnosticTests.tests.map(test => `${test.name}. ${test.reason}`));
+  }
+  lines.push(prescription.advice.heading, ...prescription.advice.items);
+  return lines.map(line => line.trim()).filter(Boolean);
+};
+
+const findVoice = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | undefined => {
+  const normalized = voices.map(voice => ({ voice, lang: voice.lang.replace('_', '-').toLowerCase() }));
+  const exact = normalized.find(({ lang }) => lang === locale.toLowerCase());
+  const prefix = locale.split('-')[0].toLowerCase();
+  return (exact ?? normalized.find(({ lang }) => lang.split('-')[0] === prefix))?.voice;
+};
+
+export const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ prescription, language }) => {
+  const { t } = useI18n();
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const synth = typeof window !== 'undefined' ? window.speechSynthesis : undefined;
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!synth) return;
+    const update = () => setVoices(synth.getVoices());
+    update();
+    synth.addEventListener('voiceschanged', update);
+    return () => {
+      synth.removeEventListener('voiceschanged', update);
+      synth.cancel();
+    };
+  }, [synth]);
+
+  // Never keep reading an older plan or one in a different language
+  useEffect(() => {
+    synth?.cancel();
+    setIsSpeaking(false);
+  }, [synth, prescription, language]);
+
+  if (!synth) return null;
+
+  const locale = getLocale(language);
+  const voice = findVoice(voices, locale);
+
+  const handleClick = () => {
+    if (isSpeaking) {
+      synth.cancel();
+      setIsSpeaking(false);
+      return;
+    }
+    if (!voice) return;
+    synth.cancel();
+    const lines = toSpokenLines(prescription);
+    lines.forEach((line, i) => {
+      const utterance = new SpeechSynthesisUtterance(line);
+      utterance.lang = voice.lang;
+      utterance.voice = voice;
+      utterance.rate = 0.9;
+      if (i === lines.length - 1) utterance.onend = () => setIsSpeaking(false);
+      utterance.onerror = () => setIsSpeaking(false);
+      synth.speak(utterance);
+    });
+    setIsSpeaking(true);
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={!voice && !isSpeaking}
+        aria-pressed={isSpeaking}
+        className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <SpeakerIcon className="w-5 h-5" />
+        {isSpeaking ? t('speech.stop') : t('speech.readAloud')}
+      </button>
+      {!voice && voices.length > 0 && <p className="text-xs text-gray-500 dark:text-gray-400">{t('speech.noVoice', { language })}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PatientInfo, RedactionBox, UploadedReport } from '../types';
+import { reportImage } from '../services/reportUpload';
+import { suggestRedactions } from '../services/imageRedaction';
+import { useI18n } from '../services/i18n';
+import { CloseIcon, LoadingIcon } from './icons';
+
+interface RedactionEditorProps {
+  report: UploadedReport;
+  patientInfo: PatientInfo;
+  onSave: (boxes: RedactionBox[]) => void;
+  onClose: () => void;
+}
+
+// Boxes smaller than this (as a fraction of the photo) are taken to be a click, not a drag
+const MIN_BOX_SIZE = 0.01;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toBox = (start: { x: number; y: number }, end: { x: number; y: number }): RedactionBox => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
+const boxStyle = (box: RedactionBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+// Staff drag boxes over the identifying parts of a report photo, or let OCR suggest them. The
+// boxes are only burnt into the copy that is sent; the photo kept in the form is unchanged.
+export const RedactionEditor: React.FC<RedactionEditorProps> = ({ report, patientInfo, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState<string | null>(null);
+  const [boxes, setBoxes] = useState<RedactionBox[]>(report.redactions ?? []);
+  const [drawing, setDrawing] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(reportImage(report));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [report]);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget && !(e.target instanceof HTMLImageElement)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    setDrawing({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawing) setDrawing({ ...drawing, end: pointAt(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing) return;
+    const box = toBox(drawing.start, drawing.end);
+    if (box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE) setBoxes(prev => [...prev, box]);
+    setDrawing(null);
+  };
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    setNotice(null);
+    try {
+      const suggested = await suggestRedactions(reportImage(report), patientInfo);
+      setBoxes(prev => [...prev, ...suggested]);
+      setNotice(t('redact.suggested', { count: suggested.length }));
+    } catch (err) {
+      console.error("Error reading report photo:", err);
+      setNotice(t('redact.suggestFailed'));
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4 no-print">
+      <div className="w-full max-w-3xl max-h-full overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('redact.title')}</h2>
+          <button type="button" onClick={onClose} title={t('common.close')} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('redact.instructions')}</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <button type="button" onClick={handleSuggest} disabled={isSuggesting} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-60 disabled:cursor-wait">
+            {isSuggesting && <LoadingIcon className="w-4 h-4" />}
+            {isSuggesting ? t('redact.suggesting') : t('redact.suggest')}
+          </button>
+          <button type="button" onClick={() => setBoxes([])} disabled={boxes.length === 0} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline disabled:opacity-50 disabled:no-underline">
+            {t('redact.clear')}
+          </button>
+          {notice && <p className="text-sm text-gray-600 dark:text-gray-400" role="status">{notice}</p>}
+        </div>
+        <div
+          ref={areaRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="relative mx-auto w-fit select-none touch-none cursor-crosshair"
+        >
+          {url ? <img src={url} alt={report.name} draggable={false} className="block max-h-[60vh] w-auto bg-white" /> : <div className="h-64 w-64 bg-gray-200 dark:bg-gray-600" />}
+          {boxes.map((box, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => setBoxes(prev => prev.filter((_, i) => i !== index))}
+              title={t('redact.removeBox')}
+              aria-label={t('redact.removeBox')}
+              style={boxStyle(box)}
+              className="absolute bg-black hover:bg-black/70 hover:outline hover:outline-2 hover:outline-red-500 cursor-pointer"
+            />
+          ))}
+          {drawing && <div style={boxStyle(toBox(drawing.start, drawing.end))} className="absolute bg-black/60 outline outline-2 outline-teal-400 pointer-events-none" />}
+        </div>
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+            {t('common.cancel')}
+          </button>
+          <button type="button" onClick={() => onSave(boxes)} className="px-4 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2">
+            {t('redact.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { PatientInfo, UploadedReport } from '../types';
+import { isReportSent, reportImage, selectedPageCount } from '../services/reportUpload';
+import { useI18n } from '../services/i18n';
+import { DocumentIcon, LoadingIcon, TrashIcon } from './icons';
+import { RedactionEditor } from './RedactionEditor';
+
+interface ReportUploadListProps {
+  reports: UploadedReport[];
+  processing: string[]; // Names of files still being prepared
+  patientInfo: PatientInfo; // Used to suggest which parts of a photo to hide
+  onChange: (report: UploadedReport) => void;
+  onRemove: (id: string) => void;
+}
+
+// Object URLs are created per preview and released when the preview goes away
+const BlobPreview: React.FC<{ blob: Blob; alt: string }> = ({ blob, alt }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!url) return <div className="h-20 w-20 rounded bg-gray-200 dark:bg-gray-600" />;
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+      <img src={url} alt={alt} className="h-20 w-20 rounded object-cover border border-gray-300 dark:border-gray-600 bg-white" />
+    </a>
+  );
+};
+
+const ReportRow: React.FC<{ report: UploadedReport; patientInfo: PatientInfo; onChange: (report: UploadedReport) => void; onRemove: () => void }> = ({ report, patientInfo, onChange, onRemove }) => {
+  const { t } = useI18n();
+  const [isRedacting, setIsRedacting] = useState(false);
+  const { adjustments, pages } = report;
+  const hiddenCount = report.redactions?.length ?? 0;
+  const badges = adjustments && report.useEnhanced
+    ? [
+        adjustments.cropped && t('upload.cropped'),
+        adjustments.deskewDegrees !== 0 && t('upload.straightened', { degrees: Math.abs(adjustments.deskewDegrees) }),
+        adjustments.contrastBoosted && t('upload.contrast'),
+        adjustments.scale < 1 && t('upload.resized'),
+      ].filter((badge): badge is string => Boolean(badge))
+    : [];
+  const setAllPages = (selected: boolean) => pages && onChange({ ...report, pages: pages.map(page => ({ ...page, selected })) });
+  const togglePage = (index: number) => pages && onChange({ ...report, pages: pages.map((page, i) => (i === index ? { ...page, selected: !page.selected } : page)) });
+
+  return (
+    <div className="p-3 bg-gray-100 dark:bg-gray-700 rounded-md">
+      <div className="flex items-start gap-3">
+        {report.kind === 'image'
+          ? <BlobPreview blob={reportImage(report)} alt={report.name} />
+          : pages?.[0] ? <img src={pages[0].thumbnail} alt={report.name} className="h-20 w-16 flex-shrink-0 rounded object-cover border border-gray-300 dark:border-gray-600 bg-white" />
+          : <DocumentIcon className="h-10 w-10 flex-shrink-0 text-gray-500 dark:text-gray-400" />}
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{report.name}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">({(report.size / 1024).toFixed(1)} KB)</span>
+          </div>
+          {report.kind === 'image' && (report.enhanced ? (
+            <>
+              {/* The hidden areas are placed on one version of the photo and would not line up on the other */}
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300" title={hiddenCount > 0 ? t('redact.enhanceLocked') : undefined}>
+                <input type="checkbox" checked={report.useEnhanced} disabled={hiddenCount > 0} onChange={(e) => onChange({ ...report, useEnhanced: e.target.checked })} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500 disabled:opacity-50" />
+                {t('upload.enhance')}
+              </label>
+              {badges.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {badges.map(badge => <span key={badge} className="px-2 py-0.5 text-xs rounded-full bg-teal-100 text-teal-800 dark:bg-teal-900/50 dark:text-teal-200">{badge}</span>)}
+                </div>
+              )}
+            </>
+          ) : <p className="text-xs text-gray-500 dark:text-gray-400">{t('upload.notEnhanced')}</p>)}
+          {report.kind === 'image' && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <button type="button" onClick={() => setIsRedacting(true)} className="text-teal-600 dark:text-teal-400 hover:underline">{t('redact.open')}</button>
+              {hiddenCount > 0 && <span className="px-2 py-0.5 text-xs rounded-full bg-gray-800 text-white dark:bg-gray-900">{t('redact.count', { count: hiddenCount })}</span>}
+            </div>
+          )}
+          {report.kind === 'pdf' && (pages ? (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+              <span className={isReportSent(report) ? 'text-gray-700 dark:text-gray-300' : 'text-amber-700 dark:text-amber-300'}>
+                {isReportSent(report) ? t('upload.pagesSelected', { selected: selectedPageCount(report), total: pages.length }) : t('upload.noPagesSelected')}
+              </span>
+              {pages.length > 1 && (
+                <>
+                  <button type="button" onClick={() => setAllPages(true)} className="text-teal-600 dark:text-teal-400 hover:underline">{t('upload.allPages')}</button>
+                  <button type="button" onClick={() => setAllPages(false)} className="text-teal-600 dark:text-teal-400 hover:underline">{t('upload.noPages')}</button>
+                </>
+              )}
+            </div>
+          ) : <p className="text-xs text-gray-500 dark:text-gray-400">{t('upload.noPreview')}</p>)}
+        </div>
+        <button type="button" onClick={onRemove} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+          <TrashIcon className="h-5 w-5" />
+        </button>
+      </div>
+      {pages && pages.length > 1 && (
+        <div className="mt-3 grid grid-cols-4 sm:grid-cols-6 gap-2">
+          {pages.map((page, index) => (
+            <label key={index} className={`relative cursor-pointer rounded border-2 ${page.selected ? 'border-teal-500' : 'border-transparent opacity-50'}`}>
+              <img src={page.thumbnail} alt={t('upload.page', { number: index + 1 })} className="w-full bg-white rounded-sm" />
+              <span className="absolute top-1 start-1 flex items-center gap-1 px-1 rounded bg-white/90 dark:bg-gray-800/90 text-xs">
+                <input type="checkbox" checked={page.selected} onChange={() => togglePage(index)} className="h-3 w-3 text-teal-600 border-gray-300 rounded focus:ring-teal-500" />
+                {index + 1}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+      {isRedacting && (
+        <RedactionEditor
+          report={report}
+          patientInfo={patientInfo}
+          onSave={(redactions) => {
+            onChange({ ...report, redactions });
+            setIsRedacting(false);
+          }}
+          onClose={() => setIsRedacting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export const ReportUploadList: React.FC<ReportUploadListProps> = ({ reports, processing, patientInfo, onChange, onRemove }) => {
+  const { t } = useI18n();
+  if (reports.length === 0 && processing.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('form.uploadedFiles')}</h3>
+      {reports.map(report => <ReportRow key={report.id} report={report} patientInfo={patientInfo} onChange={onChange} onRemove={() => onRemove(report.id)} />)}
+      {processing.map((name, index) => (
+        <div key={`${name}-${index}`} className="flex items-center gap-3 p-3 bg-gray-100 dark:bg-gray-700 rounded-md text-sm text-gray-600 dark:text-gray-300" role="status">
+          <LoadingIcon className="h-5 w-5 text-teal-500" />
+          {t('upload.processing', { name })}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { PrescriptionReview } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface ReviewBarProps {
+  review: PrescriptionReview;
+  defaultReviewer: string;
+  isEditing: boolean;
+  hasEdits: boolean;
+  onToggleEditing: () => void;
+  onChange: (review: PrescriptionReview) => void;
+}
+
+const inputClasses = "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+
+export const ReviewBar: React.FC<ReviewBarProps> = ({ review, defaultReviewer, isEditing, hasEdits, onToggleEditing, onChange }) => {
+  const { t, locale } = useI18n();
+  const [reviewerName, setReviewerName] = useState(review.reviewerName || defaultReviewer);
+
+  const handleApprove = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ ...review, status: 'approved', reviewerName: reviewerName.trim(), approvedAt: new Date().toISOString() });
+  };
+
+  const handleRevoke = () => {
+    if (!window.confirm(t('review.revokeConfirm'))) return;
+    onChange({ status: 'draft', notes: review.notes });
+  };
+
+  if (review.status === 'approved') {
+    return (
+      <div className="mb-6 p-4 rounded-lg border border-green-300 bg-green-50 dark:bg-green-900/30 dark:border-green-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3 no-print">
+        <p className="text-sm text-green-800 dark:text-green-200">
+          <strong>{t('review.approvedBy', { name: review.reviewerName ?? '', date: new Date(review.approvedAt!).toLocaleString(locale) })}</strong>
+          {hasEdits && ` ${t('review.includesEdits')}`}
+        </p>
+        <button type="button" onClick={handleRevoke} className="px-3 py-1.5 text-sm font-semibold text-gray-700 dark:text-gray-200 border border-gray-400 rounded-lg hover:bg-white dark:hover:bg-gray-700">
+          {t('review.revoke')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApprove} className="mb-6 p-4 rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-900/30 dark:border-amber-700 space-y-3 no-print">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-amber-800 dark:text-amber-200">
+          <strong>{t('review.draft')}</strong> {t('review.draftHint')}
+        </p>
+        <button type="button" onClick={onToggleEditing} className="px-3 py-1.5 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg hover:bg-white dark:hover:bg-gray-700">
+          {isEditing ? t('review.doneEditing') : t('review.edit')}
+        </button>
+      </div>
+      <textarea
+        rows={2}
+        aria-label={t('review.notes')}
+        placeholder={t('review.notesPlaceholder')}
+        value={review.notes}
+        onChange={(e) => onChange({ ...review, notes: e.target.value })}
+        className={inputClasses}
+      ></textarea>
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          required
+          aria-label={t('review.reviewerName')}
+          placeholder={t('review.reviewerName')}
+          value={reviewerName}
+          onChange={(e) => setReviewerName(e.target.value)}
+          className={inputClasses}
+        />
+        <button type="submit" className="flex-shrink-0 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2">
+          {t('review.approve')}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { EmergencyContact, PrivacySettings, TreatmentModality } from '../types';
+import { AISettings, ProviderId } from '../services/providers/types';
+import { AUTO_LOCK_OPTIONS, DEFAULT_MODELS, loadAISettings, loadAutoLockMinutes, loadEmergencyContacts, loadModalities, loadPrivacySettings, saveAISettings, saveAutoLockMinutes, saveEmergencyContacts, saveModalities, savePrivacySettings } from '../services/settings';
+import { MIN_PIN_LENGTH, changePin } from '../services/vault';
+import { createModalityId } from '../services/modalities';
+import { MessageKey, useI18n } from '../services/i18n';
+import { ModalityEditor } from './ModalityEditor';
+import { CloseIcon, TrashIcon } from './icons';
+
+interface SettingsPanelProps {
+  onModalitiesChange: (modalities: TreatmentModality[]) => void;
+  onAutoLockChange: (minutes: number) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, MessageKey> = {
+  gemini: 'settings.providerGemini',
+  openai: 'settings.providerOpenai',
+  mock: 'settings.providerMock',
+};
+
+const PRIVACY_LABELS: Record<keyof PrivacySettings, MessageKey> = {
+  name: 'privacyField.name',
+  cell: 'privacyField.cell',
+  district: 'privacyField.district',
+  otherIdentifiers: 'privacyField.otherIdentifiers',
+};
+
+const PIN_ERROR_MESSAGES: Record<string, MessageKey> = {
+  WrongPin: 'lock.wrongPin',
+  WeakPin: 'lock.tooShort',
+};
+
+const inputClasses = "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 transition-colors";
+const labelClasses = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onModalitiesChange, onAutoLockChange, onClose }) => {
+  const { t } = useI18n();
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [emergencyContacts, setEmergencyContacts] = useState<EmergencyContact[]>(loadEmergencyContacts);
+  const [modalities, setModalities] = useState<TreatmentModality[]>(loadModalities);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(loadAutoLockMinutes);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(loadPrivacySettings);
+  const [pins, setPins] = useState({ current: '', next: '', confirm: '' });
+  const [pinMessage, setPinMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isChangingPin, setIsChangingPin] = useState(false);
+
+  const handleProviderChange = (provider: ProviderId) => {
+    setAISettings(prev => ({ ...prev, provider, model: DEFAULT_MODELS[provider] }));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setAISettings(prev => ({ ...prev, [name]: value }));
+  };
+
+  const updateContact = (index: number, field: keyof EmergencyContact, value: string) => {
+    setEmergencyContacts(prev => prev.map((contact, i) => (i === index ? { ...contact, [field]: value } : contact)));
+  };
+
+  // Takes effect straight away, separately from the rest of the settings
+  const handleChangePin = async () => {
+    setPinMessage(null);
+    if (pins.next !== pins.confirm) {
+      setPinMessage({ text: t('lock.mismatch'), isError: true });
+      return;
+    }
+    setIsChangingPin(true);
+    try {
+      await changePin(pins.current, pins.next);
+      setPins({ current: '', next: '', confirm: '' });
+      setPinMessage({ text: t('settings.pinChanged'), isError: false });
+    } catch (err) {
+      console.error("Error changing PIN:", err);
+      setPinMessage({ text: t(PIN_ERROR_MESSAGES[(err as Error).name] ?? 'settings.pinFailed'), isError: true });
+    } finally {
+      setIsChangingPin(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveAISettings(aiSettings);
+    saveAutoLockMinutes(autoLockMinutes);
+    onAutoLockChange(autoLockMinutes);
+    savePrivacySettings(privacy);
+    saveEmergencyContacts(emergencyContacts.filter(contact => contact.label.trim() && contact.number.trim()));
+    const named = modalities
+      .map(modality => ({ ...modality, name: modality.name.trim() }))
+      .filter(modality => modality.name);
+    const saved = named.reduce<TreatmentModality[]>((list, modality) =>
+      [...list, modality.id ? modality : { ...modality, id: createModalityId(modality.name, [...list, ...named]) }], []);
+    saveModalities(saved);
+    onModalitiesChange(saved);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4 no-print">
+      <form onSubmit={handleSave} className="w-full max-w-2xl max-h-full overflow-y-auto bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">{t('header.settings')}</h2>
+          <button type="button" onClick={onClose} title={t('common.close')} className="p-2 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500">
+            <CloseIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <fieldset className="space-y-4">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('settings.aiProvider')}</legend>
+          <div>
+            <label htmlFor="provider" className={labelClasses}>{t('settings.provider')}</label>
+            <select id="provider" value={aiSettings.provider} onChange={(e) => handleProviderChange(e.target.value as ProviderId)} className={inputClasses}>
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{t(PROVIDER_LABELS[id])}</option>
+              ))}
+            </select>
+          </div>
+          {aiSettings.provider !== 'mock' && (
+            <>
+              <div>
+                <label htmlFor="model" className={labelClasses}>{t('settings.model')}</label>
+                <input type="text" id="model" name="model" required value={aiSettings.model} onChange={handleChange} className={inputClasses}/>
+              </div>
+              {aiSettings.provider === 'openai' && (
+                <div>
+                  <label htmlFor="baseUrl" className={labelClasses}>{t('settings.serverUrl')}</label>
+                  <input type="url" id="baseUrl" name="baseUrl" required value={aiSettings.baseUrl} onChange={handleChange} placeholder="http://localhost:11434/v1" className={inputClasses}/>
+                </div>
+              )}
+              <div>
+                <label htmlFor="apiKey" className={labelClasses}>{t(aiSettings.provider === 'gemini' ? 'settings.apiKeyGemini' : 'settings.apiKeyOptional')}</label>
+                <input type="password" id="apiKey" name="apiKey" value={aiSettings.apiKey} onChange={handleChange} autoComplete="off" className={inputClasses}/>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t('settings.apiKeyHint')}</p>
+              </div>
+            </>
+          )}
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('settings.emergencyNumbers')}</legend>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.emergencyHint')}</p>
+          {emergencyContacts.map((contact, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <input type="text" aria-label={t('settings.district')} placeholder={t('settings.allDistricts')} value={contact.district} onChange={(e) => updateContact(index, 'district', e.target.value)} className={inputClasses}/>
+              <input type="text" aria-label={t('settings.service')} placeholder={t('settings.service')} value={contact.label} onChange={(e) => updateContact(index, 'label', e.target.value)} className={inputClasses}/>
+              <input type="tel" aria-label={t('settings.number')} placeholder={t('settings.number')} value={contact.number} onChange={(e) => updateContact(index, 'number', e.target.value)} className={inputClasses}/>
+              <button type="button" onClick={() => setEmergencyContacts(prev => prev.filter((_, i) => i !== index))} title={t('common.remove')} className="p-1 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 rounded-full hover:bg-red-100 dark:hover:bg-red-900/50">
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setEmergencyContacts(prev => [...prev, { district: '', label: '', number: '' }])} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline">
+            {t('settings.addNumber')}
+          </button>
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('settings.security')}</legend>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.securityHint')}</p>
+          <div>
+            <label htmlFor="autoLock" className={labelClasses}>{t('settings.autoLock')}</label>
+            <select id="autoLock" value={autoLockMinutes} onChange={(e) => setAutoLockMinutes(Number(e.target.value))} className={inputClasses}>
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 1 ? t('settings.oneMinute') : t('settings.minutes', { count: minutes })}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input type="password" aria-label={t('settings.currentPin')} placeholder={t('settings.currentPin')} autoComplete="current-password" value={pins.current} onChange={(e) => setPins(prev => ({ ...prev, current: e.target.value }))} className={inputClasses}/>
+            <input type="password" aria-label={t('settings.newPin')} placeholder={t('settings.newPinPlaceholder', { min: MIN_PIN_LENGTH })} autoComplete="new-password" value={pins.next} onChange={(e) => setPins(prev => ({ ...prev, next: e.target.value }))} className={inputClasses}/>
+            <input type="password" aria-label={t('settings.repeatPin')} placeholder={t('settings.repeatPin')} autoComplete="new-password" value={pins.confirm} onChange={(e) => setPins(prev => ({ ...prev, confirm: e.target.value }))} className={inputClasses}/>
+          </div>
+          <div className="flex items-center gap-3">
+            <button type="button" onClick={handleChangePin} disabled={isChangingPin || !pins.current || !pins.next} className="text-sm font-semibold text-teal-600 dark:text-teal-400 hover:underline disabled:opacity-50 disabled:no-underline">
+              {isChangingPin ? t('settings.changingPin') : t('settings.changePin')}
+            </button>
+            {pinMessage && <p className={`text-sm ${pinMessage.isError ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`} role="status">{pinMessage.text}</p>}
+          </div>
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('settings.privacy')}</legend>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.privacyHint')}</p>
+          {(Object.keys(PRIVACY_LABELS) as (keyof PrivacySettings)[]).map(field => (
+            <label key={field} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input type="checkbox" checked={privacy[field]} onChange={(e) => setPrivacy(prev => ({ ...prev, [field]: e.target.checked }))} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500"/>
+              {t(PRIVACY_LABELS[field])}
+            </label>
+          ))}
+        </fieldset>
+
+        <fieldset className="space-y-3">
+          <legend className="text-lg font-semibold text-teal-600 dark:text-teal-400 mb-2">{t('settings.modalities')}</legend>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('settings.modalitiesHint')}</p>
+          <ModalityEditor modalities={modalities} onChange={setModalities} />
+        </fieldset>
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600">
+            {t('common.cancel')}
+          </button>
+          <button type="submit" className="px-4 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2">
+            {t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { SharePayloadInput, buildShareUrl, createSharePayload, encodeShareLink, renderShareQr } from '../services/shareLink';
+import { useI18n } from '../services/i18n';
+import { CloseIcon } from './icons';
+
+export interface ShareLink {
+  url: string;
+  qr: string | null; // Null when the link is too long for a QR code
+}
+
+interface ShareLinkPanelProps {
+  payload: SharePayloadInput;
+  share: ShareLink | null;
+  onShareChange: (share: ShareLink | null) => void;
+  onClose: () => void;
+}
+
+export const ShareLinkPanel: React.FC<ShareLinkPanelProps> = ({ payload, share, onShareChange, onClose }) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const url = buildShareUrl(await encodeShareLink(createSharePayload(payload), passphrase.trim()));
+      onShareChange({ url, qr: await renderShareQr(url) });
+    } catch (err) {
+      console.error("Error creating share link:", err);
+      setError(t('share.error'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopied(true);
+    } catch (err) {
+      console.error("Error copying share link:", err);
+    }
+  };
+
+  const handleSend = () => {
+    if (!share) return;
+    navigator.share({ title: payload.prescription.illnessTitle, url: share.url })
+      .catch(err => { if (err?.name !== 'AbortError') console.error("Error sharing link:", err); });
+  };
+
+  const inputClasses = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700";
+
+  return (
+    <section className="mt-8 p-6 bg-white dark:bg-gray-800 rounded-xl shadow-lg no-print">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <h3 className="text-xl font-bold text-teal-600 dark:text-teal-400">{t('share.title')}</h3>
+        <button type="button" onClick={onClose} title={t('common.close')} className="p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('share.intro')}</p>
+
+      <form onSubmit={handleCreate} className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1">
+          <label htmlFor="sharePassphrase" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('share.passphrase')}</label>
+          <input id="sharePassphrase" type="text" autoComplete="off" spellCheck={false} value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClasses} />
+        </div>
+        <button type="submit" disabled={isCreating} className="px-5 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:opacity-60 disabled:cursor-wait">
+          {isCreating ? t('share.creating') : t('share.create')}
+        </button>
+      </form>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{t('share.passphraseHint')}</p>
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+
+      {share && (
+        <div className="mt-5 flex flex-col sm:flex-row gap-5">
+          {share.qr && <img src={share.qr} alt="" className="w-40 h-40 self-center sm:self-start border border-gray-200 rounded" />}
+          <div className="flex-1 space-y-3">
+            <input type="text" readOnly value={share.url} onFocus={(e) => e.target.select()} aria-label={t('share.title')} dir="ltr" className={`${inputClasses} text-xs font-mono`} />
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={handleCopy} className="px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                {copied ? t('share.copied') : t('share.copy')}
+              </button>
+              {'share' in navigator && (
+                <button type="button" onClick={handleSend} className="px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                  {t('share.send')}
+                </button>
+              )}
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{share.qr ? t('share.qrOnPrint') : t('share.tooLongForQr')}</p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SharedPrescription, decodeShareLink, isProtectedShareLink } from '../services/shareLink';
+import { checkPrescriptionSafety } from '../services/safetyCheck';
+import { DEFAULT_CLINIC_PROFILE } from '../services/settings';
+import { I18nContext, MessageKey, createI18n, formatDate, useI18n } from '../services/i18n';
+import { PrescriptionBody } from './Prescription';
+import { DoseChart } from './DoseChart';
+import { ReadAloudButton } from './ReadAloudButton';
+import { AIDoctorLogoIcon, LoadingIcon, PrintIcon } from './icons';
+
+interface SharedPrescriptionViewProps {
+  encoded: string;
+  onExit: () => void;
+}
+
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  WrongPassphrase: 'shared.wrongPassphrase',
+  UnsupportedBrowser: 'shared.unsupported',
+};
+
+// Read-only copy of a prescription opened from a share link. Everything is decoded in the browser;
+// once decoded, the page switches to the patient's language.
+export const SharedPrescriptionView: React.FC<SharedPrescriptionViewProps> = ({ encoded, onExit }) => {
+  const { t } = useI18n();
+  const needsPassphrase = useMemo(() => isProtectedShareLink(encoded), [encoded]);
+  const [passphrase, setPassphrase] = useState('');
+  const [payload, setPayload] = useState<SharedPrescription | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = async (secret = '') => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      setPayload(await decodeShareLink(encoded, secret));
+    } catch (err) {
+      console.error("Error opening shared prescription:", err);
+      setError(t(ERROR_MESSAGES[(err as Error).name] ?? 'shared.invalid'));
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  useEffect(() => {
+    setPayload(null);
+    setPassphrase('');
+    setError(null);
+    if (!needsPassphrase) open();
+  }, [encoded]);
+
+  const header = (
+    <header className="mb-6 flex flex-wrap items-center justify-between gap-3 no-print">
+      <div className="flex items-center gap-3">
+        <AIDoctorLogoIcon className="w-10 h-10 text-teal-500" />
+        <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{t('shared.title')}</h1>
+      </div>
+      <button type="button" onClick={onExit} className="px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+        {t('shared.openApp')}
+      </button>
+    </header>
+  );
+
+  if (!payload) {
+    return (
+      <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 p-4 sm:p-8">
+        <div className="max-w-md mx-auto">
+          {header}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+            {needsPassphrase ? (
+              <form onSubmit={(e) => { e.preventDefault(); open(passphrase.trim()); }} className="space-y-4">
+                <label htmlFor="sharedPassphrase" className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('shared.passphrasePrompt')}</label>
+                <input id="sharedPassphrase" type="password" autoComplete="off" autoFocus value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700" />
+                <button type="submit" disabled={isOpening || !passphrase.trim()} className="w-full flex items-center justify-center gap-2 px-5 py-2 bg-teal-600 text-white font-semibold rounded-lg shadow-md hover:bg-teal-700 disabled:opacity-60">
+                  {isOpening && <LoadingIcon className="w-5 h-5" />}
+                  {t('shared.open')}
+                </button>
+              </form>
+            ) : isOpening && (
+              <p className="flex items-center gap-3 text-sm"><LoadingIcon className="w-6 h-6 text-teal-500" /> {t('shared.opening')}</p>
+            )}
+            {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { patientInfo, prescription, review } = payload;
+  return (
+    <I18nContext.Provider value={createI18n(patientInfo.language)}>
+      <SharedPrescriptionContent payload={payload} onExit={onExit}>
+        <PrescriptionBody
+          prescription={prescription}
+          warnings={checkPrescriptionSafety(prescription, patientInfo)}
+          symptomSummary={payload.symptomSummary}
+          patientInfo={patientInfo}
+          clinicProfile={{ ...DEFAULT_CLINIC_PROFILE, ...payload.clinic, logo: '', signature: '' }}
+          disclaimer={payload.disclaimer}
+          review={review}
+          layout={payload.layout ?? 'stacked'}
+        />
+      </SharedPrescriptionContent>
+    </I18nContext.Provider>
+  );
+};
+
+// Rendered inside the patient's language, so its own labels follow the prescription
+const SharedPrescriptionContent: React.FC<{ payload: SharedPrescription; onExit: () => void; children: React.ReactNode }> = ({ payload, onExit, children }) => {
+  const { t, language, locale, dir } = useI18n();
+  const { patientInfo, prescription, sharedAt } = payload;
+
+  return (
+    <div dir={dir} lang={locale} className={`min-h-screen ${language === 'Urdu' ? 'font-urdu' : 'font-sans'} bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200 p-4 sm:p-8 print:p-0 print:bg-white`}>
+      <div id="printable-content-wrapper" className="w-full max-w-4xl mx-auto">
+        <header className="mb-6 flex flex-wrap items-center justify-between gap-3 no-print">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{t('shared.title')}</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{t('shared.readOnly', { date: formatDate(new Date(sharedAt), language) })}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <ReadAloudButton prescription={prescription} language={patientInfo.language} />
+            <button type="button" onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+              <PrintIcon className="w-4 h-4" /> {t('shared.print')}
+            </button>
+            <button type="button" onClick={onExit} className="px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+              {t('shared.openApp')}
+            </button>
+          </div>
+        </header>
+        <div id="printable-content" className="print-area print:text-black">
+          {children}
+        </div>
+        <DoseChart prescription={prescription} patientInfo={patientInfo} />
+      </div>
+    </div>
+  );
+};
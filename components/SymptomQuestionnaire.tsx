@@ -0,0 +1,202 @@
+import React from 'react';
+import { BodyRegion, ComplaintId, DurationUnit, SymptomSummary } from '../types';
+import { COMPLAINTS, DURATION_UNITS, ONSETS, PAIN_CHARACTERS, REMEDIES, UNMAPPED_REGIONS, getFollowUpQuestions, pruneSymptomSummary } from '../services/symptomQuestionnaire';
+import { MAX_TEXT_LENGTH } from '../services/clinicalIntake';
+import { MessageKey, useI18n } from '../services/i18n';
+import { BodyMap } from './BodyMap';
+
+interface SymptomQuestionnaireProps {
+  summary: SymptomSummary;
+  onChange: (summary: SymptomSummary) => void;
+  language: string; // The patient's language, for the free-text notes
+}
+
+const toggle = <T,>(list: T[], value: T): T[] => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+const Chip: React.FC<{ selected: boolean; onClick: () => void; children: React.ReactNode }> = ({ selected, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={selected}
+    className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${selected ? 'bg-teal-600 border-teal-600 text-white' : 'bg-gray-50 dark:bg-gray-700/50 border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600'}`}
+  >
+    {children}
+  </button>
+);
+
+const Question: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <fieldset className="space-y-2">
+    <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{label}</legend>
+    {children}
+  </fieldset>
+);
+
+export const SymptomQuestionnaire: React.FC<SymptomQuestionnaireProps> = ({ summary, onChange, language }) => {
+  const { t } = useI18n();
+  const questions = getFollowUpQuestions(summary.complaints);
+  const inputClasses = "px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700";
+
+  const update = (changes: Partial<SymptomSummary>) => onChange({ ...summary, ...changes });
+
+  const handleComplaintToggle = (complaint: ComplaintId) =>
+    onChange(pruneSymptomSummary({ ...summary, complaints: toggle(summary.complaints, complaint) }));
+
+  const handleLocationToggle = (region: BodyRegion) => update({ locations: toggle(summary.locations, region) });
+
+  // "Nothing yet" cannot be combined with anything else
+  const handleTriedToggle = (remedy: SymptomSummary['tried'][number]) => {
+    if (remedy === 'nothing') {
+      update({ tried: summary.tried.includes('nothing') ? [] : ['nothing'] });
+      return;
+    }
+    update({ tried: toggle(summary.tried.filter(item => item !== 'nothing'), remedy) });
+  };
+
+  const handleDurationValue = (value: string) => {
+    const parsed = parseInt(value, 10);
+    update({ duration: Number.isNaN(parsed) || parsed <= 0 ? undefined : { value: parsed, unit: summary.duration?.unit ?? 'days' } });
+  };
+
+  const handleDurationUnit = (unit: DurationUnit) => {
+    if (summary.duration) update({ duration: { ...summary.duration, unit } });
+  };
+
+  const handleTemperature = (value: string) => {
+    const parsed = parseFloat(value);
+    update({ maxTemperatureC: Number.isNaN(parsed) ? undefined : parsed });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600 dark:text-gray-400">{t('guided.intro')}</p>
+
+      <Question label={t('guided.complaint')}>
+        <div className="flex flex-wrap gap-2">
+          {COMPLAINTS.map(complaint => (
+            <Chip key={complaint} selected={summary.complaints.includes(complaint)} onClick={() => handleComplaintToggle(complaint)}>
+              {t(`complaint.${complaint}` as MessageKey)}
+            </Chip>
+          ))}
+        </div>
+      </Question>
+
+      {summary.complaints.length > 0 && (
+        <>
+          <Question label={t('guided.duration')}>
+            <div className="flex gap-2">
+              <input type="number" min={1} max={999} value={summary.duration?.value ?? ''} onChange={(e) => handleDurationValue(e.target.value)} aria-label={t('guided.durationValue')} className={`${inputClasses} w-24`} />
+              <select value={summary.duration?.unit ?? 'days'} onChange={(e) => handleDurationUnit(e.target.value as DurationUnit)} disabled={!summary.duration} aria-label={t('guided.duration')} className={inputClasses}>
+                {DURATION_UNITS.map(unit => <option key={unit} value={unit}>{t(`durationUnit.${unit}` as MessageKey)}</option>)}
+              </select>
+            </div>
+          </Question>
+
+          <Question label={t('guided.severity')}>
+            <div className="flex items-center gap-4">
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={1}
+                value={summary.severity ?? 0}
+                onChange={(e) => update({ severity: Number(e.target.value) })}
+                onClick={(e) => update({ severity: Number(e.currentTarget.value) })}
+                aria-valuetext={summary.severity === undefined ? t('guided.notRated') : `${summary.severity}/10`}
+                className={`flex-1 accent-teal-600 ${summary.severity === undefined ? 'opacity-50' : ''}`}
+              />
+              <span className="w-28 text-sm font-semibold text-gray-800 dark:text-gray-200">
+                {summary.severity === undefined ? t('guided.notRated') : `${summary.severity}/10`}
+              </span>
+              {summary.severity !== undefined && (
+                <button type="button" onClick={() => update({ severity: undefined })} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">{t('guided.clear')}</button>
+              )}
+            </div>
+          </Question>
+
+          <Question label={t('guided.onset')}>
+            <div className="flex flex-wrap gap-2">
+              {ONSETS.map(onset => (
+                <Chip key={onset} selected={summary.onset === onset} onClick={() => update({ onset: summary.onset === onset ? undefined : onset })}>
+                  {t(`onset.${onset}` as MessageKey)}
+                </Chip>
+              ))}
+            </div>
+          </Question>
+
+          {questions.askTemperature && (
+            <Question label={t('guided.temperature')}>
+              <input type="number" min={34} max={43} step={0.1} value={summary.maxTemperatureC ?? ''} onChange={(e) => handleTemperature(e.target.value)} aria-label={t('guided.temperature')} className={`${inputClasses} w-28`} />
+            </Question>
+          )}
+
+          {questions.askLocation && (
+            <Question label={t('guided.location')}>
+              <div className="flex flex-col sm:flex-row items-center gap-4">
+                <BodyMap selected={summary.locations} onToggle={handleLocationToggle} />
+                <div className="flex flex-wrap gap-2">
+                  {UNMAPPED_REGIONS.map(region => (
+                    <Chip key={region} selected={summary.locations.includes(region)} onClick={() => handleLocationToggle(region)}>
+                      {t(`body.${region}` as MessageKey)}
+                    </Chip>
+                  ))}
+                  {summary.locations.filter(region => !UNMAPPED_REGIONS.includes(region)).map(region => (
+                    <Chip key={region} selected onClick={() => handleLocationToggle(region)}>
+                      {t(`body.${region}` as MessageKey)}
+                    </Chip>
+                  ))}
+                </div>
+              </div>
+            </Question>
+          )}
+
+          {questions.askPainCharacter && (
+            <Question label={t('guided.painCharacter')}>
+              <div className="flex flex-wrap gap-2">
+                {PAIN_CHARACTERS.map(character => (
+                  <Chip key={character} selected={summary.painCharacter === character} onClick={() => update({ painCharacter: summary.painCharacter === character ? undefined : character })}>
+                    {t(`painCharacter.${character}` as MessageKey)}
+                  </Chip>
+                ))}
+              </div>
+            </Question>
+          )}
+
+          <Question label={t('guided.associated')}>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {questions.associated.map(symptom => (
+                <label key={symptom} className="flex items-center gap-2 text-sm text-gray-800 dark:text-gray-200 cursor-pointer">
+                  <input type="checkbox" checked={summary.associated.includes(symptom)} onChange={() => update({ associated: toggle(summary.associated, symptom) })} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500" />
+                  {t(`associated.${symptom}` as MessageKey)}
+                </label>
+              ))}
+            </div>
+          </Question>
+
+          <Question label={t('guided.tried')}>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {REMEDIES.map(remedy => (
+                <label key={remedy} className="flex items-center gap-2 text-sm text-gray-800 dark:text-gray-200 cursor-pointer">
+                  <input type="checkbox" checked={summary.tried.includes(remedy)} onChange={() => handleTriedToggle(remedy)} className="h-4 w-4 text-teal-600 border-gray-300 rounded focus:ring-teal-500" />
+                  {t(`tried.${remedy}` as MessageKey)}
+                </label>
+              ))}
+            </div>
+          </Question>
+
+          <div>
+            <label htmlFor="guidedNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('guided.notes')}</label>
+            <textarea
+              id="guidedNotes"
+              rows={2}
+              maxLength={MAX_TEXT_LENGTH}
+              value={summary.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              dir="auto"
+              className={`w-full ${inputClasses} ${language === 'Urdu' ? 'font-urdu leading-loose' : ''}`}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FilePart } from '../types';
+import { transcribeSymptoms } from '../services/geminiService';
+import { isRtlLanguage, useI18n } from '../services/i18n';
+import { describeError } from '../services/providers/errors';
+import { LoadingIcon, MicrophoneIcon } from './icons';
+
+interface VoiceInputProps {
+  language: string; // The patient's language; recordings are transcribed in it
+  onConfirm: (text: string) => void;
+  disabledReason?: string | null; // Why recording is not allowed yet (e.g. no consent to send audio)
+}
+
+// Long enough for a full complaint, short enough to keep the upload small
+const MAX_RECORDING_SECONDS = 120;
+
+// Firefox records Ogg, Chrome WebM and Safari MP4; use the first one the browser can produce
+const RECORDING_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4'];
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const blobToPart = async (blob: Blob): Promise<FilePart> => {
+  const base64 = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = (error) => reject(error);
+  });
+  // Codec parameters (e.g. ';codecs=opus') are not accepted by every model API
+  return { inlineData: { mimeType: blob.type.split(';')[0], data: base64 } };
+};
+
+export const VoiceInput: React.FC<VoiceInputProps> = ({ language, onConfirm, disabledReason }) => {
+  const { t } = useI18n();
+  const [state, setState] = useState<'idle' | 'recording' | 'transcribing' | 'review'>('idle');
+  const [seconds, setSeconds] = useState(0);
+  const [transcript, setTranscript] = useState('');
+  const [symptoms, setSymptoms] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const isSupported = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+  // Release the microphone if the form goes away mid-recording
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const timer = setInterval(() => setSeconds(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  useEffect(() => {
+    if (state === 'recording' && seconds >= MAX_RECORDING_SECONDS) recorderRef.current?.stop();
+  }, [state, seconds]);
+
+  const handleRecorded = async (blob: Blob) => {
+    if (blob.size === 0) {
+      setError(t('voice.empty'));
+      setState('idle');
+      return;
+    }
+    setState('transcribing');
+    try {
+      const result = await transcribeSymptoms(await blobToPart(blob), language);
+      if (!result.transcript.trim()) {
+        setError(t('voice.empty'));
+        setState('idle');
+        return;
+      }
+      setTranscript(result.transcript);
+      setSymptoms(result.symptoms);
+      setState('review');
+    } catch (err: unknown) {
+      setError(describeError(err, t));
+      setState('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Error opening the microphone:", err);
+      setError(t('voice.micError'));
+      return;
+    }
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      handleRecorded(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setSeconds(0);
+    setState('recording');
+  };
+
+  const handleConfirm = () => {
+    onConfirm(transcript.trim());
+    setTranscript('');
+    setSymptoms([]);
+    setState('idle');
+  };
+
+  const handleDiscard = () => {
+    setTranscript('');
+    setSymptoms([]);
+    setState('idle');
+  };
+
+  if (!isSupported) {
+    return <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('voice.unsupported')}</p>;
+  }
+
+  const isRtl = isRtlLanguage(language);
+
+  return (
+    <div className="mt-2 space-y-2">
+      {state === 'recording' ? (
+        <button type="button" onClick={() => recorderRef.current?.stop()} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-white bg-red-600 rounded-lg shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">
+          <span className="h-2.5 w-2.5 rounded-full bg-white animate-pulse" />
+          {t('voice.stop')} · {t('voice.recording', { time: formatDuration(seconds) })}
+        </button>
+      ) : (
+        <button type="button" onClick={startRecording} disabled={state !== 'idle' || Boolean(disabledReason)} title={disabledReason ?? undefined} className="flex items-center gap-2 px-4 py-2 text-sm font-semibold text-teal-700 dark:text-teal-300 border border-teal-600 rounded-lg hover:bg-teal-50 dark:hover:bg-gray-700 disabled:opacity-60 disabled:cursor-wait">
+          {state === 'transcribing' ? <LoadingIcon className="w-4 h-4" /> : <MicrophoneIcon className="w-5 h-5" />}
+          {state === 'transcribing' ? t('voice.transcribing') : t('voice.record')}
+        </button>
+      )}
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>}
+
+      {state === 'review' && (
+        <div className="p-4 space-y-3 rounded-lg border border-teal-300 dark:border-teal-700 bg-teal-50/60 dark:bg-gray-900/40">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('voice.reviewTitle')}</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">{t('voice.reviewHint')}</p>
+          </div>
+          <textarea
+            rows={4}
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+            dir={isRtl ? 'rtl' : 'ltr'}
+            aria-label={t('voice.reviewTitle')}
+            className={`w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:ring-teal-500 focus:border-teal-500 dark:bg-gray-700 ${language === 'Urdu' ? 'font-urdu leading-loose' : ''}`}
+          />
+          {symptoms.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="font-medium text-gray-700 dark:text-gray-300">{t('voice.symptoms')}</span>
+              {symptoms.map((symptom, i) => (
+                <span key={i} dir="auto" className={`px-2 py-1 rounded-full bg-white dark:bg-gray-700 border border-teal-200 dark:border-teal-800 text-gray-800 dark:text-gray-200 ${language === 'Urdu' ? 'font-urdu' : ''}`}>{symptom}</span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button type="button" onClick={handleConfirm} disabled={!transcript.trim()} className="px-4 py-2 text-sm font-semibold text-white bg-teal-600 rounded-lg shadow-sm hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed">
+              {t('voice.use')}
+            </button>
+            <button type="button" onClick={handleDiscard} className="px-4 py-2 text-sm font-semibold text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+              {t('voice.discard')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,15 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { registerSW } from 'virtual:pwa-register';
 import App from './App';
+import './index.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/600.css';
+import '@fontsource/inter/700.css';
+import '@fontsource/noto-nastaliq-urdu/400.css';
+import '@fontsource/noto-nastaliq-urdu/700.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,3 +22,6 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Caches the app for offline use and picks up new versions on the next load
+registerSW({ immediate: true });
@@ -0,0 +1,73 @@
+import { FoodTiming } from '../types';
+import { DOSE_CLOCK, DoseSchedule, courseDate, formatAmount } from './doseSchedule';
+
+// One repeating event per medicine and time of day, with an alarm at the dose time.
+// Times are "floating" (no time zone), so the doses stay at 8:00 etc. wherever the phone is.
+
+interface CalendarOptions {
+  title: (medicine: string, amount: string) => string; // Event title in the patient's language
+  food: (timing: FoodTiming) => string; // Shown as the event description
+  uidPrefix: string; // Keeps the events of one course distinct, so re-importing updates them instead of duplicating
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes are folded; multi-byte characters are never split
+const fold = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const localStamp = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const buildDoseCalendar = (schedule: DoseSchedule, options: CalendarOptions): string => {
+  const now = utcStamp(new Date());
+  const events = schedule.medicines.flatMap((medicine, index) => medicine.days === null ? [] : medicine.doses.map(dose => {
+    const start = courseDate(schedule.startDate, 0);
+    start.setHours(DOSE_CLOCK[dose.time].hour, DOSE_CLOCK[dose.time].minute);
+    const summary = options.title(medicine.name, formatAmount(dose.amount, medicine.unit));
+    return [
+      'BEGIN:VEVENT',
+      `UID:${options.uidPrefix}-${index}-${dose.time}@ai-doctor`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${localStamp(start)}`,
+      'DURATION:PT15M',
+      `RRULE:FREQ=DAILY;COUNT=${medicine.days}`,
+      `SUMMARY:${escapeText(summary)}`,
+      ...(medicine.food ? [`DESCRIPTION:${escapeText(options.food(medicine.food))}`] : []),
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(summary)}`,
+      'TRIGGER:PT0M',
+      'END:VALARM',
+      'END:VEVENT',
+    ];
+  }));
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Doctor//Dose Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(fold).join('\r\n') + '\r\n';
+};
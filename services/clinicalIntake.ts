@@ -0,0 +1,119 @@
+import { PatientInfo, PregnancyStatus, Sex } from '../types';
+import { normalizeDigits } from './dosage';
+
+export type ClinicalField = 'sex' | 'weightKg' | 'heightCm' | 'allergies' | 'currentMedications' | 'chronicConditions' | 'pregnancyStatus';
+
+export const SEX_LABELS: Record<Sex, string> = {
+  female: 'Female',
+  male: 'Male',
+  other: 'Other',
+};
+
+export const PREGNANCY_LABELS: Record<PregnancyStatus, string> = {
+  none: 'Not pregnant or breastfeeding',
+  pregnant: 'Pregnant',
+  breastfeeding: 'Breastfeeding',
+  'pregnant-breastfeeding': 'Pregnant and breastfeeding',
+};
+
+export const MAX_TEXT_LENGTH = 500;
+
+// Message codes rather than text so the form can show them in the interface language
+export type IntakeError = 'weightRange' | 'weightInfant' | 'heightRange' | 'pregnancyMismatch' | 'tooLong';
+export type MissingField = 'sex' | 'weight' | 'weightChild' | 'allergies' | 'currentMedications' | 'pregnancyStatus';
+
+export const PEDIATRIC_AGE_LIMIT = 18;
+
+// Units an age can be given in for babies, in the supported languages, as a fraction of a year.
+// A number with no unit, or any other word, is in years.
+const AGE_UNITS: [RegExp, number][] = [
+  [/^(?:m$|mo|month|mth|mahin|مہین|ماہ|شهر|أشهر|اشهر|月|महीन|মাস|mes|mois|mês|мес)/i, 1 / 12],
+  [/^(?:w$|wk|week|hafta|ہفت|أسبوع|أسابيع|周|星期|सप्ताह|हफ़्त|हफ्त|সপ্তাহ|semana|semaine|недел)/i, 7 / 365],
+  [/^(?:d$|day|din|دن|يوم|أيام|ايام|天|दिन|দিন|día|dia|jour|день|дня|дней)/i, 1 / 365],
+];
+
+// The age in years, e.g. 1.5 for "18 months" or "1 year 6 months". Null when it has no number.
+export const parseAge = (info: PatientInfo): number | null => {
+  const parts = [...normalizeDigits(info.age).matchAll(/(\d+(?:\.\d+)?)\s*([^\d\s,.]*)/gu)];
+  if (parts.length === 0) return null;
+  return parts.reduce((years, [, value, unit]) =>
+    years + Number(value) * (AGE_UNITS.find(([pattern]) => pattern.test(unit))?.[1] ?? 1), 0);
+};
+
+export const parseWeight = (info: PatientInfo): number | null => {
+  const weight = parseFloat(info.weightKg ?? '');
+  return Number.isNaN(weight) || weight <= 0 ? null : weight;
+};
+
+export const isPediatric = (info: PatientInfo): boolean => {
+  const age = parseAge(info);
+  return age !== null && age < PEDIATRIC_AGE_LIMIT;
+};
+
+// Pregnancy only applies to patients who could plausibly be pregnant
+export const canBePregnant = (info: PatientInfo): boolean => {
+  const age = parseAge(info);
+  return info.sex !== 'male' && (age === null || (age >= 10 && age <= 60));
+};
+
+export const calculateBmi = (info: PatientInfo): number | null => {
+  const weight = parseWeight(info);
+  const height = parseFloat(info.heightCm ?? '');
+  if (weight === null || Number.isNaN(height) || height <= 0) return null;
+  return Math.round((weight / (height / 100) ** 2) * 10) / 10;
+};
+
+// Returns an error code per field; every field is optional, so only filled-in values are checked.
+export const validateClinicalIntake = (info: PatientInfo): Partial<Record<ClinicalField, IntakeError>> => {
+  const errors: Partial<Record<ClinicalField, IntakeError>> = {};
+  const age = parseAge(info);
+
+  if (info.weightKg) {
+    const weight = parseFloat(info.weightKg);
+    if (Number.isNaN(weight) || weight < 0.5 || weight > 350) {
+      errors.weightKg = 'weightRange';
+    } else if (age !== null && age < 1 && weight > 15) {
+      errors.weightKg = 'weightInfant';
+    }
+  }
+  if (info.heightCm) {
+    const height = parseFloat(info.heightCm);
+    if (Number.isNaN(height) || height < 30 || height > 250) {
+      errors.heightCm = 'heightRange';
+    }
+  }
+  if (info.pregnancyStatus && info.pregnancyStatus !== 'none' && !canBePregnant(info)) {
+    errors.pregnancyStatus = 'pregnancyMismatch';
+  }
+  (['allergies', 'currentMedications', 'chronicConditions'] as const).forEach(field => {
+    if ((info[field] ?? '').length > MAX_TEXT_LENGTH) {
+      errors[field] = 'tooLong';
+    }
+  });
+  return errors;
+};
+
+// Optional fields that are still worth asking for, given what is already known about the patient
+export const missingRecommendedFields = (info: PatientInfo): MissingField[] => {
+  const missing: MissingField[] = [];
+  if (!info.sex) missing.push('sex');
+  if (!info.weightKg) missing.push(isPediatric(info) ? 'weightChild' : 'weight');
+  if (!info.allergies) missing.push('allergies');
+  if (!info.currentMedications) missing.push('currentMedications');
+  if (info.sex === 'female' && canBePregnant(info) && !info.pregnancyStatus) missing.push('pregnancyStatus');
+  return missing;
+};
+
+// Lines for the "Patient Information" block of the prompt
+export const describeClinicalProfile = (info: PatientInfo): string[] => {
+  const bmi = calculateBmi(info);
+  return [
+    info.sex && `- Sex: ${SEX_LABELS[info.sex]}`,
+    info.weightKg && `- Weight: ${info.weightKg} kg`,
+    info.heightCm && `- Height: ${info.heightCm} cm${bmi !== null ? ` (BMI ${bmi})` : ''}`,
+    info.pregnancyStatus && `- Pregnancy/Breastfeeding: ${PREGNANCY_LABELS[info.pregnancyStatus]}`,
+    `- Known Allergies: ${info.allergies?.trim() || 'None reported'}`,
+    `- Current Medications: ${info.currentMedications?.trim() || 'None reported'}`,
+    `- Chronic Conditions: ${info.chronicConditions?.trim() || 'None reported'}`,
+  ].filter((line): line is string => Boolean(line));
+};
@@ -0,0 +1,113 @@
+import { QueuedConsultation } from '../types';
+import { generatePrescription, runTriage } from './geminiService';
+import { getConsultations, getPatientId, saveConsultation } from './patientHistory';
+import { createTranslator } from './i18n';
+import { needsInternet } from './providers';
+import { describeError } from './providers/errors';
+import { reportAttachments } from './reportUpload';
+import { loadConsultationQueue, loadUiLanguage, saveConsultationQueue } from './settings';
+
+// Consultations submitted at camps without a connection wait in local storage and are generated,
+// oldest first, as soon as the model can be reached again.
+
+type QueueListener = (queue: QueuedConsultation[]) => void;
+
+let isProcessing = false;
+
+export const canReachModel = (): boolean => navigator.onLine || !needsInternet();
+
+const updateQueue = async (change: (queue: QueuedConsultation[]) => QueuedConsultation[], onChange: QueueListener) => {
+  const queue = change(await loadConsultationQueue());
+  await saveConsultationQueue(queue);
+  onChange(queue);
+};
+
+const updateItem = (id: string, changes: Partial<QueuedConsultation>, onChange: QueueListener) =>
+  updateQueue(queue => queue.map(item => (item.id === id ? { ...item, ...changes } : item)), onChange);
+
+// Throws an error named QueueFull when the reports do not fit in local storage
+export const enqueueConsultation = async (
+  consultation: Omit<QueuedConsultation, 'id' | 'queuedAt' | 'status'>,
+  onChange: QueueListener
+): Promise<QueuedConsultation> => {
+  const item: QueuedConsultation = { ...consultation, id: crypto.randomUUID(), queuedAt: new Date().toISOString(), status: 'waiting' };
+  try {
+    await updateQueue(queue => [...queue, item], onChange);
+  } catch (error) {
+    console.error("Error queuing consultation:", error);
+    throw Object.assign(new Error('There is no room left to queue this consultation.'), { name: 'QueueFull' });
+  }
+  return item;
+};
+
+export const retryQueued = (id: string, onChange: QueueListener) => updateItem(id, { status: 'waiting', error: undefined }, onChange);
+
+// A clinician reviewed the red flags and chose to go ahead; the model's triage is not asked again
+export const overrideQueued = (item: QueuedConsultation, onChange: QueueListener) =>
+  updateItem(item.id, { status: 'waiting', triage: { ...item.triage, overriddenAt: new Date().toISOString() } }, onChange);
+
+export const removeQueued = (id: string, onChange: QueueListener) =>
+  updateQueue(queue => queue.filter(item => item.id !== id), onChange);
+
+export const clearFinishedQueued = (onChange: QueueListener) =>
+  updateQueue(queue => queue.filter(item => item.status !== 'done'), onChange);
+
+const generateQueued = async (item: QueuedConsultation, onChange: QueueListener) => {
+  await updateItem(item.id, { status: 'processing', error: undefined }, onChange);
+  try {
+    // The model's triage could not run while offline, so it gets its say before anything is generated
+    const triage = item.triage.overriddenAt ? item.triage : await runTriage(item.patientInfo, item.description);
+    if (triage.urgency === 'emergency' && !triage.overriddenAt) {
+      await updateItem(item.id, { status: 'emergency', triage }, onChange);
+      return;
+    }
+    const previousConsultations = item.includeHistory ? await getConsultations(getPatientId(item.patientInfo)) : [];
+    const result = await generatePrescription(item.patientInfo, item.description, item.treatments, item.files, {
+      previousConsultations,
+      urgency: triage.urgency,
+      labResults: item.labResults,
+      symptomSummary: item.symptomSummary,
+    });
+    const record = await saveConsultation({
+      patientInfo: item.patientInfo,
+      inputMode: item.inputMode,
+      description: item.description,
+      treatments: item.treatments,
+      reports: item.reports,
+      result,
+      original: result,
+      review: { status: 'draft', notes: '' },
+      triage,
+      consent: item.consent,
+      ...(item.labResults?.length ? { labResults: item.labResults } : {}),
+      ...(item.symptomSummary ? { symptomSummary: item.symptomSummary } : {}),
+    }, reportAttachments(item.reports, item.files));
+    await updateItem(item.id, { status: 'done', consultationId: record.id, triage, files: [] }, onChange);
+  } catch (error: unknown) {
+    console.error("Error generating queued consultation:", error);
+    // Losing the connection part-way, or the app locking, just puts it back in line; anything else
+    // needs a person to look at it
+    const retryLater = !canReachModel() || (error instanceof Error && error.name === 'VaultLocked');
+    const message = describeError(error, createTranslator(loadUiLanguage()));
+    await updateItem(item.id, retryLater ? { status: 'waiting' } : { status: 'failed', error: message }, onChange);
+  }
+};
+
+// Runs the waiting consultations one at a time until the queue is empty or the connection drops.
+// A run that was cut short (e.g. the tab was closed) is picked up again from the start.
+export const processQueue = async (onChange: QueueListener): Promise<void> => {
+  if (isProcessing) return;
+  isProcessing = true;
+  try {
+    await updateQueue(queue => queue.map(item => (item.status === 'processing' ? { ...item, status: 'waiting' } : item)), onChange);
+    let next: QueuedConsultation | undefined;
+    while (canReachModel() && (next = (await loadConsultationQueue()).find(item => item.status === 'waiting'))) {
+      await generateQueued(next, onChange);
+    }
+  } catch (error) {
+    // Usually the app locking part-way; the rest waits for the next unlock
+    console.error("Error processing the consultation queue:", error);
+  } finally {
+    isProcessing = false;
+  }
+};
@@ -0,0 +1,111 @@
+import { ChatMessage, PatientInfo, PrescriptionData, PrivacySettings } from '../types';
+import { loadPrivacySettings } from './settings';
+
+// The patient's identifiers are swapped for placeholders before anything is sent to the model, and
+// swapped back only where the result is shown on this device. None of them is needed clinically.
+
+export const PLACEHOLDERS = {
+  name: '[PATIENT_NAME]',
+  cell: '[PATIENT_CELL]',
+  district: '[PATIENT_DISTRICT]',
+} as const;
+
+// Mobile numbers (03xx, +92 3xx), dashed landlines and anything written with an international code
+const PHONE_PATTERN = /(?:(?:\+92|0092|(?<!\d)0)3\d{2}[\s-]?\d{7}|(?<!\d)0\d{2,4}-\d{6,8}|\+\d{1,3}[\s-]?\d(?:[\s-]?\d){7,12})(?!\d)/g;
+
+// Identifiers typed into the free text that the patient details do not cover. The result never
+// needs them, so they are not put back.
+const OTHER_IDENTIFIERS: [RegExp, string][] = [
+  [/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, '[EMAIL]'],
+  // National identity card (CNIC) numbers
+  [/(?<!\d)\d{5}-\d{7}-\d(?!\d)/g, '[ID_NUMBER]'],
+  [PHONE_PATTERN, '[PHONE]'],
+  // Medical record, registration and lab numbers, when they are labelled and contain a digit
+  [/\b(?:MRN?|M\.R\.|Reg(?:istration)?|Patient\s*ID|Lab\s*(?:ID|No))\b\.?\s*(?:No\.?|#|Number)?\s*[:#-]?\s*(?=[A-Z/-]*\d)[A-Z0-9][A-Z0-9/-]*/gi, '[RECORD_NUMBER]'],
+];
+const MIN_NAME_PART_LENGTH = 3;
+
+export interface Deidentifier {
+  // The patient details with the identifiers replaced, and the free-text fields scrubbed
+  patientInfo: PatientInfo;
+  text: (value: string) => string;
+  // Whether the model needs to be told about the placeholders
+  usesPlaceholders: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, in any script, ignoring case and spacing
+const wordPattern = (term: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${term.split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+
+// The last ten digits, however the number is written: with or without the country code or the
+// leading zero, and with spaces or dashes anywhere
+const cellPattern = (cell: string): RegExp | null => {
+  const digits = cell.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  const local = digits.slice(-10).split('').join('[\\s-]?');
+  return new RegExp(`(?<!\\d)(?:\\+?\\d{1,3}[\\s-]?)?0?${local}(?!\\d)`, 'g');
+};
+
+// The full name and each part of it long enough not to be a common word
+const nameTerms = (name: string): string[] => [
+  name,
+  ...name.trim().split(/\s+/).filter(part => [...part].length >= MIN_NAME_PART_LENGTH),
+];
+
+export const createDeidentifier = (patientInfo: PatientInfo, settings: PrivacySettings = loadPrivacySettings()): Deidentifier => {
+  const cell = settings.cell ? cellPattern(patientInfo.cell) : null;
+  const terms: [string, string][] = [];
+  if (settings.name) nameTerms(patientInfo.name).forEach(term => terms.push([term.trim(), PLACEHOLDERS.name]));
+  if (settings.district) terms.push([patientInfo.district.trim(), PLACEHOLDERS.district]);
+  // Longest first, so a district like "Dera Ghazi Khan" is not half taken by a patient named Khan
+  const words = terms
+    .filter(([term]) => term)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([term, placeholder]): [RegExp, string] => [wordPattern(term), placeholder]);
+
+  // Emails and numbers go before names, which can be part of them
+  const text = (value: string): string => {
+    let result = cell ? value.replace(cell, PLACEHOLDERS.cell) : value;
+    if (settings.otherIdentifiers) {
+      result = OTHER_IDENTIFIERS.reduce((current, [pattern, placeholder]) => current.replace(pattern, placeholder), result);
+    }
+    return words.reduce((current, [pattern, placeholder]) => current.replace(pattern, placeholder), result);
+  };
+
+  return {
+    patientInfo: {
+      ...patientInfo,
+      name: settings.name ? PLACEHOLDERS.name : patientInfo.name,
+      cell: settings.cell && patientInfo.cell ? PLACEHOLDERS.cell : patientInfo.cell,
+      district: settings.district ? PLACEHOLDERS.district : patientInfo.district,
+      allergies: patientInfo.allergies && text(patientInfo.allergies),
+      currentMedications: patientInfo.currentMedications && text(patientInfo.currentMedications),
+      chronicConditions: patientInfo.chronicConditions && text(patientInfo.chronicConditions),
+    },
+    text,
+    usesPlaceholders: settings.name || settings.cell || settings.district,
+  };
+};
+
+export const reidentify = (value: string, patientInfo: PatientInfo): string =>
+  value
+    .replaceAll(PLACEHOLDERS.name, patientInfo.name)
+    .replaceAll(PLACEHOLDERS.cell, patientInfo.cell)
+    .replaceAll(PLACEHOLDERS.district, patientInfo.district);
+
+const mapStrings = <T>(value: T, map: (text: string) => string): T => {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+};
+
+export const reidentifyPrescription = (prescription: PrescriptionData, patientInfo: PatientInfo): PrescriptionData =>
+  mapStrings(prescription, text => reidentify(text, patientInfo));
+
+export const reidentifyChat = (messages: ChatMessage[], patientInfo: PatientInfo): ChatMessage[] =>
+  messages.map(message => ({ ...message, text: reidentify(message.text, patientInfo) }));
@@ -0,0 +1,77 @@
+// Helpers for reading the dosage patterns the prompt asks for, e.g. "1+1+1", "½+0+½" or "5ml+5ml+5ml".
+
+const FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75 };
+
+const parseToken = (token: string): number => {
+  const fraction = token.match(/^(\d+)\/(\d+)$/);
+  return fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(token);
+};
+
+// Handles whole numbers, decimals, "1/2", "½" and mixed forms like "1 1/2"
+const parseAmount = (value: string): number | null => {
+  const text = value.replace(/[½¼¾]/g, match => ` ${FRACTIONS[match]}`).replace(/\s*\/\s*/g, '/');
+  const tokens = text.split(/\s+/).filter(Boolean).map(parseToken);
+  if (tokens.length === 0 || tokens.some(Number.isNaN)) return null;
+  return tokens.reduce((sum, token) => sum + token, 0);
+};
+
+// Prescriptions in Urdu, Arabic, Hindi or Bengali may be written with that script's digits
+const DIGIT_ZEROS = [0x0660, 0x06f0, 0x0966, 0x09e6];
+
+export const normalizeDigits = (text: string): string =>
+  text.replace(/[\u0660-\u0669\u06f0-\u06f9\u0966-\u096f\u09e6-\u09ef]/g, digit => {
+    const code = digit.charCodeAt(0);
+    return String(code - DIGIT_ZEROS.find(zero => code >= zero && code <= zero + 9)!);
+  });
+
+// Unit words written next to a dosage pattern in the supported languages, singular and plural
+const UNIT_WORDS = new RegExp('^(?:' + [
+  'drops?', 'tablets?', 'tabs?', 'capsules?', 'caps?', 'pills?', 'puffs?', 'sprays?', 'sachets?', 'globules?', 'pellets?',
+  'spoons?', 'teaspoons?', 'tsp', 'tablespoons?', 'tbsp', 'units?', 'ml',
+  'قطرے', 'قطرہ', 'گولی', 'گولیاں', 'کیپسول', 'چمچ', 'چمچے', 'پف',
+  'قطرات', 'قطرة', 'حبة', 'حبات', 'قرص', 'أقراص', 'كبسولة', 'كبسولات', 'ملعقة', 'بخة', 'بخات',
+  'बूंद', 'बूँद', 'बूंदें', 'बूँदें', 'गोली', 'गोलियां', 'गोलियाँ', 'कैप्सूल', 'चम्मच', 'पफ',
+  'ফোঁটা', 'ট্যাবলেট', 'বড়ি', 'ক্যাপসুল', 'চামচ', 'পাফ',
+  'gotas?', 'comprimidos?', 'c[áa]psulas?', 'cucharaditas?', 'cucharadas?', 'colheres?', 'inhalaciones', 'inala[çc][õo]es',
+  'gouttes?', 'comprim[ée]s?', 'g[ée]lules?', 'cuill[èe]res?', 'bouff[ée]es?', 'pulv[ée]risations?',
+  'капл[яиью]', 'капель', 'таблет(?:ка|ки|ок|ку)', 'капсул(?:а|ы|у)?', 'ложк(?:а|и|у)', 'ложек', 'вдох(?:а|ов)?', 'гранул(?:а|ы)?',
+].join('|') + ')$', 'iu');
+// Chinese units follow the number directly, with no space before the next word
+const HAN_UNIT = /^(?:胶囊|[滴片粒喷袋勺])/u;
+const WORD_BREAK = /[\s.,;:()\-、，。；：（）]+/u;
+
+const asUnit = (word = ''): string | undefined => (UNIT_WORDS.test(word) ? word : word.match(HAN_UNIT)?.[0]);
+
+// The amount taken at each time of day and its unit, e.g. "drops" for "5+5+5 drops". Only a unit word
+// right next to the pattern counts, so instructions such as "after meals" are not mistaken for one;
+// the unit is empty when none is given. Null when the dosage is not a "+" pattern.
+export const readDosage = (dosage: string): { amounts: number[]; unit: string } | null => {
+  const text = normalizeDigits(dosage);
+  const match = text.match(/[\d½¼¾][\d½¼¾\/.\s]*(?:ml)?(?:\s*\+\s*[\d½¼¾][\d½¼¾\/.\s]*(?:ml)?)+/i);
+  if (!match) return null;
+  const amounts = match[0].split('+').map(part => parseAmount(part.replace(/ml/i, '')));
+  if (!amounts.every((amount): amount is number => amount !== null)) return null;
+  const before = text.slice(0, match.index).split(WORD_BREAK).filter(Boolean).pop();
+  const after = text.slice(match.index! + match[0].length).split(WORD_BREAK).filter(Boolean)[0];
+  const unit = /ml/i.test(match[0]) ? 'ml' : asUnit(after) ?? asUnit(before) ?? '';
+  return { amounts, unit };
+};
+
+// Returns the amount taken at each time of day, or null when the dosage is not a "+" pattern.
+export const parseDosagePattern = (dosage: string): number[] | null => readDosage(dosage)?.amounts ?? null;
+
+// Milligrams per tablet, or per ml for liquids written like "250mg/5ml". Null when not in mg.
+export const parseStrengthMg = (strength: string): { mg: number; perMl: boolean } | null => {
+  const text = strength.toLowerCase().replace(/\s+/g, '');
+  const liquid = text.match(/([\d.]+)(mg|g|mcg)\/([\d.]*)ml/);
+  const solid = text.match(/([\d.]+)(mg|g|mcg)/);
+  const match = liquid ?? solid;
+  if (!match) return null;
+  const factor = match[2] === 'g' ? 1000 : match[2] === 'mcg' ? 0.001 : 1;
+  const mg = Number(match[1]) * factor;
+  if (liquid) {
+    const volume = Number(liquid[3] || '1');
+    return { mg: mg / volume, perMl: true };
+  }
+  return { mg, perMl: false };
+};
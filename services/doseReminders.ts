@@ -0,0 +1,52 @@
+import { DoseReminderPlan } from '../types';
+import { loadDoseReminders, saveDoseReminders } from './settings';
+
+// Browser notifications for the doses in a course. Without a server to push them, they can only
+// appear while the app is open in some tab; the calendar export covers the rest.
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+const CHECK_INTERVAL_MS = 30_000;
+
+export const getReminderPermission = (): ReminderPermission =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+export const hasDoseReminders = async (id: string): Promise<boolean> => (await loadDoseReminders()).some(plan => plan.id === id);
+
+// Asks for permission if it has not been given yet; the plan is only stored once it is granted
+export const enableDoseReminders = async (plan: DoseReminderPlan): Promise<ReminderPermission> => {
+  if (!('Notification' in window)) return 'unsupported';
+  const permission = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+  if (permission === 'granted') await saveDoseReminders([...(await loadDoseReminders()).filter(existing => existing.id !== plan.id), plan]);
+  return permission;
+};
+
+export const disableDoseReminders = async (id: string) => {
+  await saveDoseReminders((await loadDoseReminders()).filter(plan => plan.id !== id));
+};
+
+// Notifies about every dose that fell due since the last check and drops finished courses.
+// Doses missed while the app was closed or locked are not shown late. Returns a function that stops the checks.
+export const startDoseReminders = (): (() => void) => {
+  let lastCheck = Date.now();
+  const check = async () => {
+    const now = Date.now();
+    let plans: DoseReminderPlan[];
+    try {
+      plans = await loadDoseReminders();
+    } catch {
+      lastCheck = now; // Locked; the plans cannot be read until the PIN is entered
+      return;
+    }
+    if (getReminderPermission() === 'granted') {
+      plans.forEach(plan => plan.doses
+        .filter(dose => Date.parse(dose.at) > lastCheck && Date.parse(dose.at) <= now)
+        .forEach(dose => new Notification(plan.title, { body: dose.body, tag: `${plan.id}-${dose.at}` })));
+    }
+    const active = plans.filter(plan => plan.doses.some(dose => Date.parse(dose.at) > now));
+    if (active.length !== plans.length) await saveDoseReminders(active);
+    lastCheck = now;
+  };
+  const timer = setInterval(() => check().catch(err => console.error("Error checking dose reminders:", err)), CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,118 @@
+import { FoodTiming, PrescriptionData } from '../types';
+import { normalizeDigits, readDosage } from './dosage';
+
+// Turns "1+1+1 for 5 days" style prescriptions into a day-by-day timetable for the dose chart,
+// reminders and calendar export.
+
+export type DoseTime = 'morning' | 'noon' | 'evening' | 'night';
+
+export const DOSE_TIMES: DoseTime[] = ['morning', 'noon', 'evening', 'night'];
+export const FOOD_TIMINGS: FoodTiming[] = ['before', 'with', 'after', 'any'];
+
+// Clock times used for reminders and calendar events
+export const DOSE_CLOCK: Record<DoseTime, { hour: number; minute: number }> = {
+  morning: { hour: 8, minute: 0 },
+  noon: { hour: 13, minute: 0 },
+  evening: { hour: 18, minute: 0 },
+  night: { hour: 21, minute: 0 },
+};
+
+// "1+1" is morning and night; "1+1+1" adds noon; four parts add an evening dose
+const TIMES_BY_COUNT: Record<number, DoseTime[]> = {
+  2: ['morning', 'night'],
+  3: ['morning', 'noon', 'night'],
+  4: ['morning', 'noon', 'evening', 'night'],
+};
+
+// Unit words the model uses for course lengths in the supported languages. Each is matched at the start
+// of the word right after a number, so "3 times daily" is not read as months.
+const DURATION_UNITS: [RegExp, number][] = [
+  [/^(?:week|wk|hafta|ہفت|أسبوع|أسابيع|اسبوع|周|星期|सप्ताह|हफ़्त|हफ्त|সপ্তাহ|semana|semaine|недел)/i, 7],
+  [/^(?:month|mahina|مہین|ماہ|شهر|أشهر|اشهر|月|महीन|মাস|mes|mois|mês|месяц)/i, 30],
+  [/^(?:day|din|دن|يوم|أيام|ايام|天|日|दिन|দিন|día|dia|jour|день|дня|дней)/i, 1],
+];
+
+// A number or range, e.g. "5" or "5-7", and the word that follows it
+const DURATION = /(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?\s*(\S+)/gu;
+
+// Days in a course such as "5 days", "1 week" or "5-7 days" (the longer end), or null when it cannot be read.
+// Only a number followed by a unit counts, so the dose count in "5 days, 3 times daily" is ignored.
+export const parseDurationDays = (duration: string): number | null => {
+  for (const [, from, to, word] of normalizeDigits(duration).matchAll(DURATION)) {
+    const unit = DURATION_UNITS.find(([pattern]) => pattern.test(word));
+    const length = Math.max(Number(from), Number(to ?? from));
+    if (unit && length > 0) return Math.ceil(length * unit[1]);
+  }
+  return null;
+};
+
+export interface ScheduledMedicine {
+  name: string; // Name and strength, as printed
+  doses: { time: DoseTime; amount: number }[];
+  unit: string; // e.g. "drops" or "ml"; empty when the dosage names none
+  food?: FoodTiming;
+  days: number | null; // Null when the course length could not be read
+}
+
+export interface DoseSchedule {
+  startDate: string; // YYYY-MM-DD, the first day of the course
+  days: number; // Length of the longest course with a known duration
+  times: DoseTime[]; // Times of day that have at least one dose
+  medicines: ScheduledMedicine[];
+}
+
+// Medicines whose dosage is a "+" pattern; struck items and guidance lines are left out
+export const buildDoseSchedule = (prescription: PrescriptionData, startDate: string): DoseSchedule => {
+  const medicines = prescription.treatments.flatMap(section => section.medications).flatMap((item): ScheduledMedicine[] => {
+    if (item.struck || !item.name.trim()) return [];
+    const dosage = readDosage(item.dosage);
+    const times = dosage && TIMES_BY_COUNT[dosage.amounts.length];
+    if (!dosage || !times) return [];
+    return [{
+      name: [item.name, item.strength].filter(Boolean).join(' '),
+      doses: times.map((time, i) => ({ time, amount: dosage.amounts[i] })).filter(dose => dose.amount > 0),
+      unit: dosage.unit,
+      food: item.food,
+      days: parseDurationDays(item.duration),
+    }];
+  });
+  return {
+    startDate,
+    days: Math.max(0, ...medicines.map(medicine => medicine.days ?? 0)),
+    times: DOSE_TIMES.filter(time => medicines.some(medicine => medicine.doses.some(dose => dose.time === time))),
+    medicines,
+  };
+};
+
+// Local calendar date of a course day; day 0 is the start date
+export const courseDate = (startDate: string, day: number): Date => {
+  const [year, month, date] = startDate.split('-').map(Number);
+  return new Date(year, month - 1, date + day);
+};
+
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Whether a medicine is still being taken on the given course day
+export const isTakenOn = (medicine: ScheduledMedicine, day: number): boolean =>
+  medicine.days !== null && day < medicine.days;
+
+export const formatAmount = (amount: number, unit: string): string => {
+  const fractions: Record<string, string> = { '0.25': '¼', '0.5': '½', '0.75': '¾' };
+  const whole = Math.floor(amount);
+  const fraction = fractions[String(amount - whole)];
+  const value = fraction ? `${whole || ''}${fraction}` : String(amount);
+  return unit ? `${value} ${unit}` : value;
+};
+
+// Every dose in the course with a known duration, in time order
+export const listDoses = (schedule: DoseSchedule): { at: Date; time: DoseTime; medicines: { medicine: ScheduledMedicine; amount: number }[] }[] =>
+  Array.from({ length: schedule.days }, (_, day) => schedule.times.map(time => {
+    const at = courseDate(schedule.startDate, day);
+    at.setHours(DOSE_CLOCK[time].hour, DOSE_CLOCK[time].minute);
+    const medicines = schedule.medicines.flatMap(medicine => {
+      const dose = medicine.doses.find(entry => entry.time === time);
+      return dose && isTakenOn(medicine, day) ? [{ medicine, amount: dose.amount }] : [];
+    });
+    return { at, time, medicines };
+  })).flat().filter(dose => dose.medicines.length > 0);
@@ -1,50 +1,244 @@
-import { GoogleGenAI, Type, Part } from "@google/genai";
-import { PatientInfo, ReligiousTreatments } from '../types';
+import { Type, Schema } from "@google/genai";
+import { ChatMessage, Consultation, FilePart, LabFlag, LabResult, PatientInfo, PrescriptionData, SymptomSummary, TriageResult, UrgencyLevel } from '../types';
+import { getProvider } from './providers';
+import { JsonRequest } from './providers/types';
+import { isProviderError, providerError } from './providers/errors';
+import { PrescriptionRules, parsePrescription, validatePrescription } from './prescriptionValidation';
+import { Deidentifier, PLACEHOLDERS, createDeidentifier } from './deidentify';
+import { describeClinicalProfile, isPediatric, parseWeight } from './clinicalIntake';
+import { combineTriage, detectRedFlags } from './triage';
+import { parsePartialJson } from './partialJson';
+import { flagLabResult, formatLabNumber, normalizeLabResult } from './labUnits';
+import { buildLabSeries, describeLabTrends } from './labTrends';
+import { describeSymptomSummary } from './symptomQuestionnaire';
+import { createTranslator } from './i18n';
+import { describeModalityRules, findModality } from './modalities';
+import { loadModalities } from './settings';
+import { COST_TIERS, EVIDENCE_LEVELS } from './treatmentComparison';
+import { FOOD_TIMINGS } from './doseSchedule';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const medicationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Generic (INN) name of the medicine, or the English name of the remedy, in Latin script whatever the response language, e.g. 'Paracetamol'." },
+    strength: { type: Type.STRING, description: "Potency or strength, e.g. '500mg' or '30C'. Empty if not applicable." },
+    dosage: { type: Type.STRING, description: "Dosage pattern, e.g. '1+1+1' or '5+5+5 drops'." },
+    duration: { type: Type.STRING, description: "Course length, e.g. '5 days'." },
+    route: { type: Type.STRING, description: "Route of administration, e.g. 'Oral'. Empty if not applicable." },
+    notes: { type: Type.STRING, description: "Short usage notes. Empty if none." },
+    food: { type: Type.STRING, enum: FOOD_TIMINGS, format: "enum", description: "When to take it relative to meals." },
+  },
+  required: ["name", "strength", "dosage", "duration", "route", "notes", "food"],
+};
 
-export const generatePrescription = async (
-  patientInfo: PatientInfo,
-  illnessDescription: string,
-  selectedTreatments: string[],
-  files: Part[]
-): Promise<{ illnessTitle: string; prescriptionContent: string; advice: string; }> => {
-  
-  const { language } = patientInfo;
-  const model = 'gemini-2.5-flash';
-  const hasFiles = files.length > 0;
+const buildPrescriptionSchema = (selectedTreatments: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    illnessTitle: {
+      type: Type.STRING,
+      description: "A short, concise title for the illness or report finding, written in the requested language."
+    },
+    reportAnalysis: {
+      type: Type.OBJECT,
+      description: "Abnormal findings from the uploaded reports. Omit when no reports were provided.",
+      properties: {
+        heading: { type: Type.STRING },
+        findings: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              test: { type: Type.STRING },
+              result: { type: Type.STRING },
+              interpretation: { type: Type.STRING },
+            },
+            required: ["test", "result", "interpretation"],
+          },
+        },
+      },
+      required: ["heading", "findings"],
+    },
+    treatments: {
+      type: Type.ARRAY,
+      description: "One plan for each selected treatment methodology.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          treatment: { type: Type.STRING, enum: selectedTreatments, format: "enum" },
+          heading: { type: Type.STRING },
+          medications: { type: Type.ARRAY, items: medicationSchema },
+          instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+          overview: {
+            type: Type.OBJECT,
+            description: "What the patient needs to weigh this plan against the others.",
+            properties: {
+              expectedDuration: { type: Type.STRING, description: "How long the plan takes to work, e.g. '5-7 days'." },
+              costTier: { type: Type.STRING, enum: COST_TIERS, format: "enum" },
+              evidenceLevel: { type: Type.STRING, enum: EVIDENCE_LEVELS, format: "enum" },
+              cautions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ["expectedDuration", "costTier", "evidenceLevel", "cautions"],
+          },
+        },
+        required: ["treatment", "heading", "medications", "instructions", "overview"],
+      },
+    },
+    diagnosticTests: {
+      type: Type.OBJECT,
+      description: "Suggested diagnostic tests. Omit when none are needed.",
+      properties: {
+        heading: { type: Type.STRING },
+        tests: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              reason: { type: Type.STRING },
+            },
+            required: ["name", "reason"],
+          },
+        },
+      },
+      required: ["heading", "tests"],
+    },
+    advice: {
+      type: Type.OBJECT,
+      description: "General advice and precautions.",
+      properties: {
+        heading: { type: Type.STRING },
+        items: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ["heading", "items"],
+    },
+  },
+  required: ["illnessTitle", "treatments", "advice"],
+});
+
+// Optional extra context gathered before generation
+export interface GenerationContext {
+  previousConsultations?: Consultation[];
+  urgency?: UrgencyLevel;
+  labResults?: LabResult[]; // Rows extracted from the reports and checked by staff
+  symptomSummary?: SymptomSummary; // Answers from the guided questionnaire, used instead of a free-text description
+}
 
-  // Instructions are now language-agnostic.
-  const religiousTreatmentPrompts: { [key: string]: string } = {
-    [ReligiousTreatments.Islam]: `- For "${ReligiousTreatments.Islam}", provide relevant Quranic verses or duas, and recommend 'tasbeeh' (recitation) of Asma-ul-Husna relevant to healing. Use bullet points. If the target language is Urdu, this MUST be in Urdu script.`,
-    [ReligiousTreatments.Christianity]: `- For "${ReligiousTreatments.Christianity}", provide relevant Bible verses and suggest prayers. Use bullet points.`,
-    [ReligiousTreatments.Hinduism]: `- For "${ReligiousTreatments.Hinduism}", provide relevant Ayurvedic remedies and suggest healing mantras. Use bullet points.`,
-    [ReligiousTreatments.Buddhism]: `- For "${ReligiousTreatments.Buddhism}", suggest meditation techniques and healing chants or sutras. Use bullet points.`,
-    [ReligiousTreatments.Sikhism]: `- For "${ReligiousTreatments.Sikhism}", recommend reciting Shabads from the Gurbani and suggest 'Seva' (selfless service). Use bullet points.`,
-    [ReligiousTreatments.Judaism]: `- For "${ReligiousTreatments.Judaism}", provide relevant passages from the Torah or Psalms and suggest prayers. Use bullet points.`,
-    [ReligiousTreatments["Baháʼí Faith"]]: `- For "${ReligiousTreatments["Baháʼí Faith"]}", provide excerpts from the Writings of Baháʼu'lláh and suggest prayers for health. Use bullet points.`,
-    [ReligiousTreatments["Chinese Folk Religion"]]: `- For "${ReligiousTreatments["Chinese Folk Religion"]}", suggest practices like ancestral offerings and common herbal remedies. Use bullet points.`,
-    [ReligiousTreatments.Spiritism]: `- For "${ReligiousTreatments.Spiritism}", provide spiritual counsel and suggest practices like positive affirmations. Use bullet points.`,
-    [ReligiousTreatments["Ethnic/Indigenous Religions"]]: `- For "${ReligiousTreatments["Ethnic/Indigenous Religions"]}", suggest connecting with nature and general traditional rituals. Use bullet points.`,
+const describePreviousConsultations = (consultations: Consultation[]): string =>
+  consultations
+    .map(c => {
+      const medicines = c.result.treatments
+        .flatMap(t => t.medications.map(m => [m.name, m.strength, m.dosage, m.duration].filter(Boolean).join(' ')))
+        .join('; ');
+      return `- ${c.createdAt.slice(0, 10)}: "${c.result.illnessTitle}" (${c.treatments.join(', ')}). Complaint: "${c.description}".${medicines ? ` Prescribed: ${medicines}.` : ''}`;
+    })
+    .join('\n    ');
+
+const describeLabResults = (results: LabResult[]): string =>
+  results
+    .map(result => {
+      const normalized = normalizeLabResult(result);
+      const converted = normalized && normalized.unit !== result.unit ? ` (= ${formatLabNumber(normalized.value)} ${normalized.unit})` : '';
+      const range = result.referenceRange ? `, reference ${result.referenceRange}` : '';
+      const date = result.reportDate ? ` on ${result.reportDate}` : '';
+      return `- ${result.test}: ${result.value} ${result.unit}${converted}${range} [${result.flag.toUpperCase()}]${date}`;
+    })
+    .join('\n    ');
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  // Streams the response and reports each usable partial result
+  onPartial?: (partial: PrescriptionData) => void;
+  timeoutMs?: number;
+}
+
+// Long enough for report analysis with several PDFs
+export const GENERATION_TIMEOUT_MS = 120_000;
+
+// Fills in whatever a partial streamed response is still missing so it can be rendered
+const toPartialPrescription = (value: unknown): PrescriptionData | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Partial<PrescriptionData>;
+  const treatments = (data.treatments ?? [])
+    .filter(section => section?.heading)
+    .map(section => ({
+      treatment: section.treatment ?? '',
+      heading: section.heading,
+      medications: (section.medications ?? []).filter(item => item?.name).map(item => ({
+        name: item.name, strength: item.strength ?? '', dosage: item.dosage ?? '', duration: item.duration ?? '', route: item.route ?? '', notes: item.notes ?? '', food: item.food,
+      })),
+      instructions: section.instructions ?? [],
+      // Enums arrive whole, so an overview is usable once both of them have
+      overview: section.overview?.costTier && section.overview.evidenceLevel
+        ? { expectedDuration: section.overview.expectedDuration ?? '', costTier: section.overview.costTier, evidenceLevel: section.overview.evidenceLevel, cautions: section.overview.cautions ?? [] }
+        : undefined,
+    }));
+  return {
+    illnessTitle: data.illnessTitle ?? '',
+    reportAnalysis: data.reportAnalysis?.heading
+      ? { heading: data.reportAnalysis.heading, findings: (data.reportAnalysis.findings ?? []).filter(finding => finding?.test) }
+      : undefined,
+    treatments,
+    diagnosticTests: data.diagnosticTests?.heading
+      ? { heading: data.diagnosticTests.heading, tests: (data.diagnosticTests.tests ?? []).filter(test => test?.name) }
+      : undefined,
+    advice: { heading: data.advice?.heading ?? '', items: data.advice?.items ?? [] },
   };
+};
 
-  // Build dynamic rules for selected religious treatments
-  const religiousRules = selectedTreatments
-    .map(treatment => religiousTreatmentPrompts[treatment])
-    .filter(Boolean); // This filters out any non-religious treatments
+// Tells the model what the placeholders are, when any identifiers were replaced
+const describePlaceholders = (deidentifier: Deidentifier): string =>
+  deidentifier.usesPlaceholders
+    ? `- The patient's identifiers have been replaced by placeholders such as ${PLACEHOLDERS.name} and ${PLACEHOLDERS.district}. If you need one, write the placeholder exactly as it is; never guess the real value.`
+    : '';
+
+// Everything the prescription request sends, with the patient's identifiers already replaced
+const buildPrescriptionRequest = (
+  identifiedPatient: PatientInfo,
+  description: string,
+  selectedTreatments: string[],
+  files: FilePart[],
+  context: GenerationContext
+): JsonRequest<'prescription'> => {
+  const deidentifier = createDeidentifier(identifiedPatient);
+  const { patientInfo } = deidentifier;
+  const illnessDescription = deidentifier.text(description);
+  const { language } = patientInfo;
+  const hasFiles = files.length > 0;
+  const previousConsultations = context.previousConsultations ?? [];
+  const labResults = context.labResults ?? [];
+  const labTrends = deidentifier.text(describeLabTrends(buildLabSeries(previousConsultations, labResults)));
+  const weight = parseWeight(patientInfo);
 
+  // Each selected modality brings its own formatting and content rules from the registry
+  const registry = loadModalities();
+  const modalityRules = selectedTreatments
+    .map(id => findModality(registry, id))
+    .filter((modality): modality is NonNullable<typeof modality> => !!modality)
+    .map(describeModalityRules);
 
   const prompt = `
     You are an expert AI medical advisor. Your task is to provide concise, safe, and professional recommendations.
 
     **PRIMARY LANGUAGE RULE:**
     - You MUST generate the ENTIRE response in **${language}**. This includes all headings, titles, medical terms, treatment plans, analysis, and advice. Translate everything accurately and naturally.
+    - The only exceptions are the 'treatment' field of each treatment plan, which MUST be copied exactly from the list of selected methodologies, and the 'name' of each medication.
+    - Write every medication 'name' in Latin script: the generic (INN) name for a medicine (e.g., "Paracetamol", not a brand or a translation), or the English or common romanised name for a herbal remedy (e.g., "Ginger", "Kalonji"). A local name can go in 'notes'. The safety checks only recognise these names.
+    ${describePlaceholders(deidentifier)}
 
     **FORMATTING RULES:**
-    - For **Allopathy (Specialist Doctors)**, act as a board-certified specialist for the specific condition. Prescribe a comprehensive, high-quality, and modern treatment plan. Include primary medications, any necessary supportive therapies (e.g., vitamins, antacids), and suggest relevant diagnostic tests if needed. Use the format: \`Medicine Name, Dosage (e.g., 500mg, 1+1+1), Duration (e.g., 5 days)\`. List each item on a new bullet point (*). Ensure the prescription is evidence-based and professional.
-    - For **Homeopathy**, use this format: \`Medicine Name Potency, Dosage (e.g., 5+5+5 drops), Duration (e.g., 7 days)\`. New bullet point (*) per medicine. No paragraphs.
-    - For **Hikmat**, use simple bullet points with brief descriptions.
-    ${religiousRules.join('\n            ')}
+    - Return one entry in 'treatments' for each selected methodology, with a translated 'heading' (e.g., "Homeopathy Prescription").
+    - Every medicine goes in 'medications' as its own item. Put the potency or strength in 'strength', the dosage pattern in 'dosage', the course length in 'duration', the route of administration in 'route' and whether it is taken before, with or after meals in 'food'. Leave a field as an empty string if it does not apply. Never put medicines in 'instructions'.
+    ${modalityRules.join('\n    ')}
+    - Give every plan an 'overview' so the patient can compare the options: 'expectedDuration' until the patient should feel better, 'costTier' as the approximate cost of the whole plan in the patient's district ('low', 'moderate' or 'high'), an honest 'evidenceLevel' for this methodology and this condition ('strong' or 'moderate' only when backed by clinical trials, 'limited' when there are only small, early or inconclusive studies, 'traditional' when it rests on tradition or faith alone), and short 'cautions' such as side effects, who should avoid it, or when to stop and see a doctor.
+
+    **PATIENT SAFETY RULES:**
+    - Never prescribe anything the patient is allergic to, or anything that cross-reacts with a listed allergy.
+    - Check every medicine against the patient's current medications and chronic conditions, and avoid harmful combinations.
+    - If the patient is pregnant or breastfeeding, only prescribe medicines considered safe for that status.
+    ${isPediatric(patientInfo) ?
+      (weight !== null ?
+        `- The patient is a child weighing ${weight} kg. Calculate every Allopathy dose by body weight (mg/kg), never exceed the adult maximum, prefer pediatric formulations (syrups in ml, e.g. 250mg/5ml with dosage 5ml+5ml+5ml), and state the mg/kg basis in 'notes'.` :
+        `- The patient is a child but no weight was given. Use conservative age-based pediatric doses and pediatric formulations, and advise weighing the child for exact dosing.`) : ''}
 
     **Patient Information:**
     - Name: ${patientInfo.name}
@@ -53,8 +247,33 @@ export const generatePrescription = async (
     - Religion: ${patientInfo.religion}
     - Preferred Language: ${language}
     ${patientInfo.cell ? `- Cell: ${patientInfo.cell}` : ''}
+    ${describeClinicalProfile(patientInfo).join('\n    ')}
 
-    ${hasFiles ?
+    ${context.urgency === 'urgent' ?
+      `**Triage:** The symptoms were triaged as URGENT. The advice MUST tell the patient to see a doctor in person within 24 hours, and list the warning signs that mean they should go to an emergency department immediately.` : ''}
+    ${context.urgency === 'emergency' ?
+      `**Triage:** The symptoms were triaged as an EMERGENCY and a clinician chose to continue. The first advice item MUST tell the patient to get emergency care now; the plan is only supportive until then.` : ''}
+
+    ${previousConsultations.length > 0 ?
+      `**Previous Consultations (follow-up visit, newest first):**
+    ${deidentifier.text(describePreviousConsultations(previousConsultations))}
+    Take the earlier diagnoses and prescriptions into account. If the complaint persists, adjust the plan instead of repeating it unchanged.` : ''}
+
+    ${labResults.length > 0 ?
+      `**Lab Results (read from the attached reports and checked by clinic staff):**
+    ${deidentifier.text(describeLabResults(labResults))}
+    These values were verified by a person. Where they differ from your own reading of the attachments, use these.` : ''}
+
+    ${labTrends ?
+      `**Lab Trends (oldest to newest, in common units):**
+    ${labTrends}
+    Base the plan on this trajectory, not only the latest values. Say in the advice whether key values are improving or worsening, and escalate care or monitoring when a value keeps moving away from its range.` : ''}
+
+    ${context.symptomSummary ?
+      `**Structured Symptom Summary (answered through a guided questionnaire):**
+    ${describeSymptomSummary(context.symptomSummary, createTranslator('English')).map(line => `- ${deidentifier.text(line)}`).join('\n    ')}
+    Use the duration, severity and onset to judge how acute the illness is, and do not repeat anything already tried without saying why.` :
+      hasFiles ?
       `**User Comments on Reports:**
       "${illnessDescription}"` :
       `**Illness Description:**
@@ -66,62 +285,406 @@ export const generatePrescription = async (
       **Task:**
       Based on the provided information and reports, perform these tasks in ${language}:
       1.  **Create Illness Title:** Create a short title for the issue (max 5 words).
-      2.  **Analyze Reports:** Create a level 2 heading "Report Analysis Summary" (translated to ${language}). List **ONLY abnormal findings** in bullet points. Do not mention normal results.
+      2.  **Analyze Reports:** Fill 'reportAnalysis' with the heading "Report Analysis Summary" (translated to ${language}). List **ONLY abnormal findings**, one per item. Do not mention normal results.
       3.  **Provide Treatment Opinion:** Provide plans for the selected methodologies: **${selectedTreatments.join(', ')}**. Base these on report findings and user comments, following all rules.
-      4.  **Provide General Advice:** Create a final section with a level 2 heading "General Advice" (translated to ${language}). Provide a bulleted list of health advice and precautions.
-
-      **Response Structure:**
-      - The 'prescriptionContent' value MUST start with the 'Report Analysis Summary' section.
-      - The 'advice' value MUST contain the 'General Advice' section.
+      4.  **Suggest Diagnostic Tests:** If further tests are needed, fill 'diagnosticTests' with a translated heading.
+      5.  **Provide General Advice:** Fill 'advice' with the heading "General Advice" (translated to ${language}) and a list of health advice and precautions.
       ` :
       `
       **Task:**
       Based on the provided information, perform these tasks in ${language}:
       1.  **Create Illness Title:** Create a short title for the illness (max 4 words).
       2.  **Provide Treatment Plans:** Provide plans for the selected methodologies: **${selectedTreatments.join(', ')}**. Follow all rules.
-      3.  **Provide General Advice:** Create a final section with a level 2 heading "General Advice" (translated to ${language}). Provide a bulleted list of health advice and precautions.
-
-      **Response Structure:**
-      - The 'prescriptionContent' value MUST contain a level 2 heading for each treatment type (e.g., "Homeopathy Prescription"), translated to ${language}.
-      - The 'advice' value MUST contain the 'General Advice' section.
+      3.  **Suggest Diagnostic Tests:** If tests are needed, fill 'diagnosticTests' with a translated heading.
+      4.  **Provide General Advice:** Fill 'advice' with the heading "General Advice" (translated to ${language}) and a list of health advice and precautions.
       `
     }
     `;
 
+  return {
+    task: 'prescription',
+    input: { patientInfo, selectedTreatments, hasFiles },
+    prompt,
+    files,
+    schema: buildPrescriptionSchema(selectedTreatments),
+  };
+};
+
+// How many times the model is asked to fix a response that broke the prompt's rules
+const MAX_CORRECTIONS = 2;
+
+// The original prompt again, with the broken rules and the previous answer to fix
+const buildCorrectionPrompt = (prompt: string, issues: string[], previous: PrescriptionData | null): string => `${prompt}
+    **CORRECTIONS:**
+    Your previous response broke these rules:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+    ${previous ? `Previous response:\n    ${JSON.stringify(previous)}` : ''}
+    Return the complete response again with these problems fixed, keeping everything that was already correct.
+    `;
+
+export const generatePrescription = async (
+  patientInfo: PatientInfo,
+  illnessDescription: string,
+  selectedTreatments: string[],
+  files: FilePart[],
+  context: GenerationContext = {},
+  options: GenerationOptions = {}
+): Promise<PrescriptionData> => {
+  const request = buildPrescriptionRequest(patientInfo, illnessDescription, selectedTreatments, files, context);
+  const { signal, onPartial, timeoutMs = GENERATION_TIMEOUT_MS } = options;
+  const provider = getProvider();
+  const rules: PrescriptionRules = {
+    selectedTreatments,
+    modalities: loadModalities(),
+    language: patientInfo.language,
+    // The mock cannot translate, so its English would never pass
+    checkLanguage: provider.id !== 'mock',
+  };
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
+
   try {
-    const textPart = { text: prompt };
-    const contentParts: Part[] = [textPart, ...files];
-
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: contentParts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                illnessTitle: {
-                    type: Type.STRING,
-                    description: "A short, concise title for the illness or report finding, written in the requested language."
-                },
-                prescriptionContent: {
-                    type: Type.STRING,
-                    description: "The detailed prescription content in Markdown, including analysis and treatments, written in the requested language."
-                },
-                advice: {
-                    type: Type.STRING,
-                    description: "A bulleted list of general advice in Markdown with a translated 'General Advice' heading, written in the requested language."
-                }
-            },
-            required: ["illnessTitle", "prescriptionContent", "advice"]
-        }
-      }
-    });
+    let prompt = request.prompt;
+    for (let attempt = 0; ; attempt++) {
+      const responseText = await provider.generateJson({ ...request, prompt }, {
+        signal: controller.signal,
+        onText: onPartial && (text => {
+          const partial = toPartialPrescription(parsePartialJson(text));
+          if (partial) onPartial(partial);
+        }),
+      });
 
-    // The response text is a JSON string, so we parse it.
-    return JSON.parse(response.text);
+      let result: PrescriptionData | null = null;
+      let issues: string[];
+      try {
+        result = parsePrescription(responseText, selectedTreatments);
+        issues = validatePrescription(result, rules);
+      } catch {
+        issues = ['The response was not a valid JSON object matching the schema.'];
+      }
+      if (issues.length === 0) return result!;
+      if (attempt >= MAX_CORRECTIONS) {
+        throw providerError('InvalidOutput', { cause: new Error(issues.join(' ')) });
+      }
+      console.error("Prescription broke the prompt's rules, asking for a correction:", issues);
+      prompt = buildCorrectionPrompt(request.prompt, issues, result);
+    }
   } catch (error) {
+    if (signal?.aborted) throw new Error("Generation was cancelled.");
+    if (timedOut) {
+      const message = `The AI did not finish within ${Math.round(timeoutMs / 1000)} seconds. Please try again, or upload fewer or smaller reports.`;
+      throw Object.assign(new Error(message), { name: 'TimeoutError' });
+    }
     console.error("Error generating prescription:", error);
+    // Named errors say what went wrong (quota, safety block, network, unusable output); anything else stays generic
+    if (isProviderError(error)) throw error;
     throw new Error("Failed to get a response from the AI. Please try again.");
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+const triageSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    urgency: { type: Type.STRING, enum: ['emergency', 'urgent', 'routine'], format: "enum" },
+    reasons: {
+      type: Type.ARRAY,
+      description: "Short reasons for the classification, in English.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["urgency", "reasons"],
+};
+
+const buildTriageRequest = (identifiedPatient: PatientInfo, identifiedDescription: string): JsonRequest<'triage'> => {
+  const deidentifier = createDeidentifier(identifiedPatient);
+  const { patientInfo } = deidentifier;
+  const description = deidentifier.text(identifiedDescription);
+  const prompt = `
+    You are an experienced emergency triage nurse. Classify how urgently this patient needs in-person care.
+    The description may be written in any language.
+
+    - "emergency": possibly life-threatening right now (e.g., heart attack or stroke signs, severe bleeding, severe breathing difficulty, suicidal intent, loss of consciousness, anaphylaxis). The patient must seek emergency care immediately.
+    - "urgent": needs a doctor within 24 hours but is not immediately life-threatening.
+    - "routine": can be managed with a normal consultation.
+
+    When in doubt between two levels, choose the more urgent one.
+
+    **Patient:**
+    - Age: ${patientInfo.age}
+    ${describeClinicalProfile(patientInfo).join('\n    ')}
+
+    **Description:**
+    "${description}"
+    `;
+
+  return { task: 'triage', input: { patientInfo, description }, prompt, files: [], schema: triageSchema };
+};
+
+export const classifyUrgency = async (
+  patientInfo: PatientInfo,
+  description: string
+): Promise<{ urgency: UrgencyLevel; reasons: string[] }> => {
+  const responseText = await getProvider().generateJson(buildTriageRequest(patientInfo, description));
+  return JSON.parse(responseText);
+};
+
+// Local red-flag rules first, then the model's opinion. The stricter of the two wins,
+// and an unreachable model never blocks the local screen.
+export const runTriage = async (patientInfo: PatientInfo, description: string): Promise<TriageResult> => {
+  const localFlags = detectRedFlags(description, patientInfo);
+  if (!description.trim()) return combineTriage(localFlags);
+  try {
+    return combineTriage(localFlags, await classifyUrgency(patientInfo, description));
+  } catch (error) {
+    console.error("Error classifying urgency:", error);
+    return combineTriage(localFlags);
+  }
+};
+
+// Exactly what a consultation sends, in order, for the privacy preview. The triage line in the
+// prescription prompt follows `context.urgency`, which is only settled once the triage has run.
+export const previewConsultationRequests = (
+  patientInfo: PatientInfo,
+  description: string,
+  selectedTreatments: string[],
+  files: FilePart[],
+  context: GenerationContext = {}
+): JsonRequest[] => [
+  ...(description.trim() ? [buildTriageRequest(patientInfo, description)] : []),
+  buildPrescriptionRequest(patientInfo, description, selectedTreatments, files, context),
+];
+
+const translationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      description: "The translated texts, in the same order as the input.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["translations"],
+};
+
+export const translateTexts = async (texts: string[], language: string): Promise<string[]> => {
+  const prompt = `
+    Translate each of the following texts into ${language}. Use the script native to ${language} (for Urdu, use Urdu script).
+    Keep the meaning exact and the tone formal; this text is printed on medical prescriptions.
+    Return exactly ${texts.length} translation(s), in the same order.
+
+    ${texts.map((text, i) => `${i + 1}. "${text}"`).join('\n    ')}
+    `;
+
+  const responseText = await getProvider().generateJson({
+    task: 'translation',
+    input: { texts, language },
+    prompt,
+    files: [],
+    schema: translationSchema,
+  });
+  const { translations } = JSON.parse(responseText);
+  if (!Array.isArray(translations) || translations.length !== texts.length) {
+    throw new Error("The translation did not match the requested texts.");
+  }
+  return translations;
+};
+
+const LAB_FLAGS: LabFlag[] = ['normal', 'low', 'high', 'critical'];
+
+const labExtractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      description: "Every test result printed on the report, in the order they appear.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          test: { type: Type.STRING, description: "Test name as printed, e.g. 'Haemoglobin'." },
+          value: { type: Type.STRING, description: "The result exactly as printed, e.g. '11.2' or 'Negative'." },
+          unit: { type: Type.STRING, description: "Unit as printed, e.g. 'g/dL'. Empty if none." },
+          referenceRange: { type: Type.STRING, description: "Reference range as printed, e.g. '12-16'. Empty if none." },
+          flag: { type: Type.STRING, enum: LAB_FLAGS, format: "enum" },
+          reportDate: { type: Type.STRING, description: "Date the sample was taken or reported, as YYYY-MM-DD. Empty if not shown." },
+        },
+        required: ["test", "value", "unit", "referenceRange", "flag", "reportDate"],
+      },
+    },
+  },
+  required: ["results"],
+};
+
+// Reads one report at a time so every row can be traced back to its file
+const extractReport = async (file: FilePart, fileName: string): Promise<LabResult[]> => {
+  const prompt = `
+    You are a medical laboratory technologist. Read the attached lab report and transcribe every test result into 'results'.
+
+    **RULES:**
+    - Copy test names, values, units and reference ranges exactly as printed. Do not convert units or round values.
+    - 'flag' is "low" or "high" when the value is outside the reference range, "critical" when the report marks it as critical or panic, and "normal" otherwise.
+    - Keep the report's own language for names; do not translate.
+    - If the file is not a lab report, return an empty list.
+    `;
+
+  const responseText = await getProvider().generateJson({
+    task: 'labExtraction',
+    input: { fileName },
+    prompt,
+    files: [file],
+    schema: labExtractionSchema,
+  });
+  const { results } = JSON.parse(responseText) as { results: Omit<LabResult, 'source'>[] };
+  // The local range check wins over the model's reading of the flag when the numbers can be read
+  return results.map(result => ({ ...result, flag: flagLabResult({ ...result, source: fileName }) ?? result.flag, source: fileName }));
+};
+
+export const extractLabResults = async (files: FilePart[], fileNames: string[]): Promise<LabResult[]> => {
+  try {
+    const perReport = await Promise.all(files.map((file, i) => extractReport(file, fileNames[i])));
+    return perReport.flat();
+  } catch (error) {
+    console.error("Error extracting lab results:", error);
+    if (isProviderError(error)) throw error;
+    throw new Error("Could not read the lab reports. Please try again, or enter the results by hand.");
+  }
+};
+
+const transcriptionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    transcript: { type: Type.STRING, description: "Everything the patient said, word for word, in the language they spoke." },
+    symptoms: {
+      type: Type.ARRAY,
+      description: "Each symptom mentioned, as a short phrase with its duration or severity if given.",
+      items: { type: Type.STRING },
+    },
+  },
+  required: ["transcript", "symptoms"],
+};
+
+export interface SymptomTranscript {
+  transcript: string;
+  symptoms: string[];
+}
+
+// Turns a spoken complaint into text the patient can check before it goes into the form
+export const transcribeSymptoms = async (audio: FilePart, language: string): Promise<SymptomTranscript> => {
+  const prompt = `
+    You are a medical scribe. The attached recording is a patient describing their symptoms, most likely in ${language}.
+
+    **RULES:**
+    - 'transcript' is what the patient said, word for word, in the language and script they spoke (for Urdu, use Urdu script). Do not translate, summarise or correct it.
+    - Leave out filler words and long pauses, but keep every medical detail (durations, body parts, medicines taken, numbers).
+    - 'symptoms' lists each symptom mentioned as a short phrase in the same language, with its duration or severity if the patient gave one.
+    - If the recording is silent or has no speech, return an empty transcript and an empty list.
+    `;
+
+  try {
+    const responseText = await getProvider().generateJson({
+      task: 'transcription',
+      input: { language },
+      prompt,
+      files: [audio],
+      schema: transcriptionSchema,
+    });
+    return JSON.parse(responseText) as SymptomTranscript;
+  } catch (error) {
+    console.error("Error transcribing symptoms:", error);
+    if (isProviderError(error)) throw error;
+    throw new Error("Could not understand the recording. Please try again, or type the symptoms instead.");
+  }
+};
+
+// A compact, language-neutral outline of the plan the patient is asking about
+const describePlan = (prescription: PrescriptionData): string => {
+  const lines = [`Condition: ${prescription.illnessTitle}`];
+  prescription.reportAnalysis?.findings.forEach(finding =>
+    lines.push(`Report finding: ${finding.test}: ${finding.result}${finding.interpretation ? ` (${finding.interpretation})` : ''}`));
+  prescription.treatments.forEach(section => {
+    lines.push(`${section.heading} (${section.treatment}):`);
+    section.medications.filter(item => !item.struck).forEach(item =>
+      lines.push(`  - ${[item.name, item.strength, item.dosage, item.duration, item.route, item.notes].filter(Boolean).join(', ')}`));
+    section.instructions.forEach(line => lines.push(`  - ${line}`));
+  });
+  prescription.diagnosticTests?.tests.forEach(test => lines.push(`Suggested test: ${test.name}`));
+  prescription.advice.items.forEach(item => lines.push(`Advice: ${item}`));
+  return lines.join('\n    ');
+};
+
+const chatSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING, description: "The reply to the patient's question." },
+  },
+  required: ["answer"],
+};
+
+export interface FollowUpContext {
+  patientInfo: PatientInfo;
+  description: string;
+  prescription: PrescriptionData;
+  files: FilePart[];
+}
+
+export const askFollowUp = async (
+  { patientInfo: identifiedPatient, description, prescription, files }: FollowUpContext,
+  history: ChatMessage[],
+  question: string
+): Promise<string> => {
+  // Edits made on this device may have put the real identifiers back into the plan
+  const deidentifier = createDeidentifier(identifiedPatient);
+  const { patientInfo } = deidentifier;
+  const { language } = patientInfo;
+  const prompt = `
+    You are the AI medical advisor who wrote the prescription below. The patient has a follow-up question about it.
+
+    **RULES:**
+    - Answer ONLY in **${language}**, in plain words the patient can follow. Keep it short (at most 6 sentences).
+    - Stay consistent with the prescription and the patient's details. Do not prescribe new medicines; if the plan needs to change, tell the patient to see their doctor.
+    - If the question describes warning signs (e.g., chest pain, trouble breathing, confusion, heavy bleeding, a very high or persistent fever), tell the patient to seek in-person care immediately.
+    - If the question is not about this illness or prescription, politely say you can only help with this consultation.
+    ${describePlaceholders(deidentifier)}
+
+    **Patient Information:**
+    - Age: ${patientInfo.age}
+    - District: ${patientInfo.district}
+    ${describeClinicalProfile(patientInfo).join('\n    ')}
+
+    **Original Complaint:**
+    "${deidentifier.text(description)}"
+    ${files.length > 0 ? `The patient's ${files.length} uploaded report(s) are attached.` : ''}
+
+    **Prescription:**
+    ${deidentifier.text(describePlan(prescription))}
+
+    **Conversation So Far:**
+    ${history.length > 0 ? history.map(message => `${message.role === 'patient' ? 'Patient' : 'You'}: ${deidentifier.text(message.text)}`).join('\n    ') : '(none)'}
+
+    **Patient's Question:**
+    "${deidentifier.text(question)}"
+    `;
+
+  try {
+    const responseText = await getProvider().generateJson({
+      task: 'chat',
+      input: { patientInfo, history, question: deidentifier.text(question) },
+      prompt,
+      files,
+      schema: chatSchema,
+    });
+    return JSON.parse(responseText).answer;
+  } catch (error) {
+    console.error("Error answering follow-up question:", error);
+    if (isProviderError(error)) throw error;
+    throw new Error("Could not get an answer. Please try again.");
   }
-};
\ No newline at end of file
+};
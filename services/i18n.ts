@@ -0,0 +1,91 @@
+import React, { useContext } from 'react';
+import { MessageKey, Messages, en } from './locales/en';
+import { ar } from './locales/ar';
+import { bn } from './locales/bn';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { hi } from './locales/hi';
+import { pt } from './locales/pt';
+import { ru } from './locales/ru';
+import { ur } from './locales/ur';
+import { zh } from './locales/zh';
+
+export type { MessageKey } from './locales/en';
+
+export interface LanguageInfo {
+  language: string;   // English name, as stored on PatientInfo and sent to the model
+  locale: string;     // BCP 47 tag used for date formatting
+  nativeName: string;
+  rtl?: boolean;
+}
+
+export const SUPPORTED_LANGUAGES: LanguageInfo[] = [
+  { language: 'English', locale: 'en', nativeName: 'English' },
+  { language: 'Mandarin Chinese', locale: 'zh-CN', nativeName: '中文' },
+  { language: 'Hindi', locale: 'hi-IN', nativeName: 'हिन्दी' },
+  { language: 'Spanish', locale: 'es-ES', nativeName: 'Español' },
+  { language: 'French', locale: 'fr-FR', nativeName: 'Français' },
+  { language: 'Arabic', locale: 'ar', nativeName: 'العربية', rtl: true },
+  { language: 'Bengali', locale: 'bn-BD', nativeName: 'বাংলা' },
+  { language: 'Portuguese', locale: 'pt-BR', nativeName: 'Português' },
+  { language: 'Russian', locale: 'ru-RU', nativeName: 'Русский' },
+  { language: 'Urdu', locale: 'ur-PK', nativeName: 'اردو', rtl: true },
+];
+
+const CATALOGS: Record<string, Messages> = {
+  English: en,
+  'Mandarin Chinese': zh,
+  Hindi: hi,
+  Spanish: es,
+  French: fr,
+  Arabic: ar,
+  Bengali: bn,
+  Portuguese: pt,
+  Russian: ru,
+  Urdu: ur,
+};
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+const getLanguageInfo = (language: string): LanguageInfo =>
+  SUPPORTED_LANGUAGES.find(info => info.language === language) ?? SUPPORTED_LANGUAGES[0];
+
+export const isSupportedLanguage = (language: string): boolean =>
+  SUPPORTED_LANGUAGES.some(info => info.language === language);
+
+export const isRtlLanguage = (language: string): boolean => Boolean(getLanguageInfo(language).rtl);
+
+export const getLocale = (language: string): string => getLanguageInfo(language).locale;
+
+// Unknown languages and missing keys fall back to English
+export const createTranslator = (language: string): Translate => {
+  const messages = CATALOGS[language] ?? en;
+  return (key, params) => {
+    const template = messages[key] ?? en[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  };
+};
+
+export const formatDate = (date: Date | string | number, language: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string =>
+  new Date(date).toLocaleDateString(getLocale(language), options);
+
+// --- React binding ---
+
+export interface I18n {
+  language: string;
+  locale: string;
+  dir: 'ltr' | 'rtl';
+  t: Translate;
+}
+
+export const createI18n = (language: string): I18n => ({
+  language,
+  locale: getLocale(language),
+  dir: isRtlLanguage(language) ? 'rtl' : 'ltr',
+  t: createTranslator(language),
+});
+
+export const I18nContext = React.createContext<I18n>(createI18n('English'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
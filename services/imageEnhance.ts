@@ -0,0 +1,215 @@
+import { ImageAdjustments } from '../types';
+
+// Cleans up phone photos of reports before they are sent to the model: EXIF rotation, cropping to
+// the page, straightening, contrast and downsizing. Everything runs on a canvas in the browser.
+
+export interface EnhancedImage {
+  blob: Blob;
+  adjustments: ImageAdjustments;
+}
+
+// Long enough edge for small print to stay readable to the model
+const MAX_DIMENSION = 2000;
+const JPEG_QUALITY = 0.85;
+// Page detection and skew estimation work on a small copy; the result is applied to the full image
+const ANALYSIS_SIZE = 480;
+const BACKGROUND_THRESHOLD = 48;
+const MIN_CONTENT_RATIO = 0.02;
+const CROP_MARGIN = 0.02;
+const MAX_SKEW_DEGREES = 8;
+const MIN_SKEW_DEGREES = 0.3;
+const MAX_INK_SAMPLES = 40_000;
+// A photo that already spans most of this range is left as it is
+const MIN_CONTRAST_RANGE = 200;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+const toGray = (canvas: HTMLCanvasElement): Float32Array => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) gray[i] = luminance(data, i * 4);
+  return gray;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+// The page is whatever differs from the colour along the photo's edges (usually a table or a scanner lid)
+const findContentBox = (gray: Float32Array, width: number, height: number): Box | null => {
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(gray[x], gray[(height - 1) * width + x]);
+  for (let y = 0; y < height; y++) border.push(gray[y * width], gray[y * width + width - 1]);
+  const background = median(border);
+
+  const rows = new Array<number>(height).fill(0);
+  const cols = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (Math.abs(gray[y * width + x] - background) > BACKGROUND_THRESHOLD) {
+        rows[y]++;
+        cols[x]++;
+      }
+    }
+  }
+  const first = (counts: number[], size: number) => counts.findIndex(count => count > size * MIN_CONTENT_RATIO);
+  const last = (counts: number[], size: number) => counts.length - 1 - [...counts].reverse().findIndex(count => count > size * MIN_CONTENT_RATIO);
+  const top = first(rows, width);
+  const left = first(cols, height);
+  if (top < 0 || left < 0) return null;
+  const bottom = last(rows, width);
+  const right = last(cols, height);
+
+  const marginX = width * CROP_MARGIN;
+  const marginY = height * CROP_MARGIN;
+  const box = {
+    x: Math.max(0, left - marginX),
+    y: Math.max(0, top - marginY),
+    width: Math.min(width, right + 1 + marginX) - Math.max(0, left - marginX),
+    height: Math.min(height, bottom + 1 + marginY) - Math.max(0, top - marginY),
+  };
+  // Tiny boxes are more likely a stray mark than the page; nearly full ones are not worth cropping
+  const areaRatio = (box.width * box.height) / (width * height);
+  return areaRatio > 0.2 && areaRatio < 0.95 ? box : null;
+};
+
+// Projection profile: text lines give the sharpest row histogram when the angle matches the skew
+const estimateSkew = (gray: Float32Array, width: number, height: number, box: Box): number => {
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.floor(box.y); y < box.y + box.height; y++) {
+    for (let x = Math.floor(box.x); x < box.x + box.width; x++) {
+      sum += gray[y * width + x];
+      count++;
+    }
+  }
+  const threshold = (sum / Math.max(count, 1)) * 0.75;
+  const ink: [number, number][] = [];
+  for (let y = Math.floor(box.y); y < box.y + box.height; y++) {
+    for (let x = Math.floor(box.x); x < box.x + box.width; x++) {
+      if (gray[y * width + x] < threshold) ink.push([x - box.x - box.width / 2, y - box.y - box.height / 2]);
+    }
+  }
+  if (ink.length < 200) return 0;
+  const stride = Math.ceil(ink.length / MAX_INK_SAMPLES);
+  const samples = stride > 1 ? ink.filter((_, i) => i % stride === 0) : ink;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const score = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Float32Array(diagonal * 2);
+    for (const [x, y] of samples) bins[Math.round(y * cos - x * sin) + diagonal]++;
+    let total = 0;
+    for (const value of bins) total += value * value;
+    return total;
+  };
+  const search = (from: number, to: number, step: number) => {
+    let best = from;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const value = score(degrees);
+      if (value > bestScore) {
+        best = degrees;
+        bestScore = value;
+      }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  const fine = search(coarse - 0.5, coarse + 0.5, 0.1);
+  return Math.abs(fine) < MIN_SKEW_DEGREES ? 0 : Math.round(fine * 10) / 10;
+};
+
+// Stretches the 1st-99th percentile of brightness to the full range, which lifts dim photos
+const stretchContrast = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+  const pixels = data.length / 4;
+  const percentile = (ratio: number) => {
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= pixels * ratio) return level;
+    }
+    return 255;
+  };
+  const low = percentile(0.01);
+  const high = percentile(0.99);
+  if (high - low >= MIN_CONTRAST_RANGE || high <= low) return false;
+  const factor = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * factor;
+    data[i + 1] = (data[i + 1] - low) * factor;
+    data[i + 2] = (data[i + 2] - low) * factor;
+  }
+  ctx.putImageData(image, 0, 0);
+  return true;
+};
+
+// Decodes with the EXIF orientation applied, so sideways phone photos come out upright
+export const decodeImage = (blob: Blob): Promise<ImageBitmap> => createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+export const enhanceImage = async (blob: Blob): Promise<EnhancedImage> => {
+  const bitmap = await decodeImage(blob);
+  try {
+    const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+    const small = createCanvas(bitmap.width * analysisScale, bitmap.height * analysisScale);
+    small.getContext('2d')!.drawImage(bitmap, 0, 0, small.width, small.height);
+    const gray = toGray(small);
+
+    const contentBox = findContentBox(gray, small.width, small.height);
+    const analysisBox = contentBox ?? { x: 0, y: 0, width: small.width, height: small.height };
+    const deskewDegrees = estimateSkew(gray, small.width, small.height, analysisBox);
+
+    // Back to full-resolution coordinates
+    const ratioX = bitmap.width / small.width;
+    const ratioY = bitmap.height / small.height;
+    const source = {
+      x: analysisBox.x * ratioX,
+      y: analysisBox.y * ratioY,
+      width: analysisBox.width * ratioX,
+      height: analysisBox.height * ratioY,
+    };
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(source.width, source.height));
+    const output = createCanvas(source.width * scale, source.height * scale);
+    const ctx = output.getContext('2d')!;
+    // Corners uncovered by the rotation are filled with white rather than left transparent (black in a JPEG)
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(output.width / 2, output.height / 2);
+    ctx.rotate((-deskewDegrees * Math.PI) / 180);
+    ctx.drawImage(bitmap, source.x, source.y, source.width, source.height, -output.width / 2, -output.height / 2, output.width, output.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    const contrastBoosted = stretchContrast(output);
+    const result = await new Promise<Blob | null>(resolve => output.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!result) throw new Error('The image could not be encoded.');
+    return {
+      blob: result,
+      adjustments: { cropped: contentBox !== null, deskewDegrees, contrastBoosted, scale: Math.round(scale * 100) / 100 },
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,128 @@
+import { PatientInfo, RedactionBox } from '../types';
+import { decodeImage } from './imageEnhance';
+import { createDeidentifier } from './deidentify';
+import { DEFAULT_PRIVACY_SETTINGS } from './settings';
+
+// Blacks out areas of report photos before they leave the device, and suggests the areas to black out
+// by reading the photo with OCR in the browser. Only the OCR engine and its English model are
+// downloaded (once, then cached); the photo itself is never uploaded for this.
+
+const JPEG_QUALITY = 0.9;
+// Added around suggested boxes so the edges of the letters are covered too, as a fraction of the photo
+const SUGGESTION_PADDING = 0.004;
+
+// Field labels on lab reports whose values identify the patient
+const IDENTIFYING_LABEL = /^(?:(?:patient(?:'s)?|pt\.?)\s*(?:name|id)|name|father(?:'s)?\s*name|husband(?:'s)?\s*name|guardian|s\/o|d\/o|w\/o|address|cell|mobile|phone|contact(?:\s*no)?|mr\s*no|mrn|m\.r\.?\s*no|cnic|reg(?:istration)?\s*no|lab\s*no|ref(?:erred)?\s*by)$/i;
+
+interface OcrWord {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+const toCanvas = async (blob: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await decodeImage(blob);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    return canvas;
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const applyRedactions = async (blob: Blob, boxes: RedactionBox[]): Promise<Blob> => {
+  if (boxes.length === 0) return blob;
+  const canvas = await toCanvas(blob);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000';
+  boxes.forEach(box => ctx.fillRect(
+    Math.floor(box.x * canvas.width),
+    Math.floor(box.y * canvas.height),
+    Math.ceil(box.width * canvas.width),
+    Math.ceil(box.height * canvas.height),
+  ));
+  const result = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  if (!result) throw new Error('The image could not be encoded.');
+  return result;
+};
+
+const isLabelFor = (words: string[], end: number) => {
+  for (let start = Math.max(0, end - 2); start <= end; start++) {
+    const label = words.slice(start, end + 1).join(' ').replace(/\s*:$/, '');
+    if (IDENTIFYING_LABEL.test(label)) return true;
+  }
+  return false;
+};
+
+// Words to hide on one line: the values after identifying labels (up to the next label), and
+// anything that matches the patient's details or looks like a phone, ID or record number
+const redactedWords = (words: OcrWord[], matchesIdentifier: (text: string) => boolean): boolean[] => {
+  const texts = words.map(word => word.text.trim());
+  const hidden = texts.map(() => false);
+  let inValue = false;
+  texts.forEach((text, index) => {
+    const inlineLabel = text.match(/^(.+?):(.+)$/);
+    if (text.endsWith(':')) {
+      inValue = isLabelFor(texts, index);
+    } else if (inlineLabel) {
+      inValue = IDENTIFYING_LABEL.test(inlineLabel[1]);
+      hidden[index] = inValue;
+    } else {
+      hidden[index] = inValue || matchesIdentifier(text);
+    }
+  });
+  // Numbers split across words ("0300 1234567") only match as a whole
+  for (let index = 0; index < texts.length - 1; index++) {
+    if (matchesIdentifier(`${texts[index]} ${texts[index + 1]}`) && !matchesIdentifier(texts[index]) && !matchesIdentifier(texts[index + 1])) {
+      hidden[index] = hidden[index + 1] = true;
+    }
+  }
+  return hidden;
+};
+
+// Neighbouring hidden words on a line become one box
+const mergeLine = (words: OcrWord[], hidden: boolean[], width: number, height: number): RedactionBox[] => {
+  const boxes: RedactionBox[] = [];
+  let run: OcrWord['bbox'] | null = null;
+  const close = () => {
+    if (!run) return;
+    const x = Math.max(0, run.x0 / width - SUGGESTION_PADDING);
+    const y = Math.max(0, run.y0 / height - SUGGESTION_PADDING);
+    boxes.push({
+      x,
+      y,
+      width: Math.min(1, run.x1 / width + SUGGESTION_PADDING) - x,
+      height: Math.min(1, run.y1 / height + SUGGESTION_PADDING) - y,
+    });
+    run = null;
+  };
+  words.forEach((word, index) => {
+    if (!hidden[index]) return close();
+    const { x0, y0, x1, y1 } = word.bbox;
+    run = run
+      ? { x0: Math.min(run.x0, x0), y0: Math.min(run.y0, y0), x1: Math.max(run.x1, x1), y1: Math.max(run.y1, y1) }
+      : { x0, y0, x1, y1 };
+  });
+  close();
+  return boxes;
+};
+
+// Reads the photo with OCR and returns boxes over the identifying text it finds. Reports printed in
+// other scripts are read as English, so staff should still check the photo themselves.
+export const suggestRedactions = async (blob: Blob, patientInfo: PatientInfo): Promise<RedactionBox[]> => {
+  const canvas = await toCanvas(blob);
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng');
+  try {
+    const { data } = await worker.recognize(canvas, {}, { blocks: true });
+    // Every identifier is looked for here, whatever is replaced in the prompt
+    const { text } = createDeidentifier(patientInfo, DEFAULT_PRIVACY_SETTINGS);
+    const matchesIdentifier = (value: string) => value !== '' && text(value) !== value;
+    const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+    return lines.flatMap(line => mergeLine(line.words, redactedWords(line.words, matchesIdentifier), canvas.width, canvas.height));
+  } finally {
+    await worker.terminate();
+  }
+};
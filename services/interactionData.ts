@@ -0,0 +1,322 @@
+// Bundled reference data for the post-generation safety pass (see safetyCheck.ts).
+// Rules refer to a drug id or to one of its classes, so "nsaid" covers every NSAID below.
+// This is a screening aid for common primary-care medicines, not an exhaustive compendium.
+import { WarningSeverity } from '../types';
+
+export interface DrugEntry {
+  id: string;
+  names: string[]; // Generic names and common brand names, lower-case
+  classes: string[];
+}
+
+export interface InteractionRule {
+  a: string;
+  b: string;
+  severity: WarningSeverity;
+  message: string;
+}
+
+export interface HerbEntry {
+  id: string;
+  names: string[]; // English, botanical and romanised Urdu/Hindi names (e.g. 'haldi'), lower-case ASCII only
+  interactions: Omit<InteractionRule, 'a'>[];
+}
+
+export interface AgeRule {
+  target: string;
+  below?: number; // Applies to patients younger than this age (years)
+  from?: number; // Applies to patients of this age or older (years)
+  severity: WarningSeverity;
+  message: string;
+}
+
+export const DRUGS: DrugEntry[] = [
+  { id: 'paracetamol', names: ['paracetamol', 'acetaminophen', 'panadol', 'calpol', 'tylenol'], classes: ['analgesic'] },
+  { id: 'ibuprofen', names: ['ibuprofen', 'brufen', 'advil', 'nurofen'], classes: ['nsaid'] },
+  { id: 'diclofenac', names: ['diclofenac', 'voltaren', 'voltral', 'dicloran'], classes: ['nsaid'] },
+  { id: 'naproxen', names: ['naproxen', 'naprosyn', 'synflex'], classes: ['nsaid'] },
+  { id: 'mefenamic-acid', names: ['mefenamic acid', 'ponstan'], classes: ['nsaid'] },
+  { id: 'nimesulide', names: ['nimesulide', 'nims'], classes: ['nsaid'] },
+  { id: 'aspirin', names: ['aspirin', 'acetylsalicylic acid', 'disprin', 'loprin', 'ecotrin'], classes: ['nsaid', 'antiplatelet'] },
+  { id: 'clopidogrel', names: ['clopidogrel', 'plavix', 'lowplat'], classes: ['antiplatelet'] },
+  { id: 'warfarin', names: ['warfarin', 'coumadin'], classes: ['anticoagulant'] },
+  { id: 'rivaroxaban', names: ['rivaroxaban', 'xarelto'], classes: ['anticoagulant'] },
+  { id: 'metformin', names: ['metformin', 'glucophage'], classes: ['antidiabetic'] },
+  { id: 'glibenclamide', names: ['glibenclamide', 'glyburide', 'daonil'], classes: ['antidiabetic', 'sulfonylurea'] },
+  { id: 'glimepiride', names: ['glimepiride', 'amaryl', 'getryl'], classes: ['antidiabetic', 'sulfonylurea'] },
+  { id: 'insulin', names: ['insulin'], classes: ['antidiabetic'] },
+  { id: 'ciprofloxacin', names: ['ciprofloxacin', 'ciproxin', 'novidat'], classes: ['antibiotic', 'fluoroquinolone', 'qt-prolonging'] },
+  { id: 'levofloxacin', names: ['levofloxacin', 'tavanic', 'leflox'], classes: ['antibiotic', 'fluoroquinolone', 'qt-prolonging'] },
+  { id: 'moxifloxacin', names: ['moxifloxacin', 'avelox'], classes: ['antibiotic', 'fluoroquinolone', 'qt-prolonging'] },
+  { id: 'azithromycin', names: ['azithromycin', 'zithromax', 'azomax'], classes: ['antibiotic', 'macrolide', 'qt-prolonging'] },
+  { id: 'clarithromycin', names: ['clarithromycin', 'klaricid'], classes: ['antibiotic', 'macrolide', 'qt-prolonging', 'cyp3a4-inhibitor'] },
+  { id: 'erythromycin', names: ['erythromycin', 'erythrocin'], classes: ['antibiotic', 'macrolide', 'qt-prolonging', 'cyp3a4-inhibitor'] },
+  { id: 'amoxicillin', names: ['amoxicillin', 'amoxycillin', 'amoxil', 'augmentin', 'co-amoxiclav'], classes: ['antibiotic', 'penicillin'] },
+  { id: 'doxycycline', names: ['doxycycline', 'vibramycin'], classes: ['antibiotic', 'tetracycline'] },
+  { id: 'tetracycline', names: ['tetracycline'], classes: ['antibiotic', 'tetracycline'] },
+  { id: 'metronidazole', names: ['metronidazole', 'flagyl'], classes: ['antibiotic'] },
+  { id: 'fluconazole', names: ['fluconazole', 'diflucan'], classes: ['antifungal', 'qt-prolonging'] },
+  { id: 'omeprazole', names: ['omeprazole', 'risek', 'losec'], classes: ['ppi'] },
+  { id: 'esomeprazole', names: ['esomeprazole', 'nexium', 'esso'], classes: ['ppi'] },
+  { id: 'antacid', names: ['antacid', 'magnesium hydroxide', 'aluminium hydroxide', 'aluminum hydroxide', 'mucaine', 'gaviscon'], classes: ['antacid'] },
+  { id: 'calcium', names: ['calcium carbonate', 'calcium', 'cac-1000'], classes: ['mineral-supplement'] },
+  { id: 'iron', names: ['ferrous sulfate', 'ferrous sulphate', 'ferrous fumarate', 'iron'], classes: ['mineral-supplement'] },
+  { id: 'zinc', names: ['zinc sulfate', 'zinc sulphate', 'zinc'], classes: ['mineral-supplement'] },
+  { id: 'simvastatin', names: ['simvastatin', 'zocor'], classes: ['statin'] },
+  { id: 'atorvastatin', names: ['atorvastatin', 'lipitor'], classes: ['statin'] },
+  { id: 'lisinopril', names: ['lisinopril', 'zestril'], classes: ['ace-inhibitor', 'antihypertensive'] },
+  { id: 'enalapril', names: ['enalapril', 'renitec'], classes: ['ace-inhibitor', 'antihypertensive'] },
+  { id: 'captopril', names: ['captopril', 'capoten'], classes: ['ace-inhibitor', 'antihypertensive'] },
+  { id: 'losartan', names: ['losartan', 'cozaar', 'eziday'], classes: ['arb', 'antihypertensive'] },
+  { id: 'amlodipine', names: ['amlodipine', 'norvasc'], classes: ['antihypertensive'] },
+  { id: 'spironolactone', names: ['spironolactone', 'aldactone'], classes: ['potassium-sparing', 'antihypertensive'] },
+  { id: 'potassium-chloride', names: ['potassium chloride', 'slow-k'], classes: ['potassium'] },
+  { id: 'furosemide', names: ['furosemide', 'frusemide', 'lasix'], classes: ['loop-diuretic', 'antihypertensive'] },
+  { id: 'digoxin', names: ['digoxin', 'lanoxin'], classes: ['cardiac-glycoside'] },
+  { id: 'amiodarone', names: ['amiodarone', 'cordarone'], classes: ['antiarrhythmic', 'qt-prolonging'] },
+  { id: 'tramadol', names: ['tramadol', 'tramal'], classes: ['opioid', 'serotonergic'] },
+  { id: 'codeine', names: ['codeine'], classes: ['opioid'] },
+  { id: 'sertraline', names: ['sertraline', 'zoloft'], classes: ['ssri', 'serotonergic'] },
+  { id: 'fluoxetine', names: ['fluoxetine', 'prozac'], classes: ['ssri', 'serotonergic'] },
+  { id: 'escitalopram', names: ['escitalopram', 'cipralex'], classes: ['ssri', 'serotonergic', 'qt-prolonging'] },
+  { id: 'alprazolam', names: ['alprazolam', 'xanax'], classes: ['benzodiazepine', 'sedative'] },
+  { id: 'diazepam', names: ['diazepam', 'valium'], classes: ['benzodiazepine', 'sedative'] },
+  { id: 'bromazepam', names: ['bromazepam', 'lexotanil'], classes: ['benzodiazepine', 'sedative'] },
+  { id: 'chlorpheniramine', names: ['chlorpheniramine', 'chlorphenamine', 'piriton'], classes: ['sedating-antihistamine', 'sedative'] },
+  { id: 'pheniramine', names: ['pheniramine', 'avil'], classes: ['sedating-antihistamine', 'sedative'] },
+  { id: 'promethazine', names: ['promethazine', 'phenergan'], classes: ['sedating-antihistamine', 'sedative'] },
+  { id: 'cetirizine', names: ['cetirizine', 'zyrtec'], classes: ['antihistamine'] },
+  { id: 'loratadine', names: ['loratadine', 'claritin'], classes: ['antihistamine'] },
+  { id: 'loperamide', names: ['loperamide', 'imodium'], classes: ['antidiarrheal'] },
+  { id: 'metoclopramide', names: ['metoclopramide', 'maxolon'], classes: ['antiemetic'] },
+  { id: 'domperidone', names: ['domperidone', 'motilium'], classes: ['antiemetic', 'qt-prolonging'] },
+  { id: 'ondansetron', names: ['ondansetron', 'zofran', 'onset'], classes: ['antiemetic', 'qt-prolonging', 'serotonergic'] },
+  { id: 'prednisolone', names: ['prednisolone', 'deltacortril'], classes: ['corticosteroid'] },
+  { id: 'dexamethasone', names: ['dexamethasone', 'decadron'], classes: ['corticosteroid'] },
+  { id: 'levothyroxine', names: ['levothyroxine', 'thyroxine', 'euthyrox'], classes: ['thyroid-hormone'] },
+];
+
+export const INTERACTIONS: InteractionRule[] = [
+  { a: 'anticoagulant', b: 'nsaid', severity: 'major', message: 'NSAIDs with an anticoagulant markedly increase the risk of serious bleeding.' },
+  { a: 'anticoagulant', b: 'antiplatelet', severity: 'major', message: 'Combining an anticoagulant with an antiplatelet increases bleeding risk.' },
+  { a: 'warfarin', b: 'metronidazole', severity: 'major', message: 'Metronidazole raises warfarin levels (INR); monitor or choose an alternative.' },
+  { a: 'warfarin', b: 'fluconazole', severity: 'major', message: 'Fluconazole raises warfarin levels (INR); monitor or choose an alternative.' },
+  { a: 'warfarin', b: 'fluoroquinolone', severity: 'moderate', message: 'Fluoroquinolones may raise INR in patients on warfarin.' },
+  { a: 'warfarin', b: 'macrolide', severity: 'moderate', message: 'Macrolides may raise INR in patients on warfarin.' },
+  { a: 'nsaid', b: 'nsaid', severity: 'moderate', message: 'Two NSAIDs together add GI bleeding and kidney risk without extra benefit.' },
+  { a: 'nsaid', b: 'corticosteroid', severity: 'moderate', message: 'NSAIDs with corticosteroids increase the risk of GI ulceration and bleeding.' },
+  { a: 'nsaid', b: 'ace-inhibitor', severity: 'moderate', message: 'NSAIDs reduce the effect of ACE inhibitors and can impair kidney function.' },
+  { a: 'nsaid', b: 'arb', severity: 'moderate', message: 'NSAIDs reduce the effect of ARBs and can impair kidney function.' },
+  { a: 'nsaid', b: 'ssri', severity: 'moderate', message: 'SSRIs with NSAIDs increase the risk of GI bleeding.' },
+  { a: 'ace-inhibitor', b: 'potassium-sparing', severity: 'major', message: 'Risk of dangerous hyperkalaemia; monitor potassium.' },
+  { a: 'ace-inhibitor', b: 'potassium', severity: 'major', message: 'Potassium supplements with ACE inhibitors can cause hyperkalaemia.' },
+  { a: 'arb', b: 'potassium-sparing', severity: 'major', message: 'Risk of dangerous hyperkalaemia; monitor potassium.' },
+  { a: 'fluoroquinolone', b: 'antacid', severity: 'moderate', message: 'Antacids block fluoroquinolone absorption; give the antibiotic 2 hours before or 6 hours after.' },
+  { a: 'fluoroquinolone', b: 'mineral-supplement', severity: 'moderate', message: 'Calcium, iron and zinc block fluoroquinolone absorption; separate doses by at least 2 hours.' },
+  { a: 'tetracycline', b: 'antacid', severity: 'moderate', message: 'Antacids block tetracycline absorption; separate doses by at least 2 hours.' },
+  { a: 'tetracycline', b: 'mineral-supplement', severity: 'moderate', message: 'Calcium, iron and zinc block tetracycline absorption; separate doses by at least 2 hours.' },
+  { a: 'simvastatin', b: 'cyp3a4-inhibitor', severity: 'major', message: 'Raised simvastatin levels can cause rhabdomyolysis; pause the statin during the course.' },
+  { a: 'simvastatin', b: 'amiodarone', severity: 'major', message: 'Amiodarone raises simvastatin levels (myopathy risk); limit the statin dose.' },
+  { a: 'atorvastatin', b: 'clarithromycin', severity: 'moderate', message: 'Clarithromycin raises atorvastatin levels; consider pausing the statin.' },
+  { a: 'serotonergic', b: 'serotonergic', severity: 'major', message: 'Combining serotonergic drugs can cause serotonin syndrome.' },
+  { a: 'opioid', b: 'benzodiazepine', severity: 'major', message: 'Opioids with benzodiazepines can cause profound sedation and respiratory depression.' },
+  { a: 'opioid', b: 'sedating-antihistamine', severity: 'moderate', message: 'Additive sedation with opioids; warn about drowsiness.' },
+  { a: 'benzodiazepine', b: 'sedating-antihistamine', severity: 'moderate', message: 'Additive sedation; avoid driving and operating machinery.' },
+  { a: 'qt-prolonging', b: 'qt-prolonging', severity: 'moderate', message: 'Both medicines prolong the QT interval; the combination raises arrhythmia risk.' },
+  { a: 'digoxin', b: 'loop-diuretic', severity: 'moderate', message: 'Diuretic-induced low potassium increases digoxin toxicity; monitor electrolytes.' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'major', message: 'Amiodarone raises digoxin levels; halve the digoxin dose and monitor.' },
+  { a: 'digoxin', b: 'macrolide', severity: 'moderate', message: 'Macrolides can raise digoxin levels.' },
+  { a: 'sulfonylurea', b: 'fluoroquinolone', severity: 'moderate', message: 'Fluoroquinolones can cause severe blood sugar swings with sulfonylureas.' },
+  { a: 'antidiabetic', b: 'corticosteroid', severity: 'moderate', message: 'Corticosteroids raise blood sugar; monitor glucose and adjust diabetic treatment.' },
+  { a: 'levothyroxine', b: 'mineral-supplement', severity: 'minor', message: 'Calcium and iron reduce levothyroxine absorption; separate doses by 4 hours.' },
+  { a: 'levothyroxine', b: 'antacid', severity: 'minor', message: 'Antacids reduce levothyroxine absorption; separate doses by 4 hours.' },
+  { a: 'levothyroxine', b: 'ppi', severity: 'minor', message: 'PPIs may reduce levothyroxine absorption; monitor thyroid function.' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', message: 'Omeprazole reduces the antiplatelet effect of clopidogrel; prefer pantoprazole.' },
+  { a: 'clopidogrel', b: 'esomeprazole', severity: 'moderate', message: 'Esomeprazole reduces the antiplatelet effect of clopidogrel; prefer pantoprazole.' },
+];
+
+export const HERBS: HerbEntry[] = [
+  {
+    id: 'ginger',
+    names: ['ginger', 'adrak', 'zanjabeel', 'sonth', 'zingiber'],
+    interactions: [
+      { b: 'anticoagulant', severity: 'moderate', message: 'Ginger may add to the bleeding risk of anticoagulants.' },
+      { b: 'antiplatelet', severity: 'minor', message: 'Ginger may add to the bleeding risk of antiplatelets.' },
+    ],
+  },
+  {
+    id: 'garlic',
+    names: ['garlic', 'lehsan', 'lahsun', 'seer', 'allium sativum'],
+    interactions: [
+      { b: 'anticoagulant', severity: 'moderate', message: 'Medicinal doses of garlic increase bleeding risk with anticoagulants.' },
+      { b: 'antiplatelet', severity: 'moderate', message: 'Medicinal doses of garlic increase bleeding risk with antiplatelets.' },
+    ],
+  },
+  {
+    id: 'turmeric',
+    names: ['turmeric', 'haldi', 'curcumin', 'zard chob', 'curcuma'],
+    interactions: [
+      { b: 'anticoagulant', severity: 'moderate', message: 'Turmeric in medicinal doses may increase bleeding risk with anticoagulants.' },
+      { b: 'antiplatelet', severity: 'minor', message: 'Turmeric may add to the effect of antiplatelets.' },
+      { b: 'antidiabetic', severity: 'minor', message: 'Turmeric may lower blood sugar further; monitor glucose.' },
+    ],
+  },
+  {
+    id: 'ginkgo',
+    names: ['ginkgo'],
+    interactions: [
+      { b: 'anticoagulant', severity: 'major', message: 'Ginkgo with anticoagulants has been linked to serious bleeding.' },
+      { b: 'antiplatelet', severity: 'moderate', message: 'Ginkgo increases bleeding risk with antiplatelets.' },
+      { b: 'nsaid', severity: 'moderate', message: 'Ginkgo increases bleeding risk with NSAIDs.' },
+    ],
+  },
+  {
+    id: 'licorice',
+    names: ['licorice', 'liquorice', 'mulethi', 'mulhatti', 'asl-us-soos', 'glycyrrhiza'],
+    interactions: [
+      { b: 'corticosteroid', severity: 'moderate', message: 'Licorice potentiates corticosteroid effects and lowers potassium.' },
+      { b: 'loop-diuretic', severity: 'moderate', message: 'Licorice with loop diuretics can cause low potassium.' },
+      { b: 'digoxin', severity: 'major', message: 'Licorice-induced low potassium increases digoxin toxicity.' },
+      { b: 'antihypertensive', severity: 'moderate', message: 'Licorice raises blood pressure and counteracts antihypertensives.' },
+    ],
+  },
+  {
+    id: 'st-johns-wort',
+    names: ["st john's wort", 'st johns wort', 'hypericum'],
+    interactions: [
+      { b: 'serotonergic', severity: 'major', message: "St John's wort with serotonergic drugs can cause serotonin syndrome." },
+      { b: 'warfarin', severity: 'major', message: "St John's wort reduces warfarin levels." },
+      { b: 'digoxin', severity: 'moderate', message: "St John's wort reduces digoxin levels." },
+    ],
+  },
+  {
+    id: 'fenugreek',
+    names: ['fenugreek', 'methi', 'trigonella'],
+    interactions: [
+      { b: 'antidiabetic', severity: 'moderate', message: 'Fenugreek lowers blood sugar; risk of hypoglycaemia with diabetic medicines.' },
+      { b: 'anticoagulant', severity: 'minor', message: 'Fenugreek may increase bleeding risk with anticoagulants.' },
+    ],
+  },
+  {
+    id: 'bitter-gourd',
+    names: ['bitter gourd', 'bitter melon', 'karela', 'momordica'],
+    interactions: [
+      { b: 'antidiabetic', severity: 'moderate', message: 'Bitter gourd lowers blood sugar; risk of hypoglycaemia with diabetic medicines.' },
+    ],
+  },
+  {
+    id: 'cinnamon',
+    names: ['cinnamon', 'darchini', 'dalchini'],
+    interactions: [
+      { b: 'antidiabetic', severity: 'minor', message: 'Cinnamon may lower blood sugar further; monitor glucose.' },
+    ],
+  },
+  {
+    id: 'black-seed',
+    names: ['black seed', 'kalonji', 'habbatus sauda', 'habba sauda', 'nigella'],
+    interactions: [
+      { b: 'antidiabetic', severity: 'minor', message: 'Black seed may lower blood sugar further; monitor glucose.' },
+      { b: 'antihypertensive', severity: 'minor', message: 'Black seed may add to the blood-pressure-lowering effect.' },
+    ],
+  },
+  {
+    id: 'ginseng',
+    names: ['ginseng', 'panax'],
+    interactions: [
+      { b: 'warfarin', severity: 'moderate', message: 'Ginseng may reduce the effect of warfarin.' },
+      { b: 'antidiabetic', severity: 'moderate', message: 'Ginseng lowers blood sugar; risk of hypoglycaemia.' },
+    ],
+  },
+  {
+    id: 'aloe',
+    names: ['aloe vera', 'aloe', 'ghee kwar', 'ghikwar'],
+    interactions: [
+      { b: 'digoxin', severity: 'moderate', message: 'Oral aloe can lower potassium and increase digoxin toxicity.' },
+      { b: 'loop-diuretic', severity: 'moderate', message: 'Oral aloe with loop diuretics can cause low potassium.' },
+      { b: 'antidiabetic', severity: 'minor', message: 'Oral aloe may lower blood sugar further.' },
+    ],
+  },
+  {
+    id: 'senna',
+    names: ['senna', 'sana makki', 'sanay'],
+    interactions: [
+      { b: 'digoxin', severity: 'moderate', message: 'Laxative-induced low potassium increases digoxin toxicity.' },
+      { b: 'loop-diuretic', severity: 'moderate', message: 'Senna with loop diuretics can cause low potassium.' },
+    ],
+  },
+  {
+    id: 'psyllium',
+    names: ['psyllium', 'isabgol', 'ispaghol', 'ispaghula'],
+    interactions: [
+      { b: 'levothyroxine', severity: 'minor', message: 'Psyllium reduces levothyroxine absorption; separate doses by 4 hours.' },
+      { b: 'digoxin', severity: 'minor', message: 'Psyllium may reduce digoxin absorption; separate doses.' },
+    ],
+  },
+  {
+    id: 'valerian',
+    names: ['valerian', 'sugandhbala', 'tagar'],
+    interactions: [
+      { b: 'sedative', severity: 'moderate', message: 'Valerian adds to the sedation of other sedating medicines.' },
+    ],
+  },
+  {
+    id: 'chamomile',
+    names: ['chamomile', 'babuna', 'chamomilla'],
+    interactions: [
+      { b: 'warfarin', severity: 'minor', message: 'Chamomile may increase the effect of warfarin.' },
+      { b: 'sedative', severity: 'minor', message: 'Chamomile may add to sedation.' },
+    ],
+  },
+  {
+    id: 'ashwagandha',
+    names: ['ashwagandha', 'asgandh', 'withania'],
+    interactions: [
+      { b: 'sedative', severity: 'moderate', message: 'Ashwagandha adds to the sedation of other sedating medicines.' },
+      { b: 'thyroid-hormone', severity: 'minor', message: 'Ashwagandha may raise thyroid hormone levels.' },
+      { b: 'antidiabetic', severity: 'minor', message: 'Ashwagandha may lower blood sugar further.' },
+    ],
+  },
+  {
+    id: 'green-tea',
+    names: ['green tea', 'sabz chai'],
+    interactions: [
+      { b: 'warfarin', severity: 'minor', message: 'Large amounts of green tea (vitamin K) may reduce the effect of warfarin.' },
+    ],
+  },
+];
+
+export const AGE_RULES: AgeRule[] = [
+  { target: 'aspirin', below: 16, severity: 'major', message: "Aspirin is contraindicated under 16 years (risk of Reye's syndrome)." },
+  { target: 'tetracycline', below: 8, severity: 'major', message: 'Tetracyclines can permanently stain developing teeth under 8 years.' },
+  { target: 'fluoroquinolone', below: 18, severity: 'moderate', message: 'Fluoroquinolones are generally avoided under 18 (tendon and cartilage damage).' },
+  { target: 'codeine', below: 12, severity: 'major', message: 'Codeine is contraindicated under 12 years (risk of respiratory depression).' },
+  { target: 'tramadol', below: 12, severity: 'major', message: 'Tramadol is contraindicated under 12 years (risk of respiratory depression).' },
+  { target: 'promethazine', below: 2, severity: 'major', message: 'Promethazine is contraindicated under 2 years (fatal respiratory depression).' },
+  { target: 'metoclopramide', below: 1, severity: 'major', message: 'Metoclopramide is contraindicated under 1 year (extrapyramidal reactions).' },
+  { target: 'loperamide', below: 12, severity: 'moderate', message: 'Loperamide is not recommended for acute diarrhoea in children under 12.' },
+  { target: 'nimesulide', below: 12, severity: 'major', message: 'Nimesulide is contraindicated under 12 years (liver toxicity).' },
+  { target: 'domperidone', below: 12, severity: 'moderate', message: 'Domperidone is not recommended under 12 years or 35 kg.' },
+  { target: 'benzodiazepine', from: 65, severity: 'moderate', message: 'Benzodiazepines raise the risk of falls and confusion in older adults.' },
+  { target: 'sedating-antihistamine', from: 65, severity: 'moderate', message: 'Sedating antihistamines cause confusion and falls in older adults; prefer a non-sedating one.' },
+  { target: 'sulfonylurea', from: 65, severity: 'moderate', message: 'Sulfonylureas carry a high risk of prolonged hypoglycaemia in older adults.' },
+  { target: 'nsaid', from: 65, severity: 'moderate', message: 'NSAIDs raise GI bleeding and kidney risk in older adults; use the lowest dose for the shortest time.' },
+];
+
+// Weight-based upper limits for children; the adult daily maximum always caps the result.
+export interface PediatricDoseRule {
+  target: string;
+  maxMgPerKgPerDose?: number;
+  maxMgPerKgPerDay: number;
+  maxMgPerDay: number;
+}
+
+export const PEDIATRIC_DOSE_RULES: PediatricDoseRule[] = [
+  { target: 'paracetamol', maxMgPerKgPerDose: 15, maxMgPerKgPerDay: 75, maxMgPerDay: 4000 },
+  { target: 'ibuprofen', maxMgPerKgPerDose: 10, maxMgPerKgPerDay: 40, maxMgPerDay: 2400 },
+  { target: 'amoxicillin', maxMgPerKgPerDay: 90, maxMgPerDay: 3000 },
+  { target: 'azithromycin', maxMgPerKgPerDose: 10, maxMgPerKgPerDay: 10, maxMgPerDay: 500 },
+  { target: 'metronidazole', maxMgPerKgPerDay: 40, maxMgPerDay: 2000 },
+  { target: 'ciprofloxacin', maxMgPerKgPerDose: 20, maxMgPerKgPerDay: 40, maxMgPerDay: 1500 },
+  { target: 'prednisolone', maxMgPerKgPerDay: 2, maxMgPerDay: 60 },
+  { target: 'ondansetron', maxMgPerKgPerDose: 0.15, maxMgPerKgPerDay: 0.45, maxMgPerDay: 24 },
+];
@@ -0,0 +1,103 @@
+// Builds per-analyte time series from the lab results saved with a patient's consultations,
+// so chronic conditions can be followed across visits and labs (see labUnits.ts for units).
+import { Consultation, LabFlag, LabResult } from '../types';
+import { findAnalyte, formatLabNumber, normalizeLabResult, parseLabNumber, parseReferenceRange } from './labUnits';
+
+export interface LabRange {
+  low?: number;
+  high?: number;
+}
+
+export interface LabPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  flag: LabFlag;
+  range: LabRange | null;
+}
+
+export interface LabSeries {
+  id: string;
+  label: string;
+  unit: string;
+  points: LabPoint[]; // Oldest first
+}
+
+export type TrendDirection = 'improving' | 'worsening' | 'stable';
+
+const toPoint = (result: LabResult, fallbackDate: string): { id: string; label: string; unit: string; point: LabPoint } | null => {
+  const date = result.reportDate || fallbackDate;
+  const normalized = normalizeLabResult(result);
+  if (normalized) {
+    const analyte = findAnalyte(result.test)!;
+    return { id: analyte.id, label: analyte.label, unit: normalized.unit, point: { date, value: normalized.value, flag: result.flag, range: normalized.range } };
+  }
+  // Unknown analytes are only compared with results of the same name and unit
+  const value = parseLabNumber(result.value);
+  if (value === null) return null;
+  return {
+    id: `${result.test.trim().toLowerCase()}|${result.unit.trim().toLowerCase()}`,
+    label: result.test.trim(),
+    unit: result.unit.trim(),
+    point: { date, value, flag: result.flag, range: parseReferenceRange(result.referenceRange) },
+  };
+};
+
+// `current` holds results not saved yet, such as the reports of the visit in progress
+export const buildLabSeries = (consultations: Consultation[], current: LabResult[] = []): LabSeries[] => {
+  const series = new Map<string, LabSeries>();
+  const add = (result: LabResult, fallbackDate: string) => {
+    const entry = toPoint(result, fallbackDate);
+    if (!entry) return;
+    const existing = series.get(entry.id) ?? { id: entry.id, label: entry.label, unit: entry.unit, points: [] };
+    // The same report uploaded at two visits is one measurement
+    if (!existing.points.some(point => point.date === entry.point.date && point.value === entry.point.value)) {
+      existing.points.push(entry.point);
+    }
+    series.set(entry.id, existing);
+  };
+  consultations.forEach(consultation => consultation.labResults?.forEach(result => add(result, consultation.createdAt.slice(0, 10))));
+  current.forEach(result => add(result, new Date().toISOString().slice(0, 10)));
+  return [...series.values()]
+    .map(entry => ({ ...entry, points: entry.points.sort((a, b) => a.date.localeCompare(b.date)) }))
+    .sort((a, b) => b.points.length - a.points.length || a.label.localeCompare(b.label));
+};
+
+// How far a value lies outside the range; zero inside it
+const distanceFromRange = (value: number, range: LabRange) =>
+  range.low !== undefined && value < range.low ? range.low - value
+    : range.high !== undefined && value > range.high ? value - range.high
+    : 0;
+
+// Compares the last two results against the latest reference range. Moving towards the range is
+// improving and away from it is worsening. Null when there is nothing to compare against.
+export const trendDirection = (series: LabSeries): TrendDirection | null => {
+  const { points } = series;
+  if (points.length < 2) return null;
+  const latest = points[points.length - 1];
+  const previous = points[points.length - 2];
+  const range = latest.range ?? previous.range;
+  if (!range) return null;
+  const before = distanceFromRange(previous.value, range);
+  const after = distanceFromRange(latest.value, range);
+  if (before === after) return 'stable';
+  return after < before ? 'improving' : 'worsening';
+};
+
+export const formatRange = (range: LabRange | null) => {
+  if (!range) return '';
+  if (range.low !== undefined && range.high !== undefined) return `${formatLabNumber(range.low)}–${formatLabNumber(range.high)}`;
+  if (range.high !== undefined) return `< ${formatLabNumber(range.high)}`;
+  return range.low !== undefined ? `> ${formatLabNumber(range.low)}` : '';
+};
+
+// Recent history of every analyte measured more than once, for the prescription prompt
+export const describeLabTrends = (series: LabSeries[], limit = 5): string =>
+  series
+    .filter(entry => entry.points.length > 1)
+    .map(entry => {
+      const history = entry.points.slice(-limit).map(point => `${formatLabNumber(point.value)} on ${point.date}`).join(' → ');
+      const range = formatRange(entry.points[entry.points.length - 1].range);
+      const direction = trendDirection(entry);
+      return `- ${entry.label} (${entry.unit}): ${history}${range ? `; reference ${range}` : ''}${direction ? `; ${direction.toUpperCase()}` : ''}`;
+    })
+    .join('\n    ');
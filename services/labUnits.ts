@@ -0,0 +1,223 @@
+// Bundled reference data for comparing lab results that different labs report in different units.
+// Each analyte has one canonical unit (the conventional one used locally) and the factors that
+// convert other common units into it: canonical = value * factor + (offset ?? 0).
+// Critical limits are in the canonical unit and only cover values that need same-day action.
+import { LabFlag, LabResult } from '../types';
+
+export interface UnitConversion {
+  unit: string;
+  factor: number;
+  offset?: number;
+}
+
+export interface AnalyteEntry {
+  id: string;
+  label: string;
+  names: string[]; // Lower-case; more specific analytes are listed before the ones they contain
+  unit: string; // Canonical unit
+  conversions: UnitConversion[];
+  critical?: { low?: number; high?: number };
+}
+
+const COUNT_UNITS: UnitConversion[] = [
+  { unit: '10^9/L', factor: 1 },
+  { unit: 'K/µL', factor: 1 },
+  { unit: '/µL', factor: 0.001 },
+  { unit: '/cumm', factor: 0.001 },
+  { unit: 'lac/cumm', factor: 100 },
+];
+
+export const ANALYTES: AnalyteEntry[] = [
+  {
+    id: 'hba1c', label: 'HbA1c', names: ['hba1c', 'a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin', 'glycosylated haemoglobin'],
+    unit: '%', conversions: [{ unit: 'mmol/mol', factor: 0.09148, offset: 2.152 }],
+  },
+  {
+    id: 'glucose', label: 'Glucose', names: ['glucose', 'blood sugar', 'fasting sugar', 'random sugar', 'fbs', 'rbs', 'fbg', 'rbg'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 18.016 }], critical: { low: 40, high: 450 },
+  },
+  {
+    id: 'ldl', label: 'LDL Cholesterol', names: ['ldl'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 38.67 }],
+  },
+  {
+    id: 'hdl', label: 'HDL Cholesterol', names: ['hdl'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 38.67 }],
+  },
+  {
+    id: 'cholesterol', label: 'Total Cholesterol', names: ['cholesterol'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 38.67 }],
+  },
+  {
+    id: 'triglycerides', label: 'Triglycerides', names: ['triglyceride', 'triglycerides', 'tg'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 88.57 }],
+  },
+  {
+    id: 'creatinine', label: 'Creatinine', names: ['creatinine'],
+    unit: 'mg/dL', conversions: [{ unit: 'µmol/L', factor: 1 / 88.4 }],
+  },
+  {
+    id: 'bun', label: 'Blood Urea Nitrogen', names: ['blood urea nitrogen', 'bun'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 2.801 }],
+  },
+  {
+    id: 'urea', label: 'Urea', names: ['urea'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 6.006 }],
+  },
+  {
+    id: 'uric-acid', label: 'Uric Acid', names: ['uric acid'],
+    unit: 'mg/dL', conversions: [{ unit: 'µmol/L', factor: 1 / 59.48 }, { unit: 'mmol/L', factor: 16.81 }],
+  },
+  {
+    id: 'bilirubin', label: 'Bilirubin', names: ['bilirubin'],
+    unit: 'mg/dL', conversions: [{ unit: 'µmol/L', factor: 1 / 17.1 }], critical: { high: 15 },
+  },
+  {
+    id: 'calcium', label: 'Calcium', names: ['calcium'],
+    unit: 'mg/dL', conversions: [{ unit: 'mmol/L', factor: 4.008 }], critical: { low: 6, high: 13 },
+  },
+  {
+    id: 'potassium', label: 'Potassium', names: ['potassium', 'k+'],
+    unit: 'mmol/L', conversions: [{ unit: 'mEq/L', factor: 1 }], critical: { low: 2.8, high: 6.2 },
+  },
+  {
+    id: 'sodium', label: 'Sodium', names: ['sodium', 'na+'],
+    unit: 'mmol/L', conversions: [{ unit: 'mEq/L', factor: 1 }], critical: { low: 120, high: 160 },
+  },
+  {
+    id: 'hemoglobin', label: 'Hemoglobin', names: ['hemoglobin', 'haemoglobin', 'hb', 'hgb'],
+    unit: 'g/dL', conversions: [{ unit: 'g/L', factor: 0.1 }, { unit: 'mmol/L', factor: 1.611 }], critical: { low: 7, high: 20 },
+  },
+  {
+    id: 'platelets', label: 'Platelets', names: ['platelet', 'platelets', 'plt'],
+    unit: '10^3/µL', conversions: COUNT_UNITS, critical: { low: 20, high: 1000 },
+  },
+  {
+    id: 'wbc', label: 'White Cell Count', names: ['wbc', 'tlc', 'total leukocyte count', 'total leucocyte count', 'white blood cell', 'white cell count'],
+    unit: '10^3/µL', conversions: COUNT_UNITS, critical: { low: 2, high: 30 },
+  },
+  {
+    id: 'egfr', label: 'eGFR', names: ['egfr', 'gfr', 'estimated glomerular filtration rate'],
+    unit: 'mL/min/1.73m²', conversions: [{ unit: 'mL/min/1.73m2', factor: 1 }, { unit: 'mL/min', factor: 1 }],
+  },
+  {
+    id: 'tsh', label: 'TSH', names: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'],
+    unit: 'mIU/L', conversions: [{ unit: 'µIU/mL', factor: 1 }, { unit: 'uIU/mL', factor: 1 }],
+  },
+  {
+    id: 'free-t4', label: 'Free T4', names: ['free t4', 'ft4', 'free thyroxine'],
+    unit: 'ng/dL', conversions: [{ unit: 'pmol/L', factor: 1 / 12.87 }],
+  },
+  {
+    id: 'free-t3', label: 'Free T3', names: ['free t3', 'ft3', 'free triiodothyronine'],
+    unit: 'pg/mL', conversions: [{ unit: 'pmol/L', factor: 0.651 }],
+  },
+  {
+    id: 'alt', label: 'ALT', names: ['alt', 'sgpt', 'alanine aminotransferase', 'alanine transaminase'],
+    unit: 'U/L', conversions: [{ unit: 'IU/L', factor: 1 }],
+  },
+  {
+    id: 'ast', label: 'AST', names: ['ast', 'sgot', 'aspartate aminotransferase', 'aspartate transaminase'],
+    unit: 'U/L', conversions: [{ unit: 'IU/L', factor: 1 }],
+  },
+  {
+    id: 'vitamin-d', label: 'Vitamin D', names: ['vitamin d', '25-oh', '25 oh', '25-hydroxy'],
+    unit: 'ng/mL', conversions: [{ unit: 'nmol/L', factor: 0.4006 }],
+  },
+];
+
+const SUPERSCRIPTS: Record<string, string> = { '³': '^3', '⁶': '^6', '⁹': '^9' };
+
+// Lab printouts spell the same unit many ways: "mg/dl", "µmol/L", "x10³/uL", "10*9/L", "/mm3"
+const unitKey = (unit: string) =>
+  unit
+    .toLowerCase()
+    .replace(/[³⁶⁹]/g, match => SUPERSCRIPTS[match])
+    .replace(/[µμ]/g, 'u')
+    .replace(/\s+/g, '')
+    .replace(/^[x×*]/, '')
+    .replace(/10\*/g, '10^')
+    .replace(/mm\^?3|cmm/g, 'cumm')
+    .replace(/cumm/g, 'ul')
+    .replace(/^k\//, '10^3/')
+    .replace(/^(lac|lakh)s?\//, 'lac/');
+
+const sameUnit = (a: string, b: string) => unitKey(a) === unitKey(b);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const findAnalyte = (test: string): AnalyteEntry | null => {
+  const text = test.toLowerCase();
+  return ANALYTES.find(entry =>
+    entry.names.some(name => new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}([^a-z0-9]|$)`).test(text))
+  ) ?? null;
+};
+
+// Converts a value into the analyte's canonical unit, or null when the unit is not recognised
+export const toCanonicalUnit = (value: number, unit: string, analyte: AnalyteEntry): number | null => {
+  if (sameUnit(unit, analyte.unit)) return value;
+  const conversion = analyte.conversions.find(entry => sameUnit(entry.unit, unit));
+  return conversion ? value * conversion.factor + (conversion.offset ?? 0) : null;
+};
+
+// Reads the leading number of a result, e.g. "5.6", "150,000" or "<0.1"
+export const parseLabNumber = (value: string): number | null => {
+  const match = value.replace(/,(?=\d{3})/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+// Reference ranges as printed: "70-100", "3.5 – 5.1", "< 200", "> 40", "up to 40"
+export const parseReferenceRange = (range: string): { low?: number; high?: number } | null => {
+  const text = range.replace(/,(?=\d{3})/g, '').trim().toLowerCase();
+  const between = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|—|to)\s*(\d+(?:\.\d+)?)/);
+  if (between) return { low: Number(between[1]), high: Number(between[2]) };
+  const below = text.match(/(?:<|≤|less than|up to|upto|below)\s*=?\s*(\d+(?:\.\d+)?)/);
+  if (below) return { high: Number(below[1]) };
+  const above = text.match(/(?:>|≥|more than|greater than|above)\s*=?\s*(\d+(?:\.\d+)?)/);
+  if (above) return { low: Number(above[1]) };
+  return null;
+};
+
+export interface NormalizedLabResult {
+  value: number;
+  unit: string;
+  range: { low?: number; high?: number } | null;
+}
+
+// The result in its analyte's canonical unit, so values from different labs can be compared.
+// Null for unknown analytes, qualitative results and unrecognised units.
+export const normalizeLabResult = (result: LabResult): NormalizedLabResult | null => {
+  const analyte = findAnalyte(result.test);
+  const value = parseLabNumber(result.value);
+  if (!analyte || value === null) return null;
+  const converted = toCanonicalUnit(value, result.unit, analyte);
+  if (converted === null) return null;
+  const range = parseReferenceRange(result.referenceRange);
+  const convert = (bound?: number) => (bound === undefined ? undefined : toCanonicalUnit(bound, result.unit, analyte)!);
+  return {
+    value: converted,
+    unit: analyte.unit,
+    range: range && { low: convert(range.low), high: convert(range.high) },
+  };
+};
+
+export const formatLabNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+// Flags a numeric result against its printed range and the analyte's critical limits.
+// Returns null when the value or range cannot be read, so the flag from the report is kept.
+export const flagLabResult = (result: LabResult): LabFlag | null => {
+  const value = parseLabNumber(result.value);
+  if (value === null) return null;
+  const analyte = findAnalyte(result.test);
+  const canonical = analyte ? toCanonicalUnit(value, result.unit, analyte) : null;
+  const critical = analyte?.critical;
+  if (canonical !== null && critical &&
+    ((critical.low !== undefined && canonical < critical.low) || (critical.high !== undefined && canonical > critical.high))) {
+    return 'critical';
+  }
+  const range = parseReferenceRange(result.referenceRange);
+  if (!range) return null;
+  if (range.low !== undefined && value < range.low) return 'low';
+  if (range.high !== undefined && value > range.high) return 'high';
+  return 'normal';
+};
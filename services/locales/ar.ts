@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const ar: Messages = {
+  'app.title': 'الطبيب الذكي',
+  'header.history': 'سجل المرضى',
+  'header.clinicProfile': 'ملف العيادة',
+  'header.settings': 'الإعدادات',
+  'header.uiLanguage': 'لغة الواجهة',
+
+  'common.cancel': 'إلغاء',
+  'common.close': 'إغلاق',
+  'common.remove': 'إزالة',
+  'common.save': 'حفظ',
+
+  'loading.title': 'جارٍ استشارة الطبيب الذكي...',
+  'loading.subtitle': 'نحلل التقارير ونعد خطتك الصحية.',
+
+  'form.title': 'معلومات المريض',
+  'form.subtitle': 'أدخل بياناتك للحصول على خطة مخصصة لك.',
+  'form.name': 'الاسم',
+  'form.age': 'العمر',
+  'form.district': 'المنطقة / المدينة',
+  'form.cell': 'رقم الجوال (اختياري)',
+  'form.religion': 'الديانة',
+  'form.selectReligion': 'اختر الديانة',
+  'form.language': 'اللغة المفضلة',
+  'form.clinicalDetails': 'التفاصيل السريرية',
+  'form.clinicalHint': '(اختيارية، لكن يُنصح بها لجرعات أكثر أمانًا)',
+  'form.sex': 'الجنس',
+  'form.notSpecified': 'غير محدد',
+  'form.weight': 'الوزن (كغ)',
+  'form.height': 'الطول (سم)',
+  'form.pregnancy': 'الحمل / الرضاعة',
+  'form.allergies': 'الحساسية المعروفة',
+  'form.allergiesPlaceholder': 'مثل: البنسلين، أدوية السلفا، الفول السوداني',
+  'form.currentMedications': 'الأدوية الحالية',
+  'form.currentMedicationsPlaceholder': 'مثل: ميتفورمين 500 ملغ مرتين يوميًا',
+  'form.chronicConditions': 'الأمراض المزمنة',
+  'form.chronicConditionsPlaceholder': 'مثل: السكري، ارتفاع ضغط الدم، الربو',
+  'form.recommended': 'يُنصح بإضافة: {fields} لتحديد الجرعات بأمان.',
+  'form.describeOrUpload': 'صف المرض أو ارفع التقارير',
+  'form.tabSymptoms': 'وصف الأعراض',
+  'form.tabUpload': 'رفع التقارير',
+  'form.symptomsPlaceholder': 'مثال: أعاني من حمى وسعال وصداع...',
+  'form.clickToUpload': 'انقر للرفع',
+  'form.dragAndDrop': 'أو اسحب الملفات وأفلتها هنا',
+  'form.fileTypes': 'PDF حتى 20 ميغابايت؛ صور JPG أو PNG أو WebP أو HEIC حتى 50 ميغابايت',
+  'form.uploadedFiles': 'الملفات المرفوعة:',
+  'form.extractLabResults': 'استخراج نتائج المختبر ({count})',
+  'form.readingReports': 'جارٍ قراءة التقارير...',
+  'form.reportComments': 'تعليقات أو أسئلة حول التقارير (اختياري)',
+  'form.reportCommentsPlaceholder': 'أضف سياقًا لتقاريرك أو اطرح أسئلة محددة... مثل: "يرجى مراجعة نتائج وظائف الكلى في الملف المرفق."',
+  'form.treatmentTypes': 'اختر نوع (أنواع) العلاج',
+  'form.returningPatient': 'مريض عائد:',
+  'form.includeHistory': 'تضمين {count} استشارة سابقة كسياق لزيارة المتابعة هذه.',
+  'form.submit': 'احصل على الوصفة',
+  'form.generating': 'جارٍ الإعداد...',
+
+  'voice.record': 'تسجيل الأعراض',
+  'voice.stop': 'إيقاف التسجيل',
+  'voice.recording': 'جارٍ التسجيل... {time}',
+  'voice.transcribing': 'جارٍ الاستماع إلى التسجيل...',
+  'voice.reviewTitle': 'تحقق مما سمعناه',
+  'voice.reviewHint': 'صحّح أي خطأ قبل إضافته إلى الوصف.',
+  'voice.symptoms': 'الأعراض المسموعة:',
+  'voice.use': 'إضافة إلى الوصف',
+  'voice.discard': 'تجاهل',
+  'voice.micError': 'تعذّر استخدام الميكروفون. اسمح بالوصول إلى الميكروفون في المتصفح وحاول مرة أخرى.',
+  'voice.unsupported': 'الإدخال الصوتي غير مدعوم في هذا المتصفح.',
+  'voice.empty': 'لم يُسمع أي كلام في التسجيل. يرجى المحاولة مرة أخرى.',
+  'speech.readAloud': 'القراءة بصوت عالٍ',
+  'speech.stop': 'إيقاف القراءة',
+  'speech.noVoice': 'لا يتوفر صوت للغة {language} على هذا الجهاز.',
+
+  'form.tabGuided': 'أسئلة موجّهة',
+  'guided.intro': 'أجب عن بضعة أسئلة سريعة. المشكلة الرئيسية فقط مطلوبة؛ تجاوز أي سؤال لست متأكدًا من إجابته.',
+  'guided.complaint': 'ما المشكلة الرئيسية؟',
+  'guided.duration': 'منذ متى بدأت؟',
+  'guided.durationValue': 'المقدار',
+  'guided.severity': 'ما مدى شدتها؟ (0 = لا إزعاج، 10 = أسوأ ما يمكن تخيله)',
+  'guided.notRated': 'لم يُقيَّم بعد',
+  'guided.clear': 'مسح',
+  'guided.onset': 'كيف بدأت؟',
+  'guided.location': 'أين مكانها؟ انقر على الجسم أو اختر من الأسفل.',
+  'guided.bodyMap': 'خريطة الجسم',
+  'guided.temperature': 'أعلى حرارة تم قياسها (°م)',
+  'guided.painCharacter': 'كيف تشعر بالألم؟',
+  'guided.associated': 'هل لديك أيضًا أي من هذه الأعراض؟',
+  'guided.tried': 'ما الذي جُرِّب حتى الآن؟',
+  'guided.notes': 'هل من شيء آخر؟ (اختياري)',
+  'guided.summaryTitle': 'ملخص الأعراض',
+  'summary.complaint': 'الشكوى',
+  'summary.duration': 'المدة',
+  'summary.severity': 'الشدة',
+  'summary.onset': 'البداية',
+  'summary.location': 'المكان',
+  'summary.temperature': 'أعلى حرارة',
+  'summary.painCharacter': 'نوع الألم',
+  'summary.associated': 'أعراض مصاحبة',
+  'summary.tried': 'جُرِّب سابقًا',
+  'summary.notes': 'ملاحظات',
+  'duration.hours': '{count} ساعة',
+  'duration.days': '{count} يوم',
+  'duration.weeks': '{count} أسبوع',
+  'duration.months': '{count} شهر',
+  'durationUnit.hours': 'ساعات',
+  'durationUnit.days': 'أيام',
+  'durationUnit.weeks': 'أسابيع',
+  'durationUnit.months': 'أشهر',
+  'onset.sudden': 'فجأة',
+  'onset.gradual': 'تدريجيًا',
+  'complaint.fever': 'حمى',
+  'complaint.cough': 'سعال',
+  'complaint.breathing': 'صعوبة في التنفس',
+  'complaint.pain': 'ألم',
+  'complaint.stomach': 'المعدة / الهضم',
+  'complaint.skin': 'مشكلة جلدية',
+  'complaint.urinary': 'مشكلة بولية',
+  'complaint.fatigue': 'تعب / ضعف',
+  'associated.chills': 'قشعريرة',
+  'associated.sweating': 'تعرّق',
+  'associated.bodyAches': 'آلام في الجسم',
+  'associated.headache': 'صداع',
+  'associated.rash': 'طفح جلدي',
+  'associated.lossOfAppetite': 'فقدان الشهية',
+  'associated.phlegm': 'بلغم',
+  'associated.bloodInPhlegm': 'دم في البلغم',
+  'associated.soreThroat': 'التهاب الحلق',
+  'associated.runnyNose': 'سيلان الأنف',
+  'associated.wheeze': 'أزيز',
+  'associated.chestPain': 'ألم في الصدر',
+  'associated.swelling': 'تورّم',
+  'associated.numbness': 'خدر أو وخز',
+  'associated.dizziness': 'دوخة',
+  'associated.nausea': 'غثيان',
+  'associated.vomiting': 'قيء',
+  'associated.diarrhoea': 'إسهال',
+  'associated.bloodInStool': 'دم في البراز',
+  'associated.itching': 'حكة',
+  'associated.burningUrine': 'حرقة عند التبول',
+  'associated.frequentUrination': 'كثرة التبول',
+  'associated.bloodInUrine': 'دم في البول',
+  'associated.weightLoss': 'فقدان الوزن',
+  'painCharacter.sharp': 'حاد / طاعن',
+  'painCharacter.dull': 'خفيف / مستمر',
+  'painCharacter.burning': 'حارق',
+  'painCharacter.cramping': 'مغص / تقلصات',
+  'painCharacter.throbbing': 'نابض',
+  'tried.paracetamol': 'باراسيتامول',
+  'tried.ibuprofen': 'إيبوبروفين',
+  'tried.antibiotics': 'مضادات حيوية',
+  'tried.coughSyrup': 'شراب السعال',
+  'tried.antacid': 'مضاد للحموضة',
+  'tried.herbal': 'علاج عشبي',
+  'tried.homeRemedy': 'علاج منزلي',
+  'tried.nothing': 'لا شيء حتى الآن',
+  'body.head': 'الرأس',
+  'body.throat': 'الحلق / الرقبة',
+  'body.chest': 'الصدر',
+  'body.upperAbdomen': 'أعلى البطن',
+  'body.lowerAbdomen': 'أسفل البطن',
+  'body.arms': 'الذراعان',
+  'body.legs': 'الساقان',
+  'body.back': 'الظهر',
+  'body.joints': 'المفاصل',
+  'body.wholeBody': 'الجسم كله',
+
+  'religion.islam': 'الإسلام',
+  'religion.christianity': 'المسيحية',
+  'religion.hinduism': 'الهندوسية',
+  'religion.buddhism': 'البوذية',
+  'religion.sikhism': 'السيخية',
+  'religion.judaism': 'اليهودية',
+  'religion.bahai': 'البهائية',
+  'religion.chineseFolk': 'الديانة الشعبية الصينية',
+  'religion.spiritism': 'الروحانية',
+  'religion.indigenous': 'الديانات العرقية / الأصلية',
+  'religion.other': 'أخرى',
+
+  'treatment.hikmat': 'الحكمة (الطب العشبي التقليدي)',
+  'treatment.homeopathy': 'المعالجة المثلية',
+  'treatment.allopathy': 'الطب الحديث (أطباء متخصصون)',
+  'treatment.islam': 'القرآن والأسماء الحسنى',
+  'treatment.christianity': 'الشفاء الإنجيلي والصلاة',
+  'treatment.hinduism': 'الأيورفيدا والمانترا',
+  'treatment.buddhism': 'التأمل والترتيل',
+  'treatment.sikhism': 'تلاوة الغورباني والخدمة',
+  'treatment.judaism': 'دراسة التوراة والصلاة',
+  'treatment.bahai': 'كتابات بهاء الله والصلاة',
+  'treatment.chineseFolk': 'تكريم الأسلاف والعلاجات العشبية',
+  'treatment.spiritism': 'الإرشاد الروحي والشفاء',
+  'treatment.indigenous': 'الطقوس التقليدية والشفاء الطبيعي',
+
+  'sex.female': 'أنثى',
+  'sex.male': 'ذكر',
+  'sex.other': 'آخر',
+
+  'pregnancy.none': 'ليست حاملًا ولا مرضعًا',
+  'pregnancy.pregnant': 'حامل',
+  'pregnancy.breastfeeding': 'مرضع',
+  'pregnancy.pregnant-breastfeeding': 'حامل ومرضع',
+
+  'missing.sex': 'الجنس',
+  'missing.weight': 'الوزن',
+  'missing.weightChild': 'الوزن (ضروري لجرعات الأطفال)',
+  'missing.allergies': 'الحساسية المعروفة',
+  'missing.currentMedications': 'الأدوية الحالية',
+  'missing.pregnancyStatus': 'حالة الحمل',
+
+  'validation.weightRange': 'أدخل وزنًا بين 0.5 و350 كغ.',
+  'validation.weightInfant': 'يبدو هذا الوزن مرتفعًا جدًا بالنسبة لرضيع. يرجى التحقق منه.',
+  'validation.heightRange': 'أدخل طولًا بين 30 و250 سم.',
+  'validation.pregnancyMismatch': 'الحمل أو الرضاعة لا يتوافق مع الجنس أو العمر المدخل.',
+  'validation.tooLong': 'يرجى ألا يتجاوز النص {max} حرفًا.',
+
+  'error.requiredFields': 'يرجى ملء جميع الحقول المطلوبة، ووصف الأعراض أو رفع تقرير، واختيار نوع علاج واحد على الأقل.',
+  'error.clinicalDetails': 'يرجى تصحيح التفاصيل السريرية المحددة.',
+  'error.invalidFiles': 'بعض الملفات غير صالحة. تُقبل فقط ملفات PDF الأصغر من 20 ميغابايت وصور JPG أو PNG أو WebP أو HEIC الأصغر من 50 ميغابايت.',
+  'error.quota': 'تم بلوغ حد استخدام خدمة الذكاء الاصطناعي. انتظر دقيقة ثم حاول مرة أخرى، أو تحقق من خطة مفتاح API في الإعدادات.',
+  'error.safety': 'رفضت خدمة الذكاء الاصطناعي الرد على هذا الطلب. أعد صياغة الوصف وحاول مرة أخرى.',
+  'error.network': 'تعذّر الوصول إلى خدمة الذكاء الاصطناعي. تحقق من الاتصال بالإنترنت وحاول مرة أخرى.',
+  'error.unavailable': 'خدمة الذكاء الاصطناعي مشغولة أو غير متاحة حاليًا. يُرجى المحاولة مرة أخرى بعد بضع دقائق.',
+  'error.invalidOutput': 'استمر الذكاء الاصطناعي في إرجاع وصفة لا تلتزم بالقواعد (اللغة، خطة لكل علاج، أدوية كاملة، نصائح). يُرجى المحاولة مرة أخرى.',
+
+  'prescription.previewTitle': 'معاينة الوصفة',
+  'prescription.downloadPdf': 'تنزيل PDF',
+  'prescription.creatingPdf': 'جارٍ إنشاء PDF...',
+  'prescription.downloadImage': 'صورة (PNG)',
+  'prescription.creatingImage': 'جارٍ إنشاء الصورة...',
+  'prescription.pdfError': 'تعذّر إنشاء ملف PDF. حاول مرة أخرى أو نزّل صورة بدلًا منه.',
+  'prescription.imageError': 'تعذّر إنشاء الصورة. يرجى المحاولة مرة أخرى.',
+  'prescription.streaming': 'ما زال الإعداد جاريًا. تظهر الأقسام فور وصولها.',
+  'prescription.edit': 'العودة والتعديل',
+  'prescription.preview': 'معاينة الوصفة',
+  'prescription.startNew': 'بدء جديد',
+  'prescription.incomplete': 'توقف إعداد هذه الوصفة قبل اكتمالها وقد تنقصها بعض الأقسام.',
+  'prescription.cancelled': 'أُلغي الإعداد. الأقسام التي وصلت حتى الآن محفوظة أدناه وقد تكون غير مكتملة.',
+  'prescription.stoppedEarly': '{reason} الأقسام التي وصلت حتى الآن محفوظة أدناه وقد تكون غير مكتملة.',
+  'prescription.safetyUnchecked': 'لم يتعرّف فحص السلامة على أي من أسماء الأدوية، لذلك لم تُفحص التداخلات بين الأدوية والأعشاب. افحصها بنفسك قبل الاعتماد.',
+  'prescription.disclaimer': 'أُعدّت هذه الوصفة بواسطة نموذج ذكاء اصطناعي. وهي لأغراض إعلامية فقط ولا ينبغي اعتبارها بديلًا عن الاستشارة الطبية المتخصصة أو التشخيص أو العلاج. استشر دائمًا مقدم رعاية صحية مؤهلًا قبل اتخاذ أي قرار صحي أو بدء أي علاج جديد.',
+
+  'review.draft': 'اقتراح مسودة من الذكاء الاصطناعي.',
+  'review.draftHint': 'يجب أن يراجعه ممارس صحي ويعتمده قبل إصداره.',
+  'review.edit': 'تعديل الوصفة',
+  'review.doneEditing': 'إنهاء التعديل',
+  'review.notes': 'ملاحظات المراجعة',
+  'review.notesPlaceholder': 'ملاحظات للمريض أو للسجل (اختياري)',
+  'review.reviewerName': 'اسم المراجِع',
+  'review.approve': 'اعتماد وتوقيع',
+  'review.approvedBy': 'اعتمده {name} في {date}.',
+  'review.includesEdits': 'يتضمن تعديلات الممارس.',
+  'review.revoke': 'سحب الاعتماد',
+  'review.revokeConfirm': 'سحب الاعتماد وإعادة هذه الوصفة إلى مسودة؟',
+  'review.addedByReviewer': 'أضافه المراجِع',
+  'review.addMedicine': '+ إضافة دواء',
+  'review.instruction': 'تعليمات',
+  'review.advice': 'نصيحة',
+
+  'compare.layout': 'طريقة العرض',
+  'compare.stacked': 'واحدًا تلو الآخر',
+  'compare.sideBySide': 'جنبًا إلى جنب',
+  'compare.title': 'مقارنة الخيارات',
+  'compare.duration': 'المدة المتوقعة',
+  'compare.medicines': 'عدد الأدوية',
+  'compare.cost': 'التكلفة التقريبية',
+  'compare.evidence': 'الأدلة العلمية',
+  'compare.cautions': 'تحذيرات',
+  'compare.plan': 'الخطة',
+  'compare.notStated': 'غير محدد',
+  'cost.low': 'منخفضة',
+  'cost.moderate': 'متوسطة',
+  'cost.high': 'مرتفعة',
+  'evidence.strong': 'أدلة سريرية قوية',
+  'evidence.moderate': 'بعض الأدلة السريرية',
+  'evidence.limited': 'أدلة محدودة',
+  'evidence.traditional': 'استخدام تقليدي، غير مختبر سريريًا',
+
+  'dose.title': 'جدول الجرعات',
+  'dose.starting': 'يبدأ في {date}',
+  'dose.medicine': 'الدواء',
+  'dose.food': 'الطعام',
+  'dose.days': 'الأيام',
+  'dose.day': 'اليوم {day}',
+  'dose.asDirected': 'حسب الإرشادات',
+  'dose.tick': 'ضع علامة على كل جرعة بعد تناولها، وأكمل العلاج حتى نهايته.',
+  'dose.reminderTitle': 'موعد دواء {name}',
+  'doseTime.morning': 'الصباح',
+  'doseTime.noon': 'الظهر',
+  'doseTime.evening': 'المساء',
+  'doseTime.night': 'الليل',
+  'food.before': 'قبل الأكل',
+  'food.with': 'مع الأكل',
+  'food.after': 'بعد الأكل',
+  'food.any': 'مع الطعام أو بدونه',
+  'dose.startDate': 'بداية العلاج',
+  'dose.print': 'طباعة جدول الجرعات',
+  'dose.calendar': 'إضافة إلى التقويم',
+  'dose.remind': 'ذكّرني',
+  'dose.remindersOn': 'التذكيرات مفعّلة',
+  'dose.remindersNote': 'تظهر التذكيرات فقط أثناء فتح هذا التطبيق. أضف العلاج إلى التقويم لتصلك التذكيرات على هاتفك.',
+  'dose.remindersBlocked': 'الإشعارات محظورة. اسمح بها في إعدادات المتصفح لتلقي التذكيرات.',
+  'dose.remindersUnsupported': 'لا يمكن لهذا المتصفح عرض التذكيرات. أضف العلاج إلى التقويم بدلًا من ذلك.',
+
+  'share.button': 'مشاركة الرابط',
+  'share.title': 'المشاركة مع المريض',
+  'share.intro': 'تُحفظ الوصفة داخل الرابط نفسه، فلا تُرفع إلى أي مكان. يمكن لأي شخص لديه الرابط قراءتها ما لم تضف عبارة مرور.',
+  'share.passphrase': 'عبارة المرور (اختيارية)',
+  'share.passphraseHint': 'أخبر المريض بعبارة المرور شخصيًا أو هاتفيًا، وليس في رسالة الرابط نفسها.',
+  'share.create': 'إنشاء الرابط',
+  'share.creating': 'جارٍ الإنشاء…',
+  'share.copy': 'نسخ الرابط',
+  'share.copied': 'تم النسخ',
+  'share.send': 'إرسال…',
+  'share.qrOnPrint': 'يُطبع رمز QR أيضًا على الوصفة ويُضمَّن في ملف PDF.',
+  'share.tooLongForQr': 'هذه الوصفة أطول من أن تُوضع في رمز QR. أرسل الرابط بدلًا من ذلك.',
+  'share.error': 'تعذّر إنشاء الرابط في هذا المتصفح.',
+  'share.scan': 'امسح الرمز لفتح هذه الخطة على هاتفك',
+  'shared.title': 'وصفتك الطبية',
+  'shared.readOnly': 'نسخة للقراءة فقط شوركت في {date}',
+  'shared.passphrasePrompt': 'هذه الوصفة محمية. أدخل عبارة المرور التي أعطاك إياها طبيبك.',
+  'shared.open': 'فتح',
+  'shared.opening': 'جارٍ فتح الوصفة…',
+  'shared.print': 'طباعة',
+  'shared.wrongPassphrase': 'عبارة المرور غير صحيحة.',
+  'shared.invalid': 'هذا الرابط تالف أو غير مكتمل. اطلب من طبيبك إرساله مرة أخرى.',
+  'shared.unsupported': 'لا يمكن لهذا المتصفح فتح الوصفات المشتركة. جرّب متصفحًا حديثًا.',
+  'shared.openApp': 'فتح الطبيب الذكي',
+
+  'upload.processing': 'جارٍ تجهيز {name}…',
+  'upload.duplicate': 'مرفق مسبقًا: {names}.',
+  'upload.failed': 'تعذّرت قراءة: {names}.',
+  'upload.enhance': 'تحسين الصورة تلقائيًا',
+  'upload.cropped': 'تم القص',
+  'upload.straightened': 'تم تعديل الميل {degrees}°',
+  'upload.contrast': 'تم رفع التباين',
+  'upload.resized': 'تم تصغير الحجم',
+  'upload.notEnhanced': 'تعذّر تحسين هذه الصورة وسترسل كما هي.',
+  'upload.pagesSelected': 'سيتم إرسال {selected} من {total} صفحات',
+  'upload.noPagesSelected': 'لم تُحدد أي صفحة؛ لن يُرسل هذا التقرير',
+  'upload.allPages': 'تحديد الكل',
+  'upload.noPages': 'إلغاء التحديد',
+  'upload.page': 'الصفحة {number}',
+  'upload.noPreview': 'لا تتوفر معاينة؛ سيُرسل ملف PDF كاملًا.',
+
+  'lab.title': 'نتائج المختبر',
+  'lab.summary': '({rows} صفوف، {abnormal} خارج النطاق)',
+  'lab.addRow': '+ إضافة صف',
+  'lab.hint': 'طابق كل صف مع التقرير وصحّح أي قراءة خاطئة قبل إعداد الخطة.',
+  'lab.test': 'الفحص',
+  'lab.value': 'القيمة',
+  'lab.unit': 'الوحدة',
+  'lab.reference': 'المرجع',
+  'lab.referenceRange': 'النطاق المرجعي',
+  'lab.flag': 'التصنيف',
+  'lab.date': 'التاريخ',
+  'lab.reportDate': 'تاريخ التقرير',
+  'lab.normalized': 'بالوحدة القياسية',
+  'lab.remove': 'إزالة',
+  'lab.removeRow': 'إزالة الصف',
+  'lab.enteredByStaff': 'أدخله الطاقم',
+  'labFlag.normal': 'طبيعي',
+  'labFlag.low': 'منخفض',
+  'labFlag.high': 'مرتفع',
+  'labFlag.critical': 'حرج',
+
+  'queue.title': 'قائمة الانتظار دون اتصال',
+  'queue.offline': 'أنت غير متصل. يظل النموذج يعمل؛ تُوضع الاستشارات المرسلة في قائمة انتظار وتُنشأ عند عودة الاتصال.',
+  'queue.offlineLocal': 'أنت غير متصل. لا يزال النموذج المحلي متاحًا.',
+  'queue.submit': 'إضافة الاستشارة إلى قائمة الانتظار',
+  'queue.queued': 'أُضيفت استشارة {name} إلى قائمة الانتظار. ستُنشأ عند عودة الاتصال.',
+  'queue.full': 'لا توجد مساحة كافية على هذا الجهاز لإضافة الاستشارة إلى قائمة الانتظار. أزل بعض التقارير أو العناصر المكتملة وحاول مرة أخرى.',
+  'queue.willRun': 'ستُنشأ الاستشارات المنتظرة تلقائيًا عند عودة الاتصال.',
+  'queue.waiting': 'قيد الانتظار',
+  'queue.processing': 'جارٍ الإنشاء',
+  'queue.done': 'جاهزة',
+  'queue.failed': 'فشلت',
+  'queue.emergency': 'طارئ',
+  'queue.emergencyHint': 'وجد الفرز علامات إنذار طارئة. أحِل المريض إلى رعاية عاجلة، أو تابع فقط بعد المراجعة.',
+  'queue.open': 'فتح',
+  'queue.retry': 'إعادة المحاولة',
+  'queue.continueAnyway': 'المتابعة على أي حال',
+  'queue.clearDone': 'مسح المكتملة',
+  'queue.queuedAt': 'أُضيفت {time}',
+  'queue.missing': 'تعذر العثور على الاستشارة المُنشأة في سجل المريض.',
+
+  'header.lock': 'قفل',
+  'lock.title': 'أدخل رمز PIN الخاص بالعيادة',
+  'lock.subtitle': 'سجلات المرضى على هذا الجهاز مقفلة.',
+  'lock.setupTitle': 'عيّن رمز PIN للعيادة',
+  'lock.setupSubtitle': 'تُشفَّر سجلات المرضى على هذا الجهاز بهذا الرمز. استخدم {min} أحرف على الأقل.',
+  'lock.pin': 'رمز PIN',
+  'lock.confirmPin': 'أعد إدخال الرمز',
+  'lock.setupNote': 'لا يمكن استعادة السجلات دون الرمز.',
+  'lock.unlock': 'فتح القفل',
+  'lock.setup': 'تعيين الرمز والمتابعة',
+  'lock.forgot': 'نسيت الرمز؟ امسح كل البيانات على هذا الجهاز',
+  'lock.resetConfirm': 'لا يمكن قراءة سجلات المرضى على هذا الجهاز دون الرمز. هل تريد مسحها كلها وتعيين رمز جديد؟',
+  'lock.wrongPin': 'هذا الرمز غير صحيح.',
+  'lock.tooShort': 'الرمز قصير جدًا.',
+  'lock.mismatch': 'الرمزان غير متطابقين.',
+  'lock.failed': 'تعذر فتح سجلات المرضى على هذا الجهاز.',
+  'consent.label': 'يوافق المريض على إرسال بياناته وأعراضه وتقاريره إلى خدمة الذكاء الاصطناعي لإعداد هذه الخطة.',
+  'consent.recorded': 'سُجّلت الموافقة {time}',
+  'consent.required': 'سجّل موافقة المريض قبل إرسال أي شيء إلى خدمة الذكاء الاصطناعي.',
+  'consent.needed': 'يتطلب موافقة المريض أدناه',
+
+  'redact.open': 'إخفاء التفاصيل',
+  'redact.count': 'تم إخفاء {count} مناطق',
+  'redact.title': 'إخفاء البيانات المعرِّفة',
+  'redact.instructions': 'اسحب فوق الأسماء وأرقام السجلات والعناوين لتغطيتها بالأسود. تُرسل الصورة المغطاة فقط. اختر مربعًا لإزالته.',
+  'redact.suggest': 'البحث بالتعرف الضوئي',
+  'redact.suggesting': 'جارٍ قراءة الصورة…',
+  'redact.suggested': 'تم العثور على {count} مناطق. تحقق من الصورة بحثًا عن أي شيء فاتها.',
+  'redact.suggestFailed': 'تعذّرت قراءة الصورة. ارسم المربعات يدويًا.',
+  'redact.clear': 'مسح الكل',
+  'redact.save': 'حفظ',
+  'redact.removeBox': 'إزالة هذا المربع',
+  'redact.enhanceLocked': 'امسح المناطق المخفية قبل تغيير هذا',
+  'privacy.preview': 'معاينة الخصوصية',
+  'privacy.title': 'ما الذي سيُرسل إلى خدمة الذكاء الاصطناعي',
+  'privacy.intro': 'هذا كل ما سيغادر هذا الجهاز. تُملأ العناصر البديلة مثل [PATIENT_NAME] من جديد على هذا الجهاز فقط.',
+  'privacy.settingsHint': 'اختر البيانات التي تُستبدل من الإعدادات.',
+  'privacy.loading': 'جارٍ تجهيز المعاينة…',
+  'privacy.failed': 'تعذّر تجهيز المعاينة.',
+  'privacy.triage': 'فحص درجة الإلحاح',
+  'privacy.prescription': 'الوصفة',
+  'privacy.triageNote': 'يعتمد سطر الفرز في طلب الوصفة على نتيجة فحص درجة الإلحاح.',
+  'privacy.attachments': 'المرفقات ({count})',
+  'privacy.pdf': 'تقرير PDF ({size} كيلوبايت) يُرسل مع نصه. الإخفاء متاح للصور فقط.',
+
+  'print.date': 'التاريخ',
+  'print.age': 'العمر',
+  'print.district': 'المنطقة',
+  'print.cell': 'الجوال',
+  'print.condition': 'الحالة',
+  'print.sex': 'الجنس',
+  'print.weight': 'الوزن',
+  'print.height': 'الطول',
+  'print.bmi': 'مؤشر كتلة الجسم',
+  'print.allergies': 'الحساسية',
+  'print.currentMedications': 'الأدوية الحالية',
+  'print.chronicConditions': 'الأمراض المزمنة',
+  'print.pregnancy': 'الحمل',
+  'print.tel': 'هاتف',
+  'print.regNo': 'رقم التسجيل',
+  'print.triage': 'الفرز',
+  'print.overridden': 'قرر الطبيب المتابعة في {date}.',
+  'print.safetyCheck': 'فحص السلامة',
+  'print.safetyFlagged': 'تم تمييز {count} من التداخلات أو موانع الاستعمال المحتملة أدناه. راجعها قبل الاستخدام.',
+  'print.approvedStamp': 'راجعه واعتمده {name} في {date}.',
+  'print.draftStamp': 'اقتراح مسودة من الذكاء الاصطناعي — لم يراجعه ممارس بعد. لا تستخدمه للعلاج.',
+  'print.practitionerNote': 'ملاحظة الممارس',
+  'print.practitionerNotes': 'ملاحظات الممارس',
+  'print.followUp': 'أسئلة المتابعة',
+  'print.question': 'س',
+  'print.answer': 'ج',
+  'print.signature': 'التوقيع',
+  'print.reviewingPractitioner': 'الممارس المراجِع',
+
+  'urgency.emergency': 'طارئ',
+  'urgency.urgent': 'عاجل',
+  'urgency.routine': 'روتيني',
+  'urgencyNote.emergency': 'اطلب الرعاية الطارئة فورًا.',
+  'urgencyNote.urgent': 'راجع طبيبًا شخصيًا خلال 24 ساعة.',
+  'urgencyNote.routine': 'لم تُرصد أعراض إنذارية.',
+  'severity.major': 'شديد',
+  'severity.moderate': 'متوسط',
+  'severity.minor': 'طفيف',
+
+  'chat.title': 'أسئلة حول هذه الوصفة',
+  'chat.includeInPrint': 'تضمين في النسخة المطبوعة',
+  'chat.empty': 'اسأل أي شيء عن هذه الخطة، مثل: "هل آخذه مع الطعام؟" أو "ماذا لو استمرت الحمى؟". تصلك الإجابات باللغة {language}.',
+  'chat.placeholder': 'اكتب سؤال متابعة...',
+  'chat.inputLabel': 'سؤال متابعة',
+  'chat.ask': 'اسأل',
+
+  'emergency.title': 'اطلب الرعاية الطارئة الآن',
+  'emergency.subtitle': 'قد تكون هذه الأعراض مهددة للحياة. لا تنتظر وصفة عبر الإنترنت.',
+  'emergency.callForHelp': 'اتصل طلبًا للمساعدة:',
+  'emergency.callForHelpIn': 'اتصل طلبًا للمساعدة في {district}:',
+  'emergency.noContacts': 'اتصل برقم الطوارئ المحلي أو توجّه إلى قسم الطوارئ في أقرب مستشفى.',
+  'emergency.back': 'العودة إلى النموذج',
+  'emergency.clinicianConfirm': 'قام طبيب بفحص المريض شخصيًا وقرر المتابعة. سيُسجَّل ذلك على الوصفة.',
+  'emergency.continue': 'المتابعة إلى الوصفة',
+
+  'settings.aiProvider': 'مزوّد الذكاء الاصطناعي',
+  'settings.provider': 'المزوّد',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'خادم متوافق مع OpenAI (OpenAI، Ollama، llama.cpp)',
+  'settings.providerMock': 'محاكاة دون اتصال (ردود جاهزة، بلا شبكة)',
+  'settings.model': 'النموذج',
+  'settings.serverUrl': 'عنوان URL للخادم',
+  'settings.apiKeyGemini': 'مفتاح API (اختياري، يحل محل المفتاح المدمج)',
+  'settings.apiKeyOptional': 'مفتاح API (اختياري)',
+  'settings.apiKeyHint': 'محفوظ في هذا المتصفح فقط.',
+  'settings.emergencyNumbers': 'أرقام الطوارئ',
+  'settings.emergencyHint': 'تظهر في شاشة الطوارئ. اترك المنطقة فارغة للأرقام التي تصلح في كل مكان.',
+  'settings.district': 'المنطقة',
+  'settings.allDistricts': 'كل المناطق',
+  'settings.service': 'الخدمة',
+  'settings.number': 'الرقم',
+  'settings.addNumber': '+ إضافة رقم',
+  'settings.security': 'الأمان',
+  'settings.securityHint': 'سجلات المرضى على هذا الجهاز مشفرة برمز PIN الخاص بالعيادة. لا توجد طريقة لاستعادتها دونه.',
+  'settings.autoLock': 'القفل بعد عدم النشاط',
+  'settings.oneMinute': 'دقيقة واحدة',
+  'settings.minutes': '{count} دقيقة',
+  'settings.currentPin': 'رمز PIN الحالي',
+  'settings.newPin': 'رمز PIN الجديد',
+  'settings.newPinPlaceholder': 'رمز PIN الجديد ({min} أحرف على الأقل)',
+  'settings.repeatPin': 'أعد إدخال رمز PIN الجديد',
+  'settings.changePin': 'تغيير رمز PIN',
+  'settings.changingPin': 'جارٍ تغيير رمز PIN...',
+  'settings.pinChanged': 'تم تغيير رمز PIN.',
+  'settings.pinFailed': 'تعذّر تغيير رمز PIN.',
+  'settings.privacy': 'الخصوصية',
+  'settings.privacyHint': 'تُستبدل بعناصر نائبة قبل إرسال أي شيء إلى الذكاء الاصطناعي، ولا تُعاد إلا على هذا الجهاز.',
+  'settings.modalities': 'أنواع العلاج',
+  'settings.modalitiesHint': 'أنواع العلاج المعروضة في نموذج المريض. تُرسل تعليمات كل نوع إلى الذكاء الاصطناعي عند اختياره.',
+  'privacyField.name': 'اسم المريض',
+  'privacyField.cell': 'رقم الجوال',
+  'privacyField.district': 'المنطقة',
+  'privacyField.otherIdentifiers': 'أرقام الهواتف الأخرى والبريد الإلكتروني وأرقام الهوية أو السجلات في الوصف',
+
+  'history.savedLocally': 'محفوظ على هذا الجهاز فقط.',
+  'history.back': 'رجوع',
+  'history.loadFailed': 'تعذّر فتح سجل المرضى المحلي.',
+  'history.search': 'ابحث بالاسم أو رقم الجوال أو المنطقة...',
+  'history.noPatients': 'لا يوجد مرضى محفوظون بعد.',
+  'history.noMatches': 'لا يوجد مرضى يطابقون بحثك.',
+  'history.age': 'العمر: {age}',
+  'history.district': 'المنطقة: {district}',
+  'history.cell': 'الجوال: {cell}',
+  'history.lastVisit': 'آخر زيارة: {date}',
+  'history.followUp': 'زيارة متابعة',
+  'history.export': 'تصدير بيانات المريض',
+  'history.exportFailed': 'تعذّر تصدير بيانات {name}.',
+  'history.erasePatient': 'محو المريض',
+  'history.eraseWarning': 'سيؤدي هذا إلى محو استشارات {name} وتقاريره والاستشارات المنتظرة وتذكيرات الجرعات من هذا الجهاز نهائيًا. صدّر بياناته أولًا إن طلب نسخة منها. اكتب اسم المريض للتأكيد.',
+  'history.patientName': 'اسم المريض',
+  'history.erase': 'محو',
+  'history.erased': 'تم محو {name}: {consultations} استشارة، و{attachments} ملف تقرير، و{queued} استشارة منتظرة، و{reminders} تذكير جرعة. تم التحقق في {time} من عدم بقاء أي شيء على هذا الجهاز.',
+  'history.eraseFailed': 'تعذّر محو {name}.',
+  'history.eraseIncomplete': 'تعذّر محو بعض سجلات المريض. حاول مرة أخرى.',
+  'history.consultations': 'الاستشارات',
+  'history.labTrends': 'اتجاهات التحاليل',
+  'history.approved': 'معتمد',
+  'history.draft': 'مسودة',
+  'history.reports': '{count} تقرير',
+  'history.reopen': 'إعادة الفتح',
+  'history.print': 'طباعة',
+  'history.delete': 'حذف',
+  'history.deleteConfirm': 'حذف الاستشارة المؤرخة في {date}؟',
+  'history.noConsultations': 'لا توجد استشارات مسجلة.',
+
+  'clinic.imageError': 'تعذّرت قراءة هذه الصورة. يرجى استخدام ملف PNG أو JPEG.',
+  'clinic.saveError': 'تعذّر حفظ الملف التعريفي. جرّب صورًا أصغر للشعار أو التوقيع.',
+  'clinic.letterhead': 'الترويسة',
+  'clinic.letterheadHint': 'تُطبع على كل وصفة. محفوظة في هذا المتصفح فقط.',
+  'clinic.logo': 'الشعار',
+  'clinic.defaultLogo': 'الشعار الافتراضي',
+  'clinic.none': 'لا يوجد',
+  'clinic.upload': 'رفع',
+  'clinic.clinicName': 'اسم العيادة',
+  'clinic.tagline': 'الشعار النصي',
+  'clinic.address': 'العنوان',
+  'clinic.phone': 'الهاتف',
+  'clinic.registrationNumber': 'رقم التسجيل',
+  'clinic.prescriber': 'الواصف',
+  'clinic.practitionerName': 'الممارس المراجِع',
+  'clinic.signature': 'التوقيع',
+  'clinic.disclaimer': 'إخلاء المسؤولية',
+  'clinic.disclaimerHint': 'يُكتب بالإنجليزية ويُترجم تلقائيًا إلى لغة كل مريض. تغييره يحذف الترجمات المحفوظة.',
+  'clinic.removeTranslation': 'إزالة الترجمة',
+
+  'medEditor.name': 'الدواء',
+  'medEditor.strength': 'التركيز',
+  'medEditor.dosage': 'الجرعة',
+  'medEditor.duration': 'المدة',
+  'medEditor.route': 'طريقة الإعطاء',
+  'medEditor.notes': 'ملاحظات',
+  'medEditor.mealsNotStated': 'الوجبات: غير محدد',
+  'medEditor.reviewerNote': 'ملاحظة المراجِع',
+  'medEditor.reviewerNotePlaceholder': 'ملاحظة المراجِع (اختياري)',
+  'medEditor.strike': 'شطب',
+  'medEditor.restore': 'استعادة',
+  'modality.new': 'نوع جديد',
+  'modality.offer': 'عرض {name}',
+  'modality.patientsOnly': 'لمرضى {religion} فقط',
+  'modality.edit': 'تعديل',
+  'modality.done': 'تم',
+  'modality.name': 'الاسم (بالإنجليزية، ويُعرض أيضًا على الذكاء الاصطناعي)',
+  'modality.namePlaceholder': 'مثل Unani أو Acupuncture أو Physiotherapy',
+  'modality.category': 'الفئة',
+  'modality.format': 'تتضمن الخطة',
+  'modality.offeredTo': 'مقدَّم إلى',
+  'modality.allPatients': 'كل المرضى',
+  'modality.rules': 'تعليمات للذكاء الاصطناعي',
+  'modality.rulesPlaceholder': 'ما يجب أن تتضمنه هذه الخطة وكيف تُكتب.',
+  'modality.conventionalHint': 'تُفحص علاجات خطط الطب الحديث بحثًا عن التداخلات الدوائية، وتُفحص جميع العلاجات الأخرى كعلاجات عشبية.',
+  'modality.restore': 'استعادة الافتراضي',
+  'modality.add': '+ إضافة نوع',
+  'modalityCategory.conventional': 'الطب الحديث',
+  'modalityCategory.traditional': 'شعبي / تكميلي',
+  'modalityCategory.spiritual': 'روحي',
+  'modalityCategory.therapy': 'علاج طبيعي أو نفسي',
+  'outputFormat.medications': 'علاجات (الاسم، التركيز، الجرعة، المدة)',
+  'outputFormat.instructions': 'إرشادات فقط (بلا علاجات)',
+  'outputFormat.mixed': 'علاجات وإرشادات',
+};
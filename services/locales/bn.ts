@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const bn: Messages = {
+  'app.title': 'এআই ডাক্তার',
+  'header.history': 'রোগীর ইতিহাস',
+  'header.clinicProfile': 'ক্লিনিক প্রোফাইল',
+  'header.settings': 'সেটিংস',
+  'header.uiLanguage': 'ইন্টারফেসের ভাষা',
+
+  'common.cancel': 'বাতিল',
+  'common.close': 'বন্ধ করুন',
+  'common.remove': 'সরান',
+  'common.save': 'সংরক্ষণ করুন',
+
+  'loading.title': 'এআই ডাক্তারের সাথে পরামর্শ চলছে...',
+  'loading.subtitle': 'রিপোর্ট বিশ্লেষণ করে আপনার স্বাস্থ্য পরিকল্পনা তৈরি হচ্ছে।',
+
+  'form.title': 'রোগীর তথ্য',
+  'form.subtitle': 'ব্যক্তিগত পরিকল্পনার জন্য আপনার বিবরণ দিন।',
+  'form.name': 'নাম',
+  'form.age': 'বয়স',
+  'form.district': 'জেলা / শহর',
+  'form.cell': 'মোবাইল নম্বর (ঐচ্ছিক)',
+  'form.religion': 'ধর্ম',
+  'form.selectReligion': 'ধর্ম নির্বাচন করুন',
+  'form.language': 'পছন্দের ভাষা',
+  'form.clinicalDetails': 'চিকিৎসা সংক্রান্ত বিবরণ',
+  'form.clinicalHint': '(ঐচ্ছিক, তবে নিরাপদ মাত্রার জন্য সুপারিশকৃত)',
+  'form.sex': 'লিঙ্গ',
+  'form.notSpecified': 'উল্লেখ নেই',
+  'form.weight': 'ওজন (কেজি)',
+  'form.height': 'উচ্চতা (সেমি)',
+  'form.pregnancy': 'গর্ভাবস্থা / স্তন্যদান',
+  'form.allergies': 'জানা অ্যালার্জি',
+  'form.allergiesPlaceholder': 'যেমন পেনিসিলিন, সালফা ওষুধ, চিনাবাদাম',
+  'form.currentMedications': 'বর্তমান ওষুধ',
+  'form.currentMedicationsPlaceholder': 'যেমন মেটফরমিন ৫০০mg দিনে দুবার',
+  'form.chronicConditions': 'দীর্ঘমেয়াদি রোগ',
+  'form.chronicConditionsPlaceholder': 'যেমন ডায়াবেটিস, উচ্চ রক্তচাপ, হাঁপানি',
+  'form.recommended': 'সুপারিশ: {fields} যোগ করুন যাতে নিরাপদে মাত্রা ঠিক করা যায়।',
+  'form.describeOrUpload': 'অসুস্থতার বর্ণনা দিন বা রিপোর্ট আপলোড করুন',
+  'form.tabSymptoms': 'লক্ষণ বর্ণনা করুন',
+  'form.tabUpload': 'রিপোর্ট আপলোড করুন',
+  'form.symptomsPlaceholder': 'উদাহরণ: আমার জ্বর, কাশি এবং মাথাব্যথা আছে...',
+  'form.clickToUpload': 'আপলোড করতে ক্লিক করুন',
+  'form.dragAndDrop': 'অথবা টেনে এনে ছেড়ে দিন',
+  'form.fileTypes': 'PDF সর্বোচ্চ ২০MB; JPG, PNG, WebP বা HEIC ছবি সর্বোচ্চ ৫০MB',
+  'form.uploadedFiles': 'আপলোড করা ফাইল:',
+  'form.extractLabResults': 'ল্যাব ফলাফল বের করুন ({count})',
+  'form.readingReports': 'রিপোর্ট পড়া হচ্ছে...',
+  'form.reportComments': 'রিপোর্ট সম্পর্কে মন্তব্য বা প্রশ্ন (ঐচ্ছিক)',
+  'form.reportCommentsPlaceholder': 'আপনার রিপোর্ট সম্পর্কে তথ্য দিন বা নির্দিষ্ট প্রশ্ন করুন... যেমন "সংযুক্ত ফাইলে আমার কিডনির পরীক্ষার ফল দেখুন।"',
+  'form.treatmentTypes': 'চিকিৎসার ধরন বেছে নিন',
+  'form.returningPatient': 'পুরোনো রোগী:',
+  'form.includeHistory': 'এই ফলো-আপ ভিজিটের জন্য আগের {count}টি পরামর্শ প্রসঙ্গ হিসেবে যুক্ত করুন।',
+  'form.submit': 'এআই প্রেসক্রিপশন নিন',
+  'form.generating': 'তৈরি হচ্ছে...',
+
+  'voice.record': 'লক্ষণ রেকর্ড করুন',
+  'voice.stop': 'রেকর্ডিং থামান',
+  'voice.recording': 'রেকর্ড হচ্ছে... {time}',
+  'voice.transcribing': 'রেকর্ডিং শোনা হচ্ছে...',
+  'voice.reviewTitle': 'আমরা যা শুনেছি তা যাচাই করুন',
+  'voice.reviewHint': 'বর্ণনায় যোগ করার আগে ভুল থাকলে ঠিক করুন।',
+  'voice.symptoms': 'শোনা লক্ষণ:',
+  'voice.use': 'বর্ণনায় যোগ করুন',
+  'voice.discard': 'বাতিল করুন',
+  'voice.micError': 'মাইক্রোফোন ব্যবহার করা যায়নি। ব্রাউজারে মাইক্রোফোনের অনুমতি দিয়ে আবার চেষ্টা করুন।',
+  'voice.unsupported': 'এই ব্রাউজারে ভয়েস ইনপুট সমর্থিত নয়।',
+  'voice.empty': 'রেকর্ডিংয়ে কোনো কথা শোনা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'speech.readAloud': 'পড়ে শোনান',
+  'speech.stop': 'পড়া থামান',
+  'speech.noVoice': 'এই ডিভাইসে {language} ভাষার কণ্ঠ নেই।',
+
+  'form.tabGuided': 'নির্দেশিত প্রশ্ন',
+  'guided.intro': 'কয়েকটি ছোট প্রশ্নের উত্তর দিন। শুধু মূল সমস্যাটি আবশ্যক; যেটি নিয়ে নিশ্চিত নন সেটি বাদ দিন।',
+  'guided.complaint': 'মূল সমস্যা কী?',
+  'guided.duration': 'এটি কতদিন ধরে হচ্ছে?',
+  'guided.durationValue': 'সংখ্যা',
+  'guided.severity': 'কতটা কষ্ট হচ্ছে? (0 = কোনো কষ্ট নেই, 10 = সবচেয়ে বেশি)',
+  'guided.notRated': 'এখনও দেওয়া হয়নি',
+  'guided.clear': 'মুছুন',
+  'guided.onset': 'এটি কীভাবে শুরু হয়েছিল?',
+  'guided.location': 'কোথায়? শরীরের ছবিতে ট্যাপ করুন বা নিচে থেকে বেছে নিন।',
+  'guided.bodyMap': 'শরীরের মানচিত্র',
+  'guided.temperature': 'সর্বোচ্চ মাপা তাপমাত্রা (°C)',
+  'guided.painCharacter': 'ব্যথা কেমন লাগে?',
+  'guided.associated': 'এগুলোর কোনোটিও কি আছে?',
+  'guided.tried': 'এ পর্যন্ত কী চেষ্টা করা হয়েছে?',
+  'guided.notes': 'আর কিছু? (ঐচ্ছিক)',
+  'guided.summaryTitle': 'উপসর্গের সারসংক্ষেপ',
+  'summary.complaint': 'অভিযোগ',
+  'summary.duration': 'সময়কাল',
+  'summary.severity': 'তীব্রতা',
+  'summary.onset': 'শুরু',
+  'summary.location': 'স্থান',
+  'summary.temperature': 'সর্বোচ্চ তাপমাত্রা',
+  'summary.painCharacter': 'ব্যথার ধরন',
+  'summary.associated': 'সঙ্গে আরও',
+  'summary.tried': 'আগে চেষ্টা করা হয়েছে',
+  'summary.notes': 'নোট',
+  'duration.hours': '{count} ঘণ্টা',
+  'duration.days': '{count} দিন',
+  'duration.weeks': '{count} সপ্তাহ',
+  'duration.months': '{count} মাস',
+  'durationUnit.hours': 'ঘণ্টা',
+  'durationUnit.days': 'দিন',
+  'durationUnit.weeks': 'সপ্তাহ',
+  'durationUnit.months': 'মাস',
+  'onset.sudden': 'হঠাৎ',
+  'onset.gradual': 'ধীরে ধীরে',
+  'complaint.fever': 'জ্বর',
+  'complaint.cough': 'কাশি',
+  'complaint.breathing': 'শ্বাসকষ্ট',
+  'complaint.pain': 'ব্যথা',
+  'complaint.stomach': 'পেট / হজম',
+  'complaint.skin': 'ত্বকের সমস্যা',
+  'complaint.urinary': 'প্রস্রাবের সমস্যা',
+  'complaint.fatigue': 'ক্লান্তি / দুর্বলতা',
+  'associated.chills': 'কাঁপুনি',
+  'associated.sweating': 'ঘাম',
+  'associated.bodyAches': 'গা ব্যথা',
+  'associated.headache': 'মাথাব্যথা',
+  'associated.rash': 'ফুসকুড়ি',
+  'associated.lossOfAppetite': 'ক্ষুধামান্দ্য',
+  'associated.phlegm': 'কফ',
+  'associated.bloodInPhlegm': 'কফে রক্ত',
+  'associated.soreThroat': 'গলা ব্যথা',
+  'associated.runnyNose': 'নাক দিয়ে পানি পড়া',
+  'associated.wheeze': 'শ্বাসে শোঁ শোঁ শব্দ',
+  'associated.chestPain': 'বুকে ব্যথা',
+  'associated.swelling': 'ফোলা',
+  'associated.numbness': 'অসাড়তা বা ঝিনঝিন',
+  'associated.dizziness': 'মাথা ঘোরা',
+  'associated.nausea': 'বমি বমি ভাব',
+  'associated.vomiting': 'বমি',
+  'associated.diarrhoea': 'ডায়রিয়া',
+  'associated.bloodInStool': 'মলে রক্ত',
+  'associated.itching': 'চুলকানি',
+  'associated.burningUrine': 'প্রস্রাবে জ্বালা',
+  'associated.frequentUrination': 'ঘন ঘন প্রস্রাব',
+  'associated.bloodInUrine': 'প্রস্রাবে রক্ত',
+  'associated.weightLoss': 'ওজন কমে যাওয়া',
+  'painCharacter.sharp': 'তীক্ষ্ণ / খোঁচা দেওয়া',
+  'painCharacter.dull': 'ভোঁতা / টনটনে',
+  'painCharacter.burning': 'জ্বালাপোড়া',
+  'painCharacter.cramping': 'মোচড়ানো',
+  'painCharacter.throbbing': 'দপদপে',
+  'tried.paracetamol': 'প্যারাসিটামল',
+  'tried.ibuprofen': 'আইবুপ্রোফেন',
+  'tried.antibiotics': 'অ্যান্টিবায়োটিক',
+  'tried.coughSyrup': 'কাশির সিরাপ',
+  'tried.antacid': 'অ্যান্টাসিড',
+  'tried.herbal': 'ভেষজ ওষুধ',
+  'tried.homeRemedy': 'ঘরোয়া প্রতিকার',
+  'tried.nothing': 'এখনও কিছু না',
+  'body.head': 'মাথা',
+  'body.throat': 'গলা / ঘাড়',
+  'body.chest': 'বুক',
+  'body.upperAbdomen': 'পেটের উপরের অংশ',
+  'body.lowerAbdomen': 'পেটের নিচের অংশ',
+  'body.arms': 'হাত',
+  'body.legs': 'পা',
+  'body.back': 'পিঠ',
+  'body.joints': 'গাঁট',
+  'body.wholeBody': 'সারা শরীর',
+
+  'religion.islam': 'ইসলাম',
+  'religion.christianity': 'খ্রিস্টধর্ম',
+  'religion.hinduism': 'হিন্দুধর্ম',
+  'religion.buddhism': 'বৌদ্ধধর্ম',
+  'religion.sikhism': 'শিখধর্ম',
+  'religion.judaism': 'ইহুদিধর্ম',
+  'religion.bahai': 'বাহাই ধর্ম',
+  'religion.chineseFolk': 'চীনা লোকধর্ম',
+  'religion.spiritism': 'আধ্যাত্মবাদ',
+  'religion.indigenous': 'জাতিগত / আদিবাসী ধর্ম',
+  'religion.other': 'অন্যান্য',
+
+  'treatment.hikmat': 'হেকিমি (ঐতিহ্যবাহী ভেষজ)',
+  'treatment.homeopathy': 'হোমিওপ্যাথি',
+  'treatment.allopathy': 'অ্যালোপ্যাথি (বিশেষজ্ঞ ডাক্তার)',
+  'treatment.islam': 'কুরআন ও আসমাউল হুসনা',
+  'treatment.christianity': 'বাইবেলীয় নিরাময় ও প্রার্থনা',
+  'treatment.hinduism': 'আয়ুর্বেদ ও মন্ত্র',
+  'treatment.buddhism': 'ধ্যান ও জপ',
+  'treatment.sikhism': 'গুরবাণী পাঠ ও সেবা',
+  'treatment.judaism': 'তোরাহ অধ্যয়ন ও প্রার্থনা',
+  'treatment.bahai': 'বাহাউল্লাহর রচনা ও প্রার্থনা',
+  'treatment.chineseFolk': 'পূর্বপুরুষ পূজা ও ভেষজ প্রতিকার',
+  'treatment.spiritism': 'আধ্যাত্মিক পরামর্শ ও নিরাময়',
+  'treatment.indigenous': 'ঐতিহ্যবাহী আচার ও প্রাকৃতিক নিরাময়',
+
+  'sex.female': 'নারী',
+  'sex.male': 'পুরুষ',
+  'sex.other': 'অন্যান্য',
+
+  'pregnancy.none': 'গর্ভবতী নন বা স্তন্যদান করছেন না',
+  'pregnancy.pregnant': 'গর্ভবতী',
+  'pregnancy.breastfeeding': 'স্তন্যদানকারী',
+  'pregnancy.pregnant-breastfeeding': 'গর্ভবতী ও স্তন্যদানকারী',
+
+  'missing.sex': 'লিঙ্গ',
+  'missing.weight': 'ওজন',
+  'missing.weightChild': 'ওজন (শিশুর মাত্রার জন্য প্রয়োজন)',
+  'missing.allergies': 'জানা অ্যালার্জি',
+  'missing.currentMedications': 'বর্তমান ওষুধ',
+  'missing.pregnancyStatus': 'গর্ভাবস্থার অবস্থা',
+
+  'validation.weightRange': '০.৫ থেকে ৩৫০ কেজির মধ্যে ওজন লিখুন।',
+  'validation.weightInfant': 'এই ওজন একটি শিশুর জন্য অনেক বেশি মনে হচ্ছে। অনুগ্রহ করে যাচাই করুন।',
+  'validation.heightRange': '৩০ থেকে ২৫০ সেমির মধ্যে উচ্চতা লিখুন।',
+  'validation.pregnancyMismatch': 'গর্ভাবস্থা বা স্তন্যদান দেওয়া লিঙ্গ বা বয়সের সাথে মেলে না।',
+  'validation.tooLong': 'অনুগ্রহ করে এটি {max} অক্ষরের কম রাখুন।',
+
+  'error.requiredFields': 'অনুগ্রহ করে সব প্রয়োজনীয় ঘর পূরণ করুন, লক্ষণ বর্ণনা করুন বা রিপোর্ট আপলোড করুন, এবং অন্তত একটি চিকিৎসার ধরন বেছে নিন।',
+  'error.clinicalDetails': 'অনুগ্রহ করে চিহ্নিত চিকিৎসা বিবরণ সংশোধন করুন।',
+  'error.invalidFiles': 'কিছু ফাইল সঠিক নয়। শুধু ২০MB-এর কম PDF এবং ৫০MB-এর কম JPG, PNG, WebP বা HEIC ছবি গ্রহণ করা হয়।',
+  'error.quota': 'AI পরিষেবার ব্যবহারের সীমা শেষ হয়েছে। এক মিনিট অপেক্ষা করে আবার চেষ্টা করুন, অথবা সেটিংসে API কী-এর প্ল্যান দেখুন।',
+  'error.safety': 'AI পরিষেবা এই অনুরোধের উত্তর দিতে অস্বীকার করেছে। বিবরণটি অন্যভাবে লিখে আবার চেষ্টা করুন।',
+  'error.network': 'AI পরিষেবায় পৌঁছানো যায়নি। ইন্টারনেট সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'error.unavailable': 'AI পরিষেবা এখন ব্যস্ত বা অনুপলব্ধ। কয়েক মিনিট পরে আবার চেষ্টা করুন।',
+  'error.invalidOutput': 'AI বারবার এমন প্রেসক্রিপশন দিয়েছে যা নিয়ম (ভাষা, প্রতিটি চিকিৎসার পরিকল্পনা, সম্পূর্ণ ওষুধ, পরামর্শ) মানেনি। আবার চেষ্টা করুন।',
+
+  'prescription.previewTitle': 'প্রেসক্রিপশনের প্রিভিউ',
+  'prescription.downloadPdf': 'PDF ডাউনলোড করুন',
+  'prescription.creatingPdf': 'PDF তৈরি হচ্ছে...',
+  'prescription.downloadImage': 'ছবি (PNG)',
+  'prescription.creatingImage': 'ছবি তৈরি হচ্ছে...',
+  'prescription.pdfError': 'PDF তৈরি করা যায়নি। আবার চেষ্টা করুন বা এর বদলে ছবি ডাউনলোড করুন।',
+  'prescription.imageError': 'ছবি তৈরি করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।',
+  'prescription.streaming': 'এখনও তৈরি হচ্ছে। অংশগুলো আসার সাথে সাথে দেখা যাবে।',
+  'prescription.edit': 'ফিরে গিয়ে সম্পাদনা করুন',
+  'prescription.preview': 'প্রেসক্রিপশনের প্রিভিউ',
+  'prescription.startNew': 'নতুন শুরু করুন',
+  'prescription.incomplete': 'এই প্রেসক্রিপশন তৈরির সময় মাঝপথে থেমে গিয়েছিল এবং কিছু অংশ বাদ থাকতে পারে।',
+  'prescription.cancelled': 'তৈরি বাতিল করা হয়েছে। এখন পর্যন্ত পাওয়া অংশগুলো নিচে রাখা আছে এবং অসম্পূর্ণ হতে পারে।',
+  'prescription.stoppedEarly': '{reason} এখন পর্যন্ত পাওয়া অংশগুলো নিচে রাখা আছে এবং অসম্পূর্ণ হতে পারে।',
+  'prescription.safetyUnchecked': 'নিরাপত্তা পরীক্ষা কোনো ওষুধের নাম চিনতে পারেনি, তাই ওষুধ ও ভেষজের পারস্পরিক ক্রিয়া পরীক্ষা করা হয়নি। অনুমোদনের আগে নিজে পরীক্ষা করুন।',
+  'prescription.disclaimer': 'এই প্রেসক্রিপশনটি একটি এআই মডেল দ্বারা তৈরি। এটি শুধুমাত্র তথ্যের উদ্দেশ্যে এবং পেশাদার চিকিৎসা পরামর্শ, রোগনির্ণয় বা চিকিৎসার বিকল্প হিসেবে গণ্য করা উচিত নয়। স্বাস্থ্য সংক্রান্ত কোনো সিদ্ধান্ত নেওয়ার বা নতুন চিকিৎসা শুরু করার আগে সর্বদা একজন যোগ্য স্বাস্থ্যসেবা প্রদানকারীর পরামর্শ নিন।',
+
+  'review.draft': 'AI-এর খসড়া পরামর্শ।',
+  'review.draftHint': 'দেওয়ার আগে একজন চিকিৎসককে এটি পর্যালোচনা করে অনুমোদন করতে হবে।',
+  'review.edit': 'প্রেসক্রিপশন সম্পাদনা করুন',
+  'review.doneEditing': 'সম্পাদনা শেষ',
+  'review.notes': 'পর্যালোচনার নোট',
+  'review.notesPlaceholder': 'রোগী বা রেকর্ডের জন্য নোট (ঐচ্ছিক)',
+  'review.reviewerName': 'পর্যালোচকের নাম',
+  'review.approve': 'অনুমোদন ও স্বাক্ষর করুন',
+  'review.approvedBy': '{name} {date} তারিখে অনুমোদন করেছেন।',
+  'review.includesEdits': 'এতে চিকিৎসকের সম্পাদনা রয়েছে।',
+  'review.revoke': 'অনুমোদন প্রত্যাহার করুন',
+  'review.revokeConfirm': 'অনুমোদন প্রত্যাহার করে এই প্রেসক্রিপশনটি আবার খসড়া করবেন?',
+  'review.addedByReviewer': 'পর্যালোচক যোগ করেছেন',
+  'review.addMedicine': '+ ওষুধ যোগ করুন',
+  'review.instruction': 'নির্দেশনা',
+  'review.advice': 'পরামর্শ',
+
+  'compare.layout': 'বিন্যাস',
+  'compare.stacked': 'একটির পর একটি',
+  'compare.sideBySide': 'পাশাপাশি',
+  'compare.title': 'বিকল্পগুলোর তুলনা',
+  'compare.duration': 'প্রত্যাশিত সময়কাল',
+  'compare.medicines': 'ওষুধের সংখ্যা',
+  'compare.cost': 'আনুমানিক খরচ',
+  'compare.evidence': 'প্রমাণ',
+  'compare.cautions': 'সতর্কতা',
+  'compare.plan': 'পরিকল্পনা',
+  'compare.notStated': 'উল্লেখ নেই',
+  'cost.low': 'কম',
+  'cost.moderate': 'মাঝারি',
+  'cost.high': 'বেশি',
+  'evidence.strong': 'জোরালো ক্লিনিক্যাল প্রমাণ',
+  'evidence.moderate': 'কিছু ক্লিনিক্যাল প্রমাণ',
+  'evidence.limited': 'সীমিত প্রমাণ',
+  'evidence.traditional': 'প্রচলিত ব্যবহার, ক্লিনিক্যালি পরীক্ষিত নয়',
+
+  'dose.title': 'ডোজ চার্ট',
+  'dose.starting': '{date} থেকে শুরু',
+  'dose.medicine': 'ওষুধ',
+  'dose.food': 'খাবার',
+  'dose.days': 'দিন',
+  'dose.day': 'দিন {day}',
+  'dose.asDirected': 'নির্দেশ অনুযায়ী',
+  'dose.tick': 'প্রতিটি ডোজ নেওয়ার পর টিক দিন, এবং পুরো কোর্স শেষ করুন।',
+  'dose.reminderTitle': '{name}-এর ওষুধের সময়',
+  'doseTime.morning': 'সকাল',
+  'doseTime.noon': 'দুপুর',
+  'doseTime.evening': 'সন্ধ্যা',
+  'doseTime.night': 'রাত',
+  'food.before': 'খাবারের আগে',
+  'food.with': 'খাবারের সাথে',
+  'food.after': 'খাবারের পরে',
+  'food.any': 'খাবারের সাথে বা ছাড়া',
+  'dose.startDate': 'কোর্স শুরু',
+  'dose.print': 'ডোজ চার্ট প্রিন্ট করুন',
+  'dose.calendar': 'ক্যালেন্ডারে যোগ করুন',
+  'dose.remind': 'আমাকে মনে করিয়ে দিন',
+  'dose.remindersOn': 'রিমাইন্ডার চালু',
+  'dose.remindersNote': 'অ্যাপটি খোলা থাকলেই কেবল রিমাইন্ডার দেখা যায়। ফোনে রিমাইন্ডার পেতে কোর্সটি ক্যালেন্ডারে যোগ করুন।',
+  'dose.remindersBlocked': 'নোটিফিকেশন বন্ধ আছে। রিমাইন্ডার পেতে ব্রাউজার সেটিংসে অনুমতি দিন।',
+  'dose.remindersUnsupported': 'এই ব্রাউজার রিমাইন্ডার দেখাতে পারে না। এর বদলে কোর্সটি ক্যালেন্ডারে যোগ করুন।',
+
+  'share.button': 'লিংক শেয়ার করুন',
+  'share.title': 'রোগীর সাথে শেয়ার করুন',
+  'share.intro': 'প্রেসক্রিপশনটি লিংকের ভেতরেই থাকে, তাই কোথাও আপলোড হয় না। পাসফ্রেজ না দিলে লিংক থাকা যে কেউ এটি পড়তে পারবে।',
+  'share.passphrase': 'পাসফ্রেজ (ঐচ্ছিক)',
+  'share.passphraseHint': 'পাসফ্রেজটি রোগীকে সরাসরি বা ফোনে জানান, লিংকের বার্তায় নয়।',
+  'share.create': 'লিংক তৈরি করুন',
+  'share.creating': 'তৈরি হচ্ছে…',
+  'share.copy': 'লিংক কপি করুন',
+  'share.copied': 'কপি হয়েছে',
+  'share.send': 'পাঠান…',
+  'share.qrOnPrint': 'QR কোডটি প্রেসক্রিপশনেও ছাপা হয় এবং PDF-এ থাকে।',
+  'share.tooLongForQr': 'এই প্রেসক্রিপশন QR কোডের জন্য খুব বড়। এর বদলে লিংক পাঠান।',
+  'share.error': 'এই ব্রাউজারে লিংক তৈরি করা যায়নি।',
+  'share.scan': 'ফোনে এই পরিকল্পনা খুলতে স্ক্যান করুন',
+  'shared.title': 'আপনার প্রেসক্রিপশন',
+  'shared.readOnly': '{date} তারিখে শেয়ার করা শুধু-পড়ার কপি',
+  'shared.passphrasePrompt': 'এই প্রেসক্রিপশন সুরক্ষিত। আপনার ডাক্তারের দেওয়া পাসফ্রেজ লিখুন।',
+  'shared.open': 'খুলুন',
+  'shared.opening': 'প্রেসক্রিপশন খুলছে…',
+  'shared.print': 'প্রিন্ট করুন',
+  'shared.wrongPassphrase': 'পাসফ্রেজটি সঠিক নয়।',
+  'shared.invalid': 'লিংকটি নষ্ট বা অসম্পূর্ণ। ডাক্তারকে আবার পাঠাতে বলুন।',
+  'shared.unsupported': 'এই ব্রাউজার শেয়ার করা প্রেসক্রিপশন খুলতে পারে না। নতুন ব্রাউজার ব্যবহার করুন।',
+  'shared.openApp': 'এআই ডাক্তার খুলুন',
+
+  'upload.processing': '{name} প্রস্তুত হচ্ছে…',
+  'upload.duplicate': 'আগেই যুক্ত আছে: {names}।',
+  'upload.failed': 'পড়া যায়নি: {names}।',
+  'upload.enhance': 'ছবি স্বয়ংক্রিয়ভাবে উন্নত করুন',
+  'upload.cropped': 'ক্রপ করা হয়েছে',
+  'upload.straightened': '{degrees}° সোজা করা হয়েছে',
+  'upload.contrast': 'কনট্রাস্ট বাড়ানো হয়েছে',
+  'upload.resized': 'আকার ছোট করা হয়েছে',
+  'upload.notEnhanced': 'ছবিটি উন্নত করা যায়নি, যেমন আছে তেমনই পাঠানো হবে।',
+  'upload.pagesSelected': '{total}টির মধ্যে {selected}টি পৃষ্ঠা পাঠানো হবে',
+  'upload.noPagesSelected': 'কোনো পৃষ্ঠা বাছাই করা হয়নি; এই রিপোর্ট পাঠানো হবে না',
+  'upload.allPages': 'সব বাছাই করুন',
+  'upload.noPages': 'কোনোটিই না',
+  'upload.page': 'পৃষ্ঠা {number}',
+  'upload.noPreview': 'প্রিভিউ পাওয়া যায়নি; পুরো PDF পাঠানো হবে।',
+
+  'lab.title': 'ল্যাব ফলাফল',
+  'lab.summary': '({rows}টি সারি, {abnormal}টি সীমার বাইরে)',
+  'lab.addRow': '+ সারি যোগ করুন',
+  'lab.hint': 'পরিকল্পনা তৈরির আগে প্রতিটি সারি রিপোর্টের সঙ্গে মিলিয়ে দেখুন এবং ভুল পড়া অংশ ঠিক করুন।',
+  'lab.test': 'পরীক্ষা',
+  'lab.value': 'মান',
+  'lab.unit': 'একক',
+  'lab.reference': 'রেফারেন্স',
+  'lab.referenceRange': 'রেফারেন্স সীমা',
+  'lab.flag': 'চিহ্ন',
+  'lab.date': 'তারিখ',
+  'lab.reportDate': 'রিপোর্টের তারিখ',
+  'lab.normalized': 'প্রমিত এককে',
+  'lab.remove': 'সরান',
+  'lab.removeRow': 'সারি সরান',
+  'lab.enteredByStaff': 'কর্মী দ্বারা লেখা',
+  'labFlag.normal': 'স্বাভাবিক',
+  'labFlag.low': 'কম',
+  'labFlag.high': 'বেশি',
+  'labFlag.critical': 'সংকটজনক',
+
+  'queue.title': 'অফলাইন সারি',
+  'queue.offline': 'আপনি অফলাইনে আছেন। ফর্মটি কাজ করবে; জমা দেওয়া পরামর্শগুলো সারিতে রাখা হবে এবং সংযোগ ফিরলে তৈরি হবে।',
+  'queue.offlineLocal': 'আপনি অফলাইনে আছেন। স্থানীয় মডেল এখনও উপলব্ধ।',
+  'queue.submit': 'পরামর্শ সারিতে যোগ করুন',
+  'queue.queued': '{name}-এর পরামর্শ সারিতে যোগ করা হয়েছে। সংযোগ ফিরলে এটি তৈরি হবে।',
+  'queue.full': 'এই ডিভাইসে পরামর্শ সারিতে রাখার জায়গা নেই। কিছু রিপোর্ট বা সম্পন্ন আইটেম সরিয়ে আবার চেষ্টা করুন।',
+  'queue.willRun': 'অপেক্ষমাণ পরামর্শগুলো সংযোগ ফিরলে স্বয়ংক্রিয়ভাবে তৈরি হবে।',
+  'queue.waiting': 'অপেক্ষমাণ',
+  'queue.processing': 'তৈরি হচ্ছে',
+  'queue.done': 'প্রস্তুত',
+  'queue.failed': 'ব্যর্থ',
+  'queue.emergency': 'জরুরি',
+  'queue.emergencyHint': 'ট্রায়াজে জরুরি সতর্কতা লক্ষণ পাওয়া গেছে। রোগীকে জরুরি চিকিৎসার জন্য পাঠান, অথবা পর্যালোচনার পরেই এগিয়ে যান।',
+  'queue.open': 'খুলুন',
+  'queue.retry': 'আবার চেষ্টা',
+  'queue.continueAnyway': 'তবুও চালিয়ে যান',
+  'queue.clearDone': 'সম্পন্নগুলো সরান',
+  'queue.queuedAt': '{time}-এ সারিতে যোগ',
+  'queue.missing': 'তৈরি করা পরামর্শটি রোগীর ইতিহাসে পাওয়া যায়নি।',
+
+  'header.lock': 'লক করুন',
+  'lock.title': 'ক্লিনিকের PIN লিখুন',
+  'lock.subtitle': 'এই ডিভাইসের রোগীর রেকর্ড লক করা আছে।',
+  'lock.setupTitle': 'ক্লিনিকের PIN সেট করুন',
+  'lock.setupSubtitle': 'এই ডিভাইসের রোগীর রেকর্ড এই PIN দিয়ে এনক্রিপ্ট করা হয়। অন্তত {min}টি অক্ষর ব্যবহার করুন।',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'PIN আবার লিখুন',
+  'lock.setupNote': 'PIN ছাড়া রেকর্ড পুনরুদ্ধার করা যাবে না।',
+  'lock.unlock': 'আনলক করুন',
+  'lock.setup': 'PIN সেট করে এগিয়ে যান',
+  'lock.forgot': 'PIN ভুলে গেছেন? এই ডিভাইসের সব ডেটা মুছুন',
+  'lock.resetConfirm': 'PIN ছাড়া এই ডিভাইসের রোগীর রেকর্ড পড়া যাবে না। সব মুছে নতুন PIN সেট করবেন?',
+  'lock.wrongPin': 'এই PIN সঠিক নয়।',
+  'lock.tooShort': 'PIN খুব ছোট।',
+  'lock.mismatch': 'দুটি PIN মিলছে না।',
+  'lock.failed': 'এই ডিভাইসে রোগীর রেকর্ড খোলা যায়নি।',
+  'consent.label': 'রোগী সম্মত যে এই পরিকল্পনা তৈরির জন্য তার তথ্য, উপসর্গ ও রিপোর্ট AI পরিষেবায় পাঠানো হবে।',
+  'consent.recorded': 'সম্মতি {time}-এ নথিভুক্ত',
+  'consent.required': 'AI পরিষেবায় কিছু পাঠানোর আগে রোগীর সম্মতি নথিভুক্ত করুন।',
+  'consent.needed': 'নিচে রোগীর সম্মতি প্রয়োজন',
+
+  'redact.open': 'তথ্য লুকান',
+  'redact.count': '{count}টি অংশ লুকানো',
+  'redact.title': 'পরিচয়সূচক তথ্য লুকান',
+  'redact.instructions': 'নাম, রেকর্ড নম্বর ও ঠিকানার ওপর টেনে সেগুলো কালো করুন। শুধু ঢাকা ছবিটি পাঠানো হবে। কোনো বাক্স সরাতে সেটি বেছে নিন।',
+  'redact.suggest': 'OCR দিয়ে খুঁজুন',
+  'redact.suggesting': 'ছবি পড়া হচ্ছে…',
+  'redact.suggested': '{count}টি অংশ পাওয়া গেছে। কিছু বাদ পড়েছে কি না ছবিটি দেখে নিন।',
+  'redact.suggestFailed': 'ছবি পড়া যায়নি। বাক্সগুলো নিজে আঁকুন।',
+  'redact.clear': 'সব মুছুন',
+  'redact.save': 'সংরক্ষণ করুন',
+  'redact.removeBox': 'এই বাক্সটি সরান',
+  'redact.enhanceLocked': 'এটি বদলানোর আগে লুকানো অংশগুলো মুছুন',
+  'privacy.preview': 'গোপনীয়তা প্রিভিউ',
+  'privacy.title': 'AI পরিষেবায় কী পাঠানো হবে',
+  'privacy.intro': 'এই ডিভাইস থেকে যা যা বাইরে যাবে তা এখানে। [PATIENT_NAME]-এর মতো প্লেসহোল্ডার শুধু এই ডিভাইসেই আবার পূরণ করা হয়।',
+  'privacy.settingsHint': 'কোন তথ্য বদলানো হবে তা সেটিংসে বেছে নিন।',
+  'privacy.loading': 'প্রিভিউ তৈরি হচ্ছে…',
+  'privacy.failed': 'প্রিভিউ তৈরি করা যায়নি।',
+  'privacy.triage': 'জরুরি অবস্থা যাচাই',
+  'privacy.prescription': 'প্রেসক্রিপশন',
+  'privacy.triageNote': 'প্রেসক্রিপশন অনুরোধের ট্রায়াজ লাইনটি জরুরি অবস্থা যাচাইয়ের ফলের ওপর নির্ভর করে।',
+  'privacy.attachments': 'সংযুক্তি ({count})',
+  'privacy.pdf': 'PDF রিপোর্ট ({size} KB), লেখাসহ পাঠানো হবে। অংশ লুকানো শুধু ছবিতে কাজ করে।',
+
+  'print.date': 'তারিখ',
+  'print.age': 'বয়স',
+  'print.district': 'জেলা',
+  'print.cell': 'মোবাইল',
+  'print.condition': 'রোগ',
+  'print.sex': 'লিঙ্গ',
+  'print.weight': 'ওজন',
+  'print.height': 'উচ্চতা',
+  'print.bmi': 'BMI',
+  'print.allergies': 'অ্যালার্জি',
+  'print.currentMedications': 'বর্তমান ওষুধ',
+  'print.chronicConditions': 'দীর্ঘমেয়াদি রোগ',
+  'print.pregnancy': 'গর্ভাবস্থা',
+  'print.tel': 'ফোন',
+  'print.regNo': 'নিবন্ধন নং',
+  'print.triage': 'ট্রায়াজ',
+  'print.overridden': 'চিকিৎসক {date} তারিখে এগিয়ে যাওয়ার সিদ্ধান্ত নেন।',
+  'print.safetyCheck': 'নিরাপত্তা পরীক্ষা',
+  'print.safetyFlagged': 'নিচে {count}টি সম্ভাব্য পারস্পরিক ক্রিয়া বা নিষেধ চিহ্নিত করা হয়েছে। ব্যবহারের আগে এগুলো দেখে নিন।',
+  'print.approvedStamp': '{name} {date} তারিখে পর্যালোচনা করে অনুমোদন করেছেন।',
+  'print.draftStamp': 'AI-এর খসড়া পরামর্শ — এখনও কোনো চিকিৎসক পর্যালোচনা করেননি। চিকিৎসার জন্য ব্যবহার করবেন না।',
+  'print.practitionerNote': 'চিকিৎসকের নোট',
+  'print.practitionerNotes': 'চিকিৎসকের নোট',
+  'print.followUp': 'পরবর্তী প্রশ্ন',
+  'print.question': 'প্র',
+  'print.answer': 'উ',
+  'print.signature': 'স্বাক্ষর',
+  'print.reviewingPractitioner': 'পর্যালোচক চিকিৎসক',
+
+  'urgency.emergency': 'জরুরি',
+  'urgency.urgent': 'দ্রুত',
+  'urgency.routine': 'সাধারণ',
+  'urgencyNote.emergency': 'এখনই জরুরি চিকিৎসা নিন।',
+  'urgencyNote.urgent': '২৪ ঘণ্টার মধ্যে সরাসরি ডাক্তার দেখান।',
+  'urgencyNote.routine': 'কোনো বিপদসংকেত উপসর্গ পাওয়া যায়নি।',
+  'severity.major': 'গুরুতর',
+  'severity.moderate': 'মাঝারি',
+  'severity.minor': 'সামান্য',
+
+  'chat.title': 'এই প্রেসক্রিপশন সম্পর্কে প্রশ্ন',
+  'chat.includeInPrint': 'প্রিন্টে যুক্ত করুন',
+  'chat.empty': 'এই পরিকল্পনা সম্পর্কে যেকোনো প্রশ্ন করুন, যেমন "আমি কি এটি খাবারের সাথে খেতে পারি?" বা "জ্বর না কমলে কী করব?"। উত্তর {language} ভাষায় আসবে।',
+  'chat.placeholder': 'আপনার প্রশ্ন লিখুন...',
+  'chat.inputLabel': 'ফলো-আপ প্রশ্ন',
+  'chat.ask': 'জিজ্ঞাসা করুন',
+
+  'emergency.title': 'এখনই জরুরি চিকিৎসা নিন',
+  'emergency.subtitle': 'এই লক্ষণগুলো প্রাণঘাতী হতে পারে। অনলাইন প্রেসক্রিপশনের জন্য অপেক্ষা করবেন না।',
+  'emergency.callForHelp': 'সাহায্যের জন্য কল করুন:',
+  'emergency.callForHelpIn': '{district}-এ সাহায্যের জন্য কল করুন:',
+  'emergency.noContacts': 'আপনার স্থানীয় জরুরি নম্বরে কল করুন বা নিকটতম হাসপাতালের জরুরি বিভাগে যান।',
+  'emergency.back': 'ফর্মে ফিরে যান',
+  'emergency.clinicianConfirm': 'একজন চিকিৎসক রোগীকে সরাসরি পরীক্ষা করে এগিয়ে যাওয়ার সিদ্ধান্ত নিয়েছেন। এটি প্রেসক্রিপশনে লেখা থাকবে।',
+  'emergency.continue': 'প্রেসক্রিপশনে এগিয়ে যান',
+
+  'settings.aiProvider': 'AI সরবরাহকারী',
+  'settings.provider': 'সরবরাহকারী',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'OpenAI-সামঞ্জস্যপূর্ণ সার্ভার (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'অফলাইন নমুনা (তৈরি উত্তর, নেটওয়ার্ক ছাড়া)',
+  'settings.model': 'মডেল',
+  'settings.serverUrl': 'সার্ভার URL',
+  'settings.apiKeyGemini': 'API কী (ঐচ্ছিক, বিল্ট-ইন কী-এর বদলে ব্যবহৃত হবে)',
+  'settings.apiKeyOptional': 'API কী (ঐচ্ছিক)',
+  'settings.apiKeyHint': 'শুধু এই ব্রাউজারে সংরক্ষিত।',
+  'settings.emergencyNumbers': 'জরুরি নম্বর',
+  'settings.emergencyHint': 'জরুরি স্ক্রিনে দেখানো হয়। যে নম্বর সব জায়গায় প্রযোজ্য, তার জেলা খালি রাখুন।',
+  'settings.district': 'জেলা',
+  'settings.allDistricts': 'সব জেলা',
+  'settings.service': 'সেবা',
+  'settings.number': 'নম্বর',
+  'settings.addNumber': '+ নম্বর যোগ করুন',
+  'settings.security': 'নিরাপত্তা',
+  'settings.securityHint': 'এই ডিভাইসে রোগীর রেকর্ড ক্লিনিকের PIN দিয়ে এনক্রিপ্ট করা। PIN ছাড়া এগুলো পুনরুদ্ধারের কোনো উপায় নেই।',
+  'settings.autoLock': 'নিষ্ক্রিয় থাকলে লক করুন',
+  'settings.oneMinute': '১ মিনিট',
+  'settings.minutes': '{count} মিনিট',
+  'settings.currentPin': 'বর্তমান PIN',
+  'settings.newPin': 'নতুন PIN',
+  'settings.newPinPlaceholder': 'নতুন PIN (অন্তত {min} অক্ষর)',
+  'settings.repeatPin': 'নতুন PIN আবার লিখুন',
+  'settings.changePin': 'PIN পরিবর্তন করুন',
+  'settings.changingPin': 'PIN পরিবর্তন হচ্ছে...',
+  'settings.pinChanged': 'PIN পরিবর্তন হয়েছে।',
+  'settings.pinFailed': 'PIN পরিবর্তন করা যায়নি।',
+  'settings.privacy': 'গোপনীয়তা',
+  'settings.privacyHint': 'AI-তে কিছু পাঠানোর আগে এগুলোর জায়গায় প্লেসহোল্ডার বসানো হয়, আর আসল তথ্য শুধু এই ডিভাইসেই ফিরিয়ে বসানো হয়।',
+  'settings.modalities': 'চিকিৎসার ধরন',
+  'settings.modalitiesHint': 'রোগীর ফর্মে দেওয়া চিকিৎসার ধরন। কোনোটি বাছাই করলে তার নির্দেশনা AI-তে পাঠানো হয়।',
+  'privacyField.name': 'রোগীর নাম',
+  'privacyField.cell': 'মোবাইল নম্বর',
+  'privacyField.district': 'জেলা',
+  'privacyField.otherIdentifiers': 'বিবরণে থাকা অন্যান্য ফোন নম্বর, ইমেল এবং পরিচয় বা রেকর্ড নম্বর',
+
+  'history.savedLocally': 'শুধু এই ডিভাইসে সংরক্ষিত।',
+  'history.back': 'ফিরে যান',
+  'history.loadFailed': 'স্থানীয় রোগীর ইতিহাস খোলা যায়নি।',
+  'history.search': 'নাম, মোবাইল নম্বর বা জেলা দিয়ে খুঁজুন...',
+  'history.noPatients': 'এখনও কোনো রোগী সংরক্ষণ করা হয়নি।',
+  'history.noMatches': 'আপনার খোঁজের সঙ্গে কোনো রোগী মেলেনি।',
+  'history.age': 'বয়স: {age}',
+  'history.district': 'জেলা: {district}',
+  'history.cell': 'মোবাইল: {cell}',
+  'history.lastVisit': 'শেষ ভিজিট: {date}',
+  'history.followUp': 'ফলো-আপ ভিজিট',
+  'history.export': 'রোগীর ডেটা এক্সপোর্ট করুন',
+  'history.exportFailed': '{name}-এর ডেটা এক্সপোর্ট করা যায়নি।',
+  'history.erasePatient': 'রোগী মুছে ফেলুন',
+  'history.eraseWarning': 'এতে {name}-এর পরামর্শ, রিপোর্ট, অপেক্ষমাণ পরামর্শ ও ওষুধের রিমাইন্ডার এই ডিভাইস থেকে চিরতরে মুছে যাবে। রোগী কপি চাইলে আগে তাঁর ডেটা এক্সপোর্ট করুন। নিশ্চিত করতে রোগীর নাম লিখুন।',
+  'history.patientName': 'রোগীর নাম',
+  'history.erase': 'মুছে ফেলুন',
+  'history.erased': '{name} মুছে ফেলা হয়েছে: {consultations}টি পরামর্শ, {attachments}টি রিপোর্ট ফাইল, অপেক্ষমাণ {queued}টি পরামর্শ এবং {reminders}টি ওষুধের রিমাইন্ডার। {time}-এ যাচাই করা হয়েছে যে এই ডিভাইসে কিছুই বাকি নেই।',
+  'history.eraseFailed': '{name} মুছে ফেলা যায়নি।',
+  'history.eraseIncomplete': 'রোগীর কিছু রেকর্ড মুছে ফেলা যায়নি। আবার চেষ্টা করুন।',
+  'history.consultations': 'পরামর্শ',
+  'history.labTrends': 'ল্যাব প্রবণতা',
+  'history.approved': 'অনুমোদিত',
+  'history.draft': 'খসড়া',
+  'history.reports': '{count}টি রিপোর্ট',
+  'history.reopen': 'আবার খুলুন',
+  'history.print': 'প্রিন্ট করুন',
+  'history.delete': 'মুছুন',
+  'history.deleteConfirm': '{date}-এর পরামর্শটি মুছবেন?',
+  'history.noConsultations': 'কোনো পরামর্শ লেখা নেই।',
+
+  'clinic.imageError': 'ছবিটি পড়া যায়নি। অনুগ্রহ করে PNG বা JPEG ফাইল ব্যবহার করুন।',
+  'clinic.saveError': 'প্রোফাইল সংরক্ষণ করা যায়নি। লোগো বা স্বাক্ষরের ছোট ছবি ব্যবহার করে দেখুন।',
+  'clinic.letterhead': 'লেটারহেড',
+  'clinic.letterheadHint': 'প্রতিটি প্রেসক্রিপশনে ছাপা হয়। শুধু এই ব্রাউজারে সংরক্ষিত।',
+  'clinic.logo': 'লোগো',
+  'clinic.defaultLogo': 'ডিফল্ট লোগো',
+  'clinic.none': 'নেই',
+  'clinic.upload': 'আপলোড করুন',
+  'clinic.clinicName': 'ক্লিনিকের নাম',
+  'clinic.tagline': 'ট্যাগলাইন',
+  'clinic.address': 'ঠিকানা',
+  'clinic.phone': 'ফোন',
+  'clinic.registrationNumber': 'নিবন্ধন নম্বর',
+  'clinic.prescriber': 'প্রেসক্রাইবার',
+  'clinic.practitionerName': 'পর্যালোচক চিকিৎসক',
+  'clinic.signature': 'স্বাক্ষর',
+  'clinic.disclaimer': 'দায়মুক্তি',
+  'clinic.disclaimerHint': 'ইংরেজিতে লেখা হয় এবং প্রতিটি রোগীর ভাষায় স্বয়ংক্রিয়ভাবে অনুবাদ হয়। এটি বদলালে সংরক্ষিত অনুবাদগুলো বাদ যায়।',
+  'clinic.removeTranslation': 'অনুবাদ সরান',
+
+  'medEditor.name': 'ওষুধ',
+  'medEditor.strength': 'শক্তি',
+  'medEditor.dosage': 'মাত্রা',
+  'medEditor.duration': 'মেয়াদ',
+  'medEditor.route': 'প্রয়োগের পথ',
+  'medEditor.notes': 'নোট',
+  'medEditor.mealsNotStated': 'খাবার: উল্লেখ নেই',
+  'medEditor.reviewerNote': 'পর্যালোচকের নোট',
+  'medEditor.reviewerNotePlaceholder': 'পর্যালোচকের নোট (ঐচ্ছিক)',
+  'medEditor.strike': 'কেটে দিন',
+  'medEditor.restore': 'ফিরিয়ে আনুন',
+  'modality.new': 'নতুন ধরন',
+  'modality.offer': '{name} দেখান',
+  'modality.patientsOnly': 'শুধু {religion} রোগীদের জন্য',
+  'modality.edit': 'সম্পাদনা',
+  'modality.done': 'শেষ',
+  'modality.name': 'নাম (ইংরেজিতে, AI-কেও দেখানো হয়)',
+  'modality.namePlaceholder': 'যেমন Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'বিভাগ',
+  'modality.format': 'পরিকল্পনায় থাকে',
+  'modality.offeredTo': 'কাদের জন্য',
+  'modality.allPatients': 'সব রোগী',
+  'modality.rules': 'AI-এর জন্য নির্দেশনা',
+  'modality.rulesPlaceholder': 'এই পরিকল্পনায় কী থাকবে এবং কীভাবে লেখা হবে।',
+  'modality.conventionalHint': 'প্রচলিত চিকিৎসার পরিকল্পনায় ওষুধের পারস্পরিক ক্রিয়া যাচাই করা হয়; বাকি সব ভেষজ প্রতিকার হিসেবে যাচাই হয়।',
+  'modality.restore': 'ডিফল্টে ফেরান',
+  'modality.add': '+ ধরন যোগ করুন',
+  'modalityCategory.conventional': 'প্রচলিত চিকিৎসা',
+  'modalityCategory.traditional': 'ঐতিহ্যবাহী / সম্পূরক',
+  'modalityCategory.spiritual': 'আধ্যাত্মিক',
+  'modalityCategory.therapy': 'থেরাপি',
+  'outputFormat.medications': 'প্রতিকার (নাম, শক্তি, মাত্রা, মেয়াদ)',
+  'outputFormat.instructions': 'শুধু নির্দেশনা (প্রতিকার নেই)',
+  'outputFormat.mixed': 'প্রতিকার ও নির্দেশনা',
+};
@@ -0,0 +1,613 @@
+// Source catalog. Every other locale must provide the same keys (enforced by the Messages type).
+// Placeholders like {count} are filled in by the translator in ../i18n.ts.
+export const en = {
+  'app.title': 'AI Doctor',
+  'header.history': 'Patient History',
+  'header.clinicProfile': 'Clinic Profile',
+  'header.settings': 'Settings',
+  'header.uiLanguage': 'Interface language',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.remove': 'Remove',
+  'common.save': 'Save',
+
+  'loading.title': 'Consulting with the AI Doctor...',
+  'loading.subtitle': 'Analyzing reports and crafting your health plan.',
+
+  'form.title': 'Patient Information',
+  'form.subtitle': 'Provide your details for a personalized plan.',
+  'form.name': 'Name',
+  'form.age': 'Age',
+  'form.district': 'District / City',
+  'form.cell': 'Cell No. (Optional)',
+  'form.religion': 'Religion',
+  'form.selectReligion': 'Select Religion',
+  'form.language': 'Preferred Language',
+  'form.clinicalDetails': 'Clinical Details',
+  'form.clinicalHint': '(Optional, but recommended for safer dosing)',
+  'form.sex': 'Sex',
+  'form.notSpecified': 'Not specified',
+  'form.weight': 'Weight (kg)',
+  'form.height': 'Height (cm)',
+  'form.pregnancy': 'Pregnancy / Breastfeeding',
+  'form.allergies': 'Known Allergies',
+  'form.allergiesPlaceholder': 'e.g., Penicillin, sulfa drugs, peanuts',
+  'form.currentMedications': 'Current Medications',
+  'form.currentMedicationsPlaceholder': 'e.g., Metformin 500mg twice daily',
+  'form.chronicConditions': 'Chronic Conditions',
+  'form.chronicConditionsPlaceholder': 'e.g., Diabetes, hypertension, asthma',
+  'form.recommended': 'Recommended: add {fields} so the plan can be dosed safely.',
+  'form.describeOrUpload': 'Describe Illness or Upload Reports',
+  'form.tabSymptoms': 'Describe Symptoms',
+  'form.tabUpload': 'Upload Reports',
+  'form.symptomsPlaceholder': 'For example: I have a fever, cough, and headache...',
+  'form.clickToUpload': 'Click to upload',
+  'form.dragAndDrop': 'or drag and drop',
+  'form.fileTypes': 'PDF up to 20MB; JPG, PNG, WebP or HEIC photos up to 50MB',
+  'form.uploadedFiles': 'Uploaded Files:',
+  'form.extractLabResults': 'Extract Lab Results ({count})',
+  'form.readingReports': 'Reading reports...',
+  'form.reportComments': 'Comments or Questions about Reports (Optional)',
+  'form.reportCommentsPlaceholder': "Provide context for your reports, or ask specific questions... e.g., 'Please check my kidney function results in the attached file.'",
+  'form.treatmentTypes': 'Choose Treatment Type(s)',
+  'form.returningPatient': 'Returning patient:',
+  'form.includeHistory': 'include {count} previous consultation(s) as context for this follow-up visit.',
+  'form.submit': 'Get AI Prescription',
+  'form.generating': 'Generating...',
+
+  'voice.record': 'Record symptoms',
+  'voice.stop': 'Stop recording',
+  'voice.recording': 'Recording... {time}',
+  'voice.transcribing': 'Listening to the recording...',
+  'voice.reviewTitle': 'Check what we heard',
+  'voice.reviewHint': 'Correct anything that is wrong before adding it to the description.',
+  'voice.symptoms': 'Symptoms heard:',
+  'voice.use': 'Add to description',
+  'voice.discard': 'Discard',
+  'voice.micError': 'The microphone could not be used. Allow microphone access in the browser and try again.',
+  'voice.unsupported': 'Voice input is not supported in this browser.',
+  'voice.empty': 'No speech was heard in the recording. Please try again.',
+  'speech.readAloud': 'Read aloud',
+  'speech.stop': 'Stop reading',
+  'speech.noVoice': 'This device has no voice for {language}.',
+
+  'form.tabGuided': 'Guided Questions',
+  'guided.intro': 'Answer a few quick questions. Only the main problem is required; skip anything you are unsure about.',
+  'guided.complaint': 'What is the main problem?',
+  'guided.duration': 'How long has it been going on?',
+  'guided.durationValue': 'Amount',
+  'guided.severity': 'How bad is it? (0 = no trouble, 10 = worst imaginable)',
+  'guided.notRated': 'Not rated yet',
+  'guided.clear': 'Clear',
+  'guided.onset': 'How did it start?',
+  'guided.location': 'Where is it? Tap the body or choose below.',
+  'guided.bodyMap': 'Body map',
+  'guided.temperature': 'Highest temperature measured (°C)',
+  'guided.painCharacter': 'What does the pain feel like?',
+  'guided.associated': 'Do you also have any of these?',
+  'guided.tried': 'What has already been tried?',
+  'guided.notes': 'Anything else? (optional)',
+  'guided.summaryTitle': 'Symptom Summary',
+  'summary.complaint': 'Complaint',
+  'summary.duration': 'Duration',
+  'summary.severity': 'Severity',
+  'summary.onset': 'Onset',
+  'summary.location': 'Location',
+  'summary.temperature': 'Highest temperature',
+  'summary.painCharacter': 'Type of pain',
+  'summary.associated': 'Also has',
+  'summary.tried': 'Already tried',
+  'summary.notes': 'Notes',
+  'duration.hours': '{count} hour(s)',
+  'duration.days': '{count} day(s)',
+  'duration.weeks': '{count} week(s)',
+  'duration.months': '{count} month(s)',
+  'durationUnit.hours': 'Hours',
+  'durationUnit.days': 'Days',
+  'durationUnit.weeks': 'Weeks',
+  'durationUnit.months': 'Months',
+  'onset.sudden': 'Suddenly',
+  'onset.gradual': 'Gradually',
+  'complaint.fever': 'Fever',
+  'complaint.cough': 'Cough',
+  'complaint.breathing': 'Difficulty breathing',
+  'complaint.pain': 'Pain',
+  'complaint.stomach': 'Stomach / digestion',
+  'complaint.skin': 'Skin problem',
+  'complaint.urinary': 'Urinary problem',
+  'complaint.fatigue': 'Tiredness / weakness',
+  'associated.chills': 'Chills',
+  'associated.sweating': 'Sweating',
+  'associated.bodyAches': 'Body aches',
+  'associated.headache': 'Headache',
+  'associated.rash': 'Rash',
+  'associated.lossOfAppetite': 'Loss of appetite',
+  'associated.phlegm': 'Phlegm',
+  'associated.bloodInPhlegm': 'Blood in phlegm',
+  'associated.soreThroat': 'Sore throat',
+  'associated.runnyNose': 'Runny nose',
+  'associated.wheeze': 'Wheezing',
+  'associated.chestPain': 'Chest pain',
+  'associated.swelling': 'Swelling',
+  'associated.numbness': 'Numbness or tingling',
+  'associated.dizziness': 'Dizziness',
+  'associated.nausea': 'Nausea',
+  'associated.vomiting': 'Vomiting',
+  'associated.diarrhoea': 'Diarrhoea',
+  'associated.bloodInStool': 'Blood in stool',
+  'associated.itching': 'Itching',
+  'associated.burningUrine': 'Burning when passing urine',
+  'associated.frequentUrination': 'Passing urine often',
+  'associated.bloodInUrine': 'Blood in urine',
+  'associated.weightLoss': 'Weight loss',
+  'painCharacter.sharp': 'Sharp / stabbing',
+  'painCharacter.dull': 'Dull / aching',
+  'painCharacter.burning': 'Burning',
+  'painCharacter.cramping': 'Cramping',
+  'painCharacter.throbbing': 'Throbbing',
+  'tried.paracetamol': 'Paracetamol',
+  'tried.ibuprofen': 'Ibuprofen',
+  'tried.antibiotics': 'Antibiotics',
+  'tried.coughSyrup': 'Cough syrup',
+  'tried.antacid': 'Antacid',
+  'tried.herbal': 'Herbal remedy',
+  'tried.homeRemedy': 'Home remedy',
+  'tried.nothing': 'Nothing yet',
+  'body.head': 'Head',
+  'body.throat': 'Throat / neck',
+  'body.chest': 'Chest',
+  'body.upperAbdomen': 'Upper abdomen',
+  'body.lowerAbdomen': 'Lower abdomen',
+  'body.arms': 'Arms',
+  'body.legs': 'Legs',
+  'body.back': 'Back',
+  'body.joints': 'Joints',
+  'body.wholeBody': 'Whole body',
+
+  'religion.islam': 'Islam',
+  'religion.christianity': 'Christianity',
+  'religion.hinduism': 'Hinduism',
+  'religion.buddhism': 'Buddhism',
+  'religion.sikhism': 'Sikhism',
+  'religion.judaism': 'Judaism',
+  'religion.bahai': 'Baháʼí Faith',
+  'religion.chineseFolk': 'Chinese Folk Religion',
+  'religion.spiritism': 'Spiritism',
+  'religion.indigenous': 'Ethnic/Indigenous Religions',
+  'religion.other': 'Other',
+
+  'treatment.hikmat': 'Hikmat (Traditional Herbal)',
+  'treatment.homeopathy': 'Homeopathy',
+  'treatment.allopathy': 'Allopathy (Specialist Doctors)',
+  'treatment.islam': 'Quran & Asma-ul-Husna',
+  'treatment.christianity': 'Biblical Healing & Prayer',
+  'treatment.hinduism': 'Ayurveda & Mantras',
+  'treatment.buddhism': 'Meditation & Chanting',
+  'treatment.sikhism': 'Gurbani Recitation & Seva',
+  'treatment.judaism': 'Torah Study & Prayer',
+  'treatment.bahai': "Writings of Baháʼu'lláh & Prayer",
+  'treatment.chineseFolk': 'Ancestral Veneration & Herbal Remedies',
+  'treatment.spiritism': 'Spiritual Counsel & Healing',
+  'treatment.indigenous': 'Traditional Rituals & Natural Healing',
+
+  'sex.female': 'Female',
+  'sex.male': 'Male',
+  'sex.other': 'Other',
+
+  'pregnancy.none': 'Not pregnant or breastfeeding',
+  'pregnancy.pregnant': 'Pregnant',
+  'pregnancy.breastfeeding': 'Breastfeeding',
+  'pregnancy.pregnant-breastfeeding': 'Pregnant and breastfeeding',
+
+  'missing.sex': 'sex',
+  'missing.weight': 'weight',
+  'missing.weightChild': 'weight (needed for child dosing)',
+  'missing.allergies': 'known allergies',
+  'missing.currentMedications': 'current medications',
+  'missing.pregnancyStatus': 'pregnancy status',
+
+  'validation.weightRange': 'Enter a weight between 0.5 and 350 kg.',
+  'validation.weightInfant': 'This weight seems too high for an infant. Please check it.',
+  'validation.heightRange': 'Enter a height between 30 and 250 cm.',
+  'validation.pregnancyMismatch': 'Pregnancy or breastfeeding does not match the sex or age entered.',
+  'validation.tooLong': 'Please keep this under {max} characters.',
+
+  'error.requiredFields': 'Please fill all required fields, describe your symptoms or upload a report, and select at least one treatment type.',
+  'error.clinicalDetails': 'Please correct the highlighted clinical details.',
+  'error.invalidFiles': 'Some files were invalid. Only PDFs under 20MB and JPG, PNG, WebP or HEIC photos under 50MB are accepted.',
+  'error.quota': 'The AI service\'s usage limit was reached. Wait a minute and try again, or check the plan for the API key in Settings.',
+  'error.safety': 'The AI service declined to answer this request. Rephrase the description and try again.',
+  'error.network': 'Could not reach the AI service. Check the internet connection and try again.',
+  'error.unavailable': 'The AI service is busy or unavailable right now. Please try again in a few minutes.',
+  'error.invalidOutput': 'The AI kept returning a prescription that did not follow the rules (language, a plan for each treatment, complete medicines, advice). Please try again.',
+
+  'prescription.previewTitle': 'Prescription Preview',
+  'prescription.downloadPdf': 'Download PDF',
+  'prescription.creatingPdf': 'Creating PDF...',
+  'prescription.downloadImage': 'Image (PNG)',
+  'prescription.creatingImage': 'Creating image...',
+  'prescription.pdfError': 'Could not create the PDF. Please try again or download an image instead.',
+  'prescription.imageError': 'Could not create the image. Please try again.',
+  'prescription.streaming': 'Still generating. Sections appear as they arrive.',
+  'prescription.edit': 'Go Back & Edit',
+  'prescription.preview': 'Preview Prescription',
+  'prescription.startNew': 'Start New',
+  'prescription.incomplete': 'This prescription was cut short during generation and may be missing sections.',
+  'prescription.cancelled': 'Generation was cancelled. The sections received so far are kept below and may be incomplete.',
+  'prescription.stoppedEarly': '{reason} The sections received so far are kept below and may be incomplete.',
+  'prescription.safetyUnchecked': 'The safety check did not recognise any of the medicine names, so drug and herb interactions were not checked. Check them yourself before approving.',
+  'prescription.disclaimer': 'This prescription is generated by an AI model. It is intended for informational purposes only and should not be considered a substitute for professional medical advice, diagnosis, or treatment. Always consult with a qualified healthcare provider before making any health decisions or starting any new treatment.',
+
+  'review.draft': 'Draft AI suggestion.',
+  'review.draftHint': 'A practitioner must review and approve it before it is released.',
+  'review.edit': 'Edit Prescription',
+  'review.doneEditing': 'Done Editing',
+  'review.notes': 'Review notes',
+  'review.notesPlaceholder': 'Notes for the patient or the record (optional)',
+  'review.reviewerName': 'Reviewer name',
+  'review.approve': 'Approve & Sign',
+  'review.approvedBy': 'Approved by {name} on {date}.',
+  'review.includesEdits': 'Includes practitioner edits.',
+  'review.revoke': 'Revoke Approval',
+  'review.revokeConfirm': 'Revoke the approval and return this prescription to draft?',
+  'review.addedByReviewer': 'Added by reviewer',
+  'review.addMedicine': '+ Add medicine',
+  'review.instruction': 'Instruction',
+  'review.advice': 'Advice',
+
+  'compare.layout': 'Layout',
+  'compare.stacked': 'One after another',
+  'compare.sideBySide': 'Side by side',
+  'compare.title': 'Comparing the options',
+  'compare.duration': 'Expected duration',
+  'compare.medicines': 'Number of medicines',
+  'compare.cost': 'Approximate cost',
+  'compare.evidence': 'Evidence',
+  'compare.cautions': 'Cautions',
+  'compare.plan': 'Plan',
+  'compare.notStated': 'Not stated',
+  'cost.low': 'Low',
+  'cost.moderate': 'Moderate',
+  'cost.high': 'High',
+  'evidence.strong': 'Strong clinical evidence',
+  'evidence.moderate': 'Some clinical evidence',
+  'evidence.limited': 'Limited evidence',
+  'evidence.traditional': 'Traditional use, not clinically tested',
+
+  'dose.title': 'Dose chart',
+  'dose.starting': 'Starting {date}',
+  'dose.medicine': 'Medicine',
+  'dose.food': 'Meals',
+  'dose.days': 'Days',
+  'dose.day': 'Day {day}',
+  'dose.asDirected': 'As directed',
+  'dose.tick': 'Tick each dose once it has been taken, and finish the full course.',
+  'dose.reminderTitle': 'Medicine time for {name}',
+  'doseTime.morning': 'Morning',
+  'doseTime.noon': 'Noon',
+  'doseTime.evening': 'Evening',
+  'doseTime.night': 'Night',
+  'food.before': 'Before meals',
+  'food.with': 'With meals',
+  'food.after': 'After meals',
+  'food.any': 'With or without food',
+  'dose.startDate': 'Course starts',
+  'dose.print': 'Print dose chart',
+  'dose.calendar': 'Add to calendar',
+  'dose.remind': 'Remind me',
+  'dose.remindersOn': 'Reminders on',
+  'dose.remindersNote': 'Reminders appear only while this app is open. Add the course to your calendar to be reminded on your phone.',
+  'dose.remindersBlocked': 'Notifications are blocked. Allow them in your browser settings to get reminders.',
+  'dose.remindersUnsupported': 'This browser cannot show reminders. Add the course to your calendar instead.',
+
+  'share.button': 'Share link',
+  'share.title': 'Share with the patient',
+  'share.intro': 'The prescription is stored inside the link itself, so it is never uploaded anywhere. Anyone with the link can read it unless you add a passphrase.',
+  'share.passphrase': 'Passphrase (optional)',
+  'share.passphraseHint': 'Tell the patient the passphrase in person or by phone, not in the same message as the link.',
+  'share.create': 'Create link',
+  'share.creating': 'Creating…',
+  'share.copy': 'Copy link',
+  'share.copied': 'Copied',
+  'share.send': 'Send…',
+  'share.qrOnPrint': 'The QR code is also printed on the prescription and included in the PDF.',
+  'share.tooLongForQr': 'This prescription is too long for a QR code. Send the link instead.',
+  'share.error': 'The link could not be created in this browser.',
+  'share.scan': 'Scan to open this plan on your phone',
+  'shared.title': 'Your prescription',
+  'shared.readOnly': 'Read-only copy shared on {date}',
+  'shared.passphrasePrompt': 'This prescription is protected. Enter the passphrase your doctor gave you.',
+  'shared.open': 'Open',
+  'shared.opening': 'Opening the prescription…',
+  'shared.print': 'Print',
+  'shared.wrongPassphrase': 'That passphrase is not correct.',
+  'shared.invalid': 'This link is damaged or incomplete. Ask your doctor to send it again.',
+  'shared.unsupported': 'This browser cannot open shared prescriptions. Try an up-to-date browser.',
+  'shared.openApp': 'Open AI Doctor',
+
+  'upload.processing': 'Preparing {name}…',
+  'upload.duplicate': 'Already attached: {names}.',
+  'upload.failed': 'Could not read: {names}.',
+  'upload.enhance': 'Auto-enhance photo',
+  'upload.cropped': 'Cropped',
+  'upload.straightened': 'Straightened {degrees}°',
+  'upload.contrast': 'Contrast boosted',
+  'upload.resized': 'Resized',
+  'upload.notEnhanced': 'This photo could not be enhanced and will be sent as it is.',
+  'upload.pagesSelected': '{selected} of {total} pages will be sent',
+  'upload.noPagesSelected': 'No pages selected; this report will not be sent',
+  'upload.allPages': 'Select all',
+  'upload.noPages': 'Select none',
+  'upload.page': 'Page {number}',
+  'upload.noPreview': 'No preview available; the whole PDF will be sent.',
+
+  'lab.title': 'Lab Results',
+  'lab.summary': '({rows} rows, {abnormal} outside range)',
+  'lab.addRow': '+ Add row',
+  'lab.hint': 'Check each row against the report and correct any misreads before generating the plan.',
+  'lab.test': 'Test',
+  'lab.value': 'Value',
+  'lab.unit': 'Unit',
+  'lab.reference': 'Reference',
+  'lab.referenceRange': 'Reference range',
+  'lab.flag': 'Flag',
+  'lab.date': 'Date',
+  'lab.reportDate': 'Report date',
+  'lab.normalized': 'Normalized',
+  'lab.remove': 'Remove',
+  'lab.removeRow': 'Remove row',
+  'lab.enteredByStaff': 'Entered by staff',
+  'labFlag.normal': 'Normal',
+  'labFlag.low': 'Low',
+  'labFlag.high': 'High',
+  'labFlag.critical': 'Critical',
+
+  'queue.title': 'Offline queue',
+  'queue.offline': 'You are offline. The form still works; submitted consultations are queued and generated when the connection returns.',
+  'queue.offlineLocal': 'You are offline. The local model is still available.',
+  'queue.submit': 'Queue consultation',
+  'queue.queued': 'The consultation for {name} was queued. It will be generated when the connection returns.',
+  'queue.full': 'There is no room left on this device to queue the consultation. Remove some reports or finished items and try again.',
+  'queue.willRun': 'Waiting consultations will be generated automatically when the connection returns.',
+  'queue.waiting': 'Waiting',
+  'queue.processing': 'Generating',
+  'queue.done': 'Ready',
+  'queue.failed': 'Failed',
+  'queue.emergency': 'Emergency',
+  'queue.emergencyHint': 'Triage found emergency warning signs. Refer the patient for urgent care, or continue only after review.',
+  'queue.open': 'Open',
+  'queue.retry': 'Retry',
+  'queue.continueAnyway': 'Continue anyway',
+  'queue.clearDone': 'Clear finished',
+  'queue.queuedAt': 'Queued {time}',
+  'queue.missing': 'The generated consultation could not be found in the patient history.',
+
+  'header.lock': 'Lock',
+  'lock.title': 'Enter the clinic PIN',
+  'lock.subtitle': 'Patient records on this device are locked.',
+  'lock.setupTitle': 'Set a clinic PIN',
+  'lock.setupSubtitle': 'Patient records on this device are encrypted with this PIN. Use at least {min} characters.',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'Repeat the PIN',
+  'lock.setupNote': 'Records cannot be recovered without the PIN.',
+  'lock.unlock': 'Unlock',
+  'lock.setup': 'Set PIN and continue',
+  'lock.forgot': 'Forgot the PIN? Erase all data on this device',
+  'lock.resetConfirm': 'Without the PIN, the patient records on this device cannot be read. Erase all of them and set a new PIN?',
+  'lock.wrongPin': 'That PIN is not correct.',
+  'lock.tooShort': 'The PIN is too short.',
+  'lock.mismatch': 'The two PINs do not match.',
+  'lock.failed': 'The patient records could not be opened on this device.',
+  'consent.label': 'The patient agrees to their details, symptoms and reports being sent to the AI service to prepare this plan.',
+  'consent.recorded': 'Consent recorded {time}',
+  'consent.required': 'Record the patient\'s consent before sending anything to the AI service.',
+  'consent.needed': 'Needs the patient\'s consent below',
+
+  'redact.open': 'Hide details',
+  'redact.count': '{count} areas hidden',
+  'redact.title': 'Hide identifying details',
+  'redact.instructions': 'Drag over names, record numbers and addresses to black them out. Only the covered photo is sent. Select a box to remove it.',
+  'redact.suggest': 'Find with OCR',
+  'redact.suggesting': 'Reading the photo…',
+  'redact.suggested': '{count} areas found. Check the photo for anything that was missed.',
+  'redact.suggestFailed': 'Could not read the photo. Draw the boxes by hand.',
+  'redact.clear': 'Clear all',
+  'redact.save': 'Save',
+  'redact.removeBox': 'Remove this box',
+  'redact.enhanceLocked': 'Clear the hidden areas before changing this',
+  'privacy.preview': 'Privacy preview',
+  'privacy.title': 'What will be sent to the AI service',
+  'privacy.intro': 'This is everything that will leave this device. Placeholders such as [PATIENT_NAME] are filled in again only on this device.',
+  'privacy.settingsHint': 'Choose which details are replaced in Settings.',
+  'privacy.loading': 'Preparing the preview…',
+  'privacy.failed': 'Could not prepare the preview.',
+  'privacy.triage': 'Urgency check',
+  'privacy.prescription': 'Prescription',
+  'privacy.triageNote': 'The triage line in the prescription request depends on the result of the urgency check.',
+  'privacy.attachments': 'Attachments ({count})',
+  'privacy.pdf': 'PDF report ({size} KB), sent with its text. Hidden areas only work on photos.',
+
+  'print.date': 'Date',
+  'print.age': 'Age',
+  'print.district': 'District',
+  'print.cell': 'Cell',
+  'print.condition': 'Condition',
+  'print.sex': 'Sex',
+  'print.weight': 'Weight',
+  'print.height': 'Height',
+  'print.bmi': 'BMI',
+  'print.allergies': 'Allergies',
+  'print.currentMedications': 'Current Medications',
+  'print.chronicConditions': 'Chronic Conditions',
+  'print.pregnancy': 'Pregnancy',
+  'print.tel': 'Tel',
+  'print.regNo': 'Reg. No',
+  'print.triage': 'Triage',
+  'print.overridden': 'Clinician chose to continue on {date}.',
+  'print.safetyCheck': 'Safety check',
+  'print.safetyFlagged': '{count} potential interaction(s) or contraindication(s) flagged below. Review them before use.',
+  'print.approvedStamp': 'Reviewed and approved by {name} on {date}.',
+  'print.draftStamp': 'DRAFT AI SUGGESTION — not yet reviewed by a practitioner. Do not use for treatment.',
+  'print.practitionerNote': 'Practitioner\'s note',
+  'print.practitionerNotes': 'Practitioner\'s Notes',
+  'print.followUp': 'Follow-up Questions',
+  'print.question': 'Q',
+  'print.answer': 'A',
+  'print.signature': 'Signature',
+  'print.reviewingPractitioner': 'Reviewing Practitioner',
+
+  'urgency.emergency': 'Emergency',
+  'urgency.urgent': 'Urgent',
+  'urgency.routine': 'Routine',
+  'urgencyNote.emergency': 'Seek emergency care immediately.',
+  'urgencyNote.urgent': 'See a doctor in person within 24 hours.',
+  'urgencyNote.routine': 'No red-flag symptoms detected.',
+  'severity.major': 'Major',
+  'severity.moderate': 'Moderate',
+  'severity.minor': 'Minor',
+
+  'chat.title': 'Questions About This Prescription',
+  'chat.includeInPrint': 'Include in printout',
+  'chat.empty': 'Ask anything about this plan, e.g. "Can I take this with food?" or "What if the fever persists?". Answers come in {language}.',
+  'chat.placeholder': 'Type a follow-up question...',
+  'chat.inputLabel': 'Follow-up question',
+  'chat.ask': 'Ask',
+
+  'emergency.title': 'Seek emergency care now',
+  'emergency.subtitle': 'These symptoms may be life-threatening. Do not wait for an online prescription.',
+  'emergency.callForHelp': 'Call for help:',
+  'emergency.callForHelpIn': 'Call for help in {district}:',
+  'emergency.noContacts': 'Call your local emergency number or go to the nearest hospital emergency department.',
+  'emergency.back': 'Back to Form',
+  'emergency.clinicianConfirm': 'A clinician has assessed the patient in person and decided to continue. This will be recorded on the prescription.',
+  'emergency.continue': 'Continue to Prescription',
+
+  'settings.aiProvider': 'AI Provider',
+  'settings.provider': 'Provider',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'OpenAI-compatible server (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'Offline mock (fixtures, no network)',
+  'settings.model': 'Model',
+  'settings.serverUrl': 'Server URL',
+  'settings.apiKeyGemini': 'API Key (Optional, overrides the built-in key)',
+  'settings.apiKeyOptional': 'API Key (Optional)',
+  'settings.apiKeyHint': 'Stored in this browser only.',
+  'settings.emergencyNumbers': 'Emergency Numbers',
+  'settings.emergencyHint': 'Shown on the emergency screen. Leave the district empty for numbers that apply everywhere.',
+  'settings.district': 'District',
+  'settings.allDistricts': 'All districts',
+  'settings.service': 'Service',
+  'settings.number': 'Number',
+  'settings.addNumber': '+ Add number',
+  'settings.security': 'Security',
+  'settings.securityHint': 'Patient records on this device are encrypted with the clinic PIN. There is no way to recover them without it.',
+  'settings.autoLock': 'Lock after inactivity',
+  'settings.oneMinute': '1 minute',
+  'settings.minutes': '{count} minutes',
+  'settings.currentPin': 'Current PIN',
+  'settings.newPin': 'New PIN',
+  'settings.newPinPlaceholder': 'New PIN ({min}+ characters)',
+  'settings.repeatPin': 'Repeat new PIN',
+  'settings.changePin': 'Change PIN',
+  'settings.changingPin': 'Changing PIN...',
+  'settings.pinChanged': 'PIN changed.',
+  'settings.pinFailed': 'The PIN could not be changed.',
+  'settings.privacy': 'Privacy',
+  'settings.privacyHint': 'Replaced with placeholders before anything is sent to the AI, and filled back in only on this device.',
+  'settings.modalities': 'Treatment Modalities',
+  'settings.modalitiesHint': 'The treatment types offered on the patient form. Each one\'s instructions are sent to the AI when it is selected.',
+  'privacyField.name': 'Patient name',
+  'privacyField.cell': 'Cell number',
+  'privacyField.district': 'District',
+  'privacyField.otherIdentifiers': 'Other phone numbers, emails and ID or record numbers in the description',
+
+  'history.savedLocally': 'Saved on this device only.',
+  'history.back': 'Back',
+  'history.loadFailed': 'Could not open the local patient history.',
+  'history.search': 'Search by name, cell or district...',
+  'history.noPatients': 'No saved patients yet.',
+  'history.noMatches': 'No patients match your search.',
+  'history.age': 'Age: {age}',
+  'history.district': 'District: {district}',
+  'history.cell': 'Cell: {cell}',
+  'history.lastVisit': 'Last visit: {date}',
+  'history.followUp': 'Follow-up Visit',
+  'history.export': 'Export patient data',
+  'history.exportFailed': 'Could not export the data for {name}.',
+  'history.erasePatient': 'Erase patient',
+  'history.eraseWarning': 'This permanently erases {name}\'s consultations, reports, queued consultations and dose reminders from this device. Export their data first if they asked for a copy. Type the patient\'s name to confirm.',
+  'history.patientName': 'Patient name',
+  'history.erase': 'Erase',
+  'history.erased': 'Erased {name}: {consultations} consultation(s), {attachments} report file(s), {queued} queued consultation(s) and {reminders} dose reminder(s). Checked at {time} that nothing is left on this device.',
+  'history.eraseFailed': 'Could not erase {name}.',
+  'history.eraseIncomplete': 'Some of the patient\'s records could not be erased. Try again.',
+  'history.consultations': 'Consultations',
+  'history.labTrends': 'Lab Trends',
+  'history.approved': 'Approved',
+  'history.draft': 'Draft',
+  'history.reports': '{count} report(s)',
+  'history.reopen': 'Reopen',
+  'history.print': 'Print',
+  'history.delete': 'Delete',
+  'history.deleteConfirm': 'Delete the consultation from {date}?',
+  'history.noConsultations': 'No consultations recorded.',
+
+  'clinic.imageError': 'That image could not be read. Please use a PNG or JPEG file.',
+  'clinic.saveError': 'Could not save the profile. Try smaller logo or signature images.',
+  'clinic.letterhead': 'Letterhead',
+  'clinic.letterheadHint': 'Printed on every prescription. Stored in this browser only.',
+  'clinic.logo': 'Logo',
+  'clinic.defaultLogo': 'Default logo',
+  'clinic.none': 'None',
+  'clinic.upload': 'Upload',
+  'clinic.clinicName': 'Clinic Name',
+  'clinic.tagline': 'Tagline',
+  'clinic.address': 'Address',
+  'clinic.phone': 'Phone',
+  'clinic.registrationNumber': 'Registration Number',
+  'clinic.prescriber': 'Prescriber',
+  'clinic.practitionerName': 'Reviewing Practitioner',
+  'clinic.signature': 'Signature',
+  'clinic.disclaimer': 'Disclaimer',
+  'clinic.disclaimerHint': 'Written in English and translated automatically into each patient\'s language. Changing it discards the saved translations.',
+  'clinic.removeTranslation': 'Remove translation',
+
+  'medEditor.name': 'Medicine',
+  'medEditor.strength': 'Strength',
+  'medEditor.dosage': 'Dosage',
+  'medEditor.duration': 'Duration',
+  'medEditor.route': 'Route',
+  'medEditor.notes': 'Notes',
+  'medEditor.mealsNotStated': 'Meals: not stated',
+  'medEditor.reviewerNote': 'Reviewer note',
+  'medEditor.reviewerNotePlaceholder': 'Reviewer note (optional)',
+  'medEditor.strike': 'Strike',
+  'medEditor.restore': 'Restore',
+  'modality.new': 'New modality',
+  'modality.offer': 'Offer {name}',
+  'modality.patientsOnly': '{religion} patients only',
+  'modality.edit': 'Edit',
+  'modality.done': 'Done',
+  'modality.name': 'Name (English, also shown to the AI)',
+  'modality.namePlaceholder': 'e.g. Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'Category',
+  'modality.format': 'Plan contains',
+  'modality.offeredTo': 'Offered to',
+  'modality.allPatients': 'All patients',
+  'modality.rules': 'Instructions for the AI',
+  'modality.rulesPlaceholder': 'What this plan should contain and how it should be written.',
+  'modality.conventionalHint': 'Remedies in conventional plans are checked for drug interactions; all others are checked as herbal remedies.',
+  'modality.restore': 'Restore default',
+  'modality.add': '+ Add modality',
+  'modalityCategory.conventional': 'Conventional medicine',
+  'modalityCategory.traditional': 'Traditional / complementary',
+  'modalityCategory.spiritual': 'Spiritual',
+  'modalityCategory.therapy': 'Therapy',
+  'outputFormat.medications': 'Remedies (name, strength, dosage, duration)',
+  'outputFormat.instructions': 'Guidance only (no remedies)',
+  'outputFormat.mixed': 'Remedies and guidance',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.title': 'Médico IA',
+  'header.history': 'Historial de pacientes',
+  'header.clinicProfile': 'Perfil de la clínica',
+  'header.settings': 'Ajustes',
+  'header.uiLanguage': 'Idioma de la interfaz',
+
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.remove': 'Quitar',
+  'common.save': 'Guardar',
+
+  'loading.title': 'Consultando al Médico IA...',
+  'loading.subtitle': 'Analizando informes y preparando su plan de salud.',
+
+  'form.title': 'Datos del paciente',
+  'form.subtitle': 'Indique sus datos para obtener un plan personalizado.',
+  'form.name': 'Nombre',
+  'form.age': 'Edad',
+  'form.district': 'Distrito / Ciudad',
+  'form.cell': 'Teléfono móvil (opcional)',
+  'form.religion': 'Religión',
+  'form.selectReligion': 'Seleccione una religión',
+  'form.language': 'Idioma preferido',
+  'form.clinicalDetails': 'Datos clínicos',
+  'form.clinicalHint': '(opcionales, pero recomendados para una dosificación segura)',
+  'form.sex': 'Sexo',
+  'form.notSpecified': 'No especificado',
+  'form.weight': 'Peso (kg)',
+  'form.height': 'Altura (cm)',
+  'form.pregnancy': 'Embarazo / lactancia',
+  'form.allergies': 'Alergias conocidas',
+  'form.allergiesPlaceholder': 'p. ej. penicilina, sulfamidas, cacahuetes',
+  'form.currentMedications': 'Medicación actual',
+  'form.currentMedicationsPlaceholder': 'p. ej. metformina 500 mg dos veces al día',
+  'form.chronicConditions': 'Enfermedades crónicas',
+  'form.chronicConditionsPlaceholder': 'p. ej. diabetes, hipertensión, asma',
+  'form.recommended': 'Recomendado: añada {fields} para poder ajustar las dosis con seguridad.',
+  'form.describeOrUpload': 'Describa la dolencia o suba informes',
+  'form.tabSymptoms': 'Describir síntomas',
+  'form.tabUpload': 'Subir informes',
+  'form.symptomsPlaceholder': 'Ejemplo: tengo fiebre, tos y dolor de cabeza...',
+  'form.clickToUpload': 'Haga clic para subir',
+  'form.dragAndDrop': 'o arrastre y suelte aquí',
+  'form.fileTypes': 'PDF de hasta 20 MB; fotos JPG, PNG, WebP o HEIC de hasta 50 MB',
+  'form.uploadedFiles': 'Archivos subidos:',
+  'form.extractLabResults': 'Extraer resultados de laboratorio ({count})',
+  'form.readingReports': 'Leyendo informes...',
+  'form.reportComments': 'Comentarios o preguntas sobre los informes (opcional)',
+  'form.reportCommentsPlaceholder': 'Aporte contexto sobre sus informes o haga preguntas concretas... p. ej. "Revise los resultados de función renal del archivo adjunto."',
+  'form.treatmentTypes': 'Seleccione el tipo de tratamiento',
+  'form.returningPatient': 'Paciente recurrente:',
+  'form.includeHistory': 'Incluir {count} consulta(s) anterior(es) como contexto para esta visita de seguimiento.',
+  'form.submit': 'Obtener receta IA',
+  'form.generating': 'Generando...',
+
+  'voice.record': 'Grabar síntomas',
+  'voice.stop': 'Detener grabación',
+  'voice.recording': 'Grabando... {time}',
+  'voice.transcribing': 'Escuchando la grabación...',
+  'voice.reviewTitle': 'Revise lo que hemos entendido',
+  'voice.reviewHint': 'Corrija lo que esté mal antes de añadirlo a la descripción.',
+  'voice.symptoms': 'Síntomas detectados:',
+  'voice.use': 'Añadir a la descripción',
+  'voice.discard': 'Descartar',
+  'voice.micError': 'No se pudo usar el micrófono. Permita el acceso al micrófono en el navegador e inténtelo de nuevo.',
+  'voice.unsupported': 'Este navegador no admite la entrada por voz.',
+  'voice.empty': 'No se oyó ninguna voz en la grabación. Inténtelo de nuevo.',
+  'speech.readAloud': 'Leer en voz alta',
+  'speech.stop': 'Dejar de leer',
+  'speech.noVoice': 'Este dispositivo no tiene voz para {language}.',
+
+  'form.tabGuided': 'Preguntas guiadas',
+  'guided.intro': 'Responda unas preguntas rápidas. Solo el problema principal es obligatorio; omita lo que no sepa.',
+  'guided.complaint': '¿Cuál es el problema principal?',
+  'guided.duration': '¿Desde cuándo lo tiene?',
+  'guided.durationValue': 'Cantidad',
+  'guided.severity': '¿Cuánto le molesta? (0 = nada, 10 = lo peor imaginable)',
+  'guided.notRated': 'Sin valorar',
+  'guided.clear': 'Borrar',
+  'guided.onset': '¿Cómo empezó?',
+  'guided.location': '¿Dónde es? Toque el cuerpo o elija abajo.',
+  'guided.bodyMap': 'Mapa del cuerpo',
+  'guided.temperature': 'Temperatura más alta medida (°C)',
+  'guided.painCharacter': '¿Cómo es el dolor?',
+  'guided.associated': '¿Tiene también alguno de estos?',
+  'guided.tried': '¿Qué ha probado ya?',
+  'guided.notes': '¿Algo más? (opcional)',
+  'guided.summaryTitle': 'Resumen de síntomas',
+  'summary.complaint': 'Motivo',
+  'summary.duration': 'Duración',
+  'summary.severity': 'Intensidad',
+  'summary.onset': 'Inicio',
+  'summary.location': 'Localización',
+  'summary.temperature': 'Temperatura máxima',
+  'summary.painCharacter': 'Tipo de dolor',
+  'summary.associated': 'También presenta',
+  'summary.tried': 'Ya probado',
+  'summary.notes': 'Notas',
+  'duration.hours': '{count} hora(s)',
+  'duration.days': '{count} día(s)',
+  'duration.weeks': '{count} semana(s)',
+  'duration.months': '{count} mes(es)',
+  'durationUnit.hours': 'Horas',
+  'durationUnit.days': 'Días',
+  'durationUnit.weeks': 'Semanas',
+  'durationUnit.months': 'Meses',
+  'onset.sudden': 'De repente',
+  'onset.gradual': 'Poco a poco',
+  'complaint.fever': 'Fiebre',
+  'complaint.cough': 'Tos',
+  'complaint.breathing': 'Dificultad para respirar',
+  'complaint.pain': 'Dolor',
+  'complaint.stomach': 'Estómago / digestión',
+  'complaint.skin': 'Problema de piel',
+  'complaint.urinary': 'Problema urinario',
+  'complaint.fatigue': 'Cansancio / debilidad',
+  'associated.chills': 'Escalofríos',
+  'associated.sweating': 'Sudoración',
+  'associated.bodyAches': 'Dolor de cuerpo',
+  'associated.headache': 'Dolor de cabeza',
+  'associated.rash': 'Erupción',
+  'associated.lossOfAppetite': 'Falta de apetito',
+  'associated.phlegm': 'Flemas',
+  'associated.bloodInPhlegm': 'Sangre en las flemas',
+  'associated.soreThroat': 'Dolor de garganta',
+  'associated.runnyNose': 'Mucosidad nasal',
+  'associated.wheeze': 'Silbidos al respirar',
+  'associated.chestPain': 'Dolor en el pecho',
+  'associated.swelling': 'Hinchazón',
+  'associated.numbness': 'Entumecimiento u hormigueo',
+  'associated.dizziness': 'Mareo',
+  'associated.nausea': 'Náuseas',
+  'associated.vomiting': 'Vómitos',
+  'associated.diarrhoea': 'Diarrea',
+  'associated.bloodInStool': 'Sangre en las heces',
+  'associated.itching': 'Picor',
+  'associated.burningUrine': 'Ardor al orinar',
+  'associated.frequentUrination': 'Orinar con frecuencia',
+  'associated.bloodInUrine': 'Sangre en la orina',
+  'associated.weightLoss': 'Pérdida de peso',
+  'painCharacter.sharp': 'Agudo / punzante',
+  'painCharacter.dull': 'Sordo / continuo',
+  'painCharacter.burning': 'Quemante',
+  'painCharacter.cramping': 'Tipo cólico',
+  'painCharacter.throbbing': 'Pulsátil',
+  'tried.paracetamol': 'Paracetamol',
+  'tried.ibuprofen': 'Ibuprofeno',
+  'tried.antibiotics': 'Antibióticos',
+  'tried.coughSyrup': 'Jarabe para la tos',
+  'tried.antacid': 'Antiácido',
+  'tried.herbal': 'Remedio de hierbas',
+  'tried.homeRemedy': 'Remedio casero',
+  'tried.nothing': 'Nada todavía',
+  'body.head': 'Cabeza',
+  'body.throat': 'Garganta / cuello',
+  'body.chest': 'Pecho',
+  'body.upperAbdomen': 'Parte alta del abdomen',
+  'body.lowerAbdomen': 'Parte baja del abdomen',
+  'body.arms': 'Brazos',
+  'body.legs': 'Piernas',
+  'body.back': 'Espalda',
+  'body.joints': 'Articulaciones',
+  'body.wholeBody': 'Todo el cuerpo',
+
+  'religion.islam': 'Islam',
+  'religion.christianity': 'Cristianismo',
+  'religion.hinduism': 'Hinduismo',
+  'religion.buddhism': 'Budismo',
+  'religion.sikhism': 'Sijismo',
+  'religion.judaism': 'Judaísmo',
+  'religion.bahai': 'Fe bahá’í',
+  'religion.chineseFolk': 'Religión popular china',
+  'religion.spiritism': 'Espiritismo',
+  'religion.indigenous': 'Religiones étnicas / indígenas',
+  'religion.other': 'Otra',
+
+  'treatment.hikmat': 'Hikmat (herbolaria tradicional)',
+  'treatment.homeopathy': 'Homeopatía',
+  'treatment.allopathy': 'Alopatía (médicos especialistas)',
+  'treatment.islam': 'Corán y Asma-ul-Husna',
+  'treatment.christianity': 'Sanación bíblica y oración',
+  'treatment.hinduism': 'Ayurveda y mantras',
+  'treatment.buddhism': 'Meditación y cánticos',
+  'treatment.sikhism': 'Recitación del Gurbani y seva',
+  'treatment.judaism': 'Estudio de la Torá y oración',
+  'treatment.bahai': 'Escritos de Bahá’u’lláh y oración',
+  'treatment.chineseFolk': 'Veneración de los ancestros y remedios herbales',
+  'treatment.spiritism': 'Orientación espiritual y sanación',
+  'treatment.indigenous': 'Rituales tradicionales y sanación natural',
+
+  'sex.female': 'Mujer',
+  'sex.male': 'Hombre',
+  'sex.other': 'Otro',
+
+  'pregnancy.none': 'Ni embarazada ni en lactancia',
+  'pregnancy.pregnant': 'Embarazada',
+  'pregnancy.breastfeeding': 'En lactancia',
+  'pregnancy.pregnant-breastfeeding': 'Embarazada y en lactancia',
+
+  'missing.sex': 'sexo',
+  'missing.weight': 'peso',
+  'missing.weightChild': 'peso (necesario para la dosis pediátrica)',
+  'missing.allergies': 'alergias conocidas',
+  'missing.currentMedications': 'medicación actual',
+  'missing.pregnancyStatus': 'estado de embarazo',
+
+  'validation.weightRange': 'Introduzca un peso entre 0,5 y 350 kg.',
+  'validation.weightInfant': 'Ese peso parece demasiado alto para un lactante. Compruébelo.',
+  'validation.heightRange': 'Introduzca una altura entre 30 y 250 cm.',
+  'validation.pregnancyMismatch': 'El embarazo o la lactancia no concuerdan con el sexo o la edad indicados.',
+  'validation.tooLong': 'Manténgalo por debajo de {max} caracteres.',
+
+  'error.requiredFields': 'Complete todos los campos obligatorios, describa los síntomas o suba un informe y elija al menos un tipo de tratamiento.',
+  'error.clinicalDetails': 'Corrija los datos clínicos marcados.',
+  'error.invalidFiles': 'Algunos archivos no eran válidos. Solo se aceptan PDF de menos de 20 MB y fotos JPG, PNG, WebP o HEIC de menos de 50 MB.',
+  'error.quota': 'Se alcanzó el límite de uso del servicio de IA. Espere un minuto y vuelva a intentarlo, o revise el plan de la clave de API en Ajustes.',
+  'error.safety': 'El servicio de IA se negó a responder a esta solicitud. Reformule la descripción y vuelva a intentarlo.',
+  'error.network': 'No se pudo conectar con el servicio de IA. Compruebe la conexión a internet y vuelva a intentarlo.',
+  'error.unavailable': 'El servicio de IA está ocupado o no disponible en este momento. Vuelva a intentarlo en unos minutos.',
+  'error.invalidOutput': 'La IA devolvió varias veces una receta que no seguía las reglas (idioma, un plan por tratamiento, medicamentos completos, consejos). Vuelva a intentarlo.',
+
+  'prescription.previewTitle': 'Vista previa de la receta',
+  'prescription.downloadPdf': 'Descargar PDF',
+  'prescription.creatingPdf': 'Creando PDF...',
+  'prescription.downloadImage': 'Imagen (PNG)',
+  'prescription.creatingImage': 'Creando imagen...',
+  'prescription.pdfError': 'No se pudo crear el PDF. Inténtelo de nuevo o descargue una imagen.',
+  'prescription.imageError': 'No se pudo crear la imagen. Inténtelo de nuevo.',
+  'prescription.streaming': 'Aún se está generando. Las secciones aparecen a medida que llegan.',
+  'prescription.edit': 'Volver y editar',
+  'prescription.preview': 'Vista previa de la receta',
+  'prescription.startNew': 'Empezar de nuevo',
+  'prescription.incomplete': 'Esta receta se interrumpió durante la generación y puede que le falten secciones.',
+  'prescription.cancelled': 'Se canceló la generación. Las secciones recibidas hasta ahora se conservan abajo y pueden estar incompletas.',
+  'prescription.stoppedEarly': '{reason} Las secciones recibidas hasta ahora se conservan abajo y pueden estar incompletas.',
+  'prescription.safetyUnchecked': 'La comprobación de seguridad no reconoció ningún nombre de medicamento, así que no se revisaron las interacciones entre fármacos y hierbas. Revíselas usted antes de aprobar.',
+  'prescription.disclaimer': 'Esta receta ha sido generada por un modelo de IA. Tiene fines exclusivamente informativos y no debe considerarse un sustituto del consejo, diagnóstico o tratamiento médico profesional. Consulte siempre a un profesional sanitario cualificado antes de tomar cualquier decisión de salud o iniciar un nuevo tratamiento.',
+
+  'review.draft': 'Borrador sugerido por la IA.',
+  'review.draftHint': 'Un profesional debe revisarlo y aprobarlo antes de entregarlo.',
+  'review.edit': 'Editar receta',
+  'review.doneEditing': 'Terminar edición',
+  'review.notes': 'Notas de revisión',
+  'review.notesPlaceholder': 'Notas para el paciente o el historial (opcional)',
+  'review.reviewerName': 'Nombre del revisor',
+  'review.approve': 'Aprobar y firmar',
+  'review.approvedBy': 'Aprobado por {name} el {date}.',
+  'review.includesEdits': 'Incluye cambios del profesional.',
+  'review.revoke': 'Revocar aprobación',
+  'review.revokeConfirm': '¿Revocar la aprobación y devolver esta receta a borrador?',
+  'review.addedByReviewer': 'Añadido por el revisor',
+  'review.addMedicine': '+ Añadir medicamento',
+  'review.instruction': 'Indicación',
+  'review.advice': 'Consejo',
+
+  'compare.layout': 'Diseño',
+  'compare.stacked': 'Uno tras otro',
+  'compare.sideBySide': 'Lado a lado',
+  'compare.title': 'Comparación de las opciones',
+  'compare.duration': 'Duración prevista',
+  'compare.medicines': 'Número de medicamentos',
+  'compare.cost': 'Costo aproximado',
+  'compare.evidence': 'Evidencia',
+  'compare.cautions': 'Precauciones',
+  'compare.plan': 'Plan',
+  'compare.notStated': 'No indicado',
+  'cost.low': 'Bajo',
+  'cost.moderate': 'Moderado',
+  'cost.high': 'Alto',
+  'evidence.strong': 'Evidencia clínica sólida',
+  'evidence.moderate': 'Cierta evidencia clínica',
+  'evidence.limited': 'Evidencia limitada',
+  'evidence.traditional': 'Uso tradicional, sin ensayos clínicos',
+
+  'dose.title': 'Calendario de dosis',
+  'dose.starting': 'A partir del {date}',
+  'dose.medicine': 'Medicamento',
+  'dose.food': 'Comidas',
+  'dose.days': 'Días',
+  'dose.day': 'Día {day}',
+  'dose.asDirected': 'Según indicación',
+  'dose.tick': 'Marque cada dosis al tomarla y complete todo el tratamiento.',
+  'dose.reminderTitle': 'Hora de la medicina de {name}',
+  'doseTime.morning': 'Mañana',
+  'doseTime.noon': 'Mediodía',
+  'doseTime.evening': 'Tarde',
+  'doseTime.night': 'Noche',
+  'food.before': 'Antes de comer',
+  'food.with': 'Con la comida',
+  'food.after': 'Después de comer',
+  'food.any': 'Con o sin comida',
+  'dose.startDate': 'Inicio del tratamiento',
+  'dose.print': 'Imprimir calendario',
+  'dose.calendar': 'Añadir al calendario',
+  'dose.remind': 'Recordarme',
+  'dose.remindersOn': 'Recordatorios activados',
+  'dose.remindersNote': 'Los recordatorios solo aparecen mientras esta aplicación está abierta. Añada el tratamiento a su calendario para recibir avisos en el teléfono.',
+  'dose.remindersBlocked': 'Las notificaciones están bloqueadas. Permítalas en la configuración del navegador para recibir recordatorios.',
+  'dose.remindersUnsupported': 'Este navegador no puede mostrar recordatorios. Añada el tratamiento a su calendario.',
+
+  'share.button': 'Compartir enlace',
+  'share.title': 'Compartir con el paciente',
+  'share.intro': 'La receta va dentro del propio enlace, así que nunca se sube a ningún sitio. Cualquiera con el enlace puede leerla, salvo que añada una frase de contraseña.',
+  'share.passphrase': 'Frase de contraseña (opcional)',
+  'share.passphraseHint': 'Diga la frase al paciente en persona o por teléfono, no en el mismo mensaje que el enlace.',
+  'share.create': 'Crear enlace',
+  'share.creating': 'Creando…',
+  'share.copy': 'Copiar enlace',
+  'share.copied': 'Copiado',
+  'share.send': 'Enviar…',
+  'share.qrOnPrint': 'El código QR también se imprime en la receta y se incluye en el PDF.',
+  'share.tooLongForQr': 'Esta receta es demasiado larga para un código QR. Envíe el enlace.',
+  'share.error': 'No se pudo crear el enlace en este navegador.',
+  'share.scan': 'Escanee para abrir este plan en su teléfono',
+  'shared.title': 'Su receta',
+  'shared.readOnly': 'Copia de solo lectura compartida el {date}',
+  'shared.passphrasePrompt': 'Esta receta está protegida. Introduzca la frase que le dio su médico.',
+  'shared.open': 'Abrir',
+  'shared.opening': 'Abriendo la receta…',
+  'shared.print': 'Imprimir',
+  'shared.wrongPassphrase': 'La frase no es correcta.',
+  'shared.invalid': 'Este enlace está dañado o incompleto. Pida a su médico que lo envíe de nuevo.',
+  'shared.unsupported': 'Este navegador no puede abrir recetas compartidas. Pruebe con un navegador actualizado.',
+  'shared.openApp': 'Abrir Médico IA',
+
+  'upload.processing': 'Preparando {name}…',
+  'upload.duplicate': 'Ya adjunto: {names}.',
+  'upload.failed': 'No se pudo leer: {names}.',
+  'upload.enhance': 'Mejorar foto automáticamente',
+  'upload.cropped': 'Recortada',
+  'upload.straightened': 'Enderezada {degrees}°',
+  'upload.contrast': 'Contraste aumentado',
+  'upload.resized': 'Reducida',
+  'upload.notEnhanced': 'No se pudo mejorar esta foto; se enviará tal cual.',
+  'upload.pagesSelected': 'Se enviarán {selected} de {total} páginas',
+  'upload.noPagesSelected': 'Ninguna página seleccionada; este informe no se enviará',
+  'upload.allPages': 'Seleccionar todas',
+  'upload.noPages': 'Ninguna',
+  'upload.page': 'Página {number}',
+  'upload.noPreview': 'Sin vista previa; se enviará el PDF completo.',
+
+  'lab.title': 'Resultados de laboratorio',
+  'lab.summary': '({rows} filas, {abnormal} fuera de rango)',
+  'lab.addRow': '+ Añadir fila',
+  'lab.hint': 'Compare cada fila con el informe y corrija cualquier error de lectura antes de generar el plan.',
+  'lab.test': 'Prueba',
+  'lab.value': 'Valor',
+  'lab.unit': 'Unidad',
+  'lab.reference': 'Referencia',
+  'lab.referenceRange': 'Rango de referencia',
+  'lab.flag': 'Indicador',
+  'lab.date': 'Fecha',
+  'lab.reportDate': 'Fecha del informe',
+  'lab.normalized': 'Normalizado',
+  'lab.remove': 'Quitar',
+  'lab.removeRow': 'Quitar fila',
+  'lab.enteredByStaff': 'Introducido por el personal',
+  'labFlag.normal': 'Normal',
+  'labFlag.low': 'Bajo',
+  'labFlag.high': 'Alto',
+  'labFlag.critical': 'Crítico',
+
+  'queue.title': 'Cola sin conexión',
+  'queue.offline': 'Estás sin conexión. El formulario sigue funcionando; las consultas enviadas se ponen en cola y se generan cuando vuelva la conexión.',
+  'queue.offlineLocal': 'Estás sin conexión. El modelo local sigue disponible.',
+  'queue.submit': 'Poner consulta en cola',
+  'queue.queued': 'La consulta de {name} se puso en cola. Se generará cuando vuelva la conexión.',
+  'queue.full': 'No queda espacio en este dispositivo para poner la consulta en cola. Quita algunos informes o elementos terminados e inténtalo de nuevo.',
+  'queue.willRun': 'Las consultas en espera se generarán automáticamente cuando vuelva la conexión.',
+  'queue.waiting': 'En espera',
+  'queue.processing': 'Generando',
+  'queue.done': 'Lista',
+  'queue.failed': 'Falló',
+  'queue.emergency': 'Emergencia',
+  'queue.emergencyHint': 'El triaje encontró signos de alarma de emergencia. Deriva al paciente a atención urgente o continúa solo tras revisarlo.',
+  'queue.open': 'Abrir',
+  'queue.retry': 'Reintentar',
+  'queue.continueAnyway': 'Continuar de todos modos',
+  'queue.clearDone': 'Quitar terminadas',
+  'queue.queuedAt': 'En cola desde {time}',
+  'queue.missing': 'No se encontró la consulta generada en el historial del paciente.',
+
+  'header.lock': 'Bloquear',
+  'lock.title': 'Introduce el PIN de la clínica',
+  'lock.subtitle': 'Los registros de pacientes de este dispositivo están bloqueados.',
+  'lock.setupTitle': 'Crea un PIN para la clínica',
+  'lock.setupSubtitle': 'Los registros de pacientes de este dispositivo se cifran con este PIN. Usa al menos {min} caracteres.',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'Repite el PIN',
+  'lock.setupNote': 'Los registros no se pueden recuperar sin el PIN.',
+  'lock.unlock': 'Desbloquear',
+  'lock.setup': 'Crear PIN y continuar',
+  'lock.forgot': '¿Olvidaste el PIN? Borrar todos los datos de este dispositivo',
+  'lock.resetConfirm': 'Sin el PIN no se pueden leer los registros de pacientes de este dispositivo. ¿Borrarlos todos y crear un PIN nuevo?',
+  'lock.wrongPin': 'El PIN no es correcto.',
+  'lock.tooShort': 'El PIN es demasiado corto.',
+  'lock.mismatch': 'Los dos PIN no coinciden.',
+  'lock.failed': 'No se pudieron abrir los registros de pacientes en este dispositivo.',
+  'consent.label': 'El paciente acepta que sus datos, síntomas e informes se envíen al servicio de IA para preparar este plan.',
+  'consent.recorded': 'Consentimiento registrado: {time}',
+  'consent.required': 'Registra el consentimiento del paciente antes de enviar nada al servicio de IA.',
+  'consent.needed': 'Requiere el consentimiento del paciente (abajo)',
+
+  'redact.open': 'Ocultar datos',
+  'redact.count': '{count} zonas ocultas',
+  'redact.title': 'Ocultar datos identificativos',
+  'redact.instructions': 'Arrastra sobre nombres, números de historia y direcciones para taparlos. Solo se envía la foto tapada. Selecciona un recuadro para quitarlo.',
+  'redact.suggest': 'Buscar con OCR',
+  'redact.suggesting': 'Leyendo la foto…',
+  'redact.suggested': 'Se encontraron {count} zonas. Revisa la foto por si falta algo.',
+  'redact.suggestFailed': 'No se pudo leer la foto. Dibuja los recuadros a mano.',
+  'redact.clear': 'Quitar todo',
+  'redact.save': 'Guardar',
+  'redact.removeBox': 'Quitar este recuadro',
+  'redact.enhanceLocked': 'Quita las zonas ocultas antes de cambiar esto',
+  'privacy.preview': 'Vista previa de privacidad',
+  'privacy.title': 'Lo que se enviará al servicio de IA',
+  'privacy.intro': 'Esto es todo lo que saldrá de este dispositivo. Los marcadores como [PATIENT_NAME] se rellenan de nuevo solo en este dispositivo.',
+  'privacy.settingsHint': 'Elige en Ajustes qué datos se sustituyen.',
+  'privacy.loading': 'Preparando la vista previa…',
+  'privacy.failed': 'No se pudo preparar la vista previa.',
+  'privacy.triage': 'Valoración de urgencia',
+  'privacy.prescription': 'Receta',
+  'privacy.triageNote': 'La línea de triaje de la petición de receta depende del resultado de la valoración de urgencia.',
+  'privacy.attachments': 'Adjuntos ({count})',
+  'privacy.pdf': 'Informe PDF ({size} KB), enviado con su texto. Ocultar zonas solo funciona en fotos.',
+
+  'print.date': 'Fecha',
+  'print.age': 'Edad',
+  'print.district': 'Distrito',
+  'print.cell': 'Móvil',
+  'print.condition': 'Dolencia',
+  'print.sex': 'Sexo',
+  'print.weight': 'Peso',
+  'print.height': 'Altura',
+  'print.bmi': 'IMC',
+  'print.allergies': 'Alergias',
+  'print.currentMedications': 'Medicación actual',
+  'print.chronicConditions': 'Enfermedades crónicas',
+  'print.pregnancy': 'Embarazo',
+  'print.tel': 'Tel.',
+  'print.regNo': 'N.º de registro',
+  'print.triage': 'Triaje',
+  'print.overridden': 'El profesional decidió continuar el {date}.',
+  'print.safetyCheck': 'Control de seguridad',
+  'print.safetyFlagged': 'Abajo se señalan {count} posibles interacciones o contraindicaciones. Revíselas antes de usar.',
+  'print.approvedStamp': 'Revisado y aprobado por {name} el {date}.',
+  'print.draftStamp': 'BORRADOR SUGERIDO POR LA IA — aún no revisado por un profesional. No lo use como tratamiento.',
+  'print.practitionerNote': 'Nota del profesional',
+  'print.practitionerNotes': 'Notas del profesional',
+  'print.followUp': 'Preguntas de seguimiento',
+  'print.question': 'P',
+  'print.answer': 'R',
+  'print.signature': 'Firma',
+  'print.reviewingPractitioner': 'Profesional revisor',
+
+  'urgency.emergency': 'Emergencia',
+  'urgency.urgent': 'Urgente',
+  'urgency.routine': 'Rutinario',
+  'urgencyNote.emergency': 'Busque atención de urgencia de inmediato.',
+  'urgencyNote.urgent': 'Acuda en persona a un médico en las próximas 24 horas.',
+  'urgencyNote.routine': 'No se detectaron síntomas de alarma.',
+  'severity.major': 'Grave',
+  'severity.moderate': 'Moderado',
+  'severity.minor': 'Leve',
+
+  'chat.title': 'Preguntas sobre esta receta',
+  'chat.includeInPrint': 'Incluir en la impresión',
+  'chat.empty': 'Pregunte lo que quiera sobre este plan, como "¿Puedo tomarlo con comida?" o "¿Y si la fiebre no baja?". Las respuestas llegan en {language}.',
+  'chat.placeholder': 'Escriba una pregunta de seguimiento...',
+  'chat.inputLabel': 'Pregunta de seguimiento',
+  'chat.ask': 'Preguntar',
+
+  'emergency.title': 'Busque atención de urgencia ahora',
+  'emergency.subtitle': 'Estos síntomas pueden poner en riesgo la vida. No espere a una receta en línea.',
+  'emergency.callForHelp': 'Llame para pedir ayuda:',
+  'emergency.callForHelpIn': 'Llame para pedir ayuda en {district}:',
+  'emergency.noContacts': 'Llame a su número de emergencias local o acuda a urgencias del hospital más cercano.',
+  'emergency.back': 'Volver al formulario',
+  'emergency.clinicianConfirm': 'Un profesional sanitario ha valorado al paciente en persona y decide continuar. Esto quedará registrado en la receta.',
+  'emergency.continue': 'Continuar con la receta',
+
+  'settings.aiProvider': 'Proveedor de IA',
+  'settings.provider': 'Proveedor',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'Servidor compatible con OpenAI (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'Simulación sin conexión (datos de prueba, sin red)',
+  'settings.model': 'Modelo',
+  'settings.serverUrl': 'URL del servidor',
+  'settings.apiKeyGemini': 'Clave de API (opcional, sustituye a la clave integrada)',
+  'settings.apiKeyOptional': 'Clave de API (opcional)',
+  'settings.apiKeyHint': 'Solo se guarda en este navegador.',
+  'settings.emergencyNumbers': 'Números de emergencia',
+  'settings.emergencyHint': 'Se muestran en la pantalla de emergencia. Deje el distrito vacío para los números válidos en todas partes.',
+  'settings.district': 'Distrito',
+  'settings.allDistricts': 'Todos los distritos',
+  'settings.service': 'Servicio',
+  'settings.number': 'Número',
+  'settings.addNumber': '+ Añadir número',
+  'settings.security': 'Seguridad',
+  'settings.securityHint': 'Los registros de pacientes de este dispositivo están cifrados con el PIN de la clínica. No hay forma de recuperarlos sin él.',
+  'settings.autoLock': 'Bloquear tras inactividad',
+  'settings.oneMinute': '1 minuto',
+  'settings.minutes': '{count} minutos',
+  'settings.currentPin': 'PIN actual',
+  'settings.newPin': 'PIN nuevo',
+  'settings.newPinPlaceholder': 'PIN nuevo ({min} caracteres o más)',
+  'settings.repeatPin': 'Repita el PIN nuevo',
+  'settings.changePin': 'Cambiar PIN',
+  'settings.changingPin': 'Cambiando el PIN...',
+  'settings.pinChanged': 'PIN cambiado.',
+  'settings.pinFailed': 'No se pudo cambiar el PIN.',
+  'settings.privacy': 'Privacidad',
+  'settings.privacyHint': 'Se sustituyen por marcadores antes de enviar nada a la IA y solo se restauran en este dispositivo.',
+  'settings.modalities': 'Modalidades de tratamiento',
+  'settings.modalitiesHint': 'Los tipos de tratamiento que se ofrecen en el formulario del paciente. Las instrucciones de cada uno se envían a la IA cuando se selecciona.',
+  'privacyField.name': 'Nombre del paciente',
+  'privacyField.cell': 'Teléfono móvil',
+  'privacyField.district': 'Distrito',
+  'privacyField.otherIdentifiers': 'Otros teléfonos, correos electrónicos y números de identificación o de historial en la descripción',
+
+  'history.savedLocally': 'Guardado solo en este dispositivo.',
+  'history.back': 'Volver',
+  'history.loadFailed': 'No se pudo abrir el historial local de pacientes.',
+  'history.search': 'Buscar por nombre, móvil o distrito...',
+  'history.noPatients': 'Aún no hay pacientes guardados.',
+  'history.noMatches': 'Ningún paciente coincide con la búsqueda.',
+  'history.age': 'Edad: {age}',
+  'history.district': 'Distrito: {district}',
+  'history.cell': 'Móvil: {cell}',
+  'history.lastVisit': 'Última visita: {date}',
+  'history.followUp': 'Visita de seguimiento',
+  'history.export': 'Exportar datos del paciente',
+  'history.exportFailed': 'No se pudieron exportar los datos de {name}.',
+  'history.erasePatient': 'Borrar paciente',
+  'history.eraseWarning': 'Esto borra de forma permanente de este dispositivo las consultas, informes, consultas en cola y recordatorios de dosis de {name}. Si pidió una copia, exporte antes sus datos. Escriba el nombre del paciente para confirmar.',
+  'history.patientName': 'Nombre del paciente',
+  'history.erase': 'Borrar',
+  'history.erased': 'Se borró a {name}: {consultations} consulta(s), {attachments} archivo(s) de informe, {queued} consulta(s) en cola y {reminders} recordatorio(s) de dosis. Se comprobó a las {time} que no queda nada en este dispositivo.',
+  'history.eraseFailed': 'No se pudo borrar a {name}.',
+  'history.eraseIncomplete': 'No se pudieron borrar algunos registros del paciente. Inténtelo de nuevo.',
+  'history.consultations': 'Consultas',
+  'history.labTrends': 'Evolución de análisis',
+  'history.approved': 'Aprobada',
+  'history.draft': 'Borrador',
+  'history.reports': '{count} informe(s)',
+  'history.reopen': 'Reabrir',
+  'history.print': 'Imprimir',
+  'history.delete': 'Eliminar',
+  'history.deleteConfirm': '¿Eliminar la consulta del {date}?',
+  'history.noConsultations': 'No hay consultas registradas.',
+
+  'clinic.imageError': 'No se pudo leer esa imagen. Use un archivo PNG o JPEG.',
+  'clinic.saveError': 'No se pudo guardar el perfil. Pruebe con imágenes de logotipo o firma más pequeñas.',
+  'clinic.letterhead': 'Membrete',
+  'clinic.letterheadHint': 'Se imprime en cada receta. Solo se guarda en este navegador.',
+  'clinic.logo': 'Logotipo',
+  'clinic.defaultLogo': 'Logotipo predeterminado',
+  'clinic.none': 'Ninguna',
+  'clinic.upload': 'Subir',
+  'clinic.clinicName': 'Nombre de la clínica',
+  'clinic.tagline': 'Eslogan',
+  'clinic.address': 'Dirección',
+  'clinic.phone': 'Teléfono',
+  'clinic.registrationNumber': 'Número de registro',
+  'clinic.prescriber': 'Prescriptor',
+  'clinic.practitionerName': 'Profesional revisor',
+  'clinic.signature': 'Firma',
+  'clinic.disclaimer': 'Aviso legal',
+  'clinic.disclaimerHint': 'Se escribe en inglés y se traduce automáticamente al idioma de cada paciente. Al cambiarlo se descartan las traducciones guardadas.',
+  'clinic.removeTranslation': 'Quitar traducción',
+
+  'medEditor.name': 'Medicamento',
+  'medEditor.strength': 'Concentración',
+  'medEditor.dosage': 'Posología',
+  'medEditor.duration': 'Duración',
+  'medEditor.route': 'Vía',
+  'medEditor.notes': 'Notas',
+  'medEditor.mealsNotStated': 'Comidas: no indicado',
+  'medEditor.reviewerNote': 'Nota del revisor',
+  'medEditor.reviewerNotePlaceholder': 'Nota del revisor (opcional)',
+  'medEditor.strike': 'Tachar',
+  'medEditor.restore': 'Restaurar',
+  'modality.new': 'Nueva modalidad',
+  'modality.offer': 'Ofrecer {name}',
+  'modality.patientsOnly': 'Solo pacientes de {religion}',
+  'modality.edit': 'Editar',
+  'modality.done': 'Listo',
+  'modality.name': 'Nombre (en inglés, también se muestra a la IA)',
+  'modality.namePlaceholder': 'p. ej., Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'Categoría',
+  'modality.format': 'El plan incluye',
+  'modality.offeredTo': 'Se ofrece a',
+  'modality.allPatients': 'Todos los pacientes',
+  'modality.rules': 'Instrucciones para la IA',
+  'modality.rulesPlaceholder': 'Qué debe contener este plan y cómo debe redactarse.',
+  'modality.conventionalHint': 'Los remedios de los planes convencionales se revisan por interacciones farmacológicas; todos los demás se revisan como remedios herbales.',
+  'modality.restore': 'Restaurar valores predeterminados',
+  'modality.add': '+ Añadir modalidad',
+  'modalityCategory.conventional': 'Medicina convencional',
+  'modalityCategory.traditional': 'Tradicional / complementaria',
+  'modalityCategory.spiritual': 'Espiritual',
+  'modalityCategory.therapy': 'Terapia',
+  'outputFormat.medications': 'Remedios (nombre, concentración, posología, duración)',
+  'outputFormat.instructions': 'Solo orientación (sin remedios)',
+  'outputFormat.mixed': 'Remedios y orientación',
+};
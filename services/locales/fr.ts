@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const fr: Messages = {
+  'app.title': 'Médecin IA',
+  'header.history': 'Historique des patients',
+  'header.clinicProfile': 'Profil du cabinet',
+  'header.settings': 'Paramètres',
+  'header.uiLanguage': 'Langue de l’interface',
+
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.remove': 'Retirer',
+  'common.save': 'Enregistrer',
+
+  'loading.title': 'Consultation du Médecin IA...',
+  'loading.subtitle': 'Analyse des comptes rendus et préparation de votre plan de santé.',
+
+  'form.title': 'Informations du patient',
+  'form.subtitle': 'Indiquez vos coordonnées pour obtenir un plan personnalisé.',
+  'form.name': 'Nom',
+  'form.age': 'Âge',
+  'form.district': 'District / Ville',
+  'form.cell': 'Téléphone portable (facultatif)',
+  'form.religion': 'Religion',
+  'form.selectReligion': 'Choisissez une religion',
+  'form.language': 'Langue préférée',
+  'form.clinicalDetails': 'Données cliniques',
+  'form.clinicalHint': '(facultatives, mais recommandées pour un dosage sûr)',
+  'form.sex': 'Sexe',
+  'form.notSpecified': 'Non précisé',
+  'form.weight': 'Poids (kg)',
+  'form.height': 'Taille (cm)',
+  'form.pregnancy': 'Grossesse / allaitement',
+  'form.allergies': 'Allergies connues',
+  'form.allergiesPlaceholder': 'ex. pénicilline, sulfamides, arachides',
+  'form.currentMedications': 'Traitement en cours',
+  'form.currentMedicationsPlaceholder': 'ex. metformine 500 mg deux fois par jour',
+  'form.chronicConditions': 'Maladies chroniques',
+  'form.chronicConditionsPlaceholder': 'ex. diabète, hypertension, asthme',
+  'form.recommended': 'Recommandé : ajoutez {fields} pour que les doses puissent être ajustées en toute sécurité.',
+  'form.describeOrUpload': 'Décrivez le problème ou importez des comptes rendus',
+  'form.tabSymptoms': 'Décrire les symptômes',
+  'form.tabUpload': 'Importer des comptes rendus',
+  'form.symptomsPlaceholder': 'Exemple : j’ai de la fièvre, de la toux et des maux de tête...',
+  'form.clickToUpload': 'Cliquez pour importer',
+  'form.dragAndDrop': 'ou glissez-déposez ici',
+  'form.fileTypes': 'PDF jusqu’à 20 Mo ; photos JPG, PNG, WebP ou HEIC jusqu’à 50 Mo',
+  'form.uploadedFiles': 'Fichiers importés :',
+  'form.extractLabResults': 'Extraire les résultats d’analyses ({count})',
+  'form.readingReports': 'Lecture des comptes rendus...',
+  'form.reportComments': 'Commentaires ou questions sur les comptes rendus (facultatif)',
+  'form.reportCommentsPlaceholder': 'Donnez du contexte sur vos comptes rendus ou posez des questions précises... ex. « Vérifiez les résultats de la fonction rénale dans le fichier joint. »',
+  'form.treatmentTypes': 'Choisissez le(s) type(s) de traitement',
+  'form.returningPatient': 'Patient déjà suivi :',
+  'form.includeHistory': 'Inclure {count} consultation(s) précédente(s) comme contexte pour cette visite de suivi.',
+  'form.submit': 'Obtenir l’ordonnance IA',
+  'form.generating': 'Génération...',
+
+  'voice.record': 'Enregistrer les symptômes',
+  'voice.stop': 'Arrêter l’enregistrement',
+  'voice.recording': 'Enregistrement... {time}',
+  'voice.transcribing': 'Écoute de l’enregistrement...',
+  'voice.reviewTitle': 'Vérifiez ce que nous avons compris',
+  'voice.reviewHint': 'Corrigez ce qui est inexact avant de l’ajouter à la description.',
+  'voice.symptoms': 'Symptômes relevés :',
+  'voice.use': 'Ajouter à la description',
+  'voice.discard': 'Ignorer',
+  'voice.micError': 'Le micro n’a pas pu être utilisé. Autorisez l’accès au micro dans le navigateur et réessayez.',
+  'voice.unsupported': 'La saisie vocale n’est pas prise en charge par ce navigateur.',
+  'voice.empty': 'Aucune parole n’a été entendue dans l’enregistrement. Veuillez réessayer.',
+  'speech.readAloud': 'Lire à voix haute',
+  'speech.stop': 'Arrêter la lecture',
+  'speech.noVoice': 'Cet appareil n’a pas de voix pour {language}.',
+
+  'form.tabGuided': 'Questions guidées',
+  'guided.intro': 'Répondez à quelques questions rapides. Seul le problème principal est obligatoire ; passez ce dont vous n’êtes pas sûr.',
+  'guided.complaint': 'Quel est le problème principal ?',
+  'guided.duration': 'Depuis combien de temps ?',
+  'guided.durationValue': 'Nombre',
+  'guided.severity': 'Quelle intensité ? (0 = aucune gêne, 10 = le pire imaginable)',
+  'guided.notRated': 'Pas encore évalué',
+  'guided.clear': 'Effacer',
+  'guided.onset': 'Comment cela a-t-il commencé ?',
+  'guided.location': 'Où est-ce ? Touchez le corps ou choisissez ci-dessous.',
+  'guided.bodyMap': 'Schéma du corps',
+  'guided.temperature': 'Température la plus élevée mesurée (°C)',
+  'guided.painCharacter': 'À quoi ressemble la douleur ?',
+  'guided.associated': 'Avez-vous aussi l’un de ces symptômes ?',
+  'guided.tried': 'Qu’avez-vous déjà essayé ?',
+  'guided.notes': 'Autre chose ? (facultatif)',
+  'guided.summaryTitle': 'Résumé des symptômes',
+  'summary.complaint': 'Motif',
+  'summary.duration': 'Durée',
+  'summary.severity': 'Intensité',
+  'summary.onset': 'Début',
+  'summary.location': 'Localisation',
+  'summary.temperature': 'Température maximale',
+  'summary.painCharacter': 'Type de douleur',
+  'summary.associated': 'Présente aussi',
+  'summary.tried': 'Déjà essayé',
+  'summary.notes': 'Notes',
+  'duration.hours': '{count} heure(s)',
+  'duration.days': '{count} jour(s)',
+  'duration.weeks': '{count} semaine(s)',
+  'duration.months': '{count} mois',
+  'durationUnit.hours': 'Heures',
+  'durationUnit.days': 'Jours',
+  'durationUnit.weeks': 'Semaines',
+  'durationUnit.months': 'Mois',
+  'onset.sudden': 'Brutalement',
+  'onset.gradual': 'Progressivement',
+  'complaint.fever': 'Fièvre',
+  'complaint.cough': 'Toux',
+  'complaint.breathing': 'Difficulté à respirer',
+  'complaint.pain': 'Douleur',
+  'complaint.stomach': 'Estomac / digestion',
+  'complaint.skin': 'Problème de peau',
+  'complaint.urinary': 'Problème urinaire',
+  'complaint.fatigue': 'Fatigue / faiblesse',
+  'associated.chills': 'Frissons',
+  'associated.sweating': 'Sueurs',
+  'associated.bodyAches': 'Courbatures',
+  'associated.headache': 'Maux de tête',
+  'associated.rash': 'Éruption cutanée',
+  'associated.lossOfAppetite': 'Perte d’appétit',
+  'associated.phlegm': 'Crachats',
+  'associated.bloodInPhlegm': 'Sang dans les crachats',
+  'associated.soreThroat': 'Mal de gorge',
+  'associated.runnyNose': 'Nez qui coule',
+  'associated.wheeze': 'Sifflements',
+  'associated.chestPain': 'Douleur thoracique',
+  'associated.swelling': 'Gonflement',
+  'associated.numbness': 'Engourdissement ou fourmillements',
+  'associated.dizziness': 'Vertiges',
+  'associated.nausea': 'Nausées',
+  'associated.vomiting': 'Vomissements',
+  'associated.diarrhoea': 'Diarrhée',
+  'associated.bloodInStool': 'Sang dans les selles',
+  'associated.itching': 'Démangeaisons',
+  'associated.burningUrine': 'Brûlures en urinant',
+  'associated.frequentUrination': 'Envies fréquentes d’uriner',
+  'associated.bloodInUrine': 'Sang dans les urines',
+  'associated.weightLoss': 'Perte de poids',
+  'painCharacter.sharp': 'Vive / en coup de poignard',
+  'painCharacter.dull': 'Sourde',
+  'painCharacter.burning': 'Brûlure',
+  'painCharacter.cramping': 'Crampes',
+  'painCharacter.throbbing': 'Pulsatile',
+  'tried.paracetamol': 'Paracétamol',
+  'tried.ibuprofen': 'Ibuprofène',
+  'tried.antibiotics': 'Antibiotiques',
+  'tried.coughSyrup': 'Sirop contre la toux',
+  'tried.antacid': 'Antiacide',
+  'tried.herbal': 'Remède à base de plantes',
+  'tried.homeRemedy': 'Remède maison',
+  'tried.nothing': 'Rien pour l’instant',
+  'body.head': 'Tête',
+  'body.throat': 'Gorge / cou',
+  'body.chest': 'Poitrine',
+  'body.upperAbdomen': 'Haut du ventre',
+  'body.lowerAbdomen': 'Bas du ventre',
+  'body.arms': 'Bras',
+  'body.legs': 'Jambes',
+  'body.back': 'Dos',
+  'body.joints': 'Articulations',
+  'body.wholeBody': 'Tout le corps',
+
+  'religion.islam': 'Islam',
+  'religion.christianity': 'Christianisme',
+  'religion.hinduism': 'Hindouisme',
+  'religion.buddhism': 'Bouddhisme',
+  'religion.sikhism': 'Sikhisme',
+  'religion.judaism': 'Judaïsme',
+  'religion.bahai': 'Foi bahá’íe',
+  'religion.chineseFolk': 'Religion populaire chinoise',
+  'religion.spiritism': 'Spiritisme',
+  'religion.indigenous': 'Religions ethniques / autochtones',
+  'religion.other': 'Autre',
+
+  'treatment.hikmat': 'Hikmat (phytothérapie traditionnelle)',
+  'treatment.homeopathy': 'Homéopathie',
+  'treatment.allopathy': 'Allopathie (médecins spécialistes)',
+  'treatment.islam': 'Coran et Asma-ul-Husna',
+  'treatment.christianity': 'Guérison biblique et prière',
+  'treatment.hinduism': 'Ayurveda et mantras',
+  'treatment.buddhism': 'Méditation et chants',
+  'treatment.sikhism': 'Récitation du Gurbani et seva',
+  'treatment.judaism': 'Étude de la Torah et prière',
+  'treatment.bahai': 'Écrits de Bahá’u’lláh et prière',
+  'treatment.chineseFolk': 'Culte des ancêtres et remèdes à base de plantes',
+  'treatment.spiritism': 'Accompagnement spirituel et guérison',
+  'treatment.indigenous': 'Rituels traditionnels et guérison naturelle',
+
+  'sex.female': 'Femme',
+  'sex.male': 'Homme',
+  'sex.other': 'Autre',
+
+  'pregnancy.none': 'Ni enceinte ni allaitante',
+  'pregnancy.pregnant': 'Enceinte',
+  'pregnancy.breastfeeding': 'Allaitante',
+  'pregnancy.pregnant-breastfeeding': 'Enceinte et allaitante',
+
+  'missing.sex': 'sexe',
+  'missing.weight': 'poids',
+  'missing.weightChild': 'poids (nécessaire pour la posologie pédiatrique)',
+  'missing.allergies': 'allergies connues',
+  'missing.currentMedications': 'traitement en cours',
+  'missing.pregnancyStatus': 'statut de grossesse',
+
+  'validation.weightRange': 'Saisissez un poids compris entre 0,5 et 350 kg.',
+  'validation.weightInfant': 'Ce poids semble trop élevé pour un nourrisson. Veuillez vérifier.',
+  'validation.heightRange': 'Saisissez une taille comprise entre 30 et 250 cm.',
+  'validation.pregnancyMismatch': 'La grossesse ou l’allaitement ne correspond pas au sexe ou à l’âge saisis.',
+  'validation.tooLong': 'Veuillez rester sous {max} caractères.',
+
+  'error.requiredFields': 'Veuillez remplir tous les champs obligatoires, décrire les symptômes ou importer un compte rendu, et choisir au moins un type de traitement.',
+  'error.clinicalDetails': 'Veuillez corriger les données cliniques signalées.',
+  'error.invalidFiles': 'Certains fichiers n’étaient pas valides. Seuls les PDF de moins de 20 Mo et les photos JPG, PNG, WebP ou HEIC de moins de 50 Mo sont acceptés.',
+  'error.quota': 'La limite d\'utilisation du service d\'IA est atteinte. Patientez une minute puis réessayez, ou vérifiez l\'offre de la clé API dans les paramètres.',
+  'error.safety': 'Le service d\'IA a refusé de répondre à cette demande. Reformulez la description et réessayez.',
+  'error.network': 'Impossible de joindre le service d\'IA. Vérifiez la connexion internet et réessayez.',
+  'error.unavailable': 'Le service d\'IA est occupé ou indisponible pour le moment. Réessayez dans quelques minutes.',
+  'error.invalidOutput': 'L\'IA a renvoyé à plusieurs reprises une ordonnance qui ne respectait pas les règles (langue, un plan par traitement, médicaments complets, conseils). Réessayez.',
+
+  'prescription.previewTitle': 'Aperçu de l’ordonnance',
+  'prescription.downloadPdf': 'Télécharger le PDF',
+  'prescription.creatingPdf': 'Création du PDF...',
+  'prescription.downloadImage': 'Image (PNG)',
+  'prescription.creatingImage': 'Création de l’image...',
+  'prescription.pdfError': 'Impossible de créer le PDF. Réessayez ou téléchargez plutôt une image.',
+  'prescription.imageError': 'Impossible de créer l’image. Veuillez réessayer.',
+  'prescription.streaming': 'Génération en cours. Les sections s’affichent au fur et à mesure.',
+  'prescription.edit': 'Revenir et modifier',
+  'prescription.preview': 'Aperçu de l’ordonnance',
+  'prescription.startNew': 'Recommencer',
+  'prescription.incomplete': 'Cette ordonnance a été interrompue pendant sa génération et certaines sections peuvent manquer.',
+  'prescription.cancelled': 'La génération a été annulée. Les sections reçues jusqu’ici sont conservées ci-dessous et peuvent être incomplètes.',
+  'prescription.stoppedEarly': '{reason} Les sections reçues jusqu’ici sont conservées ci-dessous et peuvent être incomplètes.',
+  'prescription.safetyUnchecked': 'Le contrôle de sécurité n\'a reconnu aucun nom de médicament : les interactions entre médicaments et plantes n\'ont donc pas été vérifiées. Vérifiez-les vous-même avant d\'approuver.',
+  'prescription.disclaimer': 'Cette ordonnance a été générée par un modèle d’IA. Elle est fournie à titre informatif uniquement et ne remplace pas un avis, un diagnostic ou un traitement médical professionnel. Consultez toujours un professionnel de santé qualifié avant de prendre une décision concernant votre santé ou de commencer un nouveau traitement.',
+
+  'review.draft': 'Suggestion provisoire de l\'IA.',
+  'review.draftHint': 'Un praticien doit la relire et l\'approuver avant qu\'elle soit remise.',
+  'review.edit': 'Modifier l\'ordonnance',
+  'review.doneEditing': 'Terminer la modification',
+  'review.notes': 'Notes de relecture',
+  'review.notesPlaceholder': 'Notes pour le patient ou le dossier (facultatif)',
+  'review.reviewerName': 'Nom du relecteur',
+  'review.approve': 'Approuver et signer',
+  'review.approvedBy': 'Approuvé par {name} le {date}.',
+  'review.includesEdits': 'Comprend des modifications du praticien.',
+  'review.revoke': 'Retirer l\'approbation',
+  'review.revokeConfirm': 'Retirer l\'approbation et repasser cette ordonnance en brouillon ?',
+  'review.addedByReviewer': 'Ajouté par le relecteur',
+  'review.addMedicine': '+ Ajouter un médicament',
+  'review.instruction': 'Consigne',
+  'review.advice': 'Conseil',
+
+  'compare.layout': 'Disposition',
+  'compare.stacked': 'L\'un après l\'autre',
+  'compare.sideBySide': 'Côte à côte',
+  'compare.title': 'Comparaison des options',
+  'compare.duration': 'Durée prévue',
+  'compare.medicines': 'Nombre de médicaments',
+  'compare.cost': 'Coût approximatif',
+  'compare.evidence': 'Niveau de preuve',
+  'compare.cautions': 'Précautions',
+  'compare.plan': 'Plan',
+  'compare.notStated': 'Non précisé',
+  'cost.low': 'Faible',
+  'cost.moderate': 'Modéré',
+  'cost.high': 'Élevé',
+  'evidence.strong': 'Preuves cliniques solides',
+  'evidence.moderate': 'Quelques preuves cliniques',
+  'evidence.limited': 'Preuves limitées',
+  'evidence.traditional': 'Usage traditionnel, non testé cliniquement',
+
+  'dose.title': 'Tableau des prises',
+  'dose.starting': 'À partir du {date}',
+  'dose.medicine': 'Médicament',
+  'dose.food': 'Repas',
+  'dose.days': 'Jours',
+  'dose.day': 'Jour {day}',
+  'dose.asDirected': 'Selon les indications',
+  'dose.tick': 'Cochez chaque prise une fois effectuée et suivez le traitement jusqu\'au bout.',
+  'dose.reminderTitle': 'Heure du médicament de {name}',
+  'doseTime.morning': 'Matin',
+  'doseTime.noon': 'Midi',
+  'doseTime.evening': 'Soir',
+  'doseTime.night': 'Nuit',
+  'food.before': 'Avant les repas',
+  'food.with': 'Pendant les repas',
+  'food.after': 'Après les repas',
+  'food.any': 'Avec ou sans nourriture',
+  'dose.startDate': 'Début du traitement',
+  'dose.print': 'Imprimer le tableau',
+  'dose.calendar': 'Ajouter au calendrier',
+  'dose.remind': 'Me le rappeler',
+  'dose.remindersOn': 'Rappels activés',
+  'dose.remindersNote': 'Les rappels ne s\'affichent que lorsque cette application est ouverte. Ajoutez le traitement à votre calendrier pour être prévenu sur votre téléphone.',
+  'dose.remindersBlocked': 'Les notifications sont bloquées. Autorisez-les dans les paramètres du navigateur pour recevoir des rappels.',
+  'dose.remindersUnsupported': 'Ce navigateur ne peut pas afficher de rappels. Ajoutez plutôt le traitement à votre calendrier.',
+
+  'share.button': 'Partager le lien',
+  'share.title': 'Partager avec le patient',
+  'share.intro': 'L\'ordonnance est contenue dans le lien lui-même : elle n\'est envoyée nulle part. Toute personne ayant le lien peut la lire, sauf si vous ajoutez une phrase secrète.',
+  'share.passphrase': 'Phrase secrète (facultative)',
+  'share.passphraseHint': 'Communiquez la phrase secrète au patient en personne ou par téléphone, pas dans le même message que le lien.',
+  'share.create': 'Créer le lien',
+  'share.creating': 'Création…',
+  'share.copy': 'Copier le lien',
+  'share.copied': 'Copié',
+  'share.send': 'Envoyer…',
+  'share.qrOnPrint': 'Le QR code est aussi imprimé sur l\'ordonnance et inclus dans le PDF.',
+  'share.tooLongForQr': 'Cette ordonnance est trop longue pour un QR code. Envoyez plutôt le lien.',
+  'share.error': 'Impossible de créer le lien dans ce navigateur.',
+  'share.scan': 'Scannez pour ouvrir ce plan sur votre téléphone',
+  'shared.title': 'Votre ordonnance',
+  'shared.readOnly': 'Copie en lecture seule partagée le {date}',
+  'shared.passphrasePrompt': 'Cette ordonnance est protégée. Saisissez la phrase secrète donnée par votre médecin.',
+  'shared.open': 'Ouvrir',
+  'shared.opening': 'Ouverture de l\'ordonnance…',
+  'shared.print': 'Imprimer',
+  'shared.wrongPassphrase': 'Cette phrase secrète est incorrecte.',
+  'shared.invalid': 'Ce lien est endommagé ou incomplet. Demandez à votre médecin de le renvoyer.',
+  'shared.unsupported': 'Ce navigateur ne peut pas ouvrir les ordonnances partagées. Essayez un navigateur à jour.',
+  'shared.openApp': 'Ouvrir Médecin IA',
+
+  'upload.processing': 'Préparation de {name}…',
+  'upload.duplicate': 'Déjà joint : {names}.',
+  'upload.failed': 'Lecture impossible : {names}.',
+  'upload.enhance': 'Améliorer la photo automatiquement',
+  'upload.cropped': 'Recadrée',
+  'upload.straightened': 'Redressée de {degrees}°',
+  'upload.contrast': 'Contraste renforcé',
+  'upload.resized': 'Redimensionnée',
+  'upload.notEnhanced': 'Cette photo n\'a pas pu être améliorée et sera envoyée telle quelle.',
+  'upload.pagesSelected': '{selected} page(s) sur {total} seront envoyées',
+  'upload.noPagesSelected': 'Aucune page sélectionnée ; ce compte rendu ne sera pas envoyé',
+  'upload.allPages': 'Tout sélectionner',
+  'upload.noPages': 'Aucune',
+  'upload.page': 'Page {number}',
+  'upload.noPreview': 'Aperçu indisponible ; le PDF entier sera envoyé.',
+
+  'lab.title': 'Résultats de laboratoire',
+  'lab.summary': '({rows} lignes, {abnormal} hors norme)',
+  'lab.addRow': '+ Ajouter une ligne',
+  'lab.hint': 'Comparez chaque ligne avec le rapport et corrigez les erreurs de lecture avant de générer le plan.',
+  'lab.test': 'Analyse',
+  'lab.value': 'Valeur',
+  'lab.unit': 'Unité',
+  'lab.reference': 'Référence',
+  'lab.referenceRange': 'Valeurs de référence',
+  'lab.flag': 'Indicateur',
+  'lab.date': 'Date',
+  'lab.reportDate': 'Date du rapport',
+  'lab.normalized': 'Normalisé',
+  'lab.remove': 'Supprimer',
+  'lab.removeRow': 'Supprimer la ligne',
+  'lab.enteredByStaff': 'Saisi par le personnel',
+  'labFlag.normal': 'Normal',
+  'labFlag.low': 'Bas',
+  'labFlag.high': 'Élevé',
+  'labFlag.critical': 'Critique',
+
+  'queue.title': 'File hors ligne',
+  'queue.offline': 'Vous êtes hors ligne. Le formulaire reste utilisable ; les consultations envoyées sont mises en file et générées au retour de la connexion.',
+  'queue.offlineLocal': 'Vous êtes hors ligne. Le modèle local reste disponible.',
+  'queue.submit': 'Mettre la consultation en file',
+  'queue.queued': 'La consultation de {name} a été mise en file. Elle sera générée au retour de la connexion.',
+  'queue.full': 'Il ne reste plus de place sur cet appareil pour mettre la consultation en file. Retirez des rapports ou des éléments terminés et réessayez.',
+  'queue.willRun': 'Les consultations en attente seront générées automatiquement au retour de la connexion.',
+  'queue.waiting': 'En attente',
+  'queue.processing': 'Génération',
+  'queue.done': 'Prête',
+  'queue.failed': 'Échec',
+  'queue.emergency': 'Urgence',
+  'queue.emergencyHint': 'Le triage a relevé des signes d’alerte d’urgence. Orientez le patient vers des soins urgents, ou ne continuez qu’après vérification.',
+  'queue.open': 'Ouvrir',
+  'queue.retry': 'Réessayer',
+  'queue.continueAnyway': 'Continuer quand même',
+  'queue.clearDone': 'Effacer les terminées',
+  'queue.queuedAt': 'Mise en file le {time}',
+  'queue.missing': 'La consultation générée est introuvable dans l’historique du patient.',
+
+  'header.lock': 'Verrouiller',
+  'lock.title': 'Saisissez le code PIN de la clinique',
+  'lock.subtitle': 'Les dossiers patients de cet appareil sont verrouillés.',
+  'lock.setupTitle': 'Définissez un code PIN pour la clinique',
+  'lock.setupSubtitle': 'Les dossiers patients de cet appareil sont chiffrés avec ce code. Utilisez au moins {min} caractères.',
+  'lock.pin': 'Code PIN',
+  'lock.confirmPin': 'Répétez le code PIN',
+  'lock.setupNote': 'Les dossiers ne peuvent pas être récupérés sans le code PIN.',
+  'lock.unlock': 'Déverrouiller',
+  'lock.setup': 'Définir le code et continuer',
+  'lock.forgot': 'Code oublié ? Effacer toutes les données de cet appareil',
+  'lock.resetConfirm': 'Sans le code PIN, les dossiers patients de cet appareil sont illisibles. Tout effacer et définir un nouveau code ?',
+  'lock.wrongPin': 'Ce code PIN est incorrect.',
+  'lock.tooShort': 'Le code PIN est trop court.',
+  'lock.mismatch': 'Les deux codes ne correspondent pas.',
+  'lock.failed': 'Impossible d’ouvrir les dossiers patients sur cet appareil.',
+  'consent.label': 'Le patient accepte que ses informations, symptômes et rapports soient envoyés au service d’IA pour préparer ce plan.',
+  'consent.recorded': 'Consentement enregistré le {time}',
+  'consent.required': 'Enregistrez le consentement du patient avant d’envoyer quoi que ce soit au service d’IA.',
+  'consent.needed': 'Nécessite le consentement du patient ci-dessous',
+
+  'redact.open': 'Masquer des données',
+  'redact.count': '{count} zones masquées',
+  'redact.title': 'Masquer les données identifiantes',
+  'redact.instructions': 'Faites glisser sur les noms, numéros de dossier et adresses pour les noircir. Seule la photo masquée est envoyée. Sélectionnez un cadre pour le retirer.',
+  'redact.suggest': 'Rechercher par OCR',
+  'redact.suggesting': 'Lecture de la photo…',
+  'redact.suggested': '{count} zones trouvées. Vérifiez la photo au cas où quelque chose aurait échappé.',
+  'redact.suggestFailed': 'Impossible de lire la photo. Tracez les cadres à la main.',
+  'redact.clear': 'Tout effacer',
+  'redact.save': 'Enregistrer',
+  'redact.removeBox': 'Retirer ce cadre',
+  'redact.enhanceLocked': 'Effacez les zones masquées avant de modifier ceci',
+  'privacy.preview': 'Aperçu de confidentialité',
+  'privacy.title': 'Ce qui sera envoyé au service d\'IA',
+  'privacy.intro': 'Voici tout ce qui quittera cet appareil. Les repères comme [PATIENT_NAME] ne sont remplacés que sur cet appareil.',
+  'privacy.settingsHint': 'Choisissez dans les paramètres quelles données sont remplacées.',
+  'privacy.loading': 'Préparation de l\'aperçu…',
+  'privacy.failed': 'Impossible de préparer l\'aperçu.',
+  'privacy.triage': 'Évaluation de l\'urgence',
+  'privacy.prescription': 'Ordonnance',
+  'privacy.triageNote': 'La ligne de triage de la demande d\'ordonnance dépend du résultat de l\'évaluation de l\'urgence.',
+  'privacy.attachments': 'Pièces jointes ({count})',
+  'privacy.pdf': 'Rapport PDF ({size} Ko), envoyé avec son texte. Le masquage ne fonctionne que sur les photos.',
+
+  'print.date': 'Date',
+  'print.age': 'Âge',
+  'print.district': 'District',
+  'print.cell': 'Portable',
+  'print.condition': 'Motif',
+  'print.sex': 'Sexe',
+  'print.weight': 'Poids',
+  'print.height': 'Taille',
+  'print.bmi': 'IMC',
+  'print.allergies': 'Allergies',
+  'print.currentMedications': 'Traitement en cours',
+  'print.chronicConditions': 'Maladies chroniques',
+  'print.pregnancy': 'Grossesse',
+  'print.tel': 'Tél.',
+  'print.regNo': 'N° d\'enregistrement',
+  'print.triage': 'Triage',
+  'print.overridden': 'Le clinicien a choisi de poursuivre le {date}.',
+  'print.safetyCheck': 'Contrôle de sécurité',
+  'print.safetyFlagged': '{count} interaction(s) ou contre-indication(s) possible(s) signalée(s) ci-dessous. Vérifiez-les avant utilisation.',
+  'print.approvedStamp': 'Relu et approuvé par {name} le {date}.',
+  'print.draftStamp': 'SUGGESTION PROVISOIRE DE L\'IA — pas encore relue par un praticien. Ne pas utiliser pour un traitement.',
+  'print.practitionerNote': 'Note du praticien',
+  'print.practitionerNotes': 'Notes du praticien',
+  'print.followUp': 'Questions de suivi',
+  'print.question': 'Q',
+  'print.answer': 'R',
+  'print.signature': 'Signature',
+  'print.reviewingPractitioner': 'Praticien relecteur',
+
+  'urgency.emergency': 'Urgence vitale',
+  'urgency.urgent': 'Urgent',
+  'urgency.routine': 'Courant',
+  'urgencyNote.emergency': 'Consultez les urgences immédiatement.',
+  'urgencyNote.urgent': 'Consultez un médecin en personne dans les 24 heures.',
+  'urgencyNote.routine': 'Aucun signe d\'alerte détecté.',
+  'severity.major': 'Majeur',
+  'severity.moderate': 'Modéré',
+  'severity.minor': 'Mineur',
+
+  'chat.title': 'Questions sur cette ordonnance',
+  'chat.includeInPrint': 'Inclure à l’impression',
+  'chat.empty': 'Posez toute question sur ce plan, comme « Puis-je le prendre pendant le repas ? » ou « Et si la fièvre persiste ? ». Les réponses sont données en {language}.',
+  'chat.placeholder': 'Saisissez une question de suivi...',
+  'chat.inputLabel': 'Question de suivi',
+  'chat.ask': 'Demander',
+
+  'emergency.title': 'Consultez les urgences immédiatement',
+  'emergency.subtitle': 'Ces symptômes peuvent mettre la vie en danger. N’attendez pas une ordonnance en ligne.',
+  'emergency.callForHelp': 'Appelez les secours :',
+  'emergency.callForHelpIn': 'Appelez les secours à {district} :',
+  'emergency.noContacts': 'Appelez votre numéro d’urgence local ou rendez-vous aux urgences de l’hôpital le plus proche.',
+  'emergency.back': 'Retour au formulaire',
+  'emergency.clinicianConfirm': 'Un clinicien a examiné le patient en personne et décide de poursuivre. Cela sera consigné sur l’ordonnance.',
+  'emergency.continue': 'Poursuivre vers l’ordonnance',
+
+  'settings.aiProvider': 'Fournisseur d\'IA',
+  'settings.provider': 'Fournisseur',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'Serveur compatible OpenAI (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'Simulation hors ligne (données de test, sans réseau)',
+  'settings.model': 'Modèle',
+  'settings.serverUrl': 'URL du serveur',
+  'settings.apiKeyGemini': 'Clé API (facultative, remplace la clé intégrée)',
+  'settings.apiKeyOptional': 'Clé API (facultative)',
+  'settings.apiKeyHint': 'Enregistrée uniquement dans ce navigateur.',
+  'settings.emergencyNumbers': 'Numéros d\'urgence',
+  'settings.emergencyHint': 'Affichés sur l\'écran d\'urgence. Laissez le district vide pour les numéros valables partout.',
+  'settings.district': 'District',
+  'settings.allDistricts': 'Tous les districts',
+  'settings.service': 'Service',
+  'settings.number': 'Numéro',
+  'settings.addNumber': '+ Ajouter un numéro',
+  'settings.security': 'Sécurité',
+  'settings.securityHint': 'Les dossiers des patients sur cet appareil sont chiffrés avec le code PIN de la clinique. Il est impossible de les récupérer sans lui.',
+  'settings.autoLock': 'Verrouiller après inactivité',
+  'settings.oneMinute': '1 minute',
+  'settings.minutes': '{count} minutes',
+  'settings.currentPin': 'Code PIN actuel',
+  'settings.newPin': 'Nouveau code PIN',
+  'settings.newPinPlaceholder': 'Nouveau code PIN ({min} caractères ou plus)',
+  'settings.repeatPin': 'Répétez le nouveau code PIN',
+  'settings.changePin': 'Changer le code PIN',
+  'settings.changingPin': 'Changement du code PIN...',
+  'settings.pinChanged': 'Code PIN modifié.',
+  'settings.pinFailed': 'Le code PIN n\'a pas pu être modifié.',
+  'settings.privacy': 'Confidentialité',
+  'settings.privacyHint': 'Remplacés par des espaces réservés avant tout envoi à l\'IA, et rétablis uniquement sur cet appareil.',
+  'settings.modalities': 'Modalités de traitement',
+  'settings.modalitiesHint': 'Les types de traitement proposés dans le formulaire patient. Les consignes de chacun sont envoyées à l\'IA lorsqu\'il est sélectionné.',
+  'privacyField.name': 'Nom du patient',
+  'privacyField.cell': 'Numéro de portable',
+  'privacyField.district': 'District',
+  'privacyField.otherIdentifiers': 'Autres numéros de téléphone, e-mails et numéros d\'identité ou de dossier dans la description',
+
+  'history.savedLocally': 'Enregistré uniquement sur cet appareil.',
+  'history.back': 'Retour',
+  'history.loadFailed': 'Impossible d\'ouvrir l\'historique local des patients.',
+  'history.search': 'Rechercher par nom, portable ou district...',
+  'history.noPatients': 'Aucun patient enregistré pour le moment.',
+  'history.noMatches': 'Aucun patient ne correspond à votre recherche.',
+  'history.age': 'Âge : {age}',
+  'history.district': 'District : {district}',
+  'history.cell': 'Portable : {cell}',
+  'history.lastVisit': 'Dernière visite : {date}',
+  'history.followUp': 'Visite de suivi',
+  'history.export': 'Exporter les données du patient',
+  'history.exportFailed': 'Impossible d\'exporter les données de {name}.',
+  'history.erasePatient': 'Effacer le patient',
+  'history.eraseWarning': 'Cela efface définitivement de cet appareil les consultations, rapports, consultations en attente et rappels de prise de {name}. Exportez d\'abord ses données s\'il en a demandé une copie. Saisissez le nom du patient pour confirmer.',
+  'history.patientName': 'Nom du patient',
+  'history.erase': 'Effacer',
+  'history.erased': '{name} effacé : {consultations} consultation(s), {attachments} fichier(s) de rapport, {queued} consultation(s) en attente et {reminders} rappel(s) de prise. Vérifié le {time} que rien ne reste sur cet appareil.',
+  'history.eraseFailed': 'Impossible d\'effacer {name}.',
+  'history.eraseIncomplete': 'Certains dossiers du patient n\'ont pas pu être effacés. Réessayez.',
+  'history.consultations': 'Consultations',
+  'history.labTrends': 'Évolution des analyses',
+  'history.approved': 'Approuvée',
+  'history.draft': 'Brouillon',
+  'history.reports': '{count} rapport(s)',
+  'history.reopen': 'Rouvrir',
+  'history.print': 'Imprimer',
+  'history.delete': 'Supprimer',
+  'history.deleteConfirm': 'Supprimer la consultation du {date} ?',
+  'history.noConsultations': 'Aucune consultation enregistrée.',
+
+  'clinic.imageError': 'Cette image est illisible. Utilisez un fichier PNG ou JPEG.',
+  'clinic.saveError': 'Impossible d\'enregistrer le profil. Essayez des images de logo ou de signature plus petites.',
+  'clinic.letterhead': 'En-tête',
+  'clinic.letterheadHint': 'Imprimé sur chaque ordonnance. Enregistré uniquement dans ce navigateur.',
+  'clinic.logo': 'Logo',
+  'clinic.defaultLogo': 'Logo par défaut',
+  'clinic.none': 'Aucune',
+  'clinic.upload': 'Importer',
+  'clinic.clinicName': 'Nom de la clinique',
+  'clinic.tagline': 'Slogan',
+  'clinic.address': 'Adresse',
+  'clinic.phone': 'Téléphone',
+  'clinic.registrationNumber': 'Numéro d\'enregistrement',
+  'clinic.prescriber': 'Prescripteur',
+  'clinic.practitionerName': 'Praticien relecteur',
+  'clinic.signature': 'Signature',
+  'clinic.disclaimer': 'Avertissement',
+  'clinic.disclaimerHint': 'Rédigé en anglais et traduit automatiquement dans la langue de chaque patient. Le modifier supprime les traductions enregistrées.',
+  'clinic.removeTranslation': 'Supprimer la traduction',
+
+  'medEditor.name': 'Médicament',
+  'medEditor.strength': 'Dosage unitaire',
+  'medEditor.dosage': 'Posologie',
+  'medEditor.duration': 'Durée',
+  'medEditor.route': 'Voie',
+  'medEditor.notes': 'Remarques',
+  'medEditor.mealsNotStated': 'Repas : non précisé',
+  'medEditor.reviewerNote': 'Note du relecteur',
+  'medEditor.reviewerNotePlaceholder': 'Note du relecteur (facultatif)',
+  'medEditor.strike': 'Barrer',
+  'medEditor.restore': 'Rétablir',
+  'modality.new': 'Nouvelle modalité',
+  'modality.offer': 'Proposer {name}',
+  'modality.patientsOnly': 'Patients de religion {religion} uniquement',
+  'modality.edit': 'Modifier',
+  'modality.done': 'Terminé',
+  'modality.name': 'Nom (en anglais, également transmis à l\'IA)',
+  'modality.namePlaceholder': 'par ex. Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'Catégorie',
+  'modality.format': 'Le plan contient',
+  'modality.offeredTo': 'Proposé à',
+  'modality.allPatients': 'Tous les patients',
+  'modality.rules': 'Consignes pour l\'IA',
+  'modality.rulesPlaceholder': 'Ce que ce plan doit contenir et comment le rédiger.',
+  'modality.conventionalHint': 'Les remèdes des plans conventionnels sont vérifiés pour les interactions médicamenteuses ; tous les autres le sont comme remèdes à base de plantes.',
+  'modality.restore': 'Rétablir les valeurs par défaut',
+  'modality.add': '+ Ajouter une modalité',
+  'modalityCategory.conventional': 'Médecine conventionnelle',
+  'modalityCategory.traditional': 'Traditionnelle / complémentaire',
+  'modalityCategory.spiritual': 'Spirituelle',
+  'modalityCategory.therapy': 'Thérapie',
+  'outputFormat.medications': 'Remèdes (nom, dosage, posologie, durée)',
+  'outputFormat.instructions': 'Conseils uniquement (sans remèdes)',
+  'outputFormat.mixed': 'Remèdes et conseils',
+};
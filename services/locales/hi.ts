@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const hi: Messages = {
+  'app.title': 'एआई डॉक्टर',
+  'header.history': 'मरीज़ का इतिहास',
+  'header.clinicProfile': 'क्लिनिक प्रोफ़ाइल',
+  'header.settings': 'सेटिंग्स',
+  'header.uiLanguage': 'इंटरफ़ेस की भाषा',
+
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.remove': 'हटाएँ',
+  'common.save': 'सहेजें',
+
+  'loading.title': 'एआई डॉक्टर से परामर्श हो रहा है...',
+  'loading.subtitle': 'रिपोर्ट का विश्लेषण करके आपकी स्वास्थ्य योजना बनाई जा रही है।',
+
+  'form.title': 'मरीज़ की जानकारी',
+  'form.subtitle': 'व्यक्तिगत योजना के लिए अपना विवरण दें।',
+  'form.name': 'नाम',
+  'form.age': 'उम्र',
+  'form.district': 'ज़िला / शहर',
+  'form.cell': 'मोबाइल नंबर (वैकल्पिक)',
+  'form.religion': 'धर्म',
+  'form.selectReligion': 'धर्म चुनें',
+  'form.language': 'पसंदीदा भाषा',
+  'form.clinicalDetails': 'चिकित्सा विवरण',
+  'form.clinicalHint': '(वैकल्पिक, लेकिन सुरक्षित खुराक के लिए अनुशंसित)',
+  'form.sex': 'लिंग',
+  'form.notSpecified': 'नहीं बताया',
+  'form.weight': 'वज़न (किग्रा)',
+  'form.height': 'लंबाई (सेमी)',
+  'form.pregnancy': 'गर्भावस्था / स्तनपान',
+  'form.allergies': 'ज्ञात एलर्जी',
+  'form.allergiesPlaceholder': 'जैसे पेनिसिलिन, सल्फ़ा दवाएँ, मूँगफली',
+  'form.currentMedications': 'वर्तमान दवाएँ',
+  'form.currentMedicationsPlaceholder': 'जैसे मेटफ़ॉर्मिन 500mg दिन में दो बार',
+  'form.chronicConditions': 'पुरानी बीमारियाँ',
+  'form.chronicConditionsPlaceholder': 'जैसे मधुमेह, उच्च रक्तचाप, दमा',
+  'form.recommended': 'अनुशंसित: {fields} जोड़ें ताकि खुराक सुरक्षित रूप से तय की जा सके।',
+  'form.describeOrUpload': 'बीमारी बताएँ या रिपोर्ट अपलोड करें',
+  'form.tabSymptoms': 'लक्षण बताएँ',
+  'form.tabUpload': 'रिपोर्ट अपलोड करें',
+  'form.symptomsPlaceholder': 'उदाहरण: मुझे बुखार, खाँसी और सिरदर्द है...',
+  'form.clickToUpload': 'अपलोड करने के लिए क्लिक करें',
+  'form.dragAndDrop': 'या खींचकर यहाँ छोड़ें',
+  'form.fileTypes': 'PDF अधिकतम 20MB; JPG, PNG, WebP या HEIC फ़ोटो अधिकतम 50MB',
+  'form.uploadedFiles': 'अपलोड की गई फ़ाइलें:',
+  'form.extractLabResults': 'लैब परिणाम निकालें ({count})',
+  'form.readingReports': 'रिपोर्ट पढ़ी जा रही हैं...',
+  'form.reportComments': 'रिपोर्ट के बारे में टिप्पणी या प्रश्न (वैकल्पिक)',
+  'form.reportCommentsPlaceholder': 'अपनी रिपोर्ट के बारे में जानकारी दें या विशेष प्रश्न पूछें... जैसे "संलग्न फ़ाइल में मेरे किडनी फ़ंक्शन के परिणाम देखें।"',
+  'form.treatmentTypes': 'उपचार का प्रकार चुनें',
+  'form.returningPatient': 'पुराना मरीज़:',
+  'form.includeHistory': 'इस फ़ॉलो-अप के लिए पिछले {count} परामर्श संदर्भ के रूप में शामिल करें।',
+  'form.submit': 'एआई पर्चा प्राप्त करें',
+  'form.generating': 'तैयार हो रहा है...',
+
+  'voice.record': 'लक्षण रिकॉर्ड करें',
+  'voice.stop': 'रिकॉर्डिंग रोकें',
+  'voice.recording': 'रिकॉर्डिंग हो रही है... {time}',
+  'voice.transcribing': 'रिकॉर्डिंग सुनी जा रही है...',
+  'voice.reviewTitle': 'जो हमने सुना उसे जाँचें',
+  'voice.reviewHint': 'विवरण में जोड़ने से पहले जो गलत हो उसे ठीक करें।',
+  'voice.symptoms': 'सुने गए लक्षण:',
+  'voice.use': 'विवरण में जोड़ें',
+  'voice.discard': 'हटाएँ',
+  'voice.micError': 'माइक्रोफ़ोन इस्तेमाल नहीं हो सका। ब्राउज़र में माइक्रोफ़ोन की अनुमति दें और फिर कोशिश करें।',
+  'voice.unsupported': 'यह ब्राउज़र आवाज़ से इनपुट का समर्थन नहीं करता।',
+  'voice.empty': 'रिकॉर्डिंग में कोई आवाज़ नहीं सुनाई दी। कृपया फिर कोशिश करें।',
+  'speech.readAloud': 'पढ़कर सुनाएँ',
+  'speech.stop': 'सुनाना बंद करें',
+  'speech.noVoice': 'इस डिवाइस में {language} की आवाज़ नहीं है।',
+
+  'form.tabGuided': 'निर्देशित प्रश्न',
+  'guided.intro': 'कुछ छोटे प्रश्नों के उत्तर दें। केवल मुख्य समस्या ज़रूरी है; जिसके बारे में पक्का न हों उसे छोड़ दें।',
+  'guided.complaint': 'मुख्य समस्या क्या है?',
+  'guided.duration': 'यह कब से हो रहा है?',
+  'guided.durationValue': 'संख्या',
+  'guided.severity': 'कितनी तकलीफ़ है? (0 = कोई नहीं, 10 = सबसे ज़्यादा)',
+  'guided.notRated': 'अभी तय नहीं किया',
+  'guided.clear': 'हटाएँ',
+  'guided.onset': 'यह कैसे शुरू हुआ?',
+  'guided.location': 'यह कहाँ है? शरीर पर टैप करें या नीचे से चुनें।',
+  'guided.bodyMap': 'शरीर का नक्शा',
+  'guided.temperature': 'सबसे ज़्यादा नापा गया तापमान (°C)',
+  'guided.painCharacter': 'दर्द कैसा महसूस होता है?',
+  'guided.associated': 'क्या इनमें से कुछ और भी है?',
+  'guided.tried': 'अब तक क्या आज़माया गया है?',
+  'guided.notes': 'और कुछ? (वैकल्पिक)',
+  'guided.summaryTitle': 'लक्षणों का सारांश',
+  'summary.complaint': 'शिकायत',
+  'summary.duration': 'अवधि',
+  'summary.severity': 'गंभीरता',
+  'summary.onset': 'शुरुआत',
+  'summary.location': 'स्थान',
+  'summary.temperature': 'सबसे ज़्यादा तापमान',
+  'summary.painCharacter': 'दर्द का प्रकार',
+  'summary.associated': 'साथ में',
+  'summary.tried': 'पहले आज़माया',
+  'summary.notes': 'टिप्पणी',
+  'duration.hours': '{count} घंटे',
+  'duration.days': '{count} दिन',
+  'duration.weeks': '{count} सप्ताह',
+  'duration.months': '{count} महीने',
+  'durationUnit.hours': 'घंटे',
+  'durationUnit.days': 'दिन',
+  'durationUnit.weeks': 'सप्ताह',
+  'durationUnit.months': 'महीने',
+  'onset.sudden': 'अचानक',
+  'onset.gradual': 'धीरे-धीरे',
+  'complaint.fever': 'बुखार',
+  'complaint.cough': 'खाँसी',
+  'complaint.breathing': 'साँस लेने में तकलीफ़',
+  'complaint.pain': 'दर्द',
+  'complaint.stomach': 'पेट / पाचन',
+  'complaint.skin': 'त्वचा की समस्या',
+  'complaint.urinary': 'पेशाब की समस्या',
+  'complaint.fatigue': 'थकान / कमज़ोरी',
+  'associated.chills': 'कँपकँपी',
+  'associated.sweating': 'पसीना',
+  'associated.bodyAches': 'बदन दर्द',
+  'associated.headache': 'सिरदर्द',
+  'associated.rash': 'चकत्ते',
+  'associated.lossOfAppetite': 'भूख न लगना',
+  'associated.phlegm': 'बलगम',
+  'associated.bloodInPhlegm': 'बलगम में खून',
+  'associated.soreThroat': 'गले में खराश',
+  'associated.runnyNose': 'नाक बहना',
+  'associated.wheeze': 'साँस में सीटी',
+  'associated.chestPain': 'सीने में दर्द',
+  'associated.swelling': 'सूजन',
+  'associated.numbness': 'सुन्नपन या झुनझुनी',
+  'associated.dizziness': 'चक्कर आना',
+  'associated.nausea': 'जी मिचलाना',
+  'associated.vomiting': 'उल्टी',
+  'associated.diarrhoea': 'दस्त',
+  'associated.bloodInStool': 'मल में खून',
+  'associated.itching': 'खुजली',
+  'associated.burningUrine': 'पेशाब में जलन',
+  'associated.frequentUrination': 'बार-बार पेशाब आना',
+  'associated.bloodInUrine': 'पेशाब में खून',
+  'associated.weightLoss': 'वज़न कम होना',
+  'painCharacter.sharp': 'तेज़ / चुभने वाला',
+  'painCharacter.dull': 'हल्का / लगातार',
+  'painCharacter.burning': 'जलन वाला',
+  'painCharacter.cramping': 'ऐंठन वाला',
+  'painCharacter.throbbing': 'धड़कने वाला',
+  'tried.paracetamol': 'पैरासिटामोल',
+  'tried.ibuprofen': 'आइबुप्रोफ़ेन',
+  'tried.antibiotics': 'एंटीबायोटिक',
+  'tried.coughSyrup': 'खाँसी की सिरप',
+  'tried.antacid': 'एंटासिड',
+  'tried.herbal': 'जड़ी-बूटी की दवा',
+  'tried.homeRemedy': 'घरेलू नुस्खा',
+  'tried.nothing': 'अभी कुछ नहीं',
+  'body.head': 'सिर',
+  'body.throat': 'गला / गर्दन',
+  'body.chest': 'सीना',
+  'body.upperAbdomen': 'पेट का ऊपरी हिस्सा',
+  'body.lowerAbdomen': 'पेट का निचला हिस्सा',
+  'body.arms': 'बाँहें',
+  'body.legs': 'पैर',
+  'body.back': 'पीठ',
+  'body.joints': 'जोड़',
+  'body.wholeBody': 'पूरा शरीर',
+
+  'religion.islam': 'इस्लाम',
+  'religion.christianity': 'ईसाई धर्म',
+  'religion.hinduism': 'हिंदू धर्म',
+  'religion.buddhism': 'बौद्ध धर्म',
+  'religion.sikhism': 'सिख धर्म',
+  'religion.judaism': 'यहूदी धर्म',
+  'religion.bahai': 'बहाई धर्म',
+  'religion.chineseFolk': 'चीनी लोक धर्म',
+  'religion.spiritism': 'आत्मवाद',
+  'religion.indigenous': 'जातीय / आदिवासी धर्म',
+  'religion.other': 'अन्य',
+
+  'treatment.hikmat': 'हिकमत (पारंपरिक जड़ी-बूटी)',
+  'treatment.homeopathy': 'होम्योपैथी',
+  'treatment.allopathy': 'एलोपैथी (विशेषज्ञ डॉक्टर)',
+  'treatment.islam': 'क़ुरान और अस्मा-उल-हुस्ना',
+  'treatment.christianity': 'बाइबल से उपचार और प्रार्थना',
+  'treatment.hinduism': 'आयुर्वेद और मंत्र',
+  'treatment.buddhism': 'ध्यान और जप',
+  'treatment.sikhism': 'गुरबाणी पाठ और सेवा',
+  'treatment.judaism': 'तोरा अध्ययन और प्रार्थना',
+  'treatment.bahai': 'बहाउल्लाह के लेख और प्रार्थना',
+  'treatment.chineseFolk': 'पूर्वज पूजा और जड़ी-बूटी उपचार',
+  'treatment.spiritism': 'आध्यात्मिक परामर्श और उपचार',
+  'treatment.indigenous': 'पारंपरिक अनुष्ठान और प्राकृतिक उपचार',
+
+  'sex.female': 'महिला',
+  'sex.male': 'पुरुष',
+  'sex.other': 'अन्य',
+
+  'pregnancy.none': 'न गर्भवती, न स्तनपान',
+  'pregnancy.pregnant': 'गर्भवती',
+  'pregnancy.breastfeeding': 'स्तनपान',
+  'pregnancy.pregnant-breastfeeding': 'गर्भवती और स्तनपान',
+
+  'missing.sex': 'लिंग',
+  'missing.weight': 'वज़न',
+  'missing.weightChild': 'वज़न (बच्चों की खुराक के लिए ज़रूरी)',
+  'missing.allergies': 'ज्ञात एलर्जी',
+  'missing.currentMedications': 'वर्तमान दवाएँ',
+  'missing.pregnancyStatus': 'गर्भावस्था की स्थिति',
+
+  'validation.weightRange': '0.5 से 350 किग्रा के बीच वज़न दर्ज करें।',
+  'validation.weightInfant': 'यह वज़न शिशु के लिए बहुत अधिक लगता है। कृपया जाँच लें।',
+  'validation.heightRange': '30 से 250 सेमी के बीच लंबाई दर्ज करें।',
+  'validation.pregnancyMismatch': 'गर्भावस्था या स्तनपान दर्ज किए गए लिंग या उम्र से मेल नहीं खाता।',
+  'validation.tooLong': 'कृपया इसे {max} अक्षरों से कम रखें।',
+
+  'error.requiredFields': 'कृपया सभी आवश्यक फ़ील्ड भरें, लक्षण बताएँ या रिपोर्ट अपलोड करें, और कम से कम एक उपचार प्रकार चुनें।',
+  'error.clinicalDetails': 'कृपया चिह्नित चिकित्सा विवरण ठीक करें।',
+  'error.invalidFiles': 'कुछ फ़ाइलें अमान्य थीं। केवल 20MB से छोटी PDF और 50MB से छोटी JPG, PNG, WebP या HEIC फ़ोटो स्वीकार की जाती हैं।',
+  'error.quota': 'AI सेवा की उपयोग सीमा पूरी हो गई है। एक मिनट रुककर फिर कोशिश करें, या सेटिंग्स में API कुंजी का प्लान देखें।',
+  'error.safety': 'AI सेवा ने इस अनुरोध का उत्तर देने से मना कर दिया। विवरण को दूसरे शब्दों में लिखकर फिर कोशिश करें।',
+  'error.network': 'AI सेवा तक नहीं पहुँच सके। इंटरनेट कनेक्शन जाँचकर फिर कोशिश करें।',
+  'error.unavailable': 'AI सेवा अभी व्यस्त है या उपलब्ध नहीं है। कृपया कुछ मिनट बाद फिर कोशिश करें।',
+  'error.invalidOutput': 'AI बार-बार ऐसा पर्चा देता रहा जो नियमों (भाषा, हर उपचार की योजना, पूरी दवाएँ, सलाह) का पालन नहीं करता था। कृपया फिर कोशिश करें।',
+
+  'prescription.previewTitle': 'पर्चे का पूर्वावलोकन',
+  'prescription.downloadPdf': 'PDF डाउनलोड करें',
+  'prescription.creatingPdf': 'PDF बन रही है...',
+  'prescription.downloadImage': 'चित्र (PNG)',
+  'prescription.creatingImage': 'चित्र बन रहा है...',
+  'prescription.pdfError': 'PDF नहीं बन सकी। फिर से कोशिश करें या इसके बजाय चित्र डाउनलोड करें।',
+  'prescription.imageError': 'चित्र नहीं बन सका। कृपया फिर से कोशिश करें।',
+  'prescription.streaming': 'अभी तैयार हो रहा है। भाग आते ही दिखाई देंगे।',
+  'prescription.edit': 'वापस जाकर बदलें',
+  'prescription.preview': 'पर्चे का पूर्वावलोकन',
+  'prescription.startNew': 'नया शुरू करें',
+  'prescription.incomplete': 'यह पर्चा बनते समय अधूरा रह गया था और इसके कुछ भाग छूट सकते हैं।',
+  'prescription.cancelled': 'तैयारी रद्द कर दी गई। अब तक मिले भाग नीचे रखे गए हैं और अधूरे हो सकते हैं।',
+  'prescription.stoppedEarly': '{reason} अब तक मिले भाग नीचे रखे गए हैं और अधूरे हो सकते हैं।',
+  'prescription.safetyUnchecked': 'सुरक्षा जाँच किसी भी दवा का नाम नहीं पहचान सकी, इसलिए दवा और जड़ी-बूटी की पारस्परिक क्रियाएँ नहीं जाँची गईं। स्वीकृत करने से पहले स्वयं जाँच लें।',
+  'prescription.disclaimer': 'यह पर्चा एक एआई मॉडल द्वारा तैयार किया गया है। यह केवल जानकारी के लिए है और इसे पेशेवर चिकित्सा सलाह, निदान या उपचार का विकल्प नहीं माना जाना चाहिए। स्वास्थ्य से जुड़ा कोई भी निर्णय लेने या नया उपचार शुरू करने से पहले हमेशा किसी योग्य स्वास्थ्य सेवा प्रदाता से सलाह लें।',
+
+  'review.draft': 'AI का मसौदा सुझाव।',
+  'review.draftHint': 'जारी करने से पहले किसी चिकित्सक को इसकी समीक्षा करके मंज़ूरी देनी होगी।',
+  'review.edit': 'पर्चे में बदलाव करें',
+  'review.doneEditing': 'बदलाव पूरे',
+  'review.notes': 'समीक्षा नोट',
+  'review.notesPlaceholder': 'मरीज़ या रिकॉर्ड के लिए नोट (वैकल्पिक)',
+  'review.reviewerName': 'समीक्षक का नाम',
+  'review.approve': 'मंज़ूर करें और हस्ताक्षर करें',
+  'review.approvedBy': '{name} ने {date} को मंज़ूर किया।',
+  'review.includesEdits': 'इसमें चिकित्सक के बदलाव शामिल हैं।',
+  'review.revoke': 'मंज़ूरी वापस लें',
+  'review.revokeConfirm': 'मंज़ूरी वापस लेकर इस पर्चे को फिर से मसौदा बना दें?',
+  'review.addedByReviewer': 'समीक्षक ने जोड़ा',
+  'review.addMedicine': '+ दवा जोड़ें',
+  'review.instruction': 'निर्देश',
+  'review.advice': 'सलाह',
+
+  'compare.layout': 'लेआउट',
+  'compare.stacked': 'एक के बाद एक',
+  'compare.sideBySide': 'साथ-साथ',
+  'compare.title': 'विकल्पों की तुलना',
+  'compare.duration': 'अपेक्षित अवधि',
+  'compare.medicines': 'दवाओं की संख्या',
+  'compare.cost': 'अनुमानित खर्च',
+  'compare.evidence': 'प्रमाण',
+  'compare.cautions': 'सावधानियाँ',
+  'compare.plan': 'योजना',
+  'compare.notStated': 'नहीं बताया गया',
+  'cost.low': 'कम',
+  'cost.moderate': 'मध्यम',
+  'cost.high': 'अधिक',
+  'evidence.strong': 'मज़बूत नैदानिक प्रमाण',
+  'evidence.moderate': 'कुछ नैदानिक प्रमाण',
+  'evidence.limited': 'सीमित प्रमाण',
+  'evidence.traditional': 'पारंपरिक उपयोग, नैदानिक रूप से परखा नहीं गया',
+
+  'dose.title': 'खुराक चार्ट',
+  'dose.starting': '{date} से शुरू',
+  'dose.medicine': 'दवा',
+  'dose.food': 'भोजन',
+  'dose.days': 'दिन',
+  'dose.day': 'दिन {day}',
+  'dose.asDirected': 'निर्देशानुसार',
+  'dose.tick': 'हर खुराक लेने के बाद उस पर निशान लगाएँ, और पूरा कोर्स पूरा करें।',
+  'dose.reminderTitle': '{name} की दवा का समय',
+  'doseTime.morning': 'सुबह',
+  'doseTime.noon': 'दोपहर',
+  'doseTime.evening': 'शाम',
+  'doseTime.night': 'रात',
+  'food.before': 'भोजन से पहले',
+  'food.with': 'भोजन के साथ',
+  'food.after': 'भोजन के बाद',
+  'food.any': 'भोजन के साथ या बिना',
+  'dose.startDate': 'कोर्स शुरू',
+  'dose.print': 'खुराक चार्ट प्रिंट करें',
+  'dose.calendar': 'कैलेंडर में जोड़ें',
+  'dose.remind': 'मुझे याद दिलाएँ',
+  'dose.remindersOn': 'रिमाइंडर चालू हैं',
+  'dose.remindersNote': 'रिमाइंडर केवल तभी दिखते हैं जब यह ऐप खुला हो। फ़ोन पर याद दिलाने के लिए कोर्स को कैलेंडर में जोड़ें।',
+  'dose.remindersBlocked': 'सूचनाएँ बंद हैं। रिमाइंडर पाने के लिए ब्राउज़र सेटिंग में अनुमति दें।',
+  'dose.remindersUnsupported': 'यह ब्राउज़र रिमाइंडर नहीं दिखा सकता। इसके बजाय कोर्स को कैलेंडर में जोड़ें।',
+
+  'share.button': 'लिंक शेयर करें',
+  'share.title': 'मरीज़ के साथ शेयर करें',
+  'share.intro': 'पर्चा लिंक के अंदर ही रहता है, इसलिए इसे कहीं अपलोड नहीं किया जाता। पासफ़्रेज़ के बिना लिंक वाला कोई भी इसे पढ़ सकता है।',
+  'share.passphrase': 'पासफ़्रेज़ (वैकल्पिक)',
+  'share.passphraseHint': 'पासफ़्रेज़ मरीज़ को खुद या फ़ोन पर बताएँ, लिंक वाले संदेश में नहीं।',
+  'share.create': 'लिंक बनाएँ',
+  'share.creating': 'बन रहा है…',
+  'share.copy': 'लिंक कॉपी करें',
+  'share.copied': 'कॉपी हो गया',
+  'share.send': 'भेजें…',
+  'share.qrOnPrint': 'QR कोड पर्चे पर भी छपता है और PDF में शामिल होता है।',
+  'share.tooLongForQr': 'यह पर्चा QR कोड के लिए बहुत लंबा है। इसके बजाय लिंक भेजें।',
+  'share.error': 'इस ब्राउज़र में लिंक नहीं बन सका।',
+  'share.scan': 'यह योजना फ़ोन पर खोलने के लिए स्कैन करें',
+  'shared.title': 'आपका पर्चा',
+  'shared.readOnly': '{date} को शेयर की गई केवल पढ़ने योग्य प्रति',
+  'shared.passphrasePrompt': 'यह पर्चा सुरक्षित है। डॉक्टर का दिया पासफ़्रेज़ दर्ज करें।',
+  'shared.open': 'खोलें',
+  'shared.opening': 'पर्चा खुल रहा है…',
+  'shared.print': 'प्रिंट करें',
+  'shared.wrongPassphrase': 'पासफ़्रेज़ सही नहीं है।',
+  'shared.invalid': 'यह लिंक खराब या अधूरा है। डॉक्टर से दोबारा भेजने को कहें।',
+  'shared.unsupported': 'यह ब्राउज़र शेयर किए गए पर्चे नहीं खोल सकता। नया ब्राउज़र आज़माएँ।',
+  'shared.openApp': 'एआई डॉक्टर खोलें',
+
+  'upload.processing': '{name} तैयार हो रही है…',
+  'upload.duplicate': 'पहले से जुड़ी है: {names}।',
+  'upload.failed': 'पढ़ी नहीं जा सकी: {names}।',
+  'upload.enhance': 'फ़ोटो अपने आप बेहतर करें',
+  'upload.cropped': 'काटी गई',
+  'upload.straightened': '{degrees}° सीधी की गई',
+  'upload.contrast': 'कंट्रास्ट बढ़ाया गया',
+  'upload.resized': 'आकार घटाया गया',
+  'upload.notEnhanced': 'यह फ़ोटो बेहतर नहीं हो सकी और जैसी है वैसी भेजी जाएगी।',
+  'upload.pagesSelected': '{total} में से {selected} पेज भेजे जाएँगे',
+  'upload.noPagesSelected': 'कोई पेज नहीं चुना; यह रिपोर्ट नहीं भेजी जाएगी',
+  'upload.allPages': 'सभी चुनें',
+  'upload.noPages': 'कोई नहीं',
+  'upload.page': 'पेज {number}',
+  'upload.noPreview': 'पूर्वावलोकन उपलब्ध नहीं; पूरी PDF भेजी जाएगी।',
+
+  'lab.title': 'लैब परिणाम',
+  'lab.summary': '({rows} पंक्तियाँ, {abnormal} सीमा से बाहर)',
+  'lab.addRow': '+ पंक्ति जोड़ें',
+  'lab.hint': 'योजना बनाने से पहले हर पंक्ति को रिपोर्ट से मिलाएँ और गलत पढ़ी गई चीज़ें ठीक करें।',
+  'lab.test': 'जाँच',
+  'lab.value': 'मान',
+  'lab.unit': 'इकाई',
+  'lab.reference': 'संदर्भ',
+  'lab.referenceRange': 'संदर्भ सीमा',
+  'lab.flag': 'चिह्न',
+  'lab.date': 'तारीख',
+  'lab.reportDate': 'रिपोर्ट की तारीख',
+  'lab.normalized': 'मानक इकाई में',
+  'lab.remove': 'हटाएँ',
+  'lab.removeRow': 'पंक्ति हटाएँ',
+  'lab.enteredByStaff': 'स्टाफ़ द्वारा दर्ज',
+  'labFlag.normal': 'सामान्य',
+  'labFlag.low': 'कम',
+  'labFlag.high': 'अधिक',
+  'labFlag.critical': 'गंभीर',
+
+  'queue.title': 'ऑफ़लाइन कतार',
+  'queue.offline': 'आप ऑफ़लाइन हैं। फ़ॉर्म काम करता रहेगा; जमा किए गए परामर्श कतार में रखे जाएँगे और कनेक्शन लौटने पर तैयार होंगे।',
+  'queue.offlineLocal': 'आप ऑफ़लाइन हैं। स्थानीय मॉडल अभी भी उपलब्ध है।',
+  'queue.submit': 'परामर्श कतार में जोड़ें',
+  'queue.queued': '{name} का परामर्श कतार में जोड़ दिया गया। कनेक्शन लौटने पर इसे तैयार किया जाएगा।',
+  'queue.full': 'इस डिवाइस पर परामर्श को कतार में रखने की जगह नहीं बची है। कुछ रिपोर्ट या पूरे हो चुके आइटम हटाकर फिर से कोशिश करें।',
+  'queue.willRun': 'प्रतीक्षारत परामर्श कनेक्शन लौटने पर अपने आप तैयार हो जाएँगे।',
+  'queue.waiting': 'प्रतीक्षारत',
+  'queue.processing': 'तैयार हो रहा है',
+  'queue.done': 'तैयार',
+  'queue.failed': 'विफल',
+  'queue.emergency': 'आपातकाल',
+  'queue.emergencyHint': 'ट्राइएज में आपातकालीन चेतावनी संकेत मिले। मरीज़ को तुरंत इलाज के लिए भेजें, या समीक्षा के बाद ही आगे बढ़ें।',
+  'queue.open': 'खोलें',
+  'queue.retry': 'फिर से कोशिश करें',
+  'queue.continueAnyway': 'फिर भी जारी रखें',
+  'queue.clearDone': 'पूरे हुए हटाएँ',
+  'queue.queuedAt': '{time} को कतार में जोड़ा',
+  'queue.missing': 'तैयार किया गया परामर्श मरीज़ के इतिहास में नहीं मिला।',
+
+  'header.lock': 'लॉक करें',
+  'lock.title': 'क्लिनिक का PIN दर्ज करें',
+  'lock.subtitle': 'इस डिवाइस पर मरीज़ों के रिकॉर्ड लॉक हैं।',
+  'lock.setupTitle': 'क्लिनिक का PIN सेट करें',
+  'lock.setupSubtitle': 'इस डिवाइस पर मरीज़ों के रिकॉर्ड इसी PIN से एन्क्रिप्ट होते हैं। कम से कम {min} अक्षर रखें।',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'PIN दोबारा दर्ज करें',
+  'lock.setupNote': 'PIN के बिना रिकॉर्ड वापस नहीं मिल सकते।',
+  'lock.unlock': 'अनलॉक करें',
+  'lock.setup': 'PIN सेट करें और जारी रखें',
+  'lock.forgot': 'PIN भूल गए? इस डिवाइस का सारा डेटा मिटाएँ',
+  'lock.resetConfirm': 'PIN के बिना इस डिवाइस पर मरीज़ों के रिकॉर्ड पढ़े नहीं जा सकते। सब मिटाकर नया PIN सेट करें?',
+  'lock.wrongPin': 'यह PIN सही नहीं है।',
+  'lock.tooShort': 'PIN बहुत छोटा है।',
+  'lock.mismatch': 'दोनों PIN मेल नहीं खाते।',
+  'lock.failed': 'इस डिवाइस पर मरीज़ों के रिकॉर्ड नहीं खुल सके।',
+  'consent.label': 'मरीज़ सहमत है कि यह योजना बनाने के लिए उनकी जानकारी, लक्षण और रिपोर्ट AI सेवा को भेजी जाएँ।',
+  'consent.recorded': 'सहमति {time} को दर्ज की गई',
+  'consent.required': 'AI सेवा को कुछ भी भेजने से पहले मरीज़ की सहमति दर्ज करें।',
+  'consent.needed': 'नीचे मरीज़ की सहमति ज़रूरी है',
+
+  'redact.open': 'जानकारी छिपाएँ',
+  'redact.count': '{count} हिस्से छिपाए गए',
+  'redact.title': 'पहचान वाली जानकारी छिपाएँ',
+  'redact.instructions': 'नाम, रिकॉर्ड नंबर और पते पर खींचकर उन्हें काला करें। सिर्फ़ ढकी हुई फ़ोटो भेजी जाएगी। किसी बॉक्स को हटाने के लिए उसे चुनें।',
+  'redact.suggest': 'OCR से ढूँढें',
+  'redact.suggesting': 'फ़ोटो पढ़ी जा रही है…',
+  'redact.suggested': '{count} हिस्से मिले। फ़ोटो जाँच लें कि कुछ छूटा तो नहीं।',
+  'redact.suggestFailed': 'फ़ोटो नहीं पढ़ी जा सकी। बॉक्स ख़ुद बनाएँ।',
+  'redact.clear': 'सब हटाएँ',
+  'redact.save': 'सहेजें',
+  'redact.removeBox': 'यह बॉक्स हटाएँ',
+  'redact.enhanceLocked': 'इसे बदलने से पहले छिपाए गए हिस्से हटाएँ',
+  'privacy.preview': 'गोपनीयता पूर्वावलोकन',
+  'privacy.title': 'AI सेवा को क्या भेजा जाएगा',
+  'privacy.intro': 'यह सब कुछ है जो इस डिवाइस से बाहर जाएगा। [PATIENT_NAME] जैसे प्लेसहोल्डर सिर्फ़ इसी डिवाइस पर दोबारा भरे जाते हैं।',
+  'privacy.settingsHint': 'कौन-सी जानकारी बदली जाए, यह सेटिंग्स में चुनें।',
+  'privacy.loading': 'पूर्वावलोकन तैयार हो रहा है…',
+  'privacy.failed': 'पूर्वावलोकन तैयार नहीं हो सका।',
+  'privacy.triage': 'तात्कालिकता जाँच',
+  'privacy.prescription': 'पर्चा',
+  'privacy.triageNote': 'पर्चे के अनुरोध में ट्राइएज वाली पंक्ति तात्कालिकता जाँच के नतीजे पर निर्भर करती है।',
+  'privacy.attachments': 'अटैचमेंट ({count})',
+  'privacy.pdf': 'PDF रिपोर्ट ({size} KB), अपने टेक्स्ट के साथ भेजी जाएगी। हिस्से छिपाना सिर्फ़ फ़ोटो पर काम करता है।',
+
+  'print.date': 'दिनांक',
+  'print.age': 'उम्र',
+  'print.district': 'ज़िला',
+  'print.cell': 'मोबाइल',
+  'print.condition': 'रोग',
+  'print.sex': 'लिंग',
+  'print.weight': 'वज़न',
+  'print.height': 'लंबाई',
+  'print.bmi': 'BMI',
+  'print.allergies': 'एलर्जी',
+  'print.currentMedications': 'वर्तमान दवाएँ',
+  'print.chronicConditions': 'पुरानी बीमारियाँ',
+  'print.pregnancy': 'गर्भावस्था',
+  'print.tel': 'फ़ोन',
+  'print.regNo': 'पंजीकरण सं.',
+  'print.triage': 'ट्राइएज',
+  'print.overridden': 'चिकित्सक ने {date} को आगे बढ़ने का निर्णय लिया।',
+  'print.safetyCheck': 'सुरक्षा जाँच',
+  'print.safetyFlagged': 'नीचे {count} संभावित पारस्परिक प्रभाव या निषेध चिह्नित हैं। उपयोग से पहले इनकी समीक्षा करें।',
+  'print.approvedStamp': '{name} ने {date} को समीक्षा करके मंज़ूर किया।',
+  'print.draftStamp': 'AI का मसौदा सुझाव — अभी किसी चिकित्सक ने समीक्षा नहीं की है। इलाज के लिए उपयोग न करें।',
+  'print.practitionerNote': 'चिकित्सक का नोट',
+  'print.practitionerNotes': 'चिकित्सक के नोट',
+  'print.followUp': 'आगे के सवाल',
+  'print.question': 'प्र',
+  'print.answer': 'उ',
+  'print.signature': 'हस्ताक्षर',
+  'print.reviewingPractitioner': 'समीक्षक चिकित्सक',
+
+  'urgency.emergency': 'आपातकालीन',
+  'urgency.urgent': 'तत्काल',
+  'urgency.routine': 'सामान्य',
+  'urgencyNote.emergency': 'तुरंत आपातकालीन इलाज लें।',
+  'urgencyNote.urgent': '24 घंटे के भीतर डॉक्टर से मिलकर जाँच कराएँ।',
+  'urgencyNote.routine': 'कोई ख़तरे वाला लक्षण नहीं मिला।',
+  'severity.major': 'गंभीर',
+  'severity.moderate': 'मध्यम',
+  'severity.minor': 'मामूली',
+
+  'chat.title': 'इस पर्चे के बारे में प्रश्न',
+  'chat.includeInPrint': 'प्रिंट में शामिल करें',
+  'chat.empty': 'इस योजना के बारे में कुछ भी पूछें, जैसे "क्या मैं इसे खाने के साथ ले सकता हूँ?" या "अगर बुखार न उतरे तो?"। उत्तर {language} में मिलेंगे।',
+  'chat.placeholder': 'अपना प्रश्न लिखें...',
+  'chat.inputLabel': 'फ़ॉलो-अप प्रश्न',
+  'chat.ask': 'पूछें',
+
+  'emergency.title': 'तुरंत आपातकालीन चिकित्सा लें',
+  'emergency.subtitle': 'ये लक्षण जानलेवा हो सकते हैं। ऑनलाइन पर्चे का इंतज़ार न करें।',
+  'emergency.callForHelp': 'मदद के लिए कॉल करें:',
+  'emergency.callForHelpIn': '{district} में मदद के लिए कॉल करें:',
+  'emergency.noContacts': 'अपने स्थानीय आपातकालीन नंबर पर कॉल करें या नज़दीकी अस्पताल के आपातकालीन विभाग में जाएँ।',
+  'emergency.back': 'फ़ॉर्म पर वापस जाएँ',
+  'emergency.clinicianConfirm': 'एक चिकित्सक ने मरीज़ की स्वयं जाँच करके आगे बढ़ने का निर्णय लिया है। यह पर्चे पर दर्ज किया जाएगा।',
+  'emergency.continue': 'पर्चे पर आगे बढ़ें',
+
+  'settings.aiProvider': 'AI प्रदाता',
+  'settings.provider': 'प्रदाता',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'OpenAI-संगत सर्वर (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'ऑफ़लाइन नमूना (तैयार जवाब, बिना नेटवर्क)',
+  'settings.model': 'मॉडल',
+  'settings.serverUrl': 'सर्वर URL',
+  'settings.apiKeyGemini': 'API कुंजी (वैकल्पिक, पहले से मौजूद कुंजी की जगह लेती है)',
+  'settings.apiKeyOptional': 'API कुंजी (वैकल्पिक)',
+  'settings.apiKeyHint': 'केवल इसी ब्राउज़र में सहेजा गया है।',
+  'settings.emergencyNumbers': 'आपातकालीन नंबर',
+  'settings.emergencyHint': 'आपातकालीन स्क्रीन पर दिखाए जाते हैं। जो नंबर हर जगह लागू हों, उनका ज़िला खाली छोड़ दें।',
+  'settings.district': 'ज़िला',
+  'settings.allDistricts': 'सभी ज़िले',
+  'settings.service': 'सेवा',
+  'settings.number': 'नंबर',
+  'settings.addNumber': '+ नंबर जोड़ें',
+  'settings.security': 'सुरक्षा',
+  'settings.securityHint': 'इस डिवाइस पर मरीज़ों के रिकॉर्ड क्लिनिक PIN से एन्क्रिप्ट हैं। इसके बिना उन्हें वापस पाने का कोई तरीका नहीं है।',
+  'settings.autoLock': 'निष्क्रिय रहने पर लॉक करें',
+  'settings.oneMinute': '1 मिनट',
+  'settings.minutes': '{count} मिनट',
+  'settings.currentPin': 'मौजूदा PIN',
+  'settings.newPin': 'नया PIN',
+  'settings.newPinPlaceholder': 'नया PIN (कम से कम {min} अक्षर)',
+  'settings.repeatPin': 'नया PIN दोबारा लिखें',
+  'settings.changePin': 'PIN बदलें',
+  'settings.changingPin': 'PIN बदला जा रहा है...',
+  'settings.pinChanged': 'PIN बदल दिया गया।',
+  'settings.pinFailed': 'PIN नहीं बदला जा सका।',
+  'settings.privacy': 'गोपनीयता',
+  'settings.privacyHint': 'AI को कुछ भी भेजने से पहले इनकी जगह प्लेसहोल्डर लगा दिए जाते हैं, और असली जानकारी सिर्फ़ इसी डिवाइस पर वापस भरी जाती है।',
+  'settings.modalities': 'उपचार के प्रकार',
+  'settings.modalitiesHint': 'मरीज़ के फ़ॉर्म पर दिए जाने वाले उपचार के प्रकार। जो प्रकार चुना जाए, उसके निर्देश AI को भेजे जाते हैं।',
+  'privacyField.name': 'मरीज़ का नाम',
+  'privacyField.cell': 'मोबाइल नंबर',
+  'privacyField.district': 'ज़िला',
+  'privacyField.otherIdentifiers': 'विवरण में मौजूद अन्य फ़ोन नंबर, ईमेल और पहचान या रिकॉर्ड नंबर',
+
+  'history.savedLocally': 'केवल इसी डिवाइस पर सहेजा गया है।',
+  'history.back': 'वापस',
+  'history.loadFailed': 'स्थानीय मरीज़ इतिहास नहीं खुल सका।',
+  'history.search': 'नाम, मोबाइल नंबर या ज़िले से खोजें...',
+  'history.noPatients': 'अभी कोई मरीज़ सहेजा नहीं गया है।',
+  'history.noMatches': 'आपकी खोज से कोई मरीज़ नहीं मिला।',
+  'history.age': 'उम्र: {age}',
+  'history.district': 'ज़िला: {district}',
+  'history.cell': 'मोबाइल: {cell}',
+  'history.lastVisit': 'पिछली जाँच: {date}',
+  'history.followUp': 'दोबारा जाँच',
+  'history.export': 'मरीज़ का डेटा एक्सपोर्ट करें',
+  'history.exportFailed': '{name} का डेटा एक्सपोर्ट नहीं हो सका।',
+  'history.erasePatient': 'मरीज़ को मिटाएँ',
+  'history.eraseWarning': 'इससे {name} की जाँचें, रिपोर्टें, कतार में रखी जाँचें और दवा के रिमाइंडर इस डिवाइस से हमेशा के लिए मिट जाएँगे। अगर मरीज़ ने कॉपी माँगी है तो पहले उनका डेटा एक्सपोर्ट कर लें। पुष्टि के लिए मरीज़ का नाम लिखें।',
+  'history.patientName': 'मरीज़ का नाम',
+  'history.erase': 'मिटाएँ',
+  'history.erased': '{name} को मिटा दिया गया: {consultations} जाँच, {attachments} रिपोर्ट फ़ाइलें, कतार में {queued} जाँच और दवा के {reminders} रिमाइंडर। {time} पर जाँच लिया गया कि इस डिवाइस पर कुछ बाकी नहीं है।',
+  'history.eraseFailed': '{name} को मिटाया नहीं जा सका।',
+  'history.eraseIncomplete': 'मरीज़ के कुछ रिकॉर्ड मिटाए नहीं जा सके। फिर से कोशिश करें।',
+  'history.consultations': 'जाँचें',
+  'history.labTrends': 'लैब रुझान',
+  'history.approved': 'मंज़ूर',
+  'history.draft': 'मसौदा',
+  'history.reports': '{count} रिपोर्ट',
+  'history.reopen': 'फिर से खोलें',
+  'history.print': 'प्रिंट करें',
+  'history.delete': 'हटाएँ',
+  'history.deleteConfirm': '{date} की जाँच हटाएँ?',
+  'history.noConsultations': 'कोई जाँच दर्ज नहीं है।',
+
+  'clinic.imageError': 'यह तस्वीर पढ़ी नहीं जा सकी। कृपया PNG या JPEG फ़ाइल इस्तेमाल करें।',
+  'clinic.saveError': 'प्रोफ़ाइल सहेजी नहीं जा सकी। लोगो या हस्ताक्षर की छोटी तस्वीरें आज़माएँ।',
+  'clinic.letterhead': 'लेटरहेड',
+  'clinic.letterheadHint': 'हर पर्चे पर छपता है। केवल इसी ब्राउज़र में सहेजा गया है।',
+  'clinic.logo': 'लोगो',
+  'clinic.defaultLogo': 'डिफ़ॉल्ट लोगो',
+  'clinic.none': 'कोई नहीं',
+  'clinic.upload': 'अपलोड करें',
+  'clinic.clinicName': 'क्लिनिक का नाम',
+  'clinic.tagline': 'टैगलाइन',
+  'clinic.address': 'पता',
+  'clinic.phone': 'फ़ोन',
+  'clinic.registrationNumber': 'पंजीकरण संख्या',
+  'clinic.prescriber': 'पर्चा लिखने वाले',
+  'clinic.practitionerName': 'समीक्षक चिकित्सक',
+  'clinic.signature': 'हस्ताक्षर',
+  'clinic.disclaimer': 'अस्वीकरण',
+  'clinic.disclaimerHint': 'अंग्रेज़ी में लिखा जाता है और हर मरीज़ की भाषा में अपने-आप अनुवाद होता है। इसे बदलने पर सहेजे गए अनुवाद हट जाते हैं।',
+  'clinic.removeTranslation': 'अनुवाद हटाएँ',
+
+  'medEditor.name': 'दवा',
+  'medEditor.strength': 'शक्ति',
+  'medEditor.dosage': 'खुराक',
+  'medEditor.duration': 'अवधि',
+  'medEditor.route': 'लेने का तरीका',
+  'medEditor.notes': 'नोट',
+  'medEditor.mealsNotStated': 'भोजन: नहीं बताया गया',
+  'medEditor.reviewerNote': 'समीक्षक का नोट',
+  'medEditor.reviewerNotePlaceholder': 'समीक्षक का नोट (वैकल्पिक)',
+  'medEditor.strike': 'काटें',
+  'medEditor.restore': 'वापस लाएँ',
+  'modality.new': 'नया प्रकार',
+  'modality.offer': '{name} उपलब्ध कराएँ',
+  'modality.patientsOnly': 'केवल {religion} मरीज़ों के लिए',
+  'modality.edit': 'बदलें',
+  'modality.done': 'पूरा',
+  'modality.name': 'नाम (अंग्रेज़ी में, AI को भी दिखाया जाता है)',
+  'modality.namePlaceholder': 'जैसे Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'श्रेणी',
+  'modality.format': 'योजना में शामिल',
+  'modality.offeredTo': 'किनके लिए',
+  'modality.allPatients': 'सभी मरीज़',
+  'modality.rules': 'AI के लिए निर्देश',
+  'modality.rulesPlaceholder': 'इस योजना में क्या होना चाहिए और उसे कैसे लिखा जाए।',
+  'modality.conventionalHint': 'आधुनिक चिकित्सा की योजनाओं में दवाओं के पारस्परिक प्रभाव जाँचे जाते हैं; बाकी सबको जड़ी-बूटी की दवाओं की तरह जाँचा जाता है।',
+  'modality.restore': 'डिफ़ॉल्ट वापस लाएँ',
+  'modality.add': '+ प्रकार जोड़ें',
+  'modalityCategory.conventional': 'आधुनिक चिकित्सा',
+  'modalityCategory.traditional': 'पारंपरिक / पूरक',
+  'modalityCategory.spiritual': 'आध्यात्मिक',
+  'modalityCategory.therapy': 'थेरेपी',
+  'outputFormat.medications': 'दवाएँ (नाम, शक्ति, खुराक, अवधि)',
+  'outputFormat.instructions': 'केवल मार्गदर्शन (दवाएँ नहीं)',
+  'outputFormat.mixed': 'दवाएँ और मार्गदर्शन',
+};
@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const pt: Messages = {
+  'app.title': 'Médico IA',
+  'header.history': 'Histórico de pacientes',
+  'header.clinicProfile': 'Perfil da clínica',
+  'header.settings': 'Configurações',
+  'header.uiLanguage': 'Idioma da interface',
+
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.remove': 'Remover',
+  'common.save': 'Salvar',
+
+  'loading.title': 'Consultando o Médico IA...',
+  'loading.subtitle': 'Analisando os exames e preparando seu plano de saúde.',
+
+  'form.title': 'Dados do paciente',
+  'form.subtitle': 'Informe seus dados para receber um plano personalizado.',
+  'form.name': 'Nome',
+  'form.age': 'Idade',
+  'form.district': 'Distrito / Cidade',
+  'form.cell': 'Celular (opcional)',
+  'form.religion': 'Religião',
+  'form.selectReligion': 'Selecione a religião',
+  'form.language': 'Idioma preferido',
+  'form.clinicalDetails': 'Dados clínicos',
+  'form.clinicalHint': '(opcionais, mas recomendados para uma dosagem segura)',
+  'form.sex': 'Sexo',
+  'form.notSpecified': 'Não informado',
+  'form.weight': 'Peso (kg)',
+  'form.height': 'Altura (cm)',
+  'form.pregnancy': 'Gravidez / amamentação',
+  'form.allergies': 'Alergias conhecidas',
+  'form.allergiesPlaceholder': 'ex.: penicilina, sulfas, amendoim',
+  'form.currentMedications': 'Medicamentos em uso',
+  'form.currentMedicationsPlaceholder': 'ex.: metformina 500 mg duas vezes ao dia',
+  'form.chronicConditions': 'Doenças crônicas',
+  'form.chronicConditionsPlaceholder': 'ex.: diabetes, hipertensão, asma',
+  'form.recommended': 'Recomendado: informe {fields} para que as doses possam ser ajustadas com segurança.',
+  'form.describeOrUpload': 'Descreva o problema ou envie exames',
+  'form.tabSymptoms': 'Descrever sintomas',
+  'form.tabUpload': 'Enviar exames',
+  'form.symptomsPlaceholder': 'Exemplo: estou com febre, tosse e dor de cabeça...',
+  'form.clickToUpload': 'Clique para enviar',
+  'form.dragAndDrop': 'ou arraste e solte aqui',
+  'form.fileTypes': 'PDF de até 20 MB; fotos JPG, PNG, WebP ou HEIC de até 50 MB',
+  'form.uploadedFiles': 'Arquivos enviados:',
+  'form.extractLabResults': 'Extrair resultados laboratoriais ({count})',
+  'form.readingReports': 'Lendo os exames...',
+  'form.reportComments': 'Comentários ou perguntas sobre os exames (opcional)',
+  'form.reportCommentsPlaceholder': 'Dê contexto sobre seus exames ou faça perguntas específicas... ex.: "Verifique os resultados da função renal no arquivo anexo."',
+  'form.treatmentTypes': 'Selecione o(s) tipo(s) de tratamento',
+  'form.returningPatient': 'Paciente em retorno:',
+  'form.includeHistory': 'Incluir {count} consulta(s) anterior(es) como contexto para este retorno.',
+  'form.submit': 'Obter receita da IA',
+  'form.generating': 'Gerando...',
+
+  'voice.record': 'Gravar sintomas',
+  'voice.stop': 'Parar gravação',
+  'voice.recording': 'Gravando... {time}',
+  'voice.transcribing': 'Ouvindo a gravação...',
+  'voice.reviewTitle': 'Confira o que entendemos',
+  'voice.reviewHint': 'Corrija o que estiver errado antes de adicionar à descrição.',
+  'voice.symptoms': 'Sintomas identificados:',
+  'voice.use': 'Adicionar à descrição',
+  'voice.discard': 'Descartar',
+  'voice.micError': 'Não foi possível usar o microfone. Permita o acesso ao microfone no navegador e tente novamente.',
+  'voice.unsupported': 'Este navegador não oferece entrada por voz.',
+  'voice.empty': 'Nenhuma fala foi ouvida na gravação. Tente novamente.',
+  'speech.readAloud': 'Ler em voz alta',
+  'speech.stop': 'Parar leitura',
+  'speech.noVoice': 'Este dispositivo não tem voz para {language}.',
+
+  'form.tabGuided': 'Perguntas guiadas',
+  'guided.intro': 'Responda a algumas perguntas rápidas. Só o problema principal é obrigatório; pule o que não souber.',
+  'guided.complaint': 'Qual é o problema principal?',
+  'guided.duration': 'Há quanto tempo isso acontece?',
+  'guided.durationValue': 'Quantidade',
+  'guided.severity': 'Qual a intensidade? (0 = nenhum incômodo, 10 = o pior imaginável)',
+  'guided.notRated': 'Ainda não avaliado',
+  'guided.clear': 'Limpar',
+  'guided.onset': 'Como começou?',
+  'guided.location': 'Onde é? Toque no corpo ou escolha abaixo.',
+  'guided.bodyMap': 'Mapa do corpo',
+  'guided.temperature': 'Maior temperatura medida (°C)',
+  'guided.painCharacter': 'Como é a dor?',
+  'guided.associated': 'Também tem algum destes?',
+  'guided.tried': 'O que já foi tentado?',
+  'guided.notes': 'Mais alguma coisa? (opcional)',
+  'guided.summaryTitle': 'Resumo dos sintomas',
+  'summary.complaint': 'Queixa',
+  'summary.duration': 'Duração',
+  'summary.severity': 'Intensidade',
+  'summary.onset': 'Início',
+  'summary.location': 'Local',
+  'summary.temperature': 'Temperatura máxima',
+  'summary.painCharacter': 'Tipo de dor',
+  'summary.associated': 'Também tem',
+  'summary.tried': 'Já tentado',
+  'summary.notes': 'Observações',
+  'duration.hours': '{count} hora(s)',
+  'duration.days': '{count} dia(s)',
+  'duration.weeks': '{count} semana(s)',
+  'duration.months': '{count} mês(es)',
+  'durationUnit.hours': 'Horas',
+  'durationUnit.days': 'Dias',
+  'durationUnit.weeks': 'Semanas',
+  'durationUnit.months': 'Meses',
+  'onset.sudden': 'De repente',
+  'onset.gradual': 'Aos poucos',
+  'complaint.fever': 'Febre',
+  'complaint.cough': 'Tosse',
+  'complaint.breathing': 'Dificuldade para respirar',
+  'complaint.pain': 'Dor',
+  'complaint.stomach': 'Estômago / digestão',
+  'complaint.skin': 'Problema de pele',
+  'complaint.urinary': 'Problema urinário',
+  'complaint.fatigue': 'Cansaço / fraqueza',
+  'associated.chills': 'Calafrios',
+  'associated.sweating': 'Suor',
+  'associated.bodyAches': 'Dores no corpo',
+  'associated.headache': 'Dor de cabeça',
+  'associated.rash': 'Manchas na pele',
+  'associated.lossOfAppetite': 'Falta de apetite',
+  'associated.phlegm': 'Catarro',
+  'associated.bloodInPhlegm': 'Sangue no catarro',
+  'associated.soreThroat': 'Dor de garganta',
+  'associated.runnyNose': 'Coriza',
+  'associated.wheeze': 'Chiado no peito',
+  'associated.chestPain': 'Dor no peito',
+  'associated.swelling': 'Inchaço',
+  'associated.numbness': 'Dormência ou formigamento',
+  'associated.dizziness': 'Tontura',
+  'associated.nausea': 'Náusea',
+  'associated.vomiting': 'Vômito',
+  'associated.diarrhoea': 'Diarreia',
+  'associated.bloodInStool': 'Sangue nas fezes',
+  'associated.itching': 'Coceira',
+  'associated.burningUrine': 'Ardência ao urinar',
+  'associated.frequentUrination': 'Urinar com frequência',
+  'associated.bloodInUrine': 'Sangue na urina',
+  'associated.weightLoss': 'Perda de peso',
+  'painCharacter.sharp': 'Aguda / pontada',
+  'painCharacter.dull': 'Surda / contínua',
+  'painCharacter.burning': 'Queimação',
+  'painCharacter.cramping': 'Cólica',
+  'painCharacter.throbbing': 'Latejante',
+  'tried.paracetamol': 'Paracetamol',
+  'tried.ibuprofen': 'Ibuprofeno',
+  'tried.antibiotics': 'Antibióticos',
+  'tried.coughSyrup': 'Xarope para tosse',
+  'tried.antacid': 'Antiácido',
+  'tried.herbal': 'Remédio fitoterápico',
+  'tried.homeRemedy': 'Remédio caseiro',
+  'tried.nothing': 'Nada ainda',
+  'body.head': 'Cabeça',
+  'body.throat': 'Garganta / pescoço',
+  'body.chest': 'Peito',
+  'body.upperAbdomen': 'Parte superior do abdômen',
+  'body.lowerAbdomen': 'Parte inferior do abdômen',
+  'body.arms': 'Braços',
+  'body.legs': 'Pernas',
+  'body.back': 'Costas',
+  'body.joints': 'Articulações',
+  'body.wholeBody': 'Corpo todo',
+
+  'religion.islam': 'Islã',
+  'religion.christianity': 'Cristianismo',
+  'religion.hinduism': 'Hinduísmo',
+  'religion.buddhism': 'Budismo',
+  'religion.sikhism': 'Siquismo',
+  'religion.judaism': 'Judaísmo',
+  'religion.bahai': 'Fé Bahá’í',
+  'religion.chineseFolk': 'Religião popular chinesa',
+  'religion.spiritism': 'Espiritismo',
+  'religion.indigenous': 'Religiões étnicas / indígenas',
+  'religion.other': 'Outra',
+
+  'treatment.hikmat': 'Hikmat (fitoterapia tradicional)',
+  'treatment.homeopathy': 'Homeopatia',
+  'treatment.allopathy': 'Alopatia (médicos especialistas)',
+  'treatment.islam': 'Alcorão e Asma-ul-Husna',
+  'treatment.christianity': 'Cura bíblica e oração',
+  'treatment.hinduism': 'Ayurveda e mantras',
+  'treatment.buddhism': 'Meditação e cânticos',
+  'treatment.sikhism': 'Recitação do Gurbani e seva',
+  'treatment.judaism': 'Estudo da Torá e oração',
+  'treatment.bahai': 'Escritos de Bahá’u’lláh e oração',
+  'treatment.chineseFolk': 'Veneração dos ancestrais e remédios à base de ervas',
+  'treatment.spiritism': 'Orientação espiritual e cura',
+  'treatment.indigenous': 'Rituais tradicionais e cura natural',
+
+  'sex.female': 'Feminino',
+  'sex.male': 'Masculino',
+  'sex.other': 'Outro',
+
+  'pregnancy.none': 'Nem grávida nem amamentando',
+  'pregnancy.pregnant': 'Grávida',
+  'pregnancy.breastfeeding': 'Amamentando',
+  'pregnancy.pregnant-breastfeeding': 'Grávida e amamentando',
+
+  'missing.sex': 'sexo',
+  'missing.weight': 'peso',
+  'missing.weightChild': 'peso (necessário para a dose pediátrica)',
+  'missing.allergies': 'alergias conhecidas',
+  'missing.currentMedications': 'medicamentos em uso',
+  'missing.pregnancyStatus': 'situação de gravidez',
+
+  'validation.weightRange': 'Informe um peso entre 0,5 e 350 kg.',
+  'validation.weightInfant': 'Esse peso parece alto demais para um bebê. Confira, por favor.',
+  'validation.heightRange': 'Informe uma altura entre 30 e 250 cm.',
+  'validation.pregnancyMismatch': 'A gravidez ou amamentação não condiz com o sexo ou a idade informados.',
+  'validation.tooLong': 'Mantenha o texto com menos de {max} caracteres.',
+
+  'error.requiredFields': 'Preencha todos os campos obrigatórios, descreva os sintomas ou envie um exame e escolha pelo menos um tipo de tratamento.',
+  'error.clinicalDetails': 'Corrija os dados clínicos destacados.',
+  'error.invalidFiles': 'Alguns arquivos eram inválidos. Somente PDFs com menos de 20 MB e fotos JPG, PNG, WebP ou HEIC com menos de 50 MB são aceitos.',
+  'error.quota': 'O limite de uso do serviço de IA foi atingido. Aguarde um minuto e tente novamente, ou verifique o plano da chave de API nas Configurações.',
+  'error.safety': 'O serviço de IA se recusou a responder a esta solicitação. Reescreva a descrição e tente novamente.',
+  'error.network': 'Não foi possível acessar o serviço de IA. Verifique a conexão com a internet e tente novamente.',
+  'error.unavailable': 'O serviço de IA está ocupado ou indisponível no momento. Tente novamente em alguns minutos.',
+  'error.invalidOutput': 'A IA retornou várias vezes uma receita que não seguia as regras (idioma, um plano para cada tratamento, medicamentos completos, conselhos). Tente novamente.',
+
+  'prescription.previewTitle': 'Pré-visualização da receita',
+  'prescription.downloadPdf': 'Baixar PDF',
+  'prescription.creatingPdf': 'Criando PDF...',
+  'prescription.downloadImage': 'Imagem (PNG)',
+  'prescription.creatingImage': 'Criando imagem...',
+  'prescription.pdfError': 'Não foi possível criar o PDF. Tente novamente ou baixe uma imagem.',
+  'prescription.imageError': 'Não foi possível criar a imagem. Tente novamente.',
+  'prescription.streaming': 'Ainda gerando. As seções aparecem à medida que chegam.',
+  'prescription.edit': 'Voltar e editar',
+  'prescription.preview': 'Pré-visualizar receita',
+  'prescription.startNew': 'Começar de novo',
+  'prescription.incomplete': 'Esta receita foi interrompida durante a geração e pode estar sem algumas seções.',
+  'prescription.cancelled': 'A geração foi cancelada. As seções recebidas até agora foram mantidas abaixo e podem estar incompletas.',
+  'prescription.stoppedEarly': '{reason} As seções recebidas até agora foram mantidas abaixo e podem estar incompletas.',
+  'prescription.safetyUnchecked': 'A verificação de segurança não reconheceu nenhum nome de medicamento, então as interações entre medicamentos e ervas não foram verificadas. Confira-as antes de aprovar.',
+  'prescription.disclaimer': 'Esta receita foi gerada por um modelo de IA. Ela tem caráter apenas informativo e não deve ser considerada substituta de aconselhamento, diagnóstico ou tratamento médico profissional. Consulte sempre um profissional de saúde qualificado antes de tomar qualquer decisão sobre sua saúde ou iniciar um novo tratamento.',
+
+  'review.draft': 'Rascunho sugerido pela IA.',
+  'review.draftHint': 'Um profissional precisa revisá-lo e aprová-lo antes da entrega.',
+  'review.edit': 'Editar receita',
+  'review.doneEditing': 'Concluir edição',
+  'review.notes': 'Notas da revisão',
+  'review.notesPlaceholder': 'Notas para o paciente ou o prontuário (opcional)',
+  'review.reviewerName': 'Nome do revisor',
+  'review.approve': 'Aprovar e assinar',
+  'review.approvedBy': 'Aprovado por {name} em {date}.',
+  'review.includesEdits': 'Inclui alterações do profissional.',
+  'review.revoke': 'Revogar aprovação',
+  'review.revokeConfirm': 'Revogar a aprovação e voltar esta receita para rascunho?',
+  'review.addedByReviewer': 'Adicionado pelo revisor',
+  'review.addMedicine': '+ Adicionar medicamento',
+  'review.instruction': 'Instrução',
+  'review.advice': 'Orientação',
+
+  'compare.layout': 'Layout',
+  'compare.stacked': 'Um após o outro',
+  'compare.sideBySide': 'Lado a lado',
+  'compare.title': 'Comparação das opções',
+  'compare.duration': 'Duração prevista',
+  'compare.medicines': 'Número de medicamentos',
+  'compare.cost': 'Custo aproximado',
+  'compare.evidence': 'Evidência',
+  'compare.cautions': 'Cuidados',
+  'compare.plan': 'Plano',
+  'compare.notStated': 'Não informado',
+  'cost.low': 'Baixo',
+  'cost.moderate': 'Moderado',
+  'cost.high': 'Alto',
+  'evidence.strong': 'Evidência clínica sólida',
+  'evidence.moderate': 'Alguma evidência clínica',
+  'evidence.limited': 'Evidência limitada',
+  'evidence.traditional': 'Uso tradicional, sem testes clínicos',
+
+  'dose.title': 'Tabela de doses',
+  'dose.starting': 'A partir de {date}',
+  'dose.medicine': 'Medicamento',
+  'dose.food': 'Refeições',
+  'dose.days': 'Dias',
+  'dose.day': 'Dia {day}',
+  'dose.asDirected': 'Conforme orientação',
+  'dose.tick': 'Marque cada dose depois de tomá-la e complete todo o tratamento.',
+  'dose.reminderTitle': 'Hora do remédio de {name}',
+  'doseTime.morning': 'Manhã',
+  'doseTime.noon': 'Meio-dia',
+  'doseTime.evening': 'Tarde',
+  'doseTime.night': 'Noite',
+  'food.before': 'Antes das refeições',
+  'food.with': 'Com as refeições',
+  'food.after': 'Depois das refeições',
+  'food.any': 'Com ou sem comida',
+  'dose.startDate': 'Início do tratamento',
+  'dose.print': 'Imprimir tabela',
+  'dose.calendar': 'Adicionar ao calendário',
+  'dose.remind': 'Lembrar-me',
+  'dose.remindersOn': 'Lembretes ativados',
+  'dose.remindersNote': 'Os lembretes só aparecem com este aplicativo aberto. Adicione o tratamento ao calendário para ser avisado no celular.',
+  'dose.remindersBlocked': 'As notificações estão bloqueadas. Permita-as nas configurações do navegador para receber lembretes.',
+  'dose.remindersUnsupported': 'Este navegador não mostra lembretes. Adicione o tratamento ao calendário.',
+
+  'share.button': 'Compartilhar link',
+  'share.title': 'Compartilhar com o paciente',
+  'share.intro': 'A receita fica dentro do próprio link, então nunca é enviada a lugar nenhum. Qualquer pessoa com o link pode lê-la, a menos que você adicione uma frase secreta.',
+  'share.passphrase': 'Frase secreta (opcional)',
+  'share.passphraseHint': 'Informe a frase ao paciente pessoalmente ou por telefone, não na mesma mensagem do link.',
+  'share.create': 'Criar link',
+  'share.creating': 'Criando…',
+  'share.copy': 'Copiar link',
+  'share.copied': 'Copiado',
+  'share.send': 'Enviar…',
+  'share.qrOnPrint': 'O QR code também é impresso na receita e incluído no PDF.',
+  'share.tooLongForQr': 'Esta receita é longa demais para um QR code. Envie o link.',
+  'share.error': 'Não foi possível criar o link neste navegador.',
+  'share.scan': 'Escaneie para abrir este plano no celular',
+  'shared.title': 'Sua receita',
+  'shared.readOnly': 'Cópia somente leitura compartilhada em {date}',
+  'shared.passphrasePrompt': 'Esta receita está protegida. Digite a frase secreta que seu médico lhe deu.',
+  'shared.open': 'Abrir',
+  'shared.opening': 'Abrindo a receita…',
+  'shared.print': 'Imprimir',
+  'shared.wrongPassphrase': 'A frase secreta não está correta.',
+  'shared.invalid': 'Este link está danificado ou incompleto. Peça ao seu médico para enviá-lo novamente.',
+  'shared.unsupported': 'Este navegador não abre receitas compartilhadas. Tente um navegador atualizado.',
+  'shared.openApp': 'Abrir Médico IA',
+
+  'upload.processing': 'Preparando {name}…',
+  'upload.duplicate': 'Já anexado: {names}.',
+  'upload.failed': 'Não foi possível ler: {names}.',
+  'upload.enhance': 'Melhorar foto automaticamente',
+  'upload.cropped': 'Recortada',
+  'upload.straightened': 'Endireitada {degrees}°',
+  'upload.contrast': 'Contraste aumentado',
+  'upload.resized': 'Redimensionada',
+  'upload.notEnhanced': 'Não foi possível melhorar esta foto; ela será enviada como está.',
+  'upload.pagesSelected': '{selected} de {total} páginas serão enviadas',
+  'upload.noPagesSelected': 'Nenhuma página selecionada; este laudo não será enviado',
+  'upload.allPages': 'Selecionar todas',
+  'upload.noPages': 'Nenhuma',
+  'upload.page': 'Página {number}',
+  'upload.noPreview': 'Sem pré-visualização; o PDF inteiro será enviado.',
+
+  'lab.title': 'Resultados laboratoriais',
+  'lab.summary': '({rows} linhas, {abnormal} fora da faixa)',
+  'lab.addRow': '+ Adicionar linha',
+  'lab.hint': 'Confira cada linha com o laudo e corrija erros de leitura antes de gerar o plano.',
+  'lab.test': 'Exame',
+  'lab.value': 'Valor',
+  'lab.unit': 'Unidade',
+  'lab.reference': 'Referência',
+  'lab.referenceRange': 'Faixa de referência',
+  'lab.flag': 'Sinalização',
+  'lab.date': 'Data',
+  'lab.reportDate': 'Data do laudo',
+  'lab.normalized': 'Normalizado',
+  'lab.remove': 'Remover',
+  'lab.removeRow': 'Remover linha',
+  'lab.enteredByStaff': 'Inserido pela equipe',
+  'labFlag.normal': 'Normal',
+  'labFlag.low': 'Baixo',
+  'labFlag.high': 'Alto',
+  'labFlag.critical': 'Crítico',
+
+  'queue.title': 'Fila offline',
+  'queue.offline': 'Você está offline. O formulário continua funcionando; as consultas enviadas entram na fila e são geradas quando a conexão voltar.',
+  'queue.offlineLocal': 'Você está offline. O modelo local continua disponível.',
+  'queue.submit': 'Colocar consulta na fila',
+  'queue.queued': 'A consulta de {name} entrou na fila. Ela será gerada quando a conexão voltar.',
+  'queue.full': 'Não há espaço neste dispositivo para colocar a consulta na fila. Remova alguns relatórios ou itens concluídos e tente novamente.',
+  'queue.willRun': 'As consultas em espera serão geradas automaticamente quando a conexão voltar.',
+  'queue.waiting': 'Aguardando',
+  'queue.processing': 'Gerando',
+  'queue.done': 'Pronta',
+  'queue.failed': 'Falhou',
+  'queue.emergency': 'Emergência',
+  'queue.emergencyHint': 'A triagem encontrou sinais de alerta de emergência. Encaminhe o paciente para atendimento urgente ou continue apenas após revisão.',
+  'queue.open': 'Abrir',
+  'queue.retry': 'Tentar novamente',
+  'queue.continueAnyway': 'Continuar mesmo assim',
+  'queue.clearDone': 'Limpar concluídas',
+  'queue.queuedAt': 'Na fila desde {time}',
+  'queue.missing': 'A consulta gerada não foi encontrada no histórico do paciente.',
+
+  'header.lock': 'Bloquear',
+  'lock.title': 'Digite o PIN da clínica',
+  'lock.subtitle': 'Os registros de pacientes deste dispositivo estão bloqueados.',
+  'lock.setupTitle': 'Defina um PIN da clínica',
+  'lock.setupSubtitle': 'Os registros de pacientes deste dispositivo são criptografados com este PIN. Use pelo menos {min} caracteres.',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'Repita o PIN',
+  'lock.setupNote': 'Os registros não podem ser recuperados sem o PIN.',
+  'lock.unlock': 'Desbloquear',
+  'lock.setup': 'Definir PIN e continuar',
+  'lock.forgot': 'Esqueceu o PIN? Apagar todos os dados deste dispositivo',
+  'lock.resetConfirm': 'Sem o PIN, os registros de pacientes deste dispositivo não podem ser lidos. Apagar todos e definir um novo PIN?',
+  'lock.wrongPin': 'Esse PIN não está correto.',
+  'lock.tooShort': 'O PIN é muito curto.',
+  'lock.mismatch': 'Os dois PINs não coincidem.',
+  'lock.failed': 'Não foi possível abrir os registros de pacientes neste dispositivo.',
+  'consent.label': 'O paciente concorda que seus dados, sintomas e relatórios sejam enviados ao serviço de IA para preparar este plano.',
+  'consent.recorded': 'Consentimento registrado em {time}',
+  'consent.required': 'Registre o consentimento do paciente antes de enviar qualquer coisa ao serviço de IA.',
+  'consent.needed': 'Requer o consentimento do paciente abaixo',
+
+  'redact.open': 'Ocultar dados',
+  'redact.count': '{count} áreas ocultas',
+  'redact.title': 'Ocultar dados de identificação',
+  'redact.instructions': 'Arraste sobre nomes, números de prontuário e endereços para cobri-los. Só a foto coberta é enviada. Selecione uma caixa para removê-la.',
+  'redact.suggest': 'Encontrar com OCR',
+  'redact.suggesting': 'Lendo a foto…',
+  'redact.suggested': '{count} áreas encontradas. Confira a foto caso algo tenha escapado.',
+  'redact.suggestFailed': 'Não foi possível ler a foto. Desenhe as caixas manualmente.',
+  'redact.clear': 'Limpar tudo',
+  'redact.save': 'Salvar',
+  'redact.removeBox': 'Remover esta caixa',
+  'redact.enhanceLocked': 'Limpe as áreas ocultas antes de alterar isto',
+  'privacy.preview': 'Prévia de privacidade',
+  'privacy.title': 'O que será enviado ao serviço de IA',
+  'privacy.intro': 'Isto é tudo o que sairá deste dispositivo. Marcadores como [PATIENT_NAME] são preenchidos novamente só neste dispositivo.',
+  'privacy.settingsHint': 'Escolha nas Configurações quais dados são substituídos.',
+  'privacy.loading': 'Preparando a prévia…',
+  'privacy.failed': 'Não foi possível preparar a prévia.',
+  'privacy.triage': 'Avaliação de urgência',
+  'privacy.prescription': 'Receita',
+  'privacy.triageNote': 'A linha de triagem do pedido de receita depende do resultado da avaliação de urgência.',
+  'privacy.attachments': 'Anexos ({count})',
+  'privacy.pdf': 'Relatório PDF ({size} KB), enviado com o texto. Ocultar áreas só funciona em fotos.',
+
+  'print.date': 'Data',
+  'print.age': 'Idade',
+  'print.district': 'Distrito',
+  'print.cell': 'Celular',
+  'print.condition': 'Queixa',
+  'print.sex': 'Sexo',
+  'print.weight': 'Peso',
+  'print.height': 'Altura',
+  'print.bmi': 'IMC',
+  'print.allergies': 'Alergias',
+  'print.currentMedications': 'Medicamentos em uso',
+  'print.chronicConditions': 'Doenças crônicas',
+  'print.pregnancy': 'Gravidez',
+  'print.tel': 'Tel.',
+  'print.regNo': 'N.º de registro',
+  'print.triage': 'Triagem',
+  'print.overridden': 'O profissional decidiu continuar em {date}.',
+  'print.safetyCheck': 'Verificação de segurança',
+  'print.safetyFlagged': '{count} possível(is) interação(ões) ou contraindicação(ões) sinalizada(s) abaixo. Revise antes de usar.',
+  'print.approvedStamp': 'Revisado e aprovado por {name} em {date}.',
+  'print.draftStamp': 'RASCUNHO SUGERIDO PELA IA — ainda não revisado por um profissional. Não use para tratamento.',
+  'print.practitionerNote': 'Nota do profissional',
+  'print.practitionerNotes': 'Notas do profissional',
+  'print.followUp': 'Perguntas de acompanhamento',
+  'print.question': 'P',
+  'print.answer': 'R',
+  'print.signature': 'Assinatura',
+  'print.reviewingPractitioner': 'Profissional revisor',
+
+  'urgency.emergency': 'Emergência',
+  'urgency.urgent': 'Urgente',
+  'urgency.routine': 'Rotina',
+  'urgencyNote.emergency': 'Procure atendimento de emergência imediatamente.',
+  'urgencyNote.urgent': 'Consulte um médico pessoalmente em até 24 horas.',
+  'urgencyNote.routine': 'Nenhum sinal de alerta detectado.',
+  'severity.major': 'Grave',
+  'severity.moderate': 'Moderado',
+  'severity.minor': 'Leve',
+
+  'chat.title': 'Perguntas sobre esta receita',
+  'chat.includeInPrint': 'Incluir na impressão',
+  'chat.empty': 'Pergunte o que quiser sobre este plano, como "Posso tomar com comida?" ou "E se a febre continuar?". As respostas vêm em {language}.',
+  'chat.placeholder': 'Digite uma pergunta de acompanhamento...',
+  'chat.inputLabel': 'Pergunta de acompanhamento',
+  'chat.ask': 'Perguntar',
+
+  'emergency.title': 'Procure atendimento de emergência agora',
+  'emergency.subtitle': 'Estes sintomas podem ser fatais. Não espere por uma receita online.',
+  'emergency.callForHelp': 'Ligue para pedir ajuda:',
+  'emergency.callForHelpIn': 'Ligue para pedir ajuda em {district}:',
+  'emergency.noContacts': 'Ligue para o número de emergência local ou vá ao pronto-socorro mais próximo.',
+  'emergency.back': 'Voltar ao formulário',
+  'emergency.clinicianConfirm': 'Um profissional de saúde avaliou o paciente pessoalmente e decidiu continuar. Isso ficará registrado na receita.',
+  'emergency.continue': 'Continuar para a receita',
+
+  'settings.aiProvider': 'Provedor de IA',
+  'settings.provider': 'Provedor',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'Servidor compatível com OpenAI (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'Simulação offline (dados de teste, sem rede)',
+  'settings.model': 'Modelo',
+  'settings.serverUrl': 'URL do servidor',
+  'settings.apiKeyGemini': 'Chave de API (opcional, substitui a chave integrada)',
+  'settings.apiKeyOptional': 'Chave de API (opcional)',
+  'settings.apiKeyHint': 'Armazenada apenas neste navegador.',
+  'settings.emergencyNumbers': 'Números de emergência',
+  'settings.emergencyHint': 'Exibidos na tela de emergência. Deixe o distrito em branco para números válidos em todo lugar.',
+  'settings.district': 'Distrito',
+  'settings.allDistricts': 'Todos os distritos',
+  'settings.service': 'Serviço',
+  'settings.number': 'Número',
+  'settings.addNumber': '+ Adicionar número',
+  'settings.security': 'Segurança',
+  'settings.securityHint': 'Os registros de pacientes neste dispositivo são criptografados com o PIN da clínica. Não há como recuperá-los sem ele.',
+  'settings.autoLock': 'Bloquear após inatividade',
+  'settings.oneMinute': '1 minuto',
+  'settings.minutes': '{count} minutos',
+  'settings.currentPin': 'PIN atual',
+  'settings.newPin': 'Novo PIN',
+  'settings.newPinPlaceholder': 'Novo PIN ({min} caracteres ou mais)',
+  'settings.repeatPin': 'Repita o novo PIN',
+  'settings.changePin': 'Alterar PIN',
+  'settings.changingPin': 'Alterando o PIN...',
+  'settings.pinChanged': 'PIN alterado.',
+  'settings.pinFailed': 'Não foi possível alterar o PIN.',
+  'settings.privacy': 'Privacidade',
+  'settings.privacyHint': 'Substituídos por marcadores antes de qualquer envio à IA e restaurados apenas neste dispositivo.',
+  'settings.modalities': 'Modalidades de tratamento',
+  'settings.modalitiesHint': 'Os tipos de tratamento oferecidos no formulário do paciente. As instruções de cada um são enviadas à IA quando ele é selecionado.',
+  'privacyField.name': 'Nome do paciente',
+  'privacyField.cell': 'Número de celular',
+  'privacyField.district': 'Distrito',
+  'privacyField.otherIdentifiers': 'Outros telefones, e-mails e números de documento ou de prontuário na descrição',
+
+  'history.savedLocally': 'Salvo apenas neste dispositivo.',
+  'history.back': 'Voltar',
+  'history.loadFailed': 'Não foi possível abrir o histórico local de pacientes.',
+  'history.search': 'Buscar por nome, celular ou distrito...',
+  'history.noPatients': 'Nenhum paciente salvo ainda.',
+  'history.noMatches': 'Nenhum paciente corresponde à busca.',
+  'history.age': 'Idade: {age}',
+  'history.district': 'Distrito: {district}',
+  'history.cell': 'Celular: {cell}',
+  'history.lastVisit': 'Última consulta: {date}',
+  'history.followUp': 'Consulta de retorno',
+  'history.export': 'Exportar dados do paciente',
+  'history.exportFailed': 'Não foi possível exportar os dados de {name}.',
+  'history.erasePatient': 'Apagar paciente',
+  'history.eraseWarning': 'Isto apaga permanentemente deste dispositivo as consultas, laudos, consultas na fila e lembretes de dose de {name}. Se o paciente pediu uma cópia, exporte os dados antes. Digite o nome do paciente para confirmar.',
+  'history.patientName': 'Nome do paciente',
+  'history.erase': 'Apagar',
+  'history.erased': '{name} apagado: {consultations} consulta(s), {attachments} arquivo(s) de laudo, {queued} consulta(s) na fila e {reminders} lembrete(s) de dose. Verificado em {time} que nada restou neste dispositivo.',
+  'history.eraseFailed': 'Não foi possível apagar {name}.',
+  'history.eraseIncomplete': 'Alguns registros do paciente não puderam ser apagados. Tente novamente.',
+  'history.consultations': 'Consultas',
+  'history.labTrends': 'Evolução dos exames',
+  'history.approved': 'Aprovada',
+  'history.draft': 'Rascunho',
+  'history.reports': '{count} laudo(s)',
+  'history.reopen': 'Reabrir',
+  'history.print': 'Imprimir',
+  'history.delete': 'Excluir',
+  'history.deleteConfirm': 'Excluir a consulta de {date}?',
+  'history.noConsultations': 'Nenhuma consulta registrada.',
+
+  'clinic.imageError': 'Não foi possível ler essa imagem. Use um arquivo PNG ou JPEG.',
+  'clinic.saveError': 'Não foi possível salvar o perfil. Tente imagens menores de logotipo ou assinatura.',
+  'clinic.letterhead': 'Timbre',
+  'clinic.letterheadHint': 'Impresso em cada receita. Armazenado apenas neste navegador.',
+  'clinic.logo': 'Logotipo',
+  'clinic.defaultLogo': 'Logotipo padrão',
+  'clinic.none': 'Nenhuma',
+  'clinic.upload': 'Enviar',
+  'clinic.clinicName': 'Nome da clínica',
+  'clinic.tagline': 'Slogan',
+  'clinic.address': 'Endereço',
+  'clinic.phone': 'Telefone',
+  'clinic.registrationNumber': 'Número de registro',
+  'clinic.prescriber': 'Prescritor',
+  'clinic.practitionerName': 'Profissional revisor',
+  'clinic.signature': 'Assinatura',
+  'clinic.disclaimer': 'Aviso legal',
+  'clinic.disclaimerHint': 'Escrito em inglês e traduzido automaticamente para o idioma de cada paciente. Alterá-lo descarta as traduções salvas.',
+  'clinic.removeTranslation': 'Remover tradução',
+
+  'medEditor.name': 'Medicamento',
+  'medEditor.strength': 'Concentração',
+  'medEditor.dosage': 'Posologia',
+  'medEditor.duration': 'Duração',
+  'medEditor.route': 'Via',
+  'medEditor.notes': 'Observações',
+  'medEditor.mealsNotStated': 'Refeições: não informado',
+  'medEditor.reviewerNote': 'Nota do revisor',
+  'medEditor.reviewerNotePlaceholder': 'Nota do revisor (opcional)',
+  'medEditor.strike': 'Riscar',
+  'medEditor.restore': 'Restaurar',
+  'modality.new': 'Nova modalidade',
+  'modality.offer': 'Oferecer {name}',
+  'modality.patientsOnly': 'Apenas pacientes de {religion}',
+  'modality.edit': 'Editar',
+  'modality.done': 'Concluído',
+  'modality.name': 'Nome (em inglês, também mostrado à IA)',
+  'modality.namePlaceholder': 'ex.: Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'Categoria',
+  'modality.format': 'O plano contém',
+  'modality.offeredTo': 'Oferecido a',
+  'modality.allPatients': 'Todos os pacientes',
+  'modality.rules': 'Instruções para a IA',
+  'modality.rulesPlaceholder': 'O que este plano deve conter e como deve ser escrito.',
+  'modality.conventionalHint': 'Os remédios dos planos convencionais são verificados quanto a interações medicamentosas; todos os outros são verificados como fitoterápicos.',
+  'modality.restore': 'Restaurar padrão',
+  'modality.add': '+ Adicionar modalidade',
+  'modalityCategory.conventional': 'Medicina convencional',
+  'modalityCategory.traditional': 'Tradicional / complementar',
+  'modalityCategory.spiritual': 'Espiritual',
+  'modalityCategory.therapy': 'Terapia',
+  'outputFormat.medications': 'Remédios (nome, concentração, posologia, duração)',
+  'outputFormat.instructions': 'Apenas orientação (sem remédios)',
+  'outputFormat.mixed': 'Remédios e orientação',
+};
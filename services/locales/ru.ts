@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const ru: Messages = {
+  'app.title': 'ИИ-доктор',
+  'header.history': 'История пациентов',
+  'header.clinicProfile': 'Профиль клиники',
+  'header.settings': 'Настройки',
+  'header.uiLanguage': 'Язык интерфейса',
+
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.remove': 'Удалить',
+  'common.save': 'Сохранить',
+
+  'loading.title': 'Консультация с ИИ-доктором...',
+  'loading.subtitle': 'Анализируем документы и составляем ваш план лечения.',
+
+  'form.title': 'Данные пациента',
+  'form.subtitle': 'Укажите свои данные, чтобы получить персональный план.',
+  'form.name': 'Имя',
+  'form.age': 'Возраст',
+  'form.district': 'Район / Город',
+  'form.cell': 'Мобильный телефон (необязательно)',
+  'form.religion': 'Религия',
+  'form.selectReligion': 'Выберите религию',
+  'form.language': 'Предпочитаемый язык',
+  'form.clinicalDetails': 'Клинические данные',
+  'form.clinicalHint': '(необязательно, но рекомендуется для безопасной дозировки)',
+  'form.sex': 'Пол',
+  'form.notSpecified': 'Не указан',
+  'form.weight': 'Вес (кг)',
+  'form.height': 'Рост (см)',
+  'form.pregnancy': 'Беременность / грудное вскармливание',
+  'form.allergies': 'Известные аллергии',
+  'form.allergiesPlaceholder': 'напр. пенициллин, сульфаниламиды, арахис',
+  'form.currentMedications': 'Принимаемые препараты',
+  'form.currentMedicationsPlaceholder': 'напр. метформин 500 мг два раза в день',
+  'form.chronicConditions': 'Хронические заболевания',
+  'form.chronicConditionsPlaceholder': 'напр. диабет, гипертония, астма',
+  'form.recommended': 'Рекомендуется указать: {fields}, чтобы дозы можно было подобрать безопасно.',
+  'form.describeOrUpload': 'Опишите недомогание или загрузите документы',
+  'form.tabSymptoms': 'Описать симптомы',
+  'form.tabUpload': 'Загрузить документы',
+  'form.symptomsPlaceholder': 'Например: у меня температура, кашель и головная боль...',
+  'form.clickToUpload': 'Нажмите, чтобы загрузить',
+  'form.dragAndDrop': 'или перетащите файлы сюда',
+  'form.fileTypes': 'PDF до 20 МБ; фото JPG, PNG, WebP или HEIC до 50 МБ',
+  'form.uploadedFiles': 'Загруженные файлы:',
+  'form.extractLabResults': 'Извлечь результаты анализов ({count})',
+  'form.readingReports': 'Чтение документов...',
+  'form.reportComments': 'Комментарии или вопросы по документам (необязательно)',
+  'form.reportCommentsPlaceholder': 'Поясните ваши документы или задайте конкретные вопросы... напр. «Посмотрите результаты почечных проб во вложенном файле.»',
+  'form.treatmentTypes': 'Выберите вид(ы) лечения',
+  'form.returningPatient': 'Повторный пациент:',
+  'form.includeHistory': 'Учесть предыдущие консультации ({count}) при этом повторном визите.',
+  'form.submit': 'Получить рецепт от ИИ',
+  'form.generating': 'Формирование...',
+
+  'voice.record': 'Записать симптомы',
+  'voice.stop': 'Остановить запись',
+  'voice.recording': 'Идёт запись... {time}',
+  'voice.transcribing': 'Распознаём запись...',
+  'voice.reviewTitle': 'Проверьте, что мы услышали',
+  'voice.reviewHint': 'Исправьте ошибки, прежде чем добавить текст в описание.',
+  'voice.symptoms': 'Услышанные симптомы:',
+  'voice.use': 'Добавить в описание',
+  'voice.discard': 'Отменить',
+  'voice.micError': 'Не удалось использовать микрофон. Разрешите доступ к микрофону в браузере и повторите попытку.',
+  'voice.unsupported': 'Этот браузер не поддерживает голосовой ввод.',
+  'voice.empty': 'В записи не слышно речи. Повторите попытку.',
+  'speech.readAloud': 'Прочитать вслух',
+  'speech.stop': 'Остановить чтение',
+  'speech.noVoice': 'На этом устройстве нет голоса для языка: {language}.',
+
+  'form.tabGuided': 'Пошаговые вопросы',
+  'guided.intro': 'Ответьте на несколько коротких вопросов. Обязателен только основной симптом; пропустите то, в чём не уверены.',
+  'guided.complaint': 'Что беспокоит больше всего?',
+  'guided.duration': 'Как долго это продолжается?',
+  'guided.durationValue': 'Количество',
+  'guided.severity': 'Насколько сильно? (0 = не беспокоит, 10 = невыносимо)',
+  'guided.notRated': 'Пока не оценено',
+  'guided.clear': 'Сбросить',
+  'guided.onset': 'Как это началось?',
+  'guided.location': 'Где это? Нажмите на схему тела или выберите ниже.',
+  'guided.bodyMap': 'Схема тела',
+  'guided.temperature': 'Максимальная измеренная температура (°C)',
+  'guided.painCharacter': 'Какая это боль?',
+  'guided.associated': 'Есть ли что-то из этого?',
+  'guided.tried': 'Что уже пробовали?',
+  'guided.notes': 'Что-то ещё? (необязательно)',
+  'guided.summaryTitle': 'Сводка симптомов',
+  'summary.complaint': 'Жалоба',
+  'summary.duration': 'Длительность',
+  'summary.severity': 'Выраженность',
+  'summary.onset': 'Начало',
+  'summary.location': 'Локализация',
+  'summary.temperature': 'Максимальная температура',
+  'summary.painCharacter': 'Характер боли',
+  'summary.associated': 'Также',
+  'summary.tried': 'Уже пробовали',
+  'summary.notes': 'Примечания',
+  'duration.hours': '{count} ч',
+  'duration.days': '{count} дн.',
+  'duration.weeks': '{count} нед.',
+  'duration.months': '{count} мес.',
+  'durationUnit.hours': 'Часов',
+  'durationUnit.days': 'Дней',
+  'durationUnit.weeks': 'Недель',
+  'durationUnit.months': 'Месяцев',
+  'onset.sudden': 'Внезапно',
+  'onset.gradual': 'Постепенно',
+  'complaint.fever': 'Температура',
+  'complaint.cough': 'Кашель',
+  'complaint.breathing': 'Затруднённое дыхание',
+  'complaint.pain': 'Боль',
+  'complaint.stomach': 'Желудок / пищеварение',
+  'complaint.skin': 'Проблема с кожей',
+  'complaint.urinary': 'Проблемы с мочеиспусканием',
+  'complaint.fatigue': 'Усталость / слабость',
+  'associated.chills': 'Озноб',
+  'associated.sweating': 'Потливость',
+  'associated.bodyAches': 'Ломота в теле',
+  'associated.headache': 'Головная боль',
+  'associated.rash': 'Сыпь',
+  'associated.lossOfAppetite': 'Потеря аппетита',
+  'associated.phlegm': 'Мокрота',
+  'associated.bloodInPhlegm': 'Кровь в мокроте',
+  'associated.soreThroat': 'Боль в горле',
+  'associated.runnyNose': 'Насморк',
+  'associated.wheeze': 'Свистящее дыхание',
+  'associated.chestPain': 'Боль в груди',
+  'associated.swelling': 'Отёк',
+  'associated.numbness': 'Онемение или покалывание',
+  'associated.dizziness': 'Головокружение',
+  'associated.nausea': 'Тошнота',
+  'associated.vomiting': 'Рвота',
+  'associated.diarrhoea': 'Диарея',
+  'associated.bloodInStool': 'Кровь в стуле',
+  'associated.itching': 'Зуд',
+  'associated.burningUrine': 'Жжение при мочеиспускании',
+  'associated.frequentUrination': 'Частое мочеиспускание',
+  'associated.bloodInUrine': 'Кровь в моче',
+  'associated.weightLoss': 'Потеря веса',
+  'painCharacter.sharp': 'Острая / колющая',
+  'painCharacter.dull': 'Тупая / ноющая',
+  'painCharacter.burning': 'Жгучая',
+  'painCharacter.cramping': 'Схваткообразная',
+  'painCharacter.throbbing': 'Пульсирующая',
+  'tried.paracetamol': 'Парацетамол',
+  'tried.ibuprofen': 'Ибупрофен',
+  'tried.antibiotics': 'Антибиотики',
+  'tried.coughSyrup': 'Сироп от кашля',
+  'tried.antacid': 'Антацид',
+  'tried.herbal': 'Травяное средство',
+  'tried.homeRemedy': 'Домашнее средство',
+  'tried.nothing': 'Пока ничего',
+  'body.head': 'Голова',
+  'body.throat': 'Горло / шея',
+  'body.chest': 'Грудь',
+  'body.upperAbdomen': 'Верхняя часть живота',
+  'body.lowerAbdomen': 'Нижняя часть живота',
+  'body.arms': 'Руки',
+  'body.legs': 'Ноги',
+  'body.back': 'Спина',
+  'body.joints': 'Суставы',
+  'body.wholeBody': 'Всё тело',
+
+  'religion.islam': 'Ислам',
+  'religion.christianity': 'Христианство',
+  'religion.hinduism': 'Индуизм',
+  'religion.buddhism': 'Буддизм',
+  'religion.sikhism': 'Сикхизм',
+  'religion.judaism': 'Иудаизм',
+  'religion.bahai': 'Бахаи',
+  'religion.chineseFolk': 'Китайская народная религия',
+  'religion.spiritism': 'Спиритизм',
+  'religion.indigenous': 'Этнические / традиционные религии',
+  'religion.other': 'Другое',
+
+  'treatment.hikmat': 'Хикмат (традиционная фитотерапия)',
+  'treatment.homeopathy': 'Гомеопатия',
+  'treatment.allopathy': 'Аллопатия (врачи-специалисты)',
+  'treatment.islam': 'Коран и Асма уль-Хусна',
+  'treatment.christianity': 'Библейское исцеление и молитва',
+  'treatment.hinduism': 'Аюрведа и мантры',
+  'treatment.buddhism': 'Медитация и песнопения',
+  'treatment.sikhism': 'Чтение Гурбани и сева',
+  'treatment.judaism': 'Изучение Торы и молитва',
+  'treatment.bahai': 'Писания Бахауллы и молитва',
+  'treatment.chineseFolk': 'Почитание предков и травяные средства',
+  'treatment.spiritism': 'Духовное наставничество и исцеление',
+  'treatment.indigenous': 'Традиционные обряды и природное исцеление',
+
+  'sex.female': 'Женский',
+  'sex.male': 'Мужской',
+  'sex.other': 'Другой',
+
+  'pregnancy.none': 'Не беременна и не кормит грудью',
+  'pregnancy.pregnant': 'Беременна',
+  'pregnancy.breastfeeding': 'Кормит грудью',
+  'pregnancy.pregnant-breastfeeding': 'Беременна и кормит грудью',
+
+  'missing.sex': 'пол',
+  'missing.weight': 'вес',
+  'missing.weightChild': 'вес (нужен для детской дозировки)',
+  'missing.allergies': 'известные аллергии',
+  'missing.currentMedications': 'принимаемые препараты',
+  'missing.pregnancyStatus': 'статус беременности',
+
+  'validation.weightRange': 'Укажите вес от 0,5 до 350 кг.',
+  'validation.weightInfant': 'Этот вес кажется слишком большим для младенца. Пожалуйста, проверьте.',
+  'validation.heightRange': 'Укажите рост от 30 до 250 см.',
+  'validation.pregnancyMismatch': 'Беременность или грудное вскармливание не соответствует указанному полу или возрасту.',
+  'validation.tooLong': 'Пожалуйста, не более {max} символов.',
+
+  'error.requiredFields': 'Заполните все обязательные поля, опишите симптомы или загрузите документ и выберите хотя бы один вид лечения.',
+  'error.clinicalDetails': 'Исправьте отмеченные клинические данные.',
+  'error.invalidFiles': 'Некоторые файлы недопустимы. Принимаются только PDF до 20 МБ и фото JPG, PNG, WebP или HEIC до 50 МБ.',
+  'error.quota': 'Достигнут лимит использования сервиса ИИ. Подождите минуту и повторите попытку или проверьте тариф ключа API в настройках.',
+  'error.safety': 'Сервис ИИ отказался отвечать на этот запрос. Переформулируйте описание и повторите попытку.',
+  'error.network': 'Не удалось связаться с сервисом ИИ. Проверьте подключение к интернету и повторите попытку.',
+  'error.unavailable': 'Сервис ИИ сейчас занят или недоступен. Повторите попытку через несколько минут.',
+  'error.invalidOutput': 'ИИ несколько раз вернул рецепт, не соответствующий правилам (язык, план для каждого лечения, полные данные о лекарствах, советы). Повторите попытку.',
+
+  'prescription.previewTitle': 'Предпросмотр рецепта',
+  'prescription.downloadPdf': 'Скачать PDF',
+  'prescription.creatingPdf': 'Создание PDF...',
+  'prescription.downloadImage': 'Изображение (PNG)',
+  'prescription.creatingImage': 'Создание изображения...',
+  'prescription.pdfError': 'Не удалось создать PDF. Повторите попытку или скачайте изображение.',
+  'prescription.imageError': 'Не удалось создать изображение. Повторите попытку.',
+  'prescription.streaming': 'Рецепт ещё формируется. Разделы появляются по мере готовности.',
+  'prescription.edit': 'Вернуться и изменить',
+  'prescription.preview': 'Предпросмотр рецепта',
+  'prescription.startNew': 'Начать заново',
+  'prescription.incomplete': 'Формирование этого рецепта было прервано, некоторые разделы могут отсутствовать.',
+  'prescription.cancelled': 'Формирование отменено. Полученные разделы сохранены ниже и могут быть неполными.',
+  'prescription.stoppedEarly': '{reason} Полученные разделы сохранены ниже и могут быть неполными.',
+  'prescription.safetyUnchecked': 'Проверка безопасности не распознала ни одного названия лекарства, поэтому взаимодействия лекарств и трав не проверены. Проверьте их сами перед утверждением.',
+  'prescription.disclaimer': 'Этот рецепт создан моделью искусственного интеллекта. Он носит исключительно информационный характер и не заменяет профессиональную медицинскую консультацию, диагностику или лечение. Перед принятием любых решений о здоровье или началом нового лечения всегда консультируйтесь с квалифицированным медицинским специалистом.',
+
+  'review.draft': 'Черновик, предложенный ИИ.',
+  'review.draftHint': 'Перед выдачей его должен проверить и утвердить врач.',
+  'review.edit': 'Редактировать назначение',
+  'review.doneEditing': 'Завершить редактирование',
+  'review.notes': 'Заметки проверки',
+  'review.notesPlaceholder': 'Заметки для пациента или карты (необязательно)',
+  'review.reviewerName': 'Имя проверяющего',
+  'review.approve': 'Утвердить и подписать',
+  'review.approvedBy': 'Утверждено: {name}, {date}.',
+  'review.includesEdits': 'Содержит правки врача.',
+  'review.revoke': 'Отозвать утверждение',
+  'review.revokeConfirm': 'Отозвать утверждение и вернуть назначение в черновик?',
+  'review.addedByReviewer': 'Добавлено проверяющим',
+  'review.addMedicine': '+ Добавить препарат',
+  'review.instruction': 'Указание',
+  'review.advice': 'Совет',
+
+  'compare.layout': 'Вид',
+  'compare.stacked': 'Друг за другом',
+  'compare.sideBySide': 'Рядом',
+  'compare.title': 'Сравнение вариантов',
+  'compare.duration': 'Ожидаемая длительность',
+  'compare.medicines': 'Количество лекарств',
+  'compare.cost': 'Примерная стоимость',
+  'compare.evidence': 'Доказательность',
+  'compare.cautions': 'Меры предосторожности',
+  'compare.plan': 'План',
+  'compare.notStated': 'Не указано',
+  'cost.low': 'Низкая',
+  'cost.moderate': 'Средняя',
+  'cost.high': 'Высокая',
+  'evidence.strong': 'Надёжные клинические данные',
+  'evidence.moderate': 'Некоторые клинические данные',
+  'evidence.limited': 'Ограниченные данные',
+  'evidence.traditional': 'Традиционное применение, клинически не проверено',
+
+  'dose.title': 'График приёма',
+  'dose.starting': 'Начало: {date}',
+  'dose.medicine': 'Лекарство',
+  'dose.food': 'Еда',
+  'dose.days': 'Дни',
+  'dose.day': 'День {day}',
+  'dose.asDirected': 'По указанию',
+  'dose.tick': 'Отмечайте каждый приём и пройдите курс до конца.',
+  'dose.reminderTitle': 'Время лекарства: {name}',
+  'doseTime.morning': 'Утро',
+  'doseTime.noon': 'День',
+  'doseTime.evening': 'Вечер',
+  'doseTime.night': 'Ночь',
+  'food.before': 'До еды',
+  'food.with': 'Во время еды',
+  'food.after': 'После еды',
+  'food.any': 'Независимо от еды',
+  'dose.startDate': 'Начало курса',
+  'dose.print': 'Печать графика',
+  'dose.calendar': 'Добавить в календарь',
+  'dose.remind': 'Напоминать',
+  'dose.remindersOn': 'Напоминания включены',
+  'dose.remindersNote': 'Напоминания появляются, только пока приложение открыто. Добавьте курс в календарь, чтобы получать напоминания на телефоне.',
+  'dose.remindersBlocked': 'Уведомления заблокированы. Разрешите их в настройках браузера, чтобы получать напоминания.',
+  'dose.remindersUnsupported': 'Этот браузер не поддерживает напоминания. Добавьте курс в календарь.',
+
+  'share.button': 'Поделиться ссылкой',
+  'share.title': 'Отправить пациенту',
+  'share.intro': 'Рецепт хранится в самой ссылке и никуда не загружается. Любой, у кого есть ссылка, сможет его прочитать, если не задать кодовую фразу.',
+  'share.passphrase': 'Кодовая фраза (необязательно)',
+  'share.passphraseHint': 'Сообщите фразу пациенту лично или по телефону, а не в одном сообщении со ссылкой.',
+  'share.create': 'Создать ссылку',
+  'share.creating': 'Создание…',
+  'share.copy': 'Копировать ссылку',
+  'share.copied': 'Скопировано',
+  'share.send': 'Отправить…',
+  'share.qrOnPrint': 'QR-код также печатается на рецепте и добавляется в PDF.',
+  'share.tooLongForQr': 'Рецепт слишком длинный для QR-кода. Отправьте ссылку.',
+  'share.error': 'Не удалось создать ссылку в этом браузере.',
+  'share.scan': 'Отсканируйте, чтобы открыть план на телефоне',
+  'shared.title': 'Ваш рецепт',
+  'shared.readOnly': 'Копия только для чтения от {date}',
+  'shared.passphrasePrompt': 'Рецепт защищён. Введите кодовую фразу, которую дал врач.',
+  'shared.open': 'Открыть',
+  'shared.opening': 'Открываем рецепт…',
+  'shared.print': 'Печать',
+  'shared.wrongPassphrase': 'Неверная кодовая фраза.',
+  'shared.invalid': 'Ссылка повреждена или неполная. Попросите врача отправить её снова.',
+  'shared.unsupported': 'Этот браузер не открывает общие рецепты. Попробуйте обновлённый браузер.',
+  'shared.openApp': 'Открыть ИИ-доктора',
+
+  'upload.processing': 'Подготовка {name}…',
+  'upload.duplicate': 'Уже добавлено: {names}.',
+  'upload.failed': 'Не удалось прочитать: {names}.',
+  'upload.enhance': 'Автоулучшение фото',
+  'upload.cropped': 'Обрезано',
+  'upload.straightened': 'Выровнено на {degrees}°',
+  'upload.contrast': 'Контраст усилен',
+  'upload.resized': 'Уменьшено',
+  'upload.notEnhanced': 'Фото не удалось улучшить, оно будет отправлено как есть.',
+  'upload.pagesSelected': 'Будет отправлено страниц: {selected} из {total}',
+  'upload.noPagesSelected': 'Страницы не выбраны; отчёт не будет отправлен',
+  'upload.allPages': 'Выбрать все',
+  'upload.noPages': 'Снять выбор',
+  'upload.page': 'Страница {number}',
+  'upload.noPreview': 'Предпросмотр недоступен; будет отправлен весь PDF.',
+
+  'lab.title': 'Результаты анализов',
+  'lab.summary': '(строк: {rows}, вне нормы: {abnormal})',
+  'lab.addRow': '+ Добавить строку',
+  'lab.hint': 'Сверьте каждую строку с отчётом и исправьте ошибки распознавания, прежде чем составлять план.',
+  'lab.test': 'Показатель',
+  'lab.value': 'Значение',
+  'lab.unit': 'Единицы',
+  'lab.reference': 'Норма',
+  'lab.referenceRange': 'Референсный диапазон',
+  'lab.flag': 'Отметка',
+  'lab.date': 'Дата',
+  'lab.reportDate': 'Дата отчёта',
+  'lab.normalized': 'В стандартных единицах',
+  'lab.remove': 'Удалить',
+  'lab.removeRow': 'Удалить строку',
+  'lab.enteredByStaff': 'Введено персоналом',
+  'labFlag.normal': 'Норма',
+  'labFlag.low': 'Понижено',
+  'labFlag.high': 'Повышено',
+  'labFlag.critical': 'Критично',
+
+  'queue.title': 'Офлайн-очередь',
+  'queue.offline': 'Нет подключения к сети. Форма по-прежнему работает; отправленные консультации ставятся в очередь и будут обработаны, когда связь восстановится.',
+  'queue.offlineLocal': 'Нет подключения к сети. Локальная модель по-прежнему доступна.',
+  'queue.submit': 'Поставить консультацию в очередь',
+  'queue.queued': 'Консультация для {name} поставлена в очередь. Она будет обработана, когда связь восстановится.',
+  'queue.full': 'На устройстве не осталось места, чтобы поставить консультацию в очередь. Удалите часть отчётов или завершённые записи и попробуйте снова.',
+  'queue.willRun': 'Ожидающие консультации будут обработаны автоматически, когда связь восстановится.',
+  'queue.waiting': 'Ожидает',
+  'queue.processing': 'Обрабатывается',
+  'queue.done': 'Готово',
+  'queue.failed': 'Ошибка',
+  'queue.emergency': 'Экстренно',
+  'queue.emergencyHint': 'При сортировке выявлены тревожные признаки. Направьте пациента за экстренной помощью или продолжайте только после проверки.',
+  'queue.open': 'Открыть',
+  'queue.retry': 'Повторить',
+  'queue.continueAnyway': 'Всё равно продолжить',
+  'queue.clearDone': 'Убрать завершённые',
+  'queue.queuedAt': 'В очереди с {time}',
+  'queue.missing': 'Созданная консультация не найдена в истории пациента.',
+
+  'header.lock': 'Заблокировать',
+  'lock.title': 'Введите PIN клиники',
+  'lock.subtitle': 'Записи пациентов на этом устройстве заблокированы.',
+  'lock.setupTitle': 'Задайте PIN клиники',
+  'lock.setupSubtitle': 'Записи пациентов на этом устройстве шифруются этим PIN-кодом. Используйте не менее {min} символов.',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'Повторите PIN',
+  'lock.setupNote': 'Без PIN-кода записи восстановить невозможно.',
+  'lock.unlock': 'Разблокировать',
+  'lock.setup': 'Задать PIN и продолжить',
+  'lock.forgot': 'Забыли PIN? Стереть все данные на этом устройстве',
+  'lock.resetConfirm': 'Без PIN-кода записи пациентов на этом устройстве прочитать нельзя. Стереть их все и задать новый PIN?',
+  'lock.wrongPin': 'Неверный PIN.',
+  'lock.tooShort': 'PIN слишком короткий.',
+  'lock.mismatch': 'PIN-коды не совпадают.',
+  'lock.failed': 'Не удалось открыть записи пациентов на этом устройстве.',
+  'consent.label': 'Пациент согласен на передачу своих данных, симптомов и отчётов сервису ИИ для составления этого плана.',
+  'consent.recorded': 'Согласие записано {time}',
+  'consent.required': 'Запишите согласие пациента, прежде чем что-либо отправлять сервису ИИ.',
+  'consent.needed': 'Нужно согласие пациента (ниже)',
+
+  'redact.open': 'Скрыть данные',
+  'redact.count': 'Скрыто областей: {count}',
+  'redact.title': 'Скрыть персональные данные',
+  'redact.instructions': 'Проведите по именам, номерам карт и адресам, чтобы закрыть их. Отправляется только закрытое фото. Выберите рамку, чтобы удалить её.',
+  'redact.suggest': 'Найти с помощью OCR',
+  'redact.suggesting': 'Чтение фото…',
+  'redact.suggested': 'Найдено областей: {count}. Проверьте фото — возможно, что-то пропущено.',
+  'redact.suggestFailed': 'Не удалось прочитать фото. Нарисуйте рамки вручную.',
+  'redact.clear': 'Очистить всё',
+  'redact.save': 'Сохранить',
+  'redact.removeBox': 'Удалить эту рамку',
+  'redact.enhanceLocked': 'Сначала удалите скрытые области',
+  'privacy.preview': 'Проверка конфиденциальности',
+  'privacy.title': 'Что будет отправлено в сервис ИИ',
+  'privacy.intro': 'Это всё, что покинет устройство. Заполнители вроде [PATIENT_NAME] заменяются обратно только на этом устройстве.',
+  'privacy.settingsHint': 'Выберите в настройках, какие данные заменяются.',
+  'privacy.loading': 'Подготовка…',
+  'privacy.failed': 'Не удалось подготовить просмотр.',
+  'privacy.triage': 'Оценка срочности',
+  'privacy.prescription': 'Рецепт',
+  'privacy.triageNote': 'Строка о сортировке в запросе рецепта зависит от результата оценки срочности.',
+  'privacy.attachments': 'Вложения ({count})',
+  'privacy.pdf': 'PDF-отчёт ({size} КБ) отправляется вместе с текстом. Скрытие областей работает только для фото.',
+
+  'print.date': 'Дата',
+  'print.age': 'Возраст',
+  'print.district': 'Район',
+  'print.cell': 'Телефон',
+  'print.condition': 'Состояние',
+  'print.sex': 'Пол',
+  'print.weight': 'Вес',
+  'print.height': 'Рост',
+  'print.bmi': 'ИМТ',
+  'print.allergies': 'Аллергии',
+  'print.currentMedications': 'Принимаемые препараты',
+  'print.chronicConditions': 'Хронические заболевания',
+  'print.pregnancy': 'Беременность',
+  'print.tel': 'Тел.',
+  'print.regNo': 'Рег. №',
+  'print.triage': 'Сортировка',
+  'print.overridden': 'Врач решил продолжить: {date}.',
+  'print.safetyCheck': 'Проверка безопасности',
+  'print.safetyFlagged': 'Ниже отмечено возможных взаимодействий или противопоказаний: {count}. Проверьте их перед применением.',
+  'print.approvedStamp': 'Проверено и утверждено: {name}, {date}.',
+  'print.draftStamp': 'ЧЕРНОВИК, ПРЕДЛОЖЕННЫЙ ИИ — ещё не проверен врачом. Не используйте для лечения.',
+  'print.practitionerNote': 'Примечание врача',
+  'print.practitionerNotes': 'Заметки врача',
+  'print.followUp': 'Дополнительные вопросы',
+  'print.question': 'В',
+  'print.answer': 'О',
+  'print.signature': 'Подпись',
+  'print.reviewingPractitioner': 'Проверяющий врач',
+
+  'urgency.emergency': 'Экстренно',
+  'urgency.urgent': 'Срочно',
+  'urgency.routine': 'Планово',
+  'urgencyNote.emergency': 'Немедленно обратитесь за неотложной помощью.',
+  'urgencyNote.urgent': 'Обратитесь к врачу лично в течение 24 часов.',
+  'urgencyNote.routine': 'Тревожных симптомов не выявлено.',
+  'severity.major': 'Серьёзно',
+  'severity.moderate': 'Умеренно',
+  'severity.minor': 'Незначительно',
+
+  'chat.title': 'Вопросы по этому рецепту',
+  'chat.includeInPrint': 'Включить в печать',
+  'chat.empty': 'Спросите что угодно об этом плане, например «Можно ли принимать во время еды?» или «Что делать, если температура не спадает?». Ответы приходят на языке: {language}.',
+  'chat.placeholder': 'Введите уточняющий вопрос...',
+  'chat.inputLabel': 'Уточняющий вопрос',
+  'chat.ask': 'Спросить',
+
+  'emergency.title': 'Немедленно обратитесь за неотложной помощью',
+  'emergency.subtitle': 'Эти симптомы могут угрожать жизни. Не ждите рецепта онлайн.',
+  'emergency.callForHelp': 'Позвоните за помощью:',
+  'emergency.callForHelpIn': 'Позвоните за помощью ({district}):',
+  'emergency.noContacts': 'Позвоните по местному номеру экстренной помощи или обратитесь в приёмное отделение ближайшей больницы.',
+  'emergency.back': 'Вернуться к форме',
+  'emergency.clinicianConfirm': 'Врач лично осмотрел пациента и решил продолжить. Это будет отмечено в рецепте.',
+  'emergency.continue': 'Продолжить к рецепту',
+
+  'settings.aiProvider': 'Поставщик ИИ',
+  'settings.provider': 'Поставщик',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'Сервер, совместимый с OpenAI (OpenAI, Ollama, llama.cpp)',
+  'settings.providerMock': 'Офлайн-имитация (готовые ответы, без сети)',
+  'settings.model': 'Модель',
+  'settings.serverUrl': 'URL сервера',
+  'settings.apiKeyGemini': 'Ключ API (необязательно, заменяет встроенный ключ)',
+  'settings.apiKeyOptional': 'Ключ API (необязательно)',
+  'settings.apiKeyHint': 'Хранится только в этом браузере.',
+  'settings.emergencyNumbers': 'Экстренные номера',
+  'settings.emergencyHint': 'Показываются на экране экстренной помощи. Оставьте район пустым для номеров, действующих везде.',
+  'settings.district': 'Район',
+  'settings.allDistricts': 'Все районы',
+  'settings.service': 'Служба',
+  'settings.number': 'Номер',
+  'settings.addNumber': '+ Добавить номер',
+  'settings.security': 'Безопасность',
+  'settings.securityHint': 'Записи пациентов на этом устройстве зашифрованы PIN-кодом клиники. Без него восстановить их невозможно.',
+  'settings.autoLock': 'Блокировать при бездействии',
+  'settings.oneMinute': '1 минута',
+  'settings.minutes': '{count} мин',
+  'settings.currentPin': 'Текущий PIN',
+  'settings.newPin': 'Новый PIN',
+  'settings.newPinPlaceholder': 'Новый PIN (не менее {min} символов)',
+  'settings.repeatPin': 'Повторите новый PIN',
+  'settings.changePin': 'Сменить PIN',
+  'settings.changingPin': 'Смена PIN...',
+  'settings.pinChanged': 'PIN изменён.',
+  'settings.pinFailed': 'Не удалось сменить PIN.',
+  'settings.privacy': 'Конфиденциальность',
+  'settings.privacyHint': 'Заменяются заглушками перед отправкой в ИИ и восстанавливаются только на этом устройстве.',
+  'settings.modalities': 'Виды лечения',
+  'settings.modalitiesHint': 'Виды лечения, предлагаемые в форме пациента. Указания выбранного вида отправляются ИИ.',
+  'privacyField.name': 'Имя пациента',
+  'privacyField.cell': 'Мобильный телефон',
+  'privacyField.district': 'Район',
+  'privacyField.otherIdentifiers': 'Другие телефоны, адреса эл. почты и номера документов или карт в описании',
+
+  'history.savedLocally': 'Хранится только на этом устройстве.',
+  'history.back': 'Назад',
+  'history.loadFailed': 'Не удалось открыть локальную историю пациентов.',
+  'history.search': 'Поиск по имени, телефону или району...',
+  'history.noPatients': 'Сохранённых пациентов пока нет.',
+  'history.noMatches': 'По вашему запросу пациентов не найдено.',
+  'history.age': 'Возраст: {age}',
+  'history.district': 'Район: {district}',
+  'history.cell': 'Телефон: {cell}',
+  'history.lastVisit': 'Последний визит: {date}',
+  'history.followUp': 'Повторный визит',
+  'history.export': 'Экспортировать данные пациента',
+  'history.exportFailed': 'Не удалось экспортировать данные пациента {name}.',
+  'history.erasePatient': 'Стереть пациента',
+  'history.eraseWarning': 'Это навсегда удалит с устройства консультации, отчёты, консультации в очереди и напоминания о приёме пациента {name}. Если пациент просил копию, сначала экспортируйте данные. Для подтверждения введите имя пациента.',
+  'history.patientName': 'Имя пациента',
+  'history.erase': 'Стереть',
+  'history.erased': 'Пациент {name} стёрт: консультаций — {consultations}, файлов отчётов — {attachments}, консультаций в очереди — {queued}, напоминаний — {reminders}. {time} проверено, что на устройстве ничего не осталось.',
+  'history.eraseFailed': 'Не удалось стереть пациента {name}.',
+  'history.eraseIncomplete': 'Некоторые записи пациента не удалось стереть. Попробуйте ещё раз.',
+  'history.consultations': 'Консультации',
+  'history.labTrends': 'Динамика анализов',
+  'history.approved': 'Утверждено',
+  'history.draft': 'Черновик',
+  'history.reports': 'Отчётов: {count}',
+  'history.reopen': 'Открыть снова',
+  'history.print': 'Печать',
+  'history.delete': 'Удалить',
+  'history.deleteConfirm': 'Удалить консультацию от {date}?',
+  'history.noConsultations': 'Консультаций нет.',
+
+  'clinic.imageError': 'Не удалось прочитать изображение. Используйте файл PNG или JPEG.',
+  'clinic.saveError': 'Не удалось сохранить профиль. Попробуйте изображения логотипа или подписи поменьше.',
+  'clinic.letterhead': 'Бланк',
+  'clinic.letterheadHint': 'Печатается на каждом назначении. Хранится только в этом браузере.',
+  'clinic.logo': 'Логотип',
+  'clinic.defaultLogo': 'Логотип по умолчанию',
+  'clinic.none': 'Нет',
+  'clinic.upload': 'Загрузить',
+  'clinic.clinicName': 'Название клиники',
+  'clinic.tagline': 'Слоган',
+  'clinic.address': 'Адрес',
+  'clinic.phone': 'Телефон',
+  'clinic.registrationNumber': 'Регистрационный номер',
+  'clinic.prescriber': 'Врач, выписывающий назначение',
+  'clinic.practitionerName': 'Проверяющий врач',
+  'clinic.signature': 'Подпись',
+  'clinic.disclaimer': 'Оговорка',
+  'clinic.disclaimerHint': 'Пишется на английском и автоматически переводится на язык каждого пациента. При изменении сохранённые переводы удаляются.',
+  'clinic.removeTranslation': 'Удалить перевод',
+
+  'medEditor.name': 'Лекарство',
+  'medEditor.strength': 'Дозировка',
+  'medEditor.dosage': 'Приём',
+  'medEditor.duration': 'Длительность',
+  'medEditor.route': 'Путь введения',
+  'medEditor.notes': 'Примечания',
+  'medEditor.mealsNotStated': 'Приём пищи: не указано',
+  'medEditor.reviewerNote': 'Заметка проверяющего',
+  'medEditor.reviewerNotePlaceholder': 'Заметка проверяющего (необязательно)',
+  'medEditor.strike': 'Зачеркнуть',
+  'medEditor.restore': 'Вернуть',
+  'modality.new': 'Новый вид',
+  'modality.offer': 'Предлагать: {name}',
+  'modality.patientsOnly': 'Только для пациентов ({religion})',
+  'modality.edit': 'Изменить',
+  'modality.done': 'Готово',
+  'modality.name': 'Название (на английском, его видит и ИИ)',
+  'modality.namePlaceholder': 'например, Unani, Acupuncture, Physiotherapy',
+  'modality.category': 'Категория',
+  'modality.format': 'План содержит',
+  'modality.offeredTo': 'Для кого',
+  'modality.allPatients': 'Все пациенты',
+  'modality.rules': 'Указания для ИИ',
+  'modality.rulesPlaceholder': 'Что должен содержать план и как его писать.',
+  'modality.conventionalHint': 'Средства в планах официальной медицины проверяются на лекарственные взаимодействия, все остальные — как растительные средства.',
+  'modality.restore': 'Вернуть по умолчанию',
+  'modality.add': '+ Добавить вид',
+  'modalityCategory.conventional': 'Официальная медицина',
+  'modalityCategory.traditional': 'Народная / дополнительная',
+  'modalityCategory.spiritual': 'Духовная',
+  'modalityCategory.therapy': 'Терапия',
+  'outputFormat.medications': 'Средства (название, дозировка, приём, длительность)',
+  'outputFormat.instructions': 'Только рекомендации (без средств)',
+  'outputFormat.mixed': 'Средства и рекомендации',
+};
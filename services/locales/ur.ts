@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const ur: Messages = {
+  'app.title': 'اے آئی ڈاکٹر',
+  'header.history': 'مریض کی ہسٹری',
+  'header.clinicProfile': 'کلینک پروفائل',
+  'header.settings': 'ترتیبات',
+  'header.uiLanguage': 'انٹرفیس کی زبان',
+
+  'common.cancel': 'منسوخ کریں',
+  'common.close': 'بند کریں',
+  'common.remove': 'ہٹائیں',
+  'common.save': 'محفوظ کریں',
+
+  'loading.title': 'اے آئی ڈاکٹر سے مشورہ ہو رہا ہے...',
+  'loading.subtitle': 'رپورٹس کا جائزہ لے کر آپ کا علاج کا منصوبہ تیار کیا جا رہا ہے۔',
+
+  'form.title': 'مریض کی معلومات',
+  'form.subtitle': 'ذاتی نوعیت کے منصوبے کے لیے اپنی تفصیلات درج کریں۔',
+  'form.name': 'نام',
+  'form.age': 'عمر',
+  'form.district': 'ضلع / شہر',
+  'form.cell': 'موبائل نمبر (اختیاری)',
+  'form.religion': 'مذہب',
+  'form.selectReligion': 'مذہب منتخب کریں',
+  'form.language': 'پسندیدہ زبان',
+  'form.clinicalDetails': 'طبی تفصیلات',
+  'form.clinicalHint': '(اختیاری، لیکن محفوظ خوراک کے لیے تجویز کردہ)',
+  'form.sex': 'جنس',
+  'form.notSpecified': 'درج نہیں',
+  'form.weight': 'وزن (کلوگرام)',
+  'form.height': 'قد (سینٹی میٹر)',
+  'form.pregnancy': 'حمل / دودھ پلانا',
+  'form.allergies': 'معلوم الرجی',
+  'form.allergiesPlaceholder': 'مثلاً پینسلین، سلفا ادویات، مونگ پھلی',
+  'form.currentMedications': 'موجودہ ادویات',
+  'form.currentMedicationsPlaceholder': 'مثلاً میٹفارمن 500 ملی گرام دن میں دو بار',
+  'form.chronicConditions': 'دائمی بیماریاں',
+  'form.chronicConditionsPlaceholder': 'مثلاً ذیابیطس، بلند فشار خون، دمہ',
+  'form.recommended': 'تجویز: {fields} درج کریں تاکہ خوراک محفوظ طریقے سے طے کی جا سکے۔',
+  'form.describeOrUpload': 'بیماری بیان کریں یا رپورٹس اپ لوڈ کریں',
+  'form.tabSymptoms': 'علامات بیان کریں',
+  'form.tabUpload': 'رپورٹس اپ لوڈ کریں',
+  'form.symptomsPlaceholder': 'مثال کے طور پر: مجھے بخار، کھانسی اور سر درد ہے...',
+  'form.clickToUpload': 'اپ لوڈ کرنے کے لیے کلک کریں',
+  'form.dragAndDrop': 'یا یہاں گھسیٹ کر چھوڑیں',
+  'form.fileTypes': 'PDF زیادہ سے زیادہ 20MB؛ JPG، PNG، WebP یا HEIC تصاویر زیادہ سے زیادہ 50MB',
+  'form.uploadedFiles': 'اپ لوڈ شدہ فائلیں:',
+  'form.extractLabResults': 'لیب کے نتائج نکالیں ({count})',
+  'form.readingReports': 'رپورٹس پڑھی جا رہی ہیں...',
+  'form.reportComments': 'رپورٹس کے بارے میں تبصرے یا سوالات (اختیاری)',
+  'form.reportCommentsPlaceholder': 'اپنی رپورٹس کے بارے میں وضاحت کریں یا مخصوص سوال پوچھیں... مثلاً "منسلک فائل میں میرے گردوں کے ٹیسٹ دیکھیں۔"',
+  'form.treatmentTypes': 'علاج کی قسم منتخب کریں',
+  'form.returningPatient': 'پرانا مریض:',
+  'form.includeHistory': 'اس فالو اپ وزٹ کے لیے پچھلی {count} مشاورتیں شامل کریں۔',
+  'form.submit': 'اے آئی نسخہ حاصل کریں',
+  'form.generating': 'تیار ہو رہا ہے...',
+
+  'voice.record': 'علامات ریکارڈ کریں',
+  'voice.stop': 'ریکارڈنگ روکیں',
+  'voice.recording': 'ریکارڈنگ جاری ہے... {time}',
+  'voice.transcribing': 'ریکارڈنگ سنی جا رہی ہے...',
+  'voice.reviewTitle': 'جو ہم نے سنا اسے جانچیں',
+  'voice.reviewHint': 'تفصیل میں شامل کرنے سے پہلے جو غلط ہو اسے درست کر دیں۔',
+  'voice.symptoms': 'سنی گئی علامات:',
+  'voice.use': 'تفصیل میں شامل کریں',
+  'voice.discard': 'رد کریں',
+  'voice.micError': 'مائیکروفون استعمال نہیں ہو سکا۔ براؤزر میں مائیکروفون کی اجازت دیں اور دوبارہ کوشش کریں۔',
+  'voice.unsupported': 'یہ براؤزر آواز سے اندراج کی سہولت نہیں رکھتا۔',
+  'voice.empty': 'ریکارڈنگ میں کوئی آواز نہیں سنی گئی۔ براہ کرم دوبارہ کوشش کریں۔',
+  'speech.readAloud': 'پڑھ کر سنائیں',
+  'speech.stop': 'سنانا بند کریں',
+  'speech.noVoice': 'اس آلے میں {language} کی آواز موجود نہیں۔',
+
+  'form.tabGuided': 'رہنما سوالات',
+  'guided.intro': 'چند مختصر سوالات کے جواب دیں۔ صرف بنیادی مسئلہ ضروری ہے؛ جس بات کا یقین نہ ہو اسے چھوڑ دیں۔',
+  'guided.complaint': 'بنیادی مسئلہ کیا ہے؟',
+  'guided.duration': 'یہ کب سے ہے؟',
+  'guided.durationValue': 'مقدار',
+  'guided.severity': 'کتنی شدید ہے؟ (0 = کوئی تکلیف نہیں، 10 = ناقابلِ برداشت)',
+  'guided.notRated': 'ابھی درجہ نہیں دیا',
+  'guided.clear': 'صاف کریں',
+  'guided.onset': 'یہ کیسے شروع ہوا؟',
+  'guided.location': 'یہ کہاں ہے؟ جسم پر ٹیپ کریں یا نیچے سے منتخب کریں۔',
+  'guided.bodyMap': 'جسم کا نقشہ',
+  'guided.temperature': 'سب سے زیادہ ناپا گیا بخار (°C)',
+  'guided.painCharacter': 'درد کیسا محسوس ہوتا ہے؟',
+  'guided.associated': 'کیا ان میں سے کوئی اور علامت بھی ہے؟',
+  'guided.tried': 'اب تک کیا آزمایا جا چکا ہے؟',
+  'guided.notes': 'کچھ اور؟ (اختیاری)',
+  'guided.summaryTitle': 'علامات کا خلاصہ',
+  'summary.complaint': 'شکایت',
+  'summary.duration': 'مدت',
+  'summary.severity': 'شدت',
+  'summary.onset': 'آغاز',
+  'summary.location': 'جگہ',
+  'summary.temperature': 'سب سے زیادہ درجۂ حرارت',
+  'summary.painCharacter': 'درد کی نوعیت',
+  'summary.associated': 'ساتھ میں',
+  'summary.tried': 'پہلے آزمایا',
+  'summary.notes': 'نوٹس',
+  'duration.hours': '{count} گھنٹے',
+  'duration.days': '{count} دن',
+  'duration.weeks': '{count} ہفتے',
+  'duration.months': '{count} ماہ',
+  'durationUnit.hours': 'گھنٹے',
+  'durationUnit.days': 'دن',
+  'durationUnit.weeks': 'ہفتے',
+  'durationUnit.months': 'مہینے',
+  'onset.sudden': 'اچانک',
+  'onset.gradual': 'آہستہ آہستہ',
+  'complaint.fever': 'بخار',
+  'complaint.cough': 'کھانسی',
+  'complaint.breathing': 'سانس لینے میں دشواری',
+  'complaint.pain': 'درد',
+  'complaint.stomach': 'پیٹ / ہاضمہ',
+  'complaint.skin': 'جلد کا مسئلہ',
+  'complaint.urinary': 'پیشاب کا مسئلہ',
+  'complaint.fatigue': 'تھکاوٹ / کمزوری',
+  'associated.chills': 'کپکپی',
+  'associated.sweating': 'پسینہ',
+  'associated.bodyAches': 'جسم میں درد',
+  'associated.headache': 'سر درد',
+  'associated.rash': 'دانے / خارش والے نشان',
+  'associated.lossOfAppetite': 'بھوک نہ لگنا',
+  'associated.phlegm': 'بلغم',
+  'associated.bloodInPhlegm': 'بلغم میں خون',
+  'associated.soreThroat': 'گلے میں خراش',
+  'associated.runnyNose': 'ناک بہنا',
+  'associated.wheeze': 'سانس میں سیٹی',
+  'associated.chestPain': 'سینے میں درد',
+  'associated.swelling': 'سوجن',
+  'associated.numbness': 'سن ہونا یا جھنجھناہٹ',
+  'associated.dizziness': 'چکر آنا',
+  'associated.nausea': 'متلی',
+  'associated.vomiting': 'الٹی',
+  'associated.diarrhoea': 'دست',
+  'associated.bloodInStool': 'پاخانے میں خون',
+  'associated.itching': 'خارش',
+  'associated.burningUrine': 'پیشاب میں جلن',
+  'associated.frequentUrination': 'بار بار پیشاب آنا',
+  'associated.bloodInUrine': 'پیشاب میں خون',
+  'associated.weightLoss': 'وزن میں کمی',
+  'painCharacter.sharp': 'تیز / چبھنے والا',
+  'painCharacter.dull': 'ہلکا / مسلسل',
+  'painCharacter.burning': 'جلن والا',
+  'painCharacter.cramping': 'مروڑ والا',
+  'painCharacter.throbbing': 'دھڑکنے والا',
+  'tried.paracetamol': 'پیراسیٹامول',
+  'tried.ibuprofen': 'آئبوپروفین',
+  'tried.antibiotics': 'اینٹی بایوٹکس',
+  'tried.coughSyrup': 'کھانسی کا شربت',
+  'tried.antacid': 'تیزابیت کی دوا',
+  'tried.herbal': 'جڑی بوٹیوں کی دوا',
+  'tried.homeRemedy': 'گھریلو ٹوٹکا',
+  'tried.nothing': 'ابھی کچھ نہیں',
+  'body.head': 'سر',
+  'body.throat': 'گلا / گردن',
+  'body.chest': 'سینہ',
+  'body.upperAbdomen': 'پیٹ کا اوپری حصہ',
+  'body.lowerAbdomen': 'پیٹ کا نچلا حصہ',
+  'body.arms': 'بازو',
+  'body.legs': 'ٹانگیں',
+  'body.back': 'کمر',
+  'body.joints': 'جوڑ',
+  'body.wholeBody': 'پورا جسم',
+
+  'religion.islam': 'اسلام',
+  'religion.christianity': 'عیسائیت',
+  'religion.hinduism': 'ہندو مت',
+  'religion.buddhism': 'بدھ مت',
+  'religion.sikhism': 'سکھ مت',
+  'religion.judaism': 'یہودیت',
+  'religion.bahai': 'بہائی مذہب',
+  'religion.chineseFolk': 'چینی لوک مذہب',
+  'religion.spiritism': 'روحانیت',
+  'religion.indigenous': 'مقامی / قبائلی مذاہب',
+  'religion.other': 'دیگر',
+
+  'treatment.hikmat': 'حکمت (روایتی جڑی بوٹیاں)',
+  'treatment.homeopathy': 'ہومیوپیتھی',
+  'treatment.allopathy': 'ایلوپیتھی (ماہر ڈاکٹر)',
+  'treatment.islam': 'قرآن و اسماء الحسنیٰ',
+  'treatment.christianity': 'بائبل سے شفا اور دعا',
+  'treatment.hinduism': 'آیوروید اور منتر',
+  'treatment.buddhism': 'مراقبہ اور ورد',
+  'treatment.sikhism': 'گربانی کا پاٹھ اور سیوا',
+  'treatment.judaism': 'تورات کا مطالعہ اور دعا',
+  'treatment.bahai': 'بہاء اللہ کی تحریریں اور دعا',
+  'treatment.chineseFolk': 'آبائی تعظیم اور جڑی بوٹیاں',
+  'treatment.spiritism': 'روحانی مشورہ اور شفا',
+  'treatment.indigenous': 'روایتی رسومات اور قدرتی شفا',
+
+  'sex.female': 'عورت',
+  'sex.male': 'مرد',
+  'sex.other': 'دیگر',
+
+  'pregnancy.none': 'نہ حاملہ نہ دودھ پلانے والی',
+  'pregnancy.pregnant': 'حاملہ',
+  'pregnancy.breastfeeding': 'دودھ پلانے والی',
+  'pregnancy.pregnant-breastfeeding': 'حاملہ اور دودھ پلانے والی',
+
+  'missing.sex': 'جنس',
+  'missing.weight': 'وزن',
+  'missing.weightChild': 'وزن (بچوں کی خوراک کے لیے ضروری)',
+  'missing.allergies': 'معلوم الرجی',
+  'missing.currentMedications': 'موجودہ ادویات',
+  'missing.pregnancyStatus': 'حمل کی کیفیت',
+
+  'validation.weightRange': '0.5 سے 350 کلوگرام کے درمیان وزن درج کریں۔',
+  'validation.weightInfant': 'یہ وزن شیر خوار بچے کے لیے بہت زیادہ لگتا ہے۔ براہ کرم دوبارہ دیکھیں۔',
+  'validation.heightRange': '30 سے 250 سینٹی میٹر کے درمیان قد درج کریں۔',
+  'validation.pregnancyMismatch': 'حمل یا دودھ پلانا درج کردہ جنس یا عمر سے مطابقت نہیں رکھتا۔',
+  'validation.tooLong': 'براہ کرم اسے {max} حروف سے کم رکھیں۔',
+
+  'error.requiredFields': 'براہ کرم تمام ضروری خانے پُر کریں، علامات بیان کریں یا رپورٹ اپ لوڈ کریں، اور کم از کم ایک قسم کا علاج منتخب کریں۔',
+  'error.clinicalDetails': 'براہ کرم نمایاں کی گئی طبی تفصیلات درست کریں۔',
+  'error.invalidFiles': 'کچھ فائلیں درست نہیں تھیں۔ صرف 20MB سے کم PDF اور 50MB سے کم JPG، PNG، WebP یا HEIC تصاویر قبول کی جاتی ہیں۔',
+  'error.quota': 'AI سروس کے استعمال کی حد پوری ہو گئی ہے۔ ایک منٹ انتظار کر کے دوبارہ کوشش کریں، یا ترتیبات میں API کلید کا پلان دیکھیں۔',
+  'error.safety': 'AI سروس نے اس درخواست کا جواب دینے سے انکار کر دیا۔ تفصیل کو دوسرے الفاظ میں لکھ کر دوبارہ کوشش کریں۔',
+  'error.network': 'AI سروس تک رسائی نہیں ہو سکی۔ انٹرنیٹ کنکشن چیک کر کے دوبارہ کوشش کریں۔',
+  'error.unavailable': 'AI سروس اس وقت مصروف ہے یا دستیاب نہیں۔ چند منٹ بعد دوبارہ کوشش کریں۔',
+  'error.invalidOutput': 'AI بار بار ایسا نسخہ دیتا رہا جو اصولوں (زبان، ہر علاج کا منصوبہ، مکمل ادویات، مشورے) کے مطابق نہیں تھا۔ براہ کرم دوبارہ کوشش کریں۔',
+
+  'prescription.previewTitle': 'نسخے کا پیش منظر',
+  'prescription.downloadPdf': 'PDF ڈاؤن لوڈ کریں',
+  'prescription.creatingPdf': 'PDF بن رہی ہے...',
+  'prescription.downloadImage': 'تصویر (PNG)',
+  'prescription.creatingImage': 'تصویر بن رہی ہے...',
+  'prescription.pdfError': 'PDF نہیں بن سکی۔ دوبارہ کوشش کریں یا اس کی بجائے تصویر ڈاؤن لوڈ کریں۔',
+  'prescription.imageError': 'تصویر نہیں بن سکی۔ براہ کرم دوبارہ کوشش کریں۔',
+  'prescription.streaming': 'ابھی تیار ہو رہا ہے۔ حصے موصول ہوتے ہی دکھائے جائیں گے۔',
+  'prescription.edit': 'واپس جا کر ترمیم کریں',
+  'prescription.preview': 'نسخے کا پیش منظر',
+  'prescription.startNew': 'نیا شروع کریں',
+  'prescription.incomplete': 'یہ نسخہ تیاری کے دوران ادھورا رہ گیا تھا اور اس کے کچھ حصے غائب ہو سکتے ہیں۔',
+  'prescription.cancelled': 'تیاری منسوخ کر دی گئی۔ اب تک موصول ہونے والے حصے نیچے محفوظ ہیں اور نامکمل ہو سکتے ہیں۔',
+  'prescription.stoppedEarly': '{reason} اب تک موصول ہونے والے حصے نیچے محفوظ ہیں اور نامکمل ہو سکتے ہیں۔',
+  'prescription.safetyUnchecked': 'حفاظتی جانچ کسی بھی دوا کا نام نہیں پہچان سکی، اس لیے دواؤں اور جڑی بوٹیوں کے باہمی اثرات نہیں جانچے گئے۔ منظوری سے پہلے خود جانچ لیں۔',
+  'prescription.disclaimer': 'یہ نسخہ ایک اے آئی ماڈل نے تیار کیا ہے۔ یہ صرف معلومات کے لیے ہے اور اسے پیشہ ورانہ طبی مشورے، تشخیص یا علاج کا متبادل نہ سمجھا جائے۔ صحت سے متعلق کوئی بھی فیصلہ کرنے یا نیا علاج شروع کرنے سے پہلے ہمیشہ کسی مستند معالج سے مشورہ کریں۔',
+
+  'review.draft': 'AI کی مسودہ تجویز۔',
+  'review.draftHint': 'جاری کرنے سے پہلے کسی معالج کا اس کا جائزہ لے کر منظوری دینا ضروری ہے۔',
+  'review.edit': 'نسخے میں ترمیم کریں',
+  'review.doneEditing': 'ترمیم مکمل',
+  'review.notes': 'جائزے کے نوٹس',
+  'review.notesPlaceholder': 'مریض یا ریکارڈ کے لیے نوٹس (اختیاری)',
+  'review.reviewerName': 'جائزہ لینے والے کا نام',
+  'review.approve': 'منظور کریں اور دستخط کریں',
+  'review.approvedBy': '{name} نے {date} کو منظور کیا۔',
+  'review.includesEdits': 'اس میں معالج کی ترامیم شامل ہیں۔',
+  'review.revoke': 'منظوری واپس لیں',
+  'review.revokeConfirm': 'منظوری واپس لے کر اس نسخے کو دوبارہ مسودہ بنا دیں؟',
+  'review.addedByReviewer': 'جائزہ لینے والے نے شامل کیا',
+  'review.addMedicine': '+ دوا شامل کریں',
+  'review.instruction': 'ہدایت',
+  'review.advice': 'مشورہ',
+
+  'compare.layout': 'ترتیب',
+  'compare.stacked': 'ایک کے بعد ایک',
+  'compare.sideBySide': 'ساتھ ساتھ',
+  'compare.title': 'علاج کے طریقوں کا موازنہ',
+  'compare.duration': 'متوقع دورانیہ',
+  'compare.medicines': 'دواؤں کی تعداد',
+  'compare.cost': 'اندازاً خرچ',
+  'compare.evidence': 'سائنسی ثبوت',
+  'compare.cautions': 'احتیاط',
+  'compare.plan': 'علاج',
+  'compare.notStated': 'درج نہیں',
+  'cost.low': 'کم',
+  'cost.moderate': 'درمیانہ',
+  'cost.high': 'زیادہ',
+  'evidence.strong': 'مضبوط طبی ثبوت',
+  'evidence.moderate': 'کچھ طبی ثبوت',
+  'evidence.limited': 'محدود ثبوت',
+  'evidence.traditional': 'روایتی استعمال، طبی طور پر آزمایا نہیں گیا',
+
+  'dose.title': 'خوراک کا چارٹ',
+  'dose.starting': 'آغاز {date}',
+  'dose.medicine': 'دوا',
+  'dose.food': 'کھانا',
+  'dose.days': 'دن',
+  'dose.day': 'دن {day}',
+  'dose.asDirected': 'ہدایت کے مطابق',
+  'dose.tick': 'ہر خوراک لینے کے بعد اس پر نشان لگائیں، اور پورا کورس مکمل کریں۔',
+  'dose.reminderTitle': '{name} کی دوا کا وقت',
+  'doseTime.morning': 'صبح',
+  'doseTime.noon': 'دوپہر',
+  'doseTime.evening': 'شام',
+  'doseTime.night': 'رات',
+  'food.before': 'کھانے سے پہلے',
+  'food.with': 'کھانے کے ساتھ',
+  'food.after': 'کھانے کے بعد',
+  'food.any': 'کھانے کے ساتھ یا بغیر',
+  'dose.startDate': 'کورس کا آغاز',
+  'dose.print': 'خوراک کا چارٹ پرنٹ کریں',
+  'dose.calendar': 'کیلنڈر میں شامل کریں',
+  'dose.remind': 'یاد دہانی کرائیں',
+  'dose.remindersOn': 'یاد دہانی فعال ہے',
+  'dose.remindersNote': 'یاد دہانیاں صرف اس وقت آتی ہیں جب یہ ایپ کھلی ہو۔ فون پر یاد دہانی کے لیے کورس کو اپنے کیلنڈر میں شامل کریں۔',
+  'dose.remindersBlocked': 'نوٹیفکیشنز بند ہیں۔ یاد دہانی کے لیے براؤزر کی ترتیبات میں اجازت دیں۔',
+  'dose.remindersUnsupported': 'یہ براؤزر یاد دہانی نہیں دکھا سکتا۔ اس کے بجائے کورس کو کیلنڈر میں شامل کریں۔',
+
+  'share.button': 'لنک شیئر کریں',
+  'share.title': 'مریض کے ساتھ شیئر کریں',
+  'share.intro': 'نسخہ خود لنک کے اندر محفوظ ہوتا ہے، اس لیے یہ کہیں اپ لوڈ نہیں ہوتا۔ پاس فریز کے بغیر لنک رکھنے والا کوئی بھی اسے پڑھ سکتا ہے۔',
+  'share.passphrase': 'پاس فریز (اختیاری)',
+  'share.passphraseHint': 'پاس فریز مریض کو خود یا فون پر بتائیں، لنک والے پیغام میں نہیں۔',
+  'share.create': 'لنک بنائیں',
+  'share.creating': 'بن رہا ہے…',
+  'share.copy': 'لنک کاپی کریں',
+  'share.copied': 'کاپی ہو گیا',
+  'share.send': 'بھیجیں…',
+  'share.qrOnPrint': 'QR کوڈ نسخے پر بھی پرنٹ ہوتا ہے اور PDF میں شامل ہوتا ہے۔',
+  'share.tooLongForQr': 'یہ نسخہ QR کوڈ کے لیے بہت لمبا ہے۔ اس کے بجائے لنک بھیجیں۔',
+  'share.error': 'اس براؤزر میں لنک نہیں بن سکا۔',
+  'share.scan': 'یہ نسخہ فون پر کھولنے کے لیے اسکین کریں',
+  'shared.title': 'آپ کا نسخہ',
+  'shared.readOnly': '{date} کو شیئر کی گئی نقل (صرف پڑھنے کے لیے)',
+  'shared.passphrasePrompt': 'یہ نسخہ محفوظ ہے۔ ڈاکٹر کا دیا ہوا پاس فریز درج کریں۔',
+  'shared.open': 'کھولیں',
+  'shared.opening': 'نسخہ کھل رہا ہے…',
+  'shared.print': 'پرنٹ کریں',
+  'shared.wrongPassphrase': 'پاس فریز درست نہیں ہے۔',
+  'shared.invalid': 'یہ لنک خراب یا نامکمل ہے۔ ڈاکٹر سے دوبارہ بھیجنے کو کہیں۔',
+  'shared.unsupported': 'یہ براؤزر شیئر کیے گئے نسخے نہیں کھول سکتا۔ نیا براؤزر استعمال کریں۔',
+  'shared.openApp': 'اے آئی ڈاکٹر کھولیں',
+
+  'upload.processing': '{name} تیار ہو رہی ہے…',
+  'upload.duplicate': 'پہلے سے شامل ہے: {names}۔',
+  'upload.failed': 'پڑھی نہیں جا سکی: {names}۔',
+  'upload.enhance': 'تصویر خودکار بہتر کریں',
+  'upload.cropped': 'کاٹی گئی',
+  'upload.straightened': '{degrees}° سیدھی کی گئی',
+  'upload.contrast': 'کنٹراسٹ بڑھایا گیا',
+  'upload.resized': 'سائز کم کیا گیا',
+  'upload.notEnhanced': 'یہ تصویر بہتر نہیں ہو سکی اور جیسی ہے ویسی بھیجی جائے گی۔',
+  'upload.pagesSelected': '{total} میں سے {selected} صفحات بھیجے جائیں گے',
+  'upload.noPagesSelected': 'کوئی صفحہ منتخب نہیں؛ یہ رپورٹ نہیں بھیجی جائے گی',
+  'upload.allPages': 'سب منتخب کریں',
+  'upload.noPages': 'کوئی نہیں',
+  'upload.page': 'صفحہ {number}',
+  'upload.noPreview': 'پیش نظارہ دستیاب نہیں؛ پوری PDF بھیجی جائے گی۔',
+
+  'lab.title': 'لیب رپورٹ کے نتائج',
+  'lab.summary': '({rows} قطاریں، {abnormal} حد سے باہر)',
+  'lab.addRow': '+ قطار شامل کریں',
+  'lab.hint': 'پلان بنانے سے پہلے ہر قطار کو رپورٹ سے ملا کر دیکھیں اور غلط پڑھی گئی چیزیں درست کریں۔',
+  'lab.test': 'ٹیسٹ',
+  'lab.value': 'قدر',
+  'lab.unit': 'اکائی',
+  'lab.reference': 'حوالہ',
+  'lab.referenceRange': 'حوالہ جاتی حد',
+  'lab.flag': 'نشان',
+  'lab.date': 'تاریخ',
+  'lab.reportDate': 'رپورٹ کی تاریخ',
+  'lab.normalized': 'معیاری اکائی میں',
+  'lab.remove': 'ہٹائیں',
+  'lab.removeRow': 'قطار ہٹائیں',
+  'lab.enteredByStaff': 'عملے نے درج کیا',
+  'labFlag.normal': 'نارمل',
+  'labFlag.low': 'کم',
+  'labFlag.high': 'زیادہ',
+  'labFlag.critical': 'تشویشناک',
+
+  'queue.title': 'آف لائن قطار',
+  'queue.offline': 'آپ آف لائن ہیں۔ فارم کام کرتا رہے گا؛ جمع کرائی گئی مشاورتیں قطار میں رکھی جائیں گی اور کنکشن بحال ہونے پر تیار کی جائیں گی۔',
+  'queue.offlineLocal': 'آپ آف لائن ہیں۔ مقامی ماڈل اب بھی دستیاب ہے۔',
+  'queue.submit': 'مشاورت قطار میں شامل کریں',
+  'queue.queued': '{name} کی مشاورت قطار میں شامل کر دی گئی۔ کنکشن بحال ہونے پر یہ تیار کی جائے گی۔',
+  'queue.full': 'اس ڈیوائس پر مشاورت کو قطار میں رکھنے کی جگہ نہیں بچی۔ کچھ رپورٹس یا مکمل شدہ آئٹمز ہٹا کر دوبارہ کوشش کریں۔',
+  'queue.willRun': 'منتظر مشاورتیں کنکشن بحال ہونے پر خود بخود تیار ہو جائیں گی۔',
+  'queue.waiting': 'منتظر',
+  'queue.processing': 'تیار ہو رہی ہے',
+  'queue.done': 'تیار',
+  'queue.failed': 'ناکام',
+  'queue.emergency': 'ایمرجنسی',
+  'queue.emergencyHint': 'ٹرائج میں ایمرجنسی کی علامات ملیں۔ مریض کو فوری علاج کے لیے بھیجیں، یا جائزے کے بعد ہی آگے بڑھیں۔',
+  'queue.open': 'کھولیں',
+  'queue.retry': 'دوبارہ کوشش',
+  'queue.continueAnyway': 'پھر بھی جاری رکھیں',
+  'queue.clearDone': 'مکمل شدہ ہٹائیں',
+  'queue.queuedAt': '{time} کو قطار میں شامل',
+  'queue.missing': 'تیار شدہ مشاورت مریض کی ہسٹری میں نہیں ملی۔',
+
+  'header.lock': 'لاک کریں',
+  'lock.title': 'کلینک کا PIN درج کریں',
+  'lock.subtitle': 'اس ڈیوائس پر مریضوں کے ریکارڈ لاک ہیں۔',
+  'lock.setupTitle': 'کلینک کا PIN مقرر کریں',
+  'lock.setupSubtitle': 'اس ڈیوائس پر مریضوں کے ریکارڈ اسی PIN سے خفیہ کیے جاتے ہیں۔ کم از کم {min} حروف استعمال کریں۔',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': 'PIN دوبارہ درج کریں',
+  'lock.setupNote': 'PIN کے بغیر ریکارڈ واپس حاصل نہیں کیے جا سکتے۔',
+  'lock.unlock': 'کھولیں',
+  'lock.setup': 'PIN مقرر کریں اور جاری رکھیں',
+  'lock.forgot': 'PIN بھول گئے؟ اس ڈیوائس کا تمام ڈیٹا مٹا دیں',
+  'lock.resetConfirm': 'PIN کے بغیر اس ڈیوائس پر مریضوں کے ریکارڈ پڑھے نہیں جا سکتے۔ کیا سب مٹا کر نیا PIN مقرر کریں؟',
+  'lock.wrongPin': 'یہ PIN درست نہیں ہے۔',
+  'lock.tooShort': 'PIN بہت چھوٹا ہے۔',
+  'lock.mismatch': 'دونوں PIN ایک جیسے نہیں ہیں۔',
+  'lock.failed': 'اس ڈیوائس پر مریضوں کے ریکارڈ نہیں کھل سکے۔',
+  'consent.label': 'مریض اس بات پر رضامند ہے کہ یہ منصوبہ تیار کرنے کے لیے ان کی تفصیلات، علامات اور رپورٹس AI سروس کو بھیجی جائیں۔',
+  'consent.recorded': 'رضامندی {time} کو درج کی گئی',
+  'consent.required': 'AI سروس کو کچھ بھی بھیجنے سے پہلے مریض کی رضامندی درج کریں۔',
+  'consent.needed': 'نیچے مریض کی رضامندی درکار ہے',
+
+  'redact.open': 'تفصیلات چھپائیں',
+  'redact.count': '{count} حصے چھپائے گئے',
+  'redact.title': 'شناختی تفصیلات چھپائیں',
+  'redact.instructions': 'نام، ریکارڈ نمبر اور پتے پر کھینچ کر انہیں سیاہ کریں۔ صرف ڈھکی ہوئی تصویر بھیجی جائے گی۔ کسی خانے کو ہٹانے کے لیے اسے منتخب کریں۔',
+  'redact.suggest': 'OCR سے تلاش کریں',
+  'redact.suggesting': 'تصویر پڑھی جا رہی ہے…',
+  'redact.suggested': '{count} حصے ملے۔ تصویر دیکھ لیں کہ کچھ رہ تو نہیں گیا۔',
+  'redact.suggestFailed': 'تصویر نہیں پڑھی جا سکی۔ خانے خود بنائیں۔',
+  'redact.clear': 'سب ہٹائیں',
+  'redact.save': 'محفوظ کریں',
+  'redact.removeBox': 'یہ خانہ ہٹائیں',
+  'redact.enhanceLocked': 'اسے بدلنے سے پہلے چھپائے گئے حصے ہٹائیں',
+  'privacy.preview': 'رازداری کا پیش منظر',
+  'privacy.title': 'AI سروس کو کیا بھیجا جائے گا',
+  'privacy.intro': 'یہ وہ سب کچھ ہے جو اس ڈیوائس سے باہر جائے گا۔ [PATIENT_NAME] جیسے متبادل صرف اسی ڈیوائس پر دوبارہ بھرے جاتے ہیں۔',
+  'privacy.settingsHint': 'کون سی تفصیلات بدلی جائیں، یہ ترتیبات میں منتخب کریں۔',
+  'privacy.loading': 'پیش منظر تیار ہو رہا ہے…',
+  'privacy.failed': 'پیش منظر تیار نہیں ہو سکا۔',
+  'privacy.triage': 'فوری ضرورت کی جانچ',
+  'privacy.prescription': 'نسخہ',
+  'privacy.triageNote': 'نسخے کی درخواست میں ٹرائج والی سطر فوری ضرورت کی جانچ کے نتیجے پر منحصر ہے۔',
+  'privacy.attachments': 'منسلکات ({count})',
+  'privacy.pdf': 'PDF رپورٹ ({size} KB)، اپنی عبارت کے ساتھ بھیجی جائے گی۔ حصے چھپانا صرف تصاویر پر ممکن ہے۔',
+
+  'print.date': 'تاریخ',
+  'print.age': 'عمر',
+  'print.district': 'ضلع',
+  'print.cell': 'موبائل',
+  'print.condition': 'بیماری',
+  'print.sex': 'جنس',
+  'print.weight': 'وزن',
+  'print.height': 'قد',
+  'print.bmi': 'BMI',
+  'print.allergies': 'الرجی',
+  'print.currentMedications': 'موجودہ ادویات',
+  'print.chronicConditions': 'دائمی بیماریاں',
+  'print.pregnancy': 'حمل',
+  'print.tel': 'فون',
+  'print.regNo': 'رجسٹریشن نمبر',
+  'print.triage': 'ترجیحی جانچ',
+  'print.overridden': 'معالج نے {date} کو جاری رکھنے کا فیصلہ کیا۔',
+  'print.safetyCheck': 'حفاظتی جانچ',
+  'print.safetyFlagged': 'نیچے {count} ممکنہ باہمی اثرات یا ممانعتوں کی نشاندہی کی گئی ہے۔ استعمال سے پہلے ان کا جائزہ لیں۔',
+  'print.approvedStamp': '{name} نے {date} کو جائزہ لے کر منظور کیا۔',
+  'print.draftStamp': 'AI کی مسودہ تجویز — ابھی کسی معالج نے جائزہ نہیں لیا۔ علاج کے لیے استعمال نہ کریں۔',
+  'print.practitionerNote': 'معالج کا نوٹ',
+  'print.practitionerNotes': 'معالج کے نوٹس',
+  'print.followUp': 'مزید سوالات',
+  'print.question': 'س',
+  'print.answer': 'ج',
+  'print.signature': 'دستخط',
+  'print.reviewingPractitioner': 'جائزہ لینے والا معالج',
+
+  'urgency.emergency': 'ایمرجنسی',
+  'urgency.urgent': 'فوری',
+  'urgency.routine': 'معمول',
+  'urgencyNote.emergency': 'فوراً ایمرجنسی میں طبی مدد حاصل کریں۔',
+  'urgencyNote.urgent': '24 گھنٹوں کے اندر ڈاکٹر سے خود مل کر معائنہ کروائیں۔',
+  'urgencyNote.routine': 'خطرے کی کوئی علامت نہیں ملی۔',
+  'severity.major': 'شدید',
+  'severity.moderate': 'درمیانہ',
+  'severity.minor': 'معمولی',
+
+  'chat.title': 'اس نسخے کے بارے میں سوالات',
+  'chat.includeInPrint': 'پرنٹ میں شامل کریں',
+  'chat.empty': 'اس منصوبے کے بارے میں کچھ بھی پوچھیں، مثلاً "کیا میں یہ کھانے کے ساتھ لے سکتا ہوں؟" یا "اگر بخار نہ اترے تو؟"۔ جوابات {language} میں ملیں گے۔',
+  'chat.placeholder': 'اپنا سوال لکھیں...',
+  'chat.inputLabel': 'فالو اپ سوال',
+  'chat.ask': 'پوچھیں',
+
+  'emergency.title': 'فوری طور پر ایمرجنسی علاج حاصل کریں',
+  'emergency.subtitle': 'یہ علامات جان لیوا ہو سکتی ہیں۔ آن لائن نسخے کا انتظار نہ کریں۔',
+  'emergency.callForHelp': 'مدد کے لیے کال کریں:',
+  'emergency.callForHelpIn': '{district} میں مدد کے لیے کال کریں:',
+  'emergency.noContacts': 'اپنے مقامی ایمرجنسی نمبر پر کال کریں یا قریبی ہسپتال کی ایمرجنسی میں جائیں۔',
+  'emergency.back': 'فارم پر واپس جائیں',
+  'emergency.clinicianConfirm': 'ایک معالج نے مریض کا خود معائنہ کر کے آگے بڑھنے کا فیصلہ کیا ہے۔ یہ نسخے پر درج کیا جائے گا۔',
+  'emergency.continue': 'نسخے کی طرف بڑھیں',
+
+  'settings.aiProvider': 'AI فراہم کنندہ',
+  'settings.provider': 'فراہم کنندہ',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': 'OpenAI سے مطابقت رکھنے والا سرور (OpenAI، Ollama، llama.cpp)',
+  'settings.providerMock': 'آف لائن نمونہ (پہلے سے تیار جوابات، نیٹ ورک کے بغیر)',
+  'settings.model': 'ماڈل',
+  'settings.serverUrl': 'سرور کا URL',
+  'settings.apiKeyGemini': 'API کلید (اختیاری، پہلے سے موجود کلید کی جگہ لیتی ہے)',
+  'settings.apiKeyOptional': 'API کلید (اختیاری)',
+  'settings.apiKeyHint': 'صرف اسی براؤزر میں محفوظ ہے۔',
+  'settings.emergencyNumbers': 'ایمرجنسی نمبر',
+  'settings.emergencyHint': 'ایمرجنسی اسکرین پر دکھائے جاتے ہیں۔ جو نمبر ہر جگہ کے لیے ہوں ان کا ضلع خالی چھوڑ دیں۔',
+  'settings.district': 'ضلع',
+  'settings.allDistricts': 'تمام اضلاع',
+  'settings.service': 'سروس',
+  'settings.number': 'نمبر',
+  'settings.addNumber': '+ نمبر شامل کریں',
+  'settings.security': 'سیکیورٹی',
+  'settings.securityHint': 'اس ڈیوائس پر مریضوں کے ریکارڈ کلینک PIN سے خفیہ کیے گئے ہیں۔ اس کے بغیر انہیں واپس حاصل کرنے کا کوئی طریقہ نہیں۔',
+  'settings.autoLock': 'غیر فعال رہنے پر لاک کریں',
+  'settings.oneMinute': '1 منٹ',
+  'settings.minutes': '{count} منٹ',
+  'settings.currentPin': 'موجودہ PIN',
+  'settings.newPin': 'نیا PIN',
+  'settings.newPinPlaceholder': 'نیا PIN (کم از کم {min} حروف)',
+  'settings.repeatPin': 'نیا PIN دوبارہ لکھیں',
+  'settings.changePin': 'PIN تبدیل کریں',
+  'settings.changingPin': 'PIN تبدیل ہو رہا ہے...',
+  'settings.pinChanged': 'PIN تبدیل ہو گیا۔',
+  'settings.pinFailed': 'PIN تبدیل نہیں ہو سکا۔',
+  'settings.privacy': 'رازداری',
+  'settings.privacyHint': 'AI کو کچھ بھی بھیجنے سے پہلے ان کی جگہ متبادل لکھ دیے جاتے ہیں، اور اصل معلومات صرف اسی ڈیوائس پر واپس بھری جاتی ہیں۔',
+  'settings.modalities': 'علاج کی اقسام',
+  'settings.modalitiesHint': 'مریض کے فارم پر پیش کی جانے والی علاج کی اقسام۔ جو قسم منتخب ہو اس کی ہدایات AI کو بھیجی جاتی ہیں۔',
+  'privacyField.name': 'مریض کا نام',
+  'privacyField.cell': 'موبائل نمبر',
+  'privacyField.district': 'ضلع',
+  'privacyField.otherIdentifiers': 'تفصیل میں موجود دیگر فون نمبر، ای میل اور شناختی یا ریکارڈ نمبر',
+
+  'history.savedLocally': 'صرف اسی ڈیوائس پر محفوظ ہے۔',
+  'history.back': 'واپس',
+  'history.loadFailed': 'مقامی مریض ہسٹری نہیں کھل سکی۔',
+  'history.search': 'نام، موبائل نمبر یا ضلع سے تلاش کریں...',
+  'history.noPatients': 'ابھی کوئی مریض محفوظ نہیں۔',
+  'history.noMatches': 'آپ کی تلاش سے کوئی مریض نہیں ملا۔',
+  'history.age': 'عمر: {age}',
+  'history.district': 'ضلع: {district}',
+  'history.cell': 'موبائل: {cell}',
+  'history.lastVisit': 'آخری معائنہ: {date}',
+  'history.followUp': 'دوبارہ معائنہ',
+  'history.export': 'مریض کا ڈیٹا ایکسپورٹ کریں',
+  'history.exportFailed': '{name} کا ڈیٹا ایکسپورٹ نہیں ہو سکا۔',
+  'history.erasePatient': 'مریض کو مٹا دیں',
+  'history.eraseWarning': 'اس سے {name} کے معائنے، رپورٹس، قطار میں موجود معائنے اور دوا کی یاد دہانیاں اس ڈیوائس سے ہمیشہ کے لیے مٹ جائیں گی۔ اگر مریض نے نقل مانگی ہو تو پہلے ان کا ڈیٹا ایکسپورٹ کر لیں۔ تصدیق کے لیے مریض کا نام لکھیں۔',
+  'history.patientName': 'مریض کا نام',
+  'history.erase': 'مٹا دیں',
+  'history.erased': '{name} کو مٹا دیا گیا: {consultations} معائنے، {attachments} رپورٹ فائلیں، قطار میں {queued} معائنے اور دوا کی {reminders} یاد دہانیاں۔ {time} پر جانچ لیا گیا کہ اس ڈیوائس پر کچھ باقی نہیں۔',
+  'history.eraseFailed': '{name} کو مٹایا نہیں جا سکا۔',
+  'history.eraseIncomplete': 'مریض کے کچھ ریکارڈ مٹائے نہیں جا سکے۔ دوبارہ کوشش کریں۔',
+  'history.consultations': 'معائنے',
+  'history.labTrends': 'لیب رجحانات',
+  'history.approved': 'منظور شدہ',
+  'history.draft': 'مسودہ',
+  'history.reports': '{count} رپورٹس',
+  'history.reopen': 'دوبارہ کھولیں',
+  'history.print': 'پرنٹ کریں',
+  'history.delete': 'حذف کریں',
+  'history.deleteConfirm': '{date} کا معائنہ حذف کریں؟',
+  'history.noConsultations': 'کوئی معائنہ درج نہیں۔',
+
+  'clinic.imageError': 'یہ تصویر پڑھی نہیں جا سکی۔ براہ کرم PNG یا JPEG فائل استعمال کریں۔',
+  'clinic.saveError': 'پروفائل محفوظ نہیں ہو سکا۔ لوگو یا دستخط کی چھوٹی تصاویر آزمائیں۔',
+  'clinic.letterhead': 'لیٹر ہیڈ',
+  'clinic.letterheadHint': 'ہر نسخے پر چھپتا ہے۔ صرف اسی براؤزر میں محفوظ ہے۔',
+  'clinic.logo': 'لوگو',
+  'clinic.defaultLogo': 'طے شدہ لوگو',
+  'clinic.none': 'کوئی نہیں',
+  'clinic.upload': 'اپ لوڈ کریں',
+  'clinic.clinicName': 'کلینک کا نام',
+  'clinic.tagline': 'ٹیگ لائن',
+  'clinic.address': 'پتہ',
+  'clinic.phone': 'فون',
+  'clinic.registrationNumber': 'رجسٹریشن نمبر',
+  'clinic.prescriber': 'نسخہ لکھنے والا',
+  'clinic.practitionerName': 'جائزہ لینے والا معالج',
+  'clinic.signature': 'دستخط',
+  'clinic.disclaimer': 'دستبرداری',
+  'clinic.disclaimerHint': 'انگریزی میں لکھا جاتا ہے اور ہر مریض کی زبان میں خودکار طور پر ترجمہ ہوتا ہے۔ اسے بدلنے سے محفوظ شدہ ترجمے ختم ہو جاتے ہیں۔',
+  'clinic.removeTranslation': 'ترجمہ ہٹائیں',
+
+  'medEditor.name': 'دوا',
+  'medEditor.strength': 'طاقت',
+  'medEditor.dosage': 'خوراک',
+  'medEditor.duration': 'مدت',
+  'medEditor.route': 'طریقۂ استعمال',
+  'medEditor.notes': 'نوٹس',
+  'medEditor.mealsNotStated': 'کھانا: درج نہیں',
+  'medEditor.reviewerNote': 'جائزہ لینے والے کا نوٹ',
+  'medEditor.reviewerNotePlaceholder': 'جائزہ لینے والے کا نوٹ (اختیاری)',
+  'medEditor.strike': 'کاٹ دیں',
+  'medEditor.restore': 'بحال کریں',
+  'modality.new': 'نئی قسم',
+  'modality.offer': '{name} پیش کریں',
+  'modality.patientsOnly': 'صرف {religion} مریضوں کے لیے',
+  'modality.edit': 'ترمیم کریں',
+  'modality.done': 'مکمل',
+  'modality.name': 'نام (انگریزی میں، AI کو بھی دکھایا جاتا ہے)',
+  'modality.namePlaceholder': 'مثلاً Unani، Acupuncture، Physiotherapy',
+  'modality.category': 'زمرہ',
+  'modality.format': 'پلان میں شامل ہے',
+  'modality.offeredTo': 'کن کے لیے',
+  'modality.allPatients': 'تمام مریض',
+  'modality.rules': 'AI کے لیے ہدایات',
+  'modality.rulesPlaceholder': 'اس پلان میں کیا ہونا چاہیے اور اسے کیسے لکھا جائے۔',
+  'modality.conventionalHint': 'جدید طب کے پلان میں دواؤں کے باہمی اثرات جانچے جاتے ہیں؛ باقی سب کو جڑی بوٹیوں کی دواؤں کے طور پر جانچا جاتا ہے۔',
+  'modality.restore': 'طے شدہ بحال کریں',
+  'modality.add': '+ قسم شامل کریں',
+  'modalityCategory.conventional': 'جدید طب (ایلوپیتھی)',
+  'modalityCategory.traditional': 'روایتی / تکمیلی',
+  'modalityCategory.spiritual': 'روحانی',
+  'modalityCategory.therapy': 'تھراپی',
+  'outputFormat.medications': 'دوائیں (نام، طاقت، خوراک، مدت)',
+  'outputFormat.instructions': 'صرف رہنمائی (دوائیں نہیں)',
+  'outputFormat.mixed': 'دوائیں اور رہنمائی',
+};
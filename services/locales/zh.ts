@@ -0,0 +1,610 @@
+import { Messages } from './en';
+
+export const zh: Messages = {
+  'app.title': 'AI 医生',
+  'header.history': '患者记录',
+  'header.clinicProfile': '诊所资料',
+  'header.settings': '设置',
+  'header.uiLanguage': '界面语言',
+
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.remove': '删除',
+  'common.save': '保存',
+
+  'loading.title': '正在咨询 AI 医生...',
+  'loading.subtitle': '正在分析报告并制定您的健康方案。',
+
+  'form.title': '患者信息',
+  'form.subtitle': '请填写您的信息，以获得个性化方案。',
+  'form.name': '姓名',
+  'form.age': '年龄',
+  'form.district': '地区 / 城市',
+  'form.cell': '手机号（选填）',
+  'form.religion': '宗教',
+  'form.selectReligion': '选择宗教',
+  'form.language': '首选语言',
+  'form.clinicalDetails': '临床信息',
+  'form.clinicalHint': '（选填，但建议填写以确保用药剂量安全）',
+  'form.sex': '性别',
+  'form.notSpecified': '未说明',
+  'form.weight': '体重（公斤）',
+  'form.height': '身高（厘米）',
+  'form.pregnancy': '妊娠 / 哺乳',
+  'form.allergies': '已知过敏',
+  'form.allergiesPlaceholder': '例如：青霉素、磺胺类药物、花生',
+  'form.currentMedications': '当前用药',
+  'form.currentMedicationsPlaceholder': '例如：二甲双胍 500mg 每日两次',
+  'form.chronicConditions': '慢性病',
+  'form.chronicConditionsPlaceholder': '例如：糖尿病、高血压、哮喘',
+  'form.recommended': '建议补充：{fields}，以便安全地确定剂量。',
+  'form.describeOrUpload': '描述病情或上传报告',
+  'form.tabSymptoms': '描述症状',
+  'form.tabUpload': '上传报告',
+  'form.symptomsPlaceholder': '例如：我发烧、咳嗽、头痛...',
+  'form.clickToUpload': '点击上传',
+  'form.dragAndDrop': '或拖放文件到此处',
+  'form.fileTypes': 'PDF 最大 20MB；JPG、PNG、WebP 或 HEIC 照片最大 50MB',
+  'form.uploadedFiles': '已上传的文件：',
+  'form.extractLabResults': '提取化验结果（{count}）',
+  'form.readingReports': '正在读取报告...',
+  'form.reportComments': '关于报告的说明或问题（选填）',
+  'form.reportCommentsPlaceholder': '请说明报告的背景或提出具体问题……例如：“请查看附件中我的肾功能结果。”',
+  'form.treatmentTypes': '选择治疗类型',
+  'form.returningPatient': '复诊患者：',
+  'form.includeHistory': '将之前的 {count} 次问诊作为本次复诊的参考。',
+  'form.submit': '获取 AI 处方',
+  'form.generating': '正在生成...',
+
+  'voice.record': '录制症状',
+  'voice.stop': '停止录音',
+  'voice.recording': '正在录音... {time}',
+  'voice.transcribing': '正在识别录音...',
+  'voice.reviewTitle': '请核对识别内容',
+  'voice.reviewHint': '添加到描述前，请更正任何错误。',
+  'voice.symptoms': '识别到的症状：',
+  'voice.use': '添加到描述',
+  'voice.discard': '放弃',
+  'voice.micError': '无法使用麦克风。请在浏览器中允许麦克风访问后重试。',
+  'voice.unsupported': '此浏览器不支持语音输入。',
+  'voice.empty': '录音中没有听到说话声，请重试。',
+  'speech.readAloud': '朗读',
+  'speech.stop': '停止朗读',
+  'speech.noVoice': '此设备没有{language}语音。',
+
+  'form.tabGuided': '引导问答',
+  'guided.intro': '请回答几个简短的问题。只有主要问题是必填的，不确定的可以跳过。',
+  'guided.complaint': '主要问题是什么？',
+  'guided.duration': '持续多长时间了？',
+  'guided.durationValue': '数量',
+  'guided.severity': '有多严重？（0 = 没有不适，10 = 难以想象的严重）',
+  'guided.notRated': '尚未评分',
+  'guided.clear': '清除',
+  'guided.onset': '是怎么开始的？',
+  'guided.location': '在哪个部位？点击人体图或在下方选择。',
+  'guided.bodyMap': '人体图',
+  'guided.temperature': '测得的最高体温（°C）',
+  'guided.painCharacter': '疼痛是什么感觉？',
+  'guided.associated': '是否还有以下症状？',
+  'guided.tried': '已经尝试过什么？',
+  'guided.notes': '还有其他情况吗？（可选）',
+  'guided.summaryTitle': '症状摘要',
+  'summary.complaint': '主诉',
+  'summary.duration': '持续时间',
+  'summary.severity': '严重程度',
+  'summary.onset': '起病方式',
+  'summary.location': '部位',
+  'summary.temperature': '最高体温',
+  'summary.painCharacter': '疼痛性质',
+  'summary.associated': '伴随症状',
+  'summary.tried': '已尝试',
+  'summary.notes': '备注',
+  'duration.hours': '{count} 小时',
+  'duration.days': '{count} 天',
+  'duration.weeks': '{count} 周',
+  'duration.months': '{count} 个月',
+  'durationUnit.hours': '小时',
+  'durationUnit.days': '天',
+  'durationUnit.weeks': '周',
+  'durationUnit.months': '个月',
+  'onset.sudden': '突然发生',
+  'onset.gradual': '逐渐发生',
+  'complaint.fever': '发热',
+  'complaint.cough': '咳嗽',
+  'complaint.breathing': '呼吸困难',
+  'complaint.pain': '疼痛',
+  'complaint.stomach': '胃部 / 消化',
+  'complaint.skin': '皮肤问题',
+  'complaint.urinary': '排尿问题',
+  'complaint.fatigue': '疲劳 / 乏力',
+  'associated.chills': '发冷',
+  'associated.sweating': '出汗',
+  'associated.bodyAches': '全身酸痛',
+  'associated.headache': '头痛',
+  'associated.rash': '皮疹',
+  'associated.lossOfAppetite': '食欲不振',
+  'associated.phlegm': '有痰',
+  'associated.bloodInPhlegm': '痰中带血',
+  'associated.soreThroat': '咽喉痛',
+  'associated.runnyNose': '流鼻涕',
+  'associated.wheeze': '喘鸣',
+  'associated.chestPain': '胸痛',
+  'associated.swelling': '肿胀',
+  'associated.numbness': '麻木或刺痛',
+  'associated.dizziness': '头晕',
+  'associated.nausea': '恶心',
+  'associated.vomiting': '呕吐',
+  'associated.diarrhoea': '腹泻',
+  'associated.bloodInStool': '便中带血',
+  'associated.itching': '瘙痒',
+  'associated.burningUrine': '排尿灼痛',
+  'associated.frequentUrination': '尿频',
+  'associated.bloodInUrine': '尿中带血',
+  'associated.weightLoss': '体重下降',
+  'painCharacter.sharp': '锐痛 / 刺痛',
+  'painCharacter.dull': '钝痛',
+  'painCharacter.burning': '烧灼痛',
+  'painCharacter.cramping': '绞痛',
+  'painCharacter.throbbing': '搏动性痛',
+  'tried.paracetamol': '对乙酰氨基酚',
+  'tried.ibuprofen': '布洛芬',
+  'tried.antibiotics': '抗生素',
+  'tried.coughSyrup': '止咳糖浆',
+  'tried.antacid': '抗酸药',
+  'tried.herbal': '草药',
+  'tried.homeRemedy': '家庭疗法',
+  'tried.nothing': '尚未尝试',
+  'body.head': '头部',
+  'body.throat': '咽喉 / 颈部',
+  'body.chest': '胸部',
+  'body.upperAbdomen': '上腹部',
+  'body.lowerAbdomen': '下腹部',
+  'body.arms': '手臂',
+  'body.legs': '腿部',
+  'body.back': '背部',
+  'body.joints': '关节',
+  'body.wholeBody': '全身',
+
+  'religion.islam': '伊斯兰教',
+  'religion.christianity': '基督教',
+  'religion.hinduism': '印度教',
+  'religion.buddhism': '佛教',
+  'religion.sikhism': '锡克教',
+  'religion.judaism': '犹太教',
+  'religion.bahai': '巴哈伊信仰',
+  'religion.chineseFolk': '中国民间信仰',
+  'religion.spiritism': '通灵论',
+  'religion.indigenous': '民族 / 原住民宗教',
+  'religion.other': '其他',
+
+  'treatment.hikmat': '希克马特（传统草药）',
+  'treatment.homeopathy': '顺势疗法',
+  'treatment.allopathy': '西医（专科医生）',
+  'treatment.islam': '古兰经与真主九十九尊名',
+  'treatment.christianity': '圣经疗愈与祷告',
+  'treatment.hinduism': '阿育吠陀与曼陀罗',
+  'treatment.buddhism': '禅修与诵经',
+  'treatment.sikhism': '诵读古尔巴尼与服务',
+  'treatment.judaism': '妥拉研读与祈祷',
+  'treatment.bahai': '巴哈欧拉著作与祈祷',
+  'treatment.chineseFolk': '祭祖与草药疗法',
+  'treatment.spiritism': '灵性辅导与疗愈',
+  'treatment.indigenous': '传统仪式与自然疗愈',
+
+  'sex.female': '女',
+  'sex.male': '男',
+  'sex.other': '其他',
+
+  'pregnancy.none': '未怀孕且未哺乳',
+  'pregnancy.pregnant': '怀孕',
+  'pregnancy.breastfeeding': '哺乳期',
+  'pregnancy.pregnant-breastfeeding': '怀孕且哺乳',
+
+  'missing.sex': '性别',
+  'missing.weight': '体重',
+  'missing.weightChild': '体重（儿童用药剂量所需）',
+  'missing.allergies': '已知过敏',
+  'missing.currentMedications': '当前用药',
+  'missing.pregnancyStatus': '妊娠状态',
+
+  'validation.weightRange': '请输入 0.5 到 350 公斤之间的体重。',
+  'validation.weightInfant': '该体重对婴儿来说似乎过高，请核对。',
+  'validation.heightRange': '请输入 30 到 250 厘米之间的身高。',
+  'validation.pregnancyMismatch': '妊娠或哺乳状态与填写的性别或年龄不符。',
+  'validation.tooLong': '请控制在 {max} 个字符以内。',
+
+  'error.requiredFields': '请填写所有必填项，描述症状或上传报告，并至少选择一种治疗类型。',
+  'error.clinicalDetails': '请更正标出的临床信息。',
+  'error.invalidFiles': '部分文件无效。仅接受小于 20MB 的 PDF 以及小于 50MB 的 JPG、PNG、WebP 或 HEIC 照片。',
+  'error.quota': 'AI 服务的使用额度已用完。请等一分钟后重试，或在设置中检查 API 密钥的套餐。',
+  'error.safety': 'AI 服务拒绝回答此请求。请换一种说法描述后重试。',
+  'error.network': '无法连接 AI 服务。请检查网络连接后重试。',
+  'error.unavailable': 'AI 服务当前繁忙或不可用。请几分钟后重试。',
+  'error.invalidOutput': 'AI 多次返回不符合规则（语言、每种疗法的方案、完整的药物信息、建议）的处方。请重试。',
+
+  'prescription.previewTitle': '处方预览',
+  'prescription.downloadPdf': '下载 PDF',
+  'prescription.creatingPdf': '正在生成 PDF...',
+  'prescription.downloadImage': '图片（PNG）',
+  'prescription.creatingImage': '正在生成图片...',
+  'prescription.pdfError': '无法生成 PDF。请重试，或改为下载图片。',
+  'prescription.imageError': '无法生成图片，请重试。',
+  'prescription.streaming': '仍在生成中，各部分内容将陆续显示。',
+  'prescription.edit': '返回修改',
+  'prescription.preview': '预览处方',
+  'prescription.startNew': '重新开始',
+  'prescription.incomplete': '此处方在生成过程中被中断，可能缺少部分内容。',
+  'prescription.cancelled': '已取消生成。已收到的部分保留在下方，可能不完整。',
+  'prescription.stoppedEarly': '{reason} 已收到的部分保留在下方，可能不完整。',
+  'prescription.safetyUnchecked': '安全检查未能识别任何药品名称，因此未检查药物与草药之间的相互作用。请在批准前自行核对。',
+  'prescription.disclaimer': '本处方由人工智能模型生成，仅供参考，不能替代专业的医疗建议、诊断或治疗。在做出任何健康决定或开始任何新的治疗之前，请务必咨询合格的医疗专业人员。',
+
+  'review.draft': 'AI 建议草稿。',
+  'review.draftHint': '必须由执业医师审核并批准后才能发出。',
+  'review.edit': '编辑处方',
+  'review.doneEditing': '完成编辑',
+  'review.notes': '审核备注',
+  'review.notesPlaceholder': '给患者或存档的备注（可选）',
+  'review.reviewerName': '审核人姓名',
+  'review.approve': '批准并签名',
+  'review.approvedBy': '已由 {name} 于 {date} 批准。',
+  'review.includesEdits': '包含医师的修改。',
+  'review.revoke': '撤销批准',
+  'review.revokeConfirm': '要撤销批准并将此处方退回草稿吗？',
+  'review.addedByReviewer': '审核人添加',
+  'review.addMedicine': '+ 添加药物',
+  'review.instruction': '说明',
+  'review.advice': '建议',
+
+  'compare.layout': '布局',
+  'compare.stacked': '逐一显示',
+  'compare.sideBySide': '并排对比',
+  'compare.title': '方案对比',
+  'compare.duration': '预计疗程',
+  'compare.medicines': '药物数量',
+  'compare.cost': '大致费用',
+  'compare.evidence': '证据水平',
+  'compare.cautions': '注意事项',
+  'compare.plan': '方案',
+  'compare.notStated': '未注明',
+  'cost.low': '低',
+  'cost.moderate': '中等',
+  'cost.high': '高',
+  'evidence.strong': '有充分的临床证据',
+  'evidence.moderate': '有一定临床证据',
+  'evidence.limited': '证据有限',
+  'evidence.traditional': '传统用法，未经临床验证',
+
+  'dose.title': '服药表',
+  'dose.starting': '开始日期 {date}',
+  'dose.medicine': '药物',
+  'dose.food': '用餐',
+  'dose.days': '天数',
+  'dose.day': '第 {day} 天',
+  'dose.asDirected': '遵医嘱',
+  'dose.tick': '每次服药后打勾，并坚持完成整个疗程。',
+  'dose.reminderTitle': '{name} 的服药时间',
+  'doseTime.morning': '早上',
+  'doseTime.noon': '中午',
+  'doseTime.evening': '傍晚',
+  'doseTime.night': '晚上',
+  'food.before': '饭前',
+  'food.with': '随餐',
+  'food.after': '饭后',
+  'food.any': '饭前饭后均可',
+  'dose.startDate': '疗程开始',
+  'dose.print': '打印服药表',
+  'dose.calendar': '添加到日历',
+  'dose.remind': '提醒我',
+  'dose.remindersOn': '提醒已开启',
+  'dose.remindersNote': '提醒仅在本应用打开时显示。将疗程添加到日历即可在手机上收到提醒。',
+  'dose.remindersBlocked': '通知已被阻止。请在浏览器设置中允许通知以接收提醒。',
+  'dose.remindersUnsupported': '此浏览器无法显示提醒。请改为将疗程添加到日历。',
+
+  'share.button': '分享链接',
+  'share.title': '与患者分享',
+  'share.intro': '处方保存在链接本身中，不会上传到任何地方。除非设置口令，任何拿到链接的人都能查看。',
+  'share.passphrase': '口令（可选）',
+  'share.passphraseHint': '请当面或电话告知患者口令，不要和链接放在同一条消息里。',
+  'share.create': '生成链接',
+  'share.creating': '正在生成…',
+  'share.copy': '复制链接',
+  'share.copied': '已复制',
+  'share.send': '发送…',
+  'share.qrOnPrint': '二维码也会打印在处方上并包含在 PDF 中。',
+  'share.tooLongForQr': '此处方太长，无法生成二维码。请改为发送链接。',
+  'share.error': '无法在此浏览器中生成链接。',
+  'share.scan': '扫码在手机上查看此方案',
+  'shared.title': '您的处方',
+  'shared.readOnly': '{date} 分享的只读副本',
+  'shared.passphrasePrompt': '此处方受保护。请输入医生给您的口令。',
+  'shared.open': '打开',
+  'shared.opening': '正在打开处方…',
+  'shared.print': '打印',
+  'shared.wrongPassphrase': '口令不正确。',
+  'shared.invalid': '此链接已损坏或不完整。请让医生重新发送。',
+  'shared.unsupported': '此浏览器无法打开分享的处方。请使用最新版浏览器。',
+  'shared.openApp': '打开 AI 医生',
+
+  'upload.processing': '正在处理 {name}…',
+  'upload.duplicate': '已添加：{names}。',
+  'upload.failed': '无法读取：{names}。',
+  'upload.enhance': '自动优化照片',
+  'upload.cropped': '已裁剪',
+  'upload.straightened': '已校正 {degrees}°',
+  'upload.contrast': '已增强对比度',
+  'upload.resized': '已缩小',
+  'upload.notEnhanced': '无法优化此照片，将按原样发送。',
+  'upload.pagesSelected': '将发送 {total} 页中的 {selected} 页',
+  'upload.noPagesSelected': '未选择任何页面；此报告不会发送',
+  'upload.allPages': '全选',
+  'upload.noPages': '全不选',
+  'upload.page': '第 {number} 页',
+  'upload.noPreview': '无法预览；将发送整个 PDF。',
+
+  'lab.title': '化验结果',
+  'lab.summary': '（{rows} 行，{abnormal} 项超出范围）',
+  'lab.addRow': '+ 添加一行',
+  'lab.hint': '生成方案前，请将每一行与报告核对，并更正读错的内容。',
+  'lab.test': '检验项目',
+  'lab.value': '数值',
+  'lab.unit': '单位',
+  'lab.reference': '参考值',
+  'lab.referenceRange': '参考范围',
+  'lab.flag': '标记',
+  'lab.date': '日期',
+  'lab.reportDate': '报告日期',
+  'lab.normalized': '换算后',
+  'lab.remove': '删除',
+  'lab.removeRow': '删除此行',
+  'lab.enteredByStaff': '由工作人员录入',
+  'labFlag.normal': '正常',
+  'labFlag.low': '偏低',
+  'labFlag.high': '偏高',
+  'labFlag.critical': '危急',
+
+  'queue.title': '离线队列',
+  'queue.offline': '您已离线。表单仍可使用；提交的问诊会进入队列，并在网络恢复后生成。',
+  'queue.offlineLocal': '您已离线。本地模型仍可使用。',
+  'queue.submit': '加入队列',
+  'queue.queued': '{name} 的问诊已加入队列，将在网络恢复后生成。',
+  'queue.full': '此设备空间不足，无法将问诊加入队列。请移除部分报告或已完成的项目后重试。',
+  'queue.willRun': '等待中的问诊将在网络恢复后自动生成。',
+  'queue.waiting': '等待中',
+  'queue.processing': '生成中',
+  'queue.done': '已完成',
+  'queue.failed': '失败',
+  'queue.emergency': '紧急',
+  'queue.emergencyHint': '分诊发现紧急警示症状。请将患者转诊急救，或仅在复核后继续。',
+  'queue.open': '打开',
+  'queue.retry': '重试',
+  'queue.continueAnyway': '仍然继续',
+  'queue.clearDone': '清除已完成',
+  'queue.queuedAt': '加入队列于 {time}',
+  'queue.missing': '在患者病史中找不到已生成的问诊。',
+
+  'header.lock': '锁定',
+  'lock.title': '输入诊所 PIN',
+  'lock.subtitle': '此设备上的患者记录已锁定。',
+  'lock.setupTitle': '设置诊所 PIN',
+  'lock.setupSubtitle': '此设备上的患者记录将使用此 PIN 加密。请至少使用 {min} 个字符。',
+  'lock.pin': 'PIN',
+  'lock.confirmPin': '再次输入 PIN',
+  'lock.setupNote': '没有 PIN 将无法恢复记录。',
+  'lock.unlock': '解锁',
+  'lock.setup': '设置 PIN 并继续',
+  'lock.forgot': '忘记 PIN？清除此设备上的所有数据',
+  'lock.resetConfirm': '没有 PIN 将无法读取此设备上的患者记录。要清除全部记录并设置新 PIN 吗？',
+  'lock.wrongPin': 'PIN 不正确。',
+  'lock.tooShort': 'PIN 太短。',
+  'lock.mismatch': '两次输入的 PIN 不一致。',
+  'lock.failed': '无法在此设备上打开患者记录。',
+  'consent.label': '患者同意将其个人信息、症状和报告发送给 AI 服务，以制定本方案。',
+  'consent.recorded': '同意记录于 {time}',
+  'consent.required': '向 AI 服务发送任何内容前，请先记录患者的同意。',
+  'consent.needed': '需要在下方记录患者同意',
+
+  'redact.open': '隐藏信息',
+  'redact.count': '已隐藏 {count} 个区域',
+  'redact.title': '隐藏身份信息',
+  'redact.instructions': '在姓名、病历号和地址上拖动以将其涂黑。只会发送遮盖后的照片。选择方框可将其删除。',
+  'redact.suggest': '用 OCR 查找',
+  'redact.suggesting': '正在读取照片…',
+  'redact.suggested': '找到 {count} 个区域。请检查照片是否有遗漏。',
+  'redact.suggestFailed': '无法读取照片。请手动绘制方框。',
+  'redact.clear': '全部清除',
+  'redact.save': '保存',
+  'redact.removeBox': '删除此方框',
+  'redact.enhanceLocked': '更改此项前请先清除隐藏区域',
+  'privacy.preview': '隐私预览',
+  'privacy.title': '将发送给 AI 服务的内容',
+  'privacy.intro': '这就是将离开此设备的全部内容。[PATIENT_NAME] 等占位符只会在此设备上重新填入。',
+  'privacy.settingsHint': '可在“设置”中选择要替换的信息。',
+  'privacy.loading': '正在准备预览…',
+  'privacy.failed': '无法准备预览。',
+  'privacy.triage': '紧急程度检查',
+  'privacy.prescription': '处方',
+  'privacy.triageNote': '处方请求中的分诊行取决于紧急程度检查的结果。',
+  'privacy.attachments': '附件（{count}）',
+  'privacy.pdf': 'PDF 报告（{size} KB），连同其文字一起发送。隐藏区域仅适用于照片。',
+
+  'print.date': '日期',
+  'print.age': '年龄',
+  'print.district': '地区',
+  'print.cell': '手机',
+  'print.condition': '病情',
+  'print.sex': '性别',
+  'print.weight': '体重',
+  'print.height': '身高',
+  'print.bmi': 'BMI',
+  'print.allergies': '过敏',
+  'print.currentMedications': '当前用药',
+  'print.chronicConditions': '慢性病',
+  'print.pregnancy': '妊娠',
+  'print.tel': '电话',
+  'print.regNo': '注册号',
+  'print.triage': '分诊',
+  'print.overridden': '临床医生于 {date} 决定继续。',
+  'print.safetyCheck': '安全检查',
+  'print.safetyFlagged': '下方标出了 {count} 项可能的相互作用或禁忌。使用前请先查看。',
+  'print.approvedStamp': '已由 {name} 于 {date} 审核并批准。',
+  'print.draftStamp': 'AI 建议草稿 — 尚未经执业医师审核。请勿用于治疗。',
+  'print.practitionerNote': '医师备注',
+  'print.practitionerNotes': '医师备注',
+  'print.followUp': '后续问题',
+  'print.question': '问',
+  'print.answer': '答',
+  'print.signature': '签名',
+  'print.reviewingPractitioner': '审核医师',
+
+  'urgency.emergency': '紧急',
+  'urgency.urgent': '尽快',
+  'urgency.routine': '常规',
+  'urgencyNote.emergency': '请立即寻求急诊救治。',
+  'urgencyNote.urgent': '请在 24 小时内亲自就医。',
+  'urgencyNote.routine': '未发现危险信号症状。',
+  'severity.major': '严重',
+  'severity.moderate': '中度',
+  'severity.minor': '轻微',
+
+  'chat.title': '关于本处方的问题',
+  'chat.includeInPrint': '打印时包含',
+  'chat.empty': '关于本方案的任何问题都可以提问，例如“可以随餐服用吗？”或“如果一直发烧怎么办？”。回答将使用{language}。',
+  'chat.placeholder': '输入后续问题...',
+  'chat.inputLabel': '后续问题',
+  'chat.ask': '提问',
+
+  'emergency.title': '请立即就医急诊',
+  'emergency.subtitle': '这些症状可能危及生命。请不要等待在线处方。',
+  'emergency.callForHelp': '拨打求助电话：',
+  'emergency.callForHelpIn': '在{district}拨打求助电话：',
+  'emergency.noContacts': '请拨打当地急救电话，或前往最近医院的急诊科。',
+  'emergency.back': '返回表单',
+  'emergency.clinicianConfirm': '临床医生已当面评估患者并决定继续。这将记录在处方上。',
+  'emergency.continue': '继续生成处方',
+
+  'settings.aiProvider': 'AI 服务提供方',
+  'settings.provider': '提供方',
+  'settings.providerGemini': 'Google Gemini',
+  'settings.providerOpenai': '兼容 OpenAI 的服务器（OpenAI、Ollama、llama.cpp）',
+  'settings.providerMock': '离线模拟（预置数据，不联网）',
+  'settings.model': '模型',
+  'settings.serverUrl': '服务器 URL',
+  'settings.apiKeyGemini': 'API 密钥（选填，会替换内置密钥）',
+  'settings.apiKeyOptional': 'API 密钥（选填）',
+  'settings.apiKeyHint': '仅保存在此浏览器中。',
+  'settings.emergencyNumbers': '急救电话',
+  'settings.emergencyHint': '显示在急救页面上。适用于所有地区的号码请将地区留空。',
+  'settings.district': '地区',
+  'settings.allDistricts': '所有地区',
+  'settings.service': '服务',
+  'settings.number': '号码',
+  'settings.addNumber': '+ 添加号码',
+  'settings.security': '安全',
+  'settings.securityHint': '此设备上的患者记录已用诊所 PIN 加密。没有 PIN 将无法恢复。',
+  'settings.autoLock': '闲置后锁定',
+  'settings.oneMinute': '1 分钟',
+  'settings.minutes': '{count} 分钟',
+  'settings.currentPin': '当前 PIN',
+  'settings.newPin': '新 PIN',
+  'settings.newPinPlaceholder': '新 PIN（至少 {min} 个字符）',
+  'settings.repeatPin': '再次输入新 PIN',
+  'settings.changePin': '更改 PIN',
+  'settings.changingPin': '正在更改 PIN...',
+  'settings.pinChanged': 'PIN 已更改。',
+  'settings.pinFailed': '无法更改 PIN。',
+  'settings.privacy': '隐私',
+  'settings.privacyHint': '在发送给 AI 之前替换为占位符，只在此设备上还原。',
+  'settings.modalities': '治疗方式',
+  'settings.modalitiesHint': '患者表单中提供的治疗类型。选中某一类型时，会将其说明发送给 AI。',
+  'privacyField.name': '患者姓名',
+  'privacyField.cell': '手机号',
+  'privacyField.district': '地区',
+  'privacyField.otherIdentifiers': '描述中的其他电话号码、电子邮箱以及证件号或病历号',
+
+  'history.savedLocally': '仅保存在此设备上。',
+  'history.back': '返回',
+  'history.loadFailed': '无法打开本地患者记录。',
+  'history.search': '按姓名、手机号或地区搜索...',
+  'history.noPatients': '尚未保存任何患者。',
+  'history.noMatches': '没有符合搜索条件的患者。',
+  'history.age': '年龄：{age}',
+  'history.district': '地区：{district}',
+  'history.cell': '手机：{cell}',
+  'history.lastVisit': '最近就诊：{date}',
+  'history.followUp': '复诊',
+  'history.export': '导出患者数据',
+  'history.exportFailed': '无法导出 {name} 的数据。',
+  'history.erasePatient': '清除患者',
+  'history.eraseWarning': '这将从此设备永久清除 {name} 的就诊记录、报告、排队中的就诊和用药提醒。如果患者要求获取副本，请先导出其数据。输入患者姓名以确认。',
+  'history.patientName': '患者姓名',
+  'history.erase': '清除',
+  'history.erased': '已清除 {name}：{consultations} 次就诊、{attachments} 个报告文件、{queued} 个排队中的就诊和 {reminders} 条用药提醒。已于 {time} 确认此设备上没有残留。',
+  'history.eraseFailed': '无法清除 {name}。',
+  'history.eraseIncomplete': '部分患者记录无法清除。请重试。',
+  'history.consultations': '就诊记录',
+  'history.labTrends': '化验趋势',
+  'history.approved': '已批准',
+  'history.draft': '草稿',
+  'history.reports': '{count} 份报告',
+  'history.reopen': '重新打开',
+  'history.print': '打印',
+  'history.delete': '删除',
+  'history.deleteConfirm': '要删除 {date} 的就诊记录吗？',
+  'history.noConsultations': '没有就诊记录。',
+
+  'clinic.imageError': '无法读取该图片。请使用 PNG 或 JPEG 文件。',
+  'clinic.saveError': '无法保存资料。请尝试使用更小的标志或签名图片。',
+  'clinic.letterhead': '信笺抬头',
+  'clinic.letterheadHint': '打印在每张处方上。仅保存在此浏览器中。',
+  'clinic.logo': '标志',
+  'clinic.defaultLogo': '默认标志',
+  'clinic.none': '无',
+  'clinic.upload': '上传',
+  'clinic.clinicName': '诊所名称',
+  'clinic.tagline': '标语',
+  'clinic.address': '地址',
+  'clinic.phone': '电话',
+  'clinic.registrationNumber': '注册号',
+  'clinic.prescriber': '开方人',
+  'clinic.practitionerName': '审核医师',
+  'clinic.signature': '签名',
+  'clinic.disclaimer': '免责声明',
+  'clinic.disclaimerHint': '以英文撰写，并自动翻译成每位患者的语言。修改后会丢弃已保存的译文。',
+  'clinic.removeTranslation': '删除译文',
+
+  'medEditor.name': '药物',
+  'medEditor.strength': '规格',
+  'medEditor.dosage': '用法用量',
+  'medEditor.duration': '疗程',
+  'medEditor.route': '给药途径',
+  'medEditor.notes': '备注',
+  'medEditor.mealsNotStated': '饭前饭后：未说明',
+  'medEditor.reviewerNote': '审核人备注',
+  'medEditor.reviewerNotePlaceholder': '审核人备注（选填）',
+  'medEditor.strike': '划掉',
+  'medEditor.restore': '恢复',
+  'modality.new': '新治疗方式',
+  'modality.offer': '提供{name}',
+  'modality.patientsOnly': '仅限{religion}患者',
+  'modality.edit': '编辑',
+  'modality.done': '完成',
+  'modality.name': '名称（英文，也会提供给 AI）',
+  'modality.namePlaceholder': '例如 Unani、Acupuncture、Physiotherapy',
+  'modality.category': '类别',
+  'modality.format': '方案内容',
+  'modality.offeredTo': '适用对象',
+  'modality.allPatients': '所有患者',
+  'modality.rules': '给 AI 的说明',
+  'modality.rulesPlaceholder': '此方案应包含哪些内容以及如何撰写。',
+  'modality.conventionalHint': '常规医学方案中的药物会检查药物相互作用；其他所有方案按草药检查。',
+  'modality.restore': '恢复默认',
+  'modality.add': '+ 添加治疗方式',
+  'modalityCategory.conventional': '常规医学',
+  'modalityCategory.traditional': '传统 / 补充疗法',
+  'modalityCategory.spiritual': '灵性',
+  'modalityCategory.therapy': '疗法',
+  'outputFormat.medications': '药物（名称、规格、用量、疗程）',
+  'outputFormat.instructions': '仅指导（不含药物）',
+  'outputFormat.mixed': '药物和指导',
+};
@@ -0,0 +1,104 @@
+import { ModalityCategory, ModalityOutputFormat, TreatmentModality } from '../types';
+import { MessageKey, Translate } from './i18n';
+
+// Option values stay in English (they are stored and sent to the model); only the labels are translated
+export const RELIGIONS: { value: string; label: MessageKey }[] = [
+  { value: 'Islam', label: 'religion.islam' },
+  { value: 'Christianity', label: 'religion.christianity' },
+  { value: 'Hinduism', label: 'religion.hinduism' },
+  { value: 'Buddhism', label: 'religion.buddhism' },
+  { value: 'Sikhism', label: 'religion.sikhism' },
+  { value: 'Judaism', label: 'religion.judaism' },
+  { value: 'Baháʼí Faith', label: 'religion.bahai' },
+  { value: 'Chinese Folk Religion', label: 'religion.chineseFolk' },
+  { value: 'Spiritism', label: 'religion.spiritism' },
+  { value: 'Ethnic/Indigenous Religions', label: 'religion.indigenous' },
+  { value: 'Other', label: 'religion.other' },
+];
+
+export const MODALITY_CATEGORIES: Record<ModalityCategory, MessageKey> = {
+  conventional: 'modalityCategory.conventional',
+  traditional: 'modalityCategory.traditional',
+  spiritual: 'modalityCategory.spiritual',
+  therapy: 'modalityCategory.therapy',
+};
+
+export const OUTPUT_FORMATS: Record<ModalityOutputFormat, MessageKey> = {
+  medications: 'outputFormat.medications',
+  instructions: 'outputFormat.instructions',
+  mixed: 'outputFormat.mixed',
+};
+
+// Built-in ids are the values earlier versions stored on consultations, so saved records still resolve
+export const ALLOPATHY_ID = 'Allopathy (Specialist Doctors)';
+export const HOMEOPATHY_ID = 'Homeopathy';
+export const HIKMAT_ID = 'Hikmat (Traditional Herbal)';
+
+const religious = (id: string, religion: string, labelKey: MessageKey, outputFormat: ModalityOutputFormat, promptRules: string): TreatmentModality => ({
+  id, name: id, labelKey, category: 'spiritual', outputFormat, promptRules, religion, enabled: true, builtIn: true,
+});
+
+export const BUILTIN_MODALITIES: TreatmentModality[] = [
+  {
+    id: HIKMAT_ID, name: HIKMAT_ID, labelKey: 'treatment.hikmat', category: 'traditional', outputFormat: 'mixed', enabled: true, builtIn: true,
+    promptRules: "List each herbal remedy with a brief description in 'notes'. Put lifestyle or dietary guidance in 'instructions'.",
+  },
+  {
+    id: HOMEOPATHY_ID, name: HOMEOPATHY_ID, labelKey: 'treatment.homeopathy', category: 'traditional', outputFormat: 'medications', enabled: true, builtIn: true,
+    promptRules: "Give each medicine its potency as 'strength', a dosage like 5+5+5 drops and a duration like 7 days. No paragraphs.",
+  },
+  {
+    id: ALLOPATHY_ID, name: ALLOPATHY_ID, labelKey: 'treatment.allopathy', category: 'conventional', outputFormat: 'medications', enabled: true, builtIn: true,
+    promptRules: "Act as a board-certified specialist for the specific condition. Prescribe a comprehensive, high-quality, and modern treatment plan. Include primary medications and any necessary supportive therapies (e.g., vitamins, antacids), with strength (e.g., 500mg), dosage (e.g., 1+1+1) and duration (e.g., 5 days). Put relevant diagnostic tests in 'diagnosticTests', not in the plan. Ensure the prescription is evidence-based and professional.",
+  },
+  religious('Quran & Asma-ul-Husna', 'Islam', 'treatment.islam', 'instructions',
+    "Provide relevant Quranic verses or duas, and recommend 'tasbeeh' (recitation) of Asma-ul-Husna relevant to healing. If the target language is Urdu, this MUST be in Urdu script."),
+  religious('Biblical Healing & Prayer', 'Christianity', 'treatment.christianity', 'instructions',
+    'Provide relevant Bible verses and suggest prayers.'),
+  religious('Ayurveda & Mantras', 'Hinduism', 'treatment.hinduism', 'mixed',
+    "List Ayurvedic remedies as 'medications' and suggest healing mantras as 'instructions'."),
+  religious('Meditation & Chanting', 'Buddhism', 'treatment.buddhism', 'instructions',
+    'Suggest meditation techniques and healing chants or sutras.'),
+  religious('Gurbani Recitation & Seva', 'Sikhism', 'treatment.sikhism', 'instructions',
+    "Recommend reciting Shabads from the Gurbani and suggest 'Seva' (selfless service)."),
+  religious('Torah Study & Prayer', 'Judaism', 'treatment.judaism', 'instructions',
+    'Provide relevant passages from the Torah or Psalms and suggest prayers.'),
+  religious("Writings of Baháʼu'lláh & Prayer", 'Baháʼí Faith', 'treatment.bahai', 'instructions',
+    "Provide excerpts from the Writings of Baháʼu'lláh and suggest prayers for health."),
+  religious('Ancestral Veneration & Herbal Remedies', 'Chinese Folk Religion', 'treatment.chineseFolk', 'mixed',
+    "List common herbal remedies as 'medications' and suggest practices like ancestral offerings as 'instructions'."),
+  religious('Spiritual Counsel & Healing', 'Spiritism', 'treatment.spiritism', 'instructions',
+    'Provide spiritual counsel and suggest practices like positive affirmations.'),
+  religious('Traditional Rituals & Natural Healing', 'Ethnic/Indigenous Religions', 'treatment.indigenous', 'instructions',
+    'Suggest connecting with nature and general traditional rituals.'),
+];
+
+export const findModality = (modalities: TreatmentModality[], id: string): TreatmentModality | undefined =>
+  modalities.find(modality => modality.id === id);
+
+// Enabled modalities the patient can choose; religious ones only for patients of that religion
+export const getAvailableModalities = (modalities: TreatmentModality[], religion: string): TreatmentModality[] =>
+  modalities.filter(modality => modality.enabled && (!modality.religion || modality.religion === religion));
+
+// Built-ins are translated until a clinic renames them; custom modalities show their name as entered
+export const modalityLabel = (modality: TreatmentModality, t: Translate): string =>
+  modality.labelKey ? t(modality.labelKey as MessageKey) ?? modality.name : modality.name;
+
+// A readable, unique id for a modality added by the clinic
+export const createModalityId = (name: string, modalities: TreatmentModality[]): string => {
+  const base = name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'modality';
+  let id = base;
+  for (let n = 2; findModality(modalities, id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+const FORMAT_RULES: Record<ModalityOutputFormat, string> = {
+  medications: "List every remedy as its own 'medications' item; use 'instructions' only for short supportive guidance.",
+  instructions: "Give the plan as 'instructions' only and leave 'medications' empty.",
+  mixed: "Put remedies in 'medications' and practices, diet or lifestyle guidance in 'instructions'.",
+};
+
+export const describeModalityRules = (modality: TreatmentModality): string => {
+  const name = modality.name !== modality.id ? ` (${modality.name})` : '';
+  return `- For "${modality.id}"${name}: ${FORMAT_RULES[modality.outputFormat]} ${modality.promptRules.trim()}`.trimEnd();
+};
@@ -0,0 +1,63 @@
+// Best-effort parsing of a JSON document that is still being streamed.
+// Open strings, arrays and objects are closed; a trailing key or value that is
+// still incomplete (e.g. `"dos` or `tru`) is dropped back to the last comma.
+
+interface CutPoint {
+  index: number; // Text before this index is kept
+  open: string; // Containers still open at that point, e.g. '{[{'
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const close = (open: string) => [...open].reverse().map(bracket => CLOSERS[bracket]).join('');
+
+const tryParse = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+export const parsePartialJson = (text: string): unknown => {
+  const complete = tryParse(text);
+  if (complete) return complete.value;
+
+  const cutPoints: CutPoint[] = [];
+  let open = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      open += char;
+      cutPoints.push({ index: i + 1, open });
+    } else if (char === '}' || char === ']') {
+      open = open.slice(0, -1);
+    } else if (char === ',') {
+      cutPoints.push({ index: i, open });
+    }
+  }
+
+  // First try keeping everything, closing a string that is still being written
+  let tail = text;
+  if (inString) tail = (escaped ? tail.slice(0, -1) : tail) + '"';
+  const whole = tryParse(tail + close(open));
+  if (whole) return whole.value;
+
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const cut = cutPoints[i];
+    const attempt = tryParse(text.slice(0, cut.index) + close(cut.open));
+    if (attempt) return attempt.value;
+  }
+  return undefined;
+};
@@ -0,0 +1,117 @@
+import { PatientRecord } from '../types';
+import { countPatientRecords, deleteAllRecords, deletePatient, encryptStoredRecords, getConsultations, getPatientAttachments, getPatientId } from './patientHistory';
+import { encryptStoredSettings, loadConsultationQueue, loadDoseReminders, removeStoredSettings, saveConsultationQueue, saveDoseReminders } from './settings';
+import { uniqueReportName } from './reportUpload';
+import { createVault, destroyVault } from './vault';
+
+// What happens to a patient's data as a whole: the first-time encryption of everything stored, the
+// patient's own copy of their data, and erasing it.
+
+export interface PatientExport {
+  blob: Blob;
+  fileName: string;
+}
+
+// What was removed, counted before the erase; the counts afterwards were all checked to be zero
+export interface ErasureReceipt {
+  erasedAt: string;
+  consultations: number;
+  attachments: number;
+  queued: number;
+  reminders: number;
+}
+
+// Dose reminder plans are keyed by the patient's name as it was typed (see DoseChart)
+const isPatientReminder = (planId: string, patient: PatientRecord) =>
+  planId.split('|')[0].trim().toLowerCase() === patient.info.name.trim().toLowerCase();
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const fileSlug = (value: string) => value.trim().replace(/[^\p{L}\p{N}.-]+/gu, '_') || 'patient';
+
+// Sets the clinic PIN for the first time and encrypts whatever an earlier version stored in the clear
+export const setUpEncryption = async (pin: string): Promise<void> => {
+  await createVault(pin);
+  await encryptStoredRecords();
+  await encryptStoredSettings();
+};
+
+// A zip with everything stored about the patient: patient.json, plus the reports that were sent
+// with each consultation under attachments/
+export const exportPatientData = async (patient: PatientRecord): Promise<PatientExport> => {
+  const { zipSync, strToU8 } = await import('fflate');
+  const [consultations, attachments, queue] = await Promise.all([
+    getConsultations(patient.id),
+    getPatientAttachments(patient.id),
+    loadConsultationQueue(),
+  ]);
+  const queued = queue.filter(item => getPatientId(item.patientInfo) === patient.id);
+
+  const files: Record<string, Uint8Array> = {};
+  const taken: string[] = [];
+  const addFile = (name: string, data: string) => {
+    const path = `attachments/${uniqueReportName(fileSlug(name), taken)}`;
+    taken.push(path.slice('attachments/'.length));
+    files[path] = fromBase64(data);
+    return path;
+  };
+  const attachmentIndex = attachments.map(({ consultationId, name, mimeType, data }) => ({
+    consultationId,
+    name,
+    mimeType,
+    file: addFile(name, data),
+  }));
+  const queuedItems = queued.map(({ files: parts, ...item }) => ({
+    ...item,
+    attachments: parts.map((part, index) => addFile(item.reports[index]?.name ?? `report-${index + 1}`, part.inlineData.data)),
+  }));
+
+  const exportedAt = new Date().toISOString();
+  files['patient.json'] = strToU8(JSON.stringify({
+    exportedAt,
+    patient,
+    consultations,
+    attachments: attachmentIndex,
+    queued: queuedItems,
+  }, null, 2));
+  return {
+    blob: new Blob([zipSync(files)], { type: 'application/zip' }),
+    fileName: `${fileSlug(patient.info.name)}-data-${exportedAt.slice(0, 10)}.zip`,
+  };
+};
+
+// Removes the patient from the history, the offline queue and the dose reminders, then reads the
+// stores again to make sure nothing is left. Throws an error named ErasureIncomplete if anything is.
+export const erasePatient = async (patient: PatientRecord): Promise<ErasureReceipt> => {
+  const before = await countPatientRecords(patient.id);
+  const queue = await loadConsultationQueue();
+  const reminders = await loadDoseReminders();
+  const keptQueue = queue.filter(item => getPatientId(item.patientInfo) !== patient.id);
+  const keptReminders = reminders.filter(plan => !isPatientReminder(plan.id, patient));
+
+  await deletePatient(patient.id);
+  await saveConsultationQueue(keptQueue);
+  await saveDoseReminders(keptReminders);
+
+  const after = await countPatientRecords(patient.id);
+  const queueLeft = (await loadConsultationQueue()).some(item => getPatientId(item.patientInfo) === patient.id);
+  const remindersLeft = (await loadDoseReminders()).some(plan => isPatientReminder(plan.id, patient));
+  if (after.patients + after.consultations + after.attachments > 0 || queueLeft || remindersLeft) {
+    throw Object.assign(new Error('Some of the patient\'s records could not be erased. Try again.'), { name: 'ErasureIncomplete' });
+  }
+  return {
+    erasedAt: new Date().toISOString(),
+    consultations: before.consultations,
+    attachments: before.attachments,
+    queued: queue.length - keptQueue.length,
+    reminders: reminders.length - keptReminders.length,
+  };
+};
+
+// For a forgotten PIN: the stored data cannot be decrypted without it, so it is all removed and the
+// app starts over
+export const eraseAllData = async (): Promise<void> => {
+  await deleteAllRecords();
+  removeStoredSettings();
+  destroyVault();
+};
@@ -0,0 +1,262 @@
+import { Consultation, ConsultationAttachment, PatientInfo, PatientRecord } from '../types';
+import { EncryptedValue, blindIndex, decryptValue, encryptValue } from './vault';
+
+const DB_NAME = 'ai-doctor';
+const DB_VERSION = 2;
+const PATIENTS_STORE = 'patients';
+const CONSULTATIONS_STORE = 'consultations';
+const ATTACHMENTS_STORE = 'attachments';
+
+// Records are stored encrypted (see vault.ts). The only readable fields are random record ids and a
+// blind index of the patient id, which lets a patient's records be found without naming them.
+interface StoredPatient {
+  id: string; // Blind index of the patient id
+  payload: EncryptedValue;
+}
+
+interface StoredConsultation {
+  id: string;
+  patientId: string; // Blind index of the patient id
+  payload: EncryptedValue;
+}
+
+interface StoredAttachment {
+  id: string;
+  consultationId: string;
+  patientId: string; // Blind index of the patient id
+  payload: EncryptedValue;
+}
+
+// How many records are still stored for a patient; all zero after an erase
+export interface StoredRecordCounts {
+  patients: number;
+  consultations: number;
+  attachments: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PATIENTS_STORE)) {
+          db.createObjectStore(PATIENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CONSULTATIONS_STORE)) {
+          const consultations = db.createObjectStore(CONSULTATIONS_STORE, { keyPath: 'id' });
+          consultations.createIndex('patientId', 'patientId');
+        }
+        if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+          const attachments = db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+          attachments.createIndex('patientId', 'patientId');
+          attachments.createIndex('consultationId', 'consultationId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Patients are identified by name + cell; the cell number is compared by digits only.
+export const getPatientId = (info: Pick<PatientInfo, 'name' | 'cell'>): string =>
+  `${normalize(info.name)}|${info.cell.replace(/\D/g, '')}`;
+
+const byNewestFirst = (a: Consultation, b: Consultation) => b.createdAt.localeCompare(a.createdAt);
+
+// IndexedDB commits a transaction as soon as it waits on anything else, so records are always
+// decrypted after reading and encrypted before writing, never in between.
+const decryptAll = <T>(records: { payload: EncryptedValue }[]): Promise<T[]> =>
+  Promise.all(records.map(record => decryptValue<T>(record.payload)));
+
+export const listPatients = async (): Promise<PatientRecord[]> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredPatient[]>(
+    db.transaction(PATIENTS_STORE).objectStore(PATIENTS_STORE).getAll()
+  );
+  const patients = await decryptAll<PatientRecord>(stored);
+  return patients.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getConsultations = async (patientId: string): Promise<Consultation[]> => {
+  const db = await openDatabase();
+  const index = await blindIndex(patientId);
+  const stored = await requestToPromise<StoredConsultation[]>(
+    db.transaction(CONSULTATIONS_STORE).objectStore(CONSULTATIONS_STORE).index('patientId').getAll(index)
+  );
+  const consultations = await decryptAll<Consultation>(stored);
+  return consultations.sort(byNewestFirst);
+};
+
+export const getConsultation = async (id: string): Promise<Consultation | undefined> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredConsultation | undefined>(
+    db.transaction(CONSULTATIONS_STORE).objectStore(CONSULTATIONS_STORE).get(id)
+  );
+  return stored && decryptValue<Consultation>(stored.payload);
+};
+
+export const getPatientAttachments = async (patientId: string): Promise<ConsultationAttachment[]> => {
+  const db = await openDatabase();
+  const index = await blindIndex(patientId);
+  const stored = await requestToPromise<StoredAttachment[]>(
+    db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).index('patientId').getAll(index)
+  );
+  return decryptAll<ConsultationAttachment>(stored);
+};
+
+export const getConsultationAttachments = async (consultationId: string): Promise<ConsultationAttachment[]> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredAttachment[]>(
+    db.transaction(ATTACHMENTS_STORE).objectStore(ATTACHMENTS_STORE).index('consultationId').getAll(consultationId)
+  );
+  return decryptAll<ConsultationAttachment>(stored);
+};
+
+// Attachments are the reports as they were sent to the model, in the same order as `reports`
+export const saveConsultation = async (
+  consultation: Omit<Consultation, 'id' | 'patientId' | 'createdAt'>,
+  attachments: Omit<ConsultationAttachment, 'id' | 'consultationId'>[] = []
+): Promise<Consultation> => {
+  const db = await openDatabase();
+  const now = new Date().toISOString();
+  const patientId = getPatientId(consultation.patientInfo);
+  const index = await blindIndex(patientId);
+  const record: Consultation = { ...consultation, id: crypto.randomUUID(), patientId, createdAt: now };
+
+  const existing = await requestToPromise<StoredPatient | undefined>(
+    db.transaction(PATIENTS_STORE).objectStore(PATIENTS_STORE).get(index)
+  );
+  const createdAt = existing ? (await decryptValue<PatientRecord>(existing.payload)).createdAt : now;
+  const patient: StoredPatient = {
+    id: index,
+    payload: await encryptValue({ id: patientId, info: consultation.patientInfo, createdAt, updatedAt: now } satisfies PatientRecord),
+  };
+  const storedConsultation: StoredConsultation = { id: record.id, patientId: index, payload: await encryptValue(record) };
+  const storedAttachments: StoredAttachment[] = await Promise.all(attachments.map(async attachment => {
+    const full: ConsultationAttachment = { ...attachment, id: crypto.randomUUID(), consultationId: record.id };
+    return { id: full.id, consultationId: record.id, patientId: index, payload: await encryptValue(full) };
+  }));
+
+  const tx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+  tx.objectStore(PATIENTS_STORE).put(patient);
+  tx.objectStore(CONSULTATIONS_STORE).put(storedConsultation);
+  storedAttachments.forEach(attachment => tx.objectStore(ATTACHMENTS_STORE).put(attachment));
+  await transactionDone(tx);
+  return record;
+};
+
+// Used by the review workflow and follow-up chat; the inputs and original output never change after saving
+export const updateConsultation = async (
+  id: string,
+  changes: Partial<Pick<Consultation, 'result' | 'review' | 'chat' | 'printChat' | 'layout'>>
+): Promise<Consultation> => {
+  const db = await openDatabase();
+  const existing = await requestToPromise<StoredConsultation | undefined>(
+    db.transaction(CONSULTATIONS_STORE).objectStore(CONSULTATIONS_STORE).get(id)
+  );
+  if (!existing) throw new Error(`Consultation ${id} not found`);
+  const record: Consultation = { ...(await decryptValue<Consultation>(existing.payload)), ...changes };
+  const payload = await encryptValue(record);
+  const tx = db.transaction(CONSULTATIONS_STORE, 'readwrite');
+  tx.objectStore(CONSULTATIONS_STORE).put({ ...existing, payload } satisfies StoredConsultation);
+  await transactionDone(tx);
+  return record;
+};
+
+export const deleteConsultation = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([CONSULTATIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+  tx.objectStore(CONSULTATIONS_STORE).delete(id);
+  const attachments = tx.objectStore(ATTACHMENTS_STORE);
+  const keys = await requestToPromise(attachments.index('consultationId').getAllKeys(id));
+  keys.forEach(key => attachments.delete(key));
+  await transactionDone(tx);
+};
+
+export const deletePatient = async (patientId: string): Promise<void> => {
+  const db = await openDatabase();
+  const index = await blindIndex(patientId);
+  const tx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+  tx.objectStore(PATIENTS_STORE).delete(index);
+  for (const storeName of [CONSULTATIONS_STORE, ATTACHMENTS_STORE]) {
+    const store = tx.objectStore(storeName);
+    const keys = await requestToPromise(store.index('patientId').getAllKeys(index));
+    keys.forEach(key => store.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+// Read straight from the stores, so an erase can be checked without trusting the code that did it
+export const countPatientRecords = async (patientId: string): Promise<StoredRecordCounts> => {
+  const db = await openDatabase();
+  const index = await blindIndex(patientId);
+  const tx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE, ATTACHMENTS_STORE]);
+  const [patients, consultations, attachments] = await Promise.all([
+    requestToPromise(tx.objectStore(PATIENTS_STORE).count(index)),
+    requestToPromise(tx.objectStore(CONSULTATIONS_STORE).index('patientId').count(index)),
+    requestToPromise(tx.objectStore(ATTACHMENTS_STORE).index('patientId').count(index)),
+  ]);
+  return { patients, consultations, attachments };
+};
+
+// Version 1 kept records in the clear, keyed by the readable patient id. They are rewritten
+// encrypted when the clinic PIN is first set up.
+export const encryptStoredRecords = async (): Promise<void> => {
+  const db = await openDatabase();
+  const readTx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE]);
+  const [patients, consultations] = await Promise.all([
+    requestToPromise<(PatientRecord | StoredPatient)[]>(readTx.objectStore(PATIENTS_STORE).getAll()),
+    requestToPromise<(Consultation | StoredConsultation)[]>(readTx.objectStore(CONSULTATIONS_STORE).getAll()),
+  ]);
+  const isPlain = <T extends object>(record: T | { payload: EncryptedValue }): record is T => !('payload' in record);
+  const plainPatients = patients.filter(isPlain<PatientRecord>);
+  const plainConsultations = consultations.filter(isPlain<Consultation>);
+  if (plainPatients.length === 0 && plainConsultations.length === 0) return;
+
+  const encryptedPatients: StoredPatient[] = await Promise.all(plainPatients.map(async patient => ({
+    id: await blindIndex(patient.id),
+    payload: await encryptValue(patient),
+  })));
+  const encryptedConsultations: StoredConsultation[] = await Promise.all(plainConsultations.map(async consultation => ({
+    id: consultation.id,
+    patientId: await blindIndex(consultation.patientId),
+    payload: await encryptValue(consultation),
+  })));
+
+  const tx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE], 'readwrite');
+  plainPatients.forEach(patient => tx.objectStore(PATIENTS_STORE).delete(patient.id));
+  encryptedPatients.forEach(patient => tx.objectStore(PATIENTS_STORE).put(patient));
+  encryptedConsultations.forEach(consultation => tx.objectStore(CONSULTATIONS_STORE).put(consultation));
+  await transactionDone(tx);
+};
+
+// Used when the PIN is forgotten: without it nothing stored can be read anyway
+export const deleteAllRecords = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PATIENTS_STORE, CONSULTATIONS_STORE, ATTACHMENTS_STORE], 'readwrite');
+  [PATIENTS_STORE, CONSULTATIONS_STORE, ATTACHMENTS_STORE].forEach(storeName => tx.objectStore(storeName).clear());
+  await transactionDone(tx);
+};
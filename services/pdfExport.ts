@@ -0,0 +1,601 @@
+import type { jsPDF } from 'jspdf';
+import { ChatMessage, ClinicProfile, PatientInfo, PrescriptionData, PrescriptionLayout, PrescriptionReview, SafetyWarning, SymptomSummary, TreatmentSection, TriageResult, WarningSeverity } from '../types';
+import { calculateBmi } from './clinicalIntake';
+import { MessageKey, createTranslator, getLocale } from './i18n';
+import { describeSymptomSummary } from './symptomQuestionnaire';
+import { buildComparisonRows, canCompare } from './treatmentComparison';
+import notoSansRegular from '@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url';
+import notoSansBold from '@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url';
+import naskhRegular from '@expo-google-fonts/noto-naskh-arabic/400Regular/NotoNaskhArabic_400Regular.ttf?url';
+import naskhBold from '@expo-google-fonts/noto-naskh-arabic/700Bold/NotoNaskhArabic_700Bold.ttf?url';
+import nastaliqRegular from '@expo-google-fonts/noto-nastaliq-urdu/400Regular/NotoNastaliqUrdu_400Regular.ttf?url';
+import devanagariRegular from '@expo-google-fonts/noto-sans-devanagari/400Regular/NotoSansDevanagari_400Regular.ttf?url';
+import devanagariBold from '@expo-google-fonts/noto-sans-devanagari/700Bold/NotoSansDevanagari_700Bold.ttf?url';
+import bengaliRegular from '@expo-google-fonts/noto-sans-bengali/400Regular/NotoSansBengali_400Regular.ttf?url';
+import bengaliBold from '@expo-google-fonts/noto-sans-bengali/700Bold/NotoSansBengali_700Bold.ttf?url';
+import chineseRegular from '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url';
+
+export const prescriptionFileName = (patientInfo: PatientInfo, extension: 'pdf' | 'png') =>
+  `prescription-${patientInfo.name.trim().replace(/\s+/g, '_') || 'patient'}.${extension}`;
+
+// --- Fonts ---
+
+interface ScriptFont {
+  family: string;
+  regular: string;
+  bold?: string;
+  rtl?: boolean;
+  lineHeight?: number;
+  // jsPDF places glyphs one at a time and cannot apply OpenType shaping, so scripts that
+  // depend on it are drawn by the browser with this font and covered by an invisible text layer.
+  display?: { family: string; url: string };
+}
+
+const LATIN_FONT: ScriptFont = { family: 'NotoSans', regular: notoSansRegular, bold: notoSansBold };
+
+const SCRIPT_FONTS: Record<string, ScriptFont> = {
+  Arabic: { family: 'NotoNaskhArabic', regular: naskhRegular, bold: naskhBold, rtl: true, lineHeight: 1.8 },
+  Urdu: {
+    family: 'NotoNaskhArabic', regular: naskhRegular, bold: naskhBold, rtl: true, lineHeight: 2.4,
+    display: { family: 'Noto Nastaliq Urdu', url: nastaliqRegular },
+  },
+  Hindi: {
+    family: 'NotoSansDevanagari', regular: devanagariRegular, bold: devanagariBold, lineHeight: 1.7,
+    display: { family: 'Noto Sans Devanagari', url: devanagariRegular },
+  },
+  Bengali: {
+    family: 'NotoSansBengali', regular: bengaliRegular, bold: bengaliBold, lineHeight: 1.7,
+    display: { family: 'Noto Sans Bengali', url: bengaliRegular },
+  },
+  // The CJK font is ~10 MB per weight; headings fall back to the regular weight.
+  'Mandarin Chinese': { family: 'NotoSansSC', regular: chineseRegular, lineHeight: 1.6 },
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fontCache = new Map<string, Promise<string>>();
+
+const fetchFont = (url: string) => {
+  if (!fontCache.has(url)) {
+    const pending = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`Could not load font ${url} (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(toBase64);
+    pending.catch(() => fontCache.delete(url));
+    fontCache.set(url, pending);
+  }
+  return fontCache.get(url)!;
+};
+
+const embedFont = async (doc: jsPDF, font: ScriptFont) => {
+  const weights: [string, string][] = [['normal', font.regular], ['bold', font.bold ?? font.regular]];
+  await Promise.all(weights.map(async ([style, url]) => {
+    const fileName = `${font.family}-${style}.ttf`;
+    doc.addFileToVFS(fileName, await fetchFont(url));
+    doc.addFont(fileName, font.family, style);
+  }));
+};
+
+const loadedDisplayFonts = new Set<string>();
+
+const loadDisplayFont = async ({ family, url }: NonNullable<ScriptFont['display']>) => {
+  if (loadedDisplayFonts.has(url)) return;
+  document.fonts.add(await new FontFace(family, `url(${url})`).load());
+  loadedDisplayFonts.add(url);
+};
+
+// --- Layout ---
+
+type RGB = [number, number, number];
+
+const COLORS = {
+  text: [31, 41, 55] as RGB,
+  muted: [107, 114, 128] as RGB,
+  heading: [13, 148, 136] as RGB,
+  rule: [209, 213, 219] as RGB,
+  allergy: [185, 28, 28] as RGB,
+  panel: [249, 250, 251] as RGB,
+};
+
+const SEVERITY_COLORS: Record<WarningSeverity, { bar: RGB; fill: RGB; text: RGB }> = {
+  major: { bar: [248, 113, 113], fill: [254, 242, 242], text: [153, 27, 27] },
+  moderate: { bar: [251, 191, 36], fill: [255, 251, 235], text: [146, 64, 14] },
+  minor: { bar: [125, 211, 252], fill: [240, 249, 255], text: [7, 89, 133] },
+};
+
+const PAGE = { width: 210, height: 297, margin: 16 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const PT_TO_MM = 25.4 / 72;
+const RASTER_SCALE = 4;
+
+interface TextStyle {
+  size: number;
+  bold?: boolean;
+  color?: RGB;
+  // Text in the patient's language; safety warnings are always English.
+  localized?: boolean;
+}
+
+interface Block {
+  height: number;
+  draw: (top: number) => void;
+}
+
+const createLayout = (doc: jsPDF, script: ScriptFont | null) => {
+  const needsShaping = (text: string) => !!script?.display && /[^\u0000-\u024F\u2000-\u206F]/.test(text);
+  const fontFor = (style: TextStyle) => (style.localized && script ? script : LATIN_FONT);
+  const isRtl = (style: TextStyle) => !!style.localized && !!script?.rtl;
+  const lineHeightOf = (style: TextStyle) => style.size * PT_TO_MM * (fontFor(style).lineHeight ?? 1.45);
+
+  const canvasFont = (style: TextStyle) => `${style.bold ? 'bold ' : ''}${style.size * RASTER_SCALE}px "${script!.display!.family}"`;
+  const measureCanvas = document.createElement('canvas').getContext('2d')!;
+  const measureShaped = (text: string, style: TextStyle) => {
+    measureCanvas.font = canvasFont(style);
+    return (measureCanvas.measureText(text).width / RASTER_SCALE) * PT_TO_MM;
+  };
+
+  const applyFont = (style: TextStyle) => {
+    doc.setFont(fontFor(style).family, style.bold ? 'bold' : 'normal');
+    doc.setFontSize(style.size);
+    doc.setTextColor(...(style.color ?? COLORS.text));
+  };
+
+  const wrap = (text: string, style: TextStyle, width: number): string[] => {
+    applyFont(style);
+    if (!needsShaping(text)) return doc.splitTextToSize(text, width) as string[];
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureShaped(candidate, style) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+    return lines;
+  };
+
+  const rtlOptions = { isInputVisual: false, isOutputVisual: true, isInputRtl: true };
+
+  const drawLine = (text: string, style: TextStyle, x: number, top: number, width: number) => {
+    const lineHeight = lineHeightOf(style);
+    const rtl = isRtl(style);
+    const anchorX = rtl ? x + width : x;
+    const options = {
+      baseline: 'middle' as const,
+      align: rtl ? 'right' as const : 'left' as const,
+      ...(rtl ? rtlOptions : {}),
+    };
+    applyFont(style);
+    if (!needsShaping(text)) {
+      doc.text(text, anchorX, top + lineHeight / 2, options);
+      return;
+    }
+    const textWidth = Math.min(measureShaped(text, style), width);
+    const canvas = document.createElement('canvas');
+    const pxPerMm = (style.size * RASTER_SCALE) / (style.size * PT_TO_MM);
+    canvas.width = Math.ceil(textWidth * pxPerMm) + 4;
+    canvas.height = Math.ceil(lineHeight * pxPerMm);
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = canvasFont(style);
+    ctx.fillStyle = `rgb(${(style.color ?? COLORS.text).join(',')})`;
+    ctx.textBaseline = 'middle';
+    ctx.direction = rtl ? 'rtl' : 'ltr';
+    ctx.textAlign = rtl ? 'right' : 'left';
+    ctx.fillText(text, rtl ? canvas.width - 2 : 2, canvas.height / 2);
+    const imageX = rtl ? anchorX - canvas.width / pxPerMm : anchorX;
+    doc.addImage(canvas.toDataURL('image/png'), 'PNG', imageX, top, canvas.width / pxPerMm, lineHeight);
+    doc.text(text, anchorX, top + lineHeight / 2, { ...options, renderingMode: 'invisible' });
+  };
+
+  // The indent is measured from the start of the line, so right-to-left text is inset from the right margin
+  const text = (value: string, style: TextStyle, indent = 0, width = CONTENT_WIDTH - indent): Block => {
+    const lines = wrap(value, style, width);
+    const lineHeight = lineHeightOf(style);
+    const rtl = isRtl(style);
+    return {
+      height: lines.length * lineHeight,
+      draw: (top) => lines.forEach((line, i) =>
+        drawLine(line, style, PAGE.margin + (rtl ? CONTENT_WIDTH - indent - width : indent), top + i * lineHeight, width)),
+    };
+  };
+
+  return { text, isRtl, lineHeightOf };
+};
+
+// --- Document ---
+
+interface ExportOptions {
+  prescription: PrescriptionData;
+  patientInfo: PatientInfo;
+  warnings: SafetyWarning[];
+  triage?: TriageResult | null;
+  clinicProfile: ClinicProfile;
+  disclaimer: string; // Already translated into the patient's language when available
+  review: PrescriptionReview;
+  chat?: ChatMessage[]; // Follow-up transcript to print, if any
+  symptomSummary?: SymptomSummary; // Guided questionnaire answers, printed in the patient's language
+  layout?: PrescriptionLayout;
+  shareQr?: string | null; // QR code image of the patient's share link
+}
+
+const stack = (blocks: Block[], gap = 0): Block => ({
+  height: blocks.reduce((sum, block) => sum + block.height, 0) + gap * Math.max(blocks.length - 1, 0),
+  draw: (top) => {
+    let y = top;
+    blocks.forEach(block => {
+      block.draw(y);
+      y += block.height + gap;
+    });
+  },
+});
+
+const spacer = (height: number): Block => ({ height, draw: () => {} });
+
+export const exportPrescriptionPdf = async ({ prescription, patientInfo, warnings, triage, clinicProfile, disclaimer, review, chat, symptomSummary, layout: view = 'stacked', shareQr }: ExportOptions): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const script = SCRIPT_FONTS[patientInfo.language] ?? null;
+  // Printed labels are in the patient's language, whatever language the interface is in
+  const t = createTranslator(patientInfo.language);
+  const locale = getLocale(patientInfo.language);
+
+  await embedFont(doc, LATIN_FONT);
+  if (script) {
+    await embedFont(doc, script);
+    if (script.display) await loadDisplayFont(script.display);
+  }
+
+  const layout = createLayout(doc, script);
+  // Leave room on the right for the page number, whichever way the disclaimer runs
+  const footerStyle: TextStyle = { size: 7, color: COLORS.muted, localized: disclaimer !== clinicProfile.disclaimer };
+  const footer = layout.text(disclaimer, footerStyle, layout.isRtl(footerStyle) ? 24 : 0, CONTENT_WIDTH - 24);
+  const bottom = PAGE.height - PAGE.margin - footer.height - 4;
+  let y = PAGE.margin;
+
+  const newPage = () => {
+    doc.addPage();
+    y = PAGE.margin;
+  };
+
+  const place = (block: Block, after = 0) => {
+    if (y + block.height > bottom && y > PAGE.margin) newPage();
+    block.draw(y);
+    y += block.height + after;
+  };
+
+  const rule = (color: RGB = COLORS.rule, width = 0.3) => {
+    doc.setDrawColor(...color);
+    doc.setLineWidth(width);
+    doc.line(PAGE.margin, y, PAGE.width - PAGE.margin, y);
+  };
+
+  // Letterhead
+  const headerTop = y;
+  let textIndent = 0;
+  if (clinicProfile.logo) {
+    const { width, height } = doc.getImageProperties(clinicProfile.logo);
+    const logoHeight = 16;
+    const logoWidth = Math.min((width / height) * logoHeight, 40);
+    doc.addImage(clinicProfile.logo, 'PNG', PAGE.margin, y, logoWidth, logoHeight);
+    textIndent = logoWidth + 4;
+  }
+  const contact = [clinicProfile.address, clinicProfile.phone && `${t('print.tel')}: ${clinicProfile.phone}`, clinicProfile.registrationNumber && `${t('print.regNo')}: ${clinicProfile.registrationNumber}`].filter(Boolean).join(' | ');
+  const letterhead = stack([
+    layout.text(clinicProfile.clinicName, { size: 20, bold: true, color: COLORS.heading }, textIndent, CONTENT_WIDTH - textIndent - 40),
+    ...(clinicProfile.tagline ? [layout.text(clinicProfile.tagline, { size: 10, color: COLORS.muted }, textIndent, CONTENT_WIDTH - textIndent - 40)] : []),
+    ...(contact ? [layout.text(contact, { size: 8, color: COLORS.muted, localized: true }, textIndent, CONTENT_WIDTH - textIndent - 40)] : []),
+  ]);
+  letterhead.draw(y);
+  doc.setFont(LATIN_FONT.family, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...COLORS.muted);
+  // Day/month order follows the patient's locale; digits stay Latin and bidi marks are dropped because the header is set in the Latin font
+  const date = new Date().toLocaleDateString(`${locale}-u-nu-latn`, { year: 'numeric', month: '2-digit', day: '2-digit' })
+    .replace(/[\u200e\u200f\u061c]/g, '');
+  doc.text(`Date: ${date}`, PAGE.width - PAGE.margin, PAGE.margin + 4, { align: 'right', baseline: 'middle' });
+  y = headerTop + Math.max(letterhead.height, clinicProfile.logo ? 16 : 0) + 2;
+  rule(COLORS.text, 0.6);
+  y += 5;
+
+  // Patient details
+  const bmi = calculateBmi(patientInfo);
+  const vitals = [
+    patientInfo.sex && `${t('print.sex')}: ${t(`sex.${patientInfo.sex}` as MessageKey)}`,
+    patientInfo.weightKg && `${t('print.weight')}: ${patientInfo.weightKg} kg`,
+    patientInfo.heightCm && `${t('print.height')}: ${patientInfo.heightCm} cm`,
+    bmi !== null && `${t('print.bmi')}: ${bmi}`,
+  ].filter(Boolean).join(' | ');
+  const clinicalNotes = ([
+    ['allergies', t('print.allergies'), patientInfo.allergies],
+    ['currentMedications', t('print.currentMedications'), patientInfo.currentMedications],
+    ['chronicConditions', t('print.chronicConditions'), patientInfo.chronicConditions],
+    ['pregnancy', t('print.pregnancy'), patientInfo.pregnancyStatus ? t(`pregnancy.${patientInfo.pregnancyStatus}` as MessageKey) : ''],
+  ] as const).filter(([, , value]) => value?.trim());
+
+  const labelStyle: TextStyle = { size: 9, color: COLORS.muted, localized: true };
+  const patientBlocks: Block[] = [
+    layout.text(patientInfo.name, { size: 15, bold: true, localized: true }),
+    layout.text(`${t('print.age')}: ${patientInfo.age} | ${t('print.district')}: ${patientInfo.district}${patientInfo.cell ? ` | ${t('print.cell')}: ${patientInfo.cell}` : ''}`, labelStyle),
+  ];
+  if (vitals) patientBlocks.push(layout.text(vitals, labelStyle));
+  clinicalNotes.forEach(([key, label, value]) => patientBlocks.push(
+    layout.text(`${label}: ${value}`, { size: 9, bold: key === 'allergies', color: key === 'allergies' ? COLORS.allergy : COLORS.text, localized: true }, 0, CONTENT_WIDTH - 8)
+  ));
+  patientBlocks.push(spacer(1.5));
+  patientBlocks.push(layout.text(t('print.condition'), { ...labelStyle, bold: true }));
+  patientBlocks.push(layout.text(prescription.illnessTitle, { size: 12, bold: true, color: COLORS.heading, localized: true }, 0, CONTENT_WIDTH - 8));
+  if (triage) {
+    const override = triage.overriddenAt ? ` ${t('print.overridden', { date: new Date(triage.overriddenAt).toLocaleString(locale) })}` : '';
+    const urgency = `${t(`urgency.${triage.urgency}` as MessageKey)} — ${t(`urgencyNote.${triage.urgency}` as MessageKey)}`;
+    patientBlocks.push(layout.text(`${t('print.triage')}: ${urgency}${override}`, { size: 9, bold: true, localized: true }, 0, CONTENT_WIDTH - 8));
+  }
+  patientBlocks.push(review.status === 'approved'
+    ? layout.text(t('print.approvedStamp', { name: review.reviewerName ?? '', date: new Date(review.approvedAt!).toLocaleString(locale) }), { size: 9, bold: true, color: [22, 101, 52], localized: true }, 0, CONTENT_WIDTH - 8)
+    : layout.text(t('print.draftStamp'), { size: 9, bold: true, color: SEVERITY_COLORS.moderate.text, localized: true }, 0, CONTENT_WIDTH - 8));
+  const patientPanel = stack(patientBlocks, 0.8);
+  doc.setFillColor(...COLORS.panel);
+  doc.setDrawColor(...COLORS.rule);
+  doc.roundedRect(PAGE.margin - 2, y - 3, CONTENT_WIDTH + 4, patientPanel.height + 6, 2, 2, 'FD');
+  patientPanel.draw(y);
+  y += patientPanel.height + 10;
+
+  if (warnings.length > 0) {
+    place(layout.text(`${t('print.safetyCheck')}: ${t('print.safetyFlagged', { count: warnings.length })}`, { size: 9, bold: true, color: SEVERITY_COLORS.moderate.text, localized: true }), 6);
+  }
+
+  // Sections
+  const bodyStyle: TextStyle = { size: 11, localized: true };
+  const item = (blocks: Block[]): Block => {
+    const body = stack(blocks, 0.5);
+    return {
+      height: body.height,
+      draw: (top) => {
+        const bulletX = layout.isRtl(bodyStyle) ? PAGE.width - PAGE.margin - 1.5 : PAGE.margin + 1.5;
+        doc.setFillColor(...COLORS.text);
+        doc.circle(bulletX, top + layout.lineHeightOf(bodyStyle) / 2, 0.6, 'F');
+        body.draw(top);
+      },
+    };
+  };
+
+  const severityLabel = (warning: SafetyWarning) => t(`severity.${warning.severity}` as MessageKey);
+
+  // The severity is a printed label in the patient's language; the warning itself is English, so it goes on its own line
+  const warningBlock = (warning: SafetyWarning): Block => {
+    const colors = SEVERITY_COLORS[warning.severity];
+    const indent = 8;
+    const body = stack([
+      layout.text(severityLabel(warning), { size: 8, bold: true, color: colors.text, localized: true }, indent + 2, CONTENT_WIDTH - indent - 4),
+      layout.text(`${warning.title}: ${warning.message}`, { size: 8, color: colors.text }, indent + 2, CONTENT_WIDTH - indent - 4),
+    ]);
+    return {
+      height: body.height + 2,
+      draw: (top) => {
+        doc.setFillColor(...colors.fill);
+        doc.rect(PAGE.margin + indent, top, CONTENT_WIDTH - indent, body.height + 2, 'F');
+        doc.setFillColor(...colors.bar);
+        doc.rect(PAGE.margin + indent, top, 1, body.height + 2, 'F');
+        body.draw(top + 1);
+      },
+    };
+  };
+
+  const localizedItem = (value: string, style: Partial<TextStyle> = {}) =>
+    layout.text(value, { ...bodyStyle, ...style }, 6, CONTENT_WIDTH - 6);
+
+  const sections: { heading: string; items: Block[] }[] = [];
+  const warningsFor = (section: number, index: number) =>
+    warnings.filter(warning => warning.items.some(ref => ref.section === section && ref.item === index));
+
+  // Side-by-side plans: a label column, then one column per plan; each row is its own block so long plans break across pages
+  const comparisonSection = (treatments: TreatmentSection[]) => {
+    const labelWidth = 30;
+    const gap = 3;
+    const columnWidth = (CONTENT_WIDTH - labelWidth) / treatments.length;
+    const cellStyle: TextStyle = { size: 9, localized: true };
+    const documentRtl = layout.isRtl(cellStyle);
+    // English text such as safety warnings runs left to right, so its column has to be mirrored by hand
+    const cell = (value: string, style: TextStyle, column: number) => {
+      const width = columnWidth - gap;
+      const start = labelWidth + column * columnWidth;
+      return layout.text(value, style, documentRtl && !layout.isRtl(style) ? CONTENT_WIDTH - start - width : start, width);
+    };
+    const row = (label: string, cells: Block[][]): Block => {
+      const title = layout.text(label, { ...cellStyle, bold: true }, 0, labelWidth - gap);
+      const columns = cells.map(blocks => stack(blocks, 0.5));
+      const height = Math.max(title.height, ...columns.map(column => column.height)) + 3;
+      return {
+        height,
+        draw: (top) => {
+          doc.setDrawColor(...COLORS.rule);
+          doc.setLineWidth(0.2);
+          doc.line(PAGE.margin, top, PAGE.width - PAGE.margin, top);
+          title.draw(top + 1.5);
+          columns.forEach(column => column.draw(top + 1.5));
+        },
+      };
+    };
+
+    const plans = treatments.map((section, sectionIndex) => [
+      ...section.medications.flatMap((medication, i) => {
+        if (medication.struck) return [];
+        const schedule = [medication.dosage, medication.duration, medication.route].filter(Boolean).join(', ');
+        return [[
+          cell(`• ${[medication.name, medication.strength].filter(Boolean).join(' ')}${schedule ? ` — ${schedule}` : ''}`, cellStyle, sectionIndex),
+          ...(medication.notes ? [cell(medication.notes, { ...cellStyle, size: 8, color: COLORS.muted }, sectionIndex)] : []),
+          ...(medication.reviewNote ? [cell(`${t('print.practitionerNote')}: ${medication.reviewNote}`, { size: 8, color: COLORS.heading, localized: true }, sectionIndex)] : []),
+          ...warningsFor(sectionIndex, i).flatMap(warning => [
+            cell(severityLabel(warning), { size: 7, bold: true, color: SEVERITY_COLORS[warning.severity].text, localized: true }, sectionIndex),
+            cell(warning.title, { size: 7, color: SEVERITY_COLORS[warning.severity].text }, sectionIndex),
+          ]),
+        ]];
+      }),
+      ...section.instructions.map(line => [cell(`• ${line}`, cellStyle, sectionIndex)]),
+    ]);
+    const planRows = Array.from({ length: Math.max(...plans.map(plan => plan.length), 0) }, (_, i) =>
+      row(i === 0 ? t('compare.plan') : '', plans.map(plan => plan[i] ?? [])));
+
+    return {
+      heading: t('compare.title'),
+      items: [
+        row('', treatments.map((section, i) => [cell(section.heading, { ...cellStyle, size: 10, bold: true, color: COLORS.heading }, i)])),
+        ...buildComparisonRows(treatments, t).map(({ label, cells }) =>
+          row(label, cells.map((lines, i) => lines.map(line => cell(lines.length > 1 ? `• ${line}` : line, cellStyle, i))))),
+        ...planRows,
+      ],
+    };
+  };
+
+  if (symptomSummary) {
+    sections.push({
+      heading: t('guided.summaryTitle'),
+      items: describeSymptomSummary(symptomSummary, t).map(line => item([localizedItem(line)])),
+    });
+  }
+  if (prescription.reportAnalysis && prescription.reportAnalysis.findings.length > 0) {
+    sections.push({
+      heading: prescription.reportAnalysis.heading,
+      items: prescription.reportAnalysis.findings.map(finding => item([
+        localizedItem(`${finding.test}: ${finding.result}${finding.interpretation ? ` — ${finding.interpretation}` : ''}`),
+      ])),
+    });
+  }
+  if (view === 'compare' && canCompare(prescription)) {
+    sections.push(comparisonSection(prescription.treatments));
+  } else {
+    prescription.treatments.forEach((section, sectionIndex) => {
+      sections.push({
+        heading: section.heading,
+        items: [
+          // Struck medicines are not part of the released plan
+          ...section.medications.flatMap((medication, i) => {
+            if (medication.struck) return [];
+            const schedule = [medication.dosage, medication.duration, medication.route].filter(Boolean).join(', ');
+            const blocks = [localizedItem(`${[medication.name, medication.strength].filter(Boolean).join(' ')}${schedule ? ` — ${schedule}` : ''}`)];
+            if (medication.notes) blocks.push(localizedItem(medication.notes, { size: 9, color: COLORS.muted }));
+            if (medication.reviewNote) blocks.push(layout.text(`${t('print.practitionerNote')}: ${medication.reviewNote}`, { size: 9, color: COLORS.heading, localized: true }, 6, CONTENT_WIDTH - 6));
+            warningsFor(sectionIndex, i).forEach(warning => blocks.push(warningBlock(warning)));
+            return item(blocks);
+          }),
+          ...section.instructions.map(line => item([localizedItem(line)])),
+        ],
+      });
+    });
+  }
+  if (prescription.diagnosticTests && prescription.diagnosticTests.tests.length > 0) {
+    sections.push({
+      heading: prescription.diagnosticTests.heading,
+      items: prescription.diagnosticTests.tests.map(test => item([
+        localizedItem(`${test.name}${test.reason ? ` — ${test.reason}` : ''}`),
+      ])),
+    });
+  }
+  if (prescription.advice.items.length > 0) {
+    sections.push({ heading: prescription.advice.heading, items: prescription.advice.items.map(line => item([localizedItem(line)])) });
+  }
+
+  sections.forEach(({ heading, items }) => {
+    const title = layout.text(heading, { size: 14, bold: true, color: COLORS.heading, localized: true });
+    const header: Block = {
+      height: title.height + 3,
+      draw: (top) => {
+        title.draw(top);
+        doc.setDrawColor(...COLORS.rule);
+        doc.setLineWidth(0.4);
+        doc.line(PAGE.margin, top + title.height + 1, PAGE.width - PAGE.margin, top + title.height + 1);
+      },
+    };
+    // Keep a section on one page when it fits; long sections continue on the next page
+    const sectionHeight = stack([header, ...items], 2).height;
+    if (y + sectionHeight > bottom && y > PAGE.margin && sectionHeight <= bottom - PAGE.margin) newPage();
+    // Never leave a heading stranded at the bottom of a page
+    if (y + header.height + (items[0]?.height ?? 0) > bottom && y > PAGE.margin) newPage();
+    place(header, 2);
+    items.forEach(entry => place(entry, 2));
+    y += 6;
+  });
+
+  if (review.notes.trim()) {
+    place(stack([
+      layout.text(t('print.practitionerNotes'), { size: 11, bold: true, color: COLORS.heading, localized: true }),
+      layout.text(review.notes.trim(), { size: 10 }),
+    ], 1), 6);
+  }
+
+  if (chat && chat.length > 0) {
+    const title = layout.text(t('print.followUp'), { size: 11, bold: true, color: COLORS.heading, localized: true });
+    const messages = chat.map(message => message.role === 'patient'
+      ? layout.text(`${t('print.question')}: ${message.text}`, { size: 10, bold: true, localized: true })
+      : layout.text(`${t('print.answer')}: ${message.text}`, { size: 10, localized: true }));
+    if (y + title.height + messages[0].height > bottom && y > PAGE.margin) newPage();
+    place(title, 1);
+    messages.forEach(message => place(message, 1.5));
+    y += 4.5;
+  }
+
+  if (shareQr) {
+    const size = 28;
+    const captionStyle: TextStyle = { size: 8, color: COLORS.muted, localized: true };
+    const caption = layout.text(t('share.scan'), captionStyle, 0, size + 12);
+    place({
+      height: size + 1 + caption.height,
+      draw: (top) => {
+        doc.addImage(shareQr, 'PNG', layout.isRtl(captionStyle) ? PAGE.width - PAGE.margin - size : PAGE.margin, top, size, size);
+        caption.draw(top + size + 1);
+      },
+    }, 4);
+  }
+
+  // Only approved prescriptions carry the practitioner's name and signature
+  if (review.status === 'approved') {
+    const boxWidth = 60;
+    const signatureHeight = clinicProfile.signature ? 16 : 0;
+    const label = layout.text(t('print.reviewingPractitioner'), { size: 8, color: COLORS.muted, localized: true }, CONTENT_WIDTH - boxWidth, boxWidth);
+    const name = layout.text(review.reviewerName ?? '', { size: 10, bold: true }, CONTENT_WIDTH - boxWidth, boxWidth);
+    place({
+      height: signatureHeight + 2 + name.height + label.height,
+      draw: (top) => {
+        const left = PAGE.width - PAGE.margin - boxWidth;
+        if (clinicProfile.signature) {
+          const { width, height } = doc.getImageProperties(clinicProfile.signature);
+          const imageWidth = Math.min((width / height) * signatureHeight, boxWidth);
+          doc.addImage(clinicProfile.signature, 'PNG', left + (boxWidth - imageWidth) / 2, top, imageWidth, signatureHeight);
+        }
+        doc.setDrawColor(...COLORS.muted);
+        doc.setLineWidth(0.3);
+        doc.line(left, top + signatureHeight + 1, left + boxWidth, top + signatureHeight + 1);
+        name.draw(top + signatureHeight + 2);
+        label.draw(top + signatureHeight + 2 + name.height);
+      },
+    });
+  }
+
+  // Footer with the disclaimer and page numbers on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    y = bottom + 3;
+    rule();
+    footer.draw(y + 1.5);
+    doc.setFont(LATIN_FONT.family, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.muted);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE.width - PAGE.margin, y + 4, { align: 'right', baseline: 'middle' });
+  }
+
+  doc.setProperties({ title: `Prescription — ${patientInfo.name}`, subject: prescription.illnessTitle, creator: clinicProfile.clinicName });
+  return doc.output('blob');
+};
@@ -0,0 +1,159 @@
+import { DiagnosticTest, MedicationItem, PrescriptionData, ReportFinding, TreatmentModality, TreatmentSection } from '../types';
+import { findModality } from './modalities';
+import { providerError } from './providers/errors';
+
+// Checks a generated prescription against the rules its prompt set. Small slips are repaired here;
+// the rest are listed as plain instructions, so the model can be asked to fix exactly those.
+
+export interface PrescriptionRules {
+  selectedTreatments: string[];
+  modalities: TreatmentModality[];
+  language: string;
+  // Off for providers that always answer in English, like the offline mock
+  checkLanguage: boolean;
+}
+
+// The script each supported language is written in. Spanish, French and Portuguese share English's,
+// so for those only the script is checked, not the language.
+const LANGUAGE_SCRIPTS: Record<string, RegExp> = {
+  English: /\p{Script=Latin}/u,
+  Spanish: /\p{Script=Latin}/u,
+  French: /\p{Script=Latin}/u,
+  Portuguese: /\p{Script=Latin}/u,
+  Urdu: /\p{Script=Arabic}/u,
+  Arabic: /\p{Script=Arabic}/u,
+  Hindi: /\p{Script=Devanagari}/u,
+  Bengali: /\p{Script=Bengali}/u,
+  'Mandarin Chinese': /\p{Script=Han}/u,
+  Russian: /\p{Script=Cyrillic}/u,
+};
+// Medicine names and abbreviations are often kept in English, so only most of the text has to match
+const MIN_SCRIPT_SHARE = 0.6;
+
+const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+const list = <T>(value: unknown): T[] => (Array.isArray(value) ? value.filter(item => item !== null && item !== undefined) : []);
+
+// Models sometimes wrap the JSON in a code fence or add a sentence around it
+const extractJson = (raw: string): unknown => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end < start) throw providerError('InvalidOutput', { cause: new Error('No JSON object in the response') });
+  try {
+    return JSON.parse(raw.slice(start, end + 1));
+  } catch (error) {
+    throw providerError('InvalidOutput', { cause: error });
+  }
+};
+
+const toMedication = (value: Partial<MedicationItem>): MedicationItem => ({
+  name: text(value.name).trim(),
+  strength: text(value.strength),
+  dosage: text(value.dosage).trim(),
+  duration: text(value.duration).trim(),
+  route: text(value.route),
+  notes: text(value.notes),
+  ...(value.food ? { food: value.food } : {}),
+});
+
+const toSection = (value: Partial<TreatmentSection>): TreatmentSection => ({
+  treatment: text(value.treatment),
+  heading: text(value.heading).trim(),
+  medications: list<Partial<MedicationItem>>(value.medications).map(toMedication),
+  instructions: list<unknown>(value.instructions).map(text).filter(Boolean),
+  ...(value.overview ? { overview: value.overview } : {}),
+});
+
+// The 'treatment' ids must match the selection exactly. Near misses (case, spacing) are matched up,
+// plans the model labelled some other way take the selected ids nobody answered, in order, and
+// duplicates or plans nobody asked for are dropped.
+const matchTreatments = (sections: TreatmentSection[], selectedTreatments: string[]): TreatmentSection[] => {
+  const normalize = (id: string) => id.trim().toLowerCase().replace(/\s+/g, ' ');
+  const matched = sections.map(section => ({
+    ...section,
+    treatment: selectedTreatments.find(id => normalize(id) === normalize(section.treatment)) ?? section.treatment,
+  }));
+  const unanswered = selectedTreatments.filter(id => !matched.some(section => section.treatment === id));
+  const unknown = matched.filter(section => !selectedTreatments.includes(section.treatment));
+  const relabelled = unknown.length === unanswered.length
+    ? matched.map(section => (unknown.includes(section) ? { ...section, treatment: unanswered[unknown.indexOf(section)] } : section))
+    : matched;
+  return relabelled.filter((section, index) =>
+    selectedTreatments.includes(section.treatment) && relabelled.findIndex(other => other.treatment === section.treatment) === index
+  );
+};
+
+// Parses the raw response and fills in whatever is missing with empty values, so the checks below
+// (and the screen) can rely on the shape. Throws InvalidOutput when there is no JSON object at all.
+export const parsePrescription = (raw: string, selectedTreatments: string[]): PrescriptionData => {
+  const value = extractJson(raw);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw providerError('InvalidOutput', { cause: new Error('The response is not a JSON object') });
+  }
+  const data = value as Partial<PrescriptionData>;
+  return {
+    illnessTitle: text(data.illnessTitle).trim(),
+    ...(data.reportAnalysis ? {
+      reportAnalysis: {
+        heading: text(data.reportAnalysis.heading),
+        findings: list<ReportFinding>(data.reportAnalysis.findings),
+      },
+    } : {}),
+    treatments: matchTreatments(list<Partial<TreatmentSection>>(data.treatments).map(toSection), selectedTreatments),
+    ...(data.diagnosticTests ? {
+      diagnosticTests: {
+        heading: text(data.diagnosticTests.heading),
+        tests: list<DiagnosticTest>(data.diagnosticTests.tests),
+      },
+    } : {}),
+    advice: {
+      heading: text(data.advice?.heading).trim(),
+      items: list<unknown>(data.advice?.items).map(text).filter(Boolean),
+    },
+  };
+};
+
+// The share of letters in the title, headings and advice written in the language's script
+const scriptShare = (data: PrescriptionData, script: RegExp): number => {
+  const sample = [data.illnessTitle, ...data.treatments.map(section => section.heading), data.advice.heading, ...data.advice.items].join(' ');
+  const letters = [...sample].filter(char => /\p{L}/u.test(char));
+  return letters.length === 0 ? 1 : letters.filter(char => script.test(char)).length / letters.length;
+};
+
+const describeMedicationGaps = (id: string, medications: MedicationItem[]): string[] =>
+  medications.flatMap((medication, index) => {
+    const missing = (['name', 'dosage', 'duration'] as const).filter(field => !medication[field]);
+    if (missing.length === 0) return [];
+    const label = medication.name ? `"${medication.name}"` : `medicine ${index + 1}`;
+    return [`In the plan for "${id}", ${label} is missing its ${missing.join(' and ')}. Every medicine needs a name, dosage and duration.`];
+  });
+
+// Returns the broken rules as instructions to the model; an empty list means the prescription can be used
+export const validatePrescription = (data: PrescriptionData, rules: PrescriptionRules): string[] => {
+  const issues: string[] = [];
+  if (!data.illnessTitle) issues.push("'illnessTitle' is empty. Give a short title for the illness.");
+
+  rules.selectedTreatments.forEach(id => {
+    const section = data.treatments.find(item => item.treatment === id);
+    if (!section) {
+      issues.push(`There is no plan for "${id}". Add one 'treatments' entry with 'treatment' set to exactly "${id}".`);
+      return;
+    }
+    if (!section.heading) issues.push(`The plan for "${id}" has no 'heading'. Add a translated heading such as "${id} Prescription".`);
+    if (findModality(rules.modalities, id)?.outputFormat === 'medications') {
+      if (section.medications.length === 0) issues.push(`The plan for "${id}" lists no medicines. Put each one in 'medications'.`);
+      issues.push(...describeMedicationGaps(id, section.medications));
+    } else if (section.medications.length === 0 && section.instructions.length === 0) {
+      issues.push(`The plan for "${id}" is empty. Fill 'medications' or 'instructions'.`);
+    }
+  });
+
+  if (!data.advice.heading || data.advice.items.length === 0) {
+    issues.push(`'advice' must have the heading "General Advice" (translated to ${rules.language}) and at least one item.`);
+  }
+
+  const script = LANGUAGE_SCRIPTS[rules.language];
+  if (rules.checkLanguage && script && scriptShare(data, script) < MIN_SCRIPT_SHARE) {
+    issues.push(`The response is not written in ${rules.language}. Write the title, every heading and all advice in ${rules.language}, in its own script.`);
+  }
+  return issues;
+};
@@ -0,0 +1,82 @@
+import type { MessageKey, Translate } from '../i18n';
+
+// Failures from any provider are turned into a few named errors, so callers can tell a rate limit
+// from a refusal without knowing which service answered.
+export type ProviderErrorName = 'QuotaExceeded' | 'SafetyBlocked' | 'NetworkError' | 'ServiceUnavailable' | 'InvalidOutput';
+
+export interface ProviderError extends Error {
+  name: ProviderErrorName;
+  // How long the service asked us to wait before trying again
+  retryAfterMs?: number;
+}
+
+const MESSAGES: Record<ProviderErrorName, string> = {
+  QuotaExceeded: "The AI service's usage limit was reached. Wait a minute and try again, or check the plan for this API key.",
+  SafetyBlocked: "The AI service declined to answer this request. Rephrase the description and try again.",
+  NetworkError: "Could not reach the AI service. Check the internet connection and try again.",
+  ServiceUnavailable: "The AI service is busy or unavailable right now. Please try again in a few minutes.",
+  InvalidOutput: "The AI returned a response that could not be used. Please try again.",
+};
+
+export const providerError = (name: ProviderErrorName, details: { retryAfterMs?: number; cause?: unknown } = {}): ProviderError =>
+  Object.assign(new Error(MESSAGES[name], { cause: details.cause }), { name, retryAfterMs: details.retryAfterMs });
+
+const PROVIDER_ERROR_NAMES = Object.keys(MESSAGES);
+
+export const isProviderError = (error: unknown): error is ProviderError =>
+  error instanceof Error && PROVIDER_ERROR_NAMES.includes(error.name);
+
+// Named failures are explained in the interface language; anything else is shown as it came
+const MESSAGE_KEYS: Record<ProviderErrorName, MessageKey> = {
+  QuotaExceeded: 'error.quota',
+  SafetyBlocked: 'error.safety',
+  NetworkError: 'error.network',
+  ServiceUnavailable: 'error.unavailable',
+  InvalidOutput: 'error.invalidOutput',
+};
+
+export const describeError = (error: unknown, t: Translate): string => {
+  if (isProviderError(error)) return t(MESSAGE_KEYS[error.name]);
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Rate limits and outages usually clear up on their own; everything else would fail the same way again
+export const isTransient = (error: unknown): error is ProviderError =>
+  isProviderError(error) && ['QuotaExceeded', 'NetworkError', 'ServiceUnavailable'].includes(error.name);
+
+// Gemini puts the suggested delay in the error body, e.g. "retryDelay": "37s"
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Maps an HTTP status, and the body the service sent with it, to a named error
+export const errorForStatus = (status: number, body: string, retryAfterMs?: number): Error => {
+  const cause = new Error(`AI server responded with ${status}: ${body}`);
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(body)) {
+    return providerError('QuotaExceeded', { retryAfterMs: retryAfterMs ?? parseRetryDelay(body), cause });
+  }
+  if (status >= 500 || status === 408) return providerError('ServiceUnavailable', { retryAfterMs, cause });
+  return cause;
+};
+
+// Leaves cancellations and errors that are already named alone
+export const classifyProviderError = (error: unknown): unknown => {
+  if (!(error instanceof Error) || error.name === 'AbortError' || isProviderError(error)) return error;
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') return errorForStatus(status, error.message);
+  // What fetch rejects with in each browser when the request never got an answer
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+    return providerError('NetworkError', { cause: error });
+  }
+  return error;
+};
@@ -0,0 +1,52 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { AIProvider, AISettings } from './types';
+import { providerError } from './errors';
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+// A blocked prompt or answer comes back as an empty response with the reason attached
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw providerError('SafetyBlocked', { cause: new Error(response.promptFeedback?.blockReasonMessage ?? finishReason ?? 'Blocked') });
+  }
+};
+
+export const createGeminiProvider = (settings: AISettings): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+    generateJson: async ({ prompt, files, schema }, { signal, onText } = {}) => {
+      const params = {
+        model: settings.model,
+        contents: { parts: [{ text: prompt }, ...files] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          abortSignal: signal,
+        },
+      };
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        checkBlocked(response);
+        return response.text ?? '';
+      }
+
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        signal?.throwIfAborted();
+        checkBlocked(chunk);
+        text += chunk.text ?? '';
+        onText(text);
+      }
+      return text;
+    },
+  };
+};
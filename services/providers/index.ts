@@ -0,0 +1,34 @@
+import { loadAISettings } from '../settings';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { withRetries } from './retry';
+import { AIProvider, AISettings } from './types';
+
+const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+export const getProvider = (settings: AISettings = loadAISettings()): AIProvider => withRetries(createProvider(settings));
+
+// Private network ranges, where a clinic would run its own model server
+const LOCAL_HOST = /^(localhost$|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)|\.local$/;
+
+// The mock and a model served on this machine or the clinic's network keep working without internet
+export const needsInternet = (settings: AISettings = loadAISettings()): boolean => {
+  if (settings.provider === 'mock') return false;
+  if (settings.provider !== 'openai') return true;
+  try {
+    return !LOCAL_HOST.test(new URL(settings.baseUrl).hostname);
+  } catch {
+    return true;
+  }
+};
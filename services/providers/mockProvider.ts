@@ -0,0 +1,130 @@
+import { FoodTiming, MedicationItem, PrescriptionData } from '../../types';
+import { AIProvider, ProviderTask, TaskInputs } from './types';
+import { detectRedFlags, maxUrgency } from '../triage';
+import { ALLOPATHY_ID, HIKMAT_ID, HOMEOPATHY_ID, findModality } from '../modalities';
+import { loadModalities } from '../settings';
+import { sleep } from './retry';
+
+// Simulated latency so loading states can be exercised in demos
+const MOCK_DELAY_MS = 800;
+// Streamed responses arrive in small chunks so progressive rendering and cancellation can be tried offline
+const MOCK_CHUNK_SIZE = 48;
+const MOCK_CHUNK_DELAY_MS = 60;
+
+const medication = (name: string, strength: string, dosage: string, duration: string, notes = '', food: FoodTiming = 'any'): MedicationItem => ({
+  name, strength, dosage, duration, route: 'Oral', notes, food,
+});
+
+const MOCK_PLANS: Record<string, Pick<PrescriptionData['treatments'][number], 'medications' | 'instructions' | 'overview'>> = {
+  [ALLOPATHY_ID]: {
+    medications: [
+      medication('Paracetamol', '500mg', '1+1+1', '5 days', 'Only when temperature is above 38°C', 'after'),
+      medication('Cetirizine', '10mg', '0+0+1', '5 days', 'May cause drowsiness'),
+      medication('Vitamin C', '500mg', '1+0+0', '10 days', '', 'after'),
+    ],
+    instructions: ['Steam inhalation twice daily'],
+    overview: { expectedDuration: '3-5 days', costTier: 'moderate', evidenceLevel: 'strong', cautions: ['Cetirizine may cause drowsiness', 'Do not exceed 4g of paracetamol a day'] },
+  },
+  [HOMEOPATHY_ID]: {
+    medications: [
+      medication('Arsenicum Album', '30C', '5+5+5 drops', '7 days', '', 'before'),
+      medication('Bryonia Alba', '30C', '5+5+5 drops', '7 days', '', 'before'),
+    ],
+    instructions: [],
+    overview: { expectedDuration: '7 days', costTier: 'low', evidenceLevel: 'limited', cautions: ['See a doctor if fever lasts more than 3 days'] },
+  },
+  [HIKMAT_ID]: {
+    medications: [
+      medication('Ginger and honey infusion', '', '1 cup twice daily', '7 days', 'Soothes the throat and eases cough'),
+      medication('Turmeric milk', '', '1 glass at night', '7 days', 'Anti-inflammatory'),
+    ],
+    instructions: ['Avoid cold drinks and fried food'],
+    overview: { expectedDuration: '5-7 days', costTier: 'low', evidenceLevel: 'traditional', cautions: ['Avoid honey for children under one year'] },
+  },
+};
+
+const prescriptionFixture = ({ selectedTreatments, hasFiles }: TaskInputs['prescription']): PrescriptionData => ({
+  illnessTitle: 'Viral Upper Respiratory Infection',
+  reportAnalysis: hasFiles
+    ? {
+        heading: 'Report Analysis Summary',
+        findings: [{ test: 'Total Leukocyte Count', result: '11.8 x10^9/L', interpretation: 'Mildly raised, consistent with infection' }],
+      }
+    : undefined,
+  treatments: selectedTreatments.map(treatment => ({
+    treatment,
+    heading: `${treatment} Prescription`,
+    ...(MOCK_PLANS[treatment] ?? {
+      // Modalities that prescribe remedies get one, so the output checks pass offline too
+      medications: findModality(loadModalities(), treatment)?.outputFormat === 'instructions' ? [] : [medication('Sample remedy', '', '1+1+1', '5 days')],
+      instructions: [`Sample guidance for ${treatment}.`],
+      overview: { expectedDuration: '', costTier: 'low', evidenceLevel: 'traditional', cautions: [] },
+    }),
+  })),
+  diagnosticTests: {
+    heading: 'Suggested Tests',
+    tests: [{ name: 'Complete Blood Count (CBC)', reason: 'If fever persists beyond 3 days' }],
+  },
+  advice: {
+    heading: 'General Advice',
+    items: ['Drink plenty of fluids', 'Rest well', 'Seek care if breathing becomes difficult'],
+  },
+});
+
+// Mirrors the local red-flag rules so demos of the emergency screen behave predictably
+const triageFixture = ({ description, patientInfo }: TaskInputs['triage']) => {
+  const flags = detectRedFlags(description, patientInfo);
+  return {
+    urgency: maxUrgency(...flags.map(flag => flag.urgency)),
+    reasons: flags.length > 0 ? flags.map(flag => flag.label) : ['No red-flag symptoms described.'],
+  };
+};
+
+// The mock cannot translate; it echoes the source text so the layout can still be checked
+const translationFixture = ({ texts }: TaskInputs['translation']) => ({ translations: texts });
+
+// A typical CBC and sugar panel; glucose is in mmol/L so unit normalization shows up in demos
+const labExtractionFixture = (_: TaskInputs['labExtraction']) => ({
+  results: [
+    { test: 'Hemoglobin', value: '11.2', unit: 'g/dL', referenceRange: '12-16', flag: 'low', reportDate: '2024-05-02' },
+    { test: 'Total Leukocyte Count', value: '11.8', unit: 'x10^9/L', referenceRange: '4-11', flag: 'high', reportDate: '2024-05-02' },
+    { test: 'Platelets', value: '245', unit: 'x10^9/L', referenceRange: '150-400', flag: 'normal', reportDate: '2024-05-02' },
+    { test: 'Fasting Blood Glucose', value: '7.4', unit: 'mmol/L', referenceRange: '3.9-5.5', flag: 'high', reportDate: '2024-05-02' },
+    { test: 'Dengue NS1 Antigen', value: 'Negative', unit: '', referenceRange: 'Negative', flag: 'normal', reportDate: '2024-05-02' },
+  ],
+});
+
+// A fixed recording; the mock cannot hear audio, so the transcript is always this English complaint
+const transcriptionFixture = (_: TaskInputs['transcription']) => ({
+  transcript: 'I have had a fever and a dry cough for three days. My head hurts and my whole body aches, especially at night.',
+  symptoms: ['Fever for 3 days', 'Dry cough', 'Headache', 'Body aches, worse at night'],
+});
+
+const chatFixture = ({ question, history }: TaskInputs['chat']) => ({
+  answer: `(Offline demo answer ${history.filter(message => message.role === 'assistant').length + 1}) You asked: "${question}". Keep following the plan above, take medicines after food unless the notes say otherwise, and see a doctor in person if the symptoms get worse or do not improve within 3 days.`,
+});
+
+const fixtures: { [T in ProviderTask]: (input: TaskInputs[T]) => unknown } = {
+  prescription: prescriptionFixture,
+  triage: triageFixture,
+  translation: translationFixture,
+  labExtraction: labExtractionFixture,
+  transcription: transcriptionFixture,
+  chat: chatFixture,
+};
+
+// Deterministic, offline provider for development and demos. No API key or network needed.
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  generateJson: async ({ task, input }, { signal, onText } = {}) => {
+    await sleep(MOCK_DELAY_MS, signal);
+    const text = JSON.stringify(fixtures[task](input));
+    if (onText) {
+      for (let end = MOCK_CHUNK_SIZE; end < text.length + MOCK_CHUNK_SIZE; end += MOCK_CHUNK_SIZE) {
+        onText(text.slice(0, end));
+        await sleep(MOCK_CHUNK_DELAY_MS, signal);
+      }
+    }
+    return text;
+  },
+});
@@ -0,0 +1,96 @@
+import { Schema } from "@google/genai";
+import { FilePart } from '../../types';
+import { AIProvider, AISettings } from './types';
+import { errorForStatus, parseRetryAfter, providerError } from './errors';
+
+// Converts the Gemini schema dialect (upper-case types, enum formats) into plain JSON Schema
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const toContentPart = ({ inlineData }: FilePart) => {
+  const dataUrl = `data:${inlineData.mimeType};base64,${inlineData.data}`;
+  if (inlineData.mimeType.startsWith('audio/')) {
+    // Audio goes in raw; the format is the mime subtype, e.g. 'wav' or 'webm'
+    return { type: 'input_audio', input_audio: { data: inlineData.data, format: inlineData.mimeType.slice('audio/'.length) } };
+  }
+  return inlineData.mimeType.startsWith('image/')
+    ? { type: 'image_url', image_url: { url: dataUrl } }
+    : { type: 'file', file: { filename: 'report.pdf', file_data: dataUrl } };
+};
+
+// Reads a server-sent event stream of chat completion chunks
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const choice = JSON.parse(data).choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw providerError('SafetyBlocked');
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+// Talks to any server exposing the OpenAI chat completions API (OpenAI, Ollama, llama.cpp, vLLM...)
+export const createOpenAiCompatibleProvider = (settings: AISettings): AIProvider => ({
+  id: 'openai',
+  generateJson: async ({ prompt, files, schema }, { signal, onText } = {}) => {
+    const response = await fetch(`${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [
+          {
+            role: 'system',
+            content: `Respond only with a JSON object that matches this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}`,
+          },
+          {
+            role: 'user',
+            content: [{ type: 'text', text: prompt }, ...files.map(toContentPart)],
+          },
+        ],
+        response_format: { type: 'json_object' },
+        stream: !!onText,
+      }),
+    });
+
+    if (!response.ok) {
+      throw errorForStatus(response.status, await response.text(), parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    if (onText && response.body) return readStream(response.body, onText);
+    const data = await response.json();
+    // The content filter's refusal arrives as a normal, but empty, answer
+    if (data.choices?.[0]?.finish_reason === 'content_filter') throw providerError('SafetyBlocked');
+    return data.choices?.[0]?.message?.content ?? '';
+  },
+});
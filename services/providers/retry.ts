@@ -0,0 +1,59 @@
+import { AIProvider } from './types';
+import { classifyProviderError, isTransient } from './errors';
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 2_000;
+// A service asking for a longer wait than this is out of quota, not just rate limiting
+const MAX_DELAY_MS = 30_000;
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// 2s, 4s, 8s, each with up to a quarter more so several tabs do not retry in step
+const backoff = (attempt: number) => {
+  const delay = BASE_DELAY_MS * 2 ** attempt;
+  return delay + Math.random() * delay * 0.25;
+};
+
+// With the device offline a lost connection will not come back within the backoff, so the caller
+// can queue the request straight away instead of waiting out the retries
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Names provider errors and retries rate limits, outages and dropped connections with exponential
+// backoff. A streamed response is not retried once text has arrived, so the partial result is kept.
+export const withRetries = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generateJson: async (request, options = {}) => {
+    const { signal, onText } = options;
+    let received = false;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.generateJson(request, {
+          ...options,
+          onText: onText && (text => {
+            received = true;
+            onText(text);
+          }),
+        });
+      } catch (error) {
+        const named = classifyProviderError(error);
+        if (signal?.aborted || received || attempt >= MAX_RETRIES || !isTransient(named)) throw named;
+        if (named.name === 'NetworkError' && isOffline()) throw named;
+        const delay = named.retryAfterMs ?? backoff(attempt);
+        if (delay > MAX_DELAY_MS) throw named;
+        await sleep(delay, signal);
+      }
+    }
+  },
+});
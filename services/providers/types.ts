@@ -0,0 +1,61 @@
+import { Schema } from "@google/genai";
+import { ChatMessage, FilePart, PatientInfo } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  apiKey: string; // Falls back to the build-time key for Gemini
+}
+
+// The inputs each task was built from; the mock provider derives its fixtures from these.
+export interface TaskInputs {
+  prescription: {
+    patientInfo: PatientInfo;
+    selectedTreatments: string[];
+    hasFiles: boolean;
+  };
+  triage: {
+    patientInfo: PatientInfo;
+    description: string;
+  };
+  translation: {
+    texts: string[];
+    language: string;
+  };
+  labExtraction: {
+    fileName: string;
+  };
+  transcription: {
+    language: string;
+  };
+  chat: {
+    patientInfo: PatientInfo;
+    history: ChatMessage[];
+    question: string;
+  };
+}
+
+export type ProviderTask = keyof TaskInputs;
+
+export interface JsonRequest<T extends ProviderTask = ProviderTask> {
+  task: T;
+  input: TaskInputs[T];
+  prompt: string;
+  files: FilePart[];
+  schema: Schema;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // When set, the response is streamed and this is called with the text received so far
+  onText?: (text: string) => void;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  // Resolves with the raw JSON text returned by the model
+  generateJson: <T extends ProviderTask>(request: JsonRequest<T>, options?: GenerateOptions) => Promise<string>;
+}
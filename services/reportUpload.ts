@@ -0,0 +1,163 @@
+import { ConsultationAttachment, FilePart, ReportMetadata, UploadedReport } from '../types';
+import { enhanceImage } from './imageEnhance';
+import { applyRedactions } from './imageRedaction';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// Photos are shrunk before sending, so they may be large; PDFs go to the model as they are (minus
+// any pages left out), so they have to fit within the request on their own.
+export const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+export const ACCEPTED_REPORT_TYPES = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif,application/pdf';
+
+const THUMBNAIL_WIDTH = 160;
+
+// Some systems report HEIC photos with an empty type, so the extension is checked as well
+const isHeic = (file: File) => /^image\/hei[cf]$/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+const reportKind = (file: File): UploadedReport['kind'] | null => {
+  if (file.type === 'application/pdf') return 'pdf';
+  if (['image/jpeg', 'image/png', 'image/webp'].includes(file.type) || isHeic(file)) return 'image';
+  return null;
+};
+
+// Null when the file is not a supported report or is too large
+export const checkReportFile = (file: File): UploadedReport['kind'] | null => {
+  const kind = reportKind(file);
+  if (!kind) return null;
+  return file.size <= (kind === 'pdf' ? MAX_PDF_BYTES : MAX_IMAGE_BYTES) ? kind : null;
+};
+
+export const hashReportFile = async (file: Blob): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const convertHeic = async (file: File): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+  return Array.isArray(converted) ? converted[0] : converted;
+};
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+};
+
+const renderPdfThumbnails = async (file: Blob): Promise<string[]> => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const thumbnails: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      thumbnails.push(canvas.toDataURL('image/jpeg', 0.7));
+      page.cleanup();
+    }
+    return thumbnails;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Copies the chosen pages into a new PDF, keeping their text rather than rasterizing them
+const extractPdfPages = async (file: Blob, pageIndexes: number[]): Promise<Blob> => {
+  const { PDFDocument } = await import('pdf-lib');
+  const source = await PDFDocument.load(await file.arrayBuffer(), { ignoreEncryption: true });
+  const output = await PDFDocument.create();
+  const pages = await output.copyPages(source, pageIndexes);
+  pages.forEach(page => output.addPage(page));
+  return new Blob([await output.save()], { type: 'application/pdf' });
+};
+
+// Reports that fail to preprocess are still attached; they are just sent as uploaded
+export const prepareReport = async (file: File, id: string): Promise<UploadedReport> => {
+  const { name } = file;
+  const kind = checkReportFile(file);
+  if (!kind) throw new Error(`Unsupported report file: ${file.name}`);
+  if (kind === 'pdf') {
+    let pages: UploadedReport['pages'];
+    try {
+      pages = (await renderPdfThumbnails(file)).map(thumbnail => ({ thumbnail, selected: true }));
+    } catch (err) {
+      console.error("Error previewing PDF report:", err);
+    }
+    return { id, name, size: file.size, kind, original: file, useEnhanced: false, pages };
+  }
+
+  const original = isHeic(file) ? await convertHeic(file) : file;
+  try {
+    const { blob, adjustments } = await enhanceImage(original);
+    return { id, name, size: file.size, kind, original, enhanced: blob, adjustments, useEnhanced: true };
+  } catch (err) {
+    console.error("Error enhancing report photo:", err);
+    return { id, name, size: file.size, kind, original, useEnhanced: false };
+  }
+};
+
+// Two different files with the same name would be indistinguishable in the lab results, so the
+// later one is numbered
+export const uniqueReportName = (name: string, taken: string[]): string => {
+  if (!taken.includes(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let copy = 2;
+  while (taken.includes(`${stem} (${copy})${extension}`)) copy++;
+  return `${stem} (${copy})${extension}`;
+};
+
+export const selectedPageCount = (report: UploadedReport): number =>
+  report.pages ? report.pages.filter(page => page.selected).length : 0;
+
+// A PDF with every page left out is kept in the list but not sent
+export const isReportSent = (report: UploadedReport): boolean => !report.pages || selectedPageCount(report) > 0;
+
+// The photo as it is shown, before any areas are blacked out
+export const reportImage = (report: UploadedReport): Blob =>
+  report.useEnhanced && report.enhanced ? report.enhanced : report.original;
+
+// The version of the report that is sent to the model
+export const reportContent = async (report: UploadedReport): Promise<Blob> => {
+  if (report.kind === 'image') return applyRedactions(reportImage(report), report.redactions ?? []);
+  const pages = report.pages;
+  if (!pages || pages.every(page => page.selected)) return report.original;
+  const indexes = pages.flatMap((page, index) => (page.selected ? [index] : []));
+  return extractPdfPages(report.original, indexes);
+};
+
+export const reportMetadata = (report: UploadedReport): ReportMetadata => ({
+  name: report.name,
+  type: report.kind === 'pdf' ? 'application/pdf' : report.redactions?.length ? 'image/jpeg' : reportImage(report).type,
+  size: report.size,
+});
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = (error) => reject(error);
+  });
+
+export const reportToPart = async (report: UploadedReport): Promise<FilePart> => {
+  const content = await reportContent(report);
+  return { inlineData: { mimeType: content.type, data: await blobToBase64(content) } };
+};
+
+export const reportsToParts = (reports: UploadedReport[]): Promise<FilePart[]> =>
+  Promise.all(reports.filter(isReportSent).map(reportToPart));
+
+// Pairs the sent reports with their metadata (both come from the same list, in the same order) to
+// keep them with the saved consultation
+export const reportAttachments = (reports: ReportMetadata[], files: FilePart[]): Omit<ConsultationAttachment, 'id' | 'consultationId'>[] =>
+  files.map((file, index) => ({ name: reports[index]?.name ?? `report-${index + 1}`, mimeType: file.inlineData.mimeType, data: file.inlineData.data }));
+
+// Turns a saved consultation's reports back into what the model was sent
+export const attachmentsToParts = (attachments: ConsultationAttachment[]): FilePart[] =>
+  attachments.map(attachment => ({ inlineData: { mimeType: attachment.mimeType, data: attachment.data } }));
@@ -0,0 +1,173 @@
+import { MedicationItem, MedicationRef, PatientInfo, PrescriptionData, SafetyWarning, TreatmentModality, WarningSeverity } from '../types';
+import { HOMEOPATHY_ID, findModality } from './modalities';
+import { loadModalities } from './settings';
+import { AGE_RULES, DRUGS, HERBS, INTERACTIONS, PEDIATRIC_DOSE_RULES } from './interactionData';
+import { isPediatric, parseAge, parseWeight } from './clinicalIntake';
+import { parseDosagePattern, parseStrengthMg } from './dosage';
+
+interface MatchedItem {
+  ref: MedicationRef;
+  item: MedicationItem;
+  tags: Set<string>; // Matched entry id plus its classes
+}
+
+const SEVERITY_ORDER: Record<WarningSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, name: string) =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(name)}([^a-z]|$)`).test(text);
+
+const itemText = (item: MedicationItem) => `${item.name} ${item.strength}`.toLowerCase();
+
+// Mother tinctures contain measurable herb; higher homeopathic dilutions practically do not.
+const isMotherTincture = (strength: string) => /(^|\s)(q|mt)(\s|$)|ø|mother tincture/i.test(strength);
+
+const matchItems = (
+  prescription: PrescriptionData,
+  include: (treatment: string) => boolean,
+  entries: { id: string; names: string[]; classes?: string[] }[]
+): MatchedItem[] =>
+  prescription.treatments.flatMap((section, sectionIndex) =>
+    include(section.treatment)
+      ? section.medications.flatMap((item, itemIndex) => {
+          // Medicines struck out by the reviewer are no longer part of the plan
+          if (item.struck) return [];
+          const text = itemText(item);
+          const matched = entries.filter(entry => entry.names.some(name => mentions(text, name)));
+          if (matched.length === 0) return [];
+          const tags = new Set(matched.flatMap(entry => [entry.id, ...(entry.classes ?? [])]));
+          return [{ ref: { section: sectionIndex, item: itemIndex }, item, tags }];
+        })
+      : []
+  );
+
+const refKey = (ref: MedicationRef) => `${ref.section}.${ref.item}`;
+
+const formatMg = (mg: number) => `${Math.round(mg * 10) / 10} mg`;
+
+// Milligrams per dose and per day, when both the strength and the dosage pattern can be read
+const calculateDailyMg = (item: MedicationItem): { perDose: number; perDay: number } | null => {
+  const strength = parseStrengthMg(item.strength);
+  const pattern = parseDosagePattern(item.dosage);
+  if (!strength || !pattern) return null;
+  // For liquids the pattern must be in ml; "1+1+1" of a syrup is ambiguous (spoons? ml?)
+  if (strength.perMl && !/ml/i.test(item.dosage)) return null;
+  return {
+    perDose: Math.max(...pattern) * strength.mg,
+    perDay: pattern.reduce((sum, amount) => sum + amount, 0) * strength.mg,
+  };
+};
+
+// Conventional plans are checked as drugs; every other plan's remedies are checked as herbs
+const conventionalIn = (modalities: TreatmentModality[]) => (treatment: string) =>
+  findModality(modalities, treatment)?.category === 'conventional';
+
+export const checkPrescriptionSafety = (prescription: PrescriptionData, patientInfo: PatientInfo, modalities: TreatmentModality[] = loadModalities()): SafetyWarning[] => {
+  const warnings = new Map<string, SafetyWarning>();
+  const add = (warning: Omit<SafetyWarning, 'id'>, key: string) => {
+    const id = `${warning.kind}:${key}:${warning.items.map(refKey).join(',')}`;
+    if (!warnings.has(id)) warnings.set(id, { ...warning, id });
+  };
+
+  const isConventional = conventionalIn(modalities);
+  const drugs = matchItems(prescription, isConventional, DRUGS);
+  const herbs = matchItems(prescription, treatment => !isConventional(treatment), HERBS.map(({ id, names }) => ({ id, names })));
+
+  // Drug-drug interactions within the conventional plans
+  drugs.forEach((first, i) => {
+    drugs.slice(i + 1).forEach(second => {
+      INTERACTIONS.forEach(rule => {
+        const matches =
+          (first.tags.has(rule.a) && second.tags.has(rule.b)) ||
+          (first.tags.has(rule.b) && second.tags.has(rule.a));
+        if (!matches) return;
+        add({
+          kind: 'drug-drug',
+          severity: rule.severity,
+          title: `${first.item.name} + ${second.item.name}`,
+          message: rule.message,
+          items: [first.ref, second.ref],
+        }, `${rule.a}|${rule.b}`);
+      });
+    });
+  });
+
+  // Herbal remedies (Hikmat, Homeopathy and other traditional plans) against conventional drugs
+  herbs.forEach(herbItem => {
+    const section = prescription.treatments[herbItem.ref.section];
+    const isDilution = section.treatment === HOMEOPATHY_ID && !isMotherTincture(herbItem.item.strength);
+    HERBS.filter(herb => herbItem.tags.has(herb.id)).forEach(herb => {
+      herb.interactions.forEach(rule => {
+        drugs.filter(drug => drug.tags.has(rule.b)).forEach(drug => {
+          add({
+            kind: 'drug-herb',
+            severity: isDilution ? 'minor' : rule.severity,
+            title: `${herbItem.item.name} + ${drug.item.name}`,
+            message: isDilution
+              ? `${rule.message} At a homeopathic dilution a clinically relevant interaction is unlikely.`
+              : rule.message,
+            items: [drug.ref, herbItem.ref],
+          }, `${herb.id}|${rule.b}`);
+        });
+      });
+    });
+  });
+
+  // Age-based contraindications; the rules are in years, so "6 months" counts as half a year
+  const age = parseAge(patientInfo);
+  if (age !== null) {
+    drugs.forEach(drug => {
+      AGE_RULES.forEach(rule => {
+        const applies =
+          drug.tags.has(rule.target) &&
+          (rule.below === undefined || age < rule.below) &&
+          (rule.from === undefined || age >= rule.from);
+        if (!applies) return;
+        add({
+          kind: 'age',
+          severity: rule.severity,
+          title: `${drug.item.name} at age ${patientInfo.age}`,
+          message: rule.message,
+          items: [drug.ref],
+        }, rule.target);
+      });
+    });
+  }
+
+  // Weight-based dose limits for children
+  const weight = parseWeight(patientInfo);
+  if (weight !== null && isPediatric(patientInfo)) {
+    drugs.forEach(drug => {
+      const amounts = calculateDailyMg(drug.item);
+      if (!amounts) return;
+      PEDIATRIC_DOSE_RULES.filter(rule => drug.tags.has(rule.target)).forEach(rule => {
+        const maxPerDay = Math.min(rule.maxMgPerKgPerDay * weight, rule.maxMgPerDay);
+        const maxPerDose = rule.maxMgPerKgPerDose !== undefined
+          ? Math.min(rule.maxMgPerKgPerDose * weight, maxPerDay)
+          : maxPerDay;
+        const ratio = Math.max(amounts.perDose / maxPerDose, amounts.perDay / maxPerDay);
+        if (ratio <= 1) return;
+        add({
+          kind: 'dose',
+          severity: ratio > 1.25 ? 'major' : 'moderate',
+          title: `${drug.item.name} dose for ${weight} kg`,
+          message: `Prescribed ${formatMg(amounts.perDose)} per dose and ${formatMg(amounts.perDay)} per day. The maximum for ${weight} kg is ${formatMg(maxPerDose)} per dose and ${formatMg(maxPerDay)} per day.`,
+          items: [drug.ref],
+        }, rule.target);
+      });
+    });
+  }
+
+  return [...warnings.values()].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
+
+// Names are matched in Latin script only. When the conventional plans list medicines and none of them
+// is recognised (written in another script, say), the checks above had nothing to go on.
+export const isDrugCheckBlind = (prescription: PrescriptionData, modalities: TreatmentModality[] = loadModalities()): boolean => {
+  const isConventional = conventionalIn(modalities);
+  const listed = prescription.treatments.some(section =>
+    isConventional(section.treatment) && section.medications.some(item => !item.struck && item.name.trim())
+  );
+  return listed && matchItems(prescription, isConventional, DRUGS).length === 0;
+};
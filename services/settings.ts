@@ -0,0 +1,197 @@
+import { ClinicProfile, DoseReminderPlan, EmergencyContact, PrivacySettings, QueuedConsultation, TreatmentModality } from '../types';
+import { AISettings, ProviderId } from './providers/types';
+import { createTranslator, isSupportedLanguage } from './i18n';
+import { BUILTIN_MODALITIES } from './modalities';
+import { loadProtectedItem, saveProtectedItem } from './vault';
+
+const AI_SETTINGS_KEY = 'ai-doctor:ai-settings';
+const EMERGENCY_CONTACTS_KEY = 'ai-doctor:emergency-contacts';
+const CLINIC_PROFILE_KEY = 'ai-doctor:clinic-profile';
+const UI_LANGUAGE_KEY = 'ai-doctor:ui-language';
+const MODALITIES_KEY = 'ai-doctor:modalities';
+const DOSE_REMINDERS_KEY = 'ai-doctor:dose-reminders';
+const CONSULTATION_QUEUE_KEY = 'ai-doctor:consultation-queue';
+const AUTO_LOCK_KEY = 'ai-doctor:auto-lock-minutes';
+const PRIVACY_KEY = 'ai-doctor:privacy';
+
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 60];
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'fixtures',
+};
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  value === 'gemini' || value === 'openai' || value === 'mock';
+
+// Build-time defaults come from the environment (see vite.config.ts)
+const envProvider = process.env.AI_PROVIDER;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: isProviderId(envProvider) ? envProvider : 'gemini',
+  model: process.env.AI_MODEL || DEFAULT_MODELS[isProviderId(envProvider) ? envProvider : 'gemini'],
+  baseUrl: process.env.AI_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const stored = localStorage.getItem(AI_SETTINGS_KEY);
+    if (!stored) return DEFAULT_AI_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...parsed,
+      provider: isProviderId(parsed.provider) ? parsed.provider : DEFAULT_AI_SETTINGS.provider,
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const DEFAULT_EMERGENCY_CONTACTS: EmergencyContact[] = [
+  { district: '', label: 'Rescue / Ambulance', number: '1122' },
+  { district: '', label: 'Edhi Ambulance', number: '115' },
+  { district: '', label: 'Police', number: '15' },
+];
+
+export const loadEmergencyContacts = (): EmergencyContact[] => {
+  try {
+    const stored = localStorage.getItem(EMERGENCY_CONTACTS_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_EMERGENCY_CONTACTS;
+  } catch {
+    return DEFAULT_EMERGENCY_CONTACTS;
+  }
+};
+
+export const saveEmergencyContacts = (contacts: EmergencyContact[]) => {
+  localStorage.setItem(EMERGENCY_CONTACTS_KEY, JSON.stringify(contacts));
+};
+
+// Numbers configured for the patient's district come first, followed by the ones that apply everywhere
+export const getEmergencyContacts = (district: string): EmergencyContact[] => {
+  const contacts = loadEmergencyContacts();
+  const target = district.trim().toLowerCase();
+  const local = contacts.filter(contact => contact.district.trim() && contact.district.trim().toLowerCase() === target);
+  const general = contacts.filter(contact => !contact.district.trim());
+  return [...local, ...general];
+};
+
+export const DEFAULT_DISCLAIMER = 'This prescription is generated by an AI model. It is intended for informational purposes only and should not be considered a substitute for professional medical advice, diagnosis, or treatment. Always consult with a qualified healthcare provider before making any health decisions or starting any new treatment.';
+
+export const DEFAULT_CLINIC_PROFILE: ClinicProfile = {
+  clinicName: 'AI Doctor',
+  tagline: 'Your Personal Health Advisor',
+  logo: '',
+  address: '',
+  phone: '',
+  registrationNumber: '',
+  practitionerName: '',
+  signature: '',
+  disclaimer: DEFAULT_DISCLAIMER,
+  disclaimerTranslations: {},
+};
+
+export const loadClinicProfile = (): ClinicProfile => {
+  try {
+    const stored = localStorage.getItem(CLINIC_PROFILE_KEY);
+    return stored ? { ...DEFAULT_CLINIC_PROFILE, ...JSON.parse(stored) } : DEFAULT_CLINIC_PROFILE;
+  } catch {
+    return DEFAULT_CLINIC_PROFILE;
+  }
+};
+
+export const saveClinicProfile = (profile: ClinicProfile) => {
+  localStorage.setItem(CLINIC_PROFILE_KEY, JSON.stringify(profile));
+};
+
+// The disclaimer in the patient's language, or null when it still needs translating.
+// The stock disclaimer ships with every catalog; only a customised one needs the model.
+export const getDisclaimer = (profile: ClinicProfile, language: string): string | null => {
+  if (language === 'English') return profile.disclaimer;
+  if (profile.disclaimer === DEFAULT_DISCLAIMER) return createTranslator(language)('prescription.disclaimer');
+  return profile.disclaimerTranslations[language] ?? null;
+};
+
+export const loadUiLanguage = (): string => {
+  const stored = localStorage.getItem(UI_LANGUAGE_KEY);
+  return stored && isSupportedLanguage(stored) ? stored : 'English';
+};
+
+export const saveUiLanguage = (language: string) => {
+  localStorage.setItem(UI_LANGUAGE_KEY, language);
+};
+
+// The clinic's edits are kept in order; built-ins added in later versions are appended so they still show up
+export const loadModalities = (): TreatmentModality[] => {
+  try {
+    const stored = localStorage.getItem(MODALITIES_KEY);
+    if (!stored) return BUILTIN_MODALITIES;
+    const modalities: TreatmentModality[] = JSON.parse(stored);
+    return [...modalities, ...BUILTIN_MODALITIES.filter(builtIn => !modalities.some(modality => modality.id === builtIn.id))];
+  } catch {
+    return BUILTIN_MODALITIES;
+  }
+};
+
+export const saveModalities = (modalities: TreatmentModality[]) => {
+  localStorage.setItem(MODALITIES_KEY, JSON.stringify(modalities));
+};
+
+// Reminder plans and the offline queue name the patient, so they are encrypted like the history
+// (see vault.ts) and cannot be read while the app is locked
+export const loadDoseReminders = (): Promise<DoseReminderPlan[]> => loadProtectedItem(DOSE_REMINDERS_KEY, []);
+
+export const saveDoseReminders = (plans: DoseReminderPlan[]) => saveProtectedItem(DOSE_REMINDERS_KEY, plans);
+
+export const loadConsultationQueue = (): Promise<QueuedConsultation[]> => loadProtectedItem(CONSULTATION_QUEUE_KEY, []);
+
+// Throws a QuotaExceededError when report files no longer fit in local storage
+export const saveConsultationQueue = (queue: QueuedConsultation[]) => saveProtectedItem(CONSULTATION_QUEUE_KEY, queue);
+
+// Rewrites items saved before the vault was set up, now encrypted
+export const encryptStoredSettings = async () => {
+  await saveDoseReminders(await loadDoseReminders());
+  await saveConsultationQueue(await loadConsultationQueue());
+};
+
+export const removeStoredSettings = () => {
+  localStorage.removeItem(DOSE_REMINDERS_KEY);
+  localStorage.removeItem(CONSULTATION_QUEUE_KEY);
+};
+
+export const loadAutoLockMinutes = (): number => {
+  const stored = Number(localStorage.getItem(AUTO_LOCK_KEY));
+  return AUTO_LOCK_OPTIONS.includes(stored) ? stored : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+export const saveAutoLockMinutes = (minutes: number) => {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+};
+
+// Everything is replaced unless the clinic turns it off
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  name: true,
+  cell: true,
+  district: true,
+  otherIdentifiers: true,
+};
+
+export const loadPrivacySettings = (): PrivacySettings => {
+  try {
+    const stored = localStorage.getItem(PRIVACY_KEY);
+    return stored ? { ...DEFAULT_PRIVACY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PRIVACY_SETTINGS;
+  } catch {
+    return DEFAULT_PRIVACY_SETTINGS;
+  }
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => {
+  localStorage.setItem(PRIVACY_KEY, JSON.stringify(settings));
+};
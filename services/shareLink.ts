@@ -0,0 +1,155 @@
+import { ClinicProfile, PatientInfo, PrescriptionData, PrescriptionLayout, PrescriptionReview, SymptomSummary } from '../types';
+
+// A prescription packed into the fragment of a link (#rx=...). Browsers never send the fragment to
+// the server, so the plan travels only inside the link or QR code and nothing is stored anywhere.
+// Layout: one format byte, then deflate-compressed JSON; protected links encrypt the compressed
+// bytes with AES-GCM under a key derived from the passphrase.
+
+export interface SharedPrescription {
+  patientInfo: PatientInfo;
+  prescription: PrescriptionData;
+  review: PrescriptionReview;
+  clinic: Pick<ClinicProfile, 'clinicName' | 'tagline' | 'address' | 'phone' | 'registrationNumber' | 'disclaimer'>;
+  disclaimer: string; // As printed, which may be a translation of the clinic's disclaimer
+  symptomSummary?: SymptomSummary;
+  layout?: PrescriptionLayout;
+  sharedAt: string;
+}
+
+const FRAGMENT_PREFIX = '#rx=';
+const FORMAT_PLAIN = 1;
+const FORMAT_PROTECTED = 2;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const PBKDF2_ITERATIONS = 600_000;
+
+const shareError = (name: 'InvalidShareLink' | 'PassphraseRequired' | 'WrongPassphrase' | 'UnsupportedBrowser', message: string) =>
+  Object.assign(new Error(message), { name });
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase.normalize('NFC')), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+const assertSupported = () => {
+  if (typeof CompressionStream === 'undefined' || !crypto?.subtle) {
+    throw shareError('UnsupportedBrowser', 'This browser cannot read or create shared prescriptions.');
+  }
+};
+
+export type SharePayloadInput = Omit<SharedPrescription, 'clinic' | 'sharedAt'> & { clinic: ClinicProfile };
+
+// Only what the patient needs to read the plan: struck medicines, the cell number and the clinic's
+// images (which would not fit in a QR code) are left out
+export const createSharePayload = ({ clinic, patientInfo, prescription, ...rest }: SharePayloadInput): SharedPrescription => ({
+  ...rest,
+  patientInfo: { ...patientInfo, cell: '' },
+  prescription: {
+    ...prescription,
+    treatments: prescription.treatments.map(section => ({ ...section, medications: section.medications.filter(item => !item.struck) })),
+  },
+  clinic: {
+    clinicName: clinic.clinicName,
+    tagline: clinic.tagline,
+    address: clinic.address,
+    phone: clinic.phone,
+    registrationNumber: clinic.registrationNumber,
+    disclaimer: clinic.disclaimer,
+  },
+  sharedAt: new Date().toISOString(),
+});
+
+export const encodeShareLink = async (payload: SharedPrescription, passphrase = ''): Promise<string> => {
+  assertSupported();
+  const compressed = await transform(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  if (!passphrase) return toBase64Url(Uint8Array.of(FORMAT_PLAIN, ...compressed));
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, compressed));
+  return toBase64Url(Uint8Array.of(FORMAT_PROTECTED, ...salt, ...iv, ...encrypted));
+};
+
+export const buildShareUrl = (encoded: string): string =>
+  `${window.location.origin}${window.location.pathname}${FRAGMENT_PREFIX}${encoded}`;
+
+// The encoded prescription in a location hash, or null when the hash is not a share link
+export const readShareFragment = (hash: string): string | null =>
+  hash.startsWith(FRAGMENT_PREFIX) && hash.length > FRAGMENT_PREFIX.length ? hash.slice(FRAGMENT_PREFIX.length) : null;
+
+export const isProtectedShareLink = (encoded: string): boolean => {
+  try {
+    return fromBase64Url(encoded.slice(0, 4))[0] === FORMAT_PROTECTED;
+  } catch {
+    return false;
+  }
+};
+
+export const decodeShareLink = async (encoded: string, passphrase = ''): Promise<SharedPrescription> => {
+  assertSupported();
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(encoded);
+  } catch {
+    throw shareError('InvalidShareLink', 'The link is damaged or incomplete.');
+  }
+
+  let compressed: Uint8Array;
+  if (bytes[0] === FORMAT_PLAIN) {
+    compressed = bytes.subarray(1);
+  } else if (bytes[0] === FORMAT_PROTECTED) {
+    if (!passphrase) throw shareError('PassphraseRequired', 'This prescription is protected with a passphrase.');
+    const salt = bytes.subarray(1, 1 + SALT_BYTES);
+    const iv = bytes.subarray(1 + SALT_BYTES, 1 + SALT_BYTES + IV_BYTES);
+    const key = await deriveKey(passphrase, salt);
+    try {
+      compressed = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, bytes.subarray(1 + SALT_BYTES + IV_BYTES)));
+    } catch {
+      // GCM authentication fails for a wrong passphrase and for a tampered link alike
+      throw shareError('WrongPassphrase', 'The passphrase is not correct.');
+    }
+  } else {
+    throw shareError('InvalidShareLink', 'The link is damaged or incomplete.');
+  }
+
+  try {
+    const json = new TextDecoder().decode(await transform(compressed, new DecompressionStream('deflate-raw')));
+    const payload = JSON.parse(json) as SharedPrescription;
+    if (!payload?.prescription?.treatments || !payload.patientInfo) throw new Error('Missing prescription');
+    return payload;
+  } catch (error) {
+    console.error("Error reading shared prescription:", error);
+    throw shareError('InvalidShareLink', 'The link is damaged or incomplete.');
+  }
+};
+
+// QR codes top out at about 2.9 KB; longer links are shared as text only. Null when it does not fit.
+export const renderShareQr = async (url: string): Promise<string | null> => {
+  const { toDataURL } = await import('qrcode');
+  try {
+    return await toDataURL(url, { errorCorrectionLevel: 'L', margin: 1, width: 320 });
+  } catch (error) {
+    console.error("Error rendering share QR code:", error);
+    return null;
+  }
+};
@@ -0,0 +1,85 @@
+import { AssociatedSymptom, BodyRegion, ComplaintId, DurationUnit, PainCharacter, RemedyTried, SymptomOnset, SymptomSummary } from '../types';
+import { MessageKey, Translate } from './i18n';
+
+// A small local decision tree: the complaints picked first decide which follow-up questions are asked.
+// It runs offline and asks the same questions every time, so answers stay comparable between visits.
+
+export const COMPLAINTS: ComplaintId[] = ['fever', 'cough', 'breathing', 'pain', 'stomach', 'skin', 'urinary', 'fatigue'];
+export const DURATION_UNITS: DurationUnit[] = ['hours', 'days', 'weeks', 'months'];
+export const ONSETS: SymptomOnset[] = ['sudden', 'gradual'];
+export const PAIN_CHARACTERS: PainCharacter[] = ['sharp', 'dull', 'burning', 'cramping', 'throbbing'];
+export const REMEDIES: RemedyTried[] = ['paracetamol', 'ibuprofen', 'antibiotics', 'coughSyrup', 'antacid', 'herbal', 'homeRemedy', 'nothing'];
+
+// Regions drawn on the body map; the rest cannot be pointed at on a front view and are offered as buttons
+export const MAPPED_REGIONS: BodyRegion[] = ['head', 'throat', 'chest', 'upperAbdomen', 'lowerAbdomen', 'arms', 'legs'];
+export const UNMAPPED_REGIONS: BodyRegion[] = ['back', 'joints', 'wholeBody'];
+
+interface ComplaintBranch {
+  associated: AssociatedSymptom[];
+  askLocation?: boolean;
+  askTemperature?: boolean;
+  askPainCharacter?: boolean;
+}
+
+const BRANCHES: Record<ComplaintId, ComplaintBranch> = {
+  fever: { associated: ['chills', 'sweating', 'bodyAches', 'headache', 'rash', 'lossOfAppetite'], askTemperature: true },
+  cough: { associated: ['phlegm', 'bloodInPhlegm', 'soreThroat', 'runnyNose', 'wheeze', 'chestPain'] },
+  breathing: { associated: ['wheeze', 'chestPain', 'phlegm', 'dizziness', 'swelling'] },
+  pain: { associated: ['swelling', 'numbness', 'nausea', 'dizziness'], askLocation: true, askPainCharacter: true },
+  stomach: { associated: ['nausea', 'vomiting', 'diarrhoea', 'bloodInStool', 'lossOfAppetite'], askLocation: true },
+  skin: { associated: ['itching', 'rash', 'swelling'], askLocation: true },
+  urinary: { associated: ['burningUrine', 'frequentUrination', 'bloodInUrine', 'chills'] },
+  fatigue: { associated: ['dizziness', 'weightLoss', 'lossOfAppetite', 'sweating'] },
+};
+
+export interface FollowUpQuestions {
+  associated: AssociatedSymptom[];
+  askLocation: boolean;
+  askTemperature: boolean;
+  askPainCharacter: boolean;
+}
+
+export const getFollowUpQuestions = (complaints: ComplaintId[]): FollowUpQuestions => {
+  const branches = complaints.map(complaint => BRANCHES[complaint]);
+  return {
+    associated: [...new Set(branches.flatMap(branch => branch.associated))],
+    askLocation: branches.some(branch => branch.askLocation),
+    askTemperature: branches.some(branch => branch.askTemperature),
+    askPainCharacter: branches.some(branch => branch.askPainCharacter),
+  };
+};
+
+export const emptySymptomSummary: SymptomSummary = { complaints: [], locations: [], associated: [], tried: [], notes: '' };
+
+// Drops answers to questions that no longer apply after the complaints change
+export const pruneSymptomSummary = (summary: SymptomSummary): SymptomSummary => {
+  const questions = getFollowUpQuestions(summary.complaints);
+  return {
+    ...summary,
+    locations: questions.askLocation ? summary.locations : [],
+    maxTemperatureC: questions.askTemperature ? summary.maxTemperatureC : undefined,
+    painCharacter: questions.askPainCharacter ? summary.painCharacter : undefined,
+    associated: summary.associated.filter(symptom => questions.associated.includes(symptom)),
+  };
+};
+
+export const isSymptomSummaryComplete = (summary: SymptomSummary): boolean => summary.complaints.length > 0;
+
+const formatDuration = ({ value, unit }: NonNullable<SymptomSummary['duration']>, t: Translate) =>
+  t(`duration.${unit}` as MessageKey, { count: value });
+
+// One "Label: answer" line per answered question, in the translator's language
+export const describeSymptomSummary = (summary: SymptomSummary, t: Translate): string[] => {
+  const list = (prefix: string, ids: string[]) => ids.map(id => t(`${prefix}.${id}` as MessageKey)).join(', ');
+  const lines: [MessageKey, string][] = [['summary.complaint', list('complaint', summary.complaints)]];
+  if (summary.duration) lines.push(['summary.duration', formatDuration(summary.duration, t)]);
+  if (summary.severity !== undefined) lines.push(['summary.severity', `${summary.severity}/10`]);
+  if (summary.onset) lines.push(['summary.onset', t(`onset.${summary.onset}` as MessageKey)]);
+  if (summary.locations.length > 0) lines.push(['summary.location', list('body', summary.locations)]);
+  if (summary.maxTemperatureC !== undefined) lines.push(['summary.temperature', `${summary.maxTemperatureC} °C`]);
+  if (summary.painCharacter) lines.push(['summary.painCharacter', t(`painCharacter.${summary.painCharacter}` as MessageKey)]);
+  if (summary.associated.length > 0) lines.push(['summary.associated', list('associated', summary.associated)]);
+  if (summary.tried.length > 0) lines.push(['summary.tried', list('tried', summary.tried)]);
+  if (summary.notes.trim()) lines.push(['summary.notes', summary.notes.trim()]);
+  return lines.map(([label, value]) => `${t(label)}: ${value}`);
+};
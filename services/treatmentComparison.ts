@@ -0,0 +1,33 @@
+import { CostTier, EvidenceLevel, PrescriptionData, TreatmentSection } from '../types';
+import { MessageKey, Translate } from './i18n';
+
+export const COST_TIERS: CostTier[] = ['low', 'moderate', 'high'];
+export const EVIDENCE_LEVELS: EvidenceLevel[] = ['strong', 'moderate', 'limited', 'traditional'];
+
+export interface ComparisonRow {
+  label: string;
+  cells: string[][]; // One cell per treatment plan, each a list of lines
+}
+
+// Side-by-side only makes sense once there is more than one plan to weigh
+export const canCompare = (prescription: PrescriptionData): boolean => prescription.treatments.length > 1;
+
+// Struck and blank medicines are not part of the plan the patient receives
+export const countMedicines = (section: TreatmentSection): number =>
+  section.medications.filter(item => !item.struck && item.name.trim()).length;
+
+// The summary rows shared by the screen and the PDF, with labels in the language of the given translator
+export const buildComparisonRows = (treatments: TreatmentSection[], t: Translate): ComparisonRow[] => {
+  const notStated = t('compare.notStated');
+  const cell = (section: TreatmentSection, value: (overview: NonNullable<TreatmentSection['overview']>) => string[]) => {
+    const lines = section.overview ? value(section.overview).filter(line => line.trim()) : [];
+    return lines.length > 0 ? lines : [notStated];
+  };
+  return [
+    { label: t('compare.duration'), cells: treatments.map(section => cell(section, overview => [overview.expectedDuration])) },
+    { label: t('compare.medicines'), cells: treatments.map(section => [String(countMedicines(section))]) },
+    { label: t('compare.cost'), cells: treatments.map(section => cell(section, overview => [t(`cost.${overview.costTier}` as MessageKey)])) },
+    { label: t('compare.evidence'), cells: treatments.map(section => cell(section, overview => [t(`evidence.${overview.evidenceLevel}` as MessageKey)])) },
+    { label: t('compare.cautions'), cells: treatments.map(section => cell(section, overview => overview.cautions)) },
+  ];
+};
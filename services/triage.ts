@@ -0,0 +1,291 @@
+import { PatientInfo, RedFlagMatch, TriageResult, UrgencyLevel } from '../types';
+import { parseAge } from './clinicalIntake';
+
+interface RedFlagRule {
+  id: string;
+  label: string;
+  urgency: RedFlagMatch['urgency'];
+  // Phrases in every supported language, plus Roman Urdu/Hindi as patients commonly type it
+  phrases: string[];
+}
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'cardiac',
+    label: 'Possible heart attack (chest pain or pressure)',
+    urgency: 'emergency',
+    phrases: [
+      'chest pain', 'chest tightness', 'pain in my chest', 'pain in chest', 'crushing chest', 'heart attack', 'pain spreading to left arm',
+      'سینے میں درد', 'سینے میں دباؤ', 'دل کا دورہ', 'seene mein dard', 'seenay main dard', 'sine me dard', 'dil ka dora',
+      'सीने में दर्द', 'छाती में दर्द', 'दिल का दौरा',
+      'ألم في الصدر', 'الم في الصدر', 'ألم بالصدر', 'نوبة قلبية',
+      'বুকে ব্যথা', 'হার্ট অ্যাটাক',
+      'dolor de pecho', 'dolor en el pecho', 'ataque al corazón', 'infarto',
+      'douleur thoracique', 'douleur à la poitrine', 'crise cardiaque',
+      'dor no peito', 'ataque cardíaco',
+      'боль в груди', 'сердечный приступ', 'инфаркт',
+      '胸痛', '胸口痛', '心脏病发作',
+    ],
+  },
+  {
+    id: 'stroke',
+    label: 'Possible stroke (face drooping, weakness on one side, slurred speech)',
+    urgency: 'emergency',
+    phrases: [
+      'stroke', 'face drooping', 'facial droop', 'slurred speech', 'cannot speak', "can't speak", 'sudden weakness', 'numbness on one side', 'paralysis',
+      'فالج', 'لقوہ', 'چہرہ ٹیڑھا', 'بولنے میں دشواری', 'falij', 'laqwa',
+      'लकवा', 'स्ट्रोक', 'चेहरा टेढ़ा',
+      'سكتة دماغية', 'جلطة دماغية', 'شلل', 'تدلي الوجه',
+      'স্ট্রোক', 'পক্ষাঘাত', 'মুখ বেঁকে',
+      'derrame cerebral', 'ictus', 'parálisis', 'cara caída',
+      'avc', 'accident vasculaire', 'paralysie', 'visage affaissé',
+      'derrame', 'paralisia', 'rosto caído',
+      'инсульт', 'паралич', 'онемение половины',
+      '中风', '脑卒中', '口齿不清', '半身不遂',
+    ],
+  },
+  {
+    id: 'suicide',
+    label: 'Thoughts of suicide or self-harm',
+    urgency: 'emergency',
+    phrases: [
+      'suicide', 'suicidal', 'kill myself', 'end my life', 'want to die', 'self harm', 'self-harm', 'overdose',
+      'خودکشی', 'مرنا چاہتا', 'مرنا چاہتی', 'khudkushi', 'marna chahta', 'marna chahti',
+      'आत्महत्या', 'मरना चाहता', 'मरना चाहती', 'खुद को नुकसान',
+      'انتحار', 'أريد أن أموت', 'اقتل نفسي', 'إيذاء النفس',
+      'আত্মহত্যা', 'মরে যেতে চাই',
+      'suicidio', 'suicidarme', 'quiero morir', 'matarme',
+      'me suicider', 'envie de mourir', 'me tuer',
+      'suicídio', 'me matar', 'quero morrer',
+      'суицид', 'самоубийство', 'покончить с собой', 'хочу умереть',
+      '自杀', '想死', '轻生', '自残',
+    ],
+  },
+  {
+    id: 'bleeding',
+    label: 'Severe or uncontrolled bleeding',
+    urgency: 'emergency',
+    phrases: [
+      'severe bleeding', 'heavy bleeding', "bleeding won't stop", 'bleeding will not stop', 'vomiting blood', 'coughing blood', 'coughing up blood',
+      'شدید خون', 'خون کی الٹی', 'خون بہہ رہا', 'khoon ki ulti', 'khoon beh raha',
+      'बहुत खून', 'खून की उल्टी', 'खून बह रहा',
+      'نزيف شديد', 'نزيف حاد', 'تقيؤ دم', 'قيء دموي',
+      'প্রচুর রক্তপাত', 'রক্ত বমি',
+      'sangrado abundante', 'hemorragia', 'vomitar sangre', 'vómito con sangre',
+      'saignement abondant', 'hémorragie', 'vomit du sang',
+      'sangramento intenso', 'vomitando sangue',
+      'сильное кровотечение', 'рвота кровью',
+      '大出血', '出血不止', '吐血', '咳血',
+    ],
+  },
+  {
+    id: 'breathing',
+    label: 'Severe difficulty breathing',
+    urgency: 'emergency',
+    phrases: [
+      "can't breathe", 'cannot breathe', 'difficulty breathing', 'struggling to breathe', 'shortness of breath', 'choking', 'blue lips',
+      'سانس لینے میں دشواری', 'سانس نہیں', 'دم گھٹ', 'saans nahi', 'sans lene mein mushkil',
+      'सांस लेने में तकलीफ', 'सांस नहीं', 'दम घुट',
+      'صعوبة في التنفس', 'ضيق تنفس', 'لا أستطيع التنفس', 'اختناق',
+      'শ্বাসকষ্ট', 'শ্বাস নিতে পারছি না',
+      'no puedo respirar', 'dificultad para respirar', 'falta de aire', 'ahogo',
+      'difficulté à respirer', 'essoufflement', 'je ne peux pas respirer', 'étouffement',
+      'dificuldade para respirar', 'não consigo respirar',
+      'не могу дышать', 'одышка', 'трудно дышать', 'удушье',
+      '呼吸困难', '喘不过气', '无法呼吸', '窒息',
+    ],
+  },
+  {
+    id: 'unconscious',
+    label: 'Loss of consciousness or seizure',
+    urgency: 'emergency',
+    phrases: [
+      'unconscious', 'fainted', 'passed out', 'not responding', 'unresponsive', 'seizure', 'convulsion',
+      'بے ہوش', 'دورہ پڑ', 'جھٹکے', 'behosh', 'be hosh', 'mirgi',
+      'बेहोश', 'दौरा पड़', 'मिर्गी',
+      'فاقد الوعي', 'إغماء', 'نوبة صرع', 'تشنج',
+      'অজ্ঞান', 'খিঁচুনি',
+      'inconsciente', 'desmayo', 'convulsión', 'convulsiones',
+      'inconscient', 'évanoui', "crise d'épilepsie",
+      'desmaiou', 'convulsão',
+      'без сознания', 'потерял сознание', 'судороги', 'припадок',
+      '昏迷', '晕倒', '抽搐', '癫痫发作',
+    ],
+  },
+  {
+    id: 'anaphylaxis',
+    label: 'Possible severe allergic reaction (throat or tongue swelling)',
+    urgency: 'emergency',
+    phrases: [
+      'anaphylaxis', 'throat swelling', 'swollen throat', 'swollen tongue', 'tongue swelling',
+      'گلا سوج', 'زبان سوج', 'gala sooj',
+      'गला सूज', 'जीभ सूज',
+      'تورم الحلق', 'تورم اللسان', 'حساسية مفرطة',
+      'গলা ফুলে', 'জিভ ফুলে',
+      'anafilaxia', 'garganta hinchada', 'lengua hinchada',
+      'anaphylaxie', 'gorge gonflée', 'langue gonflée',
+      'garganta inchada', 'língua inchada',
+      'анафилаксия', 'отек горла', 'отёк горла', 'отек языка',
+      '过敏性休克', '喉咙肿', '舌头肿',
+    ],
+  },
+  {
+    id: 'urgent-symptoms',
+    label: 'Symptoms that need a doctor within 24 hours',
+    urgency: 'urgent',
+    phrases: [
+      'severe abdominal pain', 'severe stomach pain', 'stiff neck', 'worst headache', 'high fever', 'blood in stool', 'blood in urine', 'black stool',
+      'severe dehydration', 'not passing urine', 'broken bone', 'fracture', 'deep cut', 'burn',
+      'پیٹ میں شدید درد', 'تیز بخار', 'پیشاب میں خون', 'گردن اکڑ', 'tez bukhar', 'pait mein shadeed dard',
+      'पेट में तेज दर्द', 'तेज बुखार', 'पेशाब में खून', 'गर्दन अकड़',
+      'ألم شديد في البطن', 'حمى شديدة', 'دم في البول', 'تصلب الرقبة',
+      'পেটে তীব্র ব্যথা', 'উচ্চ জ্বর', 'প্রস্রাবে রক্ত',
+      'dolor abdominal intenso', 'fiebre alta', 'sangre en la orina', 'rigidez de cuello',
+      'douleur abdominale intense', 'forte fièvre', 'sang dans les urines', 'raideur de la nuque',
+      'dor abdominal intensa', 'febre alta', 'sangue na urina', 'rigidez na nuca',
+      'сильная боль в животе', 'высокая температура', 'кровь в моче', 'ригидность',
+      '剧烈腹痛', '高烧', '尿血', '颈部僵硬',
+    ],
+  },
+];
+
+const FEVER_PHRASES = ['fever', 'bukhar', 'بخار', 'बुखार', 'حمى', 'حرارة', 'জ্বর', 'fiebre', 'fièvre', 'febre', 'температура', 'жар', '发烧', '发热'];
+const BLEEDING_PHRASES = ['bleeding', 'khoon', 'خون', 'खून', 'نزيف', 'রক্তপাত', 'sangrado', 'saignement', 'sangramento', 'кровотечение', '出血'];
+
+const URGENCY_RANK: Record<UrgencyLevel, number> = { routine: 0, urgent: 1, emergency: 2 };
+
+export const maxUrgency = (...levels: (UrgencyLevel | undefined)[]): UrgencyLevel =>
+  levels.reduce<UrgencyLevel>((max, level) => (level && URGENCY_RANK[level] > URGENCY_RANK[max] ? level : max), 'routine');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "No chest pain", "sin dolor de pecho", "без боли"... One word may sit between the negation and the phrase.
+const NEGATION = /(?:^|[^\p{L}])(?:no|not|never|without|denies|deny|sin|sans|pas de|sem|nunca|нет|без|не)\s+(?:[\p{L}']+\s+)?$/iu;
+
+// "My father had a stroke", "family history of heart attack": about someone else, not the patient. Children
+// and spouses are left out, since they often describe the patient's symptoms for them.
+const OTHER_PEOPLE = [
+  'father', 'mother', 'dad', 'mom', 'mum', 'parents', 'brother', 'sister',
+  'uncle', 'aunt', 'grandfather', 'grandmother', 'grandpa', 'grandma', 'cousin', 'friend', 'neighbour', 'neighbor', 'family history',
+  'abbu', 'ammi', 'walid', 'walida', 'bhai', 'behen', 'dada', 'dadi', 'nana', 'nani',
+  'والد', 'والدہ', 'ابو', 'امی', 'بھائی', 'بہن',
+  'पिता', 'माता', 'मां', 'पापा', 'भाई', 'बहन',
+  'أبي', 'والدي', 'أمي', 'والدتي', 'أخي', 'أختي',
+  'বাবা', 'মা', 'ভাই', 'বোন',
+  'padre', 'madre', 'hermano', 'hermana', 'abuelo', 'abuela',
+  'père', 'mère', 'frère', 'sœur', 'grand-père', 'grand-mère',
+  'pai', 'mãe', 'irmão', 'irmã', 'avô', 'avó',
+  'отец', 'отца', 'мать', 'мама', 'папа', 'брат', 'сестра', 'бабушка', 'дедушка',
+  '父亲', '母亲', '爸爸', '妈妈', '哥哥', '弟弟', '姐姐', '妹妹', '家人',
+];
+
+// "A stroke years ago", "history of seizures": past history rather than what is happening now
+const PAST_MARKERS = [
+  'years ago', 'year ago', 'months ago', 'long ago', 'last year', 'as a child', 'history of', 'in the past',
+  'saal pehle', 'sal pehle', 'سال پہلے', 'ماضی میں', 'साल पहले', 'منذ سنوات', 'منذ سنة', 'বছর আগে',
+  'hace años', 'años atrás', 'en el pasado', 'il y a des années', 'dans le passé', 'autrefois',
+  'anos atrás', 'há anos', 'no passado', 'лет назад', 'год назад', 'в прошлом', '年前', '以前', '过去',
+];
+
+// Word boundaries only make sense for alphabetic scripts; Arabic, Indic and CJK phrases are matched as substrings.
+const needsWordBoundary = (phrase: string) => /^[\p{Script=Latin}\p{Script=Cyrillic}]/u.test(phrase);
+
+const phrasePattern = (phrase: string) =>
+  needsWordBoundary(phrase)
+    ? new RegExp(`(^|[^\\p{L}])${escapeRegExp(phrase)}(?![\\p{L}])`, 'giu')
+    : new RegExp(escapeRegExp(phrase), 'gu');
+
+// Sentence ends, and words that move the story to the present ("...years ago, but now...")
+const CLAUSE_BREAK = /[.!?;\n،۔。！？]|(?<![\p{L}\p{M}])(?:but|now|today|currently|pero|ahora|hoy|mais|maintenant|mas|agora|hoje|но|сейчас|сегодня|لیکن|اب|آج|लेकिन|अब|आज|لكن|الآن|اليوم|কিন্তু|এখন|আজ)(?![\p{L}\p{M}])|现在|但是|今天/iu;
+// A few words either side of a match, within its clause; unspaced text (CJK) gets a few characters
+const WINDOW_WORDS = 5;
+const WINDOW_CHARS = 8;
+
+const windowBefore = (text: string) => {
+  const clause = text.split(CLAUSE_BREAK).pop()!.trim();
+  const words = clause.split(/\s+/);
+  return words.length > 1 ? words.slice(-WINDOW_WORDS).join(' ') : clause.slice(-WINDOW_CHARS);
+};
+
+const windowAfter = (text: string) => {
+  const clause = text.split(CLAUSE_BREAK)[0].trim();
+  const words = clause.split(/\s+/);
+  return words.length > 1 ? words.slice(0, WINDOW_WORDS).join(' ') : clause.slice(0, WINDOW_CHARS);
+};
+
+// Short words like 'মা' would turn up inside others, so these are whole words in every script but CJK
+const containsWord = (text: string, terms: string[]) =>
+  terms.some(term => (/^\p{Script=Han}/u.test(term)
+    ? text.includes(term)
+    : new RegExp(`(^|[^\\p{L}\\p{M}])${escapeRegExp(term)}(?![\\p{L}\\p{M}])`, 'iu').test(text)));
+
+// About a relative, or placed in the past ("in 2015", "years ago"), rather than the current illness
+const isHistory = (before: string, after: string) => {
+  const near = `${windowBefore(before)} ${windowAfter(after)}`;
+  return containsWord(windowBefore(before), OTHER_PEOPLE) || containsWord(near, PAST_MARKERS) || /(^|\D)(19|20)\d{2}(?!\d)/.test(near);
+};
+
+interface PhraseMatch {
+  phrase: string;
+  history: boolean; // Every mention was past or family history
+}
+
+// Negated mentions are skipped; a current mention wins over one that is only history
+const findPhrase = (text: string, phrases: string[]): PhraseMatch | null => {
+  let historyMatch: PhraseMatch | null = null;
+  for (const phrase of phrases) {
+    for (const match of text.matchAll(phrasePattern(phrase))) {
+      const start = match.index! + match[0].length - phrase.length;
+      const before = text.slice(0, start);
+      if (NEGATION.test(before)) continue;
+      if (!isHistory(before, text.slice(start + phrase.length))) return { phrase, history: false };
+      historyMatch ??= { phrase, history: true };
+    }
+  }
+  return historyMatch;
+};
+
+// A mention that looks like past or family history is only noted on the label. The wording heuristics
+// can misread a current emergency ("my mother says I fainted"), so they never lower the urgency.
+const flagFor = (id: string, label: string, urgency: RedFlagMatch['urgency'], match: PhraseMatch): RedFlagMatch => ({
+  id,
+  label: match.history ? `${label} (mentioned as past or family history)` : label,
+  urgency,
+  matched: match.phrase,
+});
+
+// Local, offline red-flag screen. Runs before anything is sent to the model.
+export const detectRedFlags = (description: string, patientInfo: PatientInfo): RedFlagMatch[] => {
+  const text = description.toLowerCase();
+  const flags: RedFlagMatch[] = [];
+
+  RED_FLAG_RULES.forEach(rule => {
+    const matched = findPhrase(text, rule.phrases);
+    if (matched) flags.push(flagFor(rule.id, rule.label, rule.urgency, matched));
+  });
+
+  // Context-dependent rules
+  const age = parseAge(patientInfo);
+  const fever = findPhrase(text, FEVER_PHRASES);
+  if (fever && age !== null && age < 0.25) {
+    flags.push(flagFor('infant-fever', 'Fever in an infant under 3 months', 'emergency', fever));
+  }
+  const bleeding = findPhrase(text, BLEEDING_PHRASES);
+  const isPregnant = patientInfo.pregnancyStatus === 'pregnant' || patientInfo.pregnancyStatus === 'pregnant-breastfeeding';
+  if (bleeding && isPregnant && !flags.some(flag => flag.id === 'bleeding')) {
+    flags.push(flagFor('pregnancy-bleeding', 'Bleeding during pregnancy', 'emergency', bleeding));
+  }
+
+  return flags;
+};
+
+export const combineTriage = (
+  localFlags: RedFlagMatch[],
+  model?: { urgency: UrgencyLevel; reasons: string[] }
+): TriageResult => ({
+  urgency: maxUrgency(model?.urgency, ...localFlags.map(flag => flag.urgency)),
+  localFlags,
+  modelUrgency: model?.urgency,
+  modelReasons: model?.reasons ?? [],
+  assessedAt: new Date().toISOString(),
+});
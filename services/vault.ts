@@ -0,0 +1,213 @@
+// Encryption at rest for everything stored about patients. A random data key encrypts the records;
+// the data key itself is stored wrapped by a key derived from the clinic PIN, so changing the PIN
+// does not mean re-encrypting the history. Keys only ever live in memory, and locking forgets them.
+
+const VAULT_KEY = 'ai-doctor:vault';
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const DATA_KEY_BYTES = 64; // An AES-GCM key followed by an HMAC key
+const IV_BYTES = 12;
+
+export const MIN_PIN_LENGTH = 6;
+
+interface VaultRecord {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedKey: string;
+}
+
+interface VaultKeys {
+  cipher: CryptoKey;
+  index: CryptoKey;
+}
+
+// How records are kept in IndexedDB, which stores binary data as it is
+export interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// The same in local storage, which only holds strings
+interface EncryptedItem {
+  vault: 1;
+  iv: string;
+  data: string;
+}
+
+type VaultListener = (unlocked: boolean) => void;
+
+let keys: VaultKeys | null = null;
+const listeners = new Set<VaultListener>();
+
+const vaultError = (name: string, message: string) => Object.assign(new Error(message), { name });
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const loadVaultRecord = (): VaultRecord | null => {
+  try {
+    const stored = localStorage.getItem(VAULT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const derivePinKey = async (pin: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// The imported keys cannot be read back out of the browser
+const importDataKey = async (raw: Uint8Array): Promise<VaultKeys> => ({
+  cipher: await crypto.subtle.importKey('raw', raw.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+  index: await crypto.subtle.importKey('raw', raw.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+});
+
+const wrapDataKey = async (raw: Uint8Array, pin: string): Promise<VaultRecord> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const pinKey = await derivePinKey(pin, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, pinKey, raw);
+  return { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(new Uint8Array(wrapped)) };
+};
+
+// Throws an error named WrongPin when the PIN does not open the vault
+const unwrapDataKey = async (record: VaultRecord, pin: string): Promise<Uint8Array> => {
+  const pinKey = await derivePinKey(pin, fromBase64(record.salt), record.iterations);
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, pinKey, fromBase64(record.wrappedKey)));
+  } catch {
+    throw vaultError('WrongPin', 'The PIN is not correct.');
+  }
+};
+
+const setKeys = (next: VaultKeys | null) => {
+  keys = next;
+  listeners.forEach(listener => listener(keys !== null));
+};
+
+// Throws an error named VaultLocked when the PIN has not been entered since the last lock
+const requireKeys = (): VaultKeys => {
+  if (!keys) throw vaultError('VaultLocked', 'Patient data is locked. Enter the clinic PIN to continue.');
+  return keys;
+};
+
+export const isVaultSetUp = (): boolean => loadVaultRecord() !== null;
+
+export const isVaultUnlocked = (): boolean => keys !== null;
+
+// Returns a function that stops listening
+export const onVaultChange = (listener: VaultListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const createVault = async (pin: string): Promise<void> => {
+  if (pin.length < MIN_PIN_LENGTH) throw vaultError('WeakPin', `The PIN must be at least ${MIN_PIN_LENGTH} characters.`);
+  const raw = crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+  localStorage.setItem(VAULT_KEY, JSON.stringify(await wrapDataKey(raw, pin)));
+  setKeys(await importDataKey(raw));
+};
+
+export const unlockVault = async (pin: string): Promise<void> => {
+  const record = loadVaultRecord();
+  if (!record) throw vaultError('NoVault', 'No clinic PIN has been set up on this device.');
+  setKeys(await importDataKey(await unwrapDataKey(record, pin)));
+};
+
+export const lockVault = () => {
+  if (keys) setKeys(null);
+};
+
+export const changePin = async (currentPin: string, newPin: string): Promise<void> => {
+  const record = loadVaultRecord();
+  if (!record) throw vaultError('NoVault', 'No clinic PIN has been set up on this device.');
+  if (newPin.length < MIN_PIN_LENGTH) throw vaultError('WeakPin', `The PIN must be at least ${MIN_PIN_LENGTH} characters.`);
+  const raw = await unwrapDataKey(record, currentPin);
+  localStorage.setItem(VAULT_KEY, JSON.stringify(await wrapDataKey(raw, newPin)));
+};
+
+// Forgets the wrapped key, which leaves every encrypted record unreadable; the caller deletes them
+export const destroyVault = () => {
+  localStorage.removeItem(VAULT_KEY);
+  setKeys(null);
+};
+
+export const encryptValue = async (value: unknown): Promise<EncryptedValue> => {
+  const { cipher } = requireKeys();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, cipher, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, data };
+};
+
+export const decryptValue = async <T>(value: EncryptedValue): Promise<T> => {
+  const { cipher } = requireKeys();
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, cipher, value.data);
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+// A stable stand-in for an identifier (such as a patient's name and cell) that can be looked up
+// without being stored in the clear
+export const blindIndex = async (value: string): Promise<string> => {
+  const { index } = requireKeys();
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', index, new TextEncoder().encode(value)));
+  return Array.from(signature, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isEncryptedItem = (value: unknown): value is EncryptedItem =>
+  typeof value === 'object' && value !== null && (value as EncryptedItem).vault === 1;
+
+// Local storage items holding patient data. They are encrypted once the vault is set up; before that
+// (e.g. a patient's own phone that only opened a share link) they are kept as plain JSON as before.
+export const loadProtectedItem = async <T>(key: string, fallback: T): Promise<T> => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return fallback;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    return fallback;
+  }
+  if (!isEncryptedItem(parsed)) return parsed as T;
+  return decryptValue<T>({ iv: fromBase64(parsed.iv), data: fromBase64(parsed.data).buffer as ArrayBuffer });
+};
+
+export const saveProtectedItem = async (key: string, value: unknown): Promise<void> => {
+  if (!isVaultSetUp()) {
+    localStorage.setItem(key, JSON.stringify(value));
+    return;
+  }
+  const { iv, data } = await encryptValue(value);
+  const item: EncryptedItem = { vault: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  localStorage.setItem(key, JSON.stringify(item));
+};
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Locks after the given minutes without any input. Returns a function that stops the timer.
+export const startAutoLock = (minutes: number): (() => void) => {
+  let timer = setTimeout(lockVault, minutes * 60_000);
+  const handleActivity = () => {
+    clearTimeout(timer);
+    timer = setTimeout(lockVault, minutes * 60_000);
+  };
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+  return () => {
+    clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+  };
+};
@@ -1,3 +1,5 @@
+export type Sex = 'female' | 'male' | 'other';
+export type PregnancyStatus = 'none' | 'pregnant' | 'breastfeeding' | 'pregnant-breastfeeding';
 
 export interface PatientInfo {
   name: string;
@@ -6,26 +8,33 @@ export interface PatientInfo {
   cell: string;
   religion: string;
   language: string;
+  // Extended clinical intake. Optional, but they make dosing safer.
+  sex?: Sex | '';
+  weightKg?: string;
+  heightCm?: string;
+  allergies?: string;
+  currentMedications?: string;
+  chronicConditions?: string;
+  pregnancyStatus?: PregnancyStatus | '';
 }
 
-export enum TreatmentType {
-  Hikmat = "Hikmat (Traditional Herbal)",
-  Homeopathy = "Homeopathy",
-  SpecialistDoctors = "Allopathy (Specialist Doctors)",
-}
+// --- Treatment modalities ---
+// The registry itself (built-ins, eligibility, prompt rules) lives in services/modalities.ts
+export type ModalityCategory = 'conventional' | 'traditional' | 'spiritual' | 'therapy';
+// Which parts of a treatment plan the modality fills: remedies, guidance, or both
+export type ModalityOutputFormat = 'medications' | 'instructions' | 'mixed';
 
-export const ReligiousTreatments: { [key: string]: string } = {
-  Islam: "Quran & Asma-ul-Husna",
-  Christianity: "Biblical Healing & Prayer",
-  Hinduism: "Ayurveda & Mantras",
-  Buddhism: "Meditation & Chanting",
-  Sikhism: "Gurbani Recitation & Seva",
-  Judaism: "Torah Study & Prayer",
-  "Baháʼí Faith": "Writings of Baháʼu'lláh & Prayer",
-  "Chinese Folk Religion": "Ancestral Veneration & Herbal Remedies",
-  Spiritism: "Spiritual Counsel & Healing",
-  "Ethnic/Indigenous Religions": "Traditional Rituals & Natural Healing",
-};
+export interface TreatmentModality {
+  id: string; // Stored on consultations and sent to the model as the plan's 'treatment' value
+  name: string; // English display name, also shown to the model
+  labelKey?: string; // Catalog key for built-ins whose name has not been edited
+  category: ModalityCategory;
+  outputFormat: ModalityOutputFormat;
+  promptRules: string;
+  religion?: string; // Only offered to patients of this religion
+  enabled: boolean;
+  builtIn?: boolean;
+}
 
 // Represents the structure for a file part to be sent to the Gemini API
 export type FilePart = {
@@ -33,4 +42,306 @@ export type FilePart = {
     mimeType: string;
     data: string;
   };
-};
\ No newline at end of file
+};
+
+// A single medicine (or herbal remedy) within a treatment section
+export type FoodTiming = 'before' | 'with' | 'after' | 'any';
+
+export interface MedicationItem {
+  name: string;
+  strength: string; // e.g. "500mg" or "30C"
+  dosage: string; // e.g. "1+1+1" or "5+5+5 drops"
+  duration: string; // e.g. "5 days"
+  route: string; // e.g. "Oral", "Topical"
+  notes: string;
+  food?: FoodTiming; // When to take it relative to meals; missing on older prescriptions
+  // Set during practitioner review
+  struck?: boolean;
+  addedByReviewer?: boolean;
+  reviewNote?: string;
+}
+
+export type CostTier = 'low' | 'moderate' | 'high';
+export type EvidenceLevel = 'strong' | 'moderate' | 'limited' | 'traditional';
+
+// What the patient needs to weigh one plan against another
+export interface TreatmentOverview {
+  expectedDuration: string; // Translated, e.g. "5-7 days"
+  costTier: CostTier;
+  evidenceLevel: EvidenceLevel;
+  cautions: string[]; // Translated
+}
+
+// One plan per selected treatment methodology
+export interface TreatmentSection {
+  treatment: string; // The modality id, exactly as sent in the request
+  heading: string; // Translated heading shown to the patient
+  medications: MedicationItem[];
+  instructions: string[]; // Non-medication guidance (verses, practices, therapies)
+  overview?: TreatmentOverview; // Missing on prescriptions made before plans were compared
+}
+
+export type PrescriptionLayout = 'stacked' | 'compare';
+
+export interface DiagnosticTest {
+  name: string;
+  reason: string;
+}
+
+export interface ReportFinding {
+  test: string;
+  result: string;
+  interpretation: string;
+}
+
+export interface PrescriptionData {
+  illnessTitle: string;
+  reportAnalysis?: {
+    heading: string;
+    findings: ReportFinding[];
+  };
+  treatments: TreatmentSection[];
+  diagnosticTests?: {
+    heading: string;
+    tests: DiagnosticTest[];
+  };
+  advice: {
+    heading: string;
+    items: string[];
+  };
+}
+
+// --- Guided symptom questionnaire ---
+// Answers are stored as option ids and only turned into text (in any language) when shown, printed or prompted
+export type ComplaintId = 'fever' | 'cough' | 'breathing' | 'pain' | 'stomach' | 'skin' | 'urinary' | 'fatigue';
+export type AssociatedSymptom =
+  | 'chills' | 'sweating' | 'bodyAches' | 'headache' | 'rash' | 'lossOfAppetite'
+  | 'phlegm' | 'bloodInPhlegm' | 'soreThroat' | 'runnyNose' | 'wheeze' | 'chestPain'
+  | 'swelling' | 'numbness' | 'dizziness' | 'nausea' | 'vomiting' | 'diarrhoea' | 'bloodInStool'
+  | 'itching' | 'burningUrine' | 'frequentUrination' | 'bloodInUrine' | 'weightLoss';
+export type BodyRegion = 'head' | 'throat' | 'chest' | 'upperAbdomen' | 'lowerAbdomen' | 'arms' | 'legs' | 'back' | 'joints' | 'wholeBody';
+export type DurationUnit = 'hours' | 'days' | 'weeks' | 'months';
+export type SymptomOnset = 'sudden' | 'gradual';
+export type PainCharacter = 'sharp' | 'dull' | 'burning' | 'cramping' | 'throbbing';
+export type RemedyTried = 'paracetamol' | 'ibuprofen' | 'antibiotics' | 'coughSyrup' | 'antacid' | 'herbal' | 'homeRemedy' | 'nothing';
+
+export interface SymptomSummary {
+  complaints: ComplaintId[];
+  duration?: { value: number; unit: DurationUnit };
+  severity?: number; // 0-10
+  onset?: SymptomOnset;
+  locations: BodyRegion[];
+  maxTemperatureC?: number; // Asked for fever
+  painCharacter?: PainCharacter; // Asked for pain
+  associated: AssociatedSymptom[];
+  tried: RemedyTried[];
+  notes: string;
+}
+
+// Metadata kept with a consultation for each uploaded report; the files themselves are stored encrypted as ConsultationAttachment records
+export interface ReportMetadata {
+  name: string;
+  type: string;
+  size: number;
+}
+
+// What was done to a report photo before it is sent
+export interface ImageAdjustments {
+  cropped: boolean;
+  deskewDegrees: number; // Rotation applied to straighten the text, 0 when it was already level
+  contrastBoosted: boolean;
+  scale: number; // Output size relative to the (cropped) photo, 1 when it was small enough
+}
+
+export interface ReportPage {
+  thumbnail: string; // Data URL
+  selected: boolean;
+}
+
+// An area of a report photo blacked out before it is sent, as fractions of the photo's width and height
+export interface RedactionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A report attached to the current consultation, after it has been prepared in the browser
+export interface UploadedReport {
+  id: string; // SHA-256 of the uploaded file, so the same report is only attached once
+  name: string;
+  size: number; // Of the uploaded file
+  kind: 'image' | 'pdf';
+  original: Blob; // As uploaded, except that HEIC photos are converted to JPEG
+  enhanced?: Blob; // Cleaned-up photo; absent for PDFs and when the photo could not be processed
+  adjustments?: ImageAdjustments;
+  useEnhanced: boolean;
+  pages?: ReportPage[]; // PDF pages; absent when the PDF could not be previewed, in which case it is sent whole
+  redactions?: RedactionBox[]; // On the photo that is sent (enhanced or original)
+}
+
+export interface PatientRecord {
+  id: string; // Derived from the patient's name and cell number
+  info: PatientInfo;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Consultation {
+  id: string;
+  patientId: string;
+  createdAt: string;
+  patientInfo: PatientInfo;
+  inputMode: 'text' | 'guided' | 'upload';
+  description: string; // For guided intake, the English summary of the answers
+  symptomSummary?: SymptomSummary; // Answers from the guided questionnaire
+  treatments: string[];
+  reports: ReportMetadata[];
+  result: PrescriptionData; // The final version, including any reviewer edits
+  original?: PrescriptionData; // The unedited AI output, kept for audit
+  review?: PrescriptionReview;
+  triage?: TriageResult;
+  incomplete?: boolean; // Generation was cancelled or timed out part-way
+  chat?: ChatMessage[]; // Follow-up questions about this prescription
+  printChat?: boolean; // Whether the chat transcript is included when printing
+  layout?: PrescriptionLayout; // How the treatment plans are shown and printed
+  labResults?: LabResult[]; // Read from the uploaded reports and checked by staff
+  consent?: ConsentRecord; // Missing on consultations saved before consent was recorded
+}
+
+// The patient's agreement, given at intake, to their details being sent to the AI provider
+export interface ConsentRecord {
+  givenAt: string;
+  provider: string; // The provider that was configured at the time
+}
+
+// A report as it was sent to the model, kept with the consultation for the patient's data export
+export interface ConsultationAttachment {
+  id: string;
+  consultationId: string;
+  name: string;
+  mimeType: string;
+  data: string; // Base64
+}
+
+export type LabFlag = 'normal' | 'low' | 'high' | 'critical';
+
+// One row read from an uploaded lab report
+export interface LabResult {
+  test: string;
+  value: string; // Kept as text so qualitative results such as "Positive" fit too
+  unit: string;
+  referenceRange: string; // As printed on the report, e.g. "70-100" or "< 200"
+  flag: LabFlag;
+  reportDate: string; // YYYY-MM-DD, empty when the report does not show one
+  source: string; // Name of the uploaded file
+}
+
+export interface ChatMessage {
+  role: 'patient' | 'assistant';
+  text: string;
+  createdAt: string;
+}
+
+export type ReviewStatus = 'draft' | 'approved';
+
+export interface PrescriptionReview {
+  status: ReviewStatus;
+  notes: string;
+  reviewerName?: string;
+  approvedAt?: string;
+}
+
+export type WarningSeverity = 'major' | 'moderate' | 'minor';
+
+// Points at a medication by its position in PrescriptionData.treatments
+export interface MedicationRef {
+  section: number;
+  item: number;
+}
+
+export interface SafetyWarning {
+  id: string;
+  kind: 'drug-drug' | 'drug-herb' | 'age' | 'dose';
+  severity: WarningSeverity;
+  title: string;
+  message: string;
+  items: MedicationRef[];
+}
+
+export type UrgencyLevel = 'emergency' | 'urgent' | 'routine';
+
+export interface RedFlagMatch {
+  id: string;
+  label: string; // English description of the red flag
+  urgency: Exclude<UrgencyLevel, 'routine'>;
+  matched: string; // The phrase found in the patient's description
+}
+
+export interface TriageResult {
+  urgency: UrgencyLevel;
+  localFlags: RedFlagMatch[];
+  modelUrgency?: UrgencyLevel; // Undefined when the model could not be reached
+  modelReasons: string[];
+  assessedAt: string;
+  overriddenAt?: string; // Set when a clinician proceeds despite an emergency result
+}
+
+// A treatment course the patient asked to be reminded about, with every dose worked out up front
+export interface DoseReminderPlan {
+  id: string;
+  title: string;
+  doses: { at: string; body: string }[]; // ISO time and the notification text
+}
+
+export type QueueStatus = 'waiting' | 'processing' | 'done' | 'failed' | 'emergency';
+
+// A consultation submitted without a connection, generated once the model can be reached again
+export interface QueuedConsultation {
+  id: string;
+  queuedAt: string;
+  status: QueueStatus;
+  error?: string; // Why the last attempt failed
+  consultationId?: string; // The saved consultation, once generated
+  patientInfo: PatientInfo;
+  inputMode: Consultation['inputMode'];
+  description: string;
+  symptomSummary?: SymptomSummary;
+  treatments: string[];
+  includeHistory: boolean;
+  reports: ReportMetadata[];
+  files: FilePart[]; // Report contents as they will be sent; dropped once generated to free space
+  labResults?: LabResult[];
+  triage: TriageResult; // The red-flag screen at the time; repeated with the model before generating
+  consent: ConsentRecord;
+}
+
+// Local emergency service numbers; an empty district applies everywhere
+export interface EmergencyContact {
+  district: string;
+  label: string;
+  number: string;
+}
+
+// Letterhead and prescriber details shown on printed and exported prescriptions
+export interface ClinicProfile {
+  clinicName: string;
+  tagline: string;
+  logo: string; // PNG data URL, empty for the default logo
+  address: string;
+  phone: string;
+  registrationNumber: string;
+  practitionerName: string;
+  signature: string; // PNG data URL
+  disclaimer: string;
+  // Cached translations of the disclaimer, keyed by patient language
+  disclaimerTranslations: Record<string, string>;
+}
+
+// Which identifiers are replaced by placeholders before anything is sent to the model
+export interface PrivacySettings {
+  name: boolean;
+  cell: boolean;
+  district: boolean;
+  otherIdentifiers: boolean; // Phone numbers, emails and ID or record numbers typed into the free text
+}
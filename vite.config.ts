@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,54 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Everything the app needs is precached so it opens and works at camps without a connection.
+        // The Chinese PDF fonts (about 11 MB each) are the exception: they are cached the first time a
+        // Chinese prescription is exported instead of on every install. The same goes for the OCR engine
+        // that suggests which parts of a report photo to hide.
+        VitePWA({
+          registerType: 'autoUpdate',
+          includeAssets: ['favicon.svg', 'apple-touch-icon.png'],
+          manifest: {
+            name: 'AI Doctor',
+            short_name: 'AI Doctor',
+            description: 'Personalized treatment plans from Hikmat, Homeopathy, Allopathy and spiritual perspectives.',
+            theme_color: '#0d9488',
+            background_color: '#f0f4f8',
+            display: 'standalone',
+            start_url: '/',
+            icons: [
+              { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,mjs,css,html,svg,png,ico,woff2,ttf}'],
+            globIgnores: ['**/NotoSansSC_*'],
+            maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+            runtimeCaching: [
+              {
+                urlPattern: /\/NotoSansSC_[^/]*\.ttf$/,
+                handler: 'CacheFirst',
+                options: { cacheName: 'pdf-cjk-fonts', expiration: { maxEntries: 4 } },
+              },
+              {
+                urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/(?:tesseract\.js|tesseract\.js-core|@tesseract\.js-data)/,
+                handler: 'CacheFirst',
+                options: { cacheName: 'ocr-engine', expiration: { maxEntries: 10 } },
+              },
+            ],
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL)
       },
       resolve: {
         alias: {